@@ -189,6 +189,7 @@ class PushNotificationService {
       await _supabase.rpc('upsert_device_token', params: {
         'p_token': token,
         'p_platform': platform,
+        'p_locale': Platform.localeName,
       });
 
       AppLogger.info('FCM token stored in Supabase');
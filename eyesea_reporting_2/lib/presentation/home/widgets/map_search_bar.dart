@@ -617,6 +617,10 @@ class _MapSearchBarState extends State<MapSearchBar>
     switch (notification.type) {
       case 'report_recovered':
       case 'report_verified':
+      case 'report_rejected':
+      case 'report_merged':
+      case 'report_reclassified':
+      case 'report_under_review':
         // Navigate to report details if reportId is available
         final reportId = notification.data?['report_id'] as String?;
         if (reportId != null) {
@@ -0,0 +1,51 @@
+/**
+ * Admin authentication for internal Edge Functions
+ *
+ * Callers send their Supabase session token (Authorization: Bearer <jwt>).
+ * The token is checked with the auth server and the user must have
+ * profiles.role = 'admin'.
+ */
+
+import { errorResponse, type SupabaseClient } from "./http.ts";
+
+// Result of a successful admin authentication
+export interface AdminContext {
+  userId: string;
+}
+
+/**
+ * Authenticate the request as an admin user.
+ * Returns the admin context, or an error Response to send back as-is.
+ */
+export async function authenticateAdmin(
+  req: Request,
+  supabase: SupabaseClient
+): Promise<AdminContext | Response> {
+  const authHeader = req.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    return errorResponse(401, "UNAUTHORIZED", "Authorization: Bearer <token> header required");
+  }
+
+  const { data: userData, error: userError } = await supabase.auth.getUser(
+    authHeader.substring(7)
+  );
+  if (userError || !userData?.user) {
+    return errorResponse(401, "UNAUTHORIZED", "Invalid or expired session");
+  }
+
+  const { data: profile, error: profileError } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", userData.user.id)
+    .maybeSingle();
+
+  if (profileError) {
+    console.error("Profile lookup failed:", profileError.message);
+    return errorResponse(500, "DATABASE_ERROR", "Failed to check permissions");
+  }
+  if (profile?.role !== "admin") {
+    return errorResponse(403, "FORBIDDEN", "Admin role required");
+  }
+
+  return { userId: userData.user.id };
+}
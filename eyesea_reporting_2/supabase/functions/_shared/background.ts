@@ -0,0 +1,23 @@
+/**
+ * Background work for Edge Functions
+ *
+ * Lets a function finish work (cache refreshes, stats, enrichment) after its
+ * response has been sent. The Edge Runtime keeps the worker alive until the
+ * task settles; elsewhere the task simply runs on.
+ */
+
+// Provided by the Supabase Edge Runtime
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+/**
+ * Run a task without awaiting it. Failures are logged, never thrown.
+ */
+export function runInBackground(task: Promise<unknown>, description: string): void {
+  const settled = task.catch((error) => {
+    console.error(`${description} failed:`, error);
+  });
+
+  if (typeof EdgeRuntime !== "undefined") {
+    EdgeRuntime.waitUntil(settled);
+  }
+}
@@ -0,0 +1,3165 @@
+/**
+ * Country boundaries for the offline reverse geocoder
+ *
+ * Natural Earth 1:50m admin-0 countries (public domain, via world-atlas
+ * 2.0.2), simplified to about 1 km (Douglas-Peucker, 0.01 degrees) and
+ * rounded to 2 decimal places. Dependencies are filed under their sovereign
+ * state, and disputed areas under the country places.ts files them under,
+ * so both datasets agree. Rings crossing the antimeridian are split there,
+ * and Antarctica is left out.
+ *
+ * Each country is a list of rings - outer rings and holes alike, tested
+ * even-odd - as Google encoded polylines at precision 2, latitude first.
+ */
+
+export const COUNTRY_BOUNDARIES: Record<string, string[]> = {
+  AD: [
+    'shGsIJ^?PCBQ@IAGMFi@BEHB',
+  ],
+  AE: [
+    'i_D{~INKlBAFC@FRNV`@@DWRCGEAGBCNBHNLd@Ad@FZGTHBG@YVKD?Fh@?ND\\HNHILARBhC|@`A@NL}@~NaEbDc@\\IB_@?IE' +
+      'PM?S`@CLIBMBi@EYUs@I[@kAH{@D}AAQQs@O]ESOKa@OQQSEQQm@eAg@g@KCQWUOy@sAYQ[IAGBIR?r@DHG@S',
+    'w|Cw~IK??HPB?E',
+    'svCilI@LGLI[MOFEPJ',
+    'yvC{gI@BMBEIHE',
+    'cvCapIF?AR@DE^GII[HK',
+    'wwCmsIB@?DCLEDGMFE',
+  ],
+  AF: [
+    'mhFw~KC}@Do@TYBWIWAODEBKAQDIJCNKPYBUM[@IOGIQG_@GQGEA]IGAI@Ih@}@AEQUOCUDQCKMG[Ce@@WHS@OGMOKUAWJEA' +
+      'KSQUu@g@OWG[Fa@Ti@ZM^HP?BGEm@BEH?JDf@F|ANv@SVMDKBMAMi@eAOi@I{@[SS[[}@Ia@ASHo@FAH@FLDBBC@SSsAOQAQ' +
+      'Fa@A[Ra@JK?HCLGFXfAB?Va@d@bB@FMl@B`CFbBJd@Fb@DPLJZv@JHA\\\\^`@l@NFFEJWJK^OVGHIZENHF?TMNLXPR`@PLRTN' +
+      'FLRRIJOp@@LFLf@Df@A`AQ`AFRTBb@c@RO^QPMNDb@bABj@DXFLd@HLHNAPHJLRH`BGf@f@LTFRCPUTGL@NFNCVGR@JVZXv@' +
+      '@TDHJCFIDOFAJZH\\@^C`@KPATHPLR`@XTf@THd@Jx@CXDNFLALKRNDHv@xE?pBBXDVHRLLGXMnAPxECTuApHaE}DOC_@?k@H' +
+      'QRWfD_@DMAs@@c@GO?aDt@O?c@_@e@g@E@CR?\\EPIJMBYGq@Fk@]Aq@_@XADE?EA?KS]KA]WK@a@OWFK@GQ_@KGEUBAQNMPW' +
+      'DO@SCs@\\m@FGJCBGKOCMB]EOe@iAe@KGI[JECAa@]oB?]AEIAGGWu@U]QIkCs@Uu@A{Ak@QIGIO^eAJgA',
+  ],
+  AG: [
+    'oiBv`KFDATQDMML[HB',
+    'ylB|`KB@INSBAABMDE',
+  ],
+  AL: [
+    'udG{wBg@CKDGHa@Wm@g@KICIFGN?HIMu@DGb@[DUDKJOHE^KP?h@NZAHJXGV?ZOLQXIBEAYBKHEL@VOF?XNFZ^P`@JFJDd@D' +
+      'BFND?TMF??LRFHJANGLAJQ?o@\\a@fAMPYN?GFOGCKB]RG?YG[Oc@?YCODU@YKGIGE]?MT',
+  ],
+  AM: [
+    'cwFyvGe@h@U^GTDv@ALUt@GGe@REAQHQSOGMAi@PYb@I@CeAOwABo@CQ?w@AAGFEe@FCHMHSB?DVB?Lg@?SBIFER[H@Pb@FB' +
+      'D?TOTUd@mAHA^P@B?l@@DBBBONYLMDOd@s@EWJ_@N?HRD@b@k@BFAXBBB?JMFC^??`@F\\AJ{@^KE[h@UEKBAD@ZJ\\GTMRDNA' +
+      'BO?GDMPH^',
+    'm_GkxGI??JHA@E',
+    '{|Fu{GBFADG?AE@I',
+  ],
+  AO: [
+    '|[upATn@n@n@PZB?JMlBBBBFt@YH_@I[DaA^IKa@YCSGGSGQq@S_@BO`@a@',
+    '|bAytChBOn@NNCnADl@GL@j@N^D^QD@@V?rJlQ?|@KbAUP]V_@~AcBdAsAfAfK?HGN?b@Hf@@^CVIVKVEf@Bv@At@KxA@VCT' +
+      'EXMTs@l@GPAzWBnACN_@p@QXSNENGz@HZd@pA?bAIP@RJVB^kAGa@GmCB_@HU]QMWIs@IyBi@wBSw@W_AIqAeAq@OYc@Ys@m' +
+      '@c@a@Q}@S_A@wAMWBa@PYBWNQR_@Hs@^a@FYN]@_@FcA^K?MICGLFFA_A{@KC_@@SAuBx@mBl@u@DiA|@oAb@MJECQaBQk@G' +
+      'KAWBUCM?yBDsAEiG@sBDWLUNMLEFKNCTBVA\\E\\M^UXIRBREf@c@zBkABGEaAFSAGO[Iy@EO?QJq@?o@Eg@}@Ee@Ue@A[GSYI' +
+      'i@MyB?U@Ad@JJ?JCFI@sBBuBBEPEb@@t@Hn@Cl@SdA?~ALz@BVIZQX[b@Uj@OZCHBR?ZEPDHNJBVGT?LK@E[q@DgBAOSo@AK' +
+      'FiAEMQE',
+  ],
+  AR: [
+    't{D`gJFFJ?PJVVPFVI\\AJBBJD@JEN?PBRJVNNBDGHCF?\\HJJFLHBLEJ?LBJCLGL?\\NPBnAIVNAXFFlBXPC\\M^IXCJFHP^ILI' +
+      '\\[h@gBXi@`@q@`@Y\\Ah@d@b@DXGTO^c@H[?e@FEFCz@EV?TJ`BfAz@|@^Tb@FNRt@hBl@dDXdCF\\\\~FAt@Bj@Gp@Gj@UVA\\H' +
+      'FZO^FPGBQT_@@XNShAHJ^JFp@L^DRGh@[ZHNPj@pBFp@@pAA\\[dAQr@Mn@Gl@CEEACJAHN\\LJLB^@XE`AUb@Aj@HXMJQJg@F' +
+      'O?O@EPLJA@]G_AGGO?Cd@ECQcACSNSPKXE\\AZDTLLdACPSPUDOLK`@B^R^F^PJ\\oAJ}@PTNx@HVR\\l@f@HJJD^Dr@MTLVGNB' +
+      'VLb@x@ZHNSJ@LDGlBJ^\\l@Hz@DJ~@~@f@Xd@`@NFV@b@IPITWzAyBFYFaCL]ROPEj@DLFJNN\\Hb@DIEo@BMPIFRRTr@hANh@' +
+      't@hBVXZh@z@j@H?FEfBVJHJNTn@@TK\\KNm@b@F?LENBDp@DLAm@B]DMVUDFPx@Rd@VRNH`@HT@PNNXBAK]TKf@O\\ERD@z@BR' +
+      'DIASJYC]FMDGz@m@z@y@HFMBGr@U`B?v@Y|ACfKEHOC[d@IX]ZMGa@MO?IJMBGCEIWEm@JGHEVFTAd@@JTh@CLMDULg@JYLU' +
+      'Vi@DWKQDWNWEKMQCA_AU@c@WEIOq@KOIGYC[BGEKOI[[MWFQNIRQ@}@c@O?]o@SKGYKAIJM?e@CGQOWKEM?s@J_@VKMKWQKM' +
+      'HGLWB[CIKCc@MCU[S?KPe@^Ih@El@ODIABSGcBDSCSYGMKMAIJKxBI@k@CGG[Qc@TIIIAKBKNQNQ?I]KAMDMt@EHOHi@Gg@D' +
+      'UQUDKFIASOCGFICOISIAw@PWLQGa@BcBCSLSAq@YGECKGAGBINMBICGG?KMGYCKDe@HGEAGBKAIOAm@UOAm@BIEOUQg@C[KI' +
+      'OGKAQVs@H]@w@ZYBe@K[Lc@Og@FODOEWQK?KAEOMOAUCGUEMSKKCSMKc@@UE_@FQAMHMAIBCJKDEEM[m@I]IG?]O]UYICIEW' +
+      'EEaBFYAg@OWBENDLAHMJMDSCMIOCMRc@J_@AGJWDGJe@FG?AMMGON?JGJu@Xq@Ca@GGIBGAGSOWFk@Oo@UI@ECDIE[OIMCGI' +
+      'IBGRi@ES?yARMESSIM_AQ[AOG]EWYQGAIk@e@IOc@Iy@WGKs@QEOAKFKAKKIIg@KCQ?i@`@]PI@WAMIYWqARq@Pq@KOGAMEE' +
+      'ECGHYFCJKDQ?WIEKKEOWMIgAsDmEcAc@d@a@[SEGGSe@[IIGUeAKGk@MEEDWHGj@y@@{CNy@FSZMlA_@LIm@IiB{@GIESDG?' +
+      'KEG?gD^SRWD?JOPa@`@_@r@[d@[VYPWPa@DA`@y@RYPITe@RcAHo@?]Nk@z@{AJKTc@l@{AHi@HSLIBKEKDULc@P[d@a@NKJ' +
+      'EJ@`@b@NDXPRBXd@FDH@NJLBp@AHHH@FBDHB@FADDDPHFJBHHHLLBTGGuAHgATsAFw@E[?SHK?QCUBSJMAMSKMMIOAQBWDQJ' +
+      'MAMIQMGO@KGEKIIKCGOA[EMGAYa@KEEGCKWOk@M{@IuAC?MDG@IEMCYGGAKHK@OLIBMx@Mt@]J?JFnAFXEn@VFPNTFLEHFFP' +
+      'JFLF\\ALDJHHB`@HHTDFHBNDDFADFDZJTNJHLDRN\\J@FIFCFB@FGXBDDBFADDBJFDH@LLPXTP\\LPPHPJLPDXR`@`@X\\JXNNNB' +
+      'PNT^',
+    'xuI`lLwLCp@y@NKRGKPFRVPF?FEDSBm@p@]fAeBXi@`@sAPg@Xi@Pk@VaBCkA@WFMTLPRDVBXCn@@TFTBl@Hj@CVQz@Cf@Eb' +
+      'CItA@nA',
+    '~tIlrKBUCcABMAi@F@FZCJ@x@FX?JJXGPEDIMAKCI',
+    'xsFvaKJC?JKVOHHc@',
+  ],
+  AT: [
+    'mfHqz@WOOAIRAE?SISTy@FEF?@EBSNBEYKKIEYG?k@DO?YB?DELO@KE]@CAQGMECQaAG{AECK?AAD]HWEg@DQDEHBBEJ_@?I' +
+      'c@GGDCXQIO?e@d@E?IIWu@Io@EKEEc@IAEJc@CKIKc@ENa@PKB[?c@GKAKDg@MCOOCE?SKE]CCC?ODMBCC]@QR{@?WTo@@}@' +
+      'KU?KLa@Da@RMH@TNH?d@UVSFCDKHJJ@DFD@XGBp@@DMf@?FNX@AHi@LGPJHR?ND?RCHFLC@GBATF@VDNT^BHFJP?DBEf@@XH' +
+      'NBTAj@D`ADHNNJ^FHUnCIbAA~@ShCEPo@l@IDMMC??DPnAAn@Bx@FTZRBF?^ALKLAh@ADEAKFELX`@@HEXKVMFERC^IEOHKB',
+  ],
+  AU: [
+    'viA{}ZVDPHXAR[RGZUR?VKl@Ih@CZKz@FVGRIlAUHMJ[M]QSMs@VWZKxA_C^Fl@G\\Bj@Ob@Cb@QdADj@Wp@i@DO?M^@|@]r@' +
+      'ObAJf@HPAn@e@FUx@DZORSTi@H[Ba@X[B[E[PQ\\O\\]DULMD_@JUXc@B_@FMZ_@d@W@LCNTH^Uj@u@^]XEHGb@IRWd@A`BYb@' +
+      'WAKGI^_@ECi@JYGCSh@]d@}@?GM@U?AIHI^QvBCv@Kn@q@NKFQd@s@BM@WN[NMx@_@TMf@aA^Gn@]L[^Wr@Ab@UHSFGbAPfC' +
+      'Oh@Fh@OhAc@XI\\Cd@Yx@@ZId@Bd@Zn@Th@?lANTH^DnA^^@d@EfBRfA^r@l@d@@f@NVZHNLF?LB?BIFDJf@N\\z@f@\\X`@HJZ' +
+      'VEl@FJFEFHNBUt@t@f@PlAPREB@@DA@DJFBHGHD?JDJhAd@p@b@x@LtAL`@LXDl@@b@GPDP?PDBVb@n@FPDb@AfAFfCRjAXp' +
+      '@^n@vAhBHrAA\\DLH?TWMQBGj@AHDFHEJG@i@`@GPLXm@\\Ab@Wh@WKEOOBMFAT@NZRVl@_@n@?e@Y_@WI[XIRn@`BDWAMHOLX' +
+      'Lh@Tl@n@x@Vt@Kf@CTQ\\Mn@Yl@K\\CVD\\Wr@Ah@VXE^e@j@Qf@IjAYn@s@b@y@bASPUFO?}@UQAy@Xu@b@u@|@[f@ULBSKGCM' +
+      'NI@KW?KGIHEPZt@HF@\\Ph@?XEf@WK_@]}@Us@BSHk@b@u@`@^NXPt@HpAb@@VCTHd@JV?V@JAP_A[AiA]K_@Gk@Dk@E{@_@_' +
+      '@YW]W@]HUBEMOM_ANSHQNn@A^TTZRRn@Pf@TLTHd@\\|@NRHRnA|@l@l@JAHI`@IFDCHSXNZc@`@W^KPAFBLIAGIAGT_@?ICC' +
+      '{Bl@IDw@z@c@FWJMLMTC|@e@Vm@NCYMCUB[z@[ZKXET?bAk@xAATL`AAT}@`B]`AIp@Ld@D`@C`CNzDFn@d@pAb@|ANlATfA' +
+      'Fn@@z@I~BFj@h@dAHTHd@t@dBJn@B\\HXVT~@^\\Rn@j@NZA\\N\\QZCT@b@R|BWPAT?j@E~@FtBHx@FTEh@FfAXj@t@b@Pf@BdA' +
+      'dBvCJv@Hv@MvA?t@GdAWz@Ml@u@t@S\\Yx@@NDLOVW@QDkBCXe@?c@U_@_@Qc@Me@@aAHMEEKa@AeBCe@FoAp@cA^]Tq@RcAP' +
+      'c@B_ADc@EU@y@Ru@l@SFS?YHq@d@i@b@SFwADe@LcB~@uAjAo@\\AELQ?CEEO@ICDE`A_@VED]QSa@CMLGLWVg@Ne@TK?IIBQ' +
+      'h@a@j@DFAFEDIGGSG@El@KJILSIQIG_@B_@EWB}@j@iAf@e@Vy@Rq@\\}@?s@M[K}@i@eBGSDa@PkCw@KKISNCt@HZM^BI_@Q' +
+      'OoAk@WUO]U{@[y@Y]Wa@WWQWkAkC@y@C[L]@WOu@M]]s@IUUmBu@gAH}AOe@IuAMm@o@qBWc@_@_@i@]y@[w@]KIQc@m@q@I' +
+      'QMAIHCLsAPW@WCa@SOMQSEQOOMWgAg@@IrAa@b@Yp@Ul@c@IAK@e@I[BI?CE@GT[AEW?OIKB@NMDOLILc@VCG?IIIOCWFGG@' +
+      'Od@YCKMGCO@QHKJU?mA@OE@EP?h@GJS@MEEA@]Q?]MK?@F\\RWHQNYC[GAMBI[YI@GA@KVk@LIEGYA?^GDEAOHIO?KGGMCDEB' +
+      'WLa@ECM?OZK?QJM?MQMACK?QKMCOWCO?CEDMRBP?HB?EQIDOXEBGSKCMY?]EGIMAGDQDCMFK^OCGOCGOZa@MUYSQBOCIWFUP' +
+      'QJe@Ra@^i@TQb@Yl@y@FC`@N`@Fn@@CGOI@GJIKAEDUJK?IIWc@GAGMCST_BTSVAHGOEa@@GGJe@VUHCFIIA_@FOECi@EFAJ' +
+      'MPMJOSA??PMXSRc@Oa@_@KQKAg@MMAOGMSIg@]W]Ve@EO]e@OEI?WAIk@?CIBMLGJQGE]DE_@Y@CEAa@UMDCTELS?y@I_@Hc' +
+      '@Qc@HWJGWEIMCMBSAEONg@?UCOC_@d@Cf@D\\EJWXIVE@Q]BKT[AGKCGGBO\\k@ZWWc@BSFK`@QPOBa@Pa@AWBs@Tm@LSFc@@W' +
+      'Oe@VYPa@De@QYMg@S[ISQS@ELNH@BMB@^d@JADEQg@FMZCPI@c@WMUFEFGCc@a@@S`@MRUAWBKTIvApAFBNIPCl@X@HKHGJF' +
+      'XVn@~@?d@KVFj@JZ\\|A`A^GNO^{@T[Xo@`@OZy@EK@MRBHAHQAi@d@{@^oAp@i@Z_@Rc@Ls@AUNg@Fe@TS^G^SHe@^q@Li@P' +
+      '[?a@M{@k@_AoAYgAs@e@MmAWa@By@KmBc@i@DkAN_AMk@TY@q@Ky@W_AF_@a@?SBGKAKFM@EDAJOT[Au@WSKLQMAOBu@QgAS' +
+      '_AEM_@OOQI?QFKVJZa@TKd@KdBERW?O',
+    '|_Dw{\\DDIFc@DSC]KUBW]KGQAQHAHIGGO@C`@CLKN@xAh@`@J',
+    'pfB}fZPNAFHDFf@E@OASMKKEa@GYVU@Z',
+    'fuAmuYHIAGQIFGFALJ@D^JF?HGFSCKLBFFCX@TId@?RCBEIIGWB]CMSMIGO?GH?',
+    '~gAknXBOFGDCHABTMb@Jd@?HGFUEBMGKW@KFWSCG?INGP?NI',
+    'bfAkoX?YM_@DOAEMWCOIIJIJWLGJKLLN@ANXPj@bAe@|@WXa@P]@OFGE?ERQDG',
+    'xaDkbUFB}@f@i@HGGAEfA]L?BC',
+    'j~E_{YBo@EQDWPMHH@JG`@D`@FHPDHZKLG`@JJCVDVC\\[j@OGKKQyAMo@Dq@FIJD',
+    'tnFil[L\\EJMCAY',
+    'poFek[LIGP@ZMQ@M',
+    'x}Bob\\@HCHYGLCJI',
+    '||B{a\\AHMGCGP@',
+    'xqCuo\\DE@KL@VMJJGHi@^ME',
+    'njCwk\\AJGCKABENE',
+    'tiCah\\DFMBO?CGRC',
+    'njDs~\\t@P?BID]?SG@O',
+    'viD_~\\@BQFSBQCCI@G^F',
+    '|aAgxZHPEHQ@IM',
+    't~@sxZJJCJEBICAO',
+    'l~@qwZDDKFMIFG',
+    '|pBgq[RCLGNFEJQHMLGB@QEK',
+    'bfAwtYJLI@c@YIK[CAIb@F',
+    'ngAcsYN^SQUi@F@LP',
+    'raBywYFFGHI@CHUMJKN?',
+    'r`BkvY@@Q?GEPA',
+    't`ButY?LIBGCAM@C',
+    '|iBsfZBFG@GIKEHMHA',
+    'juAorYBDCPMAOQFGNA',
+    'reAu{XBB_@NGEOFAKKGDATAJE',
+    'bzAomWJJIHSEEG@GN@',
+    'f_BwiWDFAFG?GFMG?EFAHI',
+    '|`CqpUNJCLG@[WHE',
+    '|}Foi[?WCK?KJMDO?SFIJ]JQRy@Fi@Cq@K]PYK@ICMY@WGi@F[_@_@Dq@QS?KLe@RM^@n@EVBdA?TETBLGH@JAF@?FW@GDGL' +
+      'GKIBFHJDBCNPPHP@P?XPP@^AZGf@CBD@TDHSPSHGGBOCEI?KTCVDFPCD@DP[FSTH?PID@H@BHFB\\BFLS`@J@JQFHb@LTPA`@' +
+      'Q\\?fAF\\UDEDEAEW@WGBGl@@TILo@d@MVmAj@}@LTa@LMNESKG@W^ODFD@LQEQBe@d@e@Zk@XOBs@RS@g@KUAHS',
+    'vyFqb[?DKBOAOHMEQ@GCGKOA?IJQ\\EN@NELDJL',
+    'nwF_|[b@c@HWL@FFFMD@JRDRIJg@^GCMD@LGFGMSQ',
+    'fnG}w[RFCNBNMFC?BI]W?ELE',
+    '|iGs|[@LO@IIDMDEDL',
+    'fmGmx[ANI@CFOIFI',
+    'd|F{g[NDUFGO',
+    '|zFa~[JQJIJL@HMDDRAVINC@CI?[',
+    'f|Fo}[LHIJC@AS',
+    '|tI_`^FDI@e@KGKT@',
+    'p`AwsSLBGJAJIAEW',
+    'bkAg|Q@G@DC@IBFC',
+    'dkAw|Q?DACCABA',
+    'bkIukMHVAXEHWNAHGDAKDODg@J[BUBF',
+    'jtDsx_@BIJDEB@BE@CC?BCA',
+    'tlAmcW@?CB',
+  ],
+  AZ: [
+    'yvFcwGIHMs@LQFEN?@CEOLSFUMm@?K@EJCTDZi@JDz@_@QjBGPYZIPEJGHIDUTi@^',
+    'goFmpHFn@AFc@`@CF?LEHOHSd@EBE@KKGe@GIOBMZMBMCIYGKIFm@v@ATFV\\x@^x@^f@DZp@z@AJ_@?GBKLC?CC@YCGc@j@E' +
+      'AISO?K^DVe@r@ENMLOXCNCCAE?m@AC_@QI@e@lAUTUNE?GCQc@IASZGDCH?RMf@C?EWC?IRILGB_@w@B[P{@HBDEFKDYBUE[' +
+      'Vs@AUMQYGIHa@|@QHAJIBOCCSEISOBUJA@CEWBKd@o@DCLYJMZIFKHg@Du@AMq@g@Oo@KQq@c@JQ^a@r@k@LKb@KPKl@m@NS' +
+      'Zk@?i@Le@RYXKGl@?j@Lp@JVRLp@Jl@PT?RGH@LPh@LFFDFQ@GRHHVDZN',
+    '{|Fu{GEAAH@DF?@E',
+    'm_GkxG@BADI@?KDA',
+  ],
+  BA: [
+    'aoG}vB@TCT@BD@ZSL@?HIHANV`@NHV@D^DBd@ETMDANPG^Qb@_@v@IFAJ@LGPCKCCKF_@j@UTEBU?CBI`@s@hAYVi@x@QP}@' +
+      'TCH[`@QZQ?_AIGS@MBM^g@BKi@o@Bs@OYTi@@OAI@MFa@G]?GNW?MKUB]A]Fg@@a@HQHELADI@S?SGg@DUBANDNF`@Z`@DJE' +
+      'BOHU^i@DED?BD@RAZDLr@q@JANHAHCF@T',
+  ],
+  BB: [
+    'wpAxrJBDGPID]@CKVSHK',
+  ],
+  BD: [
+    'aiCqkPe@?eAXGAa@Dg@H]OCDGb@GB]G_@ZMDaAYe@EQ@INCZGRKJEHBLEL[XOCg@UAGFWOKm@O@iACMKKE@OVQBEDA`@GREH' +
+      'YPQTCREFIDg@Mw@y@M?GPOCAIHSPSNKJ?F]?[GAQJEE?MDILETAPOLSDODSEOKGKBKCEE@IFGl@URBv@Eb@DF?HETsABe@Ci' +
+      'DFe@EqBJ_@Ra@LQFCD@BF?HGZ@BT?v@TNBFD@V^LDDGN?FBJNRBF?^LFRRr@LNAh@Qr@KDC@EY?AE@G`@MFG@MCMIKKCc@@M' +
+      'E[]e@@@UGUFG?KfAQlACDEj@SrCQ|AA^GFD@DKDWh@@HLLLDPAPCHIt@K?@e@Te@\\eAFa@?e@ReAPWGHJg@Ti@^QHO?NLJRR' +
+      'PDL@f@WViAf@c@Ca@F]@@BFBV?Gx@PWBYNMZANXJANMDPHBN@VMF@^ULARBh@l@\\LLJ@LMPYC[WJZNTSFODU?_@QNRRDVCd@' +
+      'JJHFPLFFJi@B{@LL@b@EV?PHRR@LAFKLQL[B',
+    'qiCuxPJTqAG\\OPC',
+    '{jCg{PDHEFQJYECCf@Q',
+    'aiCkvPFb@CPs@a@W?QDOPI?OFQBCSHMRELG\\YR?l@F',
+    'mgCe}PNDKBWEHE',
+    'meCu}P@JEDGA[@AMTE',
+    'onCouPFCIRGBEG',
+  ],
+  BE: [
+    'e`IkYD]AEKBGWHQ?IMWFIFA@EAQKQBERGLUBSEa@PYD[FOF@RLD@@ANRD@JIBK@o@\\q@HLDABC@QFIXCPb@TJEDCTPT^XT@H' +
+      'KTQRJ@DDv@a@l@G^KTAZWDIHc@MAFHTRHFT@b@Cj@E@IIG?IJUGMXCP?f@DJCBYFCFEt@CHYFMHILLt@GNY^EBICQJI@_@uA' +
+      'Qs@EYPEFI@GIU@SL]?MG[KYGG',
+  ],
+  BF: [
+    'ucAsD@r@DP?JG@c@zCH@DF?NNJNZ?BKH@f@EZ@d@C|@BJ@dFA??Nt@NZ?ZMBID?FDF?FGFAHBTA`@ET?HDPAXKHCHN?Hs@`@' +
+      'KRSLIJBLGx@?h@b@~APJ?LENGH@PIRORQ\\WDe@RINEN@VINMJ[Gg@Cu@DQ[OI_@I]C_@JO@MAKKOWK}@ISMUOGUWo@AQJWq@' +
+      'QASFMHMBe@c@MSCSDSb@u@@ICKOa@WEc@?OCAID_@AQEEU@_@KWQ_@e@GYRcACKu@QIw@Wg@e@wAm@y@CQAYBOHIIa@\\{ApA' +
+      'Jp@k@TD`@Ot@e@BYL]JONGTc@DDEb@d@BXCBCBQfA{ADm@CIOW?W@CJKRITAH\\B@NEjA{@h@Rt@|@CVFr@IF?XBDXNFP@NN@' +
+      '@FFBFABDCNPJ',
+  ],
+  BG: [
+    'ieGanDCX@HBD?ZFXEJYb@AHDl@LXBr@BFVLD\\DDH@CV@PJFDADEPGNAHDFJF\\CXDr@Jv@OVGZEZDNO`@UNADFRA`AJD@B?XL' +
+      'n@Ah@@d@LNCn@CAq@CUKC@GJi@RGFOj@IN]^COUSK?GHQDWEGDIEGQ?]UQU[QGKVSPSh@MJODMDGHMBO?UEGCMc@M?GEIM^a' +
+      'AD@JTFFHBFCDIG}@B}@JqADw@Eg@RqCBcAGc@K[SU[y@Mu@MgACo@\\cA?YBUFME[`@a@N_A?k@n@DTRGZDd@XPNT`@Ft@?DL' +
+      '@Ln@t@L_@HMz@u@',
+  ],
+  BH: [
+    'w`Di{HLDCF[LQCYFGCAWFDNIVA',
+  ],
+  BI: [
+    '~M_~Dn@XHGXFH?HQLs@BCJ@HCN?NBDTFHBBHC`@f@ZHHDLNn@Vj@f@\\l@A~@gALc@TO@}A?}@Aq@f@[AKE?GBSHSVIBGC}@C' +
+      'OIQKC_AG?GN]ACKQGc@LMBI',
+  ],
+  BJ: [
+    '{e@cIE@Ia@YF]REFOBIC[BUHAS}F?{CDQD[\\OFS?UDmA@G@gAlBE@_ACGEo@O?CGGICBOCEG@GCAGOAAOGQYOCE?YHGGs@BW' +
+      'u@}@]M_@Ie@HEAGSGc@IOEO@Mp@u@XWJEHKDQJOPKf@RR?~@m@|@GVMFA`@HDDCNBDVLB?TMp@PJNFXDDTARTVNXAXFTLDt@' +
+      't@FbA@LBRAnABFCh@AZKF?HD~@AH@FDXAZGTFl@BTpD',
+  ],
+  BN: [
+    's]snU\\QVG`@ANIDF?FGZ{@Ni@?',
+    's]}mUZn@FFr@GLIF@LH@ERFLHJJBHEFKJ]P?RGDI?YLU\\Cm@IYKUm@{@M]?KJ?',
+  ],
+  BO: [
+    'llBlqLW@KHEJI@IASYAKICu@k@Yc@SBKAICQa@E@IJGZ?NMPeBf@G?g@W_@YGB_@ZOF_@AIO]Ik@k@UAGEEQEAOBUNg@HSJQ' +
+      'KQGWAcB@WUMUO?UMuHpD@eAHkADMJABGAU[}@c@]QQEOA_@DGAMa@[W_@EQGIAQGOy@kAO_@M}@GaACk@FMAOMMCQNKNELBh' +
+      '@ER@f@XJ@f@Ib@KXCPHLBL?TMN?LGLMLER?BCGG@EPI\\IH_@`@k@HSd@QF_@H_AK]@SFS^o@DSGMCKBIZId@s@?MXcA@QAQD' +
+      'INCl@k@JQAi@BMIuALa@l@oA\\QNCNDDDHBNCLKn@KHG|AE@|@FIbAy@|CKJgIIg@h@@^VH@h@C~@MHGl@gABQCMJGRAxAe@J' +
+      'GFKBB@FDB|Bh@@IVA@JDBbC`An@u@FDFXPL@L_@Cc@FiBtD@vDdA|IpA^bBfAdB?fFhAMP_@P?hDDFCZBJFHhBz@l@HMHmA^' +
+      '[LGROx@AzCk@x@IFEVDDj@LJFTdAHFZHRd@FFRD`@ZLjA?XANKPQ@SC[@_@LY?[FOPm@DYN_A@eAl@ERCDc@?QMa@p@GBG?M' +
+      'MOFO?EDE?CECYOGM?GBWVC?y@o@C@U\\[ZMRKLKF_@@]HkAJ[HMIC?Uj@a@H]X',
+  ],
+  BR: [
+    'sF~`LnAyAHOBIGo@CKYe@GYHUPIPFJA?Oc@UKSc@_@]w@@Qg@o@Ac@MUQQy@MCEGMASM_@MUCUCEKGWCMBGhBERCDa@GYDi@' +
+      'Rg@NkA?MJo@x@UROD[VIE@MDINIBG?_A@MJMRIFIAiAHWI]?GBI^]LQRO?UOSu@COECI?IS[CKJs@e@uBUOEUQQBc@GSEGWI' +
+      'Oa@WUUEODOFGLCQDM?WCI@OKQBSRKJQbAFZRLBBGDw@RY\\Fh@WJKDATHLLH@Tb@n@ELFx@Rz@B`ASPY\\Cj@BDCDMP?HY`@_@' +
+      'BGHCNQNs@RUAMMSAc@KCQBEGAOUI?CF]DE?UKGMACUEM?g@EKc@YEGCI?ICOEM?EPOFa@Gk@@KEOR{ACKEE]Cg@^CLGAQUUE' +
+      'CETm@EeAIEK_@?WIQHARQ@ECOBINCDG?GFMFGFOH[@KDSm@gAFEJm@Qc@FGPKDs@EMKEQa@MI[QO?i@UGE]KM?KEQSSMw@_@' +
+      'IAEIIAQSWKMWa@QOA?QPYXUrA[lAEf@KtA_@`@GRI`@KD?HF?KDIRE`@WFu@J[LQn@O\\DTA~@lAPHTVj@Vf@b@HJ@PDJ^XHb' +
+      '@RBh@RVRFHh@\\RB^?RRJRZBHFDFGh@d@tA@eANUIq@e@{@IWYm@OSUa@GGIQJKF?NNTMr@K\\UV@p@y@Q[CQGIEWRw@g@oAzA' +
+      'ZPHn@FZPKWSK_@IsAg@GKI_@cAw@?UNMFMQAGSGRIBM@QMOFU[O@YWGMIAEQJMOOEMLWKYNQBIQFECCGBYDMLMAe@FI?OJGN' +
+      'YHCJg@?g@L?BOCQPOJe@R[CODSh@U\\CCIe@SGSV_@XY@MLJAKGMf@SRAb@VDRTS[OGKCORIRAFZL?PLpBXJ?KSg@c@oAYMOB' +
+      'WT?\\TJEm@s@@MMYCw@QAEK@]Ly@LUJ]LQXcABq@KWJ_@LOF_@B_@IYC}@MqA@m@Hu@Xg@L_@LSL_@d@aATW\\i@Li@^WLQt@k' +
+      '@b@s@d@_@VaAf@WDk@DSNUH_@Cg@@m@Gc@NuAFMNQ~@]dASr@Ih@SnAKVIP?BIt@CR@ZFRAVDVGR?VH~@NfBd@z@b@|@r@^^' +
+      'BLEJNGNFl@`@Z^r@b@Tn@NX\\`@l@\\FFCHV?d@ZBFI?OGI?DFZNTE\\JxAj@jAt@TJp@j@X^ARg@D[^XJDF@JHMLCVLV@h@d@l' +
+      '@JEKHG\\Hl@AHBJGSIDCzBVx@I|@AxBW`AN|@Rr@Jv@FZFZBjAK\\VLXLNr@^lAPh@?tAG`@DVHNJP^l@Zn@JNRZBZLh@h@LXJ' +
+      'JVFh@Xr@PTE|@EN@NV^zALVt@v@JBRAHI^RAjBDp@?XMVIBOEIB@LBLF@\\GHB@\\H^HhAGLEMBUGUGBK^Dd@LRAj@Jt@HFRAB' +
+      'IFIJRHv@f@r@BVPPL@FD@LGXAb@DXxArDp@t@x@xAj@x@?DFNDE?IRBLPb@b@CFQK?PGXFJPEFH?`@MNVGJs@HEj@ZBXD@?M' +
+      'LEn@FHJ?DFFZSx@Db@Kb@CZGJFTEd@Lt@Ep@@XDRFXTZ?Vj@`@p@h@l@v@p@vAx@|Br@|A~@`@Xd@`@j@l@j@|@f@bAPVXVK' +
+      'DOE]BAMHSMQCWk@m@Oc@[SMA]?GK@WGEG@UCQa@UOu@DCEHOCEWEM@APXv@?RU@IZQHKBCHf@CVWTPVF^AIFEFb@BJNLDLEJ' +
+      'HXh@Rh@FFj@JRPd@Nf@ENGHJRNVLvA`@r@ZXTX^bAxAK\\C@aB?SIKQu@u@KFILIXOXSTcA^MVGFQz@U\\s@j@S|@UZDHENKPa' +
+      '@Ta@d@EF@DJFVZDJ@XQB]CKF]ZgB`C?f@FPTLBBCbAMJIIU_@QOOCOOKYY]a@a@YSQEKMIQQQ]MUQQYMMIAGECKEEG@ECCEF' +
+      'YAGGCGBGHKAO]ESIMOKKUE[EGG@EECOGIUEIICa@IIEK@MG]GMQKGGDIGMOUGQo@WYDoAGKGK?u@\\y@LCLMHANIJ@JFFBXDL' +
+      'AHEF?L]?i@[SEI@g@GcASk@EUFM?OOOXMLQd@`@dABRBTCRANGHOBc@BUNW?GCSDM?S@IFMBM?MDO?MCMAIDEJOFS?KHGH?J' +
+      'EN?f@AJQRQHAHBLXT?LDL@`@Mz@BPGn@ILENFREZKBG?SIU@SCi@BYMKBa@KY?ODCDE@ECKDECKDEJ[DIAc@VYFAMQMGYGEo' +
+      '@t@cCaAECAKW@AH}Bi@ECAGCCGJKFyAd@S@KFBLCPm@fAIF_ALi@BIA_@Wi@AHf@KfI}CJcAx@GHA}@}ADIFo@JMJOBICEEO' +
+      'EOB]Pm@nAM`@HtACL@h@KPm@j@OBEH@PAPYbA?Le@r@[HCHBJFLER_@n@GRARJ\\I~@G^e@PIRa@j@I^]HQHADFFCBS?MDMLM' +
+      'FO?ULM?MCQIYBc@Jg@HKAg@YSAi@DMCODOJBPLL@NGLBj@F`AL|@N^x@jAFN@PFHDPV^`@Z@LEF@^DNPPb@\\Z|@@TCFK@ELI' +
+      'jAAvACx@Vr@@L?RUZJTmF?UMQDOASIFRd@n@RPN\\VVBRBt@ApB_@AMPO@YHIJStA?nAy@o@Y?u@l@MROJQ?Yd@I?UJI?MDYZ' +
+      'GACGSAGRc@b@IGY?Gi@EEI?c@Pa@IOM]e@Sc@COEKKGMAK@o@Ra@O{@c@uAOG@GCEKCYa@m@UWGQq@sAE_AEOCWEO?QGc@c@' +
+      'a@AO@e@CYFKJCHOAUFO?IEEkRqBUHQ?OPWFGDG@OEYFEFENY`@WVKDoCCEo@WcAJOBOBEAYMD]C_@REHAHBNCDA\\@RCNBHaC' +
+      '??ICKAQEUF[@O?cFYLUEEEDK`@SFG?KGUq@i@EIIS?KDIlAm@NEpA?DC',
+    'l@duH?SCYGOAg@PwBHYHAb@PXDDB?HTEPDj@XVZRGJDPRDTAHQN\\DFDATO`@V@NLH^DHETIRAJHF@l@FRALQPaAVYFUEBYAC' +
+      'G?E@@VMLS@k@AGAMIk@EQGUe@Gi@',
+    'roCxrGDE?JF^GFIOIGFI',
+    '~cDrnH@BWLWYHG^L',
+    'htCzyGH?EFDTGFa@]RMBB',
+    'jQbuGRRWEM@KAMQP?',
+    'zpAdqFBDK@QUQAFILC',
+    'dsAbrFJFAFMFIG?M',
+    'fGnwGLPCHEA@AOC@Q',
+    'u@zuHHGh@ZDN@NKT?b@AHQ?SM?[Mq@',
+    'cKjyHHRCJWHSCEMBO^I',
+    'Xp{Hf@v@MPEBWGK_@AMBSHC',
+    'T~sHDt@IVGEKQIUCSBSJEH@',
+    '[dzH\\BKb@_@CGQOMQC[AEI@C~@C',
+    'mAlxHDTEBY?MEA[EAAGHCL?',
+    '|G|bIBTq@[UWm@?i@YOYE_@XSdAV?Dd@\\Xb@',
+    'plD`nHFLo@CYMGIHGVDZP',
+  ],
+  BS: [
+    'qvCjdNBALTFOSMNIt@GXJAd@U@CD_@FIJYPEI@MIc@',
+    '{`DtaN@BUNELMUKGY?MEK@MEMFKPm@b@Iv@?\\GOFaA\\_@JSHAFSLQf@EPXv@B',
+    'mcClgMLDZTFl@?r@GBE@ICG@EQKMASFW@MIQUO@I',
+    'myCzdNh@AF@JTDDFRFJOFGJO?BHALKTQLASHCKOSJa@WSCa@HAIJYJKN?JI\\O',
+    'afDpiNDW?KCG@c@E]HCD?B|@XvA@NEH_@d@BIP[CQKOGAE@ME',
+    'i{ClbNBTCNCBEECO?WFK',
+    '_mCzmM@CFJGZ?DQFG?DQHG',
+    'muCdpMTNAF[CCO',
+    'yiCxnMDLKCOYY[EIIEG?KLI?GEASHDZIb@\\HT',
+    'i~C`~MVa@F[d@i@HCf@DXDT?EDMFMN?UWAQIQ@e@h@EXQVAL@P[M',
+    'qqCzwM@HELWb@ANMEBK^g@',
+    'cnCvrMD@g@VI^IPCCAKMAMDq@\\O?VQTITKb@IJWPQ',
+    'gvCtuMHAALBXECIMI?KN_@RGHKBMNEC@Mp@Y',
+    'ekCngMFi@JOFDMTAj@AHOE',
+    'meCvfMHXI@IK',
+  ],
+  BT: [
+    'olDu{P\\HHALMHOAq@^QNHTFXOH?FBDH?^H`@A\\KJ?DNZA^DlAEb@Qj@FZRNHdAC^G?CBMr@Db@ITQb@SBWRGCOW_@MY]WKeA' +
+      '_AIKOi@MMEOCO@WJq@BAXD@C@iAFe@JU?KS]AGJSLm@DGV@',
+  ],
+  BW: [
+    'dnB{|CVFJCLGRUh@SPMh@g@\\IZYHCP@zAk@DM~@wA^qAHQHGNGp@C?cABKDCn@?x@DHC\\]p@YFGBGN_B\\cB@AXDNEHM@YTWB' +
+      'l@LVVJNTJ\\H|@R`@b@b@VRF?V^H@BF?NDHLDHJ@RHPJLDH?FJLVPjB\\^j@b@`@DHJt@Nj@FD\\DdCt@RZHl@Ah@JX@VOrAUZ?' +
+      'j@ELa@l@O\\KXCVBVDXHLPLnA\\t@Xr@jAd@XJNFb@DFRHDF@HCf@BjAGf@FXEJOF_@B[Aw@c@GAg@DuAb@cAb@WNq@hAkP??e' +
+      'E_VAAq@U{Cg@qFDOf@_@^SJC@CGSe@g@OSYo@GW@IJWe@s@GWE}@',
+  ],
+  BY: [
+    'sdIoeEApAJXEZDR^j@NPh@ZXMTEFHJFAPKVMBO\\?RHdBHf@EHi@^AF?FJNDXDJNJENOHMrAFR@LE\\TV?FABOAEP?z@]^ChAG' +
+      '~@EJOvBCfBLtDPNV\\L\\@DGPC\\DRN?@@SJQASOMBQGM?KHMZQr@EBICc@i@[uAGKMC[@g@H_@LaAd@cAVBO@a@E[@[Cc@JYQ{' +
+      '@@]ECWECI@c@EKIMGS?QGQDGHEDDBABK?UCMCAO@EHCZC@YMSS_@?UKQOGm@GOIIMECG@}@QMIUCBEt@CDi@UWEGk@SYCSDs' +
+      '@?u@UKa@q@I[CQ@ENY@GGM?a@DORSBIK_@C[Nw@JERHRYM]CI?MOe@@y@Hk@Vc@La@AKFI`@@LNH@Z]PCX\\TFDA\\eABAVPFW' +
+      'JKRIPSZmADGDAL@VNBM@kAPq@F?DDLIRk@DCN@DVFTJFVx@Cx@GLEDCN?p@BDFBVTj@u@FED?DFLANQBFj@?HMXU',
+  ],
+  BZ: [
+    'knBflPO?MCEQP]IQaAk@_@MEK@_@THBICI@WVITBt@TR@ZHPMXLNBV?l@E`AHZPJJZRFZl@b@JDLC?dAoIM',
+    '_oBtdP@HIGg@KBI',
+    '{kB`dPZNG@UGMMIADEF@',
+  ],
+  CA: [
+    'iqIb|XJSGk@@GBGVQNAD@FFVfAD?@GEcAECSCIGa@BAe@GWKY?C\\D\\VXLVDh@@LDHHLbA?`@Wl@KK?EDm@Wn@Ib@IHMB]X[H' +
+      'Q?YGCAB_@',
+    'okIlvXRSNER@F`@ENDP@MTa@@WH_@NVFBX]DA?a@D?LLBA@c@LCLRQf@OPOH[p@i@v@ENYPC?CEAQG?M`ACDIH?g@Ce@CWI]' +
+      '?G',
+    'o{H~yWXcBJcBLgABm@FY|@q@v@{@FCBBD?TSRe@XyANg@R[`@SXWn@YCEQEAEDCh@SHBCZTVWlBi@tCUp@GBC?[i@MOUIM@X' +
+      'JLJBn@Ad@LXS`@K`@IYIKAPORDVGFUKDPIN?LCL@DF@@DMT?DHHCHW@ICESEw@CE@j@KT?LGJWPEJE^JN@LALMLGBOEE@GJ@' +
+      'BJBBJUV?f@FRAPC@KGO@C@CRC@SICOAe@BKHQYFGMEx@LCFX?f@CLQZQNG?IIGKE[?c@Fi@',
+    'i|IrkXKAK@SNDVGd@ULE`@OPMbAe@bB@n@Q@KJICMn@a@OI|@WU{@~@sBpBs@z@MC{@rA[nAINe@ZKb@IJQt@]VUEE@i@rAX' +
+      '|AJjALMHDBL?Tb@@XT?l@^|AP^CNMGo@TmBnEWLQbAQ\\g@UK?@vB\\x@W~ANNO|Amy@?HuBCuAR_Df@aBRoAL_@d@mD@e@JeA' +
+      'Ak@BkAHq@XeBBSAE]h@If@Gr@GFCCCaACAC^K`@g@k@BMIWDi@AEUEGQCy@@mAQFQICG@a@T_@Dc@BCNL\\h@DBWaBGi@C_AO' +
+      'YWUCO@}@CYENAPEECg@FU@MIk@a@cB@{@[i@Os@Aa@H_A?m@Sk@?IN[F?LTj@`DXhAV|E@H^h@HXF\\@h@HXb@t@Zx@HFLMD]' +
+      'AKOf@CGFuBGYCIC@A^CFQDMIKc@Ec@WwAOYCAAFEEEm@Bk@DGHB?CQ[?SBILC\\CUS_@i@Q[Qa@Km@UmBI{AQi@@CPJFf@DBN' +
+      'KBGIi@i@{A]UIe@KaAGOEx@GLEIKb@K?GGI[Ho@j@gBJQb@i@h@a@LOHMd@gALe@PaADcAOk@I?QPKRECMWE@ME@WMUSg@Gj' +
+      '@Io@GGE]FWH?ZD\\KFKFm@FB^r@JNDABGBQ?m@AKCgBEMOSG]QMUEGEEIA_EBaABi@VqBn@eCF]Fy@NcEDWNs@ToAXkDAi@Fw' +
+      'BFgAC@Sb@AA@{@EK?MHiAPyARiAPi@Te@LUFCFYPJFNB`@C`BLPLv@HJJCRr@B?N{@@u@NuB?k@B_@@eCBcA?yAIe@EeCKw@' +
+      '?SBE@a@_@{B?]G]RYBUV[BK?qAFc@HI\\GHKBGCE[SEG@MVWN[ZgARODBDJHl@AVE^|@kBRg@d@w@Pe@?EcAxAMD]@CCCUJW@' +
+      'OCCLg@?Gc@d@GMSf@MPWLW@e@z@EBQAQg@IEOLCy@@MK_A?g@EYMOAGBo@Q?EEKYA[Ig@Q]KECBE^VhBJNLDDFEn@Fd@HT?\\' +
+      'E~@FVFAHIDHBtB]nAOOk@{@AEGkBGaAm@_G@[NcAHMJMZOVEHITw@@KCI@IHE?[BWBAJBDEJ[D{@Ay@Eo@Ge@`@yAPc@F]H{' +
+      '@BM@UC]@c@H_AUkCCcACKDiCPsCCk@GUEy@C@EHUl@EBG?EE?KBQJWj@gAJYN_A@_@Oq@EGMCKLSbACd@D`@Hf@CN[p@KJA?' +
+      '@UAAMLYb@EBCc@Jq@MuAKVKDAAASHe@?QC[H[L[V]@eAKg@LHb@n@B?Ce@QQS}APL`AXTD`@`@F?Ze@NABE?YIy@BEVPE]?S' +
+      'HUFAT@DN@t@Ip@DLAXMX@HBBHKp@}AHOLA?AMIGD[n@IFCAAMDcA?[EQEIa@EUKSD_@RQLQ`@GBw@e@GO?]CSFu@EW_@gAa@' +
+      'w@Ma@Mw@Og@Ad@KDQAUBONEPBFPHLHFLFrAGTC@UGi@}ACA?ZADQFMGEQOkBBAVd@DBBMMc@M[ATSAGVLhA?p@M\\Yh@?NLN?' +
+      'DQ|AIf@ERIhAM^W\\Yj@QJWA[g@GGEMEc@Ba@GRE@MSHz@?LGRYd@O?UKMCKJIUKDEGM[KYAOB[Je@@SCM]]AFA~@CJGFEEQk' +
+      '@QUW}@K}@Ew@@IJMLANa@?cBDKJDFCb@cBVm@NOZKHA\\BDBFJHg@N[Nw@DIVSR_@BAHDBC@M?IGKAI@KRSHQB?@HBn@Gr@M`' +
+      '@?DZd@BK?_AF]\\|@j@vBBQE}@@c@BOBDDIL{@Ae@Me@G[?e@@ITx@A]BcA?w@BWFY@b@BNNTJDBLATAHEC?DB^@Bb@cB^]LU' +
+      'BAFLD?REh@LHIFUJSJM@IACMKKUQUECMB]We@KQIi@_AEMAO?[Xq@Na@TaAZu@RMl@UDEHCH?NFBF?j@CFKJADHTD@PGb@@F' +
+      'Cb@U\\g@r@cB\\ODK?Qc@eAGUCYKWGCe@MQMu@yAiAk@OAKBIAGGSg@?MD[EqAC?In@MCGOAQUKSp@?`@KTWFOEKFE?ECE@MLY' +
+      'IIPCE@i@DW?_@GiA@aARoAFq@@qEHq@FBLTFr@DWHaATSDFBCEw@Bk@LeAHKB@Vv@PbAD@?u@D}@LWFANDRp@RjA?RGRARDd' +
+      '@?R@HB?T_@DF^i@@MGMAM`@PD?JGXe@f@{ARWFCRDx@`@L^Dx@h@v@H`@Vt@F|@^dABT?TCLQJq@dAAh@GVEFAACQYt@I\\A^' +
+      'Ld@HLB?BQM_@@WDSFI\\u@DSDGVOn@u@HEDLOrADTNNE\\U|AIPa@p@E^Fd@@t@?`C@DHIFJJMFQHy@N{@FGD?RNdAbCl@jAPh' +
+      '@@^AfBG\\Yt@Qv@MLCh@GZW`AO`A@f@JS?FAl@If@@d@IbB?z@BVVmAKDAACODkATgCFYPe@f@gARu@LyCBaDFw@BOPEHDl@p' +
+      '@tAxB^TJT`@jBB`@Gn@OZ?@XS@BMv@DPCVM\\MBABFl@@FHYVQBJGp@\\]DATZHP@XG^@LFFF`@Gz@UtAElAADEGCJFT?TIdAU' +
+      'rAQzAWt@TSD@FHD?NSB[?]A?ITGBACr@sFDHPp@@@?c@Oi@Ko@F]Rg@H_@LgAPk@HGn@APNBPDp@Rl@BRGrAC^?NDP@^BDDA' +
+      'JMF_@De@HCHLIr@DH?b@@HH@DDPb@D?BMHMTSAHO^IVKx@@JLk@FMDCL`@B?FIDHDR?b@BBHQDHAp@PQNc@JTTx@Vf@FDRID' +
+      'HAVBDDEJALBVNx@v@XNJJ?TFNBKJI|AZ|AAh@@VDJHBPBUDMVKDI?QV_@DYJAfAHOKq@KUQCKAw@By@Ai@DSFCf@Kt@a@vAm' +
+      '@|@i@\\KH@JF`@XVd@AOUs@A_@D?HL?AQcAc@uDCi@F}@`@gBLw@XgDFWP]Tm@ZiAXg@v@_AFOToBZkBTmBJ]JWT]Ne@HAj@^' +
+      '[_@M]DkBIyBHo@H{ACk@@GJOAc@BUNe@LOZOHAxAf@V?JCZ_@j@Sh@Hn@GT@RRXDLE\\o@^_@j@s@JEHFRj@Cw@FOJMHWF]N_' +
+      '@h@}@l@_@RIFAHJN`@Zb@AKc@}@CUHu@Ts@^e@Xg@VSMDQLg@r@MD_@IKIOQOIK_@@GLGBULULKd@OM?UGIEMSE@GF_@f@I?' +
+      'CIGGMCIGMYk@i@AGINQ?QDa@d@SBSIGBOTKHiAP]HSJK@CEOGCSGPIHCAIMC@Ol@CKGGA?I^GJYVSFUNEDENA?EGc@wCYuAK' +
+      'c@k@gBiA{Bi@k@Yc@UUq@SeAEc@?y@HQDUHk@ZKBSNs@t@k@lA_@zAc@bACTOH]EMI[e@_@a@Sm@OOEBELG@OUCCOBCC?[Te' +
+      '@AIEJMNGCO[E?IFI?QOCBCn@EFK[i@f@MDOOESC@Ch@KL]YCMA@Dt@EX?b@ECm@aAYSc@BIAWm@Md@Sd@SXQJe@JS@MCOKMa' +
+      '@S{@Gm@HaBf@sEL]JZ@CU{@C]H_A\\mACCINEIUuA]yA?I\\qAd@sA?e@NKB?LDVT?GOk@D]JY\\e@FFF`@@GCe@EKGGAILm@DE' +
+      'B@FXJPD@BK@[@?DND@Xe@HY@q@PyABc@Es@HWRCFIBS?OIUAQYQAKHQPKLAFDLZHLVNNDH@TCTULALHHX@^AjCHGFaDBORSZ' +
+      'Id@TRBHE?w@FIB?RRD@JIPLXHHVADULCDDHD?FFFTDb@D?@YH]@QG[Wu@EUCqBNm@NQZIFONCN?n@XNTFXLdAFPD?Os@Ew@G' +
+      'QGKQKk@UMMAQBGXQD?^`@AIW]GGKCEI^KXARBBCg@OCEQe@YgAK{@KUc@YKW?KBKT]HIb@C?C[OODOLKDEAEe@AAGNC?KO@[' +
+      'IBACB_@EA?YCCMr@OJCABO[SFSC?WNCAAYBONe@AGMXOn@UNYKCCCW@OJ_@CCKXGBGAcAo@OUAULi@FKJCNTNn@@GGa@Cw@P' +
+      'SVATJIOEQLOHAJGXc@JRFVDCDa@DCFBK[@SZWLPFZD~@BE?]ImA@]@EDPRSJL@QC[VWPKVl@DVL`@HHLR?MUa@EQ@KBED@My' +
+      '@Cm@DA\\LVZLp@Vf@@GQo@G_@Em@@Sb@e@@S?OH_@HKDBDHDBRKJFLf@@NHPA\\FQ?}@Da@HMVXHWBm@`@{@PBLF`@CB^GhBM|' +
+      '@C@GOALFXLUJu@NY@[HUBB?ZJTDMDsADQDLFh@J?B]Ag@ZGDCD\\B?Fs@DKFABE@QSa@BQH?N]NEMO@[NDJFPSNWDDNZ`@PZ`' +
+      '@AKWk@IYCw@EMCSFML?DQEOBOn@z@LNJBOQa@_A[a@Ba@DQRGRMTULkAGc@KCA[?STEHSLg@@]HOB?HNNNHZ@d@Dr@D@DJJh' +
+      '@b@f@Bx@LVD^Rz@?~@Rn@RFDFAVGZFENi@FKRd@DBBKBBDNBCGc@O_@U_@Gi@S{@o@oASu@M_AGo@?]AAEp@BZIFGIEWFsBD' +
+      'e@n@k@LIJCDDFNTv@@@BUBEPKg@_AMa@E}@@MFCRQBO@_@V]XSH?NKN@XNVKZFRMBHF~@@VDD?u@Di@FSFEF@DJAVCTBAX}@' +
+      'HCHBh@`Ap@hBj@tABTGh@@^F|@Tp@Bp@A`@BLDNPHx@pARTRj@d@l@Lh@RJLf@DhBEf@F\\Bj@ATRtASVENAn@Gf@CdA@tAHR' +
+      'CdAGZCXB\\D^GbADfAC|@CPJ`BEd@Pb@CT@XAF@NHJ?LPVNf@lAz@\\BRTPhCJj@HKFL@VFXHPLFTr@r@z@b@ZZb@HV@PCPK\\A' +
+      'TQt@Q~BFSHOBcAZiBFULQt@ZPNn@|@N\\v@r@j@pAV\\X`BCVN\\H`@LJf@rAD^HZPFHV`@Z^d@Dn@HPRRJZEt@FKJq@NCDVTr@' +
+      'h@dA?\\DZLb@Xj@t@lANPVt@JFDJ\\h@tAfA?fI@r@FXT~@d@U`@@HGF?JOHGHDJRtApF^lEhBfF?p@]bA]T_@@UGIGQg@SWYg' +
+      '@WKaAOcBu@cJpA}AnEa@WE@SZ@ZF\\AL]T[DMDQEADAFDh@JR?Jc@j@s@ReCbIqCvJFl@n@bCBd@C~@BVCPKHGHBl@ArACJMF' +
+      'ANBVNb@H`@?X[bASZG`@@XHH?J_@PQl@Ot@Cr@@VJNDp@CPKHIh@OnBMNI@[RWDc@BINCh@jA@?tkDGFGR?D@FLH@DOFMG?R' +
+      'CBMAGFE_@?WEGOELN@JE\\@TC@EEg@GQERXVBBJAFHPQfAUZKDOMBMXS?OQ_@Bb@OVKBc@?GACKIGKFCHALNQD?RTP@DNJNBZ' +
+      'AXELi@z@I?e@\\G?KH?JKBWWSOe@BGCJLHBFCH@NFNND\\Ct@EFWBNHNBBD@JIL?LBVAXC\\A`@CFG?CEMgBC@ALFlAAZG@QWEE' +
+      'AH@LEDQESDPFHLD`ABH?HOz@g@dAW?MCQKc@i@G[C}@Ew@CbA@|@DRVZNJALIFKLMDUBGAKEUS?XSCSGa@gAEg@LKDa@^c@L' +
+      'WIFU\\G?IFKd@CDMDGBGCWe@KIKBKHVALJx@xAFd@DNFHRJf@P^Ti@P_@`@_@_AY@SUBRVZHPM?kA[ICIK?JNp@IPs@LSXQj@' +
+      'Gh@_@PUKIQEOBQD?TH@MXy@@KIW?MF_@Zg@IBW`@EPA^@ZEPGLUNQ@KIIc@KV?HPd@@FCDJRZ\\JB^DDBFb@RR_@r@[PE^Md@' +
+      'ML]SU[WEECGq@Ka@?v@Hd@Qf@OTMDKEc@IGGEQuAaAWUc@k@BZKLKBDBh@Dh@ZHLIFQEKKSCg@R[BIAYM',
+    'qjNjmTJc@@[@ENUDCHAFBDFBRBj@C|@DnAC`AOrA@JPf@@P?n@QhAPnEIVCAKYKy@OaCCcBa@eDCs@?i@N}A',
+    'cgNjqTB_D@G@?JJFPXxEDIBQAuAD[FER?HBFJN~ABh@?`APpC?l@Cd@Ot@Ev@Kp@IFIQQLKNE@IAIOEkAMeBOyE@cAC[',
+    'obNdqUHOF\\PtBFVFGXuADIDRAf@BZDCPi@FOD?Rv@NzCDBR?DDLRBN@r@MdAM\\GDWK_@]IECF?JJrANTLBFFBRBj@BDDCF_@' +
+      'HCFBLh@TZDPAPQf@W\\@JHLVAFRBCHa@BCH@?LJXJ`@DbBc@\\CN[XANBHZVFf@?h@Gr@Aj@@\\NbAAXKTC?IQC?CJC?ACA?D|@' +
+      'SY_@eAKkDi@{AY{BSWAIEU[iAm@sCOyEJsB@[IYB}@G[I`ACBAAGQEWC_AD{@Jg@',
+    'kzMxcT?wABMFKD?DDZt@?SOk@C_@AWBi@H_@LOPKSCEg@KXKFIKGWGw@HcBNy@b@YH?LFX^PBj@^JTFVLbBNhA@d@MdCJjBA' +
+      'TGv@EWCFE^d@dCLpDD\\Ph@Hd@Z|CN|CBbBE`BC^WbBERMTGMKc@SaDU_BAc@C}A@m@Cy@UqAMc@EIEJ?PPvAFtBMt@AVBRL^' +
+      '@PFvCAPEHO@CDIGKQSy@FpAIXFLRFHHGr@?PT_@D?HPTpBETQ\\CXFXLLFL?HMpAYbA@hBG`BEJGFC?MQKWGYAUCuEYsCKg@E' +
+      'CRtDBnAAtBCVEBSe@Ca@M_E?gAKaBBlGI|@E@KUIJECGYIq@A]By@@eEGn@GzCIDE?EIOg@KsB?}AHcADIBCLCDGL[BSIaCJ' +
+      '}AXiAX{AD?Jh@BC@eB@GX[LQJm@?uBFqGAQCIOIIBED_@hDMLQsACEE?G@GJKj@Af@Mx@GPGBE?WyAo@gBIo@Au@LcA@CD@D' +
+      'DLXBAHMRIHa@J]RMTr@FD@C',
+    'udMvjU@KAWEa@I_BBM?GGOEAS?GGWo@CY@aARkCb@{CFCRRXr@Nv@DYDQIWKSG[?KHFFCAYKc@Sc@Mu@EMEm@SASfAOXMEDa' +
+      'CRoAL[DUHo@N]HBHm@ZYt@_@n@e@b@QNu@@U?CQSScAACEFE@AOYn@W^]P[DIPEBM?KL{An@G?EGCOCe@K\\C@IKB}@ZyBAGI' +
+      'GEO@WLeAXoAJu@Ne@Zi@B?DBDCLQl@QtAeANMf@y@V[\\EH@XXVLD@FKXcA`@k@XgAJ{@Ji@AKCCONE@?GX{@n@wC@ICi@BQB' +
+      'ANADKA_A@]DINM^KJ?PDFF@JAb@EVGJSNRPHNGh@U~@@JNv@FNJIFCD@FNAz@WjAAJBLDDDGZiAFCJ@`@NAEYi@QaAISA{@B' +
+      'UFKB?HLBBJABCBI?WBIFEH?TLX|BDp@F\\At@B|@KvBKv@BTFTIhBELS]E?An@Gt@ExBKf@E@QAGBEJEV?VDRJP`@b@b@pAHr' +
+      'A@dBFb@ZnANfBH`BHpDAT?`@Hb@JtIATGRMTa@h@MLWEMB_@NKjACp@?fDAzAK~AQpA?DOLi@jAOTQH_@FIIOuBOkEI{D?sA' +
+      'Dq@BmCDqBCiAEO@qAG]GRSjAa@lEMzBAf@BhAJdBDdFEbABbCEvBs@dCOVEEEOUaACYIcBYqDGiBCDCXE?CMCq@Bs@?YCGKx' +
+      '@TlF?nBHjA?j@Ip@ADC@KOEu@S[B|BAh@Gx@MV]AOGc@eAGk@I_@E?CDQh@EDGCKQSo@g@sBO{@Iw@SoA}@aKFcADQLO^OT?' +
+      'HDRRb@~@',
+    'enMjkVQu@?s@DKZC@ACQ]w@Ii@EsBFyAJ}@Lq@dAeENaAPc@FGFCFBBFBLR|AL`BZrBLnAZfBj@bEL`@p@v@JRJr@DpANB\\T' +
+      'PJr@LLNHRJ|@JjBCNGL@X`@pANlAPx@@p@Oj@INu@x@e@`A]tC[jB@|A?JC@MMQAGa@EFEBACCKGKUYa@mAAACFE@YAKICGM' +
+      'eAAACAGDC\\GNCBIGUg@c@c@U}@UOYm@C?GLEj@GReAjACJGBCJCAQuFCiDOmD?q@@c@b@wCR{BBkARb@',
+    '{eOhqL@wEH{@BoH@a@B@H`@Fn@ZnHDT?qCCcAa@mIFuAQe@Ai@BWRw@IeBBeAB[BEJ`@\\mBD?J^B?MyCD{CBk@Lc@JQJJRdA' +
+      'LdALh@d@xGJjBH|@?|CB`@HPDh@BvDXz@f@`JDD@c@o@qPCaBB{AHH\\`CZdDTrAb@pEb@hDP`A`@vAF\\@b@EpA[pBr@cBHHF' +
+      'fDFhA@zABX@?BUBaAIsC?WDe@BALf@PtBDo@D?Pv@JpB@p@?l@[hEIhC@p@Dt@JyBBsBVo@FENPBb@?nAF~@?xBHjCCv@Gx@' +
+      'GdDBG@e@LiANc@Ba@LeAFeBGgA@q@b@H@T?tBOfCJhH?`AChB?~@DCFcAHc@B_@OqE?}@@u@H{@L_@DiCR_B@YDKJRFBN`AD' +
+      'rHBw@PaCFq@DITfAh@~@BR?jAHfA@r@C`B?lBFHJBR?XERDJPHTFh@FjADlECdCGz@WdBIv@DAL]Jk@DBDj@@jBB?DQHi@Ak' +
+      '@KsADyAPyAG{@AsAF_@NKHAHHFSHo@@e@QaAAa@Xy@RCTZL^V`CZrBJvA@n@LxBA^EFUSIMG?KZGf@Bz@?p@ERUj@Et@Kj@\\' +
+      'u@JIFBDfFAbBIRa@l@|@JJjDIjBQtAIb@KNENJTZVMdC[Zf@@CxB?x@a@Ne@@VVRIXCGr@ExCa@Ca@I_@qCOi@E_@Cq@C}CI' +
+      'mB[hACp@Qp@IRm@|@KMQgBCu@?i@Ds@HkAJi@n@wAH[P_C@i@Aq@CgBCq@EUMYMm@]eAWe@[WDTbApCPdA@lAG~@JhAAl@If' +
+      '@g@?a@r@Ow@Io@[qABoAM`A@fAy@Yj@n@`@nAD`@D|BU_@][J\\NfAL~A?tAIh@SK[?o@kBU[IqBCmBK{AAm@Di@FoDL_CMw@' +
+      '?mBCy@QiAEEBv@JpAGzBCxEGr@M^EGCu@JuA@q@GNYjBmApDIb@Ed@EpBCVSt@c@LSX[WKe@HeFAaBByBDcANkARcAJ_AN{@' +
+      'XaAPgANaC?oBKgA?tBCz@SdAa@bBU|ASdAUv@GDKyAMwHOyDWsAYwFQqHAACt@C|GE`@QQYcA]uCMeBG]RxELjATjADf@?t@' +
+      'DTHPXZLj@NjARlDRnG?n@Cv@IWSuAGW@v@Bv@DzBFp@Ln@J`ABxDA^IrA@fBKhAECYeAYyBMmAIqBKiGIKHlGJbFDd@Jr@v@' +
+      'zE@jAGfBYdDOf@EQKwC@kEA{AGyAOeCYoCG]?zAH|AVtCF`CBbIDdB?j@G`@Id@IEKmACeAItAEFKq@OkBEu@CaB@eBCCEbB' +
+      'AjADbBZhGEz@EK]mCCC?dBEz@Bf@LzAATKv@GEKm@Q_BIyAAaA?iBEq@ScBG}@GeB@sAFo@PkAECGa@Cg@B}ANeB?UE[?eAG' +
+      'VCZ]|FEFMeDWeBGkANiBBkBBo@d@sBJkA@u@CEM`AGPEGCM?SX}DVoEBoAP}AFq@Of@SbB_@jGQhBUxAG?Ec@KuBOvAE?CcA' +
+      '@g@LoCCIYbAEDEa@@eAJsBFqEAw@[vEM|@CBEu@@mCFaCCoBDaBh@sELc@HQ@[MwAELOxAS~@SbBQj@GsGFkGBi@ZcBNuAHy' +
+      'BWpBMh@G?EGCMOgBEsC@Qb@iDBe@AAKt@Ef@CBKcACi@CsDDe@Li@',
+    'eeNxsQFs@EoBBcC?kBBa@Na@Dh@^h@Bx@CpBAzHUt@GBMQAIM{A',
+    '}sMrgQNKPCPDBFJBBBDpA?nBCt@Y~AGrBSj@CPDPADIFCH@`@ADE@E?GEUe@Eg@KKK@Oc@Qw@Q{BAa@@m@Dk@`@gBL_@NOFO' +
+      'PQPH',
+    'emM~oRj@gDQiEK_AA_@DcABUHUNSFAN^Dl@DRATFDDICU@WJWDFRhB`@hANh@FJFABA@IKe@Io@@}@F]H]BEJNB[N_@FAHLD' +
+      'B@EKs@Cg@@Y\\QJAJDFHHVB^HYDIFEHDR\\BA?GJSZAFbAVt@FfAEvBCJEFKDOA?BNZHG^e@LEH?Ph@Hp@AVKf@?d@KTYVQb@U' +
+      '\\o@tB]t@Ih@Ab@MTGV?FFp@Gj@CHMJCNKJUtAWr@IHA?KC[[Oi@C[Bw@FONQJi@JSLQDO@c@Ce@GqAGIa@G?EN[@GCKGGA@[' +
+      'ZCF?`@CNCBGAISCSLiAA]Ed@Sp@CTJj@Bz@]nBKLA?EKG[EcADYNa@F_@AAIDMLE`@IVMNG@CECIEuAF{@@e@KOADBh@ELC@' +
+      'GQ',
+    '{vKvqO?Oe@m@AUPm@HQNIBIFc@HqADOXe@Lm@V_AJoANk@NWX[j@UJ?Vj@@A?a@KkAH_AMS@QVk@FGB@@PFk@Je@FFv@`CBR' +
+      'i@tDGrAEDe@JERKzAG@MCEHBl@Fd@FPHFZFJLf@pAB`@JNZVNVT`ANtACTYLmA\\GHFhB?v@Pt@?J?ZEXE@G?IEc@m@]eBGUI' +
+      'KSB[Pe@@QCo@WUGqAOUEUKKKY]IUEc@JOHg@HKJILCDBFRF@Lc@',
+    '}|MraRHAJHD?\\i@L?JNLFF?JID?HRFd@BELyAV?XMQ|@Pl@^EL]FGB@@`@Ol@BBDAFQHG@FFlCAzAE`@@PJh@EvBKXWVECE_' +
+      'AStBGCC?IuAU_AGe@CAEa@AkAECBnCPbGCp@RvEE^KRGMM_AM_@EBKWAi@HcAHc@B_@?[G]@~@KVMPC@IOCx@ERGHMSMo@CD' +
+      '@dAIl@IEM[Ic@FyALg@DIF?BGx@}DFm@Ca@CAMx@QXACAQ@i@Cq@IzA?b@Gl@C?AIC_AAKA?If@G|AG`@GLGKKs@Ec@C_A@o' +
+      'ARcAL_@Cw@MNMHO}@Bc@Py@NgB',
+    'wnNleSBo@Lu@Zu@@AH@FDBHDY@CD@BAI]OGMsA?u@RoA@_@DSDAPVBCBi@G_BPuATm@Fa@BEBHHHH`@HOJ@DEBe@^uAHOLID' +
+      'JPLBDL~CG|@K~@Q`@UJGZKTAl@KhBCl@DlBAJIRC@GIH|DJt@AhACd@Kp@IVMTI@EQEc@J_ECg@IQETAtAEQEiAIe@E\\@`BC' +
+      '`@C@AGQu@C@Mr@Dp@XbABN?NCLE?Yo@GBC\\B~BEDI@IAOIOY@kBGcF',
+    'azNh}PNYf@aBLk@PiADGL?P{CGcA@e@BQDMFEDJDIB?LLDCJc@D_@F_A?i@BYC?GJIVGl@EFK@GCEWAoAJyABEHAT?Jn@DHJ' +
+      'oC\\k@l@^N^@KC_AKu@B}@B_@JQLOAKSg@CSN]f@wAHCLp@T~CJfALt@?n@LHDLd@jBEn@GJ[FKGQSA@Hh@LVJDVCHBDJBCDm' +
+      '@HED@HJ@TCZSx@B^VWLAf@b@?b@CXm@lBYv@GTJDHMj@mANSDC@DAJ[nBC~@@^@DJo@JODJ@j@G~CI`BMxAO`AGXEFEYIiDC' +
+      'LIzC?lBEVUp@CCAK?oAQrCKh@GJCAIi@ScCCyAC_@SYGgCIqB?|DMl@AbA^|EEb@GMESA`@@z@RhCMj@EbAELUMCSCs@S{CM' +
+      'WPrDCnBEZ]zAMXKBGDWXLeEBaF?GO?AEK_A?`ALvB?j@Sn@Bp@AXIv@INA?CIEm@@oBc@vB[CEg@?k@Di@?u@Fi@NY@_EIt@' +
+      'EnAUd@QnCC?[o@Iy@B{AMiC@aBGSE?CHEV?~AEz@IFGAC_@AqC@{@L{BRqA',
+    'u_NhlQ?_BFg@VoAFCF@RVFTNRa@kBBu@CsAKeB?_BBc@NmAF[FKFNIzC@FFEBmBZyHFMBBH`@DrDEfBGtA@\\JYBs@Dk@DQD{' +
+      'ANk@?WHWLQAe@Lm@DOB?P^Lr@@D@iATgAAOGGQLECG[?K@OZiAM}ADQJSSc@ESXyADu@H{@@y@GGK^ESImA@i@OkA?kAYuBG' +
+      'Q@c@JeBMiCAoALoDBWHFBCDa@@gCLg@B?H`@@EDwB^]D?JV\\pCBBFo@E_BDYLYFTHtAMr@?\\Rg@BFDBP@NF?B@|DLjAD`AM|' +
+      'A@l@Gx@KXKJSEE@AVId@CT@BFEH]DCRHNZBP@p@FjA@b@ElAMn@ND@FCh@KR?DDBFHDt@?\\G\\Dl@IlALK@~@ChADl@CdDCNE' +
+      'JE?GCa@g@Id@D\\PRBLSPH`@?N@DDCJ?DJHz@@v@KfB?d@Ql@Ad@GAIOC?Np@DFJGCh@B`@QfAIPs@h@C?EUCBUt@EFQFE?EC' +
+      'MOYk@IGMDWNs@hBo@jAAj@Hp@FRAnCCh@FpA?t@Sb@KlAEVGNCEEk@G[@~@YdCEh@CHICFg@?QA[EIQhACFKIOkCCi@@i@Rm' +
+      'E',
+    'yiNhxQDo@CqAPiBFUHENjAFJFm@FUDKD?P^BT?`@N~BB|AJfA?\\CHEBIGCLIbAMd@GFE{BESIjAEbBEBMh@KBGb@ILG?Gs@Y' +
+      'l@KHCAEWBeDTsDNi@BEBB',
+    'onMheQNsBTiAKuBBkBJ{ANu@HBXb@Th@H`@TXVb@Jz@FYHFl@`A`@`ABT@^O|D?n@F|BPwAZk@PAd@`Aj@`@DRGfADdBCb@]' +
+      'Ca@B]Jw@z@SHW@a@CmAH[AEKCe@JkAD{@AAIh@Q^SPIAECEOM}@Cq@CkB@]Io@A[',
+    'grL~_R@EAKEG?M^gAFc@XoANWn@m@Vg@L_@Kk@BIFIHPDR@l@HTJRBXZhA@f@OpA@p@Ah@Ql@UjBABKBEFFj@?^GXQN@\\BDB' +
+      'CBB?^Kd@UVMIEIGmBIe@Qk@CGCAUTCC?QINGBAM@QPa@Bc@IVWXG@OEEEI_@Ey@BSRw@DEFP',
+    'c~G||J?GIY@OD@L`@BMB?HNFFHEIY@WAMg@u@CAFp@EBS_@KBOQKMIYFKLAA[BYDQBCD?HDFJJUB@J`@Zf@Pb@Jv@Cf@FrA]' +
+      '^k@FWAUMYa@cBiAg@{@AO@OFBFA\\QD?`A\\TDDCRPN`@H^',
+    'iyGnbLEXHLCHURSGQLEAEMGAEBC`@Ob@EBg@EC@Q@oEBg@x@MZALBHBBLx@H^ATKTM@QAEd@tCxCt@JRTPLd@H\\?TTJ@R`@P' +
+      'TVABB@PDFJ?FB@FMJAFNX?LEXPPd@R@|RG[]{@Ik@_@y@Cg@GGa@KYQSW]QQa@Os@a@m@Qs@MIGOOi@Cm@UqAKUE_@c@}AQY' +
+      'a@a@Q]QI]k@g@k@]UO_@m@_AQa@AOOe@OWQe@SeAYaASwAa@gBOsAC{@GgANiCNs@d@}@HGJAE^?ZFSTa@ZBXPJv@HNNHDJF' +
+      'ZHNPj@@RCVOv@O`@P\\C`@BNCVRp@@MKg@@ML]NgAHQ^QDKCYO[GUGm@JHAc@La@^\\f@JZb@Xl@HYG]?SDU`@Nd@QDQ^GPIJ@' +
+      'HQLCBaADMBk@JQPl@Je@Ra@Ae@J]JMEc@?g@Fi@HBFDAa@FSGKMg@[u@BEZGHUBUIa@V[PMF?Lb@BeAJOJLELBVHRFb@^zAH' +
+      'l@Rp@XfB?XLZAN@NCPCHLGLAJJA\\CJGLIDINJHHAHJSLFVTHTKFHAHTPHTVTPXJFZl@?ZJRVBANFB?DEPBPENa@RKHEPNJMP' +
+      'u@JK?m@Qg@m@ALZh@KKKMKSEo@EKISECJl@KMgAwCK]O{@IGEFDWLDR?DYPQYFMQQcAAy@GQEn@@z@Eb@Bp@Cr@DNJLGVAFU' +
+      'O]u@]i@KED^[\\F@RI`@d@@VP^Lj@Xr@VdA?JS^SOP\\LM^`AGLJf@@^EFI@AJBR',
+    'caIryI\\VD\\Dz@L@JGA_@FGNCJBVLLPNZTFl@n@FLTDh@j@PHP?VRHGR@GK[]OUKY_@WEMBEFEH@LDGOG]@KHSGo@BEFDHHd@' +
+      'zANRK_@@UPBXf@Ku@L[I{@VECKCAS?AA@GDCLAZJRNFAHBGSOAGKK_@@AD@AGIMMe@S[GO?EJ@XC@AKKEMCgA@STo@JILAH@' +
+      'Rd@HHLDX~@C}@@?DFDLD@BOAUBOB@NLH@Z~@Ia@A[IKAQDSO[Ce@O_@DEJAHBVPFP?TLLNh@FIJCBDLz@@OC[@ARJV^VKDG?' +
+      'QAMOQs@m@Mg@O_@FKXZp@\\NBZ?JISc@MM]QBMf@KVD`Al@PEF@\\LZTDRAFKN?D@JN\\AJGDw@GIDWECB@FHJ\\^R\\BPKNQEWK{' +
+      '@k@ICMHq@PGJKZ@DN@h@b@RBJJDLa@SA@Zb@Dh@h@l@L@HFZb@@NAXDV@ZCPGLG?IEIOIm@GWSYe@a@Mk@ISQQF`@APEF?x@' +
+      'BBZHFZGd@EPDt@Qs@g@CE@J^ERBDRL@FFf@Dr@BHKjC?d@Gt@AnAG?A@N`@BRH`A@b@EREFUJYFKCMM_@}@q@gAUu@@^El@B' +
+      'xAG?e@aA?CJLFBFM@YCCYIq@[OQCIFa@L[?KCHMJSIEKCA?VEPGDQAIEKMGQ@KJUCKUTMDE?aAk@_Bw@SSA]ENCDE@IKGUMO' +
+      'OIMFCKS_@]MIMM_@Q}@Oc@@YHEFc@GEIFCEC]FM',
+    'yzLd|OBGEm@YgC?kB@SJLHODWEIaB_@M?GFEZ?x@Gh@a@r@W|@EIO}@U[CQ@{@b@sCC?GLQx@MZIJCEC_@EEEl@D|@Gb@Q^K' +
+      'HGJCDQ@IAQMKUEM?Y\\gEGB_@`DGx@MNm@wAIoAMg@?aAF}@A?OZCCIa@I_ASuC?mCDeALe@DMVS`@QLYDg@F[HOHCLFLET_@' +
+      'H]B?DFx@fCVl@D@c@_B@]DANRNVHVTq@@FATDNBBTABB@QCKk@qAKi@?KDo@Wh@EBKMKi@@ITYBME]IUDWPg@NB\\ATo@He@K' +
+      'FEPY\\a@GOWLu@?}@RmA?i@GB[tCO^EDG?KKWsAGq@AcBBgABe@XeB@SAmAPqAHUTUHEF@d@bAD\\LRZ\\NX@CGOa@k@Ka@Ow@G' +
+      'q@?g@D_ADUJKF?RTTpBB~@BCBm@As@D@NVLFHEF?b@d@@EWo@YKUSMUCQAs@M]CWB_@D?V^f@`AE[_@eAJQH[TOPk@M@YVKE' +
+      '[kAL_AAKDoAL_BJc@JYJSJGFDXt@BRCr@BP\\fAT`A?_AGOMOM[Gu@LiA?c@M]Ki@J_@FET?DBNRVr@F`@JlAN\\J^FWAGSa@I' +
+      'Y?IHSL?z@\\?EOQiAaAKYSy@Q_BCYB]FU@oA`@}CFSHGF?LVD^Lf@DzADZJr@VfAD?@]CUOa@E]IoB@[?EHEHJBJR`@Fu@EOK' +
+      'OEQEc@COCCETC@IIIOEOAKFg@p@cB`@_@JEFBDD@VKzA@j@F`@LRBN?z@B`@Hx@BRFBAa@G{@Cu@RyAB]Cc@BaBFe@Nw@HOD' +
+      'AL?BDBPGhBB\\?XO`AHr@Eh@Bh@TrABIQqB?UXoBT?LFNPMpBFv@K`B?V@CRyADkBDWBKJ?LUDSEw@Hg@Ds@?eAB[Nx@FDTg@' +
+      'F?TPKe@@EPA?EOISBGSE_A^JN?Z\\FT@?B[CIUWUm@?IF?LFFWM_@Be@DCZJDAP[?AGBUDIEKUQm@AQH]BDDRHLLFDI@e@Ke@' +
+      'DUd@iAE[Na@Ll@\\M?hCDUBi@FC?gBKCE[EQFu@Tw@JV\\Rf@vA?KYgCBe@CKBUBk@[s@D]hAeCF@Hj@Od@Gb@@VDRZ}APMFAJ' +
+      'x@?PEh@IVCR?`@P]DBBLFFNy@Nk@FEBp@CdA@DLa@NKFADRNXNH@TCHD\\Gf@e@x@@?NIH@Fl@@?F}@ND|@ATFRNPXKXKHKTA' +
+      '^HPSf@]GOGFLTXXNIVy@vAULUROVKCWg@I]Ec@KOUSOUIU?HD\\h@dAPpAApACLMEUg@ADFLFb@?VO\\Mt@c@l@SNGLEX@DFID' +
+      '?BT?TGVH@PYT?@F@N_@tAEXB@f@c@n@gBNPBN@f@Iv@GXWd@W|@?LHj@Dw@Pq@FCHJH?LMFOFk@BC\\PF?BCMk@A]Ha@FILIF' +
+      'c@BBLf@H_@JULMNE?UBEh@SFE@C_@AEGDUV{@BAHPJQAKKGKOGQFa@N[DCDSCOR_@Rn@BB?eADQFAZXAjABAJm@Zg@HF@CB_' +
+      '@CS?m@BAHBFTBECYBKTONQD\\TATIR?R@BN?NgAr@_@r@\\Sv@QFB@FB@DCR]b@c@DIB@@L@VMr@BDl@UH?BJCL[j@O`@K`@BP' +
+      'Q\\Un@?DRIBDGd@m@n@b@E@LABOHGJKZKH@^EN[n@]h@Sb@PMj@S?FENe@nAQp@ChAHHRWPW^{@b@m@Jk@Bo@BCJNRiAL_@Zm' +
+      '@RaAZe@TSHOP{@LHFRXMJ?Ff@C`@WhAQfBEHCLUzEKb@SpA]n@a@`@EJCf@Dt@?^UbAGl@Q|@W_@?FNr@Qp@KVa@l@KZAC?u' +
+      '@AQM]IMCAAXWj@AT@jACLE?UWCA?B?HLj@?HOPQHEFSl@i@fAMb@c@c@@ZEj@DRAb@TFHNAFADa@DCNAp@EHWNEFAHBLB^B@' +
+      'HS^c@JJFhAEr@I^Bj@XJ@dANx@?\\J^?ZGz@?VOdAA^Yr@WVIDOAKIYGGIQa@QuAGQC?URE?QYAOD_@B}@F{@ZaCPc@NYHCNP' +
+      'D?BEFUCCG@GCEKG?QN_@`AGDCQHmAA]OWCMAYDu@AQESO]Gq@?UFg@?YK@m@b@Ux@Yp@QVGDEAGI]wA]eAa@{@Iq@GGUG]_@' +
+      'GWK{@Y]C@KV_Aj@]^Y`@a@^_@t@G?IIADLt@?JKb@MJEAWQG?MFADCj@BHV_@DD@v@G\\Yl@IHECCB@TCRM_@CAEN?TCBOm@E' +
+      'XXr@DRIp@@JJRHj@TnAF^Ad@CDG?QIWBGEGc@By@?YMg@KQICUZMr@IfAOTM?EKGm@Ed@@PTl@MdAAFQs@GAK^Ah@@r@ARIH' +
+      'u@NMHALD~@AVQh@EXS\\AJW\\CPBPRd@FHF?DIHaADQTWNGH@FFDLHf@Dh@@j@U~B?RIpAGtACzA@PHWDU?QFYXw@JOB?FNi@~' +
+      'BRrB?^a@hDFjA@`AGbCEn@I\\EfBLdAMrAGV[^KBQMEEN|@CpA@HHSD?@`@AjAJ`@@Te@bBEr@Id@o@fAIHe@TKPBwC@c@Hi@' +
+      'Du@@e@IeCCGStASz@Cd@AhBI`BYxBGTEFgAZIFI?SQUu@A?G^GFW@GAKGk@y@Ua@GESCYIGE[q@Kk@OEACg@kBWyAU}DEgA@' +
+      '{AFgDDSJKDBPl@Z~Af@pAz@lAP\\TFFCJKZi@JKf@DZAj@WXc@h@cB^{AHKHVLt@LjBJl@Jx@',
+    'yqHfaK@rAQrBKn@a@hBYTMRKRa@nBKHGWAo@JiAJ}AHg@\\yAh@eBBQTk@NOJGDH',
+    'maHxmKBEEGOKB[FOAQHOF_@MaEBQHIZz@Nh@DBZA@GBCBH@t@ENMD?TIYOJ@LEFIACIECVx@@WDJ@LKx@CLKPOL?GE??r@CP' +
+      '[?GDERA\\I@OGY[_@m@\\AXTZe@LGJHBO',
+    'ohKn_ODGHAH@RLNPXt@Vb@d@xA@TEVAXN~@SDGDSZE@IAQ_@aAgACQFc@@]Mq@?q@Gm@@c@',
+    'aeKbpNDMPYFIJC^Hj@j@`@XFP@H_@v@ETGJm@BSGKKY_@IQAK?k@AI',
+    '_jL|wMPgBJMRCRLj@GT?RFNLPf@PjAFtD?`@E\\[\\SJg@P[Oo@w@[i@I[Gm@@g@E{@',
+    'ikMbpN@a@EwEBm@\\iDHQNO@EHq@JSPQNw@NBVk@FPBj@CxBKbDB~ATbD@hASvAWTq@XGvAGTMPI?GCAKIPKDO?IACEEg@?i@' +
+      'Jy@@m@',
+    'uhIpwNBLIz@c@rCI^GFOQKSEgB@e@x@iAPKF?',
+    '{}ItkN@N_@OQEKO?IVAJ@PP',
+    'u~IjlNf@Zd@P?JGFk@YG?EFv@l@JNAVL\\w@s@EAAHd@n@LVGTCAc@i@Yg@QMMG[CDCJAZHVN@CEOMMSIk@MDCHYLGDWNCBE',
+    'i~IzrN@HAJOEEIEYCEASQa@ZT',
+    '}aNlpPJt@?XWvCK^GDY?IECGEu@DsAFq@\\yAREDBBF',
+    'caNnlSB\\KdBa@`AU\\MHERMDQd@CEAc@@u@R{@Xw@JCDG@c@Lm@PQPF',
+    '{rNlhRXCJBHHBTKdAKDIb@@`BGPOFEAKMI_ADmCDYFM',
+    'wfM`qS@HEPs@~BKFGLUdAMlAEDQWMYEQM{E?e@Dg@Py@Fc@DKFGN?TDFFZ`@Nb@HDFNHV',
+    'czM|}RLi@@ALpAP^@rCIOSg@G^LpBGj@Ue@AvAK`@MKYyF?iAD]d@Q?K',
+    's}MbiSC{@FUBCJoAD[BCJ`@Ft@?~C?PGHi@d@EACQG{@@i@BED@',
+    'kwMpbVJv@?h@It@Cj@ALC@O_@i@wBOaBWmA@o@BATXfAvB',
+    '}dNlfUDt@?d@I~@]hAIHCo@Ic@Gw@BED?DCBe@Je@BYL]B?DT',
+    'osIhqX?BC@YIB]D?FH',
+    'wcI|qXCHEBQBICJQ',
+    'gpI~lXFDNTCPOV?FB@N?ADGDKAGGO]CSHS',
+    'ikIpjXANa@j@K^ORITQMNs@L]FQd@g@DB',
+    'iuIboXs@gANCZ\\Jd@',
+    '{iIlbX~@GR?LLTFHJMHU@YD_@CNN@LQVKJMBSPEAMMe@O?KRm@LU',
+    'msH`sWPEG`@G?GC@S',
+    'qtH|fWBAOj@GRKJITCBCEBMDYJU',
+    'auHnvW?RUf@C@GIKBEQDQPQVC',
+    'cxHlmWJ@u@^SKAGDKHKVMJF',
+    'egIzdXHD]b@URO@AABKXg@JI',
+    'u`Ip~W@@?FAJGHWJCAKU@ETQN?',
+    'ofIhaX@LOEQD[?OO?UdAP',
+    'ejIfgX@@GNUPI@@KVU',
+    '_kIhfX@TEFE@WOGALK',
+    'uoHnbWBFCFc@JJUBBJMDA',
+    'sqGttJFXAVENA?@c@AMI[',
+    'i{G~{J@FKNC?CI@WHF',
+    'ofH~aK@G@UFJ?VAJe@Oi@kACO@MNN?RJRLLFNHJ',
+    'ijHdrKNBJP?JGCM?AS',
+    'wjH|qKHVOICG?C',
+    'ysGd}KDJWOAG',
+    'gvGf`LHZYKIGBIN?',
+    'e{GvjMBNCXDd@OUG_@[a@?Ih@N',
+    '}{GpkMBX?FS[C]',
+    '}cH|zL@PGCKYGQ?INN',
+    '_|HbzI@JADC?GECM?KJD',
+    '}tH|sIPn@ADMFC??IFG?GKU?O',
+    'icI~xI?HA@OMCOLB',
+    '{uH`qINULr@?HWAACDKKK',
+    'ogH|qIDH?HEASQGCMONB',
+    '_fKbtK@}@@IHGLJDL@TGn@GJCEAQCAEB',
+    'owJliL@PCHK?q@m@EIBUDMPQJBP`@',
+    '}eKrvL?f@Il@ILK@OZE\\INAQFy@Da@Nm@T]FCBB',
+    'q~JdtK@HILCRYbAQFG{@@c@B_@LWVDJP',
+    'waKluK@MHGBKFADH?DMn@KJG?ECAG@S',
+    '_pJfoLLJANBHMEIAGBCEAUJ?DG',
+    'ixJpqKLDOz@ELGBI?Ac@N]',
+    'g}Id|JDAC^CHA@KGCMFYBA',
+    'ufJz`KDORC?^Ob@IDCEBGEQ',
+    'sqLngL@BIr@GBGYCc@?OHOFP',
+    'cbLvfKDVELQi@EGA]@MHN',
+    'qyMbmNJA?LFn@?b@ARGJO]e@kBF_@NRFR',
+    'yaJdrN@BCHI?GG@GBEB@',
+    'ofJfqN@HJB@BGDGEG?GG?GHC',
+    'caJ~oNBJQEEDGA?CJKHABB',
+    'clIrrNB??LGJC?CC@O',
+    'ucIboN?ZKXQ}@@MVN',
+    'qpH`bWBBO\\[\\Zi@FS',
+    'uwHblW@BUDGEIAPMJA',
+    'sfLbkM?`BEhACPOTMLG?IGCaALcB?{@BQDIPGP@',
+    'ukKveNFQ?QZ_@JAFJBLFXB\\Y~@Wh@KLEEGw@@y@',
+    'mxMxmQCj@ILUNCKGcATQPUBD',
+    'ssJxtN?DA@GEAGGI@GLL',
+    'qtJjsN@TKIIOAQDIFH',
+    '{fMz{Q@^M\\K@MEEIE_@BMFGDUDGNDFN',
+    'ypMl_RJ|@GPQm@ESDSBEB@',
+    'ulMdeRBx@AXFX@\\I`AGVEOEaAISAQAm@OiB?gAFGLPTnA',
+    '{pLvrPJCPPBJOXGDIUAK@MCC',
+    'soLptP@PGHAFEB?NI?CEAO?KHKLI',
+    'kfKnmM?p@Ip@GXCA?IDa@By@BQBE',
+    'ejL~rM@NKTMn@KPK?IEIOAQBYDQ^_@DCBDHABD',
+    'qzJxiN@ZIKIiAFFBP',
+    'eiLrlN@PIRSCCg@FOFG',
+    'ekKf~M@REZGZ[z@Qm@TgALW',
+    'esLloNNMNd@B`AC`@LOFC@DEb@CLE@?PKVE`AA@IK?s@KI?i@BGFI?]MkA',
+    'wrLtfNNKDLTtA@NATBd@_@u@Ac@EI@ICEEACK?K',
+    '}nKfdNFNAh@EDCECk@@]',
+    'g}KnfO@a@@CHN@HO\\IDAC',
+    'imL`nN@LCNKFY_@GSEi@CESSC[CACFC?EGCIC[?YDKHGHJTn@LJXd@DLFf@',
+    'coLf`N?j@IROJYGG]?ODU@q@DOFBJVPR',
+    'euLd~O?{@DIJIDH@`@Ep@@JC\\KXC?Ii@',
+    'gzKfjOLq@@i@?EB?LR?HG^EL@DDA?BAZABEAISETFf@CT]BMXCRINEBGKHy@Ha@Tq@D?D@DH',
+    'kfLf|OATQb@KBUKKPEBQMWe@BYJWHEF@h@ITLLR',
+    'yxKdpO?TW\\M`@KFM?IFOEAWDUh@m@XQD?DD',
+    'oaKndQ?FIREBAWFQB@',
+    's}MtwR?r@AVC?KwAKi@AMAsABg@N~A',
+    'mgNvbSBVAXEBAAM]C[?OBKDG',
+    'sdNpzR@lAGz@GNS@EmB@w@JyALa@BCBrB',
+    'e}MxoPBn@Ed@[v@MVC?GGCUEu@?e@Ja@FOF@LTLCFM',
+    '}vMnwQDN?NETBTJ^FJBb@AHQTGGM{AEQCACIJaAFO@@',
+    'spMtrQAXGbAELKe@?]H_@HMBA',
+    'mxMtsV?`@ECMe@EACBEI?SBARFFP',
+    's~MvdUD\\InEEPKe@Em@CiBH{@BMHE',
+    '_tMviS@d@E~@Qr@g@o@Kc@CW@u@Hm@DGHIFAJUHBJ\\',
+    'amLjqRDDJ\\MRBRID]EC@GG?_@DOFGJU',
+    'inL~oRJBCVCHKJOSBOJK',
+    'swL|qR@@Kz@ADQDCI?QLs@BFF?DA',
+    'yqL|sQJYPBFFDJBb@CHIKG?SFCH?HB@FCH@RNCLCDGAG@GAKGGMCMDg@',
+    'wpLhwR@REACDCMCAGVCDCACG@KD]NSBPDF',
+    'ukLp{RMrACFEGKg@KKDc@HSDAL@@J',
+    'qjLjlSA^E\\GTGNE@C[B}@JYHEBB',
+    'gdLjaTNHIHCLGNQ?IEK@EOFKLCFBFODC',
+    '{gLhiT?g@FKFEBFGb@KN',
+    'yaLpbT@y@NDHJ@JQT',
+    '}gLfjT?FKZIEHYFC',
+    '{qL~cZFPK^I]Di@DI',
+  ],
+  CD: [
+    'dr@e_Ex@pJTGTBPHj@d@h@v@H?n@[`@K\\EpBB\\GV@XR|@LhAT`AWRSh@u@l@i@NiAAKEAW@GCEI?YIUvF?HD@HELWBGDAHBL' +
+      'Xv@APCRKLSBm@\\WRCVk@NSJGHe@bBCj@OTq@T_@b@c@FCFFTv@RFJDJ?l@OpB]pA@TIHOTk@L_@GEDZzBP\\@HEPIHIIKCYDK' +
+      'HGb@[JCTBFPDDLGhA@JRn@@NEfBDLLRFNADMJU?WFKCIOQE[DS?IC[Bk@Nc@TYZ[PWH{@C_BMeA?m@Ro@Bu@Ic@AQDCDCtBA' +
+      'rBGHKBK?e@KA@?TLxBHh@RXZFd@@d@T|@DDf@?n@Kp@?PDNHx@NZ@FGRD`ACF{BjAg@b@SDSCYH_@T]L]DW@UCOBGJMDOLMT' +
+      'EVArBDhGErAAj@@lABLCT@VELFh@NTF^ATSRYRGu@CCmBCKLC?Q[o@o@Qm@IE?ITOV_@@GOYGUEEo@ECKJS?KMUCQSc@?G\\Q' +
+      'ZNPE\\AFICG?KDM?OEM[Yq@g@]_@KYOOOIKMSu@_@W}@_@uAMuCDSEcA_A{Ao@]SQSMYMa@k@s@m@i@u@Dm@Iw@W}@G_AFs@A' +
+      'sA_@c@Ay@?qA[cBw@kAYkABu@Ea@@[HQCEU[YiAo@c@q@Kc@@e@DWJIP[Tm@Z_@\\SNMBQA[F_@Nc@DSCG@OJe@E]Dk@TeBMQ' +
+      'm@U]QKGMWCW?YNe@?UaAsDCWNaAIi@@QIc@o@]IYDc@T{ATaCAIU]CQPy@ZQVa@LKZMFIL[TSLU@WBKAKc@{@Bi@FWJQ?MUa' +
+      '@UOEOHYTS\\QdAaAZ}@VIL?DECUBKXODIHCXNVHVDLMNEF?`@N\\FL?JS?YTW?KBGFANQTDfA|@vAzAJ^NNXJTXFT\\@`@ANHp@' +
+      'TLJjBPRC\\Ff@BPDpACVb@@Hf@\\ZLt@CLBDB`@l@HBRENAHCFQNAp@g@|@@|A?NAb@UfAMlANJ?NCfBg@j@MJ@d@TJ@v@K|@a' +
+      '@z@oAVS^SZMVE~B}@',
+  ],
+  CF: [
+    'eu@}uCBGFE\\FPENOHa@Hw@HU`@_@^e@PIL@PJFAPQRSt@eBR]PIPOZe@b@HTGNMPETKHQBWj@gAJKRM`AIb@[Q`ABHT\\@HU`' +
+      'CUzAEb@HXn@\\Hb@APHh@O`ABV`ArD?TOd@?XBVLVJF\\Pl@TLPUdBEj@D\\Kd@ANBFEROb@G^@ZCPOL]R[^Ul@QZKHEVAd@Jb@' +
+      'b@p@hAn@ZXDTPBZI`@At@Df@AEJUNF\\N^IHAF@d@[lA@HJZBNFj@B`ADJHFx@PbA@nBx@QFUD_@@[FMCM@e@`@EXkC~Be@PC' +
+      'SE?QHYDMFo@x@MBeBLSN_@CKGgA?KF?NWLIAMMWm@w@We@WEKuAa@IES[_@SFiAEUKMUeAQCQ[VId@g@AEMMMm@UYa@oA@UC' +
+      'c@K{BAEUGMW_@_@s@g@KHW`@E@CAS_@ES?gBIw@KW?u@a@y@IGKSWWUQMEs@q@?QEIi@YESYQg@@MKSg@OMAWKOUq@NiA`@S' +
+      'fAeAfAo@h@STAhAFNB\\XJ@JEHKV@HGFSFiA',
+  ],
+  CG: [
+    'nWqdAm@SIKWi@@G\\]B_@EEGAIHI@i@U[j@IDMCIIE?WVCRa@IOAe@BG?CCJYKk@LWOkAk@EKFW@S_@?GFOJOjAg@Ja@Fg@AU' +
+      'W]QQICBIVKHGFAJDFEBUCQWUI?GFG?GGSGOAIGEMECc@GWBKIWAwAHeAMI@STG\\_@ZE`@GFw@EU@_@MOMUMA[MQIC[QQ?SFW' +
+      'Pg@JIJI`Ab@pBAJEDEGKCa@JUD[AYGa@OM??mFGSLQ@KFE?U@CJA@g@GKBGN[CO@c@D[^o@NOGOO@WFSBQAKGGKK?oBy@cAA' +
+      'y@QIGEKCaAGk@COK[AIZmAAe@@GHIO_@G]BEPIDKb@AjAXbBv@pAZx@?b@@rA^r@@~@G|@Fv@Vl@Ht@El@h@j@r@L`@LXPR\\' +
+      'RzAn@bA~@RDtCEtAL|@^^VRt@JLNHNNJX\\^p@f@ZXDL?NEL?JBFGH]@QD[O]P?FRb@BPLT?JKRBJn@DDDFTNXAFW^UN?HDBO' +
+      'RSPCNR^Pp@RFFFBR`@XHJYXULOFU?[Tm@v@MD',
+  ],
+  CH: [
+    '_hHoz@HSN@VNRHTA?YHk@LGJWDYAIYa@DMJGn@JFGL@?LCPILBTVHDADEJETG@B?PWRAJBPH\\ATGHYHCXBFd@@LHVXNLF?RI' +
+      'DDBJEJK@OTKIC@Eb@[b@EBW?IB?HTZLZ@@LID@ZXRf@Kp@Lh@Df@CNWR[b@WIEFK@GAABCb@@\\FTJP@@LIJLFT?VK?MYSCIJ' +
+      'c@S[q@c@ECCOi@ECi@s@MICNEBKMGO?QJK?[EOQMGYBO@m@C_@EUBm@EYCACB@RAFE@GGGMAK@ILUCKBGFIA{@La@',
+  ],
+  CI: [
+    'a_@hRFBCZGE',
+    'o~@|p@ESIOSKQQ@SCKRQ?CNEJs@JK?CGICAIDQGCW@[GCe@BIAEELQD[AAOBCAI_@VEF@^IZHJW@OWYGAGKG]AYXc@AWDOHO' +
+      'd@SVEP]NSHSAQFIDO?MQKc@_B?i@Fy@CMHKRMJSr@a@?IIOb@@BEJBTJJ?DKJGVCFEtBQFDBLD@FCD@DJPVp@Tj@Jp@DTH^X' +
+      'XJVAFDVAb@Gr@QjAULGB[BC`@GL?DD\\@DB?NDHALC@IZ]C?H@Fb@LDFQfBMTCZDtAFJCaB?KDCPjDALIHAr@BJFDAs@DIFbB' +
+      'NdAp@~BPz@DLPZJ`@Tf@DTGDuABs@CEKECS?OK_@?MEy@HAB@HMVAPKLK?GD]JKPAP@XEPEHUTAPGJg@g@QMW?KEQ?yAZGHG' +
+      'KFg@g@UU@UKSKK@EDAPMVg@CEEA_@Bm@PO?GEC]@ODOLM^e@AGGKWMJGNm@CBXEJMH}ABICSY',
+  ],
+  CL: [
+    'rhD~iTD^IAIGDa@',
+    'hqEnkN@d@OUDSDA',
+    'tqBbwLEo@GWMYWQSGQ?g@HGGAY[a@TC\\Y`@ITk@B?LHZIjAK\\I^AJGJMLSZ[NYHEx@n@B?VWFCL?NFBXBDD?DEN?NGLLF?FC' +
+      '`@q@PLb@?BEDSdAm@~@AXOl@ENQZGX?^MZARBPAJQ@i@MkAb@e@lEbAfArDLHNVJDDJVHP?JEBKXGFIDBDD@LNFb@HL@p@Qp' +
+      'ASXVLHV@HA\\Qh@a@P?JBHf@JH@JGJ@JDNr@PFJx@Vb@HHNj@d@@HPFVX\\DNFZ@~@PHLRRLDxASR?h@DFSHCFHLBNHDZEHDBH' +
+      'An@Tj@NVGRN@FCFFHrAJt@YFK?KNOLF@LF?d@GFKVEFK^@b@KLSNBLHRBLELK@IEMDOVCf@NX@`BGDDDVBHXH\\T\\NF?\\Hl@H' +
+      'LZDDJEBKHCL@LIP@^GTDb@ALJBRJJLRTDBF@TLNDNJ@J?VPNDNEf@Gb@NZMd@JXCv@[\\Ar@IPWJ@NFJHBZPf@NTHDl@CN@l@' +
+      'TN@@HCJ@FFDd@IJEXBLF?JFFHBLCHOFCF@BJFDp@XR@RMbBB`@CPFVMv@QH@HRBNGHBFRNH@JGTETPf@Eh@FNIDILu@LEJ@H' +
+      '\\P?POJOJCH@HHb@UZPFFj@BHAJyBHKL@LJXFBRERFbBCRH@NEDm@Hi@d@_@JQR?TZLBBb@HJZBVCFMLIPJJVJL^Wr@KL?JDN' +
+      'VFPd@BL?HKJ@FXRJ\\n@N?|@b@PAHSPOVGZLHZJNFDZCXBHFJNNp@DHb@VTA@~@PBJLVDVOPEVJh@ETWXMf@KTMLEBMUi@AK@' +
+      'e@GUDWFIl@KVDDHFBLCHKN?`@LLF\\[HYZe@NBDIBgKX}A?w@TaBFs@LCSpBIV?TJh@\\TFJFZ@\\\\~A@`@Rn@VFLCt@XZDN?VE' +
+      'h@FFPJj@GZGp@Ob@Il@GN_@f@WDSUCgAJQTCRLBAGSq@IWcAOU[YG?GLI^n@dBJl@L\\^h@NFPBGb@Yt@IHKIKOc@AMCIKKSA' +
+      'IBIH?Ac@_@aA?[Dc@Ci@IOI\\C\\CrABPPVEFGBEZ@LFLJALDLXTPX?HRAj@SVKHKXQy@GUc@a@GH?JL?JJCZPh@EVDf@IRKDM' +
+      'GUFCH?Jc@POJAG@MDK@QLi@EYWC?ELW@u@EWOg@QSAIFSH?TSHCH@TZDGCIGKOIO?_@TK?KUGCQAIH[j@YhA@FDDXqALQBIF' +
+      'MJBJ`AXr@Nd@EZc@XMR@JAHEFBLSj@SWF[y@EKFMb@?h@[~Au@p@UDCqAGEOHMLKIIOBMTi@x@a@FIVy@?GS@[OIO?GC?KLO' +
+      'G?DHLn@ZHPk@j@WCBm@GNMv@IVOPOTWg@QQF_AEKKHBJGRY\\c@EGe@Ji@AKQJERKRMAWKOCM@ECAIE?@P^FJLp@NGNKLIAoB' +
+      'Be@GU_@@WCII^BRFLEZSBQNU@_@A@c@F]AoA^_AC]E@GTQLEFUBk@P?Dh@RJPFx@EVIDKAEJGb@KHYYDYLO@OIQGCKd@S^SO' +
+      ']o@SHUKOJSRCZDDF@BCD@?DEb@KVKd@UHWM?FPXHd@@ZFJDDBG?OTKH@BD@LOXQNM?QIYk@IKKY[c@M[]ZY?K}@DYAa@M{@I' +
+      'KGCc@FGCGKCOH[VJt@NJFHJTGLJP|@DCEw@MW{@QEMAOHGh@B|@RVXD@FA?QMOg@UQ@k@GQGW?ILERMB]I?c@Sa@EU?MRk@?' +
+      'IE@EDEPS`@Cj@[GWIKw@e@cA[K]CG`@U`@IZMXu@IG]m@Ma@R[CU[_@KAWY@SL[@_@O?[i@\\GAK[JO`@WGCqAPDXATQNUOKO' +
+      'Cc@MW]G@FZLFTEXWZCLALDJh@^DLBv@Kh@IAIEEKEAAPIRMHY@g@P]BSKoA[i@Gc@MW?Ue@KMiA_@g@CmCx@[@o@KQAYJi@Z' +
+      'U@UM[J]KDm@ASGIWIgAIIUSG]SqAQk@e@a@F[Wi@W[a@c@G{@Wg@EYGW@eAa@a@a@YCQJ[?g@FMSII}@[W@]Gc@PoAB}@HaA' +
+      'Nc@Am@JY?{@Ge@u@i@Iw@Gi@BQB]Xu@FMEOUUM_@GYO_AGq@KOG[WQCe@@WCo@QUAo@Qc@CQGS@o@EYLO@m@Oa@[YGOAmAV[' +
+      '@}@Cg@G_@@OAUCWOQCGDIPUNW?OCUAEUKKWKy@MiAE_AMm@E]Go@?gBTg@?{@IgB@SFW@k@JwALm@?g@B',
+    '`hI|kLvLB?\\DHDl@IpAIRSXDHNr@?TMZJj@StACz@Mh@@lAELMDGCAQIC@QJS?GIMIU?GHe@AOCUKGCEASBSJAN@@Y?]DUGA' +
+      'W`@MLGPCXYRm@@Kk@QHMOEQr@QRKBNA`@ZSF]RYLADMA{@IKAMHWHg@DKHGNAAKOOIWCA{@|DSRWJY?GKk@kCCGK@IDEVAXB' +
+      'l@Lj@AVEVMNSHWCKIEMAWIMGDGRUVCGA]Rg@?IQc@o@s@?Qb@o@?QQy@HY',
+    'twIfbLPPFP@NCJQJ?F@PHRBNGz@ILSFQVIe@?o@H{BN[JE',
+    '|mG`lMB\\AL?XGVKTEFGCUOg@Oy@IUFSEU?IAUQIAK?UGG@EDCCN}@Bg@NALGVEBEPBDPN?NKF^N^VWHSb@YXRPh@XA',
+    'drHnpMZA\\@b@FF?@IBA`@FJFLDBB?`@OHW@OJSCCIQAMMEATn@NDZ?PF@F?l@O\\BRQBOI@c@[EEHSTGGISAKDICYO?GVMEK[' +
+      'KQMAMFEAKMEU@GFS@OHG',
+    'voH|vM@Tc@Ds@YSAMFKBEAIa@HIfAc@d@?HJHh@',
+    'viI|oMF_AHe@HS@YJS@SV]P_@@PGb@A^OHU`@CNCV@\\AX_@x@QJKPC?CGFSP]',
+    'tnH`qMDBCVDh@QP]Fq@^UFKIIk@OO@M`@BJGLQ\\KLKJB',
+    'fmIvfMRGCe@Di@RUVa@HRNLF?BFL\\@VHd@GNC@EOQSQCAT@VEHPHJCB@@FCPIRC?OCUB@^OTQJCh@W_@Co@JOFu@Q@CEAEHS',
+    'taIrrMd@GDEBSPUDA`@ZVDA\\WLUR[DUJMSBSQ?',
+    'fvIrrLR_DKq@?e@NKPf@D@BC@i@JSNH\\o@FEVA@DCNELOJCHAXGVAd@@POJYGBVQb@?TXJb@c@?JKj@IHIXQBABBZMLCPC@C' +
+      'GIEc@E',
+    'tpId}LNk@?]ZADBFHHF?B[`ABPCT?PHJBXQB_@n@UKCOGMNyA',
+    'ltGxkMHH?NHVRBJOd@QTGN?PKN?LB@NJB@^EPWAKRON]NILUNSVK[WBMg@DQAOEEU@QEIQ?QPOFWH@',
+    'zvGdgMNn@EVKHYH]a@[CAIFc@Ne@HKFA^X',
+    'pwG~sMBDADOFCKBEHC',
+    'v{HruMPDANCDK@EDWKI@Bu@@GLNBP',
+    'fpHltMN@\\ZPXLV?LEJW]MDMVICIQ@GGe@EKAW',
+    '~iHltM@LEBKJEKGU?QDMFCFZBD',
+    'poGtqMBZEDE?CCAM@IHE',
+    'bwGdkM@JEDI@SPG?IGAQJIZC',
+    'n_I~pMN?FJETJVEf@VRRZK@w@]FUG_@M]?WFG',
+    'jyHbtMNd@GJ?ZaAWRyAPGFV',
+    '|pGhlMHC?TFJIb@I??a@EY',
+    'pcIjnM@DCTM\\K@KFBWJOJ]BAB?',
+    'p|GloMHJBPGRBVO@KIMOSM]@EIIEEUTEb@DTMFAFB',
+    'h|IheLCr@EBACAM@o@@AFF',
+    'dxIl~KFN?JGBGECKBS',
+    '|uItzLLKDYKkA^[FBJR@NCJE?C@EHDTIl@CDE?Wl@?RFPCFC@IEAGFw@',
+    'r{IpcL?FEJC`@C?IICKKIDINGHIB@',
+  ],
+  CM: [
+    'w\\ot@MCiAk@sBY[MQK}@}@i@y@m@WGQg@u@TK@QAe@GGUGCILYp@u@FCd@IHEBGAQEOW_@SM]AGCm@w@]PYOe@a@[Ai@YcAM' +
+      '_Aa@Cc@W]OIMEqAMYIKQI]CEQCu@CWEY]wAUs@a@u@e@MQEOAOCKk@gASC[BSG_@CWAG@]RGRC\\CLkCZ?c@Jk@FK^EPML[^Q' +
+      'l@E^Qr@Uh@?RG`@Jr@Dr@Gf@K`@MVOt@q@NWHT@j@Ed@Fx@An@Ej@?ZNRh@^REb@a@h@]`AoALYn@q@n@[|Ae@FIBKHAZDn@' +
+      '\\RZHDtA`@DJd@Vn@PLLPd@LLH@VM?OJGfA?JF^BROdBMLCFGPYTWLGXEPID?BRLCVMjC_CDYd@a@LALBZG^ATEPGJ?FJJFP@' +
+      'RCVGNAFNON_@n@EZAb@BNOZCFFJAf@K@AB?TGDAJMPFR?lFKBGH@dAIdB@rAAjA?h@XB?lGGTEDK@?D{BO_@M_@DMFm@h@OS' +
+      '@XQBSJAEKGBUE?QRGAIGCBHL?HEFADLCJFBDCVE@EHQp@[BKHMBM@WCCDAXMHCHVEDDAPOF[G',
+  ],
+  CN: [
+    'klCisVn@TVBV?j@FGRMHY@g@RORIPKL@Ac@Rq@NWLK@q@MYBWAeDcBo@i@}@g@GKQu@QOEM?MRSN_@FKPCNLLFx@An@P^RND' +
+      '|BXp@Nf@Td@X',
+    'gxCacVJGHBEXG@@I',
+    'cxCsaVJDAJG?A@ICDM',
+    'ycEsxVDNQr@Qb@WTIB@YFWLEBIDGPm@BG',
+    'gzDk{VBBKVAXIHO@?[La@FG',
+    'oxDqzVB?KPCFECAKNI',
+    'yyD_|VF??DOFEC@I',
+    'c~C{kVHLCHM?ICGBICAKFIHAHDDC',
+    'ybC}pTDECSFCLFGN@ZEBGI',
+    'qnDytVDVO?KMJI',
+    'omCudUFAMLELGB?KHK',
+    '_fC}_UBBGDI@EBEIGCBOHJ',
+    'gfC__UBVIGGQ',
+    'meCyaT[`@AFHV@`@GFDNSNAPMVGFK@EF?FOf@BLs@@IBINK@SAMECIIM[OYn@Hr@ADQLAD?\\DFBVU\\GZUJKHMPENJNZ`AFDd' +
+      '@DPTB^R^ALSP@LHP^JFB@D?Do@x@HHVHBDAB]TAJ`@^H?PXCNWRKTSp@FLJBb@ZPTEFEL?NHRSN?HDFXHHHDHPGF?XG^[j@A' +
+      'x@DNOD?HL@BGPGN?RH^CDCDW?G@EFUEIJAA_@BCHRn@^^DN@LGb@FXCLOJKAG?GVKFKBa@EGDK`ACfACFCBG?c@MYSe@?[GY' +
+      'YG@IFIVEv@Kf@e@C[NSEWFSTM?ICYYE?Hn@EDCJ@x@Fd@Nb@P\\@JCLOA[WSCOFM?GHCJID[?]IK[ECSDK?k@U@SIQYQ]GCEB' +
+      'YCEg@[EQAKEGK@]PGAEQIEUBYGu@EcAD]Dm@?]DOZAJBFHBHFAHUJ}@Ta@Dk@h@?VULEFCJ@Jx@j@W`@ELDREh@OVAHH`@FF' +
+      'GTC?GII?QM]c@g@RK@EDBPVd@AB_@BYk@GCAB@TCFUJMPZ`ARf@JATXATSv@El@MFIHAJP\\Nb@^b@BPH@HFJLLZFRJpAFFd@' +
+      'P`@n@Nb@JHD?FGD?FDLTHZ@LCPD\\NVEdA_@AEFMl@KR@FR\\?JKTGd@AhAABYEC@Kp@AVBNDNLLNh@HJdA~@VJX\\ZJUXQ@eAS' +
+      '[HEFIZ?FN\\Jx@BDB@FACp@Lb@@JE~AQVQt@MJAL@LXDBD@NQd@MFEFFJ\\BBJCHi@T[^?t@Af@EPIDk@MCPJj@AHGPKJQb@IJ' +
+      'Ub@}@XK^Pt@@PYVYTa@d@AZK`@s@fAWt@KJYJOJKnAHj@p@`@HL?LWRODWl@KL[rAALE?OCOBEF@Le@x@Bj@GNW\\y@l@ELBD' +
+      'NF?LDH@JADCBWCEDOEMGWTM?]Gs@l@OHS@WHE?ACGy@FGPET]E]QKCQg@AUB[@MPE@WEKBW^]\\}@Bg@HI?ECSc@GGM?IDa@t' +
+      '@QbAGHaBf@ULK?a@EADFTIRBN?t@MfAKh@Wp@GLW@H^Dh@CDWHEDGXEDG@OMi@?[FYPQ`@CRDTAF[FEDOx@F`@Qf@B\\W`@C?' +
+      'YgAFGBM?IKWSUKB]h@a@IKFS@UHKHQBO?YMKDIJQl@Kn@?\\HJLF@JERILo@TKGEMEAE@STYNk@CGe@QQE?UDGFG@c@UKISsA' +
+      'a@u@C]CAOFIGACF[Eo@]w@BKv@OBC@e@M[CI@SISNKS_@YSg@OGI_@UGQCMDg@BoAMo@@[E_@g@m@QAe@kAk@mB?KWsASMCM' +
+      'CaACAYFIIE@q@L]BYQKa@AWGAERELE@GCQm@DYCEGAUJGJG@OGYHaA\\KLSFIFWCk@DUAOGE@CC?KECGBKh@@p@KVC@Ye@WsB' +
+      '?k@c@sCGQFMNEHOBWKw@@IP_@AGQOMCOAIBSv@O@qAe@]Gm@[sBy@KC_@ECKd@{BH}@E_ADaADINEDGAMM]Yk@Cq@GIQIKOQ' +
+      'A]NM?gALYGg@QYSEOGwAOw@a@a@_@GODMCO[C_@?c@De@AKEGIo@@INAHCDED@HRFBFMHCHg@DEF@LNHANaALUBSJIRAVs@@' +
+      'OPYB]IY?]DOPON[@ICOII@MXMHQBWNGRMPIVEx@k@H]f@W^ABEF?ZJLHH@PGLIL?^\\DJVNf@Ht@e@JE@EEG?SRs@?YF[@yAD' +
+      '[Ds@EgAJcBFm@F[b@i@HQBo@Xa@HYVi@PcAC{@BC\\FL?DEBUFKpB}@RCLIv@mANGRADGMcDj@cMUeBX}E@oAFa@DIp@s@Je@' +
+      '\\uDr@_CY}Cj@?BgAFWCMW]EUk@oB{@sD_@wGDgBCaCCSQs@k@kCqByB_@kB_@k@CUEIU?WPa@n@ONODSPIA]Us@S[YQ]CYBO' +
+      '?{@HQPSFULcABq@Fy@AK[m@Mg@OQ]q@MMQEEGEc@Fc@Ao@MgBa@q@IUAMIQKGQDMI[SU_@OGEYKSAMDW@y@AKEEI?YICE?UL' +
+      'W?MCMOSI_@Io@DqAKMAIBWRg@Da@C[Bo@K_@KEKBMCWTIDK?KHUb@]h@KDKXEFQFGJMr@c@d@GLCr@EPD`@@h@bArACJMPMX' +
+      'G`@CZDp@Cv@L^NNBPUd@MPOJc@FWu@i@?WEU[QKKAaAi@aCwANi@VeA@o@Lk@Da@aAsBW}@Ck@Ea@KUQKWEMHETEDCKIGOCM' +
+      'KMUOIOAQKOUOMMAQI]_@c@SWa@Yu@Wa@YMU@QNS@QIOFIZA^Dd@ERQBMIIWYg@g@w@Uw@GuAYgCGq@DGAiAMqAC]DW?YCIFY' +
+      'Rq@H_@AMDMLOFSBa@Na@?MGEEK?SD_@V_AAIBIFGFADBFIB[LMJUHANFFEBUDELIHMFEDBFKVCFKRARG\\[NIP@FCDKDGJ@NI' +
+      'HBJCDGXETS^c@VUPGL?JFF?BEN?HKPe@ZNRBRALIN[HCHSHe@@o@G{ABMFCHBDI@WDOHI@ICM?KDKAGEE?WLEDK@ONWl@q@N' +
+      '_@B_@@e@PMPJN@DIPKHQFAHIPBVNTCPWPMNAHEBGG_A@[FS?k@IwBBSKOWOKM@KGUO[IY@_AESOSKa@SyA@a@FSLSFCJ@XR|' +
+      '@c@PHRRLVFd@TVF@XGJJVLPD\\Bh@\\XEDBPBT^LAVJLZb@JHCFDL`@HN`@NR@PAR`@i@~DELKJBHLJDNXNRXJj@@\\JRH@ZQtB' +
+      'g@LHz@Ff@ADKFCH?n@NRPZBHXAZHj@DPHLD?@C@OJKHADJEDAHU^IF]@EPGBAH@JGN?FFFb@Nz@JDB@RHD?HIR?HDHRRPBb@' +
+      'v@?`@D~@CVFt@P@FE^WFOHEH?`@ZEREFAPBl@AVEH?RIn@EFI@YVGTJT?LNVZJTDDB@FDFb@\\JVTLLNDr@PN?JV`@BRPp@DF' +
+      'HD@TNVJJZl@NPRDA@PNN^BdAKTPLBP@ZDNFFBf@HLBVl@dBj@h@RZHV?b@HHJGDBDXBf@N^OFU@G]]sAUHIGW]AFDt@Cl@KC' +
+      'SDM[CUI@MFQISw@SMQUk@i@[MGAKPQF]v@YD?BPFDF@XGJCfAJP^`@DNJLfAx@DTh@fBPr@\\f@d@X\\Fd@b@FJBl@CVT`AW\\G' +
+      'TF`@JPv@`@^JLAf@QTWXo@NiBEY?YP[ZQVADEHCJR\\F^?HINUJc@@_@C}@SYS@[w@Y]KHCUYkAR{@Xa@Ba@Vq@B_AQS@IJKJ' +
+      'a@Es@DMNRZCFNLJLMH?Vb@CRODEHAT@VVr@Rr@Nt@HP@JGT@LB@LOJEFB@FELHLLD`@?FFBVJXEFEBOAG@D\\NNRO@ODEHLL^' +
+      'VNRVHZl@d@JRd@NRX^HRE?]FOX]Ne@He@Xo@HMlBm@NA\\Up@Wj@Yb@ENHRAPYT{@DIJK^?JIDGLe@JMPOf@G?TAN]`A?NBVE' +
+      'b@_@b@IXEZZ`AAPFLD_@G_@M]Fi@^OL]DWP[\\]^}@^YRGZIHTDn@HTPTZ|@`@RFNGd@?b@Tf@FHCK@QI]`@YEw@[q@?SBOHQ' +
+      'p@q@DYJ[BYP`@f@l@FRJLEc@QYEMBIVEfAH?LSJELBL?TTP@MT]JADFARNWNDFFBLLHt@YNAERP\\@PYHBLFHp@ZFLAZDCFKH' +
+      '?ZZJDH?JLRGLBp@l@JRh@ZTFT@FHFLCPM?AFIBUABFHBHJKVJ?TI@OJMZIFGF?Pd@d@l@A\\GNCP\\WBM?QKO@WNEj@RT@\\OH?' +
+      'BDQ`@@NCNBNFFJEFMNIBJAf@@HNLXGLFBPJT@LD?DIDEXJFRC\\DTKT?RLNN?@`@FADEB]HCNAZ^RJ?RLLRFCHBTHFBED?VFD' +
+      'HWF?FJJHNBLGHEVf@HP\\@NBIHCHD@NFH`@BJH@XGPJFDH@RNh@Ih@DNRJ?VSb@FTLNDRF@BHARUFAJXTPA?HINANHLEN?LDL' +
+      'DFCNORWLMRKF_@DUEDRHLHAJBDTHCLOJCZSd@?HGXFEB@FF@H\\JJ@VYJPNb@BDFDHMPP\\NLGPKNICE@CF?Db@EJPCTO`@ANL' +
+      '@JJ?PTRHNBh@HL?j@CF?FNBDV@Tb@f@?LCFSDAB`@DXb@RFNCBc@HEFBDHH@\\g@JARLLRDl@Eb@MJIA@QI@EBEPULQCi@\\YI' +
+      'ODSOUCG[SA?ROLDB?H[RCB?H\\CJRDPBf@ALSIIDGL?r@[^IBICEB?T^ALEFBBHMLCB@FLBJHARFN',
+    '}{BatTFILEj@GLRDPt@b@VLL?dAVHHF\\PPLTHCDHBf@HJPJFb@Ob@M|@a@`Ai@BWFoAAECWWKUY_@KWQSARMGGGCI@UAQMMA' +
+      'MBs@Ea@KQAGBYJIO?Ng@Q?EAGI?EVY',
+    'wiCgdUGAAGDCBJ',
+    'ukCqgUEGEM?MDOFCF@BGFCDHF?DBOn@@PEFE?IU',
+    'yiC}hU@BMLC@AKFKD?',
+    'yiCogU?VEFGGI_@HF',
+  ],
+  CO: [
+    'ciAv|LPh@RtALHnAn@Pf@JLh@`@dAb@x@LpALVHl@^p@\\BEC]MYBIRIBICKDI~A[p@o@l@KJ?VPh@Bn@?JEFIHc@t@WLOFWG' +
+      'u@?_@Ho@AQ?WQg@AM@OTu@BW?[@GbDcCEM@IFGAOMSC]Fg@?u@GaAGg@IO@YF_@JQ\\GRDRRVJ\\@THLRTFZEf@Br@F^?HGNEb' +
+      '@AbAWPKNSt@e@RFtA~AFDJ?GQF]RIHOp@w@JAJ@j@SHBJGr@SNAn@SL@LAFf@E@qA?ODmAl@EH?JHRDHp@h@FT?JGFa@REJD' +
+      'DTDXM?bFANGZDT@PBJ?H`C?CIBOAS@]BECO@IDI^S\\BLE@XCDCNKNVbADn@nCBJEVWXa@DODGXGNDFAFEVGNQP?TIvQlBF@O' +
+      'JU\\a@LKR?FDFBL?FQh@mEeCI?GBI^KHYv@ALMJWh@AHFZJPBf@U^Md@BH^b@ALJPBND`@On@FPBP?NCHIHK^MBYGq@LGBCH@' +
+      'NQ\\IDSGQDIJODMJGJ@NCHMLEJMJKf@WPGAm@Pi@f@MZSFAZ[f@ANLLMb@S\\E^KRg@d@Qf@AFFNDBVBDLAREXB@@DAJI`@ITA' +
+      'b@ETEBk@HOb@WH@XMh@]t@]f@O`@OJSVKDSZYMSa@Ni@]E[Nq@AIEKKKUBOIGBc@CKWYSK@KE?GEQUYDEAGYs@[AKWGWO_A_' +
+      '@?HHDER]ACDVNWLM?MCI?FTIAGKSS_AKWHo@D[AS@SDWZ[k@SMk@Pc@XS?@Mm@GM@WL?N]NEHQDc@VQRi@MGKKEYDEAAABIX' +
+      'OBEEI[e@G@QCMKCKGCK@_@LOJ_@LML[QCCBE\\OPY\\[RKJOJJJ@HIAOMI}@D_@HSRIECQIU{@qAw@[SUKYB[GWQGWDMHs@QY@' +
+      'OKGBLNDLe@_@g@KOGWa@IEaAqAVmAAWDBFZLDLKBKGI[I_@O_@CIKCOJs@@WEiAqAuBQu@Qa@a@WYCIO?QEGGAUi@Ak@Rm@`' +
+      '@STCXZ',
+    '{NfgNBBGHIBGEBGDC',
+  ],
+  CR: [
+    '{z@`cOFBDHO^BFJBDDDHlA??KT[DAT\\LFRKNCTBT`@BAJMJGLEJ?ULUPKN_@@ODOXIR@NPITWRAGp@ELYXWSME_@@MBWRY^S' +
+      'j@ORMr@GRONI@QEULk@|@Ob@KJ\\CPOPg@FILCVTDJLBBDm@h@Q|@KHa@V_@HUCo@a@S@IHUd@CCM[MACGSOAEn@gCSi@?KJ]' +
+      '@[NQJIFABEFq@?UISIIOCTINAr@Y\\Sv@m@HQj@_@FKJEHa@',
+  ],
+  CU: [
+    'woCn~NFs@Ak@ESD@LQ@GGYAgANSNc@?{@L]CSJDPa@^Y`@w@BQAw@Fc@AEr@mBh@w@Rk@BQAISNBO^g@L_@FFAd@LSJC?GUU' +
+      'd@s@LDES?GBGJG@e@Fg@Re@BeAHQLEPJJKDZDBFADECOD{@AYJaAN]d@k@HW@WAGFKJEJBPPBjAJj@L\\DVUDHDFFDL?r@Mh@' +
+      'EnAHzBHj@?h@Dp@?r@k@a@k@cAIKKIGAGBMNOFIn@ChBIVa@d@GRONq@HUFSJOPEPLhAE`@_@lBY~@KNe@`@JB@zACNKNOBK' +
+      'HXDDJ@NONCjAADOVSTO_AEIEEKBGFGRCrDRVN\\VXP\\NPDTCH?JDP@h@BD`@LFDFh@Vr@MAO@@XPh@EHEA[eAA_@EGe@HWCQO' +
+      ']_@IO{@{CMuBU_AGq@',
+    'ehCldNDFIHCJINIB@]D[HB',
+    'ijCtfNBBGHANKHCFC?CM@IFKNE',
+    '}kCljNB[CQ@INM@TA^ENGJ',
+    'iiCveN@DIREDIEIA?AJCDOJI',
+    'yeC~bOHRNd@?TETWTE?LYGOg@TG?UQDm@BGLGHI\\K',
+    'slC|nNB?M`@QTAIXg@',
+  ],
+  CV: [
+    '}hBh|CBRAF]DSm@@MNKHF',
+    'y|ApqCPJ?XGJWNQ?MEQ?@GHAX_@',
+    'chBpzCBXELGCGOAILI',
+    'odBfnCBQ?OHKJALDHT?JINUG',
+    '{{A|vCFLAJGHKDICKUBKPG',
+    '{fBpuCHK@JG\\BFPFYNGACADU',
+    'cgB`nCHDQJU@EOT?',
+    's}AzoC@DIFO?KG?MHCR?',
+  ],
+  CY: [
+    'czEosE?FEPFNDTC\\FJS@KN?XAJNt@EZEJC@@KCUSIUAHiA?]A]WyAOYOk@E[LPz@fBPDJC',
+    'yzEmkEBADKD[Ou@@K?YJORAGKB]EUGODQ?GLIBT?n@^d@JRDVBb@BHFFL@ALKDCF@b@On@k@XYBDQGOMQCQ',
+  ],
+  CZ: [
+    'mtHutBBN?\\Rb@HHNh@NHTDDDFZDBNXHZ@ZEx@BJJLRLNFSLE`@M`@?JJTA|@Un@?VSz@APB\\CBEL?NBB\\BJD?RBDNNLBEf@@' +
+      'JFJ?b@CZQJO`@UXOZ?TCFOJGHAJIPa@j@?TOXIHc@XSTUUIAKHOb@KLOFEFKFE?AGBGTUQOOQGSC_@CIBc@AEMIC_@MKAMEM' +
+      'BKCEMKAEC[Gg@S{@Ga@AAGNIHEEAGHm@FADG@EHBFU?IGG?QEOWAHu@NCLOLiAJ_@@KJKIu@FOHKHFFRJLDCBUV]XUBG?GQ_' +
+      '@I]C?]VCAHu@Xu@A[I[@CLCFDDVFGBIPUFQESGIHMDSHSCIDa@BGFCB@JE\\i@LC',
+  ],
+  DE: [
+    '_hHoz@]bA@z@GHCFBJMTAH@JFLFFDA@GASBCB@DXCl@DTB^Al@GXKFSA[IQCKDSGWQgAYq@{@O@GXIlAENKNFp@CNBNMFET@' +
+      'FHLAH_@\\OFGNAT]EIEKOQ?G`@EJSVKDK?[MQc@YBGHAPCBE@IM]p@_@KGFETIFCA@MUe@AACJG?e@UO?URG?WZG?Ok@DYDKG' +
+      'K@SKk@MKKNG?Ys@KGUCKL?ZCNGHE@GEE@C?AG?s@s@UOK}@CIHIRc@KSSCMCeA@kA\\_@LJFQCIYIEEJWFGV?a@IUDUCSQFw@' +
+      'C}@HUh@u@DOBUI\\s@~@EPA\\EPGJEBs@AGJAL@F@PKBICEc@GWMAINg@f@U@?m@Jy@DK?QGw@BG?OBAD[TYPAT^Cu@NME]ViA' +
+      'Kw@RIRHRf@LI@KAc@J{@AK]o@ESE}@KKIYe@w@JyAXWZ{@Aw@XQ`@IN]Fo@`@Gv@WJ@VFLNHRHHH@RWZs@TU`@LHCDGDMFCJ' +
+      '@FADI`@LNNJETSDAPDBCJc@DCb@Q^JNF`@VBD?HGTICADEFG@Il@FLHIFO@@F`@Rz@Ff@BZ@DLJBDCJDL@LLJB^LH@DCb@BH' +
+      'B^FRNPPNKHMR?DF@JGDGNGJMNc@JIH@TTRUb@YXc@?U`@k@HQ@KFINKBG?UZk@HIb@DLVKb@@Db@HDDDJHn@Nb@FPHHD?d@e' +
+      '@N?PHBYFEb@F?HK^CDICEDEPDf@IVE\\@@J?DBFzAP`ADBFL@PABD\\AJMNEDC??XEN?j@XFHDJJDXOCEXG?C@IPOj@HR?R',
+    '{rIutALEDDKT?VPJ?HOb@MD[CGIKAKS?ONMJa@BANPFC',
+    'epIywAD@HA@^CVKDKCKPM?Ri@',
+    'csIoeA?\\GJAJIEAID[JI',
+    'muI}r@BB[A]S@IJJJBDA@q@BDBp@',
+    '}tIut@BF?RCHECCI@S',
+  ],
+  DJ: [
+    '{fAimGbB`AAZMV?RLp@BZHh@G^uADc@?SCk@i@oBkAIMZk@?GGK]IIIQq@HAf@a@PIb@KRDJFJLZj@Pp@b@^AVJC@GQaA?YB' +
+      'W',
+  ],
+  DK: [
+    'giOdzDJ_ELcBHcHPwED]BTBt@JlWL~G?zATFAeBSaFCuA@{CFmECqA@sCEkDKkEZu@ZkAA{@@q@FQB[Aw@FqDTeDNa@HRPhA' +
+      'N~AH`CFrCXvb@Dd@NVPOBu@K{BIwE?}CH{JVoBb@{@GaCE[KU_@i@Go@CkACsFPa@HGZAPBRP^t@Pj@p@hD`@bBNXJ?@OI]O' +
+      '[[sDY_BSoBy@oDMkA?oAXO@iCRiEEk@Uy@Q{@WiAQcDH}IT}FDo@`@yCB@FRTjCNl@ZdCH~@HfEBFJc@FOF@Lr@FhCLdA?zC' +
+      'NvAJa@NaCFAZnBJfBAb@DnDGzBIdB?l@VvAJ`@LTLHNCJGDMBm@?yABGHMH@JLNFPDHCBs@N[FGDBJt@HzABHPJHJL^@dADj' +
+      '@ZdBB@Fe@H?`@p@PJVHRP`@l@TVNCJ]Ig@]q@Ku@HkBZeDRe@DABb@S~ACh@Dv@Fn@`@k@Nm@FsAFk@Ly@Aa@Im@?}@B]HSN' +
+      'IV@PFJHNVBRCr@Kx@CdAIdACf@@tADxAHB\\bC?XSvA?ZJl@DHB?Lm@FcB`@WTe@BO?}@Ey@J_AB}ARo@VRR]Z{@TE^OREP?L' +
+      'JHPD^AVGPU|@?x@\\rADbAJ^Hn@Ch@OhAVaADU@QGo@M_A?]BKJMRONBLPL\\B?@c@Qq@q@e@Gg@Fm@Xe@l@s@Lq@LKN@JDJRB' +
+      'v@CxBNEJrAD~AIxAOhAWWWMQb@?FXKHHPdA@@FUFCFBNTD@DMF[B[@iCBw@PaCDE`@T^JDX?fCDl@^~B?^O~BIn@[hBm@nAZ' +
+      'x@Dl@Il@_@vAG`@@@HSh@gBFYD@NfBFZRj@FlAATIn@MpBKx@LSPqBDKNd@AhBFz@HOBYK_@@wAI_AEoAO}BOYGi@C}A@{A@' +
+      'm@Ne@X}ABo@P]PoADq@F_@v@En@JHh@XGRHGh@Kh@UbBK|AKb@Ih@e@x@eAt@?^Df@Db@JPLvBJj@?XLxAHu@Cc@UgBAaAOi' +
+      'AAc@DGx@WLHVbBFOGu@Ic@BSL]h@eDJ{@TsAJiAZYBU@{@HHXz@D^DDVCXKc@WOcADi@ZIXEVB`@CJ?HIj@IJIJTD|@EX@|@' +
+      ']BGBi@BHP~@NHNA~BUzAQb@[^YRYFSTMb@c@jCMd@Kh@Gl@C~@@~AI~@?NDLLIDiA?eCBm@FOLKREPLXrARnB?zBIlBApABR' +
+      'FUH{@JAZPFNTjAPdBBDGiBNiBAqAMiDBYJUFLN`BJr@Rl@PLFq@ISSYKWGw@BaAEs@S}BJ{CTmCFiADcBCoDBONNFZTbCLOB' +
+      'F?d@H|@?~@BIPUFDDf@CfABIDCHAFL\\rBD~@LUD@Lb@Ht@BFPHFLTvANf@BZD`AHt@TxC@v@b@~E@`@CxAFb@L\\@VKnABALS' +
+      'F?JhAMvAS~@_@nAId@HCRUDCHd@\\i@L?Th@@N`@|ABXHTd@d@J\\DBDCJDhBpBNRDLA\\FJVRFHb@nBCR@VOp@Sh@DAPUb@WNd' +
+      '@Ll@^`ASBEAIZL@\\VAHDTATQXN`@?PL@JNDT?\\FPGd@OH]g@IDMGi@{@Ui@C@MfBAn@@RL_@Jo@Vj@`@RLLUjAPONk@DCR?N' +
+      'vALpHFBb@yBHLDTVb@FPHj@KrADh@Ch@L?FKVKA[Ga@R[\\QL]JMJEZz@@j@JAHPAf@If@CnAb@mBEKA[Di@f@Df@SRj@R@BX' +
+      '?ZR@JPNGZ`@LTAzAQ`@I^JGDIL_@Ny@H?DN\\d@@JFPEfA?fBFONmAD_AJBFLLGp@VPOHSJ@PGPZ?V@^FJFu@JDNL~Aj@x@Np' +
+      '@~@@\\A^Kp@C~@DBHUNiBHQJIL@f@IXf@Az@O`ADAXw@@XFVCh@IAGGDf@ATCDQHa@m@MICFJXb@b@@NEf@]pBSCM@Aa@Om@M' +
+      'WWUCB^~@Lz@Oh@KbAEVa@Pe@WKQKIQEGB@LDDH?DFZpBZx@@r@DPC\\GPAVBj@RM@R?d@I^GJIE[wACP@hBYAIHEJETE~@MHO' +
+      'BQJE\\GPGMKECLGHCAMJIBIKOq@CEGi@Ex@@NP\\@t@CFMBKAOWQnA]hAUKSAGHc@m@]w@Lz@\\p@@HWT]|@a@f@c@b@g@v@WL[' +
+      'QUR[iDCgAGO?l@C?OIPv@JdAJ|A?FMREDUc@]YSa@AW@w@KDCAGa@Ae@@YLQVUF]K@OLUDOb@@j@OXGDG?WX]T?FRINKj@YH' +
+      'JJTJ`A_@ODVJRNFn@v@RNHN@NGN_@Ps@?}A`@Id@YPUgAQi@c@eAGiBE??z@J`A\\~@T|@?f@Yh@Bl@?^CHc@Fi@Y?XM\\CESc' +
+      'Ae@eB]{AU_@UiAUs@GEAHFV\\rAbBrFJbBALWFMEMBSMMQMKS}@OMCmBESE`@CnDKp@]d@e@OQ?_@sBUq@K{@A_@@YP}A@o@C' +
+      'k@Du@X_BCQEDYhBG?A[G[ENBdADRBdAGbAKn@N|Bd@vADb@AZWSICI?MGYm@][QKAUB]HyALkAB{ACOGKSMCKQWKGEFDp@@B' +
+      '@?R\\HpB?b@G~@CHED@vBIGKYg@a@I]Iw@@}@\\gBB_@MaBOc@U]E@Jj@Bj@g@S]EGE@{@CoAEQC?A^INF|@?l@KC[a@e@OK?M' +
+      'QMiACAW^EGGa@CDATFhAKz@@PJl@?NMvCa@bBMr@IbAM`C]`AQ^GDQe@Ec@@{@FeA?sABy@JoAp@mDNsBGu@CCCLAf@[lASB' +
+      'ICEGOCIZQdACB?o@FoACSAAWfA?fCO|ADn@An@YTGECQQUG[S{CMg@A@HrAGzA@LVvA?TG^KFMm@MUE@Bb@EDW@KH_@t@YVG' +
+      'EEYBp@BDNOTK\\w@PIFBPl@FHFBFTCXXULHFZ?LD\\BbBGn@Cv@Wp@ONK?IGEOe@S]Y_@eAKSEEC?AJd@rABr@GNOCCI@i@GQM' +
+      'ZE`@I[?cAMg@MYKIIAGDG?GCIDIRIf@JJBL@PKbACFGBK?Io@GQKKMAMFKVNx@OHGNKl@E@a@[?YMDMJELE@a@j@I^?RHzA@' +
+      'v@Oy@Cm@KMIBI?IJEKE}@GQOr@QdA[f@IVK`@QxAM^[h@ELM~@EDQ_AGESXOZOnBQhAGt@QxAUjCK~@Cd@An@I~AClA@p@AN' +
+      'Kd@Ev@@\\VnA@VQr@CP\\vBBnABJAf@S|@?LBb@NbAANM~@Bh@HC`@mA@^SfGC`@o@pEGPEBGOWkBK{BEYET@lBC~AIrAANOZI' +
+      'CUc@b@tCA`@Ib@ICAEKv@GVGBOg@GgAG{DDgCUm@E_@GyA?mCBaBNmBCCING?Wc@KFIXKp@AXJ`APfABb@AxAM~ABTPn@Dl@' +
+      'A\\O|BEZK@Id@Ah@CDOu@Ei@AF?x@Ff@@V?r@Cv@QjAGpACRg@|BEDQo@CAK\\GGOi@[cDCs@?aBOaBKwAOcEAKAAKTSaCGeCG' +
+      'gACyCBcBIs@a@oASY]a@]Ym@]EIMaAEw@Gr@JjB?rAJpAA`@I|A?lAGj@INIJKAYg@WkAS_BIaB_@sBYiAEc@K{B?a@Hw@Vk' +
+      'A?EIL[ZKEMk@?_A@iANeCAe@]w@WKYDSHMHIESgAMqAAiBDs@BgAH_AZiBLeANqB^aCBo@EFMf@M|@YfCs@`EKxAEAOkBOgE' +
+      'KaF@kAEcCEKC[I{B?c@LoBV_ARQjA@DE]qAMUa@UO`@Y@MQ?q@n@kEHoAZyACkBBaBAk@CUI\\]lCW|@[l@OHAa@?{CJkFn@k' +
+      'HLsCt@iGHoBMg@I?KJMFM@_@QIk@KQSPMp@c@`EE@GaBHcNBsAFeAEgBG@EJOpPCfBBrGQbAU}@?s@FaBK{@I{AC{AUmFDuC' +
+      'Bi@Jm@HgBa@yBKaAD}ARqBBmAb@aC?YIUGEMMCHOlBMh@G?Ii@BeAAWOo@AUDwDAUECEK?gFE{CFkB?y@IwACqA@iM',
+    'ctLphINaAHgAPKDDHSFATh@XbCR`D?`@Oz@KXECAu@Em@GVEH@PGh@AhAEl@CNOTe@OIICYH{@CGM`AGVEFOBKGGQKaABgAN' +
+      '}BNw@',
+    'uqLx}HD^EJc@TMCIDK[AW@]Js@HNF\\RJN?',
+    '_{LpmI@RIt@IJEAIQM_@CWT[L?JH',
+    '}eMzvIj@dB@FIVAPEHAF?`@ARINKm@A_A@]Gy@CEBa@',
+    'ibN|~L@dAGdACXIACICeALcCHF',
+    '_`OlwG@f@SrAUdCMtBc@nBMFKOA_BCmATeERaBNa@^D',
+    'gzL|}CPGB@DLFQHEFHNdBJZJ`@?HKLGt@BbBN|CCRCFC?USC[MQODUEAQFkAA{BGw@WgB?QJWF]',
+    'q~NrsBFTCr@_@nBQBGU?c@Lq@Rs@',
+    '}qN`mBVrAA|BIhAOTQ[MyAGqBBeBPM',
+    'ifNvuBDXSP]N]BOi@CSBOLBZ?PM',
+    'gzMbsBBVqAlA]?WE?c@J]n@M',
+    'ivMnoBTOREJYAs@TUHd@CxC@~@Mj@YAWCMk@Je@Gk@',
+    'gdNfoB?d@ELGI]u@AQ@YNGLP',
+    'qxKlfF?^OHQCCa@JSNF',
+    '{zJd`HVTEVIHEV@VC?YmAEg@HBHF',
+    '{yL~aIAvAABC@MGA[PcABC',
+    'iaKjh@FB?DM`@KH?SFYDE',
+    '__Kzh@DCGPQVQH?EDED[D?FE',
+    'kcK|k@LWBH?ZCVMFAe@',
+    '}cKlh@ZB?HGLAHBBB?TWF@ENUf@e@^Gi@H_@',
+    'cdK`g@LFCPAB[ALO',
+    'u{IqmAT?BDLj@HNLBJIBWRCHPHl@VB^?RBFd@]VI?MFK?QFCp@@VYV[CMJK@GTODCM@a@CSY[KCC]HKb@?DYMGKKMCGDEFOa' +
+      '@Mc@?SJs@DETN',
+    'uuI{{@?NCFFv@?PEJKx@?l@]DOLESa@BQDc@`BkAM_@N}AGAWJe@?OHK@KGIQCS]Kc@PY}@IEZBVXT`@T@`@HXQf@K?GCY[Y' +
+      'e@?e@G[AQ@s@CYKWq@u@S[G{@Uu@AOPXDBJ@TQLBZ?LN\\RBHjA@LSDU?gANOZLJRFZ?NOTDJFHf@PZHBBCHAPFTNUBBDRRXH' +
+      'TLLj@OJDPXNH?UBOHOFD',
+    'qzIoaAx@c@HFLELDN\\?d@UxAIBCFYL_@?C[My@@KFM?QIU',
+    'avI_fAJc@?WBOFCPADPAPDX[rAa@CAg@',
+    'euIabA?FSLg@o@UK?ERDr@\\',
+    'qvImmABFA\\Lb@CJKGISGABG@UDQ',
+    'ozIenAFVKDKO?CDE',
+    'yuIq`A@LCNSZR{@',
+    'avI{}@BREHAT]D?KLa@NK',
+    's{IiaABBCJM@KCIBEETUHD',
+    'ydJadABFEZIMC]@OFP',
+    '{vIi}ABFE`@Mf@[GKI^gAHA',
+  ],
+  DM: [
+    'i~A~}JBRa@DYLSCH[HG^E',
+  ],
+  DO: [
+    'woBp_M_@AMCMBOTc@XAA?WWYMAK?KJMB[]MAQRE?SGM?g@HEBCGUMIU@WF_@KaABWTg@@e@P[FS?MEU?KNMVARKLOEsAJQFD' +
+      'DJAv@PBXoCPk@l@{@JGLBVPFFBLHHPH@DADIJMFMV@XGf@Bp@Cp@Lp@V^Dz@W`@?TLt@BFB@R?JDj@^f@VBHSNEHAJIDY@IF',
+  ],
+  DZ: [
+    '{eFst@TCL^XLT^D?FQNIbBRL?\\MLAb@@f@MTNTDp@D`@X\\v@^PVf@HDRB\\?TEfAc@PCFEZ_ADEXSl@Q^EvAiCDEnJ}ATh@~@' +
+      'o@^Qt@Ud@Ih@GpABfBGp@KzA`@T?b@GVILIj@@NBT`@Tf@NHRBNErCmBLCh@Ar@QTSPER]@GMq@l@cDDEnAm@hAg@pO`[nA`' +
+      'BdEdFHPtAlM@VCJQZI@_@OKKGA]Jm@?KLMZGVOlACL]XGJCx@K`@ILOFK@ED_@~@KNIH_@AWBcVlb@{BfEuJxRwGAECISi@{' +
+      '@]s@k@_AEKAYe@s@GQBw@Dk@AGOOWAEAAC@s@Ck@Gk@QaAS_@UU{@i@Oe@]{Ai@aAEy@CEGGMAGHIRAFEBUCICO@YHI?GCEK' +
+      'AM@QCa@WsAGEa@KGMIqAFiFCIK?SDMCYc@OH]n@QRQJe@FUN[Hq@I]LKBi@Ee@Be@NSKE@KNIDUKE?k@bAKJMD@g@?UQo@Wc' +
+      '@K]Y[QUQa@e@aB?OF_@A[MS_@SS_@Si@Su@Oc@Oy@ImCGiA@q@[s@GWCmBSs@?cEFWHWXg@DQEYW}@KaAOe@UOG_@PQNeACi' +
+      '@ESWDDk@Jc@Vc@BWIk@',
+  ],
+  EC: [
+    'TpuMDHBZG\\F?P[^KZa@F?VBn@EBB?NIJxB^vBfBtAtBrAjFLNz@n@D@NEDLQH?Ld@Hd@BJHTFFF`@H`@NH?NERFT`@FHJBPA' +
+      '@JRHBHET?NEJ_@VSHYBOVB^c@bA@JTPFP?FEJG@c@[?TGDSBKCEIB[IEGOEA[HYAEB_@DEJMa@QYMMMG}@Sg@QQBYLy@BNHt' +
+      '@AXHDJCFi@CFFZNRVD?HFO^m@n@I\\OPODUe@[AW?e@Lq@EQBi@NSKOk@IMa@GQIDS?OGR[PM@g@_@KOSSa@Qq@EkALGKEYKS' +
+      'KK@YQ[Go@UaAQM_@DRWNKNa@\\g@NYL[Li@AYVINc@j@IDCDU@c@HUHa@@KAECADY@SEMWCECGO@GPg@f@e@JSD_@R]',
+    'pQxsNFBAVe@CKCO]?OHQRRDN',
+    'yFdlN?HGDMQ',
+    'xCpsP?JQ\\SAKKEg@HOV?NLBJ',
+    'tDzmPFVGJC@SYMKGS@EFEJDFL',
+    'zAjzPBTGNIFU?Ce@JKR?',
+    'jGbtP?FGJOGFODC',
+    'ClyPJKb@Ef@i@TCHB@ANSNKd@TNj@?n@CHOJKBKGQYQe@KCKNYHOVu@JAFFNIHKQGCEYFI',
+    '`AbuPDFEd@KJOIEGDUPW',
+  ],
+  EE: [
+    'qfJ}iDA^Mj@NvAALK^e@t@IFEf@GLE\\Ux@HB?DKVJf@PxAFR?FGAg@Y]EGKIBGZ@HPRBXGRIn@MLO@MXOHKCEWGE?b@YLGKG' +
+      'CEFOIOBOw@C{@ODAYQg@@g@K{@?oBGOO@@U?a@NeC?_@Nm@BW?iAFmBMWNWDCDPFF?NBFl@ZTZHTHHHDJ?z@SH?TFHANMh@S' +
+      'JUDDFh@NHHPVH',
+    'kmJklCBMCY@[XaADE@d@LR@HRj@DDAl@BXJRTFNNDL@NEBGA_@g@ANGNI\\GDCOMIUVAM?MDOGQ@SMKIk@',
+    'unJgnCHNGLTTBVCLGAULGR?\\GREoAKIIOAK@ILEBc@LMPE',
+    '}lJ{pC@NMf@IICIDa@LE',
+  ],
+  EG: [
+    'ohCmeF?~`@]KGDAJ@Fd@R@HA|e@{k@?mAT_ALo@PM@s@c@k@OSCw@Rw@D}@{@VOB]UeBn@oG`@y@BO?i@P[HkBT{@N_@DS?Q' +
+      'Su@O_@k@cAGW@a@g@c@Aa@SeAHFR~@B[K{@IEOCAE@UXaA?QOw@FM^c@?L[b@L@VTHYBUXQEUOMQLAGFM^i@DM?OIc@@GKm@' +
+      'PKIe@?y@Im@[{@nCy@\\Gr@YlCo@HH^VdBTnA`@p@BPDr@b@Mb@k@v@i@`@Y`@c@`@YHO?g@LQHk@h@UJWPw@La@PFPNCRNVH' +
+      'RGZ_@LGZGd@@JEZWl@WVWl@c@^a@NYLIx@?t@]LSPIXGnAMRQfBw@bAo@p@Uz@a@dCeAf@g@TOP[X_@A\\DPZDbAA`@G~@[^]' +
+      'HKT_An@e@x@qANG',
+  ],
+  ER: [
+    'cxAgcFmDPWQ_B_@MIe@O}@S_ABc@QM@e@GB_@Co@IGc@KEGIUQ[AKMa@@MEW_@]SIWSKQpB{@bAWfAUjBOt@OXWr@O@OLIn@' +
+      'QPMOEWDQCKIZc@b@GZWFS@[DUHQZ_@VkAjA{@r@c@lAsBd@Ud@IAWf@i@^MHa@QENOTGPp@HH\\HFJ?FYd@ADHL{@p@Ub@{@b' +
+      '@YZe@t@o@n@o@b@YVEHQp@g@z@ENBp@KXGl@Lr@ALSLIJ?HFBTd@H|@?Lk@h@EFCTGLUVjC|@AJi@^OP?LFJVLBFIh@@XHZ',
+    'ocBoyFPEERCBKK',
+    'caB{yFJGEKEAL_@H@?RCR@RCVQDFMCIIHANI?GKKHBQNQ',
+  ],
+  ES: [
+    'upF}H@BA^G@KEJM@Q',
+    'uwFsRDSESDUJAj@`@PFPb@M`@CRCDSBEHCLNXIFAJEDG?o@qAKWKs@@GFD@?BED@BD',
+    '_xFyY@@W|@ARCDOAAi@F_@XS',
+    'grFaHJFC\\CFMEAII?IIGi@DIHCTX',
+    'inGdJF?HEFY@_@DKF?H@NJDI?KKMFAFULq@@a@Za@Ey@Zs@Eo@DI?kAUCGCAEL}@Lg@?OBKPOH@PABC?QK_@Lm@LK@GMa@Ny' +
+      'AICMk@AOFo@JEDIHCDZRBHMDCZA`@p@z@hC\\`@DJPdBZjBn@~@BQNQDDJZBVx@l@h@h@RVXTfAr@R?fAYPKNULe@JGJJTd@\\' +
+      '`AVZVDHR^DZLNLJ?NSHRBdB`@|@^^v@Z`@`@FNOVAZB\\JLDVCTCp@?TH`@E\\Cp@FjBBJLLV`@@r@Nn@HJXRRDCH@FN@F`@Kb' +
+      '@Q\\AN[XSJSFM?GTQDWOIMAG?RNNWPo@nAKEE?JLBHAf@Dl@qAP[KKKWQSUG_@[K@Zw@n@e@KM?U]OOOGMAIFEXg@ZYDMTWPC' +
+      'Q?aAEOQK[MOAGBOTE?GCYg@SFGC[?EAY@SDYLIIISUQOYM_@_@e@MDGLCNA\\EBa@?GBEF@PEV@F?^EVDFHBFJDXATIb@Bh@A' +
+      'BL`@?JABOHEAQOC@QLAJP~@Td@@LCD_@@_@g@AVI?EGIGKNYAG@Jb@AFM?UQEAATKPUTK?YKM_@Q]@g@CYSy@K?GFGEUs@C]' +
+      'K]FUAQFSR[Hg@G_@@uACq@?[Im@Le@DcAHi@NuB@i@Iy@GYBWG_@@QJSNkAMQAOFs@Nu@@[Ei@I_@',
+    'kpDbeBl@NPNDFBV[Z[JIFGK@QGm@]g@Cg@H?',
+    'usDttAJLCN[GIEK[CWMEEGFGHFZBHN',
+    'aoDvwATXCZCBEYQYe@Oi@WQEEGAM@EHER?b@D^L',
+    '}nDf_BN@NEV@JHJVAPCJURS?MQQG@m@CE',
+    'cnDjjB@FEHOJOM?IFOHED?',
+    'ylDxnB^PKXIHAWOW',
+    'aqDlnB@DOBg@VOMAYJKLCDDLAHB',
+  ],
+  ET: [
+    'ia@m{Ec@d@e@Re@Bq@VgAXW\\WNSf@m@h@MFM@[V_@l@QvAK\\ILE@IAyAk@GIAYBiAAa@IMQMyD@k@GWGu@YMCK?w@Fs@_@Q[' +
+      'Xg@AISUS?g@GW@kB][[sBeAOMGKEQGy@EAaAGc@IgAc@i@K]@u@OI_@AYHi@CGWMGK?MNQh@_@@KkC}@TWFMBUDGj@i@?MI}' +
+      '@Ue@GC?IHKRM@MMs@Fm@JYCq@DOf@{@Pq@DIXWn@c@n@o@d@u@X[z@c@Tc@z@q@nBjAj@h@RBb@?tAEF_@Ii@C[Mq@?SLW@[' +
+      'F@`@\\d@Rl@W`@KJMh@_@HUt@Wl@c@F[`AgAhEwQ?gE`JhJfGtF@DIvDTxAf@pANTVPNDDFFLNtA@XJf@TTHFBnAB^?RCNEHw' +
+      '@~@~@vCR`@RH`@XTV@HCt@O|AGZCjAEZwCjFCPCrCCJEFWJe@^[?_@CICW@KFOv@@HHPILI?',
+  ],
+  FI: [
+    'exJ}{B?SFOBA@KBCLLAJBPP@@l@CJYLGCCQN?AMOCINGECMHK',
+    'ewJ{yBBA@LBB?FGBKEAO',
+    'gvJy_CB@@NCDAPGQ@O',
+    'izK}uCq@\\QPG^KHYDSEEMMSYEMGEIMHe@r@KFIBIAGEKWQHGt@KAQMQFS@MAKYCAM`@MTGFAZWNUp@]hDa@hBEHUn@Or@MBK' +
+      'v@EK?i@Dc@AGECUNCCGMCY?_AVm@x@_BNOJEFcCFMAc@KmAS]@[PaAJiAFSB[I]YOIOGUEk@Sa@QC]BICQOk@UKIGKQo@Yk@' +
+      'Ci@BmAAOWkAC_@?[P_@\\gAPmAJcAf@e@NPRh@Tb@JBJKFMVlBDG?q@DMDAFDl@t@H@z@k@XaCXe@b@y@J_@BAVHl@hAj@`AX' +
+      '\\NDFE\\g@`@a@`@YNOd@m@z@e@JAH@Bh@D^JSRPX@PTDCBc@HCFBLd@FBD?JGJKHODy@FGFCH@NXF?\\WPw@FSFCVCJDj@x@Lj' +
+      '@l@uAf@oBPg@Z_@Ta@FED@~@n@PR^p@d@hArBnDTf@\\n@l@dBJNRp@fAxBFX@\\BJMr@BXHV@l@Hd@K@OEIIEA?FNNNFHL@`@' +
+      'K`@?PRQD?APNd@?FKJLh@@b@JTNnBJNDLCTLzBCr@\\v@B^AJGIGSKOIACHALINUPAFVHBDHZ?d@KBKEADGEAQCEE??LC@SMC' +
+      '~@S`AANOH@LHVM`@GDY@g@FQCUSUEYAIBCA?KMLCC?MCCOJE@k@\\MXm@QK@KBM\\i@JWEIK_@s@OAAc@MNSDEs@DSEk@Mg@G@' +
+      'QLCEBOEFEA@OQYM?Em@[q@Oo@Yq@ASQIYi@AKWSYs@_@_@KQKEASGQEe@?e@DOAOK@EHEGESI@GBGNSGUAYGMTUnAA^QRSI?' +
+      'FFJFXE^',
+    'cxJmhC@LIRC@AGGDCADOFG@FFM',
+    'gjKscCBAAKEM@KH@AFHJ@JIROL?]B@',
+    'ixJqiCBYAIJMDTF@DIDA?REHGBITMI',
+    'iyJaeCH@?ZIHMFGKFE',
+    '{vJmgCDR?DKAEI?S',
+    'uvJefC@PEHGO?KDC',
+    'euKizCD\\CVK?EMCYDe@BE@T',
+  ],
+  FJ: [
+    '`dB_db@X\\\\RNXTJTAWYQ[CQ\\FLG?h@HXB`@GNIBAVRZPH?JALJNDPc@TARKAUOHSGI?KQMKQGYKu@Ye@Ga@@MAKK]',
+    'pkBgya@H?BKNMXc@HAHD`ASDL?TDDCFBPT`@@f@?TOj@E`@ENGJUJK@IAGSE?GIAAUBQUOUMg@@WQq@BK',
+    'zgB~cb@Q[NGNHNRDD',
+    '~hB_db@FNGBOEQML?',
+    'puBqza@H?DXILVXDZEJKQ@ISUGWBQ',
+    'joBt}a@@HIFCEDI',
+    '|pBf|a@B@INAQ',
+    'doB`ya@@JGHGE@IFE',
+    '|jBn}a@FBABQEEFE?JQF?',
+    'xvBxza@AFCDEGD@BE',
+    'juBvbb@D?CDHB?BKACE',
+    'djBwra@@JMEEEAIHB',
+    'pkBk`b@BDYB@KFC',
+    'bpB}_b@@@OPE?KKXI',
+    'xmBu|a@BHKDKGAGJC',
+    'jfB_db@?@IA',
+    'jfB~cb@I?IKAGLD',
+    '|cB~cb@CIB@BF',
+    'dmA_ra@@FAJCBAM@K',
+    'pfCmba@B@ADC??G',
+    'd`C|{a@CB@C',
+  ],
+  FM: [
+    'g`@sy^FACJC@CG',
+    'kz@k~YNLE@SKEEAGFCFD',
+    '}l@yr\\B@CLAECA?BAC?CDC',
+    'mm@gt\\?DGCBG',
+    'qi@m|]BHANOBCDG?GKDUJEFB',
+  ],
+  FR: [
+    'qjGgz@\\BTMlAED@f@\\f@@HBHF`@NLJYz@MNGCGIEAK`@G?MGKB?VE?OOK?KTKBGGCKKFCJMMWMKSIo@MQ?KFQCEKCGBYAOE?' +
+      'KFGVC',
+    'mhHsn@FXPLDN?ZKJ?PFNJLDC@MDAHHh@r@DBNh@BBb@DZp@\\PD@HKRBLXJ?@GAOGUKMMHAAKQGUA]Dg@F@JADGVHZc@PMJNJ' +
+      'XDBF?DCFM`@YR]HFTFDRNZA\\BJH?HKRIFKB[DITGDB@H`@VNIFBHEJMZeA@IEu@NGVPRTPABHCD?@FBLf@j@~@LZTJJPDNDb' +
+      '@Lf@EN?j@OZIr@WP?f@CHM@@\\FLCD@BB?@NQ`AC^CJKHEJDZRVt@hBTR`@TL@p@I^WGn@@NLj@HBOxAL`@AFMJMl@KGC?CDG' +
+      'h@FLQNCJ?NYvA?R\\F?jAEHDn@[r@Dx@[`@A`@Mp@GTG@JL@DGNOKIAG?EJA^GXIDG?E_@W[{A]kBSSMEQMLPPaBIc@Ge@M\\q' +
+      '@LKj@OP[IDGJy@PQJMP]x@CDK@?SDOMFUDmAHC^CNa@nAa@XWZKDI?WMMJCJEJSQAOHy@Ql@DjAE\\MDEIKIGHCLBj@EDKMEJ' +
+      'D`@CTMP?RCL?TGLQlAA`@F\\APKLQHMp@IIGq@GIIRANKLCIBYA_@IJCP@`AQFQGOe@Q}A@g@A]Ia@IMEo@Hm@d@i@JSUo@?i' +
+      'ALOIEMKDKFECwAIRSNoABUTc@VSJQA@u@Gk@DUN@TGRQ?c@De@?q@JgAE]M]Iw@CC@^I\\IB[O_@uAI{@Q_AQa@WSGOGFyAEO' +
+      'EKKUo@OkBEOHAPKHBDCX_@FOMu@HMLIXGBIDu@BGXGBCEK?g@BQLYTFHKF?HHDABk@Ac@GUSIIU@Gb@LHIVE@[JUF_@`@m@E' +
+      'w@FE@OFK?I?MGGAK@KFU@UFONG^]@IIMAGDULGCOBOGq@JODOHmAFYNAp@z@fAXVPRFJEPBZHR@JG',
+    '{}GjFNFOJMPOBHU',
+    'bpAkyG?JCDKBUCQHIIJIFO`@F',
+    'jdCw{ID\\APQf@IH_@NKCSKG[B]DKl@c@ZB',
+    'qyAd{JH@@BGF?^KDMOCRED]NIACE?IFSLO@C@AH@NK',
+    'mdBh~J?d@MBKGMDICEGFKJAHGRe@',
+    'acB|_KHNCFOHo@DKGDUJQFDb@C',
+    'ibBt}JANI@KMPI',
+    'qMjtIAOOKGOgAg@a@E]D}@e@[CEBAB[NYZ]RQAKJGAe@HI@SCU@KDa@?GCI?c@WSQW]u@SQMAMj@mABe@TiA^[p@}@N_@J?T' +
+      'DQSZ_@LIZI^FQMe@IAILIv@OJE`@CLVVJPRH@DHH@v@^RLPRJDL?\\JFDh@TN?h@ZP`@JDDL?FCLA\\QJGFPb@Kl@GDl@fAERA' +
+      'JIZGNGFCF',
+    'gcH|}IAPGK@GB?',
+    'wcHt~IHNEFSK]JEEDMFANDPI',
+    'hrA~ka@@BG@OGHC',
+    'nxAxwa@ATIDEA@GFEBK',
+    '}oBxhK?TCAEIBI',
+    'wnBtgK?DG@@MDB',
+    'bgBtq\\@@CDO?HM',
+    'tlBhg\\BFCFIBEABW',
+    'nhBhq\\CLWADKPG',
+    'pmBfd\\H[LEHDANEDQHBZCRUHK?ECESBYLI',
+    'p{@zcZJ]AGHFD\\DHCJKD',
+    '`}@bdZNLO@AK',
+    'v`ApaZ@FS?DMD@',
+    'tv@ljZBR?HODIACCB_@LA',
+    '|y@njZ@BOFEM@G',
+    'rnB`oZBAAHG?OIEGIU@ALZRH',
+    'zv@fgZ@JI@ECAEBGBEB?',
+    'zqBfnZFAKRC@',
+    'tpBdoZDACF[TJO',
+    '|rBzrYB@C@O^ACJY',
+    'rqB`wYB?QR?G',
+    'jaCt`ZBBEAKD?BCCFG',
+    'rcBtyZ@BOCAE',
+    'zfBn_[HIELCPAQ',
+    '~fBh`[?FKR?GFK',
+    'bbBpi[F@GBSN?E',
+    '`eBhl[BA?Bc@TQ?f@Q',
+    'p}Bga_@JUEYnAkBPi@VWHMFEJAFERYPOFWHGDKHMFU^o@|@mAZq@`@KJDDLDXUf@CH@HKHIXKTYNI`@KTMNa@|@ERIPg@l@G' +
+      'N{@t@_@f@QNUL]ZMBKAGFEHIDK?EC',
+    'jlCcv_@FDGPOCFQ',
+    'twBuf^B@_@@KEXC',
+    '|dCay_@BI?O`@BB\\EDEJK?YLCWEKL?',
+    'j`C}o_@@JQMi@C@IDGDHRBBCJD',
+    'fcCgu_@@HMNGZKJOFCOSOEHARGAI_@DKDE^@HMVMD?',
+    '|qHkoL?Y[m@?IR?HI?f@JFL[BYCSUy@?]OU?QBMJIJELBJJFPFCBB?PKJEL@r@F@DFBFAJB@FEHOFY@MMAASBOHKHPD@FPAf' +
+      '@GRGBAHFL@LEXKXEf@VJHR?`@IFIA_@OI@GFMCIFGAEMCJMH[MO@_@YEG?KBCFADBBIPCFFF?NLJC',
+    'rqH_pL@JGBGAMJGC@g@JENN',
+    'faH_cI@NCJKFGOJO',
+  ],
+  GA: [
+    'oLarAL?`@NXFZ@TE`@KJBDFDE@Kc@qBHaAHKf@KVQRGP?ZPHBLP@ZTLNL^LTAv@DFGDa@^[F]RUHAdALvAIV@JHVCb@FDBDL' +
+      'HFN@RFFFF?FGH?VTBPCTGDKEG@IFWJCHHBPPV\\@TGf@K`@kAf@KNGN?FR^VAJGj@DNjAMVJj@KXBBF?d@CN@`@HBSVWD?HHL' +
+      'BHEZk@h@THAHIF@DDC^]\\AFVh@HJl@RQRa@NSR_@h@WHu@n@s@bAm@p@IF?IVm@GKUf@EP@PIJi@Ps@l@AGL[CCGBMZ?NI@I' +
+      'Ag@R]TM@~@w@?QEUIBGHBH?LCDEB]M?DDBBROZeAb@GF_AZDKPKCYKGAQIKk@_@y@GeAFIIZKFK@SJa@HKQAMe@CHD`@Ul@K' +
+      'NYLKLK?Ka@@GLCBGACg@?i@HGCIQ?ONGFUGW?cGiF?YC@uBAsAHeBAeAFI',
+  ],
+  GB: [
+    'dlJbcDJ?Md@GI?SBC',
+    '|pIzfFFQEODm@NQLFAUJQAGCCEKTQBM`@SBSAONDLAHULZFZQ`@QJc@f@Gl@Y\\?VM\\UbA@XGJI?GMAx@CTE_CDAH[',
+    'bm@adMFB@FSBMJ?CFKRCQCOFACFGDA',
+    '~bBpb@?PG?IM?IJ?',
+    'xp@xxA@DGBKG@CFKDB',
+    'nwCx`X@@ABKDCC@EDA',
+    '{pBvhKH^EAMW?I',
+    'l_IxnJJ]Ce@@OHIHD?TJAPo@@EWHGEEw@@KVU@THFJa@LHJ|@HLFVNbAHGT@Q~A@L\\YDPCPBPTJMXSVK?UUID[s@GIIg@SFS' +
+      '?Yi@QD',
+    'r`IxwJB]MYCQ@OHII{@@EIMBMHIHBDLNNFLbApABh@?TNHNRBPBD?b@GVQ\\Ug@?a@M[GWMQG?AFFj@INMcAKJGTIRK@MHAKH' +
+      'K',
+    'tbIj|J?]^NANSTEQ',
+    '`dIflJPAENGDEG?G',
+    'f`ItvJ?ZGDOAASFSD@',
+    'leI~sJBLABSBFU',
+    '}wBp{NBEAGCC@]HC?VDNARQ@AE',
+    'ezBzrNFZGGAQ',
+    'ezBzqN@NMUBI',
+    'yhEpsKDPAFGQOO@C',
+    'krBnqK?FICAS',
+    '_rBtrK?NABEG?S',
+    'ctBxpKDCCTCD?Q',
+    '_gCz~L@?GJ?TIBAIBYFE',
+    'ogCf`M@BEJE?EJEA?OPE',
+    'qgC`cMHU?M@ABHBTADG@',
+    'sgBlcKJ?CLI?KE?C',
+    'urHrKHA@FCF@\\QCB[',
+    'itHtNJFCPC@GY',
+    'sqIpZVf@CP@PIGSIIQUSEOBIVGHH',
+    'saItOFLFn@\\|@Ct@Yf@IXAHDb@?VKMEOCd@KT?h@Tz@Oj@EHM?IDCJMOIQGi@_@cBYm@[SMMCLIDQGKDKHSCBr@Nj@@RE?IG' +
+      'Wo@QMGKO_@O{@?_@AWESAUPk@YLGSX]@KCUG^GJWROA[YGRM@MAIYc@IGB@VFV?JS\\o@p@QBi@W[g@Gm@AlA@VJTBVPb@?`@' +
+      'KNAFPt@Qz@NLNBMVSTKDM?CIBK_@Qu@q@OGI@IFS^a@CKGAq@Ur@UGXXF^FBBPFDGBM?MEIGUc@Zv@LRHFZIJBjA`@FDBJ?N' +
+      'EFs@QIEY[@JCHo@AOIWCs@]IKKC[Wl@zAEj@ILOD?PELGQC_@M]IXKW[]YESRIXKDKKIc@CRMJE?]OKI?s@CEAEDY_@l@EBM' +
+      'KM@ECCaAQLE@[CIICSBUJSKk@JKIo@KsCEe@Bi@F@LHT?PRfAzCTF@WBIDDTd@RH?[YuB?SFs@Cc@@{BC_@BWLQVQB?V^PN^' +
+      'Ln@`@X`@PLXb@DPDv@L^BRGsANo@LBHR@h@Tf@Hb@EbAEPHQBQLoBOi@?o@XyAl@_ARc@LG|Ae@r@YLKFO^_Bj@{@P[L]FNJ' +
+      'H\\Sr@m@EN?TSf@Bd@?f@Bc@@e@j@sAX[b@ONHHPV^Rm@CS[c@A[Dq@AUFi@DUZw@LKRCTAd@R^JXb@DPAPB?HGJAFP@PCZNh' +
+      '@F]FENFDPFx@DPCUBMJIBGDg@CiAB_@b@BBDT~@NLFB?d@FNF^Ll@BRKnA@p@HbAANMr@C\\GZNQLd@BNBt@A^PMDNG|@@HDD' +
+      'CVQl@AV?RPnANPVFTHNR@TKTKf@GRDRBh@Hj@Xv@DFPLBTKPETDVDLEDI@MQIm@Wg@YYEWIEg@w@GC_@GIk@_@UGeA?m@Dm@' +
+      'Ao@GS_@_@g@y@Y_@FT',
+    'glIfYBGAUHDXx@IH?HONYBEU?]',
+    'eqJ|N?TKKAK?YDB',
+    'eyJnE@DSPWM?ODCD@@HVA',
+    'kyJdGLCAIJO?GCMl@NRHRBFFPJEJg@OG@GDB^IBCZGDCQ@OGY[NEVCCAIMQAU',
+    'a{JzCPHF?CPIBKC?ICM',
+    'mnJxR@TKPGDEAAEBQFGHC@I',
+    'cnJhQCHKJA[D@',
+    '}oJbRB@Dq@BKHDBF?DIXBb@CHKBDJ?DIBUGAK?QFUBEB?',
+    '}pJ`PDPCDM@G^EDEMJWHIBQ',
+    'u`Jhh@@JA?MSAOFF',
+    'qyI|^?VER[JICGIAMDKVONA',
+    'c_Jbc@HnA?XEBCECUYIK`@C@GEEUAOFMLOBUDO',
+    'q|Ihe@h@MB?FDH^?JKGKDGAA@Nd@YGGO@KIQ',
+    'y{Ihd@?LGDG?GEGYCJKEK[AMTL',
+    'wkJve@`@X@FFHHX?U@GF?BBN^DRNV?HNTAHILUk@Of@IMEPC@O?IO@KFKCO@OQJGIc@cBLI',
+    '_cJff@@LMNEUBGHC',
+    'mfJje@RDREDMBe@Ac@BEB?`@n@BNAB]DBV?TCHYVEn@ONKIBMEKIFGo@MC?IBKJO',
+    'ogJ`l@HWRP?ZMf@GCAE@OCM?I',
+    '_dJhl@?RADSF]A?U@En@C',
+    'acJjm@BNCFGCAMBGBA',
+    'aqIze@?NDR?p@CBOCCBCRADKJKBGJGL?FT\\JGT^@FCH?f@ILE`@KFYl@GDKUKq@CGE?IZEBCG@YKe@US]MK_@DG@OEMSOAq@' +
+      'Im@BcANQTITWR]JAN`@F?E[@_@FIVKJ@CFIHGRLCR@@SRHBR@V\\TFNAR',
+    'y{HrEDPJH@H?JOf@?HEGE[GMDa@',
+  ],
+  GD: [
+    'ajAv`K?JGCKAOGIIBI`@B',
+  ],
+  GE: [
+    '}_GonGI@CDCd@GJE@CECBGPW\\CPMDCDANBPXVIr@Ax@LRQ|@c@e@WK]?c@PeBb@OLQx@SLYj@K~@EJ_@t@Uh@YSCMJiACY^u' +
+      'AFw@Tk@D}AGm@@[J]Ae@Nm@FAJQPs@Hi@Rk@BCD?FHF@DCBM?YEI]cBB[BGPOYOACNy@\\c@Ak@F[BEp@PD?Pg@LUDSB_@Rk@' +
+      'RNDHBRFBNABMPI`@}@HIXFLPBNYx@DZIn@MPICQz@CZ`@z@B`@FG@@?v@BPCn@NvA@z@',
+  ],
+  GH: [
+    'odALJKFCXB`@NHAFCT]XYNUBIHB|@@n@DB@?FD@BABMDJDDHADDDEK]@GNOx@JZ@NGF@PVTINKP[XMH?PPJ@rACb@TTAFE@I' +
+      'FI~@HD@BFXBr@]@EJALEVa@@MVMDGDSH?FNJJb@RHf@?`Bd@lALj@TXLd@PXHr@ZvAJZRZVj@?PUb@KXO~@Gn@G\\GC@[EI?O' +
+      'EC]AEEM?a@FCBCZMFqCj@i@DGEW@YK_@YUIq@Ek@Kq@UQWEKEAGBEACMGEuBPGDWBKFEJK?UKKCCDYASBYJQ@IEU?a@DU@IC' +
+      'G@GFG?GEE?CH[L[?u@O?O@?AeFCKB}@Ae@D[Ag@JI?CO[OK?OEGIA',
+  ],
+  GM: [
+    '}sAnfBAq@@_D[OK_@C_@Dc@T_@Hg@V_@@OIc@?a@JYLCNBPnAEd@Ol@i@~ADFRHDHFhAF\\^B@bDPTQ@e@HQMIOFINCJID[C[' +
+      '@QI@IEOkBAe@A@CXFv@@x@Th@APUP',
+  ],
+  GN: [
+    '_t@f_AAN@FVRFJ?XCBe@OYYE?c@Re@@GZC?[KI?i@`@u@d@IL[PCJ@~BL@Fj@IZD\\FL^JDDz@`@LLFX^LHRCTBHE@QEIDQRU' +
+      'FWX?VSE[?MFOA@BHFCLOZOJQD@F?NWr@{@b@k@CNPo@RGTDDZH?FGFSAYQcAa@SS?OI]Sc@?_AOk@u@@OVQPG?GS?QIIa@GU' +
+      'JO?FaCBCLBHC@IIO@GLQLu@?MFK@UMq@?]@OGo@Dc@BDb@NDA\\c@BICI]]GK@MHIj@[DE?EGKg@]Me@b@iBAGSIQa@EYKEI@' +
+      'MHE?CQ@QNa@HGn@Od@Sp@?HURIFG?IP_@BAJDLPJHZPD@BCAQIOJ[PE\\Br@KHGVk@FCHAL@FBRXHB|ACLIDKCYl@BFOLKJVF' +
+      'Fd@@L_@NMNE\\ADB?FQNCl@@^DDf@BLW@QDEJARJTJTA`@PDBGf@FJMLIBANDHHBV@RPXJALFP@LEBYVEPBFEL]OYASBMHo@D' +
+      'I@CDO@Q?IPOLDJODA@BBPr@OFAHDN',
+  ],
+  GQ: [
+    'oVsu@?a@HGN?l@^RDNJ?HG`@EFG@WGEUs@Q',
+    'qLyeAhF??bGFVGTOF?NHPCAMPCVy@UUQCGm@Q[Q[Dm@C?EJADEFU?_F',
+  ],
+  GR: [
+    'mcFcmD@BGHE?EMJA',
+    '{nFy_CTCBKTSH@BBI^BDAHMBIHFJ@FG?WKCEFGAG]G',
+    'ikFqaCRSCNLPOTUPOMNM@O',
+    'ipFi`C@TBDOASEKGCKFE^?',
+    'qnFw`C@H_@P?IDEHADE',
+    'muFo|BHCEXIPWL]^G?EKCYHOBCNPHITEFEDM',
+    'orFkqCTIFIVgABk@BEJCHIFAFBVEVKJO@g@DER@FF@FIN?JGFKTOBGHOFCFIBAv@GTUDKTW\\MTMj@DRAHC@Yw@E_@',
+    'msFssCDFCNUL',
+    'wsFitC@HOIGOLD',
+    'qqFgyCBZGCKRQEFMJC',
+    'y|FyyCDVMZGASS?SPMFB',
+    'alFerCDFANC@KKBK',
+    'eaFaoCF@ERGDS?ICACX]',
+    'u|EyhDJDIFICQHYQK?EKT@NHLINC',
+    '_fF{gDBROCMHP]B@',
+    'qdFmgD?DGGMSK]?IDQJ^DF@V',
+    'afFu~CFPIJQFYa@@GFCT@',
+    'ufF_}CNNALEDOIGO@GJ?',
+    'mbFg~CHFCLGGG?E@?ADK',
+    'edFs}C@BSREGLU',
+    'ikFufDFi@JC@NJZCHGLCZKKES',
+    'qiFuaD?HGCMQ?WE[HHHP',
+    '}dFs`D?VESW_@FMBP',
+    'ucFkdDDNHHGJI?BMEGE@BI',
+    '{iFgwCHLM@OG?KDC',
+    'khFwwCDJMCGDKKLI',
+    'wdFkxCN@Bf@OEDKGG',
+    'iiF{zCR??DC@SA',
+    '_kFe{CLDOLIPIDEHKBEQNM@SF@JE',
+    '_jF{|CLFCJKTMH?GDIBY',
+    'weFoyC?BGBK??GLG',
+    '{mFabDJPOTE@EMIGMDQTK?E_@HS@IHBd@CBHH@',
+    'ytFadDJBR[JIJCBBGPFAFIBN?NKl@IHO[GC@PPTG^KLQM@WCKEMGAAc@',
+    'u{Fo_DDTOVGWJQ',
+    '{xF_~CDFJDN@?JAFM@?DJF?HCL]?Aa@HICMGCAO',
+    '{hFw}C@PO?CGFUB?',
+    'agFixCBFCLKCCGBIBA',
+    'q_F_mDBPIFUISHGMMGMQO_AJ?^PNLJCBV',
+    'a}EatC?_@KOAOJEHPDMAONADGA[Ku@Bw@JS@g@Dc@Gq@BE\\DFCBGAIIIG[?[QW?Er@LDN?bAJzBDpACJU@EBCXIVQrBBn@EH' +
+      'GDW@UCGGFCBGGII?ICBELC',
+    'wcGocDBQLODQf@GHB@JRh@Z?RCHBV\\NLBLGDM\\IfAIb@@LK\\BRTh@ATMVANFRV\\L\\EX?d@LBZ[JHJG@_@Nc@POPIYb@Op@AP' +
+      'FPF@b@q@PEHHIVg@`@Gl@FF\\OTi@FHMn@SJYBc@pAQHEGME@TFLFTL@JCp@LNCn@q@`@OLKLWXYLKTGNT?LEDOII@M`@BLHN' +
+      'PIJINEASPZHX@f@BDBWHQJo@LW@UXWFg@ZUD_@HYFGPAd@AXET@DD?HSPm@z@CNFNDl@JZBBNWN?RIBK?QBGFCNOB?Jn@HPE' +
+      'JO?O^APKLHH\\ERQt@]`@KNAXDd@W?HOX_@\\SH?J@Th@VV?EJEHe@?c@\\CLYNFXd@BJFW\\k@^W?UUO@]TS^ENSFO\\GB[e@a@Q' +
+      '?IFSCUQQKO@WXy@N_AJ]LQBWQDCM?_@KKIDCJCPBLERKNK`@Q^HDDL@PKr@F`@H`AQNMDADL?HDBVGLs@VYVEPK@KAAUHc@A' +
+      'GCGUDAf@DZCLGBOVURM`@k@TQPMR@KFM@OEGCCSG?MG?ULE?GOECEe@GKa@K_@QG[YOG?WNMACgAGOFc@Og@_@]CKA]CIF{@' +
+      'Ko@YCCE@kAMOAe@@i@Mo@?YACKE@aAEYTONa@EOD[F[NWKw@Es@BYG]GKIEO@QFEDE@KGAQ',
+  ],
+  GT: [
+    '{yAl_QECWIYDOEK?GCEGGCa@XG?}C}A?aGQ@m@GIHETGHK?[NOTO\\UZYTQRKP@sAqB??mJ`KN?eADQHQHUQKOJC?j@iAtBtC' +
+      'L^DD`@Hf@KJ@NVTLAJBVBDF@TEJVRNDF@NZb@LHP?_@jAEX?jBKl@Wr@Wb@',
+  ],
+  GW: [
+    'elAlgBAI@[CSMc@CSB{@Is@e@kA@eHN?TKP@THBD?PFRF?PQNWt@ANj@?~@Rb@H\\?NRRbA`@XPMHYG?HTN?FY?@RMLU@IIC@' +
+      '@PCDQIMc@Ec@KHETBPHF@HUPK?KEEI?i@GUGEC@?DFNAp@BLRZJ`@EVYGGJFb@KXMJQAMKEA?JFX',
+    'cdAvcB@LKHCKGGEMNCFB',
+    'gdAjbBB@?HYCFE',
+    'ceAhaBF?AHOCEG@KJD',
+    'cgAd`BD@CJQOAKJ@BF',
+    'ufAjbBFHCHEBI?MK@I',
+    'giA|bBVHAJOHE?AY',
+  ],
+  GY: [
+    'o_@rzJmC~BE@UQ_@a@o@B[HSKGg@KMB]QYOe@KIQEG?GL?LDJCJIHI@KGc@VG?UUWIGICY_@g@K][MKUECE?o@d@BG^[DO?C' +
+      'G?BMx@}A`AmAbA{@LEx@?f@RZDf@?TJKOc@Ck@]EWHY@SDQd@e@\\c@VMJg@PUNGh@C`AF@ALHF@RJPGBKFANRJ?DBDjADFFP' +
+      'FFJF\\Mj@NRBb@TL?REh@_@TG^c@X?FSAUCA?YDAd@AHITAFAN?DANQRIDETELKLATQn@YD]LODNAJFj@G`@QN?DH\\?HHPb@X' +
+      'DJ?f@DLBTL@JF?TEDG\\?BTH@NDFPCJB@b@LR@LSTOr@OPIBCFa@^IXQ?ELEBk@C]BQXaAR{@Cy@SMGo@DUc@IAMMUIE@KJi@' +
+      'V]GSXEv@CFMC[ScAGKPSJCRJPANBH?VEL',
+  ],
+  HN: [
+    'u|AvfOCp@DXRP?FPf@BRCRJF@FEP@BF@@BCHBHHL@NETINOJCLJVJJF@FADB@JFFNDJ@HCDDBLLPTTNRHRHHL?@JWf@OH@HH' +
+      'Jj@b@BHCl@@V@DH@lAKDB@ZHHR@LDFHBH@v@SAIN[POAGTDTGRIMEAGHy@KE@ILAPBRCHKFELHVPb@?DYDIf@GFIRGBQXOJG' +
+      'J@HKd@UMOWKAg@Ja@IEEM_@uBuCDSc@q@Ec@?OVYGU?SLiAE]Aw@BWUc@Kq@IBCFBi@R{@C_AIUCOT_ANQ@MGKCJCDHs@jAa' +
+      'BDAUh@@TBDPA?IAGBORYLG?GGIAOHI?GMHOX?EXw@^OFM',
+    'keBb{ON^?HKMIWES@O',
+    '{eBtwOJNE@IGEG?IB@',
+  ],
+  HR: [
+    'o{G{sAFEHu@CIEGC?ACDS?w@EK[UAE@CFCFGP[@KCIAKH]@YESUJEAGMMPAAMa@Ec@MG]?KLKAEEUgAKM?_@CCQ@IO@UD[Lc' +
+      '@NWPMJQHWJQNMHS@WDOFENa@B]BoAIa@UY@KEe@JBDHLITKJDFEFUBDDBL?JOLo@JMB?B@?d@EJH@@L`@GF@BDAHB@DA?LAR' +
+      'EHM@IDIPA`@Gf@@\\C\\JT?LOV?FF\\G`@AL@HANUh@NXCr@h@n@CJ_@f@CLALFR~@HP?P[Za@BI|@UPQh@y@XWr@iAHa@BCT?D' +
+      'CTU^k@DEDABBBJa@p@Sf@c@l@Mz@Oh@Dr@AZIHQ?q@vAs@|@QLE_@Be@Uf@k@x@UNUB]EUH[l@ONG^?NJFVD~@t@@LAFu@l@' +
+      'WDq@N',
+    'wkGagBDe@AYBWFSAh@DXATIL',
+    'qlGojB@fBCXMb@C]B[DGFgA',
+    'mmG}gB?^CZELME@]Do@FI@@',
+    'krGe~ADCKXMJ',
+    'cxGq{ABVEJGBARKLIOOI^a@',
+    'wvGu{AHEKb@EBIE?KDC',
+    'ctG}}ADDc@p@ID_@ZNW@Gr@cA?D',
+    'oqG}}ABAAJk@p@GBHO',
+    'yqGa_BLMALSR',
+    'cvGqyAF@IJm@TG@GGG?YHAGAEPAHCJORBb@E',
+    'ijGamBLYQnAAQ',
+    '_iGgrBF?POg@fAa@`AGp@Y~@Ij@Ac@b@cBIHAM@KHGr@eB',
+  ],
+  HT: [
+    'gzBr_MDCf@IL?RFD?PSF?D@Z\\LCJKJ?L@VX?V@@b@YNULCLB^@]`@GV@vAFXDp@SbBBr@FTLLJBBHa@f@KROl@GFKBa@QG_@' +
+      'NiA@a@HSN_D?IEGOOAg@AGIEI?MV]b@c@^KMUDg@Ma@dAEt@CNKFQGIOGg@Eo@Do@^sAFmA',
+    'ktB`fML@Or@Uf@I?CUTq@',
+    'g|BbeMBGDBIf@@JEJEI?W',
+  ],
+  HU: [
+    'qmHiiC?WHCROHa@NKDQASNQL@@E\\f@DL?VFf@^b@LTR@RV^NRXN@h@`@HCPb@FBNHNABLNFLTCf@@NJDFLBHGRFl@BFENCj@' +
+      '@PCn@@NRTNh@AJEJJLDPDh@AJRRFVBNCnAC\\O`@GDENAVIROLa@z@QLOVOl@[ZGAGHUDED?d@U_@EOAWUGC@AFMBIGSBE??O' +
+      'ISQKMFIh@A@OY?GLg@AECq@YFEAEGKAIK@Y@Gb@}@FY@mAEsBKIGDI?KGIWCgAGg@IEIKAMPu@a@uAm@_@C]?m@Fg@?YGc@?' +
+      'MHU\\_@@IIcA',
+  ],
+  ID: [
+    'eHg`Rx@k@DQb@[PDp@BLJGXG@e@NUZAJUDYLo@j@@a@KOKE',
+    'bJwjR?PWf@IFM@w@d@KDm@OIe@DKTEb@SZMJ?d@[T?',
+    'xt@_xUh@XLOFh@CP?HGh@G\\GBIAB_@AI}@B[_@KOGSNq@JMHA',
+    '~q@qpUHS\\[HARZTl@f@TDLCJKIM?YN[j@Il@WTQDIA?C@WHi@@UCKS]He@',
+    'lIwuSf@W~@It@]T{AHNFDn@RFAJGLACV_@z@Kp@QJSD]EMNUHYBINI^Fh@Oh@MAIIKYIIKCGDIAQQGWf@WMIYDCSAQFMHI',
+    'l[{`Wj@CH?SNB@@JNDN?HDb@BHAEMT]J@JLDNEHBBLJFAVLDFGNFHAFWHI?KISEWSkAOi@?c@SIYF@',
+    '|_@o}VLBHHAPGPFB?JKDc@IMMM@]JOG]aAHGr@Ch@Z',
+    'aV_dTFZKNKQCIC?G\\GFQHK?_@g@CIL?^[\\A',
+    'vQicTRBFBPTANI@GDGN@BJBHh@QEKFW@CDKGK?MG_@EGa@DEFg@R]XM',
+    '`CcmYFk@?MFOCQBI\\c@RQPWBQNJFZ@JIT@PKLQBi@LJTQT?F@@EHMF',
+    '|HumYHoAAUDk@Je@@aABSHMFb@DPB^CZBPEFGZMb@OjAIB',
+    '?qpXHc@AGTq@HGFBHGNN?FCFCNDPCJMHGP]X@JHCFITM@OFKN?B\\IHQ@LZSHA^IRKII?EMDMGM@ICGCY',
+    'yKyaX@\\GFk@Fa@US[EYXQp@LVL',
+    'jI}_XHPC\\?`@Fb@ERILKA[KSYCKDQN_@^q@',
+    'hNyrWB@IJ_@FGF[FGAMI?GFE^Bf@Q',
+    'dJsrWD}@FFJ`AAVDfA?HK?GFEKAM@g@',
+    'tIalWDQ?GIIBGLAAKFKL?@b@HXGb@Nd@DVAR[Pa@IEGAKAc@',
+    '~p@wsX@@Ad@O?IDQIS?AIIA]KEGAIWSKEEKI@EEEODKJGLR`@Id@LHFHNHBPRTF',
+    '|n@owWLA@VJTJJNHE^AZEJ@LBPL\\SAKE_@YFW@YE[MSG]PW',
+    'zq@qiWJEEOAMB{@DMVABDRbCEJEDQOIFMGGO',
+    'fGwqXBDCVKL]L]FMm@DG?QHIj@D',
+    'u_@azQ@YIk@?YJk@Es@DS`@_@^g@RKVEn@q@RCXDRM^eAPGNOb@iAt@iAXi@d@c@bAk@b@c@h@]LMHMBOX[FMS@QJSAGIAKD' +
+      'U^a@POp@SLODg@FUb@m@NORKt@O\\]JODSDw@JSNOPGLJVj@Nn@Cm@GUk@mAAK?MDMd@e@VMVILNHVV^HBDGPFJQHAJNHA`@Q' +
+      'Ze@XcAD[A_@DCx@Mn@ERGV@RKVk@HKZB^^FBTBHC@Ic@c@IQAK?q@BWTc@nA_Aj@[TCd@^f@JVAROH?v@RlAKzA?dCLZLCXG' +
+      'FQJW`@BH\\`@DHM\\_@x@VBb@KL?BNk@l@]X]`@}@n@s@rAk@t@Yj@_AjAc@`@iAn@k@|@[`@MLwAt@[d@cAl@UFg@A_ChAg@R' +
+      'u@NeAx@a@^w@ZOHILUt@KPONUHm@HcAX}AXg@Ra@REFy@~AILGh@ORYFe@Ba@HYf@wBrAMNKPKt@IPq@h@e@n@oApAg@\\sAj' +
+      '@YGUDGAMa@Bm@DULS^e@JSBW',
+    'xt@k~VFZN`@@\\AXBRTp@Fd@OJAb@TNEZF\\?JOf@Il@Bl@Gf@Nh@_@RYAIESEDGAGK[QYEWAOBIEYN[@[FWHUJ_@LQDO?SIKC' +
+      'MCc@EUFSXe@?KEUEGKAOMY{@OME^KEGK@MHKb@CBHLHJPNGFD',
+    'ry@amVFIP_@ZM?]LWb@[JONILDRRBZJVEHCZGROR]VIV]h@AX@TKv@[RIBOMK]EuADe@O[BE',
+    '~r@_bVFIAIO]@WFKRGQGGS@OFKVIR?TQJHBNIRD\\FAFOB@@BENHp@AHGDU?EB`@d@BJAJNh@AXPj@BV?b@FHDRCRM`@IBM?O' +
+      'G[D[ICKAKIUOS?KJ[?i@DINCFMXSAODOOY?UKCWXAVW^KHODICK_@Dg@DEVI',
+    'gEqkW`@d@`@Td@^Ph@@VJdA@j@Er@QPKRAN@nCFvAK~@JdBARKh@CVBVJTb@^RJXHn@LT?n@IRGj@[DEJ_@NQ`A]AYHo@MUk' +
+      '@Yc@]OQEK@IPUBUCWKWOQES@kACm@E?KJQcABUJSJGLAj@HDNELQNGRD\\LPjAz@f@r@ZlANNPJFL@NO`@HFL@BKLQTOJ]DGP' +
+      'Oh@WVGPM^i@ZCPMJCNNR@\\HP@LOHUTQDIFEL?DGJGBKIIBIFEVCV?FD?HIRL?@p@Nr@FPNL`@CFDBVE`@K^ONSB{@IWMMAON' +
+      'EVKTgAnAGBWCm@[_@Cs@BOJCTATDVf@|@NNR@f@UREfAIF@RHn@B`ACf@GT@l@Rd@Dn@Uf@GIVFl@?XNXDRO^e@b@SBo@Mg@' +
+      'Q[?UCUISCmAA{@Zc@AGBGHAJ@VLp@KLOHWFWBWAUGa@NG?GEO]WYSGWAWEi@]SEa@FOAa@@a@IaA]c@[IKNORIQAy@NmAHGC' +
+      '@IGIKC]HI?i@SWWWEOSQMUGAIPIFIDSEOQKSQi@WKSCULYBg@DETMDOCw@Jo@@aANk@Pc@?IMMCU@i@PqBAOa@eA_@YIW_@M' +
+      'Oe@g@_@EG@WHIZMVTf@PRJ',
+    'pd@a~STSJQFU@i@HYBYEUAGDGb@e@r@OJODcAHw@ASISP_ABWEs@HW@UIQQKy@WIGISBYl@c@BE@_@I[?KHSLSFq@NSBIAy@' +
+      'DUx@UFSFGX@VATk@Jo@?q@Cq@M_A^cATER?r@H\\?d@QNUP@EVENKFEJ@VKj@Qp@e@vA?VBTHVHj@QpBCvBG`@Cv@QxAs@pBK' +
+      'd@WpBAx@EX?VF`@PVCl@Kz@Oj@S\\Mr@IbCIb@KFMAe@SW~@Mr@AR@n@AVCV@RKBIEKMAEPCFMACUSg@ODIGOcAOSMUYHSBc@' +
+      'FUBi@J_@ESKOUGJUBa@',
+    'uKelTXPPEDM^Cb@_@FK`@_@FOd@e@Ze@CW[_AE_@@e@Fe@@MEKB_@AGSUE_@g@QSCGKOm@A{ABIHAF@DC?KXmAAILUM[W[ES' +
+      '@YC[EWHWCE]Qm@MGSQEMFUDQESc@a@i@I?KRQ?GAO?IE[YFKI[QGO?YCUKc@D}@Eq@UKSOKCC?GJWKWAS@OFSKQDOAU@oAFc' +
+      '@Ta@BYFNHFPSJ?Xa@TIHJ?PQVJ@FHAv@BTDS^c@JGXJHEP_@?KFGH?JEBLFYJJN[NEXM^]JEJ?FBJNLLD@DPJMRM`@]v@mAR' +
+      'a@j@i@JUJEPRHXDl@KbAKRUNKRZMLBJFRb@lAd@RDvAJV?l@QVAJCFB^~@NPb@\\DP?JGH[JT@VGJBHFP^N?HDTd@NH?[XEXD' +
+      'PRHSBUPEh@DDNCH?HDDH@CMp@DLBJFBJIJHBHCRQHPHBVPNFPBLFrBzFCHGBqABi@LU@RNGTEFa@GVT?HEHGBADTVL^?PGNa' +
+      '@?IBCH?DHVAFDD_Az@r@LXh@N^O~@J^\\^BH?HCFk@Cq@BWJIJNN?XGVDTRj@@TCJIFICGIDPNTCDURFd@JNCFIDm@@{ARm@B' +
+      'IBQVW?SKUCq@JSFa@\\MTMl@@VMLOAIGAKE?KTQRGDK@Y?q@MGMk@b@UXuAFcAIMMIS@Vg@GKEUQSSUISK',
+    'iDi}WBO?MIG_@IOQAKEG_@?OKWi@GUA]FCLBPEr@BFDP\\Rj@NFL?P[Pi@FILEN?FI@MPQWfAIPCl@ITAXDHZFPC^Bz@Qn@Un' +
+      '@_@^c@C\\OFOd@y@^c@f@OBOCm@@[EQPULW@M?WKIAMPk@PU@k@WS@u@S{@u@K[F?F@h@ZN?FKPKn@CXB`@V\\n@LBHI',
+    '|P}iXTm@@WAi@@MZe@RK^GDS\\Qx@Hw@jBUp@OLKTAh@@VRABHGZCVGRCZEBKA?RJTXTBVERc@ZMRAHBH^HRJLHAB_@EWHy@m' +
+      '@KQEiABk@Eg@@MJAFIAIGUS]?IBW',
+    'hR{wWNa@TKT[NC^BFZP\\Jp@Uv@Sd@EF_@VKBe@@GCCGFYIQEo@?s@',
+    'zv@wkWP?BC@EKYFIN?LH?VBBNAPKXGHLTFPV\\Xn@v@Dr@^|@@TGRGFI?QOIEMVG@s@OQGa@a@U_@NI@e@CGSQWEEYGOKKQc@',
+    'tb@eiYT@JALFRGV?XDLNGf@Y^[XG?A]G?[GQTEDEIDQc@]QCAK@IRGF@BI',
+    'fg@{gY\\FPPXHFFJVOTKD{@I@OC?ELo@@AKh@q@',
+    'tr@y`ZZl@EtADb@CFYGaA[y@c@MMYk@Kq@@k@f@e@TEfAf@Zb@',
+    'hOapZjVAr@TX@RKLKxL?]f@WVm@`@_AlAYVq@[RPNPDx@FXBZCJKFYDTJHTV\\CFSDSIYCMMq@QKFCLGFSJWXEICMDe@GW@XK' +
+      'h@MVYVE?COEe@MJKNSDc@b@UNk@La@LKCIK?RENQGGSD`@?NEBY?O@GNOP?HQNq@xAKDFNMT@JGT?JMn@Wl@Ib@Wl@QhB@r@' +
+      'q@vAWLYEAc@CXJ^?HM^FVKLKBEDBT?LSJ[d@SFm@Cg@[ALHLFDH@b@@JHANTCRDTPJ@HAJB^\\@`@BTEHUNq@P]W[FWN_AnAE' +
+      'PEh@WNUs@HeAJ[Yc@a@YI_@Lk@Fg@HGBIOAQGEYEEQ@ATUUOCPh@Dj@At@Jr@C`AEXBR?PKR]XGJw@N]@Cf@]tAJV?VEJG?S' +
+      'IKSIG_@M]?Og@OcAGQOMGQQOQs@?m@Jo@Pk@Xe@Pg@@cBT[HBRB|@c@HA`@FPLRFp@Gl@ATEfBu@WEY@GGEIDKlAM@MEMf@A' +
+      'ZMNWFi@?WEW][e@m@u@]]m@]K_@QIk@Cm@Qm@OSKAQHG@]s@i@uA?SZg@`@kBHQNMHUBWHUJSp@kB?gAJSFiAJSRE',
+    'ls@acZ@HEn@KFGKMKEW`@S',
+    '_LuzRNIJAJDPBLVARED[LWAIG@QMS',
+    'eEe_SDHWRu@HIEHSVOLAPB',
+    'cHq_SXAQXEPCVENKJI?CCVuA',
+    'uC}bSFBEFGr@I`@KNKAGCSCGGZc@Xu@',
+    'mDycSDDAH]f@Id@UEAKRi@JM',
+    'kBodS?TADQAKG?IPI',
+    'cCqeS@BYPMECCPOJE',
+    'kFciSFMEIN@RLCRGBC@ME?G',
+    'sFulSN?FKHAP@XLCNKDCAEHGEIBFd@Q?OUCMBM',
+    'b@{mS@EIEZ_@?HFFUh@FZKTKI]GFSJABK',
+    '`A}kSZWHHND@BENNHWDOLMGAGBC',
+    'dAkgSDXC\\KCMM?KHUFI',
+    'jFulTRf@?HGDg@CIEA[DODGLCF@',
+    'jk@qfUBDA`@NRDNA`A@@OhAMDMGSSCg@AuDPQDAJd@',
+    '~EojY@FCJMHKCGKFIHC?G',
+    'bBizWBJ?LUBYECKBSFFLE',
+    '~@i|W\\UZLNI?[DGPGFFDNIPKHF^MBSEGPSNG?MEI@AINOSO',
+    'zc@y}XPNg@MUCKM}@S@EDEl@H^\\',
+    'pc@a}XRJGF?DI@WAYH?Mb@S',
+    '|Uu`XFBDJAHECC@@FNXEHG?C?OQASO[@MTH',
+    'eXswWBFALI?QKSGCFKHO?YG@IJITENETL',
+    'oTkpWFDKVQAYJIAJMd@S',
+    '~r@{pXDNOIc@e@DM@QNZFX',
+    'tp@ojXRJALWVQAEAAID]LE',
+    'rq@{}WFc@ASFCPRMf@MD',
+    'pIumXJCHIP@@DLGBHADLP@VEFGf@QZE@Uq@EW?QGW',
+    'fa@y~R?NW^GBEG?INa@FE',
+    'zRsrR\\GSTM?IBILMHa@DECAGj@i@FCN@BB',
+    'bPiqRNN?VIBWAGDOCCC`@e@',
+    'rM_oRDAQ^CNSLYEAIFMVGRQ',
+    'hBkfRHJIPKEQAMKOCm@TAIDI\\KPMVD',
+    'wM{yQ@JCJKHa@t@?NGJALWNK@CIMGDQTSFSNO\\o@PG',
+    '~`@wyVBJUVQHKAKIG?EG@KJEBGJC',
+    'hFaaWJCJDRG[SASHQHCTFHJ@NMF?JZDFLKHMKe@DFF`@XNP_@N]CSO@KEe@',
+    'pAsxVFIHDAVFTICMO@I',
+    'jf@ipV^FIB_@@MDQCi@?SEd@M',
+    'pj@cpUBNGNQCCc@JSFC?V',
+    'dW{uUb@h@GDe@CWJQ?]GWKQ]Z@JEP@j@GJD',
+    'dcAm_WAVQ@IEKi@KOWYISRANGHTTPLj@',
+    '`s@ygWJLTDDFBNUH@PSGEG?KFG_@Y@IBA',
+    'tr@qeWDZVP?LJFL@BDGJJNINARi@q@CNC@C[DG?ESa@HY',
+    'ds@waWHBAt@I?QSCQFW',
+    '|g@_iY@JODCIHI',
+    'qEkeSJACLKFKKJE',
+    '_D}gSD?KPKAFK',
+    'eDojSDJSNC?CCFIBK',
+    'KimSBAIR[R@GVW',
+    'wRiwSL@GLO@CC@I',
+    '{P_tS?FE@a@BN]ND',
+    'cQqgTHHGHUQ',
+    'bI}gTFTQFEOBO',
+    'bQu~SBFIDEC?O',
+    'xQa{SBBCJIJE@EKDU',
+    'pk@ajUF@AHKHEI@E',
+    'hc@o_UFBARG@MK?GBG',
+    'nh@ypSBJCHCBQUAEFC',
+    '_Lk_RD@UTKTAI@QBGHG',
+    'ic@_sQDBCJQJCCDWFA',
+    'rIocW@LEH]AEG@CNEFG',
+    'tXgaWVR?JOPWBIKBc@FG',
+    'fKaeWFAAJMBG?',
+    'jJu`WNLG@GCII',
+    'ru@uiV@FAFQAKBIGOAECFE@MFALBNR',
+    'nr@egV?FG@GCCKJEBB',
+    'xu@qqUDDORIOFI',
+    'aYi~UCm@ZGHb@WT',
+    'oSk~UD@OPKBGAAQDG',
+    'hd@ifWH@OLKABG',
+    '|_@ucWR@?FMFIC',
+    'nk@{qV?ZS@F]',
+    'hs@w}UCLGCMDKAEK?WF?',
+    'rTsvUb@DSJWKCG',
+    '}Ca{WDDADGDEACE@E',
+    'fLyfYBDI@ICAGBE',
+    'pYyaYHIGVQ`@K@P]',
+    'zCeqXHDDHJtAQQ@GEU?a@I?',
+    'hBmoX?JGRMYBKDC',
+    'd@uhX?FKFKRWJd@m@',
+    '@q{WD?KHWELC',
+    '_Ck{W@HI@KC@KHA',
+    'zCszWB@GX[I?IZG',
+    'dUocXH@APOFACDQ',
+    'lUobXH`@YKDQ',
+    'gW_wWH?SJUBFINI',
+    'qVywW@BCDEBE?CEHIB?',
+    'qOynWB@WFKEHKHF',
+    '~k@{wXH@EFIFETCDCa@',
+    'zk@ecXDHOPIIAIFGD?',
+    'rn@k{WDJ[ABULB',
+    'j_AibWFPO?QOEKHGFR',
+    'daAwxV@HGXIQMOAOBINB',
+    'dg@siY@DI?KKAE',
+    'di@whY@BIDOMAGH@',
+    'jQ}~WNHCRIS',
+    'vSq|WFCERGFGK',
+    'lt@s_WHDAJKAEEIOAOFKBV',
+  ],
+  IE: [
+    '}oId}@D?GNGDCh@GQBc@@G',
+    'iwIbl@J^\\LTRJd@AXBFDCH[D?BFJp@JTFEXm@JGDa@HM?g@BIAGU_@KFU]?GNYJCJK@EBSBCNBBC?q@ES?OFGDC@\\BFH?JEF' +
+      'If@OJId@ABBv@S^Cd@ZNDVBZXJTP[HV@VCZ?NHTABOHNFDN?ZBj@BPTRFh@NTFTBPOZ?VFKJAH@DJ?LJT@\\JLN`BE^Jv@ARW' +
+      'YOe@AJF~@FT@TKIWu@GII]R`BAVED@RMFS]IOKg@GGCH@tAOEK]AOFe@Aa@GLQ@CJM]OYMqBKw@EZILPTFL@j@E`@Lh@@\\Oc' +
+      '@Yk@WYEDCF]_@CKEi@KSGh@@hAELIBAB@h@CHIQCT@RAPG?EGEJG@CK@KGw@Kd@MAI_@C_@G@GAA`@D^OCKEQ?@LKBIDDTK?' +
+      'GECK@a@EUA_@@o@Pa@AIKMAEJqAAIKDIHIKGQMo@MGKKD`AMz@IIIa@EAO]MDKCGKQKAYG[?g@@IK@AQBGFCDGHALLDGHLOc' +
+      '@QBIDKAEKC_@KL@WHQJg@JRFT',
+  ],
+  IL: [
+    '}oEe_FRDH?ZKHDPAHE`@TH@Hb@FFn@B?LING@CDE`@NVz@Vp@GF@DDBA?CCMBOFMD?N`@LNf@NDABECe@U}@?Gp@HRGxBt@R' +
+      'Dl@@HA^LtARLLmCn@s@X]FyBn@OSM?a@c@KH}@g@{@WqAWgA_@UEAUBe@IOYGCIDCEEKUQS',
+  ],
+  IN: [
+    'ctC_iLMWCSCU@m@}@ACACG?CHEAECGBk@?wAR_@?QCi@SOWmAAKDCJ@HCF[COOQCG?IGKE?ADIFO?IAMMiA`@gAl@q@?GNDV' +
+      'AXCJg@^_@B[I{@CGDEJA\\Gb@Uj@KF_AMUOo@w@kAo@OUQ]?QN[RCLGFIBK?OW}@CSCq@QaAQCYKa@c@MIw@UIIw@oBKIu@c@' +
+      'e@SkA]_@uAYWK@MFOCQUiAaA?G]q@MBCLKBw@Mo@NUGMOKU[aAIc@OOK?QPQp@?f@ETEBQB]CADBFCT?XGFICYDO`@WXI@[Y' +
+      'YEGBOXGBI?MCIOI[KEG?AFCr@IHG?OOI@IHETK@u@_@WcAVaC@o@Rs@F_@?SK]Uc@?YQy@B[ISUOQk@WImAuCHSGU@E`@DJ?' +
+      'TM`Bg@FIPcA`@u@HEL?FFRb@DBH?f@I|@C\\]V_@JCVDDALQZATCf@@BPPJD\\U\\QDGFFx@@BD?VIRANIr@m@\\FL?VULFNDDEV' +
+      'BBC@EAKEI?MOGCEDMx@m@V]FOCk@d@y@AMDGNCNBD?@MZsAJMVm@NECF@JDJ\\^PZ`@\\|@\\RAXDLJBFTHVDFCj@eA@KMGBMT_' +
+      '@f@sARMJMVc@d@gAG[FWf@cACc@BI\\ILcANk@GOGACM@SNw@IMKe@J[XkAHE^AHG^aABS@ELEDK@ISw@@OHILALEFI?MI]FW' +
+      'Fo@ZaAAKWq@BETILg@KWBk@EWASJ[AGGEy@SQ?WH_@VG@w@G_@Ic@OQ?EFG@CACEKy@O]?GH[DGZIdARPATYB@NVFBVSRCZy' +
+      '@Ec@Ls@BCF?B_@IeASOG[Pk@Dc@EmA@_@O[?EJK@]Ia@?_@EIGCI?YNUGOI_@P@p@INMLI@]IDeAOWE]BQAMI[MUGEE?GFE?' +
+      'KIOc@a@o@e@QGGKqAGSM[KMIGIACQ_@c@Oc@Q]@KHILGDm@Rw@@UUYK@Sg@[aALQTKBGAU@CFBXj@^C@CWe@CQDEJAf@S\\b@' +
+      'PLH?FHB?FUGGIa@@INWDi@ESDMVa@XBJGP?DDBPd@r@JJHB\\Cv@g@F?BJEPILWNELAJN~AFX`@\\R`@d@v@^`AXLV@^C\\KXVZ' +
+      'BLFb@^JVHHPFRDDCHUFCHAv@Vr@d@d@TvA^@J[lAFd@CFOR@BFBp@KPIlBHHBHFBJEH@FD@PAd@N`@Ed@IX@BD?HJH\\H@JCJ' +
+      'SNCH?DVJDJuAFu@Fk@REDmABgAP?JGFFTATd@AZ\\LDb@AJBHJBLALGFa@LAF@DX?ADEBs@Ji@PO@s@MSSMG?_@CGOSCK?GFO' +
+      'EE_@MAWGEOCw@UU?ACF[?ICGEAGBa@r@K^DpBGd@BhDCd@UrAIDG?c@Ew@DSCm@TGFAHDDJBJCJFDNERENMRQNU@MDEH?LDD' +
+      'PKF@?ZG\\K?OJQRIR@HNBFQL?v@x@f@LHEDGBSPUXQDIFS@a@DEPCNWDAJJBLAhAl@NNJGV@Ff@TNBZYDMCMDIJKFSB[HOPAd' +
+      '@D`AXLE^[\\FFCFc@BE\\Nf@I`@EF@dAYd@?\\B?NTMb@E@NAJQHNDNNOHM@w@IIDAHIBx@LVEHBHXUZGBZFCXIJcAWUCWh@UHV' +
+      'CXg@VT`@RRXNZT~AFRX\\XPXBZKj@GHGNJPPTLJAHBZp@^VGP?HJMLDBJThARv@ALEACIW?CJAFZh@ZPDCAIO[BMD?Vh@jAzA' +
+      'NBPJNNd@\\x@v@TLj@xALPh@b@b@d@\\j@d@lA`@l@VLF@TMHAVDRLLV^jAGfADTNHz@TNRVH?JCH@FSHEXTt@NPlAd@p@Ht@I' +
+      '~@OX@ZJ\\Ef@Q`@Cf@KEHQDSLRRNIPc@NIdCTn@P\\RJJp@Vz@PVBVGNFJJEULGbBAxA@B`@EZBZHNNJ\\AdAr@TJVBJEJMHq@D' +
+      'QJIMf@Al@`@nBT\\RNl@H\\@XLd@x@Jb@HLMj@a@n@QPwAdAILs@NOLi@L_BPBGNKVE`@ABGCGkATSR?DMBU?YNyAf@w@N{@VU' +
+      'Lm@Xs@h@STcBr@y@Lm@RuAP_@@c@Jg@TWFIAe@LOB_@RsA`Ao@JQP?Ya@^QK?RIH_@Lc@ZSB}@TsCRaAPQ?y@Re@J_BLKHG?' +
+      'SE]OQEYFXLFLSDa@@ICBc@Of@QFMIKLc@DMDq@G_Ba@UC_@By@LAJIJe@JSS@V_@g@Oi@IQHX@ZAz@c@IKIEK@NCRc@EGOEc' +
+      '@Ij@DXCX?\\BKJKRBJFFNLJRJHYFGLIX@|@`@JJd@xAR`@XjADZE^Sn@q@dAQRaAv@a@h@_@\\]f@i@b@QFQAKMBONKHQWu@@U' +
+      'KM@QSc@Cc@oAs@EMQB@JZPEPBXPt@NTBLQtAg@rA[b@kAj@KEk@aARv@FNPNBTYF',
+    'ui@yiQNJq@VCHW?GEKYDGn@M',
+    '_m@yhQRPKFGAIO',
+    'qr@ceQFEAHIJKCCC',
+    'gp@_gQ?LOJICAILIHC',
+    'kq@sgQFH?@]BIE@GHB',
+    'cx@}bQ@HEBG@GI?ELC',
+    '_aAcaQFDERSASDGCOOEKRIRA',
+    'cfAibQBFEJGGOAHIH?',
+    'cgAobQDBEDc@PUBGDKGCG_@EOGECAQM@KJc@?OAIEUBGAKKWCGBe@IY?YMIS?EZCJJPID?XJDJVJPO|@CPJ@Lh@CH@\\NFFHA' +
+      'BG^DV@',
+    'gjAkdQZGKNGDEG',
+    'koAobQJF[?CE@C',
+    '_eA{eM?@KCF?',
+    'ur@ugMBFE@BCACICD?',
+  ],
+  IQ: [
+    '}fFwgGCSWc@USAEHa@I]XuA@_@@_@Qa@@SHOHC\\@LI?Eg@aABWBENGr@OR[FAX?JCJK@SFEbAW@WDOHQPMBKC_@Bm@HSD@Lj' +
+      '@JFPDF?^[VGLBRh@l@n@HBZ?FBAZH?TJZQJAL@b@XFM`Au@EOBKJCJDBUHGd@YJ@NJTABC@e@BORe@fAmB?_@HQt@[JOz@o@' +
+      'lA\\nA?@aAfBAHYLEDI?IDIRMD@VGNUBPCROh@?LDPD?W|@BbAFTFLJHnAd@d@Zp@n@F`@YfIeGrJsBzCkDtIe@tFU]UFFh@_' +
+      '@JCOoDx@_E_KKo@GKcAg@gBE[Ei@Ua@@s@Tg@CUEOMIKQiAm@y@m@u@GA',
+  ],
+  IR: [
+    'ggDe~IVRRZEJ?FFR?LLZFVATIBC?@K_@qAICMDCAF]M_@C[HM',
+    'khF_pI@u@[eBEGk@UKIWc@]{@Ig@BiCCEQCKWAm@@SF[Aw@FMHIFCRABAFa@De@Lu@HYV]BY?GIWFSEa@DWX{@@KLGTENQLS' +
+      'ZmANU~@w@?{CLIZ@ZARGP?VJFKLGTAHD^IF?FD^JFPJAVG`@NJA\\VJ@R\\?JD@D?@E^Y@p@j@\\p@GXFLCHKDQ?]BSDAd@f@b@' +
+      '^ZCtCq@N?b@Fr@AL@^EVgDPSj@I^?NB`E|D`B_BFCL?p@a@ZKNIn@u@J[@SJk@JOXYCe@HAf@Bf@Gz@EZHT?D_@Eq@FQJGD?' +
+      'FJN@VCFJd@DBLAbAHTDf@LXJHLBATHFPp@JD`AJPPJATDx@BPD?JRVc@tCIFODENXTMhABXGN?h@O\\Hl@@b@Yp@Gt@@h@AVI' +
+      'b@INFZMLMlAq@XW@i@P}@FWDUJc@`@GNMhAJn@Rb@Jx@HJRLJRCXLZ^p@HZ?VOVUt@Eb@Bp@CTWf@QHKV[fAc@x@MHSFYVSx' +
+      '@S^Ed@@`@CNILk@n@Q?i@\\OFk@DIFQ\\KDMGK?KPETKDYCOBYTY\\e@^IJw@RAPb@rASXc@hAKJGSDQEKKBGR?XJGHVLDh@EJH' +
+      'BF@^JL@JOTWFEASLEH?HEHMDIXgB@A`AoA?mA]{@n@KNu@ZIP?^gAlBSd@CNAd@CBU@OKKAe@XIFCTKEKBCJDNaAt@GLc@YM' +
+      'AK@[PUKI?@[GC[?ICm@o@Si@MCWF_@ZG?QEKGMk@EAIRCl@B^CJQLIPENAVcAVGDARKJKBY?G@SZcAVO?IGC@MNOZWASDIGE' +
+      'DYj@AVE@YKUOUEOMCBEXE@[A[F[AQRKBMCOAORQBMFCS?k@CIq@MKKGMVe@?Gl@c@TUHEFIDKHQX[FQRwBG]@m@q@{@E[_@g' +
+      '@_@y@]y@GW@Ul@w@HGFJHXLBLCL[NCFHFd@JJDADCRe@NIDI?MBGb@a@@GGo@z@Ep@Kj@WLQNg@BSBs@Fq@D]LQd@WZe@f@o' +
+      'ALe@X_CAuAq@kFKoA?]HPD\\DQ?g@EII?w@L',
+  ],
+  IS: [
+    '}|Kb`B@UGe@Su@CU?s@R|@RVJPBAFSBUCU@IDGJEJBLJHPBA?MEiANGDEB@PZKa@AYBo@DQJICWDID?PHHXJO?MDAB@HRHa@' +
+      '@CJ@DDBH@XBLDCRBNRFRBP?^CNJ?FPFCBEF@PVDNF^Nl@?n@Fn@N`ALl@d@pAJ`@Bx@XnDLTB?DGJLDX?JEN?DB@FGJtAEvB' +
+      'ShBCrAYx@C@GECUGHNb@AJENC?A\\Qr@CBCMAJ?RNf@DnFGF]HKG?IP[OyAOWEOSQMSEi@Cd@Pz@?RGGGU?LCDG@MKUgACNPr' +
+      '@Db@AHEPKNCAKQCB?JM^@p@E|BN|AGTOPGACQ@m@GcAI]@KBEIw@EGBe@AUAwBKQKGCBJr@EfAGTEGK_@UoACKEAG`@@z@IN' +
+      'Gp@B`@EP`@fEO~@Al@CBOYAQ?SHa@BWO\\M@CFIHCC?K@WP{@A[Kc@EpAELGJGQ@k@Wp@C@GCACH}@M^C@AIGCCO@]No@DENA' +
+      'AQ@UKS@KHIT@GM?UCAMAMBOhAKZCCCMCkACHAVGFBXCz@C?CKKa@@_@Ca@BYVs@Hg@`@eAJi@BAFVDYFOBAZNFNCf@FIF[DG' +
+      'BB?K@ENFDD@A?UFO\\SWIGEAIYKM[CWNY@S]QUAWBOAKMAOHc@V_@Xk@D_@CICAa@DKEGICe@Ow@?MFY`@q@Nc@\\W@CGGK?s@' +
+      'j@G?ECBmADQ\\u@MYa@u@?QNk@AQMs@OKa@TEIGo@Ai@BI\\w@LADI',
+  ],
+  IT: [
+    'a~G{j@HUEg@Mi@Jq@Sg@[YEAMHAAM[U[?IHCV?DCZc@Dc@BAJHNUJADKCKEESHG?OMWYMIe@ACGBYXIFI@UI]CQ@KVS@GCMU' +
+      'FKDEDE@WICUHMBQ?MMAGFOAYGBo@JM@M?_@CG[SGUCy@@o@QoA?EB?LLHEn@m@DQRiC@_AFi@JBPf@HNJBHGAEFc@H@PXH?B' +
+      'CAQBAXFBAH[NULIDRAJGK[\\?LJPKr@BHHFJPDXLZNr@ALMUAHRj@h@HDM`@SLYVHHNEL?FTDx@Kh@QNQ\\g@Lk@l@mANi@FIb' +
+      '@Yh@U`AW^Qb@a@t@gAd@aAV{@Bo@EmB@SDUPCHFZn@T@LUh@kB`@mBNa@Zg@d@aBPMd@{@\\YVCf@PNHEVQZcAh@ElAQj@G@K' +
+      'LA\\HRXVd@Zv@ZT@TOJk@Rc@RUn@AZINLC\\Hd@PZNJl@AND^r@^Z\\N?bAQL]@OKGWc@OYBKIGGIm@c@AORaAPw@`@o@PWLKR?' +
+      'f@CRa@bAEBG?MKQFQFMLGLFh@?RDN?FYWEDIVCh@FDCBK?s@d@UXCJDTIf@ATH^EHEBU`@Kj@cArAYX[t@i@`@MZKf@D^EFG' +
+      'OM@i@l@KZ[PCLAXa@CK@a@L[XcALSJMZO~@k@vA?PQt@A`@Lh@h@r@j@h@FNNt@Dn@Q@SUWQOFDt@AH[dAKLIDGCOHa@WAIE' +
+      'CUFEHCZGJSHIJI?CK@]O[ESUGEECAS\\a@XGLEBG?ECKY',
+    'kqGamAIEGB@JFFHE',
+    '{jG_`AFEB?DBJAIPBV?NGBECAm@',
+    'm}FcvA?LABGCBQB?',
+    'wdFijA@HEJI?AABOFC',
+    '{mFk`B^Tv@n@XFd@PVCRUDJTWF?H?V\\HD\\??TET@TQv@a@XYl@?l@GTUh@Sl@Yd@EXKV?j@CJOT]Pm@UKUMOVUDII]IAKS@e' +
+      '@HEDURe@BUKs@Bo@Ek@GYKSCIBaACKGGCK@KM_@AMDK',
+    'o~Fe{@JI~@WJB`@ZTCLGLAdCPb@JDLOl@BTGPf@FNHHPCl@EHq@b@u@BOIQAM@ECDGAEUAKJCNW?GGIC_@?KJQBKF]^W@SCG' +
+      'CHQD_@CSIYIW_@c@EUIIICCIJI?MHURODM@ABDJFBC',
+    'esF_t@RJMJK?CADM',
+    'o_Gyr@HFAFSKCIBCFB',
+  ],
+  JM: [
+    'krBzaNFWDm@Xi@TeAb@WJCDP@j@K\\ARCCARVR?PIDBHDFZFW^ER?h@CR[TENWNCDEl@MFKCSS?YCUIUHsA?Q',
+  ],
+  JO: [
+    'qkEu~EBSFMZSD_@T]LyAgCuFiAoCnDy@BN^KGi@TGl@x@@FdBnK~AgBdBcB\\|@FF|@^XnCFH`Aj@z@pA@H_@tEYEM@o@Ie@I' +
+      '_@MI@m@Aq@S{Ag@SFwASSKi@DW?[G_@Bo@CGGIY',
+  ],
+  JP: [
+    'gaFq`YDFAPIHKCIQPO',
+    'kkFs_ZATCIIAMEC??LQ?OK_@e@JAb@J@W`@L',
+    'iuEijYPTAPGHG@OQSMOY@GZP',
+    'c|DkoXBTCJYJOURa@',
+    '_}DoqX@PI?[MQAWKGIFC\\BTL',
+    'mhE_lXFNG@ADIKC?GFWGI@C_@HE\\?',
+    'gtE_gXFLKBc@CFYH?',
+    'uuEugXFBELED]KQ?OWFET?VR',
+    '{kEecXBECUBETI@RHFGPE@',
+    'siE{mX?PAFE@MY@QJF',
+    'izGupZJFQHS@@QHA',
+    '_yGcrZ@LGPK@GMBINO',
+    '_fGwfZ?HOBGCGYZH',
+    'ovEufYJRI@EHC@A]@G',
+    'axEsfZH@AJEBK??K',
+    'glEweX@DWHCE_@OXG@EFDBF',
+    'snEihXFL?HIISGEULJ',
+    '}qEgjXFLEHWGDK',
+    'etEs{XFDCPMKACFC',
+    'csEuyXDGAW@AJNC\\O?',
+    '{dEwiXBDOCMOH?',
+    'keDuwZ?BSJ@IJG',
+    'wrG{a[Bw@\\kABo@AOGMeA}A?ERBfAj@RDTGNMv@YB]Uc@?_@Rh@RN@F?\\Pj@JRDT@TFb@@VGh@@RPl@Xh@\\b@b@\\RJRFZBNL' +
+      'CXSf@[nA_AbCDvAh@rACFg@n@AP@ZLPHFTDFAPQLU@I?]|@sAHLBNCb@K^\\`@RJHFJVFVAJGHUFWCSKUE_@HW^QLU@e@GMEO' +
+      'm@[i@OSSKWPMBKAGSDQRg@DgAC_@OOSEs@@UIa@]SIo@Ak@So@Ck@Jk@ZSAQKICG_@MUDGFG~@oAz@w@\\c@t@qAVk@J[PU',
+    '_qE{rXDe@Oi@@KFIHEH@l@`@Bc@?c@LHJ?LSNFHSNDp@p@VLp@PbATRCTBt@VAPET?LJDVK\\f@Rh@I@QOWEUB]JI@COCAIAG' +
+      'BAX^PRDJAHCNOPHUlAWHG[]ESHMNOCo@BCEESOOo@_@_@OANEJMMSBWT[JQZNTPG^A?GCKBIFCHAJBBF?JMPCRHRRRHNMGQC' +
+      ']ZWDKCNSPIFM?Qa@Pk@~@SECIFc@KCKDGQG]OS?UEQSMUIOc@AI@WHUf@U',
+    'cuEwfYF[A[d@?JAHGN@DKPd@V`@`@Zd@Jg@j@GTCj@\\bAv@ZHHHNZFPT?LETBH[MCj@Q?IJMII?ECICE@AJEHSA@XNd@?JIQ' +
+      'Oa@k@eA{@]U]@IPKLOIk@@WIUIIKAUF?UMWGWAWF]',
+    'qaGuqZBGIc@z@HjAETENOJUb@]j@OTK`@IV@JAb@@h@LT@BJLLFTVFRLr@FRFBR?VFZd@\\RDR?p@Ml@GfAFTDLLNTVJl@RT@' +
+      '^H`@Ih@[XUJl@\\b@VHVAPJZz@ZZCLGHIGK@_@CMBIOMEW]IAOT@^HFVBNVPCHEBGRJ@FSNKP?TBTLPJDHBZAVDRLTV@JONc@' +
+      'GQ?ISONCRDZRLZ^VRXJGh@CvAN~AGCOi@EAGD?n@GDEFDBP?@DCFOCa@FIIEH@HLTd@TTHPQ^s@H?JDBJFp@Nh@zBpALl@Kn' +
+      '@a@Rc@`@UHa@AUFYi@YSMAEJ?^B^ETUd@?\\JbAb@v@DP@f@Jn@Pl@FLEVLp@@TGXKTDTPLf@FPFRBi@nADr@Lp@M^F\\w@DGA' +
+      'QSCYBYCQg@s@Wq@a@i@We@y@gAUOEIKa@Io@?URUGUAYBWCo@Em@Qq@EsAQ{@DQJ?LFFGBKDeAUk@MUQOSLW@YKSQ[g@kAcA' +
+      'i@Iq@Dc@WWgACWDCH?^d@Tj@HDPQLEV?LSBYCQc@a@UoAQg@CUISq@}@e@[UIMKa@iAY]gAWSKe@a@QIeAUc@Yi@CY@UHEH@' +
+      'ZGLGCAMCGEGWKWGI?k@PM?MIKKGa@OO_@K]BMMBI?Y@K|@IDCDI?IGIKCAMJc@GKMGUGU@EHHXHt@U?c@KIECIFa@',
+    'gxCygW^HBHAJQHEGBIAGYQBE',
+    'wvCieW@JC\\E?EMG?CCHa@F@',
+    'syCaoWBPAP[ABGHABM',
+    'qeDs`XFRJDBPLPBNJ?HE@HJJTAHL@NUAUMW?GQQUECGJKC@OFKEIGCQSOGLMPB',
+    'glDgeXBFEJUBKEAGZM',
+    'ioDahXNNMPIVEQE?IMGe@OQGQHCF?BLTXHL',
+    'snDggXBACRQF@MFC',
+    'smE_iZ@BEFI??EFK',
+  ],
+  KE: [
+    'nLg_G@FKCMU@GDABB',
+    'fE{rEwBCkA?e@CWS}@WQUGC[Wa@MWWQg@Y@s@c@YAy@@a@Je@DKCUFEHg@LS\\g@LGLq@Hg@GG?GHGVORKACHaA\\}FaGN@HMI' +
+      'QAINw@JGVAHB^BZ?d@_@VKDGBKBsCBQvCkFD[BkAF[N}ABu@AIUWa@YSISa@_AwCv@_ADIBO?SC_@CoAzCjBlAjA~UCjCkBF' +
+      'CP@`@ZNVD^ETTHGJ`@ENBLNH@\\`@Bl@LXJJXFf@C\\LN@RXd@PFFh@Ff@P^P`A\\\\TCPJJB@ADiEtGEFSHGRQCSIKAg@HyKzU',
+  ],
+  KG: [
+    'ozFozLE[Cg@@OL[AULKO]EWOISWASDCBUKIKFC?GEJa@AEEOIMGC[cACEC@EZBVCFA`@AFSTK\\D\\CB[DCHDJE`@WBSLGPM?C' +
+      'FFJJCTFBD?HENf@@BBEP@NATU`A[FIHAFHb@Qb@APEBE?_@u@SUGMIa@UKIa@Og@E?CBM`@DPGJI?OKGIOCIOOMKQI_@@QIm' +
+      '@?OJcA?WNs@Fi@NUDaADQDGHQ@Oc@LqA[IIOw@MK@e@AIGCr@yBNm@J}@Du@CISU@oCI_B?MJc@@oBFk@?eBNgABa@CMBGPE' +
+      'JSXYBKB}@DWj@y@XGDD@|@BLRLVrA?Jj@lBd@jAP@f@l@D^AZLn@CnAEf@BLFP^TFHf@NXRR^OJHRARBHLZAd@CBw@NCJ\\v@' +
+      'Dn@GZ@BHFNGB@B\\`@t@RrAJHb@TFAFGTED?PPDR@PA^BNL^@V?n@El@@NFf@LLHF@B[d@?HLh@EHU?EJ?VEHMCIH?LLXB\\BH' +
+      'NJBh@CL]VET@TFZGNBD@b@CfAFZ@^]BQH_@IIEJWAIEAMBOKSwA\\_BRMCOECOEIQKi@EA',
+    'ixFa|LC?MDMIE\\MLBDFBHAHMPDB]',
+    'uxFs_MGABTB@FO',
+    '{wF{xLE?AFCb@PO?I',
+  ],
+  KH: [
+    'oeAacS?FABQCAE',
+    '_bAwdSFFOJC?',
+    '{zA__THAf@NNNn@FTEDE|Ag@NCpAZRAj@K`@CTBLDRVKJBVBHf@l@D`@LJDv@p@@@@@JMn@ARTL@NN@LAd@AJEf@u@DAPFVE' +
+      '?JQ^DPYP?JFx@RRI\\ATBD^GD@FLXX@D?r@RP@FY`@I~@IFADLDLb@GLIJMAIIGQYGa@LQVLJRJJH@h@_@F[Bq@EYTW@KHJBk' +
+      'Ad@a@Da@G[VSXeAFa@RSDq@@CCCi@ICEBKMWUk@[OGUWOa@Im@GW?IJk@?_@Gq@Dc@KiAJe@NAJI?GWUPEJGPS?GI[Ni@RQH' +
+      'M@a@YIOBYROBEe@CCQEDYMSKINKTc@NOCWSQ@Oa@c@DQ?GSI',
+  ],
+  KI: [
+    'qRax`@DJ?BGM',
+    'aRgw`@FLCB?EGI?KB@',
+    'qJkx`@D?UPA?FI',
+    'wImx`@@FGGK@@CJ?',
+    'iEmx`@FKHDNL?BWSGF@BEB?C',
+    '~Cuaa@DDEBECWDCFGDHQPE',
+    'pFica@HA?DYDBCFE',
+    'kGox`@?DCCEW@CB@@R',
+    'lDub`@CD@G',
+    'd[hs`@?EBFC@AE?@',
+    'pRhl`@@@CC',
+    'zZdm`@@DC??E',
+    'd\\taa@DAABAACD?A',
+    'pXlg]GLCMD?',
+    'nfArs\\B@ABK?BC',
+    'db@dm]?HC@@M',
+    'sJjv]V_@@LK`@U^EIFCFOSKOV@IHW',
+    'oWzb^NOF@APAIC?GF?BD@CDIG',
+    'hPbp`@FKHAGLDKIBEH@@C?',
+  ],
+  KM: [
+    'njA_uGZIR?FBCHQNO^?_@OECG',
+    '|kAupGJMEf@QD@M',
+    'jiAunGBBKPCJQL_AEKG?GFIf@@p@U',
+  ],
+  KN: [
+    '_jBxeKBHEFMA?GDG',
+    'wjBlfK@DKFANGJE?EIHOPM',
+  ],
+  KP: [
+    'kpFkaX@Fd@VJHHX?rCDh@FNr@p@JPV?BFSr@H`@LFBFYL?TW`@DNF@TRNX@PEAQJGh@ITYs@CFAH@^EP@XEPSe@U?[QOSSo@' +
+      'Eo@GJCL@VMXK@sAq@G?SFS@Ib@ANa@~@BFP@FPUDMHWh@QE?BSEOQ[m@KKOWAUIEEGQq@CSWa@?KQOEs@MOUMKWc@]EGAGEC' +
+      'UE[KOW?MKUFUXWHADGHo@?SDI@WCm@@QDGDSa@[I?IDGN_@VGDQAGu@BWE_A?a@c@w@QCSSEI?IHS?IIEASEC{@Kc@OGG?GF' +
+      'OAK@IFCDQ\\AHGT_@@IPITSFADEDHEb@PZDNNJJTHJPNPHRVTLT@ROPAb@Jd@ELDXhALP`@ZJ`@LRFZVPLRFVHP@d@DZRRVz@' +
+      'NFn@CNDCJDFLFPCLc@BWFQb@c@^w@JO',
+    'cvFukWDJI?GGAG',
+  ],
+  KR: [
+    'ckFmvWCGW?KQs@q@GOEi@?sCIYKIe@WAGvAo@x@m@h@g@pAy@h@OXAd@GRF`@AN@LFt@CDC@EEIAKR@xAZ`@P\\VJXBR@b@E^' +
+      'BXDHHFPEJ@G`@AVAJQH?JHT@^DHFBHCJOJBDP]T?FBNN@TQNNHBFJQ\\ICKMKAGB\\j@`@XALIDAFT\\ND@HGBO?KDS\\OJIEDWA' +
+      'UGDCDCMGICFDLAJUBWLSFMMw@YEQGGGXG?Wm@SEIRQG_@\\MCo@@UFSBFRGh@OBSKQYAOGKAQJU@QRKDEGAIOECCBCPWNK@EF' +
+      'UI]ZSASNMBCCCG',
+    'oxEscXJPOXGD]c@?I',
+    'qxEm_XR@@NMFFJOFM@GODK@M',
+    'yuE}sWBJIJGAWY@SHELH',
+    '{jFwuWZ@CP]HIGFO',
+    'suEewWFCANGFG?AI',
+    'iwEw}WD@IHII',
+    'acFcuWJBGJ[BFM',
+    'axEqsWB@?HYJEFIMPQ',
+    'giFgqXDHEHE@EEAKBG',
+    'snEqtWBHCFQLKEQ[QeA?MD[NERJL^DX',
+  ],
+  KW: [
+    'cxDulHBHAFe@R_@OCCf@a@P@',
+    'kqDwmH@xCSPi@J]PUrDq@o@e@[oAe@KIOc@C}@BURm@D@TEj@[HAIb@f@p@D?BY?QCKFIhAYNMZQXI',
+  ],
+  KZ: [
+    'kwGsxHDD?HURSCGQBAHLJ@LK',
+    'axGmyH@DKDKG?KNB',
+    'yzGghI@BEJGFKI@IJE',
+    'agGmzLNn@XX?FGH?NXd@XXLXNz@Xr@HDJj@JPTBJH^p@^^HBJ?JEHAFD@LAPGVKXQTk@KMPSPFXEJHxDGRQF}AXq@FA`B}@A' +
+      '_@EgBITz@uAz@Ul@m@t@KPBRZhAOtFZbF?NgCdDOJSDGJiFhNj@vEdAjH|U?JtAGT_@d@eAz@UHIFUb@g@pAI\\ATF~@PvAJd' +
+      '@Pd@V`@^h@UBi@@[Ke@SYCg@FIHAJ?`@BHMPARDVCJGHe@\\KNA~@e@AW@SJMRSNi@Vm@TGHGPKfAEHIDI?MCIEGUAyARe@DY' +
+      'Gg@@_@IHCJ?JCJQPS^GFM@KEKUOSUIYWBWKe@@_AAkA?SNkA@a@CWOVQn@MLi@We@]k@Qk@BMHMCWQe@REFKTAn@Ef@DJJNL' +
+      'f@AHKN?JEf@QRADOvALr@^bA?^PT^|@FTLjBTAELJNFCo@`CMLI@ECEGAIJa@?SCMGAaBfAyAtAGJI|BJd@IPQLMFc@ESHIL' +
+      'G\\Qd@_@Hm@Qa@]MUKIICI@ILIRMHYCg@M]S]s@KI_@?IEYa@ASDUR[dAiALWDQSaAEIIEQBq@Vg@DKH@e@q@eBc@SIOI_AMU' +
+      'Q_AEKe@i@_@o@KENiAJUPEDIAs@e@oAGi@DU`@a@DMCa@@OBO@[Ei@@QNe@\\_@Pu@Vc@X_@XWf@IFI?GIOMAW@SDEHG@GCCM' +
+      '@QJ[L[Xc@La@Lc@B]CUUq@YQc@eAFYMm@C_@Da@PYJYAWCQKMMGGOBi@A[Ba@Pe@l@u@HKLqBFMLBBCIm@GKk@]GGAKBIXc@' +
+      'BYBk@G{@Oy@O_@YO]GQMQBWf@IbAIHUdBIFMDKTKh@GFIEIa@Se@CO?a@Yu@KII@c@^UHKEW[UUEeAJqBEMGGI?IJKp@KTAj' +
+      '@GXATIFMCGICO@QESAEC?E@EHAJF^Mt@GAIOGGY?OEKQESRwB?KIIA{AKYEwAMWAk@Ky@?]E]Og@Es@BM@WIw@J_@CM_@OG[' +
+      'KS?m@Mg@DGAu@WoDG_@GuAM[G_ACKIEUFESCk@Se@IYE[DeBHq@To@Fg@Ie@GIEMCq@`@a@b@OdAg@JDb@@RRHGHq@CcAGi@' +
+      '@WCKOGCOJO\\WL@PEBGK[CAMFECAGBy@Xi@BU?]GYMUDQFALFVv@RPTDPOJA?GCKUa@Gk@@i@D[P[AI]Ic@mA?i@Ka@O_@SCC' +
+      'GEq@Ie@[kAEo@Ss@?OVHZPFHAl@F?PKNQnBaFT_@|B{BdFeElCgBBOOAM[AWEOIE[DGEG_@KGAQ@[FIHG?_@FAZJF@BKCe@@' +
+      'MZKHBDG?_@CWAe@J_@Em@@_@GWKOGECGAs@KMEM?g@RgATk@RKLSPMl@QHK?OFi@Tm@?ODMHAJDJEl@i@FCBKCOLoBHG?i@Q' +
+      'UIYYe@AMDIH?PTHA?QLQ`@[DIFMD_@LMJCCP?b@B^FNFJLBNE^F`@`@Nv@FvADNb@Vv@TfAML?\\OP@JNPHFHBp@Xj@L\\@LEF' +
+      'ODEHE`AD~@I|@e@zBBJ^DJBrBx@l@Z\\FpAd@NARw@HCN@LBPN@FQ^AHJv@CVINODGLFPb@rC?j@VrBXd@BAJWAq@Ji@FCDB?' +
+      'JBBDANFT@j@EVBHGRGJM`A]XINFFAFKTKF@BDEXPl@FBDADMDSF@@VJ`@LHJFH?jASHHk@x@EVC|@CJYXKRQDCFBLC`@OfA?' +
+      'dBGj@AnBKb@?LH~AAnCRTBHEt@K|@Ol@s@xBFB@HAd@LJNv@HHpAZb@MANIPEFEPE`AOTGh@Or@?VKnAHp@APH^d@n@NBFHN' +
+      'JH?',
+  ],
+  LA: [
+    '{jCi}RRIp@s@LIJQHE`@IBGCGEEQEACLCDODEHAJ@XJ`@FjAq@HUJq@Nc@COQMIQOa@AIFQP_@`@m@H?HHJVHFBC@UFWFERE' +
+      'BCAUBGDGPGJ?LNHDJBPJX\\@FOx@Bl@BBPGNAJDNXF@DELe@nAyBLu@HYDE\\JH?TM\\c@FW`@Y\\GPK`A}@d@u@j@_@HMLEl@AH' +
+      'KTKDG@GOQ@CVGHGL[Z]Rc@FAHBDDN`@FBb@Ul@w@ZQd@PFJFBTG`@?FHRH?FEP`@b@ANRPBVONUb@OJJHLREXPDBBDd@NCXS' +
+      'NCXHA`@ILSPOh@HZ?FQRKFQDM_@IOKKKCq@CQEUBQFY?SCIKOIa@CGBO^IJKDI?IGINIb@MROBSNYXc@Lm@@g@Ck@K_@NQPK' +
+      'TQTWToAt@SRDHETK^GZ?V@NFFD?DEDBBJFHNJTFFJ@PDPJPFHDA?BAFGBK?EHCPMT]f@AHFLPNDLCJFHNDJH`@v@j@n@BJK\\' +
+      'GHyAg@UE]?WPE?c@WgAWU@WHWD_@CK@EHEf@DRFHBJBVIVSPUBo@UQEG?IB?DKJSJIH@HXXABUAk@I[MMOCO@OCOEIC??LGD' +
+      'MCIECGMIWGKK?KKUS]SKHKTDDGFAV?BEBEI_@?SNa@KQE?ONy@Ek@@_@ZYFG?QFEIIIYIEG?IROIS?ODM',
+  ],
+  LB: [
+    'mwE{_F?w@IGBOHIRR@?DYFIh@OPJLLHTHHDBF?FO@A@B?r@HLHHJDHEBKF@BHFFD@Zb@JTDDEBBHXFHNCd@@Tc@QYIUQkAa@' +
+      ']Sk@Ge@]IWKK',
+  ],
+  LC: [
+    'kuAr{JRHKTQ@IAQKOQNC',
+  ],
+  LI: [
+    'ceH{z@?PU@SINENID@',
+  ],
+  LK: [
+    'e{@yrN@JMHE@AAAEJC',
+    'qw@grNLCQXEBDU',
+    'i|@{rN@u@^Yt@aAv@c@VGFQt@c@HCRAFSFG|@KbAo@RAp@]ZGt@AVBx@PRJNLd@r@FLTbATn@Dl@Kl@[`@i@P}A\\wCL_BNU?' +
+      'UGn@?DEEEgAGw@Qi@@g@[UEWCq@FFWLWAUMFKXGh@ILGDIC',
+  ],
+  LR: [
+    'ej@|fAGK[M[Ua@c@[i@g@e@CG}@OKIEYEEWGa@GGY@INGQs@CC@ANEEG@GLIHQP?NABEHAn@ELIRCX@\\NDMCGDQXWDCAMGQ@' +
+      'MYKSQWAICEI@OHCTWxA[t@DPLf@f@FK@QTUDIDQAY@QJQ\\KFEJ?JM@QLWAI@Cx@ILD^?NJR?DBDJr@BtACFECV[bAOr@{AlD' +
+      'e@p@w@t@oB|BQZGb@ITIL_@LQ\\Yx@',
+  ],
+  LS: [
+    'b{DsrDDTAHDd@LLl@b@N@RL@FGt@KNc@b@GRMFQ?]Ta@Tc@NEAUm@KMgBkAMk@QYO[Oo@G_@TQP[RQ^m@HWb@Q`@FXHX^j@F' +
+      'Vf@',
+  ],
+  LT: [
+    'oxI_bCAJUWOGSEGEX@ZN',
+    'wrIgmCYNMAw@[E?KPGTQJ?bBGd@S~@GTEJ@^ODWG_@Le@Ts@@o@wBSuADeB?c@CUBQJMAOGOFyBL}@CeACKOa@E[@KLGXYLg' +
+      'BDMf@sA\\g@HWDg@VDh@TBEDu@BCHTPLA|@BFLDHHFNFl@PNTJ^?RRXLBAB[DINAB@BL?TCJC@EEIDEFFP?PFRHLDJAb@BHVD' +
+      'DBA\\Pz@KXBb@AZDZA`@CN[?KDKNOf@CXIBCFE^',
+  ],
+  LU: [
+    'gxHge@P@JEHKNWFa@P?JNHD\\DGTAJ@JFF?L?HGJANGDUQUPIJUA_@YQUBUDC',
+  ],
+  LV: [
+    '}zIgeDEf@IV]f@g@rAELMfBYXMFAJDZN`@BJBdAM|@GxBFN@NKLCPBT?b@EdBRtAn@vBe@DkAAc@GUe@QQUIUCOGq@u@Ei@W' +
+      '{BVQh@mALSl@]VgAGw@_@eAOSOC}@F[JQC?GGSQyAKg@JW?EICTy@D]FMDg@HGd@u@J_@@MOwALk@Bw@@GNEZy@R?B@DJPFL' +
+      '@XLC_@BIDENARSFCHQx@SVH@VHZ`@p@TJ?t@Er@BRRXDf@',
+  ],
+  LY: [
+    '}{Doz@_@iAmAaAQEMAQBuAXQIYWEEE_@KMQKGAQ_@KKaAeCKGI@WNs@Aw@GJ_@D]l@}AD]D_ASmAC[Rs@BU@e@N_ADOXc@FQ' +
+      'VeCNQ\\Qd@?|@[l@i@LWRy@DaABaAXqB\\_BNWLo@fA_BXu@Be@C_@W{@OW}@{@_@SWGU@UFUN]Js@Dc@GUKUQi@q@]q@g@wA?' +
+      's@CU[g@?QDWAeAF]Pc@Hm@VcA`@GVBVc@HeBDSP[DQ@eACg@Fg@DMLOl@W|@z@v@Ev@SRBj@Nr@b@LAn@Q~@MlAUjx@??fEb' +
+      'B?uW~p@xAfEjAxCcBxBKVcAlHiAf@oAl@EDm@bDLp@AFS\\QDURs@Pi@@MBsClBODSCOIUg@Ua@OCk@AMHWHc@FU?{Aa@q@Jg' +
+      'BFqAC]Bq@Lu@T_@P_An@KU',
+  ],
+  MA: [
+    'kzEzLLEJKj@cAD?TJHEJODARJd@Od@Ch@DJC\\Mp@HZITOd@GPKPS\\o@NIXb@LBREJ?BHGhFHpAFL`@JFDVrAB`@AP@LDJFBH' +
+      '?XINAHBTBDC@GHSFIL@FFBDDx@h@`A\\zANd@z@h@TTR^P`AFj@Bj@Ar@@BD@V@NN@FKxABLDLd@r@@XDJj@~@\\r@h@z@HRDB' +
+      'L@~D??Xf@GRBH?VIF?DFDh@?pAFNd@p@@N?NKXH^?JYz@Eh@@^X|APEFGL?HBTXj@`@PFTF@FJt@FDVBl@PhBZZHZL\\f@h@f' +
+      'ALL|@`@TNd@zAFLJH`@Pb@JrBX|@BZDVPTXFBb@`@TC\\JRNHP@XA`BGx@Ax@B\\@jBHt@_BMs@[UUK_@s@_@o@KWSOEMFYSg@' +
+      'UWKo@]I@`@b@a@OUWWe@qAoAM]a@Y]IeACc@I]Os@UWOm@IQKISW[Mk@]q@SWYQw@Ow@]k@OW[[QM_@E_AW_Bc@wAMW]Yc@k' +
+      '@m@qAWc@_Ay@s@e@a@_@]U]Mo@ISD]VGPOBYIqBCy@YkAaA]KaAGeAqAu@o@KQWi@u@sCe@sA[o@_@[aCqAsDmAUGG{@ESMW' +
+      'DWFJV?XQZ[d@u@Li@H{@OeA?e@GSHSBg@Ec@O]QQRCb@UAUDQAk@',
+    '{kDhu@jIA?zSxN?\\dAHp@t@pAb@VLBJAd@KhFO?tWtAPPAIHoBSIu@AkBC]@y@Fy@@aBAYIQSO]KUBc@a@GCUYWQ[E}@CsBY' +
+      'c@Ka@QKIGMe@{AUO}@a@MMi@gA]g@[M[IiB[m@QWCGEKu@AGUGQGk@a@UYICM?GFQDY}AA_@Di@X{@?KI_@JY?OAOe@q@GO?' +
+      'qAEi@EGG?WHI?SCg@F',
+  ],
+  MC: [
+    'mpGom@BJGC@G',
+  ],
+  MD: [
+    'slHkeDECSi@B_@?k@KU@MK[Ju@P[@OBGFABM?YDKHB@AAI@EJGKMDo@VSHIBIIWBGNKRCVBXLFADENa@HIJ_@BAVFF?FIPAB' +
+      'EJWH_@TKb@@Vg@FHDn@QPAFHPALGP@LENNH@HW@C@AFLd@FDXATMHFNBLRFTP@JJHTLLRCH@Bd@HR]ZIQK?WH[@a@C}@WKBY' +
+      'C]Pe@NYh@KJKDU^g@ZSXOJWHWNg@`@INIT?N',
+  ],
+  ME: [
+    'aoG}vBFAFCTe@X[FK@KHUD_@Tm@DSHMFAB?DXHDAZDBRKNDLt@IHO?E@ADBHx@p@`@VFIJEf@BO\\ULe@l@Yr@C@GE@XQNG?K' +
+      'QCCE@ULe@DECE_@WAOIWa@@OHI?IMA[REAACBUCO',
+  ],
+  MG: [
+    'tlAstHh@StA{@f@E|@SzAU|ACj@Gh@Mh@Yn@Gn@Lt@\\JH?BKRSLcAXCD@VLNH@fAK\\?NORGl@ATDRNJAHEFDFRFF|@\\T@~@K' +
+      'l@BvAVxA^`AZpAZrAVdBd@pDr@`B`@zBt@hBT~Bd@n@HdAd@bARl@Pd@ZLRRh@BT?l@Jl@Tn@d@~@DP@z@ERi@z@ETEl@GVU' +
+      'PWl@[FMH]DSJc@^KBoBBUASKUBUJWBUHe@`@g@L}@LaAAWCOGKA[Sy@KMOGWMSSKi@IaBaAm@Um@IiAIW?YJm@\\i@AWBo@Vi' +
+      '@LgADY?UBUHe@GiCwAOCi@BWAIACGIuAM[]a@@IHEDGI[?W]KEGE{@G_@@E\\WDQEGQRS@UIQQw@qAAKBIh@G@EEGMEK?UFG?' +
+      'i@e@WGIEMQ@CTGTJJ@BICIq@[KIGIDg@W^c@F{@c@MAGESPIBOCMGIGAKT]@MOOSKMUGU_@c@aAUSAm@L[JEABSCEgAw@?IF' +
+      'ILCHGTU',
+    'nrAcmHF?AXYB?MIAAGTG',
+    'rhBcwHd@V_@Gk@WCG',
+  ],
+  MH: [
+    'mc@gc`@DD?BKGOCMQD@FJ',
+    'ul@e~_@BBAPCHCABO',
+    'ak@ko`@BG?MJMGRAL',
+    'sk@kl`@HYC_@FX?JGRIJAA',
+    'udAar_@?FCA@G',
+  ],
+  MK: [
+    'agGweC@KEWEMCQ@]Ie@@GFK\\_@HONk@FGh@SFKBATJp@BB@@ZBDXBFXBTGz@BH@\\BJ^\\Nf@Gb@FNBfAIDCJ@XCDYHMP[NW?Y' +
+      'FIK[@]IACBWCEEEW?IESw@AONW?EQGEK',
+  ],
+  ML: [
+    'olAdfAOAIL{@EUEIHG?[TWDOHCXJF@DGHOBe@\\SAKKOCUJm@?a@\\OJe@G_@PLa@]a@SMq@Ge@MOOYc@BInAwALK?Iq@a@CEC' +
+      'y@Jw@@e@QaBU?ICIGAG\\ADI?U?}U{C]y@t@ss@~DAaJjWid@VC^@HIJO^_ADEJANGHMJa@By@FK\\YBMNmAFWL[JMl@?\\KF@J' +
+      'J^NHAP[BK?O]eDjLAFFjABj@J`@Rn@LHF\\DNJDT^d@VBMvABHL@LrIx@dADl@EtABJH@]zAH`@IHCN@XBPl@x@d@vAVf@Hv@' +
+      't@PBJSbAFX^d@VP^JTADD@PE^@HNBb@?VDN`@BJAHc@t@ERBRLRd@b@LCLIRGP@Vp@PKn@@TVNFLTHRJ|@NVJJL@NA^K\\B^H' +
+      'NHPZt@Ef@BZFAF@XF\\FJF@VXANKV[I_@HGAWDH^B@NC@@EZMPDDH@d@CFBAZBVPFHEB@FH?BKJKr@OD?BSPBJARPPRJHNDRM' +
+      'AQDWj@IFs@J]CQDKZHN@PCBEA[QKIMQKEC@Q^?HGFSHITq@?e@Ro@NIFINEPAPBPD?LIHAJDDXP`@RH@FALa@zALd@f@\\FJ?' +
+      'DEDk@ZIHALFJ\\\\BHCH]b@E@c@O',
+  ],
+  MM: [
+    '_~BwpRS`@?JNV@H@NGb@@@^IF@DFFT?JGNBXJHb@DJDDF?^Lr@@X?XMXAJBDRDJLXRd@DZAXPL?|@GD?Pl@CZ^MJM?O@ED@j' +
+      '@SRCTFDAnB{Ar@u@NE`@Ah@Ud@MBEU]DEFCTBJHXl@v@DnA?BBAPNVFRFFH@`@C`@IxA_A|@gAROl@Yj@Et@AXLLCLGN?ZId' +
+      '@e@N@^EVERK|@QPFNPbBx@d@`@h@l@HDRCX@n@L@F\\R]Ja@CaAHKKq@][?UKQ@e@CM@MIKQKNJTCHKBUEIGa@DSG?LADKCIK' +
+      'QJSGW?cBPYNe@Lq@`@g@@IF`AHKFe@@QDa@Ea@RYBe@LICHQUNBLWJaA@WJWGyAL[Xm@Ki@@KEIKDRBn@]HMJ]Ja@DGCKR_@' +
+      'XOVPKTJ`@Kp@RLF\\\\HT@NCLONa@DAD@DZIJ?XODDL^AH@FPDNp@d@NZXV^GPWAUIU@LBf@\\ARBZ_@HU@ICG@\\FJHLZa@@KEU' +
+      '?_@GUB`@FHLRPPJPZALUBmAKIKMEm@GOIc@Cc@Qs@EYDWJkAL}@^SBWNAOU^GBs@D[ABDPBDJ^EPFKXMPcAj@EG?IX]DSQYU' +
+      'GGFIVOLQDOXYS?XY`@CHATDPZGH@AJi@XUSANe@IEFVFZTKPYSMFKJQH?DTC\\@a@Tq@l@MJu@JIHc@DMEMMAIVi@JEAEGE_@' +
+      'FeBBEKWK?EBIROBKAKc@MEE?ICEYAe@Ha@De@OQ@EAAGDICKIGyAK]AQHq@JGCACNSBGGe@ZmAAKwA_@e@Us@e@w@WI@GBIT' +
+      'EBSEQGIIKWc@_@MG[CYW]J_@BWAYM_@aAe@w@Sa@a@]GYO_B@KDMVOHMDQCKG?w@f@]BICKKe@s@CQEEQ?KFYCy@k@AKBKDG' +
+      'TM?Wj@i@`@E|@UTK@IIGICCG@KN[\\El@?\\Ep@EfADXFTCHDDPF@\\QJADF@JDPf@ZBDCXBD\\FXPHPARj@TJ?REDBJZ\\HZ?HEB' +
+      'KFIL?NGRBZVN@BMAKQ]Oc@Ge@Ay@BKDEIo@D?XXHBL?RUVGRDZOd@BJg@Dw@HWHGFAXXZFd@?XRPFPDF?BCDUAQBg@JaAFE`' +
+      '@DJCJGFWF?J@HEDEBMGYFc@AMEO_@_@So@BI^CTLR\\JT?JJJVFLHBFHDLBFE?MB?DHBNANBNLNZLj@H',
+    'mcAydR`@OFB?BSDKJ@NQQ',
+    'a}@sdRHF?BQCOO?MF@JH',
+    'wfA{dRB?ADSAi@SJAf@H',
+    'kiAwfR?H_@@CALIHQDD',
+    'khA}fRf@BERk@HC[',
+    'wmAafRDE?ER@VN@Ja@ASDMADQ',
+    '}jAkdRALMDKE@IP?',
+    'ubBomQRL[BQUYSLCVH',
+    'qdBy`R@DMJ]@GM@GJCD@',
+    'wsBqhQ@BQRUNCYBWJAPD',
+    'i{BigQZCKL[D',
+    'gyBuhQNW?IHKJ@FDDNEJQDGLEBII',
+    'ocA{fRCJUI',
+    'ahA}cRHAKJ_@@XM',
+    'mlA}cRF@LJMJGIAM',
+    '{pAoeR`@@OHQ@SAHG',
+    '{aBqoQDDEHUSFA',
+    'o{BidQPAGFYLQAFG',
+  ],
+  MN: [
+    'grHycP?YSc@GAO?MKEg@@KCc@FW?OEEIAAEJM@GESEMMCEGBK?QIOKc@ECMDO?IS?[ESQECGEc@Qy@AYQUAOSc@I_A?MIGGM' +
+      'COQUCQAmAOOMEAIJOTg@@IEKMGAO@OXMHQCa@JcEHGh@KNAXg@LICU?i@DOHEBM?u@BK@OEIE[GO?KHQAIEE?IH_@HO?MCWF' +
+      'SEUDw@V]DMA]Sc@MIGY?YIQAMMQSMWOe@GG@GXOVWLQ@YVKAWMUAMEEGMIEKAQCEMC[UOy@UWIGUIIGBMJO?IV_AH}@Tg@BW' +
+      '@uAj@uCJ_@CQ?SVkBFIH?FBTAJI\\CL@TSPBH?FI@YLOLYJc@F{@DMJMJaAGa@Dw@CSUa@EWO{BMc@AUJ}@?e@Ng@D[EeAB[T' +
+      'm@TSRe@@oADy@DELB^AFE?GJEJa@Xg@JUBQCW@eBJy@ReCIW?UNg@?OEWe@eBBQK}@CcAQ{@CWBg@AUSq@c@U[w@MYQ{@Se@' +
+      'Mm@FwAPs@NSTa@H_@By@YsA?ODYJg@FOJI`CvA`Ah@J@PJTZVDh@?Vt@b@GNKLQTe@CQOOM_@Bw@Eq@B[Fa@LYLQBKcAsAAi' +
+      '@Ea@DQBs@FMb@e@Ls@FKPGDGJYJE\\i@Tc@JIJ?HEVULBJCJDJ^Cn@BZE`@Sf@CV@HJLEpAHn@H^NRBL?LMV?TBDXHH?DD@JA' +
+      'x@EV@LJRDXNFT^ZRLHPEJFHP@LHT`@p@LfB@n@Gb@Db@DFPDLL\\p@NPLf@Zl@@JGx@Cp@MbAGTQRIP?z@CNBXP\\ZXr@R\\TH@' +
+      'RQNENO`@o@VQT?DHBT^j@^jBpBxBj@jCPr@BRB`CEfB^vGz@rDj@nBDTV\\BLGVCfAk@?X|Cs@~B]tDKd@q@r@EHG`@AnAY|E' +
+      'TdBk@bMLbDEFS@OFw@lAMHSBqB|@GJCTEDM?]GCBBz@QbAWh@IXY`@Cn@IPc@h@GZGl@KbBDfAEr@EZAxAGZ?XSr@?RDFADK' +
+      'Du@d@g@IWOEK_@]M?MHQFIAMI[KG?CD_@@g@VI\\y@j@WDQHSLKBCBCVIPYLALHHBNAHOZQNEN?\\HXC\\QXANWr@S@KHCRMTO`' +
+      'AI@MOGAEDIf@IBGLGCISEAEDIBG?',
+  ],
+  MR: [
+    'ezBheBRLGBKB[QCI',
+    'q{AvkAOXQHKNGVINQLCHS?ULIJ?JADKDEDCLOH]FWHQJGNGB?HBJALGB?HDHAJIJKFI?UV_@h@On@@p@?ZED?DDD@DCF@BH@' +
+      'BP?`@BZHRB\\?d@CTEFAJBLNJj@RDFRFb@BNFyA?_@K]CaAUs@[gAYcAIaAB{@Fg@Jw@J]R[`@MFEGCUSKFX_A_@i@I[@QEe@' +
+      'Xm@PKRJ?HDEJ{Ar@EHNLl@HQ@uAQ?uWiFNe@JK@MCc@Wu@qAIq@]eAyN??{SaG@tJyRrAkC@`Jrs@_Ex@u@zC\\?|U?TEH]@@' +
+      'FHFHBT?P`BAd@Kv@Bx@BDp@`@?HMJoAvACHXb@NNd@Lp@FRL\\`@',
+  ],
+  MT: [
+    'a_FazADF?PIPU?BSLQ',
+    'e`FmxABJILCOBGBC',
+  ],
+  MU: [
+    '~~BigJDXAZMJCGM?UEIEGMOEKKAOTOTIV@FJL@',
+  ],
+  MV: [
+    'eS{iM?BCBC?CIBAB?',
+    'aYmjMB@CDOI@AH@',
+  ],
+  MW: [
+    'tjA_xE@FCBQCAEDIJ@',
+    '`jAowEJB?FIFGAAG@E',
+    'pvAonEMHLT@H[LKHKRIGC@EDIRC?GQQQg@QGE[?c@ESHSCMI[kAQOIECB?VCDg@Pk@IQAe@BMJW?CGo@Uu@VOQEUe@g@G?g@' +
+      'VW@e@j@c@GSRYJEF?HFDCLSBUJCIT_@Bg@PQ@ICm@@MJW?IAAS?KIFQd@m@z@g@x@KJ@ZATKNC^@`@HFA^WRG@OFGLIVC@z@' +
+      'DFh@LbAd@bBWvAKp@CXSDe@DKPSr@o@xCwBd@CDCZHn@F\\Er@@v@DRFFFDTDn@PL|@VNK`@Ix@ABB@LCTQHIIMCMDAJKPe@`' +
+      '@[\\UNIPMFW?KDYVK?KEMOk@Oc@Sw@CsAJa@XCFFl@DHHfAFH[Z[Tq@\\',
+  ],
+  MX: [
+    'ijE`{Ue@aN^LHHjFwV?sPyAA@aJPQZQPUHY^i@r@y@`@q@^y@LKxAo@Z?ZK`@WTSDQJQPULWD[Ne@Zo@L_@?QGOQMKKEMGCI' +
+      '@YIg@SUWCYGQKI?MFUDa@Bo@A[CGFKAMFKTO`@s@JCj@s@TSRC\\Q~@k@@B^IPOLUVUb@UZYP_@PQ\\CJBHAJGJCTBb@_@VMf@' +
+      'KTKHSB[FSJOFQBWFSLSHg@Bw@Ji@P]BK?CGCEKCYh@@^JfAf@j@PzB^vBJD@DArADhAAH@TJ^FTCl@K`@Cz@c@p@u@VDLHRB' +
+      'QBS?KGIAGN]Xu@^tAUJGJONCvB{@NCRKtAqA~@q@z@QRKXCZa@PIJO\\OPY@DIVDALSJe@?IOZACJ[BkAXa@Hi@dAq@?QEu@m' +
+      '@_CA_ABSIo@IWQKKu@I{ANSF?FJDEJUBg@AMOQOa@S@IDAHE@MGC@LT?BKE]{@Uc@g@k@kAIMGU[GCyB?]E{@UUa@_@gAY{D' +
+      'GYQa@EU?k@AMCACGBWJ_ALi@Bm@EKECGBBTCPCCA]GQDQXYFQd@?NIt@PPJ^ZV^v@f@XHRARENDAHHNZRH?FICIA_@N@JFBP' +
+      'LPP?@GMM?GDAn@Pp@JZNh@DPFPH?Da@NGNGBi@IUB@FTXN?`@RA^DJ^L`Aj@HPQ\\DPLBN??lJpB?ArAJQPSXUT[N]NUZOJ?F' +
+      'IDUHIl@FPA?`G|C|AF?`@YFBDFFBJ?NDXEVHDBwBrB}@fAwApB_@b@S^Ql@GJAFJBJYBUP_@FEa@|AAd@EBQQED?DJR?FM?K' +
+      'L?FTVD?Hm@B@?\\Db@f@`AP|@f@vA@f@DROz@c@hAKpBo@lASjAk@n@A\\GPOdAKbAg@bAKh@Od@[rAO\\U\\Wn@URETu@p@GLAL' +
+      '@l@O`AC\\Y~@[rA{@r@g@h@OZSl@OXKd@_@bAYRWL]`@u@f@SH]F]RKEKSA_@MWQAONE^EBEIw@k@YCY@UCYj@g@Ra@VcAA{@' +
+      '\\]\\INm@j@[^q@`@_@^u@h@[ZyAhC?GTg@AEIAMBAF@HIj@OXMJQ?e@f@UL@GFI@I?KCGE@W~@MRWl@GHWF?JDFDZGDE@GSUQ' +
+      'E?PXBLDVGTSN{@Di@]KMFG@GKDGLc@Jc@f@@v@MLUJg@HObAMRQRYNQDUD]GKIKl@?PDLGLGX]^s@d@Qh@QLQNa@TOTWTq@J' +
+      'INENM@G?OBc@^s@`@]Ba@JeAn@[H]CUDEABGEEQ@EDI\\Ep@KZW@QXMd@FDLB@\\GTc@x@EJCPWl@RQ\\ITJjADf@Wf@KZCTIt@' +
+      'BNCZOV]LERe@VW`@m@LMt@i@NAPGCWNID?DAAKBKx@UFKH_@X?NOVBPKR@LE`@c@Zk@`@I^QFQLST@XY^CTU@ECCc@VU?AE`' +
+      '@k@XCLOR?JIPCXMf@?ZGj@[FWTCv@W\\YVMNAVHN@p@OXUF]F@DGGIKCUBEC?G`@o@JG`@a@LELMZEJa@VQLAf@HHFNXRRJPD' +
+      'R?NWPaAPMLUFQLYt@[XQZ[Zk@jAU^WRBVYHa@j@QHU@yAMO@ABIB[@[J{@f@Uv@s@fA[RMB_@@PHLLA\\Nb@MRc@ZC^WTEPCX' +
+      'KVKDSBIFUb@WZOXKFG@@k@Hq@CWM]DAL@HMHQAMIJSHGCI?@PCBOQi@Qi@Ga@PY`@gAdAs@v@EHIb@aAbBc@NCJWCk@BKHIX' +
+      ']F]?QDa@n@_@@MB_@X[\\KH[@EHAMCEQ?]l@g@J[\\',
+    '{}Bj~ODHUDUGKIEa@D?NH',
+    'afCrxSNDENIBQ@AGJO',
+    'ctBftTBJKNICEIJI',
+    'g{C`rTTECHKLOFE?AAHS',
+    'qtDdbU@@KTi@l@SNI@U?@OLQLIN?Fa@`@C',
+    'mnDxnUD@K`@WQW@EGFE^I',
+    'itDf|Tn@N?NO\\GBw@KEIG[DCNA',
+    '{sD~aVFFi@VI?EE@KH?FGHC',
+    'wcC||OHAGFI@BC',
+    'wsB~{PDVEBSm@BIHV',
+    '}uChmT?BIHYBAA^SB@',
+    'eeEzkU@DIJG?DOFC',
+    'saDjuTDAB@ED\\L@Bg@GEGAI',
+    'mwCbyTF@c@z@CM@O',
+    'mxCj{TBBWNOBEDEP_@OcAKLE`ALHATKNALI',
+  ],
+  MY: [
+    'gg@wpRm@KAOXQRw@EQBGDERENIAWBKh@GL@TPN@XYEOWMW{@DGNIBE?UGO_@MWWOAKEFc@DK|@e@j@s@NUFOTW\\SpAk@b@Ev' +
+      '@CpAHh@JRA\\OZBVC`A@PGLKd@u@LCp@[jBq@n@MJ@DDBLGLGBGAGBQR^A@LERDXVZ?La@NIFo@zAM`@c@b@i@nAg@r@WTUr@' +
+      'YTOTWIo@Hk@b@_@P]b@e@XIOOFYR[Fw@?mAZmBXe@Cg@Dg@N[R',
+    'aY{}UCXU`@Gb@AnA@TENJPGRAN@RJVKVBJNJJRp@T|@Db@ETJXBN?PFHZGJZXHDN?F@P?JSH?`@h@Rb@PDTELGPDFRl@L\\PB' +
+      'DIVDVBZAXDRVZLZMT@HYlA?JEBGAI@CH@zANl@FJRBf@PD^RT@FC^DJALGd@Ad@D^Z~@BV[d@e@d@GNy@|@SL_@BELGBI@YQ' +
+      '`@QR[FWBY@[ES`@_ADUAU@IV_@@IAMQ^MDMAUU_@COEOIOCKJS@OAKELUAQq@?UMOUEUMmA]{BQq@IIiBqAs@s@o@i@IEYGY' +
+      '@CECKJSHIXMH?FE?S\\QJKDGCIKKMISGADMIGAMHs@FGG[o@h@?z@OF[AMCAOHa@@WF]PEo@_@c@SCKTOHO?e@c@HCBWAKMOU' +
+      'G_@[WIYEmAgA{Aq@AEFIVCj@JIW[UWKIIDSBCP@\\ILQRm@FGVGN?LNXGL@JBJVK_AEOOSLKVKDHFXB@JG?KGUMU@SN_@HIPE' +
+      'DWXq@@QAYBGFGJATBFDJPNj@Jn@AVI`@DV^N^[`@o@FEH?DFJ~@Lj@ATO^?FFHRH',
+    'aPkjS?LGBSIRG',
+    'c`@yqRDDALa@CCEJS',
+    'mg@aoRTMJHAHFF@FOFEFI@AKBGEM',
+    'yk@c{UJJMBO?OQAWJAL@FD',
+    'uQgxRBHK?GGBC',
+    'cNewTBDGH{@@EE@CHEp@?',
+    'eYw_VBl@ECI@AI@I',
+  ],
+  MZ: [
+    '~jCqbES[aE{DEK_@Le@Wo@?IAIGQ[{@g@o@WUC}@b@a@H]I[CGBKTKBM?GCM[ECo@KYIw@D}@@aAEe@@i@P_@?SKMAEh@QR[' +
+      'nACz@k@p@Ef@EJYd@E~CAD}AD_@Da@RUDOAa@wAo@mDOe@aBeHDGp@]ZUZ[GIIgAEIEUAWBG`@Y~@Ij@?^@b@Rj@NLNJDJ?X' +
+      'WJEV?LGHQTOZ]d@a@JQ@KLELBHHPIBUAMCCy@@a@HOJ}@WQMEo@EUGGSGw@Es@A]Do@G[IEBe@ByCvBs@n@QREJEd@YRq@Bw' +
+      'AJcBVcAe@i@MEGA_@?wBB[CMY_@@WNa@LQJCFU@k@G_@MQGS?UBOJIFUB]Ea@Se@SS_@ICGCs@DYRc@c@}@Ke@?c@I]OWKWC' +
+      '[IWQa@gA}ATKPQRVLURNL@LGTJPLJBVMh@FbASVDt@CRDFKTEb@DNRN@?Yn@?LBNEPDlAGt@AH?DI@KN?RL\\AWO?IHG`@?NC' +
+      'L@ZXX@BHDBNEL?h@Px@n@j@h@P@^VBVHLZIDNTZh@jAHJXRFVDL@j@DF^`BFHFFLh@b@`A`@t@p@z@ZFb@\\h@h@`@XN?BNML' +
+      'ZB@JEJ\\t@`@f@`Ax@~@pA@RUXALVUt@@|@HLAPITWZSlA[f@Ap@[T?v@KfABHMIEO@[CKE?Gb@IN?v@HTCd@Kl@NfBTP@FE@' +
+      'KMC?GFCp@HRHr@d@TPT`@`@jAp@zCd@~Al@lA\\`@b@Lb@X^UT]c@MAGxCN@hBE\\@P_A?a@JM@a@EQ@KTOBU@[KiF?qBb@SLW' +
+      'Je@VIB]?{ATiAX',
+    '`jAowEEBAD@FF@HG?G',
+    'tjA_xECEKAEH@DF@H@BC',
+  ],
+  NA: [
+    'fmBcqC_@qDF{ABg@DMj@s@DdAFVd@r@KVAHRl@LXNRd@f@FRABKB_@Rg@^ENf@pFTzC@p@~U@?dEhg@??RHh@LXPJHLBRHFL' +
+      'AHDFPAZKb@An@Dx@Ch@KVEZAZMp@[HKHI@GGKAODGH?JEFMBIFIPFXJHXLZBHDDFCDDJNZHFOT}@`AOVc@`@sBjAUHw@Li@P' +
+      'W@MGQBOFUXgAFm@Pg@Ca@FU?k@Co@Lo@ZeAX]BqAC_@Dg@?}@LQGFKUCU?q@Js@ZsAdA_@N[HmBlAoA^cAV]X{ErBc@Xi@n@' +
+      'MHg@Pu@`@q@Hw@@k@CC_@KWASHQ?cAe@qAI[F{@DOROPY^q@BOCoA@{WFQr@m@LUDYBUAWJyA@u@Cw@Dg@JWHWBWA_@Ig@?c' +
+      '@FO?I{@iI',
+  ],
+  NE: [
+    'stAatA?b@DRRZFZNb@Vh@Z\\RHBZCf@SXUz@Iv@CxAF`BJv@JZLV`A|@ArAQxA]z@m@fAIr@?Fl@tA?PBRPTAVELMJ{@j@e@h' +
+      '@KNAH@Li@hCDXNVBZCv@D^Nn@\\b@FPnAJXH\\Pp@z@nB@NDJALGD@DJQJKNEPIJKDYVq@t@ALDNHNFb@FRD@d@IRBqA~@I@CA' +
+      'E[CAGAMB_@TCN@JNVBHEl@gAzACPCBYBe@CDc@EEUb@OFKNM\\CXkAp@KBUEq@j@gAGSECK?[Dy@Em@y@eAMsIMACILwAWC_@' +
+      'e@EUOK]EIGo@Ma@Sk@KkACGGkL@y@oHIQeEeFoAaBqOa[bAmHJWbByBkAyCvEe@nAAHGJMzA_ANLZIJO~@y@xAl@tQr@fFzE' +
+      'zCnBbA`@p@d@n@K',
+  ],
+  NG: [
+    'sZsl@DP?L[QDG@K',
+    'stAatAzByAjC[BMB]FS\\SFAV@^BRFZCJ@F@FJb@z@BJ@NDNLPt@d@r@`@vATX\\VDt@BPBBDH\\JPXHpALLDNHV\\Bb@~@`@bAL' +
+      'h@XZ@d@`@XN\\Ql@v@FB\\@RLLNN^@PCFIDe@HGBq@t@MXBHTFFF@LAh@UJf@t@FPl@Vh@x@|@|@l@XrBXhAj@LBFFEPKFAHSP' +
+      '@@p@QRF?r@Fl@?^GLQFJBDH@b@YZGJDANOR@T\\@PIHODWBOD?BXCV?RMDR?XWDCBZDDx@C?GCK@FHRB@DAPITW`@e@h@e@Ry' +
+      '@TAC@ICECPCBM?O?GYQIL^O^IDGA?c@GMATEBK?LHFTGJYBEHm@b@e@j@Yh@Kz@?~BCF]{@CDLj@@LVPD|Bm@CUG[FY@GEIA' +
+      '_A@IEG?[Ji@@GBoACS@MCcAAu@GEu@UMYGY@WOSUU@EEGYKOSG]IULOEKGCEBOEEa@IG@WL}@F_Al@S?g@SEKEAMFK@OEoBA' +
+      'q@{@]QYIoAKGQ]c@Oo@E_@Bw@C[OWEYh@iCAM@IJOd@i@z@k@LKDM@WQUCS?Qm@uA?GHs@l@gA\\{@PyA@sAaA}@MWK[Kw@Ga' +
+      'BByAHw@T{@RYBg@C[SI[]g@mAG[S[ES',
+  ],
+  NI: [
+    'u|AvfOJJVJ@BQ@ADDHFBJEBOpAULBVLPLJJr@NrANjAIbABd@E@NKFi@IG@RFJPHDh@SJBh@@GF?HX?DFFBFO?GRINALRZNX' +
+      'F`@GVKNK@MNBHHHR?TGp@CDG@KHOPAZK\\?JRh@o@fC@DRNBFE?UPYXqAdBo@b@c@TQPc@v@OJq@t@[h@M?MQ?GVU?GEIE?Aw' +
+      '@CIGIMESAIIA[ECmAJIAAEAWBm@CIk@c@IKAINIVg@AKM?IIISOSUUMQCMEEIBKAOEGGAKECG@GAKKKWBMNKHODUAOIMCIBI' +
+      'ACGAACDQAGKGBSCSQg@?GSQEY',
+  ],
+  NL: [
+    'e|Hmd@An@CJKHEAOSA@EASMGACDId@QXD`@CRMTSFCDJP@PADG@GHLV?HIPFVJC@D?LOx@Dd@GX?RQZGIAIAe@D]Tq@A[EFI' +
+      '^ILAa@KH[b@c@YMYq@u@YOiAWYQDWIa@[{@UQKOUcAEe@EwCT]Hm@v@@TLZLRBBB?r@@FB?DAFDDAFIBO?[BEFGTBJFXr@F?' +
+      'JOLJJj@ARFJEJEXNj@F?V[F?TSN?d@TF?BK@@Td@ALB@HGDUFG',
+    'e`IkYNHJXFZ?LM\\ARHTAFGHQDCo@DY@_@GYFS',
+    'mmIqf@DZ?DEY',
+    'cmIad@Bf@EN?m@',
+    'elI}^Ld@A@KW',
+    'ulIi`@@RAFGm@A_@',
+    'ujIq]LRGNIEQ]',
+    'kbIuWJSDCBVKX@PEDC?CQ',
+    '{mIai@?PCEEY',
+    '{jAfiLTHIDQ@QNG?L]',
+    'klBjhKBFIBBE',
+    'cmBdjKABC??ABA',
+    'ylAzsLD?CFUXKEFMPK',
+    'kjAtlL@HQf@_@\\O@@GDGTMLc@',
+    '}oBniK?UH@GR',
+  ],
+  NO: [
+    'onL{_CBbBVk@HARDNNJPLb@Ju@Vt@YvDAv@KlA?NDZJ@t@ELJ^f@YtBL^XjAt@f@NXFt@NJb@m@ROPFN^h@dAj@`AJZb@MJV' +
+      'N`AFbBv@SJ?ZPdALFHPNj@n@hAzAVuALGXEP@LNPRKvCBh@Hf@JXt@fALXTGf@h@f@[PONTf@EXB|@c@T@xAX\\aADSPa@RWX' +
+      'HHJTJ@D@h@F`@TAbAq@RERFFDf@DZf@JVBb@DJ^PT^z@Wt@PPLFRCLYNKBOjBi@d@i@@ODO?JJTEHNBPJABGJARDj@d@HJCR' +
+      'JV@VMFQ^@NR[JNP|@HOJL@NDHD@Tp@t@pANh@NZAXL^JrAEt@Dd@IRE@GCADANDDH?@FEZCFKIGQGDAt@UbAILQt@SVULo@G' +
+      'GIHq@Po@AGKOK[CFLj@Uh@G?GKICGDMAMS[s@GUABLn@NZJb@Jv@PPDT@d@MFk@KUIOKASKM?KBIDe@MSCWMm@A@DjAALIDI' +
+      'Ia@y@IGG@KGWi@Ka@HI\\FJ?k@YIKEME_@EI@d@NzALf@JHZd@NDFNBRRZNJVl@LN?FEF_@AOMMEMFGEBy@Ie@ED?n@KXSTYF' +
+      'GE]kAKS?JLZHh@MVML]FOAS@EQBe@Ak@K_BF{@?YKe@?a@FWFMLAFKCGIDM@QcBEMAh@OHWSA@JTPHLCDB@T@l@Iv@CHICAD' +
+      'FJRHBTGz@BtAHf@AVOj@KPYDIAEs@COK`@OLCRMLSBMCCI@[AeATmBCyAKs@CHFv@?t@SbC@f@CTMJYGESFI?MQWMKMc@Ge@' +
+      '@MJS?YKiAKUJlBGBMWKEEOEmA@k@D_AJi@C_@EGC^G@CCIs@Ay@GHJ|BG`@?XH`ACHMIU]EAEMKkAOc@Ay@Bo@RUZqAE@_@t' +
+      '@GRONOCIQC}@EIIAGF@VCPKDEGQu@Ea@J{@BCLNF??OU_@Cg@Gc@TYFSNI@GGKEUA]Bq@Aa@OHCFMKMk@Ca@Qq@MJ?RCDSw@' +
+      'CDEVJl@L`@L[NTf@vBJv@AZKDGJOJ?TBJEDQGKSK_@KMSMSm@o@_AMu@QSE_@M[ASIg@MSALJr@M?OIM[g@eCP]Ag@Um@Yc@' +
+      'BRX|@@PAJIBCNBJGLO@i@]KOc@w@QKIY@_@CIKHIb@E@OwB?w@GQE_@IUCJNzB@l@g@HUG?OSCKSC[Oa@Ba@Ca@CFEj@KHI_' +
+      '@AM]m@@QI[BYI}@A_CICCzB@bAAFEAGQIGUa@Mi@@_@Na@@WBIRQ?GQ@OUCDB`@CZKRKDIKCMGFPt@Bb@CNMGKB]q@AO@[FY' +
+      'Ek@GBAn@GLEEEa@Ka@Ce@I_@DK`@IZ[@IWHKUECALGJ[PGGMc@Cm@Ho@@QOwBCCEZBl@AzBCHG@KKGMKo@?o@Us@OSWIS_@K' +
+      'oACCIHQAUUGMAEFQNSFa@@i@CKI`@IXK@EM?g@GUKCGEQ_@KaBDE`@BTJN?OSk@WSSKUMq@NMd@JJANJb@n@DAAKEQa@y@Bq' +
+      '@A?Sb@KD_@CKMAeADK?YUQAc@L_@He@N]CIa@PMPEd@Oh@EHCAEc@Do@Ki@@ME_@FSAKKGEu@Jq@h@UTi@@SGGGPIBSGGI]w' +
+      '@Oo@A[a@o@G[GBEXK@Kc@Uk@AUDKHi@Pk@AKGICM@YHg@DAFTTf@Vf@JJ`@JR^N@DKEa@Si@SIw@gB_@o@Yw@E]POTLLTDQP' +
+      'BRHF?SqAa@_@KEKY?o@EAOx@GD[gA@YBQB_AJq@T@HHBJN~@FHBSGk@DIPLZ@NDL?FEe@WKYWI[WO[CO?u@DWLSDODo@DOBC' +
+      '@KI_@AUNa@JFBAAi@Da@VcAJELBL|ANh@B`AIdFJET}CFIVDFCFI@SAg@BSEMQCCKDURI@EMI@mAXIF?HBBF@L?`@SlA?LHG' +
+      'F@TRFRD^JvAf@b@DFHh@GLKJKCUc@Si@OQg@d@KbAQlA]fAQ^?ZB^VjA@NClABh@Xj@Pn@FJJHj@TPNHB\\CPBR`@Dj@FTHNX' +
+      'NH\\CZGRKhAQ`AAZR\\JlA@b@GLGbCKDONy@~AWl@?~@BXFLBBTODB@FEb@?h@',
+    'y|J_^BPALSEAEAKHI',
+    '}wJy^V?APGFS@MBGE?EJK',
+    'gsLgzDDd@CBWQ@MJ[',
+    'eyKyiADL?VE@IEEM@SBE',
+    '}lK}s@?TCLOsAEC?EDIF?DB',
+    '{jKsq@Ah@GNC@Ku@FMJ?',
+    'syLoqCLH^~@BZDRC`@FR?f@Gd@Sb@?gAGM?]Ey@BSUo@@OEU',
+    's{L}~CFeAL[AMFBHhAAb@KRA`@C?IU',
+    '}wLqrCPEHPNj@@ABLBTCJKACBDNGPE?CCIOE[BQW{@DE',
+    'axLcuCFd@ETGHO@GEEQR{@',
+    'uiLuuABK?e@DBDLBZJTBf@FPELJDD^SDMS?YQUEo@',
+    'egLapAHZSISOIUBIHBF?DD',
+    '{mLa~A^e@THHX@`AENEBAHFX@PETIFKYII@[BUKIG@CEBa@U?AKDO',
+    '{uLqzBB[HOBQDABN?l@OLKRI@?O',
+    'auL{`CBJ@NCR?NGHE?IOEa@D_@',
+    '}tLiwBJQAOCEAIDUHBJ\\PTBXALHVVf@JDFbBC\\GLECA]G?GQIEAK@SGUDKGCGBEAMYIKEQ?OICIBEAMMAOLG',
+    '{zKemA?NG?GICMAg@BEDJ',
+    'w{KslA?PGAGOMGCMDQJ?HF',
+    'mtKeeADHCVBl@EPIMKi@?ULU',
+    '_rLklBJWC_@BODM@OFGJEHJBNJBLEFjAGNL^R`@BNG?CV?\\E?AEEYIEQDOEGOBw@GECBGZCCES?SKG',
+    'okLoaB@AS[E]EAGKI@GEEWAKFSFINMPDJb@D\\NZJL@LCL?NHNHn@ARK?@JJPD\\ETTz@Bv@APM?[aAGeBc@}@e@OKMGDAPK?K' +
+      'GYs@U]CM?QDOH@TXPb@JCHOb@CTZ',
+    'wyL~v@@PEHKYUyAUc@GcAJCNBJz@F`A',
+    '}oMcwBFVKb@OVCKA_AFOBC',
+    'qjN_gD?\\Mt@KHEG?YPi@Bk@',
+    'wsNgjEFzDERWcIAw@Bq@BL',
+    'gjNafCD[Ay@`@a@b@QB]GkB@YPaADNDj@RDToB@g@EgAZcCRxC^x@FRNfA?v@BRNf@@p@IVAGECMHMo@GIAFCx@F\\Dd@JhEC' +
+      'VUJIaAQIKQ]u@?GQvAI`@Ud@OLOp@QE@d@MZEYIiCGoA',
+    'qtNsaC@aCBUJGDg@Ly@@SGQSKW?KBEEAk@Km@?UBo@DMFLJBXV@o@EcAQs@?w@EIEC?SJ]@MA_@BYHoBJiA@kED_@LY\\IFVd' +
+      '@jDJj@b@t@FPJbBClAJhANp@Db@GnEEVMPOa@D~DCpEAHEHI|BSxAG[?eCKOCWGQE~@?bAFj@@bBAzACh@Kz@GRMNGeAMs@C' +
+      'fBOrAEa@CiCLoBGg@Cb@O`@GDECAOP}@Bc@KIGAYf@CWN}BRaA',
+    'mrN}gBASGOBq@JgANq@RY`@t@HIHDFFIe@_@qAAYFc@Na@JMHANBFX?QDUHSBUCoADs@P[Cm@G?EGFyAH_@Nt@Lk@JiAHk@J' +
+      'OJx@@jAJnEHJNn@Rl@JPZRHIH@Fb@Ap@BXP?\\DTHRJJLBjARl@`@b@b@x@NSLTP^D?JKJCHVDn@En@YbA]pBe@rAW~BEVUj@' +
+      'KRIFK@EECGC}@@UFg@_@m@QaGCcDSVAJJ|C?l@Cn@@n@NbB@vCOz@MNUDGQCa@PiAMJOuCMcAAgAEFG?EWCiA?}BCk@Ia@Bf' +
+      'AIt@IP_@aA?p@VhAHj@Br@?r@CJSRMQKGI@AJHPLPDVAXMRARHj@FGHAPPDWHQHv@Pp@D~DKn@IPE^Sj@Ub@Iz@Od@IBGACS' +
+      'W`BEc@NoCIYC\\?^KTIHMFKYKKCR@nALGJRFb@CXSRMZ_@ZKPE@EAKMQVE@EMAWFc@FS?EMMEyATuBGFIDCKH_AA]IgAEsBFm' +
+      '@J?HZDrCT~ACaC@WRIBk@DWPo@?MGESHUEE[Ug@Mi@Do@Rk@Vg@|@qALS@Sb@wA?GYPqAjA_@HIEUUG[MFKEG_@?[DY',
+    'ijNieALAA_@Ng@Dg@Zm@LM@^Uf@K`@Ij@?`@CNm@`AK^QLK?@i@Fe@Xe@DLHM',
+    '{tNctBHj@GfAGIEO@m@',
+    'elNqtD?{@Ay@@IJjAG`DJzAC\\Km@Cq@EGAwA',
+  ],
+  NP: [
+    'emDuePDGP?b@N^Hv@FFA^WVIP?x@RFD@FKZ@RDVCj@JVMf@UHCDVp@@J[`AGn@GVH\\?LGHMDM@IHANRv@EROFADCR_@`AIF_' +
+      '@@IDYjAKZJd@HLOv@ARBLF@FNOj@MbA]HCHBb@g@bAGVFZe@fAWb@KLSLg@rAU^CLLFAJk@dAGBm@OCGMKYES@]M_@Om@i@E' +
+      'OYYIQAKBGVS?MIMq@a@Ik@Dk@Dc@NKXKJKVu@r@gAJa@@[`@e@XUXWAQQu@DODO|@YTc@HKPc@JKFQ@IKk@BQj@LHEDQ@g@?' +
+      'u@Z_@h@UBICK]CGKDGLGPe@AOCEYEAM@MLKPu@PWD_BAKMc@@_@',
+  ],
+  NR: [
+    'fBor_@DB?BE@C??I',
+  ],
+  NZ: [
+    '~`G_y`@@UOUUk@Uc@G_@EI?IJHDJB@FGHJL?NJESIEE@KGEKGBG?BWEQFC?MZRN^@SO[MQP?LLHJBLFLJDNCHMTLAOBIJKTL' +
+      'l@n@HNN?JHp@x@~@f@ZXN\\Jb@Z`@@RDA@KFIHFFZDDE_@DIPEJGJs@BERCFBFD@\\CRKLDp@ABKSGRHNH@DF@Ha@r@FA^YHRJ' +
+      'd@Tl@?ZBNLBHJ?VFMj@Np@DZH?\\DCFUJBTVLH\\H\\L^VD?NQH?D@LfAHP`@Zb@t@h@l@LdA@n@K`ABZBJCRBPKHKAGBKPEFAT' +
+      'Bn@c@^GZ?HNN@F@t@Ct@ERMBa@i@Pd@ANOOE?G@JT@VK@MACCKwAGIAd@I@ICMa@BVAZMAKG?[GHK??GL[DUKHEAEUCRIRS?' +
+      'MSFKAMEHIFGCYk@XIQCEBG?EEEQSWGQDMFIG@GDQ@sAeBIQKe@B_@Ys@HUQFGE_@eAE[IU?KG@GA?KACCHO_@OOIQKICK@KD' +
+      'GIDCLM_@H]ILEBI]LKI?IAi@m@FGX?EEKASBg@_@EMAIKJ_AUUKa@MGIAYEKMSUWSKo@Oq@Ie@Yo@iACMAWDUBh@XDRMHSDW' +
+      'RIn@E',
+    'j~F_~`@JZYEGKGQN?',
+    'j|Gcq_@L@Ef@KGEWDG',
+    'jyGsr_@VGCPGFKM',
+    'zcH}y_@F?ATF?DQDEAOHCFBDJB^JV?TJTB^KCKQI?GEGOI?IKUFSEA_@',
+    'vaFcha@HACNGBIRQ@KMTS',
+    'hyE}y`@HCEIUUP@BEJk@FIBIGITs@DCP?FC@KKO?GVM?@NOXOPDVM?FC\\D?NQf@Wl@g@NDJAFDVMFFVDDDF?@OJQGECEJSNq' +
+      '@HEVCHE@OCOGEUBc@Jc@?SJEHKCCKRM`@]CQLANKNGp@Gl@MRYHAENBBBAFMFc@h@_BRmA?UEc@KUe@a@_@w@Bs@Vs@L@f@X' +
+      '~ALTHNPJRDRZH^BFADEHCRJADQHEFGt@@TFTL`@DH\\Xd@@FEL[`Bt@X\\\\Nl@j@h@Z`At@f@x@f@jAGP]HEVFZAD[@GECD@FD' +
+      '@DCDN@PGDMI_@_@i@a@m@[aASQHq@f@Qf@AVGVa@j@YrAOVUHUCGCEGUm@MaAWa@IEgAIg@MYQOEWFIGIQWPm@TUGAJm@VEC' +
+      'BIXMMCGKCW]\\Fb@GXi@Po@d@AKV]QKK@GFEHK@IGE?MPADFBFE@DYj@i@TT?XOb@a@HB@HEFc@V_ChBOMMSMIAHHPZTKLEBM' +
+      '@AHWTQMS?k@^cA~@EaATLt@g@FAHK',
+    'bgIk``@HIBRGPEBAU',
+    'f|H{m_@PCE`@GJFF?JABIEO_@[CAYDGHJNABFFC',
+    'jpGbla@DDAJTTOAEF@P@BFOFJPK?INIB?DTFLAH?DSDUUIDENBb@CFKQ@QIS',
+    '~sGbla@@FK?E@CMHG',
+    'rt@~t`@EBBC',
+    'fvBfd`@JTMFOGCI?ELG',
+    'xcCje^CRGE?GBED?',
+  ],
+  OM: [
+    'k}B_nJ@NY?_@]c@Q^MRV\\J',
+    'agBwjI{Bv@ELsItCgEwQoKcCkCxAaAAiC}@SCM@IHIOE]?OGi@E?WJAXCFUI[Fe@Ge@@OMCIBOFCD@BFVSAEWa@SOAGr@Sp@' +
+      ']ZYb@[`@i@JSVmANeBRi@?KCU?OVe@VKLOPMTI^_@b@WXWNULw@PCf@F`@VRD`@Xv@\\JJ\\n@b@b@z@f@nAj@BVAPCHc@G@NB' +
+      'Ll@\\RPVBvAXL?b@Ib@?l@IJZBn@Fp@Lj@NZ^^rATb@`@FT@t@HjAHZp@j@PBHGLAJ@^TVTNx@Mf@?d@D|@NTJb@R`@F|@',
+    'i_D{~IBB?DALIFs@ES?CH@F]QCE@ECOWM@EBCj@@|@HPJ',
+    'w|Cw~IDF?DQC?IBA',
+  ],
+  PA: [
+    'cu@pbNPNLDLM^MNK^MJAFBBJLJPBFAZd@DHCDYNCD@DD@XEJDFJh@L}@t@gAh@_@FASCEIEUBOSKG@CRMXk@BMe@p@c@PRVC' +
+      'DE@APIHTEF@?DQJc@FOTGPKJENQRMZC^@d@FLLJHVZLLHFKp@hAFNB`@NPX?NQ\\Ub@e@`@KLR?b@FJLBHLFl@@`@KJ_@Bu@V' +
+      'e@BHRl@JAHQl@{@b@WHEXIT?XDJGJO@FXC`@E\\BRHP\\CDDK?MDKFKLC@Ua@UCOBSJMGU]E@UZ?JmA?EIEEKCCGN_@EIGC\\g@' +
+      'P?XEBMEKDCHFT@HUHIE{@QHKLE?BKHGHQd@_@He@A_@C[Ok@Y_@KYYsAY]GYSYOMGMDm@F[ASDQJGBI?m@Bg@`@sA`@q@b@Y',
+    'ur@blNFBSFU?CI@IRCH@',
+    'yl@~|N?JGTONK@OIEORKDFJCHO',
+    'sy@|`OH@QNAK',
+    'qr@dmNFFGBII',
+  ],
+  PE: [
+    'nYftLJ@DD?HGN@TINKBGJBXAd@@Nb@`@Fb@?PDNBVDND~@p@rAFPTV`@l@BXDJFBFAtANz@b@`@Nn@SJAL@JFDJBNRb@\\d@N' +
+      'L`@Hb@QH?DDFh@X?HFb@c@FSR@BFF@X[LEH?TKH?Xe@P?NKLSt@m@X?x@n@?oARuAHKXINALQ^@@qBCu@CSWWO]SQe@o@GSR' +
+      'HN@PETLlF?KUT[?SAMWs@BkAtHqDTLN?LTVTbBAV@PFPJRKf@ITONCD@DPFDT@j@j@\\HHN^@NG^[FC^Xf@VF?dBg@LQ?OF[H' +
+      'KDAP`@HBJ@RCXb@t@j@HB@JRXH@HADKJIVAZ`@@XFFf@IP?RFVPLXFVDn@MLm@`AWVIVg@v@KDg@DIFMPSp@IPQRKZW^UPKT' +
+      'S~@Q`@Yz@QZS`AIPo@`AOj@Yb@y@nBQN[NQXe@XWh@]d@YNc@XQDSVc@@QNGKCKw@O]Hs@f@YL_@JQNg@Vc@LY`@IFKBIP[@' +
+      's@JYPo@~@u@Fc@LuCxAw@P_@Nw@Pi@Xe@Pm@PW?i@`@g@N_@\\Y\\OLsAh@WDm@Za@ZYPWViAjC]p@MNWFKCMMHSCKOIY?_@J{' +
+      '@l@MCMG]NWRQHeAKQIeAcA]QQ][]Ua@DK^EDCX@ZID@FNHDCZDHJBRCFE?Ub@ZFADK?GGQUQAKb@cAC_@NWXCRI^WDK?ODUC' +
+      'ISIAKQ@KCGIUa@SGODI?a@Oa@IGGUGKIe@Ce@I?MPIEMODEA{@o@MOsAkFuAuBwBgByB_@HK?OCCo@DWCG?[`@_@JQZG?F]C' +
+      '[SW@OZg@@[RGL[h@g@l@QF@VQJg@LKDKLMBIAOFKLKNEHKPERFHEP]AOBIFCp@MXFLCJ_@HIBI?OCQGQNo@Ea@COKQ@M_@c@' +
+      'CILe@T_@Cg@KQG[@IVi@LK@MXw@JIH_@FCH?lEdCPi@?GCMEG?GJS`@MT]',
+  ],
+  PG: [
+    'v\\a{\\LNe@\\[Jk@C]DYLsA~@MPKj@IPq@z@ITKLi@`AIR?VGREOMAM@j@cANI@QJa@Xi@RWNk@^]T]JIhB_CZUR?XPRAPD',
+    'zYot\\BIU]NOHi@\\HZGR?PHXPFP@^LDNCROTKRJLTFRE`@@b@FFL?PJ`@d@Pd@BVFTNRFVLVDv@@vAAREH[VGR?THZADq@jAU' +
+      '~@QJY?MQFY?ICKBUCk@No@@WAWI]?g@MY}@ISEEI@EHIVPV@VGPMBWMSAWJUAUGICUEISMWIQM]e@EU@YKSWAWBcATSGBm@F' +
+      'I',
+    '~w@cpZyL?MJSJYAs@UkV@?EBc@h@eBP]BI@SVk@VcAVgAL}AFYZe@HS^i@BKBc@CWDUDIHCNOFULSp@q@DW?YvAuALCx@?j@' +
+      'FLSNgALe@z@}BDQ?s@Te@f@_@HMn@KTBFDBRBfACl@T^H@HAn@]h@ONMLUdAgAJQDUXg@n@Oh@G\\g@n@MTKFS?UM}@@SFITA' +
+      'VFTBPKPk@FkADUDGHDLj@J?ZUHSLo@J]Bc@HYCc@Rh@Ed@DFPOP_@FDNZ@^Eb@GVSLYf@Ah@Id@EpAERKXAJBJ@^?HKTCVBR' +
+      'Kv@KRSVWHWPw@lA[PS?QEDH?JM\\ML}@b@c@\\WHQLa@\\Yz@Cr@Mb@K|@CJIDSD@PMr@DJNBANFNHF?PQn@a@b@GLPQnAg@ARN' +
+      'I@JIv@BDDC`@MTdB?d@Gf@Hd@?L]RDZ?WTKJOEU?k@X}@d@g@RMFAT?HBn@dBXh@EVOXI`@Dp@@fAKj@BTFL@P',
+    'lc@c|[?FG@GRWP[A?KVg@FCT@',
+    'p\\so[DLEHKBMCKQDILA',
+    'pRey\\PBIJMHGECM',
+    'lQsu\\H@?DYRCALS',
+    'tHag\\F@APUVK?KE@ILQ',
+    'r}@go\\?GOOCKFGl@LEJMh@Q@EHQFULKBDIJGZe@F@',
+    'hz@uj\\DBCJ[^SCIOHUZI',
+    'pu@mo\\LAMNQGM?ILMEEOR?HC',
+    '~eAgc]J@CFDTAHMH@SIBD[',
+    '~s@m`[?HK`@IHBs@LA',
+    '|`@yv[@HSPEBIAMUJOXA',
+    'fKev[LaAACE?BCH?@RTXALBN?XGb@DHALFJ?DO@EOO@IK@SES',
+    'rOgk\\Bf@CLKLQJGNK[EYPg@FCV?',
+    'ly@yk\\N[CO@GPQ^ADHGA?`@ERAZOMUNMAAK',
+    '~v@}x\\@K?WHGHSFIF@BDFAAHBHI\\G@MLIXGM',
+    'vfAs~\\H_@JKBJB\\EDGZKBBLIEIPSDFU',
+    '|t@m`[HCK\\SZELMFHOH]',
+    'fMg{[JFCRCIGCAE',
+    'tPwt\\?DO?GADKLA',
+    '~`Acn\\NBGPIA?M',
+    'rXk_]B@CJKI?C',
+    'xh@wm]PDB@GDFPJNEf@Ub@QNSHWESFSd@SLILYTc@Hg@ES@?GLSBYNQ^QHCZa@`@SFIFWNSNOb@U',
+    '|`@qe]@BWHa@BGBSQFIPANG^D',
+  ],
+  PH: [
+    'ksB{sVJ]b@cAPs@?SGQ_@UAMFIJENCPBLNRFnADj@QFEHQFEXCJUz@RjAd@P@^ND`@Nb@JRPPRFRIJ?^VPFRJHAbBy@D?JJR' +
+      '?RC|@WTOFKLa@BYICCKGBMLG?a@y@?[Lm@JOTOVI`@@FG?YQMSAGHGCGGDKJILg@@QHQFINHBf@HJVKRQ^WN?NDAOBOLWAMp' +
+      '@?j@NERQNWAUKCDFb@ATWl@APKBWAk@Zc@z@WNa@d@CRFBXERARQ^M\\AJNMPS@_@VY`@[Z]x@@PPd@HHN?JT@ZGROP?NYPAT' +
+      'PPkABICIIg@m@MEQ@KHIPCPGLKHTFx@GFDAVGFWDMPUDCF@LIJYDY@_ATwAH[To@?ICEGPSHSVQBGCc@GEUCc@JYDW?UCg@Q' +
+      'sACK@QHU@gB]i@O[AGUIUBSEY',
+    'ws@e|ULPa@Ea@SKMg@a@u@y@E]OQwAqAo@g@SWk@a@KWMOQMWC_@HWIkAe@FIFA`@DHERDnA]HAPRNj@NNd@RLn@L`@JBPAd' +
+      'Af@^XJPDVLRj@Z\\h@Ph@RHFT',
+    'qgAs|VHUIW@ULQFDH?Sg@?Kb@BLBPFNJJNLZT@JBBRT\\L~@FPVVBFI@]GWDUAUKWEm@A}@GG?GDGXEHKEIG?MFKPg@LU',
+    'sw@q`W?ZIFi@NQf@MTi@\\Y@OCKICIAe@S]e@AWBSDSQSIe@CSw@Lq@ZKf@NVNZLf@Fr@Zp@@x@a@H?HDXR',
+    '{eAqiWDOAOOQDU^SLCdAF\\]HEXATKFAHBARN@EDSJIJbAGMRGVED_@AUHo@KS@SHON?FJVCJyALWJGCXk@',
+    'imAwmWNMJCL@DEFYJKHFNATHb@?JGV@t@WNF@KLMPIB@MJAHBf@Gf@WLCLIJ[POBOKKCM?@LCHWNWVGTQXQH_@Ja@FFw@?u@' +
+      'G}@',
+    'gsAkqV@IEa@@KJGHSIOJOROZ_@FCLHPBPAf@KJBLJPHV@AF@FNNEVQFUVKF[BSRGBc@@g@VQZYHCVKAII?MBc@',
+    'gy@qrWJOCS\\?b@WRATJTVD?FEBUJQ\\AXOt@FRC\\YXCz@@n@ZX\\ALFDVIp@B`@Dc@No@DUFSHQDQJi@N@HJN^HNRTNTJTBNIF' +
+      'KRSp@On@?TJh@\\JTEJYHI@WGS?GF@F\\TFHARWx@m@tAa@XYD[?e@JY?WIUWIEKCM?c@ZQRMh@OPAVBJH@P?r@PWh@a@N\\TB\\' +
+      'EB_@DIN@PPVDBNDj@XlAb@FFCLGLSJYC_@Y{@M]AYUQSCIGg@GO?YEUKQ[?WQGKC[EIYSHWDWLSVMn@EFDPR@IUg@G_@EG_@' +
+      'OWIQMAIPa@GU}@KICIK@MLUBQ_@MFa@CWYGiBXQK?ITWZo@NO',
+    'az@abWDFM@oAOO@a@Y_@Ma@WQCa@Sm@SO?GCUCOMHCTBb@A^Bb@Cd@FNJJLFPPPTHRB`AZ',
+    'cuB_yVNJCF]MCIHI',
+    '_xBovVPA?JKPE@GC',
+    'i~BgyV@HQEEI@G',
+    '{`CwxVNH?FIAQI?C',
+    '}d@gtVLKCKBUFCB?LVMLHZEJBPIHKCQ[',
+    'gp@wzULHOJY?ECCQ',
+    'q`AolVFXSDQQL_@DD',
+    'akAsmVBICGIGNEJOLB?NALDLCPa@TCFSECEHGLW',
+    'chAgmVDNCBO@c@LEKJUJGN?',
+    'm`Aq}V@HDJKBWCUUCIDEJA\\J',
+    'e|@wiWFB?RRNBFDn@Cb@KLOFK@SQO]KGOMCa@Xo@\\BHC',
+    '{_@qnVJBDFILHBBPLHBNAJKAS]ESMOAIJC',
+    'eg@azV@XSNG@IJICCOK]Rm@FEBLRH',
+    'a|@{rW@@OJQAYOVIN@JIDD',
+    '}|@qpWBBIBKJQHEFMCW?MQKG?CHC\\F`@ITBBA',
+    '}tAunVL?S`@K?CCFQ',
+    'ssA}xVAQPWF@JAVNFFOVIHS@[I',
+    'elAazVn@NOHICIFGBKCII_@AIS?GF@L?',
+    '}kAs}VBJ_@b@GI?YLMFA',
+    'ioAoaW\\QURMRUVGNEBIA?Of@a@',
+    'ylAqdWNAEFm@\\IELQ',
+    'ykAgdWVe@f@Y^CJBMJQXGXICMLCJUNCJDH\\XTXG?[Iy@KQDQ@Nm@JSDA',
+    'etAehWJBCF?FJNOTIBYOe@?OMCEXQNUVBL?',
+    'yvAszVF@]h@G@EA',
+    'w|AuyVDC@DLHXIRD?JABMEKBGDODGFOCAY',
+    'iaA}gW@BUIDGH?',
+    'k}@_nWHAYXQD?IDI',
+    'im@k_WH?HRADM@GCDIEG',
+    'oj@cqWH@_@PWGJK',
+    'yfAyiW?XGH[LCO?MHKPI',
+    'cx@akWJDITIDIAAK?EHI',
+    'gvBytVJ?EHI@OCFE',
+    'agAclVJCNDBBGDCLG@?GIM',
+    'oeAodWXI?LSDEE',
+    'imAm{VDD?BK@EG',
+    '}z@irWBBIDWECCNC',
+    'ogAikWJ@GJOFK@FKHE',
+    'kr@o|UDLKBKA?IBC',
+    'wx@cdWTADPENKHE?@GMY',
+  ],
+  PK: [
+    '{}Ey~MlBw@VHPj@TNHRCZPx@?XTb@J\\?RG^Sr@An@W`CVbAt@^JADUHIHANNF?HIBs@@GF?JDHZHNLBH?FCNYFCXDZXHAVYN' +
+      'a@XEHBFG?YBUCG@E\\BPCDCDU?g@Pq@PQJ?NNHb@Z`AJTLNTFn@Ov@LJCBMLC\\p@?FhA`APTNBLGJAXV^tAjA\\d@Rt@b@JHv@' +
+      'nBHHv@TLH`@b@XJPBP`ABp@BRV|@?NCJGHMFSBOZ?PP\\NTjAn@n@v@TN~@LJGTk@Fc@@]DKFEz@BZH^Cf@_@BK@YEWFOp@?f' +
+      'Am@hAa@LLH@N?HG@ED?FJ?HBFNPBNGZIBKAEB@JVlARNBh@?PS^?vACj@BF@DID?BBFB@|@@Al@Fh@LVJ@HFSLBF?HMPLFB\\' +
+      'UBFPKJOBIHCJOJg@BmAVELMnAMBc@EW@]XUFQRCR@TFJJDCm@JUAl@FfALf@Ct@JdA?v@XVKVQlAGBELHL@JIh@F^HJP@Cf@' +
+      'CVD\\GfA@PHXHHBNQTJTDb@A`@I`@ACQEy@CUEK@QQaAKKEQq@IG@UMCKIMYEg@IU@cACMe@EGKWBOAGKE?KFGPDp@E^U?[I{' +
+      '@Dg@Fo@CAFB^YXKNKj@ARKZo@t@OH[Jq@`@M?GBaB~AtAqHBUQyELoAFYMMISEWCY?qBw@yEEISOMJM@OGYEy@Be@KUIUg@a' +
+      '@YMSIQ@UJQBa@A_@I]K[G@ENGHKBEIAUYw@W[AKFSBWGOAOFMTUBQGSMUg@g@aBFSIKMQIO@MIe@IGMEYCk@c@cAOEQL_@PS' +
+      'Nc@b@UCGSPaA@aAEg@Mg@MGq@AKNSHMSOGSUQMSa@YQOMULG?OI[DIHWFUHUPKVGDOGa@m@]_@@]KI[w@MKEQGc@Ke@GcBCa' +
+      'CLm@AGM][qA?QPg@Ga@BQJg@DEZG@GEUBSHSPUNIZGh@?NLFADEFYDEVIBE?MO{@VAPa@',
+  ],
+  PL: [
+    '_aIorCVOHBF?b@g@ZOHILUD?DRBBLMRGP?LPHDDr@h@z@t@jAx@~@LJp@OVBP[F@BDKl@?TYxAQHGNGb@ELCrA@ZNNBH?NAL' +
+      'GLCT@r@Jf@HHPHGZDVAFMESBGZe@d@Pd@TR?b@SDATSB]h@KDCAGBCFE`@BHIRERILFHDRGPQTCHGFEWGEMBABHZ@ZYt@It@' +
+      'B@\\WB?H\\P^?FCFYTW\\CTEBKMCOMKIJGNHt@KJAJK^MhAMNOBIt@V@DN?Pm@]_@Kc@PEBKb@CBQEE@URKDOOa@MEHG@KAGBEL' +
+      'EFIBa@MUT[r@SVIAIIISMOWGKAw@Va@FP_AMDUAIdAI@EABG@YScAWqBUyBGy@]c@Ue@IaAIWOq@QsBCo@?o@^wAHGGVMb@A' +
+      'Jn@]NOJa@B[GuAMe@FyBJgK@oBIQ@MFYHCBYFURa@JEV?fAW`Ae@n@Sh@EVBFJZtAb@h@HBDCPs@L[JIL?PFLCRNP@',
+  ],
+  PS: [
+    'mdEovEJI`@b@L?NRUH_@e@',
+    'oiEe}E^CZFV?h@ERJd@H?FT|@Bd@CDE@g@OMOOa@E?GLCNBLCDEEGAq@F{@WOWDa@BEFAHO',
+  ],
+  PT: [
+    'mlEljBHYCYL_@@OT\\Ab@K\\IHGB',
+    'ceGzu@Ue@Q_A@KPMBAPND@NI@C?KMa@@CCi@Hc@@UEYGKICEGDW?_@AGDWAQDGFC`@?DC@]BOFMLE^d@L^NXTPHRHHXMREXA' +
+      'D@Z?FBRGXf@FBD?NUFCN@ZLPJDN?`ABPVQLUXEf@[DYHGL@NFNNT\\L?d@Jv@o@A[ZJF^RTVPJJZJpAQ@N^dA?RMf@GzAHZAT' +
+      'JPAJoAe@_@@[E[DQJk@OW@]LDi@SX@VLt@ABQAWHEMAQIMIGSBSKO]@NHPb@XRHFj@ETW?UG]A[MQDIKGMUSsB}@E@EFOCeA' +
+      'SGGSGcAEK@YLw@JQ@II?PMFKA',
+    '_fFl{CB??XKFCG?OBG',
+    'iuFraEHFERUCCKFK',
+    'opFdhD@DEf@GJMDCGAQ@YHQJ?',
+    '_pFrlDBHOr@GROVReA',
+    'woF~qD?RORG[DIJI',
+    'ioF|nDFQ@X@FCR?VINKBEG?U',
+    'okFh_DAkA@QN@DJ@d@Gx@MRKBCK',
+  ],
+  PW: [
+    '}QyrX@DC?CEBC',
+    'cm@ghYBJODQAKGEIQGHA^DJD',
+  ],
+  PY: [
+    '~|BnjJXGb@WH@ZEDKJEDBJEDBDABENEX?`@JJCXLh@CRBTARHF?JCD[GSDOHMFo@CQL{@Aa@EM?MYUCM@IPIPS@K?g@DO?KR' +
+      'SR?NGDKHEL@LBN?LEL?LCHGRAL?REFBV?TOb@CNCFI@OBSCUCSa@eAPe@LMNYNNL?TGj@DbARf@FHARDh@ZrBBz@Hj@LVNBJ' +
+      'DFJDX`@F@DL@ZFNJBHHDJJFNALFHP@LKLEPCV@PHNLLRJ@LKLCRBT?PIJ?RDZGv@UrAIfAFtAUFMCIMIIKCIGEQEEG@CAEIG' +
+      'CIAIIq@@MCOKIAGEYe@SCYQOEa@c@KAKDOJe@`@QZMb@ETDJCJMHIRIh@m@zAUb@KJ{@zAOj@?\\In@SbAUd@QHSXSd@MRE@G' +
+      'JITQVWXe@Zs@Za@^Q`@KNE?EDgFiAeB?cBgAqA_@eA}IAwDhBuDb@G',
+  ],
+  QA: [
+    'yxCm_IFb@?VCFQLUHSGy@Lk@BI?_@UiAYSUM]ZYT]VERF\\FjAURAPBLJj@RDD',
+  ],
+  RO: [
+    'a{GioDRUJYJ}@CEGBCABWEYOe@Cc@Ha@T[v@NZLNdBGEWDKGATBHHFTEPLN?FFD??OJFZ\\LJ~@Cb@LJ??j@E\\I`@a@`@DZGL' +
+      'CT?X]bABn@LfALt@Zx@RTJZFb@CbASpCDf@Ev@KpAC|@F|@EHGBICGGKUEA_@`AIBQ\\KFIAIICM?OAGGBSj@D\\V\\BTOJIVA`' +
+      '@ETGDGNG^E?C_@CAC?I\\GDCMIAGKE?GJIf@INEX_@p@GAO@]?A@BHGJQLUj@YVCGGm@FSGSOIAOBg@GOEEOGCMO@WMQc@IBi' +
+      '@a@OASY_@OSWSAMU_@c@Gg@?WEM]g@Kc@OO@KPi@?s@HaAAKFWG}@BQh@}@Ec@MSQy@OkCWWQEK}@?Q?OHUHOf@a@VOVINKR' +
+      'Yf@[T_@JEJKXi@d@O\\QXBJC|@V`@BZAVIJ?HPPQ',
+  ],
+  RS: [
+    'osG{lCHLFDL?Lb@\\HN?LCFILENELKRi@RQJWPFTZTP?\\FPHDFEVDPEFIBAF@TRBNIRHd@A\\BPDLDVAJOFCAGOi@WMCOfAOAO' +
+      '^IBY^Oh@MDCBJb@B@NILFNZBBHEBBDVK@ILERUl@E^ITAJGJYZUd@MDKKAUBG@IOIK@s@p@EM@[ASCEE?e@n@ITCNKDa@Ea@' +
+      '[OGOEC@ETFl@E@CA@ICEGAa@FAMIADK?e@GAKLMn@KNM?ECCEGTGDKEUJMHEIKCEUIIACDK@KCMK[SUAOBo@AQDu@NQLKTk@' +
+      'PMFKCI@A\\?JAJ@^q@DYHOHg@FKD?FJH@BLFEH]B?B@B^D?F_@FOFEDU@a@HWNKCUW]E]J[FOFC@F?NBLHHH@JGP]FA',
+  ],
+  RU: [
+    'snGwn[?IDA@HGB',
+    'soGwq[APCG@G',
+    'inGwo[A@EK@ABD',
+    'kwIkxY`@V@PGL@ZAHIQOe@Ca@',
+    '{oJel\\@NEFA?IWKOJK',
+    'ygMsnVHp@?j@O\\GWAi@@UH_@',
+    'qlMkiW?JCTKDAQ@WFS',
+    'ygNewS@VCXGGAy@MU?c@HOD??h@@F',
+    'waNk~S?VIDKS?WD[BEDC',
+    'w}M}`RBJARGPKDCM',
+    'g{Mi|Q@HCJI?KQCACGBUBIBAJL',
+    'qpN{pR@j@QGAUDm@',
+    'ajMu~M@PGrAG^GK?U',
+    'anM}cODRGl@EHEg@@OFO',
+    'kpMwpOJHEv@CFKy@Ae@',
+    'ssMq|OBQEs@@IFMNTDNCjBGXIMIu@',
+    'c{NuqJ@h@CjAETCEGuADi@FQ',
+    'kgGyoXEDG@IDKLKBEKI@KJANABE?IMEQIk@@[IY[CSQo@OI?GBEJg@@{@GMIuBf@[PIAKSA]Kk@SYYOEOMKCIJKDMh@_ESa@' +
+      'Q@SAa@OIOMa@GEIBc@KM[WKM@U_@QCECYDi@]]CQEWMKKYFGAUWGe@MWSSQI}@b@YSKAGBMRGRA`@RxAJ`@NRDRA~@HXNZFT' +
+      'AJJLVNJNCRHvB?j@GRAZDf@@VCFIDO@QLQVUBWOQCIHG@IPQJEHOAQKQLAd@C^O^m@p@OVANEJMD?VDD@FEJ?JBLAHIHENAV' +
+      'EHICGBCLFzAAn@Id@IRIBOZMHS@SC[OQd@IJO?CDG?KGM?QFWT_@b@URYDEFKBICOHKAEFEJGBQAOH]ZSFS@GJWBGJECGDIL' +
+      'MHEDCTGDOGI@KTMLCZGHECG@GFCH@HW~@E^?RDJFD?LO`@C`@GRMNEL@LI^Sp@GXBH?XEVB\\LpA@hAEFFp@XfCFtATv@f@v@' +
+      'Xf@HVLHPCDSEe@@_@H[NGPHRAPOTAXLV`@Xt@V`@b@R\\^PHL@NLNTPJN@NHLTLJNBHFBJDEDULIVDPJJTD`@Bj@V|@`ArBE`' +
+      '@Mj@An@WdAOh@KHGNQ`A?NXrACx@I^U`@ORQr@GvALl@Rd@Pz@LXZv@b@TRp@@TCf@BVPz@BbAJ|@CPd@dBDV?NOf@?THVSd' +
+      'CKx@AdBBVCPKTYf@K`@KD?FGD_@@MCEDEx@AnASd@URUl@CZDdAEZOf@?d@K|@@TLb@NzBDVT`@BREv@F`@K`AKLELGz@Kb@' +
+      'MXMNAXGHI?QCURMA]BKHU@GCI?GHWjB?RBPK^k@tCAtACVUf@I|@W~@?HKNCLHFTHHFTVNx@ZTLBBD@PDJLHDFLDT@VLJ@XW' +
+      'PAVMNWFYFAd@FVNRLLP@LHP?XFXLHRb@@\\ELW\\Ev@DTGRBV?LINI^?HDD@HIP?JFNDZDHANCJ?t@CLIDEN?h@BTMHYf@O@i@' +
+      'JIFKbEB`@IPYLAN@NLFDJAHUf@KN@HLDNN@lABPPTBNFLHF?LH~@Rb@@NPT@XPx@Db@BFPDDR?ZHRN?LEDBJb@HN?PCJDFLB' +
+      'DLDRAFKL@DH@DD?NGVBb@AJDf@LJN?F@LXDHAb@Hn@DF@JARKBMLE^GLEHa@ZMP?PI@QUI?EH@LXd@HXPT?h@IFMnBBNCJGB' +
+      'm@h@KDKEI@EL?NUl@Gh@?NIJm@PQLMRSJUj@SfA?f@DLJL@r@BFFDJNFVA^Dl@K^@d@BV?^EFIC[JALBd@CJGA[KG@?^IFGH' +
+      'AZ@PJFF^FDZEHDDN@VLZN@CNmCfBeFdE}BzBU^oB`FOPQJG?@m@GI[QWI?NRr@Dn@ZjAHd@Dp@BFRBN^J`@?h@b@lA\\H@HQZ' +
+      'EZAh@Fj@T`@BJ?FK@QNUESQWw@MGG@EPLTFX?\\CTYh@Cx@@FDBLGB@JZCFQDMA]VKNBNNFBJAVFh@BbAIp@IFSSc@AKEeAf@' +
+      'c@Na@`@Bp@DLFHHd@Gf@Un@Ip@EdBDZHXRd@Bj@DRTGHDBJF~@LZFtAF^VnD@t@EFLf@?l@JRFZ^NBLK^Hv@AVCLDr@Nf@D\\' +
+      '?\\Jx@@j@LVDvAJX@zAHH?JSvBDRJPNDX?FFHNF@Lu@G_@@KDIDAB?@DDRAPBNFHLBHG@UFY@k@JUJq@HKH?FFDLKpBDdATTV' +
+      'ZJDTIb@_@HAJHXt@?`@BNRd@H`@HDFGJi@JULEHGTeBHIHcAVg@PCPL\\FXNN^Nx@Fz@Cj@CXYb@CH@JFFj@\\FJHl@CBMCGLM' +
+      'pBIJm@t@Qd@C`@@ZCh@FNLFJLBP@VKXQXE`@B^Ll@GXb@dAXPTp@BTC\\Mb@M`@Yb@MZKZAPBLFBFADIREVAL@HN?FGHg@HYV' +
+      'Y^Wb@Qt@]^Od@APDh@AZCNANB`@ELa@`@ETFh@d@nA@r@EHQDKTOhAJD^n@d@h@DJP~@LTH~@HNb@Rp@dBAd@JIf@Ep@WPCH' +
+      'DDHR`AEPMVeAhASZET@RFLPRHD^?JH\\r@\\Rf@LXBLIHSHMHAHBJHLT`@\\l@P^IPe@F]HMRIb@DLGPMHQKe@H}BFKxAuA`BgA' +
+      'F@BL?RK`@@HDFDBHAFEFMl@{BHC@XPFPt@@VTAJIBB@FIR?R^l@FRN`AEXDHNBQVAHNML?F@FDDNXBt@`@TRPFKNRFVf@RFT' +
+      '?DEDa@HS\\i@POTIh@Mj@Eu@SKQjAZXB^Cd@HJMLSPOXCLQr@s@`@]l@]Re@p@b@JPNn@p@f@@LEt@If@GJ[HKLMXEBe@n@CJ' +
+      'DVABK@CTSj@C^ERMTQf@E?q@QGNCP@j@]b@Ox@@BXNQNCFCZ\\bBDH?XCLEBGAGIE?CBSj@Ih@Qr@KPG@Ol@@d@K\\AZFl@E|A' +
+      'Uj@Gv@_@tABXKhABLXRITs@dAa@d@mAxBENI`AIXw@`AF\\AXELGPIJWLKNSp@Kz@KDKq@GMOj@GMCOHUNWDWGIMkAICK??FA' +
+      'BM?OK]a@g@QIODKNA]S@k@AQ]`@]n@@RELWRUFBg@Me@AMFu@M@OHSgAUaAC[MC_@P?b@PPFr@AVKQEQCEBb@LPNv@O@GCEI' +
+      'GACLC@IGUCOEIOA[IYGOYSCODaBAeAIGM@i@WMME?ETE?EGc@HENCT]IMQBUEUEBKn@IFIDIi@[c@IGWCKLM?GGGBCHD\\?R_' +
+      '@~@A^WXFZ?TYt@Af@Qd@?HBDPDBRe@dASROBINMNANLh@@ZHl@NZMVCXBLYb@El@Pj@CNMHCHONMBMII?MJSDIFG?EECD?TC' +
+      'FWLCDDz@Mt@?r@CBIME@CFKBY@QNG?Gs@CCG?g@x@c@RQPMRCP@VC~@@ZNp@@PKz@?NFL^NJ^?\\Ih@WLQTk@?CGOPM@EGE?G' +
+      'Dk@t@WUGCCE?q@BODEFMBy@Wy@KGGUEWOAEBSj@MHEEG?Qp@AjACLWOMAE@EF[lAQRSHKJGVWQC@]dAE@UGY]QB[\\IAMOa@A' +
+      'GH@JM`@Wb@Ij@Ax@Nd@?LBHL\\SXSIE?EDEPId@?JNn@CHSREN?`@FLAFOXWIYD_@LIPGBSRO@INB^YMMAQGEKCAS?[x@ODAF' +
+      'AV[IIQOIGi@EEKTi@ROLI@UGI?{@RK?IEIIIUU[m@[CG?OGGEQEBOVMIa@HKIAMLODWGQOEGMDO@]Cg@YYGMFgBPyAEGKAMd' +
+      '@QTM\\A\\Bf@Az@[r@I`@SVKDHYWEMZT`ADjAgAyBSq@KOm@eB]o@Ug@sBoDe@iA_@q@QS_Ao@EA]f@[^Qf@g@nBm@tAMk@k@y' +
+      '@KEWBGBGRQv@]VG?OYIAGBGFEx@INKJKFE?GCMe@GCIBCb@EBQUYASQKRE_@Ci@IAK@{@d@e@l@ONa@Xa@`@]f@GDOEY]k@a' +
+      'Am@iAWIC@K^c@x@Yd@Y`C{@j@IAm@u@GEE@EL?p@EF]mCIQg@c@QwBGSMMOGIF?MRmAAo@CGICG?YH@c@NoAASCWSWAQBWCE' +
+      'OJGANqAJa@JkADMH?F@DPA^KpBFPDMHa@LIAs@Do@AWBCLN@GMoA@MHAJFH@VNDXHJEe@EU_@e@CI?mBN}B@]A_@GKAKPqBd' +
+      '@wC|@}Ev@}BHMFm@EIDWp@sC@q@SL@KFQPYNc@Ta@F]NwAt@QHMV?HY@SP?h@NNPjAdC\\rA`@`DJ|B@r@GbBEt@SbAG|@Ch@' +
+      'AnASjDE\\c@jBHh@@XKNGII|@Ap@Mz@BTO`AM\\U\\MOKhBAdBDQBk@T{@NFPm@Na@D?F_ANGDFFGPuAHJFTBV@K?[PmBRy@b@y' +
+      '@PSF?H@r@^HNJXl@s@b@YNET?FWHP\\AV_@Ns@@[Ek@F]\\eA^]DMPwBPoA@MOg@KaAOSK@WNUDOh@D|@AZETOZg@t@K\\GFKHQ' +
+      '??WI[c@QCs@NmAl@_BDUAy@DEFSNeBZgBAe@OMECOi@A[Bi@CEWJSRKZy@bASH]M]eBQc@Wc@EQEy@SoA[}@i@{@IY?SF[J]' +
+      '@}BP_ALSNRH@Gg@BSXu@SGWHc@WMQe@c@YH[@KDSTMj@Cj@MLMCUKm@c@aAc@MAGBGCSDODw@xCEFEDA[XsB@WGuDDwALiAd' +
+      '@u@~@gBVAPfFv@tBLFJGLg@PsAf@e@RYFU@}@Fe@CKU}DI_@MIm@Ka@[YDWyCBc@II[b@EIHi@Cg@g@yCU{@a@yBAo@Gq@Oy' +
+      '@KiA@[L_@PTD[AOOu@IIELORCT?RWcAu@_F@iCBTFdBBLB?BWDIFNPJNLP_@RAJRCZDVDl@DHFDFmCEYCy@CQDOP_@C[a@KU' +
+      'm@Qu@As@Ko@AWDm@?eAHy@Bk@Q}@q@qCJMQUOqBA[F?LIHUT]H\\LTb@@PcB?YIYCGICGCSLSE@s@EaAK]g@y@_@LFd@eA`AY' +
+      '`@KUGw@Yq@ES?UPuCBkDJqC\\eDPoATcANDCYL{@LoAHOFu@PcAJcABo@V]`@aBLQTuAPi@GYk@aAkA}@Aj@F^ARGVSb@a@n@' +
+      'c@HKJIl@I^UnBDRTJURO?SEa@S@[EOOQUPMAi@Qo@GS\\F~@CVODKQSQB^GHKY[]Y{B[sAY}@a@g@_@[kAk@w@i@y@eACk@?O' +
+      'BCDHDBBSCuA@aBCgD@WN}@Aa@FeARgAh@BZFr@VLJd@f@VPP\\Jj@PF\\i@^cBd@WZEfADJHVb@TKjAM|@ARHl@DL?TIRSHYTk' +
+      'AZgAPGHXXd@VXP@VGTBPNLVTfArBrCLb@Cz@f@c@N@Af@Pt@HXDj@ObAIECEMq@ATHZ@^Md@MZCLFZCfB@ZDLLOZSLk@Dy@N' +
+      'w@JgAEaD@i@Di@NeA?]Oq@m@S{@yEYw@SQo@UOQw@wBOQYCQ@OF]TOVWVo@QQSUkBG}AOgBAi@@[N]VYb@iAXY\\CjA@^LZoA' +
+      'HSBQ@k@EyDGNAv@U`E_@LSCc@YEQGo@k@P]Xu@X?b@KZ_@fCW`CAvA@ZVhADn@IxADjAE\\KHk@UOJW`@QRQCkAq@QUc@u@YY' +
+      'MDsArB]\\GLYfAIJqAsBKu@IiAGc@O}@Me@IKKG_@AYFMHe@j@G]?i@Hk@j@m@V@NKNQHFN\\d@^BV\\B^q@VDFHJZHCFELoAHk' +
+      'AB}BLe@IM@uBb@_BJq@Bi@GaBIK?d@DPANAXGRKRc@b@Iz@Bh@Aj@ShAGn@SvAIVORm@b@SmACyADe@^aB?m@MqAGGQPIVCn' +
+      '@Fx@GNOKA_@ESSo@Is@Cq@B{D^iBLgBJy@FKNGj@aCD]@sAI}A?i@@m@DWHWj@p@DJXtAD`@r@NVOLARJTTf@KECI@KE]e@g' +
+      '@[I]AYH[NGXATD`@TVb@LJVc@@S?WCEICWJMuAM_@YOk@^k@n@Ud@c@Ws@w@KCOF]d@GZEvACV]~@a@ZEPKz@Cf@A|@Eb@St' +
+      '@_@TKJICe@_@ONKp@MHMFYBIKK[IFICQwFAwICYEuCG_AFcAAiAQ_@McE?{@L[f@bCFv@Pr@HFTEJw@Li@PiACGk@tCGJMEM' +
+      'i@Gm@IsC[q@Ig@MfA_AdBGXGlAGb@Sc@Ek@@[DYNm@EaAQ`AMf@Mv@G|@C~@QQ@c@Q[ZyAGi@Kc@_@kAMIK`A?f@GBKQC_@J' +
+      'cB_@gDOk@SsB@y@YuBKaD?_BMiAEoBEe@M}DKgBIQF|AGVJ`@Kj@BJDH@NARMDSUH[M]?SHy@Ie@Cs@@qAGKF}AE_A?k@DcA' +
+      'D_@LPVbABQKg@OqBBQRRGkAQaAA[H]I[IEAq@GSU_CJiBLiANi@b@`@H^?SAMWo@i@DSf@G^g@bCEMFmCCgA@kAIgBHk@?q@' +
+      'Fy@IOI|A@h@EL[a@OPGPO@QOGe@MUSm@}@yEWgBAg@@m@SyA?a@N}BJ]FeABoAFc@FQJOF`ATbAL~AFtBDV?_HRM?UGaAAe@' +
+      'FiACM?_@FcAJ]f@`B^z@Cp@NE?s@D]GaA@{AASIc@QIKOC]Ba@?y@EqCFyBIaBF_CDw@Li@Be@V{@R\\Gg@C_@J_A^KDKJKNZ' +
+      'A_@Im@KSM^CS@c@Z_@j@YE{@JA^VTXBH@NKEGHCNCr@[bBAXBHPw@`@m@Ig@@ONWDg@Ha@^Tt@jC`@pCT~@NpBTpANdBP^Jj' +
+      'AJMPRNz@JtAbAnDLtA?bBDRh@jAHTB`BdAdBVx@Jp@As@I}@UgAIQKIISEa@G}BBs@AkAMq@Ew@GMAm@KeBCOQ_@F}@Ck@_@' +
+      'qBKcAGSI\\H`ABz@AbACFKFYg@Ki@Ec@N_DUMBsAJ~@PMHSNoAFeA?q@GmACMMOWRHe@L]d@o@LJVf@LWFi@z@BTRFVLVJEFE' +
+      'LWBgAAGQpAMNWg@YWOGQBQi@EWEb@I`@MDEeAIg@EwCQgBBgFNaD@cFHsABGFEB~APNVIXiBJ}AN_A?iDFoAEgA?mA@YJ]Be' +
+      'BEi@CBGl@IEAQLkA@_@I[[_@EKCS_@n@IBEFS@USEOF}@Ok@GiA?]Fs@d@cDLBScCFQPPDEJs@Sy@SUCOLmCDi@JOFUB[JB@' +
+      'aAL{@HBDG?e@LHZxADsAPi@NCTvAFb@Bh@DY@qBH_@VY\\?NX@dAa@xAKv@WnABLRUJe@^aAbAmBEYGOKEMDDQb@q@?j@Dx@H' +
+      'TJO@k@NQT_@v@iAHs@Vs@Js@?YMQBMZMHW@[EUK_@MYg@i@S[GYIHKAy@m@s@aAEQ^]^aAV{@Js@HqAAwBMUKi@CcAMg@CaA' +
+      '@g@H_A\\mCJe@JUPm@Ny@AIEBKXEa@ECCKCm@InAIAEKMKGMEU?QFg@O]@ULm@Vg@?UI}@?gAMH[p@e@EG`@Cd@Iw@]i@GcAC' +
+      'JCdBBTHN?p@a@F[aAEY@iDEs@MiAGRQ@W~@IK?SDcBLi@LkBBcHD_@D}BDs@F}BDy@Fk@DiADa@P@AxCEr@A|@BVLd@Fl@@d' +
+      '@LWBc@QqBGwH@m@HBVh@Nf@Px@?Te@m@?b@Qx@BHZHHSN?HdAGbADBHEB@NNFQ@UIyBKu@U{@w@gBQo@GYAa@DaEJoBPkBLu' +
+      '@Re@FGHCJZ@vBDl@FPHFBIDiBJgAPg@AkBLMJZ^tAG[UqC@c@NuALc@f@aAF`A\\uCAy@GcC?cAQyBK{BAqBKy@DwHDuBRcC\\' +
+      'aCZkAFMRUf@SPDJPNJPAVTPSHy@L{BHa@\\CXIl@KJSJa@NEp@h@Tt@Co@QYa@[EYIK_@?[NS?OK_@qAMk@Gg@EqBGs@D{@Ai' +
+      '@Go@Bi@TeADyFDk@HuDo@sC@m@DQNSFSXOb@MDW@a@LgANgA^UXe@GyDi@{AS?WVY^e@ZIrAIGM_@U[OCa@DDwCNoCDuBH}@' +
+      'Je@Fk@SMEQJy@Bk@AiAB}A?cBG{A?a@Fe@P{@VgBF{ATkBHeBJqADKLGD_Ap@wBDYlW?F`@Tb@Rf@Fz@\\xADb@Ml@IjBK`@]' +
+      'n@CPKLMz@Fr@Eh@BLF{@A{@BSZc@HLBNKn@@t@CXShAVv@JjA?z@RlB?]MoA?m@EeAGc@Og@@UHOZSJXHNQiAHk@?UQi@IcA' +
+      'DO`@JXCZs@Ns@?SAOOEIMR]XSVDDO@WXG`@GJx@FE@c@FKNFFA@KIIM@EAZYH?LUP{@FKLCBNHLLGJOBYPKN?NPRd@FTLHN@' +
+      '?LGPe@zDEfAChAQCIIGB?FDF?PGN@LPHD?DGFc@DDHzARr@JT`@lCHb@D`@LNPlAANNTHR?j@B\\V~@Gf@|@`B?LKf@DHJELM' +
+      'BFCZ@FHAJVBb@HFJEJb@NZJ\\BP?RTn@h@jBB\\Ld@PBNNh@PNLCf@O`@EHIDM@k@t@WbAGHFvA?VEh@B~@JlAFVJnARt@fAdB' +
+      'NV@J@NYHUEQKm@OMG?`@Vn@VfAD^NXDf@^BNHBJ?TELYTKZAP@J^t@OCKj@?X@FHHZv@JHLFd@Hj@?`@d@CLDLRKDDHVZh@P' +
+      'd@r@|@hAb@^OP_@Hi@JBIOYII[?KTsAHQRBHBNNf@`AVBZIj@BLAHIFMCY@WFQXBTKj@Gd@x@@NEXa@h@SOMc@IQMK@RDJAh' +
+      '@Pb@ZGXjAFJp@`@b@Z^JZA\\ILGZc@TOZCJX^n@@R?bAO^Bf@F^Tp@Zl@Rj@JJVPl@NTEVORHL?RS\\C?LSb@Ad@VvALd@Zf@C' +
+      'LOFGLBRLFFYHIb@NJH`@CN@NDh@Xv@l@f@v@Nd@HRLFf@x@f@dAFR]FUFOXMBQBwA@{AT[@WZWNWF[@qC\\e@HuBd@eAPaAJ]' +
+      '?wAOw@O}Bs@IGu@eBYg@[Wc@Y]DKHMTIOEUHo@Cm@k@k@D{@Eo@@KMIOYWo@[eASa@QSe@w@aAs@s@cB_@g@I_@E]k@gAc@m' +
+      '@W}@OQe@]IMMg@WwAWs@CkAIWMo@U\\OKYu@SWOFG`@c@OM[_@Ic@?o@[KOW}@?MFk@Bm@FQGCGBAM@[GBEdAIr@Uj@E\\@^\\x' +
+      'DPNPITZTFRA^TR@Hg@FIX`@DRKLUJ?TBDFB?PCR@VVf@rBdFLVZ\\@x@R|@e@Ke@]Ed@Fb@LXCPa@_@_@Lq@w@UQ[MS@AXb@|' +
+      'BKHENSVCT@TLr@Ft@Aj@Jb@@NIt@?`AHRLv@Vf@Nh@h@HVx@\\v@j@h@RXXx@`@zAv@lAj@ZH\\RBL?XVHK@KAQKk@PmAPg@PB' +
+      'NA?bAHVOn@DPNVDn@GVSf@@`AVP@d@Zf@@JCp@O`@?ND^PLFlAAhAg@h@OmA@k@As@Ku@KPAL@^GZg@~@GXE~@BHPVBFAPGT' +
+      '@ZKe@Eh@IZAVWnB@j@DXRl@Z]Bx@KVNPNEE]DMPHBb@?n@]l@BlARb@Bb@S|A?n@Qr@DRh@`@Hj@EVYRGLGh@DtEEfA?p@Ld' +
+      'AE`AXxBPp@\\z@p@v@R\\Vp@TfAVf@PTbAb@JHVxAZZFJHb@RTDJLt@`@h@V|@bAvAFFPFLLx@jADVZd@v@tBT`ALT^`@d@tAH' +
+      'h@`@v@RHTI\\uBEmAAoBJCT?RHx@FXHXGBOKQAYD[i@SEPMNIISo@?y@V^J`@L[J[Bk@HHDZ^XNh@HPDEAaBGi@Y{@c@YIW?E' +
+      '@GX?l@v@LFCg@EKc@]WGa@CUBMAOHCGRoADk@QmABOHM^_AHKd@Uh@cAT}@FCVg@F_@TCNLP\\Ox@?HHEZk@Ja@d@ARBVVJGd' +
+      '@_AVRZBJTXXTf@h@Pb@\\b@BJDd@Vp@FrAKHOD@Z\\N?LI^At@PTLRFL@JCDId@^p@HRJRTZn@PNT^P\\r@f@p@`@~@pANJPD\\T' +
+      'f@HNXh@R~@bATNb@r@p@v@j@dAPJRX^\\\\h@TFLLH\\LVnAbALFL@Zj@^XRh@Zl@p@hBP\\Vz@?VLr@J`@CRQJBZQ\\@XGRDb@gA' +
+      'GMDLNVf@BN?NMEUUCLHZHNf@h@b@VHRLHLNCXBNGd@@HZWd@R',
+    'cnL~cb@LoA?YPe@LqALc@R]Oh@LAFINyAF[FILEHFC[IWGJ[rAIPDWb@qBJ]BJFHBICc@BUFYJs@vAwHNGNMLAPZAk@M]DOJ' +
+      'MNBLJT@PKNSZAHRTHBo@Jc@f@UACS_@CWPM\\F?GOWWWKJENCb@GRIDKa@QI_@NGJCXGJAb@ADE?CeCEg@De@FaAB@BHNRFBJ' +
+      '@@QCQIHK@CGAGFQBS@_A?QCEEJIrAE@DmAJeA?o@Fm@Tm@Zi@Pi@Jk@h@{ALXIo@@KBILKDH@eABUNIJRE`@B^Nn@LZFBTCH' +
+      'BFTG`AEVUr@AFBDP]La@NOFH@LEz@DvAAFE@G~@GFIVCv@@JLk@Ti@HL?e@BCXJBFDdABQ?e@DQLMNANd@Jd@DpADLD@CO@S' +
+      'FSD@DPDBFED@PqALSFABB?bAIBGDETBHZELPB\\AVKRK?EMSBJJVh@?XQt@e@~@Op@Q|ABj@Eb@EF_@hAG@KEWDWJW`@[`E@T' +
+      'R~@@h@?lCIRIBUEG?Kb@KTOPQJAODUUKOSWKO?FNVZHV@HIb@W@CDBFF@B\\LCJ@BP@d@IL^RV@RKTw@HOLEH@X`@\\VHJVz@',
+    'ixNogHF{AAcA@i@Po@P?G`CQr@?LBTHPBRJT?^HX?`AP`@BhAENKFEHD`AK`BAn@Gi@UoIKk@EaA',
+    'yxNgyHB]?iA`@aC?[HUPlBJd@@fCDvADPFGHf@@hCBPHXDw@JIHD?b@Gj@PT@NEj@Fl@@f@ETGQKs@EPAp@Bf@FR@dAKZCTG' +
+      'Rg@kEEo@GcBJk@A}AGSS?IFUQIu@I{B',
+    'o{MqfLX~BXhDr@rKHvBLbABt@\\bETxA?r@FTJRJh@Pj@@J?b@Hf@FFBi@HIZrA@`AHBFGBBDN?LOfABJVDFHBJDTGnAFDFKX' +
+      'SJFRb@VdCFALMHCFDFNA^I\\AZDBJc@PMHNT`AX^JbA@f@IlAA`BEt@Kt@?n@Df@Lt@Y`@KM_@fAMNa@}BCq@Ye@Se@m@_ACO' +
+      'KoCGd@?f@CPMNa@aAS}@Kw@I^@bAKZEFE@IUCW?WHm@FS?O[}@GHIBCEEq@FgBUSKMO}@MDKgAKm@Om@WgFQOE_@A_A@YDM?' +
+      '[IUUBIa@CiALsDC}@@e@MmBM{DSaBCq@MaAAm@ESOSKSMy@S_BGuAIu@BaBJ}AJi@Na@NMRNFGVbA`@nA',
+    'eiMwxIF}A@eAJy@JDTh@HBLCJBFHBF?r@BRRBLNBb@DFHCFJH?DELAPWFBLRPDNLLa@b@]b@g@^k@n@qAb@wAHc@PqAJ[L`@' +
+      'Bd@D@BRKbBOZ?VBXDOBOL[BJ@JSz@FHE\\BD@TCPG?ABB~BAb@Kj@DFD@QnAG~AKbAEQA[GAIDI?GOBe@KDAQDa@AMOt@Sz@E' +
+      'EAh@KPOAIOAFHzAI`BHn@@n@AXOj@ONYLI@SA[[Mm@AOBgAM_@III_@QQI?GGMUGFOSAn@K\\ECCEUaAC{AIVYJIAEIIUEw@E' +
+      'U@yAUyBD}@',
+    'wyNizQHEFYDMVcC@w@DYFGJ@H~BFTLNFQ^a@BYNp@ThOHl@LzA?j@Q`CO~CGTIxAQTWiAIgCQq@O]Qw@B`BAb@ECKSKm@KYG' +
+      'y@Aw@SoFIk@OSA_CBSHODi@Nw@',
+    '_tNmaRLm@LWBTFRJHHXLFBKQk@Ie@Di@AOM]KDEKAMDiCNq@Fw@HYLUFZTZVDHHNCJFFZ?\\Ej@BXJw@Rg@D{@ZUX`B@zBDpA' +
+      'EdA@^CbAG|@K~@KVEzABlBARQ`@?PH|@GbAGZABI@EZQ^QRIzAA`BGf@YaAMyAYqAUQMiAQu@Ly@Ok@@cCM}G',
+    'inN_bSLPLFt@bAEc@[q@IUAq@Km@CiADWTa@HgAFEFDFc@Cq@Fs@PWJINEPD\\~A@PAj@Bj@LrB?nCLf@AXCHDzGH^PbBNzA@' +
+      'l@CdAKh@G]SUIYUcAYSS[UCM[GQAU@aACHQFE?IGGYOGCBGSGIEUCm@KCGECo@Tc@?o@ILK?GGCK?WFmAJq@DKD^',
+    '}xMijZBSAWBWTUDIDU?_@CMIIa@@KCEGc@cBDq@h@oCFi@Ds@Bs@IcBt@yHJSFbALj@HLR_@`@~AFd@Bf@GlA?n@Gj@]dAMP' +
+      'UDQGEYKUECIJAlADn@Dj@f@KLIr@sADOFm@Pg@RdAH|@Eb@Sd@GT@n@JvALnEUdB?N@LHJJFPNJRDT?VGl@SzCM`@[n@Il@K' +
+      'l@Wj@EFK@GEB}@g@Ng@KEQBeAKTQROWGgAQm@Ak@MmA?SPe@^}B',
+    'avMot[@s@OwADyDBOHALHDW@{@Ee@FmEVsAK_@?Yj@`@BLHp@N`BBn@?lBEtCEh@YzAG`BUvAQlBSEQOa@c@CSLi@N?',
+    '}rIg{Zp@k@H?XHNBLEBBpBcAr@MdA@XHFLPDt@@XEh@STAHCJSHG`@AHMrCg@l@OjAm@n@QTKn@MXMXQb@s@HCb@?GF[HMNc' +
+      '@r@[\\GNKl@?PBdADZJZPLd@JhDnAd@BZAf@UPOJWLMRMj@Oh@YC_@BMFE`@Kj@GXL^HFDe@@[HWBOLEl@Cj@SZAHBJJRNNf@' +
+      'Rt@P`@XQVwAXo@EcA]UEi@Jo@@k@UQMUEw@He@Ra@XSFaA_@m@Is@MaCAQ@g@LW?]Ek@Uk@?i@VQNk@x@AIGGKPOHcA@QCg@' +
+      'Wm@Iq@CSDg@@ICMWGa@Pc@?SGUQIILKGCYKAAH]MOF}@`A?i@CMKIKC',
+    'c~L_db@lB?@VNl@BbBJfAm@^KIM]IKQeAY}@Ca@I_@',
+    'c~L~cb@G}@@wAE[JeCN{@La@TmABIFEHBRz@HlCN|BBdAIj@Ct@',
+    'kvKy~EFGJAFDFABJOR?JEJKDCI@EGW',
+    '{_L}iG@DGf@GBAACOBOFK',
+    '_}LsiIVa@?MDIHCPZFBHM@RG@GJK^MHMd@@VEZAFG@GKEi@@UBUG??I',
+    '_tIgy_@HGw@tBMH?MJODWNa@',
+    'syLok^@LAZELOA@WFO',
+    'smLep^?HSGGRGb@EFQ@YEONKEMi@Se@HUP@JLD`@FBr@IPSHCF@',
+    'wzMoz\\DPIl@EOE_@FK',
+    'c~Mec\\@tCEIMu@EiCDZLJ',
+    '}}Lg}YPp@ARI\\Bf@Gb@EBEMC]AkBHU',
+    'igNc`THPBXGZ?bAGrBE_@CeE',
+    '{}M_~TL]FEDLDB?FEZKPA\\Ob@@}@CU',
+    'w{MizQBOFBARBZD?JHGd@?r@E`@ChAIAEKFi@Gg@BgAEW',
+    'm`NwxQFLAVBl@Gb@?pAG]GuAUgCNEJX',
+    'maNmnP@h@I^GKEOAcADKDB',
+    'mfMsqM@BWzAGNIGGKCi@B}@Ho@Dj@JPFABG',
+    'cjM}vMD`@IGKe@EgABWPj@',
+    '}mMeiOBH@PGp@AbAGOCq@DgADU',
+    'qqL{cLPNA^ELSc@@W',
+    '{wL__LFACHGLKFUBGI?CL?',
+    's~KstL@`@Of@]b@EE@{@Fw@RBDIHH',
+    'msNywH@NOjACDM_A@iAHMJp@',
+    'srNi`IBC?bEKfAKkAAi@Gs@F_AJBBQ',
+    'qyNg|H?n@ETGFAQEKAM?YB_@FMF^',
+    'utNwyIFx@?ZELMs@Dg@',
+    '}uNcsIHZK|ACGAIE?CFICLiBFE',
+    'wrNatJFfAMpAIEOuBFs@PU',
+    'oyNkmJH[JKDOLEHL@j@@dAEdASd@EdASd@Eg@Bq@QmAJ{A',
+    'i{G{jHB@QHK?EERG',
+    'moLeyHRAFJ@JKBCHL`@NNTj@VlC@n@Ol@YXSDm@GOSQi@Ii@CW?u@p@{D',
+    'kwNakKAhAU~AEMWgBEeEGMMGKSEu@?k@JiANi@HBFAFMTvAJxA',
+    'wsNgiJB^GpACJEH[LG?EDM`@CMDwGFaBNw@BhDBVHAHF?P',
+    'exNqcKFKJFHNJDDnAHNF|@Nn@A`AKvAFjABp@M|@CDIBICQOUg@CYAiA@[FIEkBK{CBcB',
+    '}xNc}JB|@EdBEr@EQMwAAmDHUFR',
+    'ctNomI?pDCNAh@IXK}AEGIYAcA@[DCH[HgAFL@X',
+    'euNwcJDGX?HHHABPA|CAlACPIk@GMWBCG@}BEIAm@',
+    'u|NihJFID_@BsAFWDd@BdBLIHUHTJzAS|BL|@A\\G`@D|AG\\ORC}@DkAQo@E_AWiA?u@EgA',
+    '_zN_uIRuCAkCD{@PwAV{CDTRxCD`B?tAAb@K`@IrA@xACHCPEzAKBEe@?YQIWi@',
+    'a}NylK@VA`CC|@EHCpAEa@AeBDwDFM',
+    'w}NkkJB`ACJOME_@C_FB]HHB?',
+    '_qNgbQ?hBU|AIz@Mp@MJI_@Ce@?uCHsAJqDD_APf@VdC',
+    'czNi{PNdAIvFKNGa@DyG',
+    'omMipZNbB?ROl@c@NKQCUA_CDSDGFCVH',
+    '{lMuwZRyAl@kCTWh@EBF@r@CdAAbBEh@EhBOrAKfB@t@NfA?T?ZKPKiCOi@k@y@Qg@GiD',
+    'ivMupYDh@Ax@MCGKOKKDMCKGMOFQLKFINu@Pd@DBHK',
+    '}lMgrYDNILY`AKPOl@I@Do@XqARk@',
+    'iwIc}YFQA[DGFTPNNDDDXn@@Jc@XGLNd@?FSGUUCKc@[PaA',
+    '{qLo``@@v@QpBIf@YfAECEIOg@E[A_@ZkEHIH@@PFDXH',
+    'gmJu}^P^GFE?K]_@]YKODQwAY_A@ITKZENFHbAR~@',
+    'wuIqp_@\\@OVKJANS\\QTIFK@INSn@COGSFeALHLC^]JOFS',
+    'esHqf]FRCRQ?u@i@BOJBRNVE',
+    's{Hqp]DFAFKXEDIGOa@?OBEP@',
+    'kyHom]RXBb@DPTVCTEHW?IFGC@UOSEq@OQg@UOWASRCTBTH',
+    '}oH_b]HFEHKSMGAMBEDB',
+    's|Hyk]@RKLG@CSBMLA',
+    'oiH{{\\HHCJOQ',
+    'cdH_u\\Tb@?LKFC_@o@y@EM?K',
+    'g|Gqf\\H\\?Pq@k@GY[_@c@eAAG?g@f@~@NDN\\DRFL',
+    'gzGw_\\Ld@D\\\\p@NRDXCVFFH@HH^p@XRBTXf@UEKGQa@UAQSQc@UYESSUGUM@OI?GVSCs@g@y@GQAMBGBCNDHGFH',
+    'kpG}s[BDCLMAIi@DIDC',
+    'cuGyp[N]Ci@LHANRZ@XBJ\\f@HBTVPb@d@FOTM@KEYi@MOKCKOKGCIm@a@',
+    '_pMucUXXDLFh@Tf@MfCKd@It@OZC[@o@EM[KCOToF',
+    'ypNq{MDWCSNqDDe@DG@zDI@Ab@E|@KRCS',
+    'ixNesNFxDGVMYGUAuBB}AB]JP',
+    '{gMuxLHx@Ar@BNGVIAGKIE[BO]Gg@GuBBOHi@NWPo@HGJ@HpC',
+    'ybMedN@~ACn@CFIEMq@IUOWKg@?a@NiBHMBAJh@DZNl@',
+    'oeM{oN@LGlBId@IJGEi@cBJg@JIJY\\?',
+    'kvMq`OLI@`@PLALKHF^K`@EDOi@FY?QQBCs@',
+    'ctLyxJHER?JFFj@Ed@Bj@C`@CJI?ONIfAFZAH_@t@k@h@IIG_@MUEs@\\kATi@P_APi@Jk@',
+    'oxI_bCRRf@t@L{@@UEe@c@E]AA_@DKFUR_AFe@?cBPKFUJQD?v@ZL@XO?tBKfKGxBO_@QSWOa@EG[@y@IWS_@e@k@',
+  ],
+  RW: [
+    'tG{wDIo@@EREBICKOU{@s@?]@DH@NG^WDOJIRIXC^BVALGRCf@HDLAHF\\CNMLFb@JP@BO\\?F~@FJBHPBNB|@CFWHIRCR?FVH' +
+      'GPIBO@SDICa@m@ECMCu@BGAg@YSOAIS[',
+  ],
+  SA: [
+    's}CseF?B]^Md@GDIEHCBGJ_@\\i@',
+    'mgBmeG?MIDGEPUZ@SPBTEJSRMBGOKCIB@KHE^AD@',
+    'wuB{cIjAlPF\\rAlDlCtBbAZVd@FT?^_Ap@FrAMxCCXQ`@CP?nADf@Af@@d@DN?LHPEJ@JEPSTEJCVJVRTF?HIDBFJr@FPCFG' +
+      'V@DJTNb@l@O@WJO?QDKHMRQ@QJMP[Jc@Dm@p@i@z@YPq@\\e@Nm@f@Q@}@RqAh@KJSJSDMZa@Zw@nACf@S\\YVk@Vm@j@cAb@W' +
+      'KQ?gA^]Ea@Ae@Kg@DUJMAELOJ?Ka@Z[FUHs@`@]Ng@`@]d@KVKJARQTA`@aAf@g@^[Qe@H[LeAl@U^]J[BK^aBt@c@^UJe@b' +
+      '@e@Pa@b@{@^}@n@IRGfALRQ?UKq@Si@C}B]^uEAI{@qAaAk@GIYoC}@_@GG]}@eBbB_BfBeBoKAGW[d@uFjDuIrB{CbGmJZm' +
+      'IGa@TsD\\Qh@KRQAyCPKRCj@U`@]JERCNDPSZcAHLr@o@DYd@c@Xs@`@a@GVBB\\CV_@REh@LCH@Lr@SPKZIHG\\c@TIj@Iz@q@' +
+      'TIPMBG?WGc@FM?MFAHHZJHs@^?HCdFaE|@{NOQjCyAnKbC~DzP',
+    'u_DwcF@@GHMAGEH?JC',
+  ],
+  SB: [
+    'dt@ae^@HMRIACGDIFA',
+    '|gAir_@@VQJCG@MHA',
+    'fbAim_@B^LLANIDE??IKCEIAUBU@EJD',
+    'vhAsj^DLCLCHOFINCVIJAPGBMCBOt@{A',
+    'd{@up^Z?OLDFGDa@A_@JBI',
+    '~w@}a^AVEDKGEIFSJ?',
+    'fw@ah^@OX_@FFCL@BIDGN?JI@',
+    'nr@_y]NMd@MJB?HF@QLCRIJc@DAJ@\\JHCLI@IAIQKCWQAKFU^AHG',
+    'bv@w{]@BGDUKVG',
+    'fu@e{]NRCLMJUECKEEHYHJFE',
+    'lu@uv]B?EJ[VGCS]HENDDDLB',
+    'np@ir]BBMJK?SRM@MKFOPOBQJBRN',
+    '`r@wq]D@YHSAACZG',
+    'tq@iu]@B?TUNM?MKCODIJGNAJ@',
+    'jk@_m]BREJOCGGLY',
+    'vu@gx]D?AHIXC@AYDG',
+    '|x@me^^k@AS?w@`@u@RKDMHGPEL`@G`@M^A~@C\\KPQNUJc@@GAGK',
+    'ht@gf^D?QXSRUz@KJ?HS\\K\\UTCHQPKPUDUTJu@VYLUHGJS@QLQ@OFKz@qANHHK',
+    'xl@iw]FEJNGRIB@NEZ[d@u@h@]f@GFO@EEDWVa@Xs@LM\\IHGV]DU',
+    '|r@uk^z@q@J@DDR@FC@MTW`@IJIX?`@UNAF@CHg@XO\\GBU\\g@RcATOIa@VGA@QCA',
+    '|_Awq^JWAMFUEOJKf@YL?FO@LCRBNGNEXGV]p@O?EFS@EP?TI?OC@MDQXm@',
+  ],
+  SC: [
+    'h\\czIR?GFIBQRIO',
+  ],
+  SD: [
+    'cz@_tE?d@IBW?QE[KO@UAYHiAxASNSp@SGwCROIq@Cg@IOA?~AN?XC?dC~@u@jA?JCZKB?D@nA~Ab@NRJ^ZrAtADL@~@DLq@' +
+      'v@{@~Aj@nAZ?LFNPHl@FVPZXZL@JC?~CIHk@V@NCpCBRPh@BRITwAjAOTMJINED]?KDAJRfBALFZHHb@BLF\\ZLFn@?ZTh@B`' +
+      '@RVBNl@FPRJGl@Cn@GRIFWAIJKDKA]YOCiAGU@i@RgAn@gAdAa@Ru@OO?OBILALUZKHQD_ACGBCLCBKAaAPQEULIVFl@ALCH' +
+      'QHMA[MUOUa@IGKE[@MBe@PM?UKk@cAEEG@ON_@BUHOQK_@EGYA]O_@a@OEMAk@FSOMSAeAG[@UFo@CCKAkY??gEoK?@}e@AI' +
+      'e@SAG@KFE\\J?_a@l@Ab@Ir@]ZYNIL?GFCLV@p@E`@K^Fv@?`AMh@@`BUt@ULKDMDYXe@\\_@^WGOLI\\o@LGJPVRRH^\\DVALL`' +
+      '@@JPZHTDFb@JHFBn@C^d@FLAb@P~@C|@Rd@NLH~A^VPlDQt@N\\Ah@JfAb@b@H`AFD@Fx@DPFJNLrBdAZZjB\\VAf@FR?RT@HY' +
+      'f@PZXPXLv@GJ?LBt@XVFj@F',
+  ],
+  SE: [
+    'ohJevBDNLFDXl@DNWFXFFNFF^FJLPTHHP@RQKMOINOHKHMGUBUAg@u@MYEc@DOMGCKBK',
+    'y~IifBHH?HMDa@@QC}@k@CSe@YOG]SCEBQFLLAl@b@ZFFJ',
+    '_pJefAXOBMGSQMu@Q{@VU_@_@QEKCc@KW[g@g@EGESGSDcAp@U@Ga@Ai@AEUKIKYISVQ`@ER]`AyAYUA}@b@YCg@DOUQNg@Z' +
+      'g@i@UFMYu@gAKYIg@Ci@JwC_@c@QAYDMFWtAiA{Ak@o@QOGIeAM[QK?w@RGcBOaAKWc@LK[k@aAi@eAO_@QGSNc@l@OKGu@O' +
+      'Yu@g@YkAM_@XuB_@g@MKu@DKAEk@JmA@w@XwDWu@Kt@Mc@KQOOSEI@Wj@CcBJw@LCNs@To@DI`@iB\\iDTq@VO@[FGLULa@B@' +
+      'JXL@RAPGPLJ@Fu@PIJVFDH@HCJGd@s@LIDHLFXDLRDLRDXEJIF_@PQp@]Dr@If@BRBhAHVIb@O`@JX@NILALBDHDFH\\FA^DA' +
+      'DIBJ?`@BBFIHLBf@ATBFD@DCDMF??FKV?FFELSHGD@VZXl@LJP[b@UNYNHNh@Vn@|@r@FNJl@HNJ^Hz@LXNJ?LI\\P?KZHLNH' +
+      'Tf@Cj@BDBK@ADp@VNDd@DD@e@PFHh@JN?RIC@ZKFBDFATOJLBE@ODEBPNV?THL?NK^HDD@PKNSDSBLFHz@XPCRMAXEZJCPPT' +
+      'ENBBGHCDFDCr@EF@ZOTDJU?g@@EPM?OIk@NIR]HQB]P_@RDDMFe@Z[TKLBRp@PZPn@FJBJAJLd@DA@]AOGK?WGWBIJKFV?NT' +
+      'HLNHd@Rt@ALHPJh@NTLp@JVAbCBT@UDMAQB}@R[DTD`@j@WHLn@?@RRHHGV@LELGLB`@\\L?VIfAb@VXPLv@\\HNFPKf@Fz@Cv' +
+      '@@t@DJRE@REPL^PZJHR@f@[X^@RGt@N`BKtAMIi@GK@KDMRs@p@ULGH?GJg@EQc@ZAg@MKSFG^_@\\Q\\_At@k@RBPc@LM@G\\q' +
+      '@DE\\WRk@BGR@NUCg@He@@IFMBKCECAU',
+    '_iJwvBJBAHGHMS?[BI',
+    '}oJcrB@LMIAO',
+    'urJgsBDDGBICCI@OHN',
+  ],
+  SG: [
+    'iGyhSJ\\K`@QIEWJ[BG',
+  ],
+  SI: [
+    'saHgfBEf@HNPABB?^JLDLNx@JHDAJMLAVDDBDb@L`@@@LQFLD@TKDRAXI\\@JBHAJQZGFGBAB@DZTDJ?v@ER@BB?DFBHIt@GD' +
+      'M[@KESMHOTIZC@YGC@@PCBI?QYIAGb@@DIFKCIOQg@KCR_DBIGIK_@OOEIEaA@k@CUIOAYDg@ECQ?KU?e@DETEFIF@VW',
+  ],
+  SK: [
+    'uqH{kCFB^Xb@PV^^@BBHbAAH]^IT?LFb@?XGf@?l@B\\l@^`@tAQt@@LHJHDFf@BfAHVJFH?FEJHDrBAlAGXc@|@AFAXEJGBW' +
+      'Re@TI?UOYISMKMCKDy@A[I[OYECG[EEUEOIOi@IISc@?]CO@URE?c@USQe@d@e@F[RCLD@GEWF[QIIIKg@As@BUFM@]CIOOA' +
+      'u@By@DMFc@FOPIXyA',
+  ],
+  SL: [
+    '_t@f_A`@FVFDDDXJH|@NBFf@d@Zh@`@b@ZTZLFJc@j@Qf@i@nBIAUIWNOE?DHJCXMNELGDy@NIJCXWHQLKA@KFG@OSQIOICE' +
+      '@HHCZFD@JWH[CC[CACPQVKBCIBUIS_@MGYMM{@a@EE_@KGME]H[Gk@MAA_CBKZQHMt@e@h@a@H?ZJB?F[d@Ab@SD?XXd@NBC' +
+      '?YGKWSAG',
+    'om@hmAD@KLSbAISCm@JUHA',
+  ],
+  SM: [
+    'kqGamA@JIDGGAKFC',
+  ],
+  SN: [
+    'q{AvkA^Qd@FNK`@]l@?TKNBJJR@d@]NCFIAEKGBYNIVEZUF?HITDHAj@FD?HMN@Eb@Fn@AN?\\Lp@ATGJ?LMt@MPAFHNAHIBM' +
+      'CCBAJEtBAdHd@jAHr@Cz@BRLb@BRAZ@HWNKEOi@DSEAITKHVRBHIBG@ECgA?QUAcD_@CG]GiAEISIEGh@_BNm@De@QoAOCMB' +
+      'KX?`@Hb@ANW^If@U^Eb@B^J^ZNA~C@p@SDOJMRKBKGIQECF`@Q@WNe@POT_@PKPEP@LLBSPGWYs@iA}@wAu@e@Mc@CSGEGk@' +
+      'SOKCM@KDGBU?e@C]ISC[?a@CQIAACBGAEEE?EDE?[Aq@No@^i@TWH?JGHK@KEI?IFC@MCK?IFCFOPKVI\\GNIBMDEJE@E?KHK' +
+      'TMR?BIPMHOFWJOPILU',
+  ],
+  SO: [
+    'rIqbGQAGBkCjB_VBECgAgAeDsBUUKg@AYOuAMUOEWQOUi@yASyAHoDAEgGuFaJiJaH_EiJ?AWMaAUq@O}Ag@gAQKWUG]ZoA@' +
+      'M`@F\\Nb@Jp@GrAC`@HBFDB@EIYM?Lc@PCAVEJF`@HTPD`ADh@Fv@@d@XXHr@h@l@TTD|@d@n@p@z@Pd@P`@R|@j@h@ThA\\n@' +
+      'FdCnAlBpAxAr@hB|AfC|BbDdD^j@bBtDrAtBv@z@p@|@n@p@zDtDZRHJl@b@l@n@zAp@\\R',
+    'keA{pHhJ?`H~D?fEeEnQeAnAGZSPYPu@VITi@^KLa@Jm@Ve@Sa@]kBcA\\e@~@e@p@k@l@}@NWFUAmBi@oA]gAGWHg@@o@Hg@' +
+      'CSc@sAa@q@Ma@AOLm@E}@]sAEY?SJm@',
+  ],
+  SR: [
+    'o`@nqI`@`@b@VH?FBN@r@IRBn@KF@JKP@\\SX[ZO@CDCZB|@d@\\E`@DfAf@FNNJ@VEFOBCHBNADSPI@HP?VJ^HDDdAUl@BDTD' +
+      'PTF@BMf@_@\\BDDBJQtAOTE\\o@XUPM@MJUDEDSHURO?G@U@IHe@@E@?XB@@TGRY?_@b@UFi@^SDM?c@USCk@O]LKGGGGQEGA{' +
+      '@COECK?OSC?EDAFQFSKGAMIBCUGSAg@MIQHeBHm@Py@RGe@@MOEc@Fu@Gm@?_AN}AHk@HQPAT@TD',
+  ],
+  SS: [
+    'kYksEpApAHN@`@C`@U\\N^PbBRZNF@BQf@SHQPR`@BN?LUr@?L^j@ZPYNCJBTEDM?WH[|@eA`A]PURIXDNTNT`@?LKPGVCh@b' +
+      '@z@@JCJAVMTURMZGH[LMJW`@MHMFc@ZaAHSLKJk@fACVIPUJQDOLUFc@I[d@QNQHS\\u@dBSRQPG@QKMAQH_@d@a@^ITMhAEN' +
+      'ONQD]GGDCFSKGQOm@WCa@Si@C[Uo@?MG][MGc@CIICECU@MSgB@KJE\\?DEHOLKNUvAkAHUCSQi@CSBqCAOj@WHI?_DKBMAY[' +
+      'Q[GWIm@OQMG[?k@oAz@_Bp@w@EMA_AEMsAuA_@[SKc@OoA_BEAC?[JKBkA?_At@?eCYBO??_BN@f@Hp@BNHvCSRFRq@ROhAy' +
+      'AXIT@NAZJPDV?HC?e@zCCR@DBTV@`@ChA@XFHbBl@DAHMJ]PwA^m@ZWLALGl@i@Rg@VOV]fAYp@Wd@Cd@Sb@e@tExE',
+  ],
+  ST: [
+    'yHmm@DFCHG@SOFGD?',
+    'Wsh@LRCF_@HIAKIKSAKNKP?',
+  ],
+  SV: [
+    'cyAnmPJe@AIFKNKPYFCHSFGHg@XE?EQc@IWDMJGBICS@QHMDAx@JFID@JRTCRTBp@In@M`@?RNi@BDSfAg@pAOfBW`@KXQ?M' +
+      'I[c@AOEGSOKWUDGACEC_@',
+  ],
+  SY: [
+    'o_Fi_F@ON_@?CUIEIESa@EISA_@E?g@Ro@KOECEFw@JGHQ@gAs@wC@WDYZq@DO@uBK_AQcAc@uAQs@Aq@F}@Co@MkAIa@OUA' +
+      'EBMHGVIH@l@t@l@x@PhAHJNLTDf@Br@U`@Ah@TZDfBDbAf@FJJn@bDfIdBfEfCtFMxAU\\E^[RGLCRIAa@UIDQ@IE[JI?SEGI' +
+      'EAKQEAEJIDKESW?s@ACA@GNG?ECIIIUMMQKi@NGHEXA?SSIHCNHF?v@k@NS@U?_@Ig@F]Zw@O',
+  ],
+  SZ: [
+    'faDufEJUPA`@DLA`@K~@?EP@BdAJZCA`BKd@Yj@e@VYJ?LCB_@?]?IA}@m@WK[WQYAG@Gl@yAAI',
+  ],
+  TD: [
+    '{xB{tCfV?J@BBGn@ATFZ@dALRRNj@GL@ND^`@\\NX@DFJ^NPTI^CNOFADDj@bATJL?d@QLCZAJDHFT`@TNZLL@PIBI@MGm@HW' +
+      'TMPD`AQJ@BCBMFC~@BPEJIT[@MHMNCN?t@NOhATp@JN@VNLRf@LJf@AXPDRh@XDH?Pr@p@LDl@h@v@tA?t@JVHv@?fBDRHPL' +
+      'NDAVa@JIr@f@^^LVTF@DJzBBb@AT`@nATXLl@LL@De@f@WHPZPBTdAJLDTGhA]MW?CJGH}Ad@o@Zo@p@MXaAnAi@\\c@`@SDi' +
+      '@_@OS?[Dk@@o@Gy@De@Ak@IUOVu@p@WNa@Lg@Js@Fs@Ea@KSFi@?s@T_@Pm@D_@PMZQL_@DGJKj@?b@{BxAgC^q@e@cAa@{C' +
+      'oBgF{EuQs@yAm@_Ax@KN[HOM{A~@KLIFoA@wEd@yAgEfV_n@',
+  ],
+  TG: [
+    'ucAsDn@NFD~@BDAfAmBFAlAATER?NGZ]PEzCE|F?@RTIZCHBNCDG\\SXGH`@DAL|@JVI?EREFWLALW`@MDK@ADs@\\YCCGEA_A' +
+      'IGHAHGDU@c@UsABKAQQI?YLQZOJUHQWGAOF[Ay@KONAFJ\\EDEEI@EEEKCLC@EA?GCAo@E}@AICCHOTYXU\\QDa@OYCGBKJXmB' +
+      'FA?KEQ',
+  ],
+  TH: [
+    '_hAi`STBGJKCCC',
+    '}iAe_SB?AH?N[DEA@GTQ',
+    'kp@afRL@?FHJ]Fi@GECJEBOVD',
+    '_~BwpRJ?@CYYAIHIRKJK?EPCf@LXLTCRQHWCWCKGIESDg@DIJA^BVEVITAfAVb@VD?VQ\\?TDxAf@FIJ]CKk@o@a@w@KIOEGI' +
+      'BKEMQOGM@I\\g@LUBQDIJ?FC@G?CE@GIKQEQAQGKUGOKGICKECEDE?GGAO?WF[J_@DUEIRSnAu@VUPUJUPQ^Oj@Jf@Bl@Ab@M' +
+      'XYRONCLSHc@HOHFH?JEHKN_@FC`@BNHHJRBX?PGTCPDp@BJBTZN`@TR?FCDWDKd@JhAEb@Fp@An@IZPnAN`@TVNFj@ZVTJLD' +
+      'CHBBh@BBp@ARE`@SdAGRYZW`@F`@EjAe@@BMDWPWDe@^PJ[f@[NJDURQRKZIHIVLv@IdAHZEHMFSGi@?_@IUBYEEHKp@IJJJ' +
+      'D|@FTPRTDLKXGdAXbAIb@BVJTPd@FPLf@Rn@LVHh@B~@h@b@FLNHEP?xADREj@SZFJ]S_ABUb@OvAINE^[ACMANM^IdDa@h@' +
+      'QIRc@DODARE?KGO?IJFRX?RI|@i@DMCSd@g@Xm@Iw@@SFSTUv@e@l@{@JDN@VV^LFN?TCDOHEFVz@VLDNYXOAUQMAi@FCJ@V' +
+      'OHSDEDCFDPSv@YP@Nl@J}@p@Y`@m@CGH?LMH[IDLARELe@JKFSN?RIFWAMNSb@g@POVBNLDLHAJGJe@JW@m@Ag@Q_AGg@MMI' +
+      'w@MeA[o@MYASBIEi@m@e@a@cBy@OQQG}@PSJWD_@DOAe@d@[HO?MFMBYMu@@k@Dm@XSN}@fAyA~@a@Ha@BIAGGGSOW@QCCoA' +
+      '?w@EYm@KIUCGBEDT\\CDe@Li@Ta@@ODs@t@oBzAE@UGSBk@REAAD?NKL_@LB[Qm@E?}@FM?YQ[@e@EYSKMSECE@KLY?YAYMs@' +
+      '?_@EGKEc@EKICYFO?KGUEGGA_@HAAFc@AOAIOW?KFI',
+    's{@opRBBEDOH?KFE',
+    '}z@mpRJALDFPKDOACA?Q',
+    'wg@{mR?BODUGZI',
+    'qp@egR@@e@HHM',
+    'qw@meR@JQCAEJA',
+    'mn@gjRVCEDIDQA',
+  ],
+  TJ: [
+    'igFofLMGq@COG]]i@a@EKMIQIQAa@h@QHg@Fk@SGBEDCHAfAC@S@CBQx@C@m@OQUKc@NsB?_@SYg@I?QCEGCACDEEGSNGCC]' +
+      'CAE?CF@x@CBCAACG{@Dw@AGQHAOE?o@PCIIIO?IIEIDQPYBOm@sB[O?E@Gb@k@JBFUB?HFj@`AL@BEFYTM@IG}@H@Jh@HPND' +
+      'DBBNSL]~ARvANJLCD@@HKVHD^HPI\\CA_@G[BgAAc@CEFOG[AUDU\\WBMCi@OKCIC]MY?MHILBDI?WDKT?DIMi@?IZe@ACIGMM' +
+      'Gg@AODm@?o@AWM_@CO@_@j@BXORUDAD@DLJFn@UHMDSAKMGIK?]Jo@Pm@HKJEXLN?PCJITIRAJG`@H\\i@JCRTJVKJS`@@ZG`' +
+      '@@PNPRrAARCBECGMIAG@In@@RH`@Z|@RZZRHz@Nh@h@dA@LCLEJWLw@R}AOg@GKEI?CDDl@CFQ?_@I[LUh@G`@FZNVt@f@PT' +
+      'JRD@VKT@NJFLANIRAVBd@FZJLPBTENBPT@Di@|@AH@HHF@\\FDFPF^HPNFAHLZCTQXOJ',
+    '{~FqxL@DQL?CBIFE',
+    '{wF{xLDP?HQNDk@',
+  ],
+  TL: [
+    'zq@ipW`@LGLWU',
+    'lz@ulWYFQJO@CC?WMIO?GHJXADCBQ?OU]QKKMg@QuA?gAEyAOm@KWDQB_@HO^b@Zh@Jn@HRNNHTFh@Vj@@TDRV`AVf@',
+    'jy@gfWO_@Mo@VDRPBFA^?DGF',
+  ],
+  TM: [
+    'oqF}jIF@[J]BIE@GHD',
+    'gaG{|ID}CDq@QSSRqAHS[WWGKGQ?}@EW[UQCMQJq@DITMAMGAMJWXMXE@KUDk@CISKj@y@BIDm@DGVOFOBQ@qANYBCJDT@HD' +
+      'Ja@NODABBALDDJ?HGJCTLH?DCb@gAEsAJiA?QKKEUF]\\q@JIdA]ZQLUZOx@KJGVa@~AkDj@q@h@oAE]n@eAL_@Xs@z@iB@WG' +
+      'YDULg@Vk@Fc@HKD?ZR`ABTA?HKfA_@dAHNHFj@P@zATt@jCr@PHT\\Vt@FFH@@D?\\\\nB@`@DBZKFHd@Jd@hADNC\\BLJNCFKBG' +
+      'F]l@Br@ARENQVOL@PGBI@IEU@MFGJWKQ?SF[@[AMH?zC_Av@OT[lAMROPUDMFAJYz@EVD`@GRHV?FCXW\\IXMt@Ed@G`@C@S@' +
+      'GBIHGL@v@GZAR@l@JVPBBDChCHf@\\z@Vb@JHj@TDFZdBAt@aALs@DgAEm@@cAIQB]ZUDANQZEZ?LBLHFOFO?c@WHKBQAi@KB' +
+      'KTOBOAOEIPEpAPFXO[X[Ra@Hc@@y@UeAQ\\WLQFc@AQGS@Q\\]BUM_ADQ?S[JGIFc@G[CCKAWBWTa@|@MRQNqBp@EHCb@J`AAX' +
+      'Td@NLd@PJM|@HXE@@a@R_@Zq@V_@i@Wa@Qe@Ke@QwAEo@?e@H]f@qATc@HGTIdA{@^e@FUKmA',
+  ],
+  TN: [
+    'knE{fAnAHZ?VOHAJF`AdCJJP^F@PJJLD^DDXVPHtAYPCL@PDlA`A^hAoJ|AEDwAhC_@Dm@PYRED[~@GDQBgAb@UD]?SCIEWg' +
+      '@_@Q]w@a@Yq@EUEUOg@Lc@AM@]LM?cBSOHGPE?U_@YMM_@UBKo@_@o@EO]mBD]RJLIGKM@?i@FUb@@`@[NFHWKUQIIg@Yc@A' +
+      'SRERIDLRPp@`@L^RVJDN@\\EZOPSDQZk@N?RETAROh@^\\Pf@b@X\\f@bALNLJLBNAh@UV]L[Es@N@RCCc@SKLYd@KJUBAFLF[A' +
+      'K',
+    'exEoeAL^MEMUBC',
+    'wqEocADRIZ]C?c@NUDADH',
+  ],
+  TO: [
+    'hcCvea@?AECAID?RNGFKXIDGGD?@C@MDM@F',
+    'nsBd~`@JF?BKJMM?EBIB?',
+    'bdCdda@\\@SHII',
+  ],
+  TR: [
+    '{yFiaDDl@ELKME[AGJK',
+    'obGmbGP}@MS@y@Hs@EGQKCGAMDULEBQV]FQBCBDDAFK@]DMRCXc@h@QL@NFPRPID@d@SFFTu@@MEw@FUp@aARQ?FWd@FLJJp' +
+      '@LBH?j@BRLGPCNSN@LBJCPSZ@ZGZ@DADYBCNLTDTNXJDA@WXk@DEHFREV@N[LOBAHFN?CDCVf@`A?DMH]AIBINARP`@A^A^Y' +
+      'tAH\\I`@@DTRVb@BRWHIFCL@DNTH`@LjABn@G|@@p@Pr@b@tAPbAJ~@AtBEN[p@EXAVr@vCAfAIPKFGv@BDNDn@Jf@SD?@^HR' +
+      '`@DDRDHTH?BO^ANOM}@\\SMq@}@]@SXJ\\LRBJFNLFHND\\Mh@Qn@MXCTFRb@z@r@v@FLVr@F`@ANHbA?`@JZKp@O^QRc@\\OTOn' +
+      '@e@tAInACz@LLt@BNJZBFDDJM^J\\Nx@@RSbAKXONWBMJSBELHLANCRSl@Ab@VTFPBPG@OO@x@JZ?VENGAG_@C{@COQMO]EAB' +
+      'pBA~@FF?HS@II@MG_@Q@KVEBAPGLSBUHKNEAG]]CSBALMj@?JOLKXHRQp@GFQI?OMAWJKACK@MLOLCL@LG@EMEAEDGBQGo@G' +
+      'G?`@EJOL]NEEGWUSGP@HGJI?IGK?a@`@IEOSSSE@ALFdAFX@n@IBIAQKi@@WEEYc@a@g@s@?u@IUA_@NIJ]Aq@IWSVEG?SBW' +
+      'BAPL@EEaABcAAkAEGUr@Sa@CQQ_DC?I`BGRQZMLa@GGKAa@NwBIuAV{AEwAIS_@Uu@}B[i@Oo@OqAUaACSJaD?oBSq@D_@LH' +
+      'LARQJQRs@OgADYp@YPSLY@SMOCKAYNi@ROLgADcAN[L}AAc@Oy@QsBXkA@SAQFYCY]uAOYC[i@yA',
+    'ieGanDTBXK`@]P[j@yBBU`@JHFFb@S`BAVPp@C`@Fp@XL\\`@Xx@Jf@n@z@ZZHXYKU@Yg@Su@QMBtA?p@WLCMOMW]ICSB[?Si' +
+      '@AKICg@FEPMNCPIAEEE]WMCGCs@MYEm@@IXc@DKGY?[CEAI',
+  ],
+  TT: [
+    '{dAvzJ@HGAMQGc@JB',
+    'i~@h|JH^BtAE`@BXWo@IEEYu@EK@GBO\\EKAWGS?g@EQA_@`@TTANBPCLIJDP?',
+  ],
+  TZ: [
+    'pe@{uFj@MF@BNEDMDBFQL?LUJQE]BOOYGPIZA`@KHK',
+    't]cxFdA@XHHHENGBs@Ic@DBU',
+    'xy@wlEg@tAIJEh@KPCd@EBO?GR@\\STSDSb@?t@KT_@Zy@T_C|@WD[L_@RWR{@nA}@`@w@JKAe@UKAk@LgBf@OBK?mAO@_A]m' +
+      '@k@g@o@WMOIE[Ia@g@IBCCGIEUOCe@@CBALQr@CBI?YGIFi@SEEG]@IEMg@ISBMFW@_@CYBSHKHEN_@VOFIACG@OCMGMCM@y' +
+      'RxK{Uf@IJ@RHPBFSRIDGjE{GPBf@NP?xAZTLp@Pd@BZKVAXUFQJKVSXKLc@ZMRBPPXNb@Jt@?GGJSf@Al@Rf@Fv@OZUH@DDp' +
+      '@e@j@B`@OZEVGLAPJB[LOLG?SN[Ta@TMfA|AP`@HVBZJVNVH\\?b@Jd@b@|@Sb@EXBr@BF^HRRRd@D`@C\\GTKHCN?TFRLPF^A' +
+      'j@GTKBMPO`@AVX^BLCZ?zAWBMHGFANSF_@VG@a@I_@AOBUJw@@i@H{@f@e@l@GPJHR?@@?HKVALBl@AHQPCf@U^@D',
+    'zp@ewF@HIJi@q@OKN@`@L@L',
+  ],
+  UA: [
+    'ieHymF@DCdADx@\\f@?VF`@HVVZIR?XDXL\\@PC`@Hd@n@tAb@ZDJFLBTa@s@QAMJ`@`@Nh@V@NCTI\\Q?HK\\S@QR@n@QRGX@PC' +
+      'RSj@A\\L@HJF^M`@IJJr@AZH~@I\\Yz@ER@RGHEKA]ECG?E^AZQ\\?]Fa@@q@Dm@[k@Hj@El@GNMNMDOCWBc@RINv@]h@@LDBPE' +
+      'p@WEFJTRBNAb@LbAb@NRJ^\\n@x@ZnACZDHFDN?JMf@KNBUZI`@Bb@Nd@DXCVB@FCBDK|@KXSTISCe@IASBMMIUKKQAGUMSOC' +
+      'IGULY@GEMe@@GBAVAAIOIDOAMFQ@MIQ@GPQEo@GIWf@c@AUJI^KVCDQ@GHG?WGC@K^IHO`@EDG@YMWCSBOJCFHVCHIHWREn@' +
+      'JLKFAD@HA@ICEJ?XCLG@CFANQZKt@JZALJT?j@C^Rh@DBJ|@PDVVNjCPx@LRDb@i@|@CPF|@GV@JI`A?r@Qh@AJNNJb@ADMA' +
+      'OP@REPOJI`@SNIB?V_@AW_@c@Q_@YGCAGJm@CEGAQZWCq@NMKy@_A_BgCEs@IEMQQ?SFMLCCESE?MTIH[Nc@f@G?ICWNAAO?' +
+      'ESB]FQAEM]W]QOMuDDcCL{ADKF_ABiA\\_@?{@DQN@@C?GUWD]AMGSLsANIDOOKEKEYKO?G@Gh@_@DIIg@IeB?SN]LCJW@QKG' +
+      'GIUDYLQIWQOQ_@k@ESD[KY?k@@i@He@?]K_@_@OGM?OJ{@AQOq@A[B_AAWBQLSPQb@Sf@y@F?BBFr@F?POXAJCBGDAHLBC?s' +
+      '@Lu@E{@BEVMBG?UBEDDF?HGRELKH?LHLCNOBILIBOQk@Dm@Xc@CMBYLWO[Im@A[Mi@@OLOHONCRSd@eACSQECE?IPe@@g@Xu' +
+      '@?UG[VY@_@^_A?SE]BIFCFFL?JMVBHFZb@Hh@HEHGJo@DCDTCTLP\\HBUDOb@IDFD?DUD?LLh@VLAHF@dAE`BBNXRFNHX@ZHN' +
+      'NDTBHFBABMB?HJFBFA',
+    'w_HagEH[KxAIZIDKBRY',
+    'c_H}pEIKMA@]Rk@BSAQFYPSAo@PSRAJ]?Iv@s@RUDQ@SOe@AODc@IMEQAWLw@^V^JF^?`@Dd@Sd@CTBRVTNf@RLCf@@`@Pp@' +
+      'b@d@Vf@D`@A\\ETWf@IAOMm@OM@WHQ^BXCL_@t@A\\D^CJIFe@_A_@}@C[Me@Ug@OD',
+  ],
+  UG: [
+    'fE{rEAhRBLFLBL?n@z@r@NTBJCHSDADHn@qABQEg@C]GSBkBQMKq@UOIa@@]AGUUYYKOOK_@wA{AgA}@UEOPG@CF?JUV?XKR' +
+      'M?]Ga@OG?ODMLWEWIYOIBEH[QQWMS?MTs@?MCOSa@PQRIPg@ACOGS[QcBO_@T]Ba@Aa@IOqAqA`A]BIJ@NSFWFIF?f@Fp@IF' +
+      'Mf@MR]f@MDITGJBd@E`@KbAAN@r@b@XAPf@VV`@LZVFBPT|@VVRd@BjA?tAB',
+  ],
+  US: [
+    'gtBum[DDCDK@BM',
+    'ceBum[?HGD?MBC',
+    'owA{j[HFEJC@EO@G',
+    '_pBcn[BHUODE',
+    'q}A}m[B?ALQEKUHDF@',
+    'q|Akm[HFODE?EE?E',
+    'qqBhtK@LIRAO@I',
+    'uqBbsKBLAJEG',
+    'enBxsKFQ?SFT@f@M?',
+    '{qAsg[?FEF[@S[QIBMDE^^',
+    'txA`j`@@FIHIY@W@L',
+    'irBh|KDEAEGB?CDe@FWBYZAHRXVNXD^?^AF@NGR?r@FL?JCT?XCJm@E[POQKACSDq@BcC',
+    'epB|wK?VEBCQ?UDM',
+    '{oBdgLEJE??MBC',
+    'g`Jt|X@@?XAFIBGAQMQETc@FKJEFZ',
+    'q~Iz|XATOZE@CCKW?e@BKBCB?BBJ?BB',
+    '}jJlfYD@AZEXILCACYFW',
+    'cxJ~i[DDEXK]@E',
+    '{tJnf[@J[a@ISCUF@J\\',
+    'kvJb|[BHAf@KGG]Ja@',
+    'gxJbu\\?HIKQI@KBARR',
+    '{xI`i^N@Mb@CEAY',
+    'qvI~b^AJOFBMFE',
+    'uwI~c^N?@@CDBJCDGAAGIAGCAE',
+    'wnIxm_@EFC?IKCO@AFFDF',
+    'ybI`ka@BNGVKCHW',
+    '}|Kdm_@@FC?QaAHV',
+    'wlKrn`@BA@q@B_@?a@Og@Eo@BYJc@XSJoAJKBY?wAFu@RFFPAr@@r@HRJPJ@FTEFSJINEXEf@EHIDM\\QtAAh@TbA@VCTO^ID' +
+      'SCWIES',
+    'kxJjm_@HSCg@FUDEJAHDRAFOVGBfAF\\DDHC@FITIhAWfAE\\Q^UZCe@@sAOICICYGYBUGa@',
+    'khJrz\\HAOw@?SBOBCD@HJD?HMDa@BEB?RXBLGrA?TDJBk@FKLGBT?PFTFJ@j@J`@DJFDBJDZBOHCB@RVPh@CNEBa@w@APIVD' +
+      'RQMA@Ch@@LDJ?U@EDEHERNANW^a@LYZE?OGUYE]IUA_@BQFGBB@?DK`@[JWMLMF_@BGB?]C?IVOREAGKCM@O@ERQDG?GMS?a' +
+      '@KCCCEAIJAMDk@FQ',
+    'i|IrkXTPVFZETKTC^XNHD?r@fACDCn@[PUFSLC?KKKo@C?ANCDUB]?YFk@h@G@QU^vBH\\FHLEDFPDRN@DEZEFWJEAQWQQm@_' +
+      '@?SIe@EbA[XG^SXUHCVW@Ih@MRMFOECB@PWlBa@Ei@RQTII?GZsACCg@nAQBCE@{@AAGfAJJBF?J]`@OZKDO?OAc@WIIBJNP' +
+      'ZRHNAHKLM\\Ab@MVg@^QBEDEPGHo@P_@TQDOAA@RH@NRQ@RTWb@IXMt@U`@QDAJFBHE^W\\EV@`AK?WGi@d@EAOi@?RDPCD]NA' +
+      'BR@JGL?DDBNOj@QVGr@K^B@HIF??FJLAc@Lu@BGHGFWBAJN?_@BSPWJGLA@DFjANV@D]zAe@|AIDOb@OV]^]~@Gh@GICd@Ib' +
+      '@y@pDCDKe@QSE?WLKAGKAKNWDAT?XEICOAOGCG?e@Ip@Wd@APd@`ABLNz@Bf@GrA]pBOUCAOFGN@@LABFHj@WnDAlAHpBFz@' +
+      'AbAE@AMC?MRGZE|@IRETGHWGMGKEOSL`@b@z@FPAXObAAb@O[QQA~AMDCLHp@ELOc@EZELEFQAKEK}@EP@f@Vx@DTCH?`@N^' +
+      'Oh@PPB\\?NOVIGg@k@Zz@A^DXHLEc@@CPNPHBH?`@D?L_@DYBALBFJ@`@LXGg@Cq@CM?MHMFCDDJd@DBPBRCHXXRBDCNDR@TE' +
+      'p@IVD\\AFSP@@RBTVVH?@CBSHEDJPD?NC@BIf@@BLKB?Vn@AZF\\CVN@HJP`@PN@DKj@@BDGB@Af@BTFZ?VMh@E@IEMOI_@Cc@' +
+      'GUM[c@k@CHZfAI|@CJKDi@Ui@y@MIg@Qq@HCGSiAOa@ScA?QFMHa@?UE[@m@LmBKJE~@CXYjAINK]ECS[[qA?RDr@JXX^B`B' +
+      'IRThAHXJNHXJ|@LZHHREDVHX\\t@NDFGLTL`@DTA\\GVAR@@Tw@HQHEF?VXFdAFRDa@BCJDBFF\\@VABICA@AFPn@BBBKRZ\\bAB' +
+      'Cd@TDIN_BNm@HODAJDJNTb@Jn@R^HFFADFLf@@OXFF~@J@FtATPDHL^Nv@D@DDFRJHBj@BFNBAR@NPd@DHBALMD?TLFVHF?\\' +
+      'FFJ`@N\\BJAXDTDHPFFHCd@@RH^FH@S@I@?@ZLbAXZAOBOHMHGZj@ABUD?FZVHN\\~BDPTHLPg@BAPFT@NXv@DXPXAV@JFHBFE' +
+      'XRf@BNBf@ANCBK?OMCGBa@GHETCR@JJXDDZJp@bA?PLRBJ?JELAACGEBMLEFAPD@b@CFHH\\?FSZAVB@LEHDN^?HG?MGKAIBG' +
+      'ACCM_@COBEASCGEASg@S][_@Ye@Sk@Qo@U_B@GDFDECk@CMBCDBDTB?V_@BIAGAAO@CI@c@FQB]ECGFK`@GHG@YOa@_@q@eB' +
+      'YeBOWQa@CMD?DCDe@AG]@QC_@c@S_@Me@_@w@CU@GFKBSEOETKFGLGBi@O_@AQKEUCq@G\\C\\SDM?OK[m@Ss@?FEDgAm@Z\\Tb' +
+      '@XhBTdAB`@CTi@f@QCKKAUDW?UKZIf@BPNLJRGXLGTLLBf@QNBF^MXq@v@MPWj@BLHPBPQl@[h@Pz@P^?RL`AJNLDJnAEjAO' +
+      'w@M[UJW@Q]?\\DRMPYHQUKIOGO?WNu@l@g@RSb@c@Y]]Me@A@?b@PXh@f@PXDNFYDCLEZL?^L\\LbAHzAAl@Ql@QA_@bA]d@AZ' +
+      'Sr@QEEN@VCXg@cAYWCSPuADIHKXTCK_@}@BU^_@Og@QUGPCTEx@EM?c@CMM^Tn@AxAK|@@~@AFGLW{@CABh@GJKAFLIZMS?D' +
+      '?JJJRABRAPMJYJG`@KHQUIFAVFXGJSB@MGu@CCIh@IJEQA_@Ek@KPEDI@QEg@s@a@s@GOCUHk@CCAFMFE]OQCAPf@c@HWGIG' +
+      'IOCq@@IC?OZQUG{@@a@Jg@JWJFFP@AQo@BOFK?MEm@EUS[Ke@c@s@OO?a@JIBQC{AEo@Ka@Sa@MSQIi@Xk@N]l@G^@TSO@k@' +
+      'A[IWSQOBGDS`@EL@JVv@@^EXNTJz@L^^|@LL@R]JY`AFRHIDO@WFJJDYdAGj@@tBLlACLBLHL@NYfFIb@S^M?EMS?CZi@jAB' +
+      'a@Am@SOCa@@_@EFCFGpA@JOpC]tBEFKJKOEOLCOaASa@CaAOc@Q]QeAEc@Hi@@y@CQGMMv@IEEEQaAEq@?[WmAEi@EqCHQAp' +
+      '@HWFBTTPALZZaA@iBEw@Fa@@YCiADw@AWg@s@ESJs@CQHMUDGHMtAFv@GPOEg@z@GXA\\MLOLKq@DUVWBUTDT[R_AGq@@c@BU' +
+      'Pu@@YIsAQ?KDGR@v@Ml@Bb@RdAG`@KTIb@SBW]KUGREn@DtAOBN`@Cb@@n@MhBSd@MNi@ZYb@wA|FUpBWv@OlBMo@JR@OEWG' +
+      'M[Sm@SQDBkCA{AKuCC]Ow@YaAc@y@GG@CAEKE_@G][aAwBo@}ALWR~@G}@EYO_CUeAEA[gBB_@R\\BSVP?e@HIa@CIEBYGy@A' +
+      'fASh@AV]oAQiA?OBGDAH^DG?ICa@EO?kACUCEA_BAQO}@Sw@IY[k@Qe@Q}@@OBTFLHSRcC@_@JMJHJ`@LdADUJM@SE_@EYYu' +
+      '@KOCKBm@Pu@JJFJFe@@i@Fg@Ou@AsAGu@HyAAU@c@De@FMNh@NDDM@YFC@_BHHJVDoCEQK}ALs@@YAWMw@?aABYA[LsA@_@R' +
+      'i@?UGW?UFSBa@JOBQH_CC}@?}ADk@?o@TkABg@BGDsBKg@AgAI}@@mAE[PeBPy@LWRwBHa@LW?MAI@y@ly@?N}AOOV_B]y@A' +
+      'wBJ?f@TP]PcAVMlBoEn@ULFBOQ_@_@}A?m@YUc@A?UCMIEMLKkAY}Ah@sADATD\\WPu@HKJc@d@[HOZoAz@sALBr@{@rBqBz@' +
+      '_AVTH}@`@NLo@HBJKPAAo@d@cBLcANQDa@TMFe@EWROJA',
+    'svIv|^`@SDGJi@HIMv@R`@@H@`BBRDLV^Hd@Cl@GHOFMCOc@e@c@EI@g@KYQcA?g@FS',
+    'czIb`YFCL\\HDTd@[AQRGSBc@GU',
+    'gwIzsXXSHA@R?NCFC@MEGHAJDHM?IGKDI?AA?KHU',
+    'u}ItxX`@BANBNANCFC@IAEFCh@IDM@CECMOKCG_@W@Kp@q@',
+    'yyIrqXTDTLJTALIJARGDIEGDLLFVXVIH[DK@a@g@o@CYgA@EPWXWJERA',
+    'gcJp`YDMGG@KDYFMHIf@@JH?BKRWTEP@?PQFANMNAD@FHA`@BRAVKHe@FQAWZQ^ECEQ@_@',
+    'avIj}X@CAEGGF]XDNJER[f@MLE?CFg@XG`@IFGEEYVg@FEJONADE',
+    'yxJ|q[DCAe@BOFRFj@Jb@?B[NM[',
+    'ytJjz[@TEBUS_@{@QYW[IC?KDSFKFD`@`ADDJDJRFBBFBTBB',
+    'yxJzy[D?BDHEXLFJ?DC?EC?LMBCE[MAADCIM',
+    'e{Jp{[@XCLOE?KBOBC',
+    'adJh{\\F\\JLDJINOAIO@eADC@B',
+    'olJ~w\\?FKVOc@?MDEHD',
+    'qhJv|\\DDABO`@IJAGFYDK',
+    '{{Ihk]DF?LAFEBQ[?EDA',
+    'w_Jve]DLABC@KIKUGS?KDCHL',
+    'e`Jxb]?HELEAGS@UF?DF',
+    'uxIhk^AIKM?CLDNIDIB@BVCP@HDFEFa@@GIEKDKB?',
+    'yuIju^CPKHIa@HGJF',
+    '_sI|v^BPCPING@Fi@',
+    'qwIdf^P`@RXBJWOOBAMKKAKMK?E@CFDFKF@',
+    '}pInk_@BLAB@TKJE@IMCM?OPe@BABH',
+    'kqIvi_@?HUFESJKBOBJ',
+    'cmJvl^BLANSJ?GMUKu@',
+    '{xJrv`@Li@A[JUFIE`@?l@Y`AETOCGYRK',
+    'kdJnf`@FTAPIDGu@',
+    'iiIpc`@JDC^?RC@CAE_@?M@G',
+    'sgI`j`@DLIDS]BM@CD?DBBN',
+    'ueI|t`@@LANKGKUBQFM',
+    '}`J|c`@@YAM@MDAHVAFKZ',
+    'ubIxla@JJEHO@CEJS',
+    '_dIbka@DBEREFE?GC?OBIHI',
+    'gbIdra@DNAp@Bb@C@C?KaACOGIMGCKDIPL',
+    'ocIa{a@BJMFCGFS',
+    'a`Iq`b@?`@a@dAIb@IRCGFk@f@kABY',
+    'gfIw|`@?JEFCj@ECASI[?WHF',
+    'meJpjYd@]nAe@^CFFF@NEZ?LB@DCLORg@XOAMS@\\KZOAC@BVCHM@GCSWC@?JELUDKN@H`@TFHB\\QGYHI?GEE_@GIEASOAG?S' +
+      'Rk@@M',
+    'ojJvhYBq@?e@Za@XSn@]@@IRULSRSNE?EDAF@JNANEz@aAPCFHNKDBF`@\\^P`@BPCDEFIBI@GIe@OK?_@`@wAVc@XMBCADOR' +
+      'U',
+    '_kJhoYP[PDBLDCBKUe@CMBe@H_@DGLEXFDXEXHTFQ@u@LOJETJE^KXQv@AJBHH@V?JLEj@QPYNg@jASTYKG[OIVc@I?IIA[G' +
+      'MCQ',
+    'c_JxaYBe@?c@FKPKRBPcAT_@HM\\SX[NWEXOh@?BPHDH@GCa@N]BIJKB?JHB?Ai@BCb@BJCLBRCLFBTEJKNULG\\?JIFI?KFEA' +
+      'AHBDJCFBCN[XU\\EJECCYAAUVG?IICJ@\\AJOL?b@SXISFa@GQIAEMSHCNF`@J\\CHG@]k@MLS?',
+    'gbJldYLMAQHINGHDAFDFRDPAR@RJJ@DHELHH?LWHi@GIUIJMZGASRWAOQA[J[',
+    'wkJrw\\@GKG?CHWAOJG?UL@NXCNMJ?BFJNC?ZDPMD@DRNFRD\\SxA]u@K[Bg@M?ILC?E_@B[DK',
+    'klIxx_@Rz@f@n@h@rBECQ_@QUUCOQEI?g@CKCCCFQ?IGGMKk@?OH_@BERJ',
+    '{oIjp_@HIEMWYL[Zr@JJD?Ca@?GBE^lAJLLlAJZ@NJZBT?FGTCDISCc@[mAUICIGE?UHK?EEAEKI\\Cb@KHE?MOCKGq@?S',
+    '{dIt{`@Fe@?q@@Q@?FvACh@@`@CPEJC?AIB]EY',
+    'gdIvba@HjBELg@eEIGE\\CBKWG[HWFENFDRBBLKHj@',
+    'ecItna@F?AWBEL?BDCFFHNh@ILNVe@OI]IBSI@SFIB?',
+    'yaIvva@DB?DIXCBEOCCC@Q^EFGM?_@JQBM@]HVPJ',
+    'mcIibb@DPAPGHI?IYJ]',
+    'gcI{sa@FPKNOYASEGQG@UTLF?',
+    'ijIaw`@Da@CWJ]Pe@BP@t@LZI`@QHIl@Me@',
+    'yuBjk]HFAJSf@KBq@Ai@N_@NOKMOWQ]LQCCGVi@`@sATUXCBONGX]LHXf@Jr@\\j@',
+    'qcCru]Bk@AIBEBi@JFFTG^At@MGI?',
+    'yaC`q]BEGc@LYPYDEHBJRBXDLCXc@F@JELONI@OG?MFK',
+    'ceCfy]?ONCLKDH@TCHIH@JIB@FHG?XKDURG?KDA]QSAK\\UF?FC',
+    'ahC`c^HPCHARGFGRIFSKO]?m@LIF?JDN@',
+    'ogCbh^FB?FG?KCUW@IFDH?DL',
+    'y`Chs]DJCJMBOJCUBKNM',
+    'gxG|qMA}Re@SQQDY?MOY@GLKAGGCK?EGAQCCW@QUSa@KAUU]?e@IQMSUu@KuCyCDe@P@LAJU@UI_@My@CCCI@ML[f@y@nECP' +
+      'ABAf@DDCNc@Ba@DCF@DLD@PMRFTSBIIMDYD@HERCHDJ?@SFC^f@Eb@FP@RLFBHEZ@HXLAHFBDNSJADCPLXCHGDXLNAFBAFGF' +
+      'ET?PGCKOANKCKABFJHJTN?b@RL@JLHPAVFPHF@FOFPD@DUDFHRDADG@ADRAFBIJDTMCDRJVRPFMv@~@h@VLPn@RTIHG?WBAD' +
+      '?Lj@VRRTDGDc@FOd@WBDD@HUZEFQDYGa@KYG?UPIBEJDDKFAOBIVY\\GRADB?THbAHNHb@c@@AD`@t@@THPEBW@UI@DJPOJEJ' +
+      'PCLJb@@LNHp@A^HbACRDT@hAALJRF^^nAZf@HL@JLN_@O]GU@OPTIZAPB\\RT^FFNDLCDe@CIHELAr@Lv@Hg@A@DFBh@JVNLL' +
+      'ANJCRFHHAFJNF@p@d@JVADg@IK\\?NMRKV]`@U?e@SGMGg@UOPRD\\DNHLJDNPPCL?f@_@d@CVO\\YFQJAPHFJAOBGNEL?JDG?C' +
+      'BBDD@VDBJTLLJtAp@LAFTPTXF\\NKHIB[Ek@O[SKMYKCN?TWIIHENGIIAK@GC?DLNG@HLO^OHIDUECKBg@CB?FQTIFALHD@DU' +
+      'GEYKBEHDPSCBWQIGAJPYBYQIOAe@EVIGAIGG?RMABRDBJ?FBHTG@CDP@DBOH@BL@BHHABBG\\@?RODKJAFHGPXKFBT?HBh@G^' +
+      'U@HOXSNMDLAPEb@m@XOH@OVKXEb@YRH?HBSRI@?LFNANO@ICUOKQMEU@TBJFV`@f@HHG@GEW@K^[Ls@FSNOHWLQF?HDN@FF?' +
+      '\\w@bA[TMX@FXe@j@i@HQPMFMJc@FLFSJCL@EZPADJGPg@j@JCXYLUFSJMRIJV]f@OD?LS|@An@DIDg@FOJq@VGPWJC@QK_@F' +
+      'o@p@UtAYpAm@w@f@a@N{@NKDEDBBF?DARDFAHITK^IMJSt@X?GVLGCP@JJFFJ@NIVOFO@t@?BWAq@G]B[PAd@B?EEIc@CKY@' +
+      'GHGJALCVFZd@XXDLIj@?RGDM@CH?DNDBRE\\M\\LMXiAJQVRNBN\\CN[h@XSHMD_@Iw@HSRNJNDd@FB@~@ANRV@FCLUHZ?JENZ`' +
+      '@l@XTh@LYASDb@BNFAnAH`@\\r@JNp@j@`@JMFQANHZIFFR\\F`@PDVb@CXNGJHHNFh@FFFPEh@BLDUJKL@JR?DUFBDD?@DUPP' +
+      '?JEHMDANLDPFDFAPHJd@LIB@FD@JFFHGF@DLFB@O^TBPB?BIHGPNELd@DXHN?LCPGhAOXGdAQ`A]pAg@nBkAJH^BPCv@UEFq' +
+      '@T[@g@A?BZDFDWFK?KGC@ELI@IAEF?DVCNEb@GTKrE{AXUPEb@Gn@AvALz@BG@ABZJVNd@DRFRT?NLb@CVH\\ARQJOEAGRYGE' +
+      'IFKXi@V]TSDKf@Q\\a@Pw@JKPg@YJPNH@FAD]Fe@AMK?PBNLAD@ETe@\\cAb@SRCOq@i@MEC@GFDHABOJCJBFJIDEP@JHAJBBM' +
+      'LMDmAQq@QoAA_@VoAfB_BpAa@bAFt@DFHDHCBB@`@Xp@APJZFx@AJODM?HEHGCCGAOHSZ[b@?IECGHSK@NFJL@_@tAMt@Ei@' +
+      'DUG@CDEP@TCNRl@JfBKOEYMEMFBDHFGH?HP@HLJDHf@CBIKE@BLTRDjACAAQEUWL?FGDUAMDKJ@BTHf@H?j@BbAKXANP`ACP' +
+      'XVH\\ShAOPCNARRRZNNYDSEc@MU@OIMDMBAT^NODUCGOEKK@SF@PIRAHb@HJBEDJAF@BB@DDNGHSLMPs@AMPKHSJ?FPNHKNNP' +
+      'BHQEWPKNCJEFE`@I@GBGJOv@F?BCHQP?^HFFFLEFYHGN?VDPVPBLKp@Sx@EAAG@QE?UPIBIA?DHHIb@e@^?\\QLFXFJJHNMDB' +
+      'Db@GpAEVO^Mj@ATBrAHXGFI@GMKGG?EB?H`@RPID?Bh@d@|ARd@GAYk@CLDXAHUIQ@?PLJ?FEH@F`@E^Sf@p@P@VV~@rBH`@' +
+      'P^@H[k@@TG\\?RD?FNKNMH?D@Dj@UDUPZDVOPf@FBDFHKFJPBZNCEURFTRDNCXDH`@[p@PPJBNO^MP`@OHi@V?\\Nv@Qf@EPG`' +
+      'Ae@@KR?BXDJFBCNQ\\Kh@Cv@If@MRGRCVGPKNGRCZIRUJg@JWLc@^UCKBKFI@KC]BQPQ^[Xc@TWTMTQN_@HAC_Aj@]PSBURk@' +
+      'r@KBa@r@UNGJ?RE@BJ@ZCn@E`@GT?LJHFPBXTVf@RXHHAFBDLJJPLFN?PM^[n@Od@EZMVQTKPEPURa@V[J[?yAn@MJ_@x@a@' +
+      'p@s@x@_@h@IXQT[PQPA`JxA@?rPkFvVII_@Md@`NW@GFDJ]DKCM@_@Jg@\\o@~@O^SXENARHFETWC_@VAP@l@Q|@IPSFOZOf@' +
+      'BRAZKf@@dAANMNGPm@E[FYEONI\\KBQCMFIVYVMZUJMPMDk@h@c@h@SD[@QQMGWBQLIx@k@l@_@@a@Pm@@EK@KXCLMDMJKBSK' +
+      'Je@PKNUDKJIOEQAYBiAEO?WCT@p@I\\HV?JMX?HDP^BTE@HGJOb@U`@LLE?OEY@TSODONEJ[LQ`@[Zm@t@g@Bs@R]GS?_@HOJ' +
+      'o@j@]j@o@Fk@QEEF??EMEADe@Qe@@k@MO?_@HSFMPSGQ?[Zs@Lg@CQF[Rg@OaAUEE?GIOCDDJo@SGGiACu@EQISBYEYB{BUO' +
+      '@SEs@D{@AOFAEHI?o@G]@IHMBOASCNIRIL?b@EFDh@EJBTQEo@?PCPMm@KILETWFSu@C\\IHALPDMBe@Fe@Ts@LWNW^MFc@F[' +
+      'CQD@OLg@Js@FMDWHgCE[?GLQ@ICWIOJALEXOZV?BG@A@n@l@TNN@?UIUA?B\\IAUO[k@KGSYM?@KRCHBJPB@LC@LNQLEHAVD@' +
+      'B?HGJRJA@SDABHPHFLDDF@WCSFUEM[QEWKM_@BM?IFSEEB]OOOa@b@PE@@IPEDM?EIAMC@WXCREDEA?WCGG@W?UHBPEFg@R?' +
+      'ukDkAABi@HOb@CVEZSHALONoBHi@JIBQEq@KOAWBs@Nu@Pm@^Q?KIIAYFa@R[ZcA?YIa@Oc@CW@OLGBK@sACm@FIJIBQCWB_' +
+      'ACe@o@cCGm@pCwJdCcIr@Sb@k@?KKSEi@BMPDLENAJC\\U@MG]A[R[DA`@V|AoEbJqAbBt@`ANVJXf@RVPf@HFTF^A\\U\\cA?q' +
+      '@iBgF_@mEuAqFKSIEIFKNG?IFa@Ae@TU_AGYAs@?gIuAgA]i@EKKGWu@OQu@mAYk@Mc@E[?S',
+    'e_GddMLL@KUm@EU?EDIGg@`@vAn@hDANJdADv@ISC?CB@HHJBNKBQMKOOe@DGGAGM?OCWBQIq@CoAYs@EST^',
+    'atGdiLBHALL@GPM?MKEIBKNI',
+    'g|FtnM?FQGIQ@EJ@HJ',
+    'saGtwLHv@EFAMOQAIHQ',
+    'ibGf|LBH?JGEUGEI',
+    '}`GjtLBLGb@Ga@MCRI',
+    'c_FtwMBBULFMDC',
+    'g{EbwMDZA@K]g@IQAg@Bh@ITB`@F',
+    '}zErxMLb@?BIU',
+    'owEb}M@DYQ_@c@CIZ\\',
+    'idDv_OBDCLEFMBPO',
+    '}dD~_OJ@i@NDI',
+    'c|CjuNd@f@g@WOUM?IQ',
+    'kwDt|P@FO`@G@EO?KJSFA',
+    'kmDj}Q?BUKUOAGFCLN',
+    '}nDv{Q?FIGEOS_@AMGIF@LX',
+    'siDl_RJFQAe@Os@a@GMv@d@',
+    'euD~pQ@H]k@IG?KPR',
+    'obDh~QH@k@PaBXw@@SCnAGbB]',
+    'ssE|nVAXGM@C',
+    'snEniV?RKD@QFG',
+    'elEtbV@JCJa@VCELITY',
+    '_sEhmVBJCJQNCc@JQ',
+    '_tEflVHg@CUBCB@Fp@ENMD',
+    'uoEtbVNIA\\QFCLE@CCJ_@',
+    'eoHj~VBABLEJLAGRC@ECEO',
+    'cnHx_WDCG\\ODCA?GLQ',
+    '_lH`}VXGIEPYH?B@?DKNALKFO?CBCLKHA@GESQBKFED?J^DS',
+    'ibG`}LBBI@IC?ADC',
+    '_wFhnM\\VE?e@]',
+    'ykFxuMBHg@_@m@WVDTL',
+    'qwEl}MAJGL@K',
+    'ayCh{NBFA@UFLS@?',
+    '_zCdxN?BIIDA',
+    'szC~vN?BGI',
+    'oyCpyNDFCHCIE_@DJ',
+    'q`Ez{Nn@Fa@DIG',
+    'wxCx|N@JGIKCHED?',
+    'oiDdtNLCuAh@i@JJITG',
+    'kxCb~N?DC?CG?ED?',
+    'uxDpjPHHMGCE',
+    '{{DnhP@@CPCHA@D]',
+    'a|DlePBPA^Ei@',
+    '_{DtlPFACH?LU]FB',
+    'iyDdjPDB]CYFJGLC',
+    'gxDtqODRCT?WQe@AM',
+    '_fHx~V@DKDECJG',
+    'ggH~{VD?@F?BE@DFYC?CFE',
+    'mhHr|V@?GNOCBI',
+    'umHr~V@BCHCDE@ICAGHAHI',
+    'gsGzkLBF?FMAAABE',
+  ],
+  UY: [
+    'zqEplITR`@Jl@h@XHZj@\\^?RJRf@hBGf@@ZQXGz@Fd@Rr@AXGZQLQlAm@~@?hADx@EF[Pg@p@g@d@e@Fi@Eq@KO@GMAMKMSK' +
+      'OAsAV]OM?MFKBMCK?MDICGMKK]IG?IBEFOCWOSKQCO?KDEACKKC]@WHQGWWQKK?GGLKBcACCUMGQ?g@fBaC\\[JG\\BPCAYEKW' +
+      '[KGAEDG`@e@`@UJQDOEIT[R}@r@k@T]P{@FGLWbA_@RUNYHYHMJGt@t@JPRH`B?BAJW',
+  ],
+  UZ: [
+    'agGmzLEQLa@BCD?Nf@H`@TJH`@FLRT^t@D?DC@QPc@Ic@@GHIZGTaA@UAODQCCg@ADO?ICEUGKBGKBGL?FQRMVCDa@EKBIZE' +
+      'BCE]J]RU@G@a@BGCWD[BABDZbAFBHLDN@DK`@FDB?JGJHCTEB@RRVNHDVN\\MJ@TMZANBf@LxAAHULGXCDE?GAk@aAMGGTKCc' +
+      '@j@AF?DZNl@rBCNQXEPDHHHN?HHBHn@QD?@NPI@FEv@Fz@@BB@BCAy@BGD?B@B\\FBRODFED@BFBBD?Pf@HNNBH@JQfCJb@PT' +
+      'l@NBAPy@BCRABA@gABIDEFCj@Rf@GPI`@i@P@PHLHDJh@`@\\\\NFp@BLFE@EH@PCJED@NHVCVUXEn@B|@U@aAC[SE?IJGb@Wj' +
+      '@Mf@ETFXAV{@hBYr@M^o@dAD\\i@nAk@p@_BjDW`@KFy@J[NMT[PeA\\KH]p@G\\DTJJ?PKhADrAc@fAEBI?UMKBIFK?EE@MCCE' +
+      '@ONK`@IEUAKECBOXApACPGNWNEFEl@CHk@x@RJBHEj@JTDALYVYLKF@@LULEHKp@LPPBZTDV?|@FPFJVVRZpAIRSPREp@E|C' +
+      '}U?eAkHk@wEhFiNFKRENKfCeD?O[cFNuF[iACSJQl@u@Tm@tA{@U{@fBH^D|@@@aBp@G|AYPGFSIyDDKGYRQLQj@JPUJYFW@' +
+      'QAMGEI@KDK?IC_@_@_@q@KIUCKQKk@IEYs@O{@MYYYYe@?OFI?GYYCICS',
+    '{~FqxLKDCH?BPM',
+    'ixFa|LAf@QEILI@GCCGLKD]LHLE',
+    'uxFs_MFDGNCACU',
+  ],
+  VA: [
+    '{dGwlA?@AA',
+  ],
+  VC: [
+    'gqAh}JBDMNOAMQ?GLCP@',
+    'epAt}J@@AFAGC@EI@?B@',
+    'knAj~J?@GEF@',
+  ],
+  VE: [
+    'cx@b{JDVC?IEGYBIBJ',
+    'qdA`nKXETR@XCHKJBJCZCFMIG[HEDM@OMCSW',
+    'ecApvKDJEPEHEE?OFM',
+    'mv@f|JBJS@W_@BCB@FIF@HJ',
+    'mt@bvJn@e@D?DBJTZLJ\\^f@BXFHVHTTF?b@WJFHAHIBKEK?MFMF?PDJHNd@PXC\\JLFf@RJZIn@C^`@TPDAlC_CFM^MTDVTN`' +
+      '@VHDFFRCb@PPDTTNd@tBKr@BJRZ?HBHNDt@BNR?TSNMP_@\\CH?FH\\IV@hAGHSHKLAL?~@CFOHEHALHDZWNETSn@y@LKjA?f@' +
+      'Oh@SXE`@FBEDSFiBLCVBJFBDBTLTL^@RFLBDx@LPPLT@b@f@n@APRh@HLb@^JRb@T?NK@QGQHGLANFPXd@BJFn@MXoAxAM@M' +
+      'Ao@RO@s@RKFICIBGDYHKAK@q@v@INSHG\\FPK?GEuA_BSGu@d@ORQJcAVc@@ODIF_@?s@Gg@C[DUGMSUI]AWKSSSE]FKPG^AX' +
+      'HNFf@F`A?t@Gf@B\\LR@NGFAHDLcDbCAF?ZCVUt@AN@LPf@?V@PIn@?^Ft@GVMNu@VIb@GHKDo@?i@CWQK?m@Jq@n@_BZEHBJ' +
+      'CHSHCHLXB\\CDq@]m@_@WIqAMy@MeAc@i@a@KMQg@oAo@MISuAQi@RRFLPjAJP^Aj@WHGX]@D@J\\GTQL?j@JVX\\PJNx@\\b@WP' +
+      'AVUFMHGPBVGJIBM?OOo@EKKEYYgAEWDc@XYHWXu@Rq@JKQW@Gi@i@wAIw@U}@KMQKAIP_@EOMGYH?PHv@u@Ri@QOg@LQJIHE' +
+      '^C^IVINOCSC{@Jc@Dk@t@uATKRCLILHVCVMNQBu@Iy@IyAG[CsCJ[RCh@o@De@La@PgAEw@gAcC@gAISKXCz@FPSHCuABiAM' +
+      '}@A_@@OGq@H{AGgAJFDVBd@N\\A|@Dj@BMP?BKLMFCPERFFFAQIIS?BIBEr@WZOAGQKJMKBMCE@?ODKNUPMHAHMHCMAKDI@A]' +
+      'MEFOj@g@DOFk@T[PORHFXLHHDL?JFXDn@X?hAPc@R[OS?_@Qc@AKF_AKOCK@a@',
+  ],
+  VN: [
+    '}_AkiSHCT?VFHADDi@LYR?IKQ?G',
+    'meCyaT@^PRXz@PDZDRd@AHGFHb@Ih@F@j@Oh@f@ZCRHNVj@l@?THNdA`@V?PBP?^LLNPB|Au@b@c@JOFQ`@a@RQNF\\CIXTa@' +
+      'x@k@|@kA^KTa@\\g@D@FIN[PMNE@ICK?Q`@[LG?KRCVUTIb@YRQR]f@Ob@Gf@ONM`@?`@ITI`@En@OP@OFr@?ZG`@BJGd@MLG' +
+      'n@?VEMLOHRTr@QCRbAAVGF@IDI?@BD?JDL@TGXL@Pp@HB`@VVF\\l@v@D`@b@RB^Zv@LPPh@MLERKJSBFDb@@FBBHIPUNLV@Q' +
+      'BGJGNB?x@LYFYFKD?JNLHP?FJAFMTw@|@NG~@aARINANP?RWb@w@t@GR`Aw@NIPIRF|@dCXR^NPXNLHl@CV]YINmA@sAGi@I' +
+      'IQESG?K@MHELAPQLDZGHKB[^AGSQ?s@AEYYGMEA_@FCE@UH]SSGy@?KXQEQP_@?KWDQGE@g@t@KDe@@M@OAAOUM@SLo@AKAA' +
+      'q@AEw@MKEa@g@m@CICWJKSWMEUCa@Bk@JS@qA[OB}Af@EDUDo@GOOg@Oa@BIAUFGCGKe@Q[Pm@v@c@TGCOa@EEICG@Sb@[\\M' +
+      'ZIFWFABNPAFEFUJIJm@@MDILk@^e@t@aA|@QJ]Fa@XGV]b@ULI?]KEDIXMt@oAxBMd@EDGAOYKEO@QFCCCm@Ny@AGY]QKKCI' +
+      'EMOK?QFEFCF@TCBSDGDGVATCBIGKWIII?a@l@Q^GP@HN`@HPPLBNOb@Kp@ITkAp@a@GYKKAI@EDENMB@BPDDDBFCFa@HIDKP' +
+      'MHq@r@SHQUc@[KCGMRq@JUVSBI?EQYI?a@_@AEBE\\U@CCEWIIIn@y@?EAEGC_@KIQAMRQ@MS_@C_@QUe@EGE[aAKODOLQJIT' +
+      'KF[T]CWEG?]@EPM@EIs@Xo@ZNHLBHLDR@JAHOHCr@ACMNg@?GDGJAFGLW@QROEOFGAa@IW@GPU',
+    'gu@kyS?DCBMQL@',
+    '_`Ay|SJPI?KW',
+    'caC}zSBBKNMELI',
+    'scCo_TXZ?H]GEEHO',
+    'yaC__TDH?LIOOMH?',
+    'u`C}{S@FONIGDSFAFB',
+  ],
+  VU: [
+    't{Acq_@`AM?OCEOIWCCGBIDDRCJE@Ez@MH?PT?\\JTALK?IJULg@CgAVQ?WG?GPI',
+    'rcBiu_@BMHCP[?GHEDKHCJILNC\\LNANG@CASH_@BQDGDFRMLe@IAIFQ',
+    'zgBy{_@@EHBIZ@ZEDODIAIM`@_@',
+    'beB{z_@@VE^IJGDEICQSQFGTGLK',
+    'rlBy{_@ZQBGRJ@VE\\EKGDAHBHABMEQO?M',
+    'n_Bmx_@FL?VEH[]Ec@',
+    'xbBiz_@?@y@Nk@GHCjAQJ@',
+    'x~Aez_@JBMF{@BEA?Ch@I',
+    'faBct_@DBKTMEBU',
+    'bxAkv_@HFATCDOAEEEMFQ',
+    '|uAyu_@?FWJGCGMLMD?J@@F',
+    'd}Byd`@HD?HGLIA?S',
+    'byBib`@THEPMPMFYEEG@IXC',
+    'juBia`@HFAFUr@IAU@MECM@IRGDOFJLS',
+  ],
+  WS: [
+    'dsA`t`@PUVGVFETD\\AJ]VKNKF?UG_@',
+    'xvApn`@?v@IX?HQVIBGKAYLs@JE@KDIFA',
+  ],
+  XK: [
+    'ujGe~BEWCCIDCCO[MGOHCAKc@BCLENi@X_@HCN_@N@Lu@?K@EB?r@ZFNB@NGD`@DJPF?DOV@NRv@HDV?HJCVIAQ?_@JIDQZE' +
+      'Tc@ZEFOESJEC@[IE',
+  ],
+  YE: [
+    'agBwjIb@bBNXRVVPh@Lf@IR?f@lABNR\\Tv@P|@R~ATd@N`@Br@TfANf@b@z@RFPN\\\\LT?LF\\@`@Ix@FNHJRj@f@j@TtANd@F' +
+      'XB^Az@Dv@Hr@TV^\\Ll@JHVLJx@KX\\r@DR?\\DRANKPKh@FZ[@uAp@sAIa@H]Ze@?w@NOAs@RG@GEG?KFYFSf@SGJQKAG?w@Nk' +
+      'AWcAFc@m@UOEKWAGFQBs@GGKECIHG?Y_@EMBWDKRUDQAKDKIQ?MEOAe@@g@Eg@?oABQPa@BYLyCGsA~@q@?_@GUWe@cA[mCu' +
+      'BsAmDG]kAmPrIuCDM`Bm@',
+    's~AeiGBDG@QCCEJEFB',
+    'stAgjGDLOGCM',
+    'ivAmjGBB?@KLKMJG',
+    '_nA_oIBMGQ?u@T_ADJFFDZPZFpACVQRSd@YWKS@U',
+  ],
+  ZA: [
+    'tiCovDG{@Do@Ty@Fu@Eq@Ai@B]FYHQrAYzAU\\?HCd@WVKRM\\Kf@IPGXE~CAhA@ZJTANCBNm@xA?NPXZVVJ|@l@H@\\?^?BC?M' +
+      'XKd@WXk@Je@@u@?k@[BeAKACDQAQD]AiBl@DfA\\`@FtBVz@^VPj@r@LZDTvAvAh@`@|@\\`@ZfAj@jBhAdA~@RZHRf@p@`AdA' +
+      'x@t@`ApA\\l@v@fAHRr@nA^v@d@|AHb@IvADb@T^^@DLAPM|@@`@PPTN?l@UrAM~A?TNn@@NCbAId@?d@FXB`@z@zA?n@Ff@G' +
+      'fABTHTBn@HPv@rAE`@Ah@]p@BPICOAOP@PMHA\\BVa@?OBEJ?Z@NBDJFb@?IHUJWBYCIWa@F{@`@KR]PKNSDQNYDOGGOLMEOS' +
+      'Y]Om@?]BkAROHw@j@gAr@qB`AeA^kCn@mAh@iAr@CDIGO[EKBEEGIE[CYMKIGYHQHGLCDG?KFINEJ@FFHAJIZILq@@[D[JWB' +
+      'i@Ey@@o@Jc@@[GQIEM@IGCSIMQKMYIi@?S}U?p@iAVObAc@tAc@f@EF@v@b@Z@^CNGDKGYFg@CkABg@AIEGSIEGGc@KOe@Ys' +
+      '@kAu@YoA]QMKUGi@BWJYN]`@m@DM?k@T[NsAAWKY@i@Im@S[eCu@]EGEOk@Ku@EIc@a@_@k@kB]WQKM?GEIKMIQASIKMEEI?' +
+      'OCGIAW_@G?WSc@c@Sa@I}@K]OUWKMW',
+    'b{DsrDK_@Wg@k@GY_@YIa@Gc@PIV_@l@SPQZUPF^Nn@NZPXLj@fBjAJLTl@D@b@O`@U\\UP?LGFSb@c@JOFu@AGSMOAm@c@MM' +
+      'Cs@',
+    'jdHskFBHAf@GBQQBUJS',
+  ],
+  ZM: [
+    'v`B_}D?dCJn@Nf@h@jAHFjAFTLXfAn@|A^`@f@Vp@f@xArANn@Cf@Qp@Cd@JZCZQVGRDN?TKd@k@r@ELCf@GzA^pDeArA_Bb' +
+      'BW^Q\\cAT}@JmQ??sJAWEA_@P_@Ek@OMAm@FoAEOBo@OiBNBUZKFc@JIXEJBHHHIDQAIQ][{BDE^Fj@MNUHIAU\\qANqB?m@EK' +
+      'GKw@SGUBGb@G^c@p@UFGFMBk@d@cBFIRKj@OBWLKv@e@RCJMBS@QYw@CM@IFEVCDMAIIEwF?HT?XDHFBVAD@@JOhAm@h@i@t' +
+      '@SRaAViAU}@MYSWA]FqBC]Da@Jo@ZI?i@w@k@e@QIUCUFy@qJf@ONKX[@I?u@Rc@RERUA]BMBEN?DCBe@JQDi@HKf@uATKRC' +
+      'BMGE?IDGXKRSb@Fd@k@VAf@WF?d@f@DTNPt@Wn@TBFV?LKd@CP@j@Hf@QBE?WBCHDPNZjALHRBRIb@DZ?FDf@PPPFPB?HSDE' +
+      'BAHFJSJIZMAIMULI`BdHNd@n@lD`@vAN@TE`@S^E',
+  ],
+  ZW: [
+    '~jCqbEIPGXC\\@h@Dp@Gt@Ux@En@Fz@UVAXILODYEA@]bBO~ACFGFq@X]\\IBy@Eo@?EBCJ?bAq@BOFIFIP_@pA_AvAEL{Aj@Q' +
+      'AIB[X]Hi@f@QLi@RSTMFKBWGJe@?UEOFSPWB[K[Be@Pq@Bg@Oo@yAsAq@g@g@W_@a@o@}AYgAUMkAGIGi@kAOg@Ko@?eCbAA' +
+      '@ED_DXe@DKDg@j@q@B{@ZoAPSDi@L@RJ^?h@Qd@A`AD|@Av@EXHn@JDBLZFBL?JCJUFCZB\\H`@I|@c@TBn@Vz@f@PZHFH@n@' +
+      '?d@V^MDJ`EzD',
+  ],
+};
@@ -0,0 +1,75 @@
+/**
+ * Country name matching
+ *
+ * Partners and providers spell countries differently ("USA", "United
+ * States", "United States of America"). Resolve them to ISO 3166-1 alpha-2
+ * codes before comparing.
+ */
+
+import { COUNTRY_NAMES } from './places.ts';
+
+// Common spellings that differ from COUNTRY_NAMES, normalised
+const ALIASES: Record<string, string> = {
+  'usa': 'US',
+  'u.s.a.': 'US',
+  'united states of america': 'US',
+  'uk': 'GB',
+  'great britain': 'GB',
+  'britain': 'GB',
+  'england': 'GB',
+  'scotland': 'GB',
+  'wales': 'GB',
+  'northern ireland': 'GB',
+  'russian federation': 'RU',
+  'turkiye': 'TR',
+  'czech republic': 'CZ',
+  'czechia (czech republic)': 'CZ',
+  'republic of moldova': 'MD',
+  'macedonia': 'MK',
+  'holland': 'NL',
+  'the netherlands': 'NL',
+  'korea, republic of': 'KR',
+  'republic of korea': 'KR',
+  'viet nam': 'VN',
+  'ivory coast': 'CI',
+  "cote d'ivoire": 'CI',
+  'cape verde': 'CV',
+  'swaziland': 'SZ',
+  'burma': 'MM',
+  'myanmar (formerly burma)': 'MM',
+  'congo (congo-brazzaville)': 'CG',
+  'congo-brazzaville': 'CG',
+  'congo-kinshasa': 'CD',
+  'drc': 'CD',
+  'palestine state': 'PS',
+  'state of palestine': 'PS',
+  'holy see': 'VA',
+  'east timor': 'TL',
+  'uae': 'AE',
+};
+
+const CODES_BY_NAME = new Map(
+  Object.entries(COUNTRY_NAMES).map(([code, name]) => [normalizeName(name), code])
+);
+
+/**
+ * ISO code for a country name or code, or null if not recognised
+ */
+export function countryCodeFor(value: string | null | undefined): string | null {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+  if (/^[A-Za-z]{2}$/.test(trimmed) && COUNTRY_NAMES[trimmed.toUpperCase()]) {
+    return trimmed.toUpperCase();
+  }
+
+  const name = normalizeName(trimmed);
+  return CODES_BY_NAME.get(name) ?? ALIASES[name] ?? null;
+}
+
+/**
+ * Lower case without diacritics, so "constanta" matches "Constanța"
+ */
+export function normalizeName(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+}
@@ -0,0 +1,130 @@
+/**
+ * Mapbox geocoding (Geocoding API v5)
+ *
+ * Requires MAPBOX_ACCESS_TOKEN.
+ */
+
+import type { ForwardResult, GeocodeProvider, GeocodeResult } from './providers.ts';
+
+const MAPBOX_URL = 'https://api.mapbox.com/geocoding/v5/mapbox.places';
+
+// Forward search also finds addresses, for event locations
+const FORWARD_TYPES = 'country,region,place,locality,address';
+
+interface MapboxContext {
+  id?: string;
+  text: string;
+  short_code?: string;
+}
+
+interface MapboxFeature {
+  text: string;
+  place_name?: string;
+  place_type?: string[];
+  center: [number, number];
+  bbox?: [number, number, number, number];
+  context?: MapboxContext[];
+  properties?: { short_code?: string };
+}
+
+interface MapboxResponse {
+  features?: MapboxFeature[];
+}
+
+export const mapboxProvider: GeocodeProvider = {
+  name: 'mapbox',
+
+  isConfigured() {
+    return !!Deno.env.get('MAPBOX_ACCESS_TOKEN');
+  },
+
+  async reverse(lat: number, lng: number): Promise<GeocodeResult> {
+    const mapboxUrl = `${MAPBOX_URL}/${lng},${lat}.json` +
+      `?access_token=${Deno.env.get('MAPBOX_ACCESS_TOKEN')}` +
+      `&types=place,locality,region,country` +
+      `&limit=1` +
+      `&language=en`;
+
+    const mapboxData = await fetchMapbox(mapboxUrl);
+    const features = mapboxData.features ?? [];
+
+    if (features.length === 0) {
+      return {
+        placeName: '',
+        city: null,
+        country: null,
+        countryCode: null,
+        provider: 'mapbox',
+        raw: mapboxData,
+      };
+    }
+
+    return { ...placeFromFeature(features[0]), provider: 'mapbox', raw: mapboxData };
+  },
+
+  async forward(query: string, limit: number): Promise<ForwardResult[]> {
+    const mapboxUrl = `${MAPBOX_URL}/${encodeURIComponent(query)}.json` +
+      `?access_token=${Deno.env.get('MAPBOX_ACCESS_TOKEN')}` +
+      `&types=${FORWARD_TYPES}` +
+      `&limit=${limit}` +
+      `&language=en`;
+
+    const mapboxData = await fetchMapbox(mapboxUrl);
+
+    return (mapboxData.features ?? []).map((feature) => ({
+      ...placeFromFeature(feature),
+      lat: feature.center[1],
+      lng: feature.center[0],
+      bbox: feature.bbox ?? null,
+      provider: 'mapbox',
+    }));
+  },
+};
+
+async function fetchMapbox(url: string): Promise<MapboxResponse> {
+  const mapboxResponse = await fetch(url);
+
+  if (!mapboxResponse.ok) {
+    throw new Error(`Mapbox API error: ${mapboxResponse.status}`);
+  }
+
+  return await mapboxResponse.json();
+}
+
+/**
+ * Place name, city and country of a Mapbox feature
+ */
+function placeFromFeature(feature: MapboxFeature) {
+  const placeName: string = feature.place_name ?? '';
+  let city: string | null = null;
+  let country: string | null = null;
+  let countryCode: string | null = null;
+
+  // Extract city and country from context
+  const context = feature.context ?? [];
+  for (const ctx of context) {
+    const id = ctx.id ?? '';
+    if (id.startsWith('place.') || id.startsWith('locality.')) {
+      city = city ?? ctx.text;
+    } else if (id.startsWith('country.')) {
+      country = ctx.text;
+      countryCode = ctx.short_code ?? null;
+    }
+  }
+
+  // If feature itself is a place, use it as city; if a country, as country
+  const placeType = feature.place_type?.[0] ?? '';
+  if ((placeType === 'place' || placeType === 'locality') && !city) {
+    city = feature.text;
+  } else if (placeType === 'country' && !country) {
+    country = feature.text;
+    countryCode = feature.properties?.short_code ?? null;
+  }
+
+  return {
+    placeName,
+    city,
+    country,
+    countryCode: countryCode ? countryCode.toUpperCase() : null,
+  };
+}
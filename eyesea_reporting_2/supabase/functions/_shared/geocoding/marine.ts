@@ -0,0 +1,143 @@
+/**
+ * Marine context for a geocoded point
+ *
+ * Land geocoders answer nothing useful for open water, so every result is
+ * complemented from the bundled datasets:
+ *
+ * - waterBody: the sea area (seas.ts) or ocean the point lies in, for
+ *   points offshore or within COASTAL_ZONE_KM of the coast
+ * - coastDistanceKm: distance to the nearest coastal locality (places.ts).
+ *   This over-estimates the distance to the coastline itself by up to the
+ *   spacing of the dataset, so treat it as a rough figure.
+ * - eezCountry: the country of that nearest coastal locality, if within
+ *   200 nautical miles. Nearest-coast assignment is how median lines split
+ *   overlapping zones, so this matches most EEZ boundaries away from
+ *   disputed areas and small islands.
+ *
+ * A point is offshore when the provider chain found no country there; the
+ * offline provider decides this by the country boundaries (boundaries.ts).
+ */
+
+import { COUNTRY_NAMES, type Place, PLACES } from './places.ts';
+import type { GeocodeResult } from './providers.ts';
+import { distanceKm } from './offline.ts';
+import { SEAS } from './seas.ts';
+
+// Coastal points this close to the sea still get a water body
+const COASTAL_ZONE_KM = 20;
+// 200 nautical miles
+const EEZ_LIMIT_KM = 370.4;
+
+const COASTAL_PLACES = PLACES.filter((place) => !place[5]);
+
+export interface MarineInfo {
+  offshore: boolean;
+  waterBody: string | null;
+  eezCountry: string | null;
+  eezCountryCode: string | null;
+  coastDistanceKm: number | null;
+  nearestCoast: string | null; // Coastal locality the distance is measured to
+}
+
+/**
+ * Marine context for a point, given what the provider chain found there
+ */
+export function describeMarine(
+  lat: number,
+  lng: number,
+  result: Pick<GeocodeResult, 'country'>
+): MarineInfo {
+  const { place, km } = nearestCoastalPlace(lat, lng);
+  const sea = seaAt(lat, lng);
+
+  const offshore = !result.country;
+
+  const waterBody = offshore || km <= COASTAL_ZONE_KM ? sea ?? oceanAt(lat, lng) : null;
+  const inEez = waterBody !== null && km <= EEZ_LIMIT_KM;
+
+  return {
+    offshore,
+    waterBody,
+    eezCountry: inEez ? COUNTRY_NAMES[place[2]] ?? null : null,
+    eezCountryCode: inEez ? place[2] : null,
+    coastDistanceKm: Math.round(km * 10) / 10,
+    nearestCoast: place[0],
+  };
+}
+
+/**
+ * Place name for an offshore point, e.g. "Black Sea, 35 km off Constanța";
+ * just the water body beyond 200 nautical miles
+ */
+export function offshorePlaceName(marine: MarineInfo): string {
+  const parts = [marine.waterBody];
+  if (
+    marine.nearestCoast && marine.coastDistanceKm !== null &&
+    marine.coastDistanceKm <= EEZ_LIMIT_KM
+  ) {
+    parts.push(`${Math.round(marine.coastDistanceKm)} km off ${marine.nearestCoast}`);
+  }
+  return parts.filter(Boolean).join(', ');
+}
+
+function nearestCoastalPlace(lat: number, lng: number): { place: Place; km: number } {
+  let nearest = COASTAL_PLACES[0];
+  let nearestKm = Infinity;
+
+  for (const place of COASTAL_PLACES) {
+    const km = distanceKm(lat, lng, place[3], place[4]);
+    if (km < nearestKm) {
+      nearest = place;
+      nearestKm = km;
+    }
+  }
+
+  return { place: nearest, km: nearestKm };
+}
+
+function seaAt(lat: number, lng: number): string | null {
+  const area = SEAS.find((sea) => pointInRing(lng, lat, sea.ring));
+  return area?.name ?? null;
+}
+
+/**
+ * Ocean by position, for points outside the bundled sea areas. The
+ * Pacific/Atlantic divide follows the Americas; seas in between (Gulf of
+ * Mexico, Caribbean) are matched earlier by their outlines.
+ */
+function oceanAt(lat: number, lng: number): string | null {
+  if (lat > 66) return 'Arctic Ocean';
+  if (lat < -60) return 'Southern Ocean';
+
+  if ((lng >= 20 && lng < 100 && lat < 30) || (lng >= 100 && lng < 147 && lat < -6)) {
+    return 'Indian Ocean';
+  }
+  if (lng >= 100 || lng < americasDivide(lat)) {
+    return 'Pacific Ocean';
+  }
+  if (lng < 20) {
+    return 'Atlantic Ocean';
+  }
+  return null;
+}
+
+// Longitude between the Pacific and Atlantic coasts of the Americas
+function americasDivide(lat: number): number {
+  if (lat >= 30) return -100;
+  if (lat >= 15) return -90;
+  if (lat >= 0) return -78;
+  return -69;
+}
+
+// Ray casting; ring is [longitude, latitude] pairs
+function pointInRing(x: number, y: number, ring: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
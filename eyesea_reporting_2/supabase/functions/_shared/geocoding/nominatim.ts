@@ -0,0 +1,151 @@
+/**
+ * Nominatim geocoding
+ *
+ * Works against any Nominatim-compatible endpoint: NOMINATIM_URL (default
+ * the public OpenStreetMap instance). The public instance's usage policy
+ * requires an identifying User-Agent, so NOMINATIM_USER_AGENT must be set
+ * for the provider to be used; self-hosted instances can set any value.
+ *
+ * The policy also allows at most one request per second, so requests are
+ * sent one at a time and at least NOMINATIM_MIN_INTERVAL_MS (default 1000)
+ * apart. The spacing holds per worker; concurrent workers each keep their
+ * own.
+ */
+
+import type { ForwardResult, GeocodeProvider, GeocodeResult } from './providers.ts';
+
+const DEFAULT_NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+const NOMINATIM_TIMEOUT_MS = 5_000;
+const DEFAULT_MIN_INTERVAL_MS = 1_000;
+
+// Zoom 10 resolves to city level, like the Mapbox place type
+const REVERSE_ZOOM = 10;
+
+// Last request in the queue, and when the latest one was sent
+let queue: Promise<unknown> = Promise.resolve();
+let lastSentAt = 0;
+
+interface NominatimAddress {
+  city?: string;
+  town?: string;
+  village?: string;
+  hamlet?: string;
+  municipality?: string;
+  country?: string;
+  country_code?: string;
+}
+
+interface NominatimPlace {
+  error?: string;
+  lat: string;
+  lon: string;
+  display_name?: string;
+  boundingbox?: [string, string, string, string]; // south, north, west, east
+  address?: NominatimAddress;
+}
+
+export const nominatimProvider: GeocodeProvider = {
+  name: 'nominatim',
+
+  isConfigured() {
+    return !!Deno.env.get('NOMINATIM_USER_AGENT');
+  },
+
+  async reverse(lat: number, lng: number): Promise<GeocodeResult> {
+    const data = await fetchNominatim<NominatimPlace>('/reverse' +
+      `?format=jsonv2` +
+      `&lat=${lat}` +
+      `&lon=${lng}` +
+      `&zoom=${REVERSE_ZOOM}` +
+      `&addressdetails=1` +
+      `&accept-language=en`);
+
+    // Open water answers 200 with { error: "Unable to geocode" }
+    if (data.error) {
+      return {
+        placeName: '',
+        city: null,
+        country: null,
+        countryCode: null,
+        provider: 'nominatim',
+        raw: data,
+      };
+    }
+
+    return { ...placeFromResult(data), provider: 'nominatim', raw: data };
+  },
+
+  async forward(query: string, limit: number): Promise<ForwardResult[]> {
+    const data = await fetchNominatim<NominatimPlace[]>('/search' +
+      `?format=jsonv2` +
+      `&q=${encodeURIComponent(query)}` +
+      `&limit=${limit}` +
+      `&addressdetails=1` +
+      `&accept-language=en`);
+
+    return data.map((place) => {
+      const box = place.boundingbox?.map(Number);
+      return {
+        ...placeFromResult(place),
+        lat: Number(place.lat),
+        lng: Number(place.lon),
+        // Same order as Mapbox: west, south, east, north
+        bbox: box ? [box[2], box[0], box[3], box[1]] : null,
+        provider: 'nominatim',
+      };
+    });
+  },
+};
+
+/**
+ * Queue a request behind the ones already waiting; it is sent once they
+ * have finished and the minimum interval has passed
+ */
+function fetchNominatim<T>(path: string): Promise<T> {
+  const request = queue.catch(() => {}).then(async () => {
+    const wait = lastSentAt + minIntervalMs() - Date.now();
+    if (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+    lastSentAt = Date.now();
+    return await sendRequest<T>(path);
+  });
+  queue = request;
+  return request;
+}
+
+async function sendRequest<T>(path: string): Promise<T> {
+  const baseUrl = (Deno.env.get('NOMINATIM_URL') ?? DEFAULT_NOMINATIM_URL).replace(/\/+$/, '');
+
+  const response = await fetch(`${baseUrl}${path}`, {
+    headers: { 'User-Agent': Deno.env.get('NOMINATIM_USER_AGENT') ?? '' },
+    signal: AbortSignal.timeout(NOMINATIM_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Nominatim API error: ${response.status}`);
+  }
+
+  return await response.json();
+}
+
+function minIntervalMs(): number {
+  const value = parseInt(Deno.env.get('NOMINATIM_MIN_INTERVAL_MS') ?? '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_MIN_INTERVAL_MS;
+}
+
+/**
+ * Place name, city and country of a Nominatim result
+ */
+function placeFromResult(place: NominatimPlace) {
+  const address = place.address ?? {};
+  const city = address.city ?? address.town ?? address.village ?? address.hamlet ??
+    address.municipality ?? null;
+
+  return {
+    placeName: place.display_name ?? '',
+    city,
+    country: address.country ?? null,
+    countryCode: address.country_code ? address.country_code.toUpperCase() : null,
+  };
+}
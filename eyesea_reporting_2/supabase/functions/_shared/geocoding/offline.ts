@@ -0,0 +1,267 @@
+/**
+ * Offline geocoding
+ *
+ * The country is the one whose boundary (boundaries.ts) contains the point.
+ * Points just outside every outline, on beaches and in harbours, get the
+ * closest country within COAST_TOLERANCE_KM, and so do points that close to
+ * a bundled place (islands too small for the outlines). Further out the
+ * point is at sea and has no country or city, as with the online providers.
+ * The city is the nearest place of that country in the bundled dataset
+ * (places.ts), so it is a nearest-locality approximation. Forward search
+ * matches locality names only. It needs no network or credentials, so it is
+ * always configured.
+ */
+
+import { COUNTRY_BOUNDARIES } from './boundaries.ts';
+import { normalizeName } from './countries.ts';
+import { COUNTRY_NAMES, type Place, PLACES } from './places.ts';
+import type { ForwardResult, GeocodeProvider, GeocodeResult } from './providers.ts';
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+// The 1:50m outlines cut across bays and river mouths, leaving coastal
+// towns up to ~6 km outside them
+const COAST_TOLERANCE_KM = 10;
+
+interface Boundary {
+  countryCode: string;
+  rings: [number, number][][]; // [longitude, latitude] pairs
+  bbox: [number, number, number, number]; // west, south, east, north
+}
+
+// Decoded on first use
+let boundaries: Boundary[] | null = null;
+
+export const offlineProvider: GeocodeProvider = {
+  name: 'offline',
+
+  isConfigured() {
+    return true;
+  },
+
+  reverse(lat: number, lng: number): Promise<GeocodeResult> {
+    const boundary = countryAt(lat, lng);
+    if (!boundary) {
+      return Promise.resolve({
+        placeName: '',
+        city: null,
+        country: null,
+        countryCode: null,
+        provider: 'offline',
+        raw: { boundary: null },
+      });
+    }
+
+    const { countryCode, distanceKm: boundaryKm } = boundary;
+    const country = COUNTRY_NAMES[countryCode] ?? null;
+
+    let nearest: Place | null = null;
+    let nearestKm = Infinity;
+    for (const place of PLACES) {
+      if (place[2] !== countryCode) continue;
+      const km = distanceKm(lat, lng, place[3], place[4]);
+      if (km < nearestKm) {
+        nearest = place;
+        nearestKm = km;
+      }
+    }
+
+    const raw = {
+      boundary: countryCode,
+      boundaryDistanceKm: Math.round(boundaryKm * 10) / 10,
+      nearest: nearest?.[0] ?? null,
+      distanceKm: nearest ? Math.round(nearestKm) : null,
+    };
+
+    return Promise.resolve(
+      nearest
+        ? { ...placeFromEntry(nearest), provider: 'offline', raw }
+        : { placeName: country ?? '', city: null, country, countryCode, provider: 'offline', raw }
+    );
+  },
+
+  /**
+   * Localities whose name starts with the query (ignoring case and
+   * accents), exact matches first. The query may end in ", region" or
+   * ", country", which is ignored.
+   */
+  forward(query: string, limit: number): Promise<ForwardResult[]> {
+    const wanted = normalizeName(query.split(',')[0]);
+    if (!wanted) {
+      return Promise.resolve([]);
+    }
+
+    const matches = PLACES.filter((place) => normalizeName(place[0]).startsWith(wanted));
+    matches.sort((a, b) => Number(normalizeName(b[0]) === wanted) - Number(normalizeName(a[0]) === wanted));
+
+    return Promise.resolve(matches.slice(0, limit).map((place) => ({
+      ...placeFromEntry(place),
+      lat: place[3],
+      lng: place[4],
+      bbox: null,
+      provider: 'offline',
+    })));
+  },
+};
+
+function placeFromEntry([name, region, countryCode]: Place) {
+  const country = COUNTRY_NAMES[countryCode] ?? null;
+  const parts = name === region ? [name, country] : [name, region, country];
+
+  return {
+    placeName: parts.filter(Boolean).join(', '),
+    city: name,
+    country,
+    countryCode,
+  };
+}
+
+/**
+ * Country whose boundary contains the point (distance 0), else the closest
+ * boundary or place within COAST_TOLERANCE_KM; null at sea
+ */
+export function countryAt(
+  lat: number,
+  lng: number
+): { countryCode: string; distanceKm: number } | null {
+  const all = loadBoundaries();
+
+  for (const boundary of all) {
+    const [west, south, east, north] = boundary.bbox;
+    if (lng < west || lng > east || lat < south || lat > north) continue;
+    if (insideRings(lng, lat, boundary.rings)) {
+      return { countryCode: boundary.countryCode, distanceKm: 0 };
+    }
+  }
+
+  // Degrees covering the tolerance around the point
+  const latMargin = COAST_TOLERANCE_KM / KM_PER_DEGREE;
+  const lngMargin = latMargin / Math.max(Math.cos((lat * Math.PI) / 180), 0.01);
+
+  let closest: { countryCode: string; distanceKm: number } | null = null;
+  for (const boundary of all) {
+    const [west, south, east, north] = boundary.bbox;
+    if (
+      lng < west - lngMargin || lng > east + lngMargin ||
+      lat < south - latMargin || lat > north + latMargin
+    ) continue;
+
+    const km = distanceToRingsKm(lat, lng, boundary.rings);
+    if (km <= COAST_TOLERANCE_KM && (!closest || km < closest.distanceKm)) {
+      closest = { countryCode: boundary.countryCode, distanceKm: km };
+    }
+  }
+
+  for (const place of PLACES) {
+    if (Math.abs(place[3] - lat) > latMargin) continue;
+    const km = distanceKm(lat, lng, place[3], place[4]);
+    if (km <= COAST_TOLERANCE_KM && (!closest || km < closest.distanceKm)) {
+      closest = { countryCode: place[2], distanceKm: km };
+    }
+  }
+
+  return closest;
+}
+
+/**
+ * Great-circle distance (haversine)
+ */
+export function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+function loadBoundaries(): Boundary[] {
+  boundaries ??= Object.entries(COUNTRY_BOUNDARIES).map(([countryCode, encoded]) => {
+    const rings = encoded.map(decodeRing);
+    const points = rings.flat();
+    return {
+      countryCode,
+      rings,
+      bbox: [
+        Math.min(...points.map(([x]) => x)),
+        Math.min(...points.map(([, y]) => y)),
+        Math.max(...points.map(([x]) => x)),
+        Math.max(...points.map(([, y]) => y)),
+      ],
+    };
+  });
+  return boundaries;
+}
+
+/**
+ * [longitude, latitude] pairs of an encoded polyline (precision 2,
+ * latitude first)
+ */
+function decodeRing(encoded: string): [number, number][] {
+  const ring: [number, number][] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const next = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += next();
+    lng += next();
+    ring.push([lng / 100, lat / 100]);
+  }
+  return ring;
+}
+
+// Ray casting over every ring, so holes cut out what they surround
+function insideRings(x: number, y: number, rings: [number, number][][]): boolean {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
+
+/**
+ * Distance to the nearest edge, on a flat projection around the point
+ * (accurate enough over a few km)
+ */
+function distanceToRingsKm(lat: number, lng: number, rings: [number, number][][]): number {
+  const kmPerLng = KM_PER_DEGREE * Math.cos((lat * Math.PI) / 180);
+  let min = Infinity;
+
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const ax = (ring[j][0] - lng) * kmPerLng;
+      const ay = (ring[j][1] - lat) * KM_PER_DEGREE;
+      const bx = (ring[i][0] - lng) * kmPerLng;
+      const by = (ring[i][1] - lat) * KM_PER_DEGREE;
+
+      const dx = bx - ax;
+      const dy = by - ay;
+      const lengthSquared = dx * dx + dy * dy;
+      const t = lengthSquared === 0
+        ? 0
+        : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+      min = Math.min(min, Math.hypot(ax + t * dx, ay + t * dy));
+    }
+  }
+  return min;
+}
@@ -0,0 +1,957 @@
+/**
+ * Bundled place dataset for the offline reverse geocoder
+ *
+ * Every national capital plus the larger coastal localities, denser around
+ * the Black Sea and the Mediterranean where most reports come from. The
+ * offline provider names the nearest entry in the country the point lies in
+ * (boundaries.ts), so coverage rather than completeness matters; add places
+ * here to sharpen results in a region.
+ *
+ * Sources: GeoNames (cities15000, CC BY 4.0), coordinates rounded to 2
+ * decimal places.
+ */
+
+// ISO 3166-1 alpha-2 code -> English short name (as Mapbox returns it)
+export const COUNTRY_NAMES: Record<string, string> = {
+  AD: 'Andorra',
+  AE: 'United Arab Emirates',
+  AF: 'Afghanistan',
+  AG: 'Antigua and Barbuda',
+  AL: 'Albania',
+  AM: 'Armenia',
+  AO: 'Angola',
+  AR: 'Argentina',
+  AT: 'Austria',
+  AU: 'Australia',
+  AZ: 'Azerbaijan',
+  BA: 'Bosnia and Herzegovina',
+  BB: 'Barbados',
+  BD: 'Bangladesh',
+  BE: 'Belgium',
+  BF: 'Burkina Faso',
+  BG: 'Bulgaria',
+  BH: 'Bahrain',
+  BI: 'Burundi',
+  BJ: 'Benin',
+  BN: 'Brunei',
+  BO: 'Bolivia',
+  BR: 'Brazil',
+  BS: 'Bahamas',
+  BT: 'Bhutan',
+  BW: 'Botswana',
+  BY: 'Belarus',
+  BZ: 'Belize',
+  CA: 'Canada',
+  CD: 'Democratic Republic of the Congo',
+  CF: 'Central African Republic',
+  CG: 'Republic of the Congo',
+  CH: 'Switzerland',
+  CI: 'Côte d\'Ivoire',
+  CL: 'Chile',
+  CM: 'Cameroon',
+  CN: 'China',
+  CO: 'Colombia',
+  CR: 'Costa Rica',
+  CU: 'Cuba',
+  CV: 'Cabo Verde',
+  CY: 'Cyprus',
+  CZ: 'Czechia',
+  DE: 'Germany',
+  DJ: 'Djibouti',
+  DK: 'Denmark',
+  DM: 'Dominica',
+  DO: 'Dominican Republic',
+  DZ: 'Algeria',
+  EC: 'Ecuador',
+  EE: 'Estonia',
+  EG: 'Egypt',
+  ER: 'Eritrea',
+  ES: 'Spain',
+  ET: 'Ethiopia',
+  FI: 'Finland',
+  FJ: 'Fiji',
+  FM: 'Micronesia',
+  FR: 'France',
+  GA: 'Gabon',
+  GB: 'United Kingdom',
+  GD: 'Grenada',
+  GE: 'Georgia',
+  GH: 'Ghana',
+  GM: 'Gambia',
+  GN: 'Guinea',
+  GQ: 'Equatorial Guinea',
+  GR: 'Greece',
+  GT: 'Guatemala',
+  GW: 'Guinea-Bissau',
+  GY: 'Guyana',
+  HN: 'Honduras',
+  HR: 'Croatia',
+  HT: 'Haiti',
+  HU: 'Hungary',
+  ID: 'Indonesia',
+  IE: 'Ireland',
+  IL: 'Israel',
+  IN: 'India',
+  IQ: 'Iraq',
+  IR: 'Iran',
+  IS: 'Iceland',
+  IT: 'Italy',
+  JM: 'Jamaica',
+  JO: 'Jordan',
+  JP: 'Japan',
+  KE: 'Kenya',
+  KG: 'Kyrgyzstan',
+  KH: 'Cambodia',
+  KI: 'Kiribati',
+  KM: 'Comoros',
+  KN: 'Saint Kitts and Nevis',
+  KP: 'North Korea',
+  KR: 'South Korea',
+  KW: 'Kuwait',
+  KZ: 'Kazakhstan',
+  LA: 'Laos',
+  LB: 'Lebanon',
+  LC: 'Saint Lucia',
+  LI: 'Liechtenstein',
+  LK: 'Sri Lanka',
+  LR: 'Liberia',
+  LS: 'Lesotho',
+  LT: 'Lithuania',
+  LU: 'Luxembourg',
+  LV: 'Latvia',
+  LY: 'Libya',
+  MA: 'Morocco',
+  MC: 'Monaco',
+  MD: 'Moldova',
+  ME: 'Montenegro',
+  MG: 'Madagascar',
+  MH: 'Marshall Islands',
+  MK: 'North Macedonia',
+  ML: 'Mali',
+  MM: 'Myanmar',
+  MN: 'Mongolia',
+  MR: 'Mauritania',
+  MT: 'Malta',
+  MU: 'Mauritius',
+  MV: 'Maldives',
+  MW: 'Malawi',
+  MX: 'Mexico',
+  MY: 'Malaysia',
+  MZ: 'Mozambique',
+  NA: 'Namibia',
+  NE: 'Niger',
+  NG: 'Nigeria',
+  NI: 'Nicaragua',
+  NL: 'Netherlands',
+  NO: 'Norway',
+  NP: 'Nepal',
+  NR: 'Nauru',
+  NZ: 'New Zealand',
+  OM: 'Oman',
+  PA: 'Panama',
+  PE: 'Peru',
+  PG: 'Papua New Guinea',
+  PH: 'Philippines',
+  PK: 'Pakistan',
+  PL: 'Poland',
+  PS: 'Palestine',
+  PT: 'Portugal',
+  PW: 'Palau',
+  PY: 'Paraguay',
+  QA: 'Qatar',
+  RO: 'Romania',
+  RS: 'Serbia',
+  RU: 'Russia',
+  RW: 'Rwanda',
+  SA: 'Saudi Arabia',
+  SB: 'Solomon Islands',
+  SC: 'Seychelles',
+  SD: 'Sudan',
+  SE: 'Sweden',
+  SG: 'Singapore',
+  SI: 'Slovenia',
+  SK: 'Slovakia',
+  SL: 'Sierra Leone',
+  SM: 'San Marino',
+  SN: 'Senegal',
+  SO: 'Somalia',
+  SR: 'Suriname',
+  SS: 'South Sudan',
+  ST: 'Sao Tome and Principe',
+  SV: 'El Salvador',
+  SY: 'Syria',
+  SZ: 'Eswatini',
+  TD: 'Chad',
+  TG: 'Togo',
+  TH: 'Thailand',
+  TJ: 'Tajikistan',
+  TL: 'Timor-Leste',
+  TM: 'Turkmenistan',
+  TN: 'Tunisia',
+  TO: 'Tonga',
+  TR: 'Turkey',
+  TT: 'Trinidad and Tobago',
+  TV: 'Tuvalu',
+  TZ: 'Tanzania',
+  UA: 'Ukraine',
+  UG: 'Uganda',
+  US: 'United States',
+  UY: 'Uruguay',
+  UZ: 'Uzbekistan',
+  VA: 'Vatican City',
+  VC: 'Saint Vincent and the Grenadines',
+  VE: 'Venezuela',
+  VN: 'Vietnam',
+  VU: 'Vanuatu',
+  WS: 'Samoa',
+  XK: 'Kosovo',
+  YE: 'Yemen',
+  ZA: 'South Africa',
+  ZM: 'Zambia',
+  ZW: 'Zimbabwe',
+};
+
+// [locality, region, country code, latitude, longitude, inland]
+// Inland places (more than ~20 km from the sea) are skipped when measuring
+// the distance to the coast.
+export type Place = [string, string, string, number, number, boolean?];
+
+export const PLACES: Place[] = [
+  // Romania
+  ['Bucharest', 'Bucharest', 'RO', 44.43, 26.10, true],
+  ['Constanța', 'Constanța', 'RO', 44.18, 28.65],
+  ['Mamaia', 'Constanța', 'RO', 44.25, 28.62],
+  ['Năvodari', 'Constanța', 'RO', 44.32, 28.61],
+  ['Eforie Nord', 'Constanța', 'RO', 44.06, 28.63],
+  ['Costinești', 'Constanța', 'RO', 43.95, 28.63],
+  ['Mangalia', 'Constanța', 'RO', 43.82, 28.58],
+  ['Vama Veche', 'Constanța', 'RO', 43.75, 28.57],
+  ['Sulina', 'Tulcea', 'RO', 45.16, 29.65],
+  ['Sfântu Gheorghe', 'Tulcea', 'RO', 44.90, 29.59],
+  ['Tulcea', 'Tulcea', 'RO', 45.18, 28.80, true],
+  ['Jurilovca', 'Tulcea', 'RO', 44.77, 28.87],
+  ['Galați', 'Galați', 'RO', 45.44, 28.05, true],
+  ['Brăila', 'Brăila', 'RO', 45.27, 27.96, true],
+  ['Cluj-Napoca', 'Cluj', 'RO', 46.77, 23.60, true],
+  ['Timișoara', 'Timiș', 'RO', 45.75, 21.23, true],
+  ['Iași', 'Iași', 'RO', 47.16, 27.59, true],
+  ['Brașov', 'Brașov', 'RO', 45.65, 25.61, true],
+  ['Craiova', 'Dolj', 'RO', 44.32, 23.80, true],
+  ['Oradea', 'Bihor', 'RO', 47.07, 21.92, true],
+  ['Sibiu', 'Sibiu', 'RO', 45.79, 24.15, true],
+  ['Suceava', 'Suceava', 'RO', 47.65, 26.26, true],
+  ['Drobeta-Turnu Severin', 'Mehedinți', 'RO', 44.63, 22.66, true],
+  ['Călărași', 'Călărași', 'RO', 44.20, 27.33, true],
+
+  // Black Sea and Sea of Azov
+  ['Varna', 'Varna', 'BG', 43.21, 27.92],
+  ['Burgas', 'Burgas', 'BG', 42.50, 27.47],
+  ['Balchik', 'Dobrich', 'BG', 43.41, 28.16],
+  ['Kavarna', 'Dobrich', 'BG', 43.43, 28.34],
+  ['Nesebar', 'Burgas', 'BG', 42.66, 27.73],
+  ['Sozopol', 'Burgas', 'BG', 42.42, 27.70],
+  ['Tsarevo', 'Burgas', 'BG', 42.17, 27.85],
+  ['Sofia', 'Sofia City', 'BG', 42.70, 23.32, true],
+  ['Plovdiv', 'Plovdiv', 'BG', 42.15, 24.75, true],
+  ['Ruse', 'Ruse', 'BG', 43.85, 25.95, true],
+  ['Odesa', 'Odesa', 'UA', 46.48, 30.73],
+  ['Chornomorsk', 'Odesa', 'UA', 46.30, 30.66],
+  ['Izmail', 'Odesa', 'UA', 45.35, 28.84, true],
+  ['Vylkove', 'Odesa', 'UA', 45.40, 29.59],
+  ['Mykolaiv', 'Mykolaiv', 'UA', 46.97, 32.00, true],
+  ['Kherson', 'Kherson', 'UA', 46.64, 32.62],
+  ['Sevastopol', 'Crimea', 'UA', 44.62, 33.53],
+  ['Yalta', 'Crimea', 'UA', 44.50, 34.17],
+  ['Feodosiia', 'Crimea', 'UA', 45.03, 35.38],
+  ['Yevpatoriia', 'Crimea', 'UA', 45.19, 33.37],
+  ['Kerch', 'Crimea', 'UA', 45.36, 36.47],
+  ['Mariupol', 'Donetsk', 'UA', 47.10, 37.55],
+  ['Berdiansk', 'Zaporizhzhia', 'UA', 46.76, 36.79],
+  ['Kyiv', 'Kyiv', 'UA', 50.45, 30.52, true],
+  ['Lviv', 'Lviv', 'UA', 49.84, 24.03, true],
+  ['Chișinău', 'Chișinău', 'MD', 47.01, 28.86, true],
+  ['Giurgiulești', 'Cahul', 'MD', 45.47, 28.20, true],
+  ['Novorossiysk', 'Krasnodar Krai', 'RU', 44.72, 37.77],
+  ['Anapa', 'Krasnodar Krai', 'RU', 44.89, 37.32],
+  ['Gelendzhik', 'Krasnodar Krai', 'RU', 44.56, 38.08],
+  ['Tuapse', 'Krasnodar Krai', 'RU', 44.10, 39.08],
+  ['Sochi', 'Krasnodar Krai', 'RU', 43.60, 39.73],
+  ['Rostov-on-Don', 'Rostov Oblast', 'RU', 47.24, 39.71, true],
+  ['Taganrog', 'Rostov Oblast', 'RU', 47.21, 38.94],
+  ['Batumi', 'Adjara', 'GE', 41.64, 41.64],
+  ['Poti', 'Samegrelo-Zemo Svaneti', 'GE', 42.15, 41.67],
+  ['Tbilisi', 'Tbilisi', 'GE', 41.72, 44.79, true],
+  ['Sukhumi', 'Abkhazia', 'GE', 43.00, 41.02],
+  ['Trabzon', 'Trabzon', 'TR', 41.00, 39.72],
+  ['Rize', 'Rize', 'TR', 41.03, 40.52],
+  ['Samsun', 'Samsun', 'TR', 41.29, 36.33],
+  ['Sinop', 'Sinop', 'TR', 42.03, 35.15],
+  ['Zonguldak', 'Zonguldak', 'TR', 41.45, 31.79],
+  ['Şile', 'Istanbul', 'TR', 41.18, 29.61],
+
+  // Turkey, Aegean and eastern Mediterranean
+  ['Istanbul', 'Istanbul', 'TR', 41.01, 28.98],
+  ['Ankara', 'Ankara', 'TR', 39.93, 32.86, true],
+  ['Çanakkale', 'Çanakkale', 'TR', 40.15, 26.41],
+  ['İzmir', 'İzmir', 'TR', 38.42, 27.14],
+  ['Bodrum', 'Muğla', 'TR', 37.04, 27.43],
+  ['Marmaris', 'Muğla', 'TR', 36.85, 28.27],
+  ['Antalya', 'Antalya', 'TR', 36.90, 30.70],
+  ['Alanya', 'Antalya', 'TR', 36.54, 32.00],
+  ['Mersin', 'Mersin', 'TR', 36.80, 34.64],
+  ['İskenderun', 'Hatay', 'TR', 36.59, 36.17],
+  ['Athens', 'Attica', 'GR', 37.98, 23.73],
+  ['Piraeus', 'Attica', 'GR', 37.94, 23.65],
+  ['Thessaloniki', 'Central Macedonia', 'GR', 40.64, 22.94],
+  ['Kavala', 'Eastern Macedonia and Thrace', 'GR', 40.94, 24.41],
+  ['Alexandroupoli', 'Eastern Macedonia and Thrace', 'GR', 40.85, 25.87],
+  ['Volos', 'Thessaly', 'GR', 39.36, 22.94],
+  ['Patras', 'Western Greece', 'GR', 38.25, 21.73],
+  ['Corfu', 'Ionian Islands', 'GR', 39.62, 19.92],
+  ['Heraklion', 'Crete', 'GR', 35.34, 25.13],
+  ['Chania', 'Crete', 'GR', 35.51, 24.02],
+  ['Rhodes', 'South Aegean', 'GR', 36.43, 28.22],
+  ['Mytilene', 'North Aegean', 'GR', 39.11, 26.55],
+  ['Nicosia', 'Nicosia', 'CY', 35.17, 33.36, true],
+  ['Limassol', 'Limassol', 'CY', 34.68, 33.04],
+  ['Larnaca', 'Larnaca', 'CY', 34.92, 33.63],
+  ['Paphos', 'Paphos', 'CY', 34.78, 32.42],
+  ['Beirut', 'Beirut', 'LB', 33.89, 35.50],
+  ['Tripoli', 'North Governorate', 'LB', 34.44, 35.85],
+  ['Latakia', 'Latakia', 'SY', 35.52, 35.79],
+  ['Damascus', 'Damascus', 'SY', 33.51, 36.29, true],
+  ['Haifa', 'Haifa', 'IL', 32.79, 34.99],
+  ['Tel Aviv', 'Tel Aviv', 'IL', 32.09, 34.78],
+  ['Jerusalem', 'Jerusalem', 'IL', 31.77, 35.21, true],
+  ['Eilat', 'Southern District', 'IL', 29.56, 34.95],
+  ['Gaza', 'Gaza Strip', 'PS', 31.50, 34.47],
+  ['Ramallah', 'West Bank', 'PS', 31.90, 35.20, true],
+  ['Amman', 'Amman', 'JO', 31.95, 35.93, true],
+  ['Aqaba', 'Aqaba', 'JO', 29.53, 35.01],
+  ['Alexandria', 'Alexandria', 'EG', 31.20, 29.92],
+  ['Port Said', 'Port Said', 'EG', 31.26, 32.30],
+  ['Cairo', 'Cairo', 'EG', 30.04, 31.24, true],
+  ['Suez', 'Suez', 'EG', 29.97, 32.55],
+  ['Hurghada', 'Red Sea', 'EG', 27.26, 33.81],
+  ['Marsa Matruh', 'Matrouh', 'EG', 31.35, 27.24],
+
+  // Adriatic, Italy and central Mediterranean
+  ['Rome', 'Lazio', 'IT', 41.90, 12.50, true],
+  ['Civitavecchia', 'Lazio', 'IT', 42.09, 11.80],
+  ['Naples', 'Campania', 'IT', 40.85, 14.27],
+  ['Salerno', 'Campania', 'IT', 40.68, 14.77],
+  ['Genoa', 'Liguria', 'IT', 44.41, 8.93],
+  ['La Spezia', 'Liguria', 'IT', 44.10, 9.82],
+  ['Livorno', 'Tuscany', 'IT', 43.55, 10.31],
+  ['Venice', 'Veneto', 'IT', 45.44, 12.33],
+  ['Trieste', 'Friuli Venezia Giulia', 'IT', 45.65, 13.78],
+  ['Rimini', 'Emilia-Romagna', 'IT', 44.06, 12.57],
+  ['Ancona', 'Marche', 'IT', 43.62, 13.52],
+  ['Pescara', 'Abruzzo', 'IT', 42.46, 14.21],
+  ['Bari', 'Apulia', 'IT', 41.13, 16.87],
+  ['Brindisi', 'Apulia', 'IT', 40.64, 17.94],
+  ['Taranto', 'Apulia', 'IT', 40.47, 17.24],
+  ['Reggio Calabria', 'Calabria', 'IT', 38.11, 15.65],
+  ['Palermo', 'Sicily', 'IT', 38.12, 13.36],
+  ['Catania', 'Sicily', 'IT', 37.50, 15.09],
+  ['Messina', 'Sicily', 'IT', 38.19, 15.55],
+  ['Trapani', 'Sicily', 'IT', 38.02, 12.51],
+  ['Lampedusa', 'Sicily', 'IT', 35.50, 12.60],
+  ['Cagliari', 'Sardinia', 'IT', 39.22, 9.11],
+  ['Olbia', 'Sardinia', 'IT', 40.92, 9.50],
+  ['Milan', 'Lombardy', 'IT', 45.46, 9.19, true],
+  ['Vatican City', 'Vatican City', 'VA', 41.90, 12.45, true],
+  ['San Marino', 'San Marino', 'SM', 43.94, 12.45, true],
+  ['Valletta', 'Valletta', 'MT', 35.90, 14.51],
+  ['Ljubljana', 'Ljubljana', 'SI', 46.06, 14.51, true],
+  ['Koper', 'Koper', 'SI', 45.55, 13.73],
+  ['Zagreb', 'Zagreb', 'HR', 45.81, 15.98, true],
+  ['Rijeka', 'Primorje-Gorski Kotar', 'HR', 45.33, 14.44],
+  ['Pula', 'Istria', 'HR', 44.87, 13.85],
+  ['Zadar', 'Zadar', 'HR', 44.12, 15.23],
+  ['Split', 'Split-Dalmatia', 'HR', 43.51, 16.44],
+  ['Dubrovnik', 'Dubrovnik-Neretva', 'HR', 42.65, 18.09],
+  ['Sarajevo', 'Sarajevo', 'BA', 43.86, 18.41, true],
+  ['Neum', 'Herzegovina-Neretva', 'BA', 42.92, 17.62],
+  ['Podgorica', 'Podgorica', 'ME', 42.44, 19.26, true],
+  ['Budva', 'Budva', 'ME', 42.29, 18.84],
+  ['Bar', 'Bar', 'ME', 42.09, 19.10],
+  ['Tirana', 'Tirana', 'AL', 41.33, 19.82, true],
+  ['Durrës', 'Durrës', 'AL', 41.32, 19.45],
+  ['Vlorë', 'Vlorë', 'AL', 40.47, 19.49],
+  ['Sarandë', 'Vlorë', 'AL', 39.88, 20.00],
+  ['Belgrade', 'Belgrade', 'RS', 44.79, 20.45, true],
+  ['Pristina', 'Pristina', 'XK', 42.66, 21.17, true],
+  ['Skopje', 'Skopje', 'MK', 41.99, 21.43, true],
+  ['Budapest', 'Budapest', 'HU', 47.50, 19.04, true],
+  ['Tunis', 'Tunis', 'TN', 36.81, 10.18],
+  ['Sfax', 'Sfax', 'TN', 34.74, 10.76],
+  ['Sousse', 'Sousse', 'TN', 35.83, 10.64],
+  ['Djerba', 'Medenine', 'TN', 33.81, 10.86],
+  ['Tripoli', 'Tripoli', 'LY', 32.89, 13.19],
+  ['Benghazi', 'Benghazi', 'LY', 32.12, 20.07],
+  ['Misrata', 'Misrata', 'LY', 32.38, 15.09],
+  ['Tobruk', 'Butnan', 'LY', 32.08, 23.96],
+  ['Algiers', 'Algiers', 'DZ', 36.75, 3.06],
+  ['Oran', 'Oran', 'DZ', 35.70, -0.63],
+  ['Annaba', 'Annaba', 'DZ', 36.90, 7.76],
+
+  // Western Mediterranean and Iberia
+  ['Monaco', 'Monaco', 'MC', 43.74, 7.42],
+  ['Nice', 'Provence-Alpes-Côte d\'Azur', 'FR', 43.70, 7.27],
+  ['Cannes', 'Provence-Alpes-Côte d\'Azur', 'FR', 43.55, 7.01],
+  ['Toulon', 'Provence-Alpes-Côte d\'Azur', 'FR', 43.12, 5.93],
+  ['Marseille', 'Provence-Alpes-Côte d\'Azur', 'FR', 43.30, 5.37],
+  ['Montpellier', 'Occitanie', 'FR', 43.61, 3.88],
+  ['Perpignan', 'Occitanie', 'FR', 42.70, 2.90],
+  ['Ajaccio', 'Corsica', 'FR', 41.93, 8.74],
+  ['Bastia', 'Corsica', 'FR', 42.70, 9.45],
+  ['Barcelona', 'Catalonia', 'ES', 41.39, 2.17],
+  ['Tarragona', 'Catalonia', 'ES', 41.12, 1.25],
+  ['Valencia', 'Valencian Community', 'ES', 39.47, -0.38],
+  ['Alicante', 'Valencian Community', 'ES', 38.35, -0.48],
+  ['Cartagena', 'Murcia', 'ES', 37.61, -0.99],
+  ['Almería', 'Andalusia', 'ES', 36.84, -2.46],
+  ['Málaga', 'Andalusia', 'ES', 36.72, -4.42],
+  ['Algeciras', 'Andalusia', 'ES', 36.13, -5.45],
+  ['Cádiz', 'Andalusia', 'ES', 36.53, -6.29],
+  ['Huelva', 'Andalusia', 'ES', 37.26, -6.95],
+  ['Palma', 'Balearic Islands', 'ES', 39.57, 2.65],
+  ['Ibiza', 'Balearic Islands', 'ES', 38.91, 1.43],
+  ['Mahón', 'Balearic Islands', 'ES', 39.89, 4.27],
+  ['Madrid', 'Community of Madrid', 'ES', 40.42, -3.70, true],
+  ['Bilbao', 'Basque Country', 'ES', 43.26, -2.93],
+  ['San Sebastián', 'Basque Country', 'ES', 43.32, -1.98],
+  ['Santander', 'Cantabria', 'ES', 43.46, -3.81],
+  ['Gijón', 'Asturias', 'ES', 43.54, -5.66],
+  ['A Coruña', 'Galicia', 'ES', 43.36, -8.41],
+  ['Vigo', 'Galicia', 'ES', 42.24, -8.72],
+  ['Las Palmas', 'Canary Islands', 'ES', 28.12, -15.44],
+  ['Santa Cruz de Tenerife', 'Canary Islands', 'ES', 28.47, -16.25],
+  ['Arrecife', 'Canary Islands', 'ES', 28.96, -13.55],
+  ['Ceuta', 'Ceuta', 'ES', 35.89, -5.32],
+  ['Lisbon', 'Lisbon', 'PT', 38.72, -9.14],
+  ['Porto', 'Porto', 'PT', 41.15, -8.61],
+  ['Faro', 'Faro', 'PT', 37.02, -7.93],
+  ['Sines', 'Setúbal', 'PT', 37.96, -8.87],
+  ['Funchal', 'Madeira', 'PT', 32.65, -16.91],
+  ['Ponta Delgada', 'Azores', 'PT', 37.74, -25.67],
+  ['Rabat', 'Rabat-Salé-Kénitra', 'MA', 34.02, -6.84],
+  ['Casablanca', 'Casablanca-Settat', 'MA', 33.57, -7.59],
+  ['Tangier', 'Tanger-Tetouan-Al Hoceima', 'MA', 35.76, -5.83],
+  ['Agadir', 'Souss-Massa', 'MA', 30.42, -9.60],
+  ['Laayoune', 'Laâyoune-Sakia El Hamra', 'MA', 27.15, -13.20],
+
+  // Atlantic and northern Europe
+  ['Paris', 'Île-de-France', 'FR', 48.86, 2.35, true],
+  ['Bordeaux', 'Nouvelle-Aquitaine', 'FR', 44.84, -0.58, true],
+  ['La Rochelle', 'Nouvelle-Aquitaine', 'FR', 46.16, -1.15],
+  ['Biarritz', 'Nouvelle-Aquitaine', 'FR', 43.48, -1.56],
+  ['Nantes', 'Pays de la Loire', 'FR', 47.22, -1.55, true],
+  ['Brest', 'Brittany', 'FR', 48.39, -4.49],
+  ['Saint-Malo', 'Brittany', 'FR', 48.65, -2.03],
+  ['Le Havre', 'Normandy', 'FR', 49.49, 0.11],
+  ['Cherbourg', 'Normandy', 'FR', 49.64, -1.62],
+  ['Calais', 'Hauts-de-France', 'FR', 50.95, 1.86],
+  ['Dunkirk', 'Hauts-de-France', 'FR', 51.03, 2.38],
+  ['Brussels', 'Brussels', 'BE', 50.85, 4.35, true],
+  ['Ostend', 'West Flanders', 'BE', 51.23, 2.92],
+  ['Antwerp', 'Antwerp', 'BE', 51.22, 4.40, true],
+  ['Luxembourg', 'Luxembourg', 'LU', 49.61, 6.13, true],
+  ['Amsterdam', 'North Holland', 'NL', 52.37, 4.90],
+  ['Rotterdam', 'South Holland', 'NL', 51.92, 4.48],
+  ['The Hague', 'South Holland', 'NL', 52.08, 4.30],
+  ['Den Helder', 'North Holland', 'NL', 52.96, 4.76],
+  ['Groningen', 'Groningen', 'NL', 53.22, 6.57],
+  ['Berlin', 'Berlin', 'DE', 52.52, 13.40, true],
+  ['Hamburg', 'Hamburg', 'DE', 53.55, 9.99, true],
+  ['Bremerhaven', 'Bremen', 'DE', 53.55, 8.58],
+  ['Wilhelmshaven', 'Lower Saxony', 'DE', 53.53, 8.11],
+  ['Kiel', 'Schleswig-Holstein', 'DE', 54.32, 10.14],
+  ['Lübeck', 'Schleswig-Holstein', 'DE', 53.87, 10.69],
+  ['Rostock', 'Mecklenburg-Vorpommern', 'DE', 54.09, 12.13],
+  ['Munich', 'Bavaria', 'DE', 48.14, 11.58, true],
+  ['Vienna', 'Vienna', 'AT', 48.21, 16.37, true],
+  ['Bern', 'Bern', 'CH', 46.95, 7.45, true],
+  ['Vaduz', 'Vaduz', 'LI', 47.14, 9.52, true],
+  ['Prague', 'Prague', 'CZ', 50.08, 14.44, true],
+  ['Bratislava', 'Bratislava', 'SK', 48.15, 17.11, true],
+  ['Warsaw', 'Masovian', 'PL', 52.23, 21.01, true],
+  ['Gdańsk', 'Pomeranian', 'PL', 54.35, 18.65],
+  ['Gdynia', 'Pomeranian', 'PL', 54.52, 18.53],
+  ['Szczecin', 'West Pomeranian', 'PL', 53.43, 14.55, true],
+  ['Kołobrzeg', 'West Pomeranian', 'PL', 54.18, 15.58],
+  ['Kaliningrad', 'Kaliningrad Oblast', 'RU', 54.71, 20.51],
+  ['Klaipėda', 'Klaipėda', 'LT', 55.71, 21.14],
+  ['Vilnius', 'Vilnius', 'LT', 54.69, 25.28, true],
+  ['Riga', 'Riga', 'LV', 56.95, 24.11],
+  ['Liepāja', 'Liepāja', 'LV', 56.51, 21.01],
+  ['Tallinn', 'Harju', 'EE', 59.44, 24.75],
+  ['Pärnu', 'Pärnu', 'EE', 58.39, 24.50],
+  ['Minsk', 'Minsk', 'BY', 53.90, 27.57, true],
+  ['Helsinki', 'Uusimaa', 'FI', 60.17, 24.94],
+  ['Turku', 'Southwest Finland', 'FI', 60.45, 22.27],
+  ['Oulu', 'North Ostrobothnia', 'FI', 65.01, 25.47],
+  ['Mariehamn', 'Åland', 'FI', 60.10, 19.94],
+  ['Stockholm', 'Stockholm', 'SE', 59.33, 18.07],
+  ['Gothenburg', 'Västra Götaland', 'SE', 57.71, 11.97],
+  ['Malmö', 'Skåne', 'SE', 55.60, 13.00],
+  ['Visby', 'Gotland', 'SE', 57.64, 18.30],
+  ['Luleå', 'Norrbotten', 'SE', 65.58, 22.15],
+  ['Copenhagen', 'Capital Region', 'DK', 55.68, 12.57],
+  ['Aarhus', 'Central Jutland', 'DK', 56.16, 10.20],
+  ['Esbjerg', 'Southern Denmark', 'DK', 55.48, 8.45],
+  ['Skagen', 'North Jutland', 'DK', 57.72, 10.58],
+  ['Oslo', 'Oslo', 'NO', 59.91, 10.75],
+  ['Bergen', 'Vestland', 'NO', 60.39, 5.32],
+  ['Stavanger', 'Rogaland', 'NO', 58.97, 5.73],
+  ['Trondheim', 'Trøndelag', 'NO', 63.43, 10.40],
+  ['Bodø', 'Nordland', 'NO', 67.28, 14.40],
+  ['Tromsø', 'Troms', 'NO', 69.65, 18.96],
+  ['Hammerfest', 'Finnmark', 'NO', 70.66, 23.68],
+  ['Longyearbyen', 'Svalbard', 'NO', 78.22, 15.65],
+  ['Murmansk', 'Murmansk Oblast', 'RU', 68.97, 33.08],
+  ['Arkhangelsk', 'Arkhangelsk Oblast', 'RU', 64.54, 40.54],
+  ['Saint Petersburg', 'Saint Petersburg', 'RU', 59.94, 30.31],
+  ['Moscow', 'Moscow', 'RU', 55.76, 37.62, true],
+  ['Reykjavík', 'Capital Region', 'IS', 64.15, -21.94],
+  ['Akureyri', 'Northeastern Region', 'IS', 65.68, -18.09],
+  ['London', 'England', 'GB', 51.51, -0.13, true],
+  ['Dover', 'England', 'GB', 51.13, 1.31],
+  ['Brighton', 'England', 'GB', 50.82, -0.14],
+  ['Southampton', 'England', 'GB', 50.90, -1.40],
+  ['Plymouth', 'England', 'GB', 50.38, -4.14],
+  ['Penzance', 'England', 'GB', 50.12, -5.54],
+  ['Bristol', 'England', 'GB', 51.45, -2.59],
+  ['Liverpool', 'England', 'GB', 53.41, -2.99],
+  ['Hull', 'England', 'GB', 53.74, -0.33],
+  ['Newcastle upon Tyne', 'England', 'GB', 54.98, -1.61],
+  ['Norwich', 'England', 'GB', 52.63, 1.30, true],
+  ['Cardiff', 'Wales', 'GB', 51.48, -3.18],
+  ['Swansea', 'Wales', 'GB', 51.62, -3.94],
+  ['Edinburgh', 'Scotland', 'GB', 55.95, -3.19],
+  ['Glasgow', 'Scotland', 'GB', 55.86, -4.25, true],
+  ['Aberdeen', 'Scotland', 'GB', 57.15, -2.09],
+  ['Inverness', 'Scotland', 'GB', 57.48, -4.22],
+  ['Stornoway', 'Scotland', 'GB', 58.21, -6.39],
+  ['Kirkwall', 'Scotland', 'GB', 58.98, -2.96],
+  ['Lerwick', 'Scotland', 'GB', 60.15, -1.15],
+  ['Belfast', 'Northern Ireland', 'GB', 54.60, -5.93],
+  ['Dublin', 'Leinster', 'IE', 53.35, -6.26],
+  ['Cork', 'Munster', 'IE', 51.90, -8.47],
+  ['Galway', 'Connacht', 'IE', 53.27, -9.05],
+  ['Tórshavn', 'Faroe Islands', 'DK', 62.01, -6.77],
+  ['Nuuk', 'Greenland', 'DK', 64.18, -51.72],
+
+  // Middle East, Caucasus and Central Asia
+  ['Baku', 'Baku', 'AZ', 40.41, 49.87],
+  ['Yerevan', 'Yerevan', 'AM', 40.18, 44.51, true],
+  ['Aktau', 'Mangystau', 'KZ', 43.65, 51.16],
+  ['Astana', 'Astana', 'KZ', 51.17, 71.45, true],
+  ['Tashkent', 'Tashkent', 'UZ', 41.30, 69.24, true],
+  ['Ashgabat', 'Ashgabat', 'TM', 37.95, 58.38, true],
+  ['Türkmenbaşy', 'Balkan', 'TM', 40.02, 52.96],
+  ['Bishkek', 'Bishkek', 'KG', 42.87, 74.59, true],
+  ['Dushanbe', 'Dushanbe', 'TJ', 38.56, 68.77, true],
+  ['Kabul', 'Kabul', 'AF', 34.56, 69.21, true],
+  ['Makhachkala', 'Dagestan', 'RU', 42.98, 47.50],
+  ['Astrakhan', 'Astrakhan Oblast', 'RU', 46.35, 48.04, true],
+  ['Tehran', 'Tehran', 'IR', 35.69, 51.39, true],
+  ['Bandar Abbas', 'Hormozgan', 'IR', 27.18, 56.27],
+  ['Bushehr', 'Bushehr', 'IR', 28.97, 50.84],
+  ['Rasht', 'Gilan', 'IR', 37.28, 49.58],
+  ['Baghdad', 'Baghdad', 'IQ', 33.31, 44.37, true],
+  ['Basra', 'Basra', 'IQ', 30.51, 47.81, true],
+  ['Kuwait City', 'Al Asimah', 'KW', 29.38, 47.99],
+  ['Riyadh', 'Riyadh', 'SA', 24.71, 46.68, true],
+  ['Jeddah', 'Makkah', 'SA', 21.49, 39.19],
+  ['Dammam', 'Eastern Province', 'SA', 26.43, 50.10],
+  ['Manama', 'Capital Governorate', 'BH', 26.23, 50.59],
+  ['Doha', 'Doha', 'QA', 25.29, 51.53],
+  ['Abu Dhabi', 'Abu Dhabi', 'AE', 24.45, 54.38],
+  ['Dubai', 'Dubai', 'AE', 25.20, 55.27],
+  ['Muscat', 'Muscat', 'OM', 23.59, 58.41],
+  ['Salalah', 'Dhofar', 'OM', 17.02, 54.09],
+  ['Sanaa', 'Amanat Al Asimah', 'YE', 15.37, 44.19, true],
+  ['Aden', 'Aden', 'YE', 12.79, 45.04],
+  ['Al Hudaydah', 'Al Hudaydah', 'YE', 14.80, 42.95],
+
+  // Africa
+  ['Port Sudan', 'Red Sea', 'SD', 19.62, 37.22],
+  ['Khartoum', 'Khartoum', 'SD', 15.50, 32.56, true],
+  ['Juba', 'Central Equatoria', 'SS', 4.85, 31.58, true],
+  ['Asmara', 'Maekel', 'ER', 15.32, 38.93, true],
+  ['Massawa', 'Northern Red Sea', 'ER', 15.61, 39.45],
+  ['Djibouti', 'Djibouti', 'DJ', 11.59, 43.15],
+  ['Addis Ababa', 'Addis Ababa', 'ET', 9.03, 38.74, true],
+  ['Mogadishu', 'Banaadir', 'SO', 2.05, 45.32],
+  ['Berbera', 'Woqooyi Galbeed', 'SO', 10.44, 45.01],
+  ['Kismayo', 'Lower Juba', 'SO', -0.36, 42.55],
+  ['Nairobi', 'Nairobi', 'KE', -1.29, 36.82, true],
+  ['Mombasa', 'Mombasa', 'KE', -4.04, 39.67],
+  ['Lamu', 'Lamu', 'KE', -2.27, 40.90],
+  ['Kampala', 'Central Region', 'UG', 0.35, 32.58, true],
+  ['Kigali', 'Kigali', 'RW', -1.94, 30.06, true],
+  ['Gitega', 'Gitega', 'BI', -3.43, 29.92, true],
+  ['Dodoma', 'Dodoma', 'TZ', -6.16, 35.75, true],
+  ['Dar es Salaam', 'Dar es Salaam', 'TZ', -6.79, 39.21],
+  ['Zanzibar', 'Zanzibar', 'TZ', -6.16, 39.19],
+  ['Maputo', 'Maputo', 'MZ', -25.97, 32.57],
+  ['Beira', 'Sofala', 'MZ', -19.84, 34.84],
+  ['Nacala', 'Nampula', 'MZ', -14.56, 40.69],
+  ['Antananarivo', 'Analamanga', 'MG', -18.88, 47.51, true],
+  ['Toamasina', 'Atsinanana', 'MG', -18.15, 49.40],
+  ['Mahajanga', 'Boeny', 'MG', -15.72, 46.32],
+  ['Toliara', 'Atsimo-Andrefana', 'MG', -23.35, 43.67],
+  ['Moroni', 'Grande Comore', 'KM', -11.70, 43.26],
+  ['Victoria', 'Mahé', 'SC', -4.62, 55.45],
+  ['Port Louis', 'Port Louis', 'MU', -20.16, 57.50],
+  ['Lilongwe', 'Central Region', 'MW', -13.96, 33.77, true],
+  ['Lusaka', 'Lusaka', 'ZM', -15.39, 28.32, true],
+  ['Harare', 'Harare', 'ZW', -17.83, 31.05, true],
+  ['Gaborone', 'South-East', 'BW', -24.63, 25.92, true],
+  ['Maseru', 'Maseru', 'LS', -29.31, 27.48, true],
+  ['Mbabane', 'Hhohho', 'SZ', -26.31, 31.14, true],
+  ['Pretoria', 'Gauteng', 'ZA', -25.75, 28.19, true],
+  ['Durban', 'KwaZulu-Natal', 'ZA', -29.86, 31.02],
+  ['Richards Bay', 'KwaZulu-Natal', 'ZA', -28.78, 32.04],
+  ['East London', 'Eastern Cape', 'ZA', -33.02, 27.91],
+  ['Gqeberha', 'Eastern Cape', 'ZA', -33.96, 25.60],
+  ['Mossel Bay', 'Western Cape', 'ZA', -34.18, 22.14],
+  ['Cape Town', 'Western Cape', 'ZA', -33.92, 18.42],
+  ['Saldanha', 'Western Cape', 'ZA', -33.01, 17.94],
+  ['Port Nolloth', 'Northern Cape', 'ZA', -29.25, 16.87],
+  ['Windhoek', 'Khomas', 'NA', -22.56, 17.08, true],
+  ['Walvis Bay', 'Erongo', 'NA', -22.96, 14.51],
+  ['Lüderitz', 'ǁKaras', 'NA', -26.65, 15.16],
+  ['Luanda', 'Luanda', 'AO', -8.84, 13.23],
+  ['Lobito', 'Benguela', 'AO', -12.35, 13.55],
+  ['Namibe', 'Namibe', 'AO', -15.19, 12.15],
+  ['Kinshasa', 'Kinshasa', 'CD', -4.44, 15.27, true],
+  ['Matadi', 'Kongo Central', 'CD', -5.82, 13.45],
+  ['Brazzaville', 'Brazzaville', 'CG', -4.27, 15.28, true],
+  ['Pointe-Noire', 'Pointe-Noire', 'CG', -4.78, 11.86],
+  ['Libreville', 'Estuaire', 'GA', 0.42, 9.47],
+  ['Port-Gentil', 'Ogooué-Maritime', 'GA', -0.72, 8.78],
+  ['Malabo', 'Bioko Norte', 'GQ', 3.75, 8.78],
+  ['Bata', 'Litoral', 'GQ', 1.86, 9.77],
+  ['São Tomé', 'Água Grande', 'ST', 0.34, 6.73],
+  ['Yaoundé', 'Centre', 'CM', 3.85, 11.50, true],
+  ['Douala', 'Littoral', 'CM', 4.05, 9.70],
+  ['Bangui', 'Bangui', 'CF', 4.39, 18.56, true],
+  ['N\'Djamena', 'N\'Djamena', 'TD', 12.13, 15.06, true],
+  ['Abuja', 'Federal Capital Territory', 'NG', 9.06, 7.50, true],
+  ['Lagos', 'Lagos', 'NG', 6.52, 3.38],
+  ['Port Harcourt', 'Rivers', 'NG', 4.82, 7.03],
+  ['Calabar', 'Cross River', 'NG', 4.95, 8.32],
+  ['Porto-Novo', 'Ouémé', 'BJ', 6.50, 2.60, true],
+  ['Cotonou', 'Littoral', 'BJ', 6.37, 2.42],
+  ['Lomé', 'Maritime', 'TG', 6.13, 1.22],
+  ['Accra', 'Greater Accra', 'GH', 5.60, -0.19],
+  ['Takoradi', 'Western', 'GH', 4.90, -1.76],
+  ['Yamoussoukro', 'Yamoussoukro', 'CI', 6.83, -5.29, true],
+  ['Abidjan', 'Abidjan', 'CI', 5.36, -4.01],
+  ['San-Pédro', 'Bas-Sassandra', 'CI', 4.75, -6.64],
+  ['Monrovia', 'Montserrado', 'LR', 6.30, -10.80],
+  ['Freetown', 'Western Area', 'SL', 8.48, -13.23],
+  ['Conakry', 'Conakry', 'GN', 9.64, -13.58],
+  ['Bissau', 'Bissau', 'GW', 11.86, -15.60],
+  ['Banjul', 'Banjul', 'GM', 13.45, -16.58],
+  ['Dakar', 'Dakar', 'SN', 14.69, -17.44],
+  ['Saint-Louis', 'Saint-Louis', 'SN', 16.02, -16.49],
+  ['Nouakchott', 'Nouakchott', 'MR', 18.08, -15.98],
+  ['Nouadhibou', 'Dakhlet Nouadhibou', 'MR', 20.94, -17.04],
+  ['Praia', 'Santiago', 'CV', 14.93, -23.51],
+  ['Mindelo', 'São Vicente', 'CV', 16.89, -24.99],
+  ['Bamako', 'Bamako', 'ML', 12.64, -8.00, true],
+  ['Ouagadougou', 'Centre', 'BF', 12.37, -1.52, true],
+  ['Niamey', 'Niamey', 'NE', 13.51, 2.11, true],
+
+  // South and Southeast Asia
+  ['Karachi', 'Sindh', 'PK', 24.86, 67.01],
+  ['Gwadar', 'Balochistan', 'PK', 25.12, 62.33],
+  ['Islamabad', 'Islamabad', 'PK', 33.68, 73.05, true],
+  ['New Delhi', 'Delhi', 'IN', 28.61, 77.21, true],
+  ['Mumbai', 'Maharashtra', 'IN', 19.08, 72.88],
+  ['Goa', 'Goa', 'IN', 15.50, 73.83],
+  ['Kochi', 'Kerala', 'IN', 9.93, 76.27],
+  ['Chennai', 'Tamil Nadu', 'IN', 13.08, 80.27],
+  ['Visakhapatnam', 'Andhra Pradesh', 'IN', 17.69, 83.22],
+  ['Kolkata', 'West Bengal', 'IN', 22.57, 88.36, true],
+  ['Port Blair', 'Andaman and Nicobar Islands', 'IN', 11.62, 92.73],
+  ['Kavaratti', 'Lakshadweep', 'IN', 10.57, 72.64],
+  ['Colombo', 'Western Province', 'LK', 6.93, 79.86],
+  ['Trincomalee', 'Eastern Province', 'LK', 8.59, 81.22],
+  ['Malé', 'Malé', 'MV', 4.18, 73.51],
+  ['Kathmandu', 'Bagmati', 'NP', 27.72, 85.32, true],
+  ['Thimphu', 'Thimphu', 'BT', 27.47, 89.64, true],
+  ['Dhaka', 'Dhaka', 'BD', 23.81, 90.41, true],
+  ['Chittagong', 'Chittagong', 'BD', 22.36, 91.78],
+  ['Naypyidaw', 'Naypyidaw', 'MM', 19.76, 96.08, true],
+  ['Yangon', 'Yangon', 'MM', 16.87, 96.20],
+  ['Bangkok', 'Bangkok', 'TH', 13.76, 100.50],
+  ['Phuket', 'Phuket', 'TH', 7.88, 98.39],
+  ['Pattaya', 'Chonburi', 'TH', 12.93, 100.88],
+  ['Songkhla', 'Songkhla', 'TH', 7.19, 100.60],
+  ['Vientiane', 'Vientiane', 'LA', 17.98, 102.63, true],
+  ['Phnom Penh', 'Phnom Penh', 'KH', 11.56, 104.92, true],
+  ['Sihanoukville', 'Preah Sihanouk', 'KH', 10.63, 103.52],
+  ['Hanoi', 'Hanoi', 'VN', 21.03, 105.85, true],
+  ['Haiphong', 'Haiphong', 'VN', 20.86, 106.68],
+  ['Da Nang', 'Da Nang', 'VN', 16.05, 108.22],
+  ['Nha Trang', 'Khánh Hòa', 'VN', 12.24, 109.19],
+  ['Ho Chi Minh City', 'Ho Chi Minh City', 'VN', 10.82, 106.63, true],
+  ['Kuala Lumpur', 'Kuala Lumpur', 'MY', 3.14, 101.69, true],
+  ['Penang', 'Penang', 'MY', 5.41, 100.33],
+  ['Kuantan', 'Pahang', 'MY', 3.81, 103.33],
+  ['Kota Kinabalu', 'Sabah', 'MY', 5.98, 116.07],
+  ['Kuching', 'Sarawak', 'MY', 1.55, 110.36],
+  ['Singapore', 'Singapore', 'SG', 1.29, 103.85],
+  ['Bandar Seri Begawan', 'Brunei-Muara', 'BN', 4.90, 114.94],
+  ['Jakarta', 'Jakarta', 'ID', -6.21, 106.85],
+  ['Surabaya', 'East Java', 'ID', -7.26, 112.75],
+  ['Denpasar', 'Bali', 'ID', -8.65, 115.22],
+  ['Medan', 'North Sumatra', 'ID', 3.59, 98.67],
+  ['Padang', 'West Sumatra', 'ID', -0.95, 100.35],
+  ['Makassar', 'South Sulawesi', 'ID', -5.15, 119.43],
+  ['Manado', 'North Sulawesi', 'ID', 1.47, 124.84],
+  ['Balikpapan', 'East Kalimantan', 'ID', -1.27, 116.83],
+  ['Ambon', 'Maluku', 'ID', -3.70, 128.18],
+  ['Kupang', 'East Nusa Tenggara', 'ID', -10.17, 123.61],
+  ['Jayapura', 'Papua', 'ID', -2.53, 140.72],
+  ['Sorong', 'Southwest Papua', 'ID', -0.88, 131.26],
+  ['Dili', 'Dili', 'TL', -8.56, 125.57],
+  ['Manila', 'Metro Manila', 'PH', 14.60, 120.98],
+  ['Cebu City', 'Central Visayas', 'PH', 10.32, 123.89],
+  ['Davao City', 'Davao', 'PH', 7.19, 125.46],
+  ['Puerto Princesa', 'Palawan', 'PH', 9.74, 118.74],
+
+  // East Asia
+  ['Beijing', 'Beijing', 'CN', 39.90, 116.41, true],
+  ['Tianjin', 'Tianjin', 'CN', 39.13, 117.20],
+  ['Dalian', 'Liaoning', 'CN', 38.91, 121.60],
+  ['Qingdao', 'Shandong', 'CN', 36.07, 120.38],
+  ['Shanghai', 'Shanghai', 'CN', 31.23, 121.47],
+  ['Ningbo', 'Zhejiang', 'CN', 29.87, 121.54],
+  ['Xiamen', 'Fujian', 'CN', 24.48, 118.09],
+  ['Shenzhen', 'Guangdong', 'CN', 22.54, 114.06],
+  ['Hong Kong', 'Hong Kong', 'CN', 22.32, 114.17],
+  ['Guangzhou', 'Guangdong', 'CN', 23.13, 113.26, true],
+  ['Haikou', 'Hainan', 'CN', 20.04, 110.34],
+  ['Sanya', 'Hainan', 'CN', 18.25, 109.51],
+  ['Taipei', 'Taipei', 'CN', 25.03, 121.57],
+  ['Kaohsiung', 'Kaohsiung', 'CN', 22.63, 120.30],
+  ['Ulaanbaatar', 'Ulaanbaatar', 'MN', 47.89, 106.91, true],
+  ['Pyongyang', 'Pyongyang', 'KP', 39.04, 125.76, true],
+  ['Wonsan', 'Kangwon', 'KP', 39.15, 127.44],
+  ['Seoul', 'Seoul', 'KR', 37.57, 126.98, true],
+  ['Incheon', 'Incheon', 'KR', 37.46, 126.71],
+  ['Busan', 'Busan', 'KR', 35.18, 129.08],
+  ['Jeju', 'Jeju', 'KR', 33.50, 126.53],
+  ['Tokyo', 'Tokyo', 'JP', 35.68, 139.69],
+  ['Yokohama', 'Kanagawa', 'JP', 35.44, 139.64],
+  ['Osaka', 'Osaka', 'JP', 34.69, 135.50],
+  ['Nagoya', 'Aichi', 'JP', 35.18, 136.91],
+  ['Fukuoka', 'Fukuoka', 'JP', 33.59, 130.40],
+  ['Niigata', 'Niigata', 'JP', 37.92, 139.04],
+  ['Sendai', 'Miyagi', 'JP', 38.27, 140.87],
+  ['Sapporo', 'Hokkaido', 'JP', 43.06, 141.35],
+  ['Hakodate', 'Hokkaido', 'JP', 41.77, 140.73],
+  ['Naha', 'Okinawa', 'JP', 26.21, 127.68],
+  ['Vladivostok', 'Primorsky Krai', 'RU', 43.12, 131.89],
+  ['Yuzhno-Sakhalinsk', 'Sakhalin Oblast', 'RU', 46.96, 142.74],
+  ['Petropavlovsk-Kamchatsky', 'Kamchatka Krai', 'RU', 53.02, 158.65],
+  ['Magadan', 'Magadan Oblast', 'RU', 59.56, 150.80],
+
+  // Oceania
+  ['Canberra', 'Australian Capital Territory', 'AU', -35.28, 149.13, true],
+  ['Sydney', 'New South Wales', 'AU', -33.87, 151.21],
+  ['Newcastle', 'New South Wales', 'AU', -32.93, 151.78],
+  ['Brisbane', 'Queensland', 'AU', -27.47, 153.03],
+  ['Gold Coast', 'Queensland', 'AU', -28.02, 153.40],
+  ['Townsville', 'Queensland', 'AU', -19.26, 146.82],
+  ['Cairns', 'Queensland', 'AU', -16.92, 145.77],
+  ['Darwin', 'Northern Territory', 'AU', -12.46, 130.84],
+  ['Broome', 'Western Australia', 'AU', -17.96, 122.24],
+  ['Port Hedland', 'Western Australia', 'AU', -20.31, 118.58],
+  ['Perth', 'Western Australia', 'AU', -31.95, 115.86],
+  ['Albany', 'Western Australia', 'AU', -35.02, 117.88],
+  ['Adelaide', 'South Australia', 'AU', -34.93, 138.60],
+  ['Melbourne', 'Victoria', 'AU', -37.81, 144.96],
+  ['Hobart', 'Tasmania', 'AU', -42.88, 147.33],
+  ['Wellington', 'Wellington', 'NZ', -41.29, 174.78],
+  ['Auckland', 'Auckland', 'NZ', -36.85, 174.76],
+  ['Tauranga', 'Bay of Plenty', 'NZ', -37.69, 176.17],
+  ['Christchurch', 'Canterbury', 'NZ', -43.53, 172.64],
+  ['Dunedin', 'Otago', 'NZ', -45.87, 170.50],
+  ['Port Moresby', 'National Capital District', 'PG', -9.44, 147.18],
+  ['Lae', 'Morobe', 'PG', -6.72, 147.00],
+  ['Honiara', 'Guadalcanal', 'SB', -9.43, 159.95],
+  ['Port Vila', 'Shefa', 'VU', -17.73, 168.32],
+  ['Nouméa', 'South Province', 'FR', -22.28, 166.46],
+  ['Suva', 'Central', 'FJ', -18.14, 178.44],
+  ['Nukuʻalofa', 'Tongatapu', 'TO', -21.14, -175.20],
+  ['Apia', 'Tuamasaga', 'WS', -13.83, -171.76],
+  ['Funafuti', 'Funafuti', 'TV', -8.52, 179.20],
+  ['Tarawa', 'Gilbert Islands', 'KI', 1.45, 173.03],
+  ['Majuro', 'Majuro', 'MH', 7.09, 171.38],
+  ['Palikir', 'Pohnpei', 'FM', 6.92, 158.16],
+  ['Ngerulmud', 'Melekeok', 'PW', 7.50, 134.62],
+  ['Yaren', 'Yaren', 'NR', -0.55, 166.92],
+  ['Papeete', 'French Polynesia', 'FR', -17.54, -149.57],
+  ['Honolulu', 'Hawaii', 'US', 21.31, -157.86],
+  ['Hilo', 'Hawaii', 'US', 19.72, -155.08],
+  ['Hagåtña', 'Guam', 'US', 13.48, 144.75],
+
+  // North America
+  ['Washington', 'District of Columbia', 'US', 38.91, -77.04, true],
+  ['New York', 'New York', 'US', 40.71, -74.01],
+  ['Boston', 'Massachusetts', 'US', 42.36, -71.06],
+  ['Portland', 'Maine', 'US', 43.66, -70.26],
+  ['Philadelphia', 'Pennsylvania', 'US', 39.95, -75.17, true],
+  ['Norfolk', 'Virginia', 'US', 36.85, -76.29],
+  ['Wilmington', 'North Carolina', 'US', 34.23, -77.94],
+  ['Charleston', 'South Carolina', 'US', 32.78, -79.93],
+  ['Jacksonville', 'Florida', 'US', 30.33, -81.66],
+  ['Miami', 'Florida', 'US', 25.76, -80.19],
+  ['Key West', 'Florida', 'US', 24.56, -81.78],
+  ['Tampa', 'Florida', 'US', 27.95, -82.46],
+  ['Pensacola', 'Florida', 'US', 30.42, -87.22],
+  ['New Orleans', 'Louisiana', 'US', 29.95, -90.07],
+  ['Houston', 'Texas', 'US', 29.76, -95.37, true],
+  ['Corpus Christi', 'Texas', 'US', 27.80, -97.40],
+  ['San Diego', 'California', 'US', 32.72, -117.16],
+  ['Los Angeles', 'California', 'US', 34.05, -118.24],
+  ['San Francisco', 'California', 'US', 37.77, -122.42],
+  ['Eureka', 'California', 'US', 40.80, -124.16],
+  ['Portland', 'Oregon', 'US', 45.52, -122.68, true],
+  ['Seattle', 'Washington', 'US', 47.61, -122.33],
+  ['Juneau', 'Alaska', 'US', 58.30, -134.42],
+  ['Anchorage', 'Alaska', 'US', 61.22, -149.90],
+  ['Kodiak', 'Alaska', 'US', 57.79, -152.41],
+  ['Nome', 'Alaska', 'US', 64.50, -165.41],
+  ['Utqiaġvik', 'Alaska', 'US', 71.29, -156.79],
+  ['Chicago', 'Illinois', 'US', 41.88, -87.63, true],
+  ['Detroit', 'Michigan', 'US', 42.33, -83.05, true],
+  ['Denver', 'Colorado', 'US', 39.74, -104.99, true],
+  ['Ottawa', 'Ontario', 'CA', 45.42, -75.70, true],
+  ['Toronto', 'Ontario', 'CA', 43.65, -79.38, true],
+  ['Montreal', 'Quebec', 'CA', 45.50, -73.57, true],
+  ['Quebec City', 'Quebec', 'CA', 46.81, -71.21],
+  ['Halifax', 'Nova Scotia', 'CA', 44.65, -63.58],
+  ['Saint John', 'New Brunswick', 'CA', 45.27, -66.06],
+  ['St. John\'s', 'Newfoundland and Labrador', 'CA', 47.56, -52.71],
+  ['Charlottetown', 'Prince Edward Island', 'CA', 46.24, -63.13],
+  ['Iqaluit', 'Nunavut', 'CA', 63.75, -68.52],
+  ['Churchill', 'Manitoba', 'CA', 58.77, -94.17],
+  ['Vancouver', 'British Columbia', 'CA', 49.28, -123.12],
+  ['Victoria', 'British Columbia', 'CA', 48.43, -123.37],
+  ['Prince Rupert', 'British Columbia', 'CA', 54.32, -130.32],
+  ['Winnipeg', 'Manitoba', 'CA', 49.90, -97.14, true],
+  ['Mexico City', 'Mexico City', 'MX', 19.43, -99.13, true],
+  ['Tijuana', 'Baja California', 'MX', 32.51, -117.04],
+  ['La Paz', 'Baja California Sur', 'MX', 24.14, -110.31],
+  ['Mazatlán', 'Sinaloa', 'MX', 23.25, -106.41],
+  ['Puerto Vallarta', 'Jalisco', 'MX', 20.65, -105.23],
+  ['Acapulco', 'Guerrero', 'MX', 16.85, -99.82],
+  ['Veracruz', 'Veracruz', 'MX', 19.17, -96.13],
+  ['Tampico', 'Tamaulipas', 'MX', 22.23, -97.86],
+  ['Mérida', 'Yucatán', 'MX', 20.97, -89.62],
+  ['Cancún', 'Quintana Roo', 'MX', 21.16, -86.85],
+
+  // Central America and the Caribbean
+  ['Belmopan', 'Cayo', 'BZ', 17.25, -88.77, true],
+  ['Belize City', 'Belize', 'BZ', 17.50, -88.20],
+  ['Guatemala City', 'Guatemala', 'GT', 14.63, -90.51, true],
+  ['San Salvador', 'San Salvador', 'SV', 13.69, -89.22, true],
+  ['Tegucigalpa', 'Francisco Morazán', 'HN', 14.07, -87.19, true],
+  ['Puerto Cortés', 'Cortés', 'HN', 15.85, -87.94],
+  ['Managua', 'Managua', 'NI', 12.11, -86.24, true],
+  ['Bluefields', 'South Caribbean Coast', 'NI', 12.01, -83.76],
+  ['San José', 'San José', 'CR', 9.93, -84.08, true],
+  ['Puntarenas', 'Puntarenas', 'CR', 9.98, -84.84],
+  ['Limón', 'Limón', 'CR', 9.99, -83.03],
+  ['Panama City', 'Panamá', 'PA', 8.98, -79.52],
+  ['Colón', 'Colón', 'PA', 9.36, -79.90],
+  ['Havana', 'Havana', 'CU', 23.11, -82.37],
+  ['Santiago de Cuba', 'Santiago de Cuba', 'CU', 20.02, -75.82],
+  ['Nassau', 'New Providence', 'BS', 25.05, -77.35],
+  ['Kingston', 'Kingston', 'JM', 17.97, -76.79],
+  ['Montego Bay', 'Saint James', 'JM', 18.47, -77.92],
+  ['Port-au-Prince', 'Ouest', 'HT', 18.59, -72.31],
+  ['Cap-Haïtien', 'Nord', 'HT', 19.76, -72.20],
+  ['Santo Domingo', 'Distrito Nacional', 'DO', 18.49, -69.93],
+  ['Puerto Plata', 'Puerto Plata', 'DO', 19.80, -70.69],
+  ['San Juan', 'Puerto Rico', 'US', 18.47, -66.11],
+  ['Basseterre', 'Saint George Basseterre', 'KN', 17.30, -62.72],
+  ['Saint John\'s', 'Saint John', 'AG', 17.12, -61.85],
+  ['Roseau', 'Saint George', 'DM', 15.30, -61.39],
+  ['Fort-de-France', 'Martinique', 'FR', 14.62, -61.06],
+  ['Pointe-à-Pitre', 'Guadeloupe', 'FR', 16.24, -61.53],
+  ['Castries', 'Castries', 'LC', 14.01, -60.99],
+  ['Kingstown', 'Saint George', 'VC', 13.16, -61.22],
+  ['Bridgetown', 'Saint Michael', 'BB', 13.10, -59.62],
+  ['Saint George\'s', 'Saint George', 'GD', 12.06, -61.75],
+  ['Port of Spain', 'Port of Spain', 'TT', 10.65, -61.51],
+  ['Willemstad', 'Curaçao', 'NL', 12.11, -68.93],
+
+  // South America
+  ['Caracas', 'Capital District', 'VE', 10.48, -66.90],
+  ['Maracaibo', 'Zulia', 'VE', 10.65, -71.64],
+  ['Puerto La Cruz', 'Anzoátegui', 'VE', 10.21, -64.63],
+  ['Bogotá', 'Bogotá', 'CO', 4.71, -74.07, true],
+  ['Cartagena', 'Bolívar', 'CO', 10.39, -75.48],
+  ['Barranquilla', 'Atlántico', 'CO', 10.96, -74.80],
+  ['Santa Marta', 'Magdalena', 'CO', 11.24, -74.20],
+  ['Buenaventura', 'Valle del Cauca', 'CO', 3.88, -77.03],
+  ['Georgetown', 'Demerara-Mahaica', 'GY', 6.80, -58.16],
+  ['Paramaribo', 'Paramaribo', 'SR', 5.85, -55.20],
+  ['Cayenne', 'French Guiana', 'FR', 4.92, -52.33],
+  ['Quito', 'Pichincha', 'EC', -0.18, -78.47, true],
+  ['Guayaquil', 'Guayas', 'EC', -2.17, -79.92],
+  ['Manta', 'Manabí', 'EC', -0.95, -80.73],
+  ['Puerto Ayora', 'Galápagos', 'EC', -0.75, -90.31],
+  ['Lima', 'Lima', 'PE', -12.05, -77.04],
+  ['Callao', 'Callao', 'PE', -12.06, -77.15],
+  ['Chimbote', 'Áncash', 'PE', -9.07, -78.59],
+  ['Trujillo', 'La Libertad', 'PE', -8.11, -79.03],
+  ['Paita', 'Piura', 'PE', -5.09, -81.11],
+  ['Ilo', 'Moquegua', 'PE', -17.64, -71.34],
+  ['La Paz', 'La Paz', 'BO', -16.49, -68.12, true],
+  ['Sucre', 'Chuquisaca', 'BO', -19.04, -65.26, true],
+  ['Asunción', 'Asunción', 'PY', -25.26, -57.58, true],
+  ['Santiago', 'Santiago Metropolitan', 'CL', -33.45, -70.67, true],
+  ['Valparaíso', 'Valparaíso', 'CL', -33.05, -71.62],
+  ['Arica', 'Arica y Parinacota', 'CL', -18.48, -70.31],
+  ['Antofagasta', 'Antofagasta', 'CL', -23.65, -70.40],
+  ['Concepción', 'Biobío', 'CL', -36.83, -73.05],
+  ['Puerto Montt', 'Los Lagos', 'CL', -41.47, -72.94],
+  ['Punta Arenas', 'Magallanes', 'CL', -53.16, -70.91],
+  ['Hanga Roa', 'Valparaíso', 'CL', -27.15, -109.43],
+  ['Buenos Aires', 'Buenos Aires', 'AR', -34.60, -58.38],
+  ['Mar del Plata', 'Buenos Aires', 'AR', -38.00, -57.56],
+  ['Bahía Blanca', 'Buenos Aires', 'AR', -38.72, -62.27],
+  ['Puerto Madryn', 'Chubut', 'AR', -42.77, -65.04],
+  ['Comodoro Rivadavia', 'Chubut', 'AR', -45.86, -67.48],
+  ['Río Gallegos', 'Santa Cruz', 'AR', -51.62, -69.22],
+  ['Ushuaia', 'Tierra del Fuego', 'AR', -54.80, -68.30],
+  ['Stanley', 'Falkland Islands', 'GB', -51.69, -57.86],
+  ['Montevideo', 'Montevideo', 'UY', -34.90, -56.16],
+  ['Punta del Este', 'Maldonado', 'UY', -34.96, -54.95],
+  ['Brasília', 'Federal District', 'BR', -15.79, -47.88, true],
+  ['Rio de Janeiro', 'Rio de Janeiro', 'BR', -22.91, -43.17],
+  ['São Paulo', 'São Paulo', 'BR', -23.55, -46.63, true],
+  ['Santos', 'São Paulo', 'BR', -23.96, -46.33],
+  ['Florianópolis', 'Santa Catarina', 'BR', -27.60, -48.55],
+  ['Porto Alegre', 'Rio Grande do Sul', 'BR', -30.03, -51.23],
+  ['Rio Grande', 'Rio Grande do Sul', 'BR', -32.04, -52.10],
+  ['Vitória', 'Espírito Santo', 'BR', -20.32, -40.34],
+  ['Salvador', 'Bahia', 'BR', -12.97, -38.50],
+  ['Recife', 'Pernambuco', 'BR', -8.05, -34.88],
+  ['Natal', 'Rio Grande do Norte', 'BR', -5.79, -35.21],
+  ['Fortaleza', 'Ceará', 'BR', -3.73, -38.53],
+  ['São Luís', 'Maranhão', 'BR', -2.53, -44.30],
+  ['Belém', 'Pará', 'BR', -1.46, -48.50],
+  ['Macapá', 'Amapá', 'BR', 0.03, -51.07],
+  ['Manaus', 'Amazonas', 'BR', -3.12, -60.02, true],
+];
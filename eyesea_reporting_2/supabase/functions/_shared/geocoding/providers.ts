@@ -0,0 +1,155 @@
+/**
+ * Geocoding provider chain
+ *
+ * Providers are tried in GEOCODE_PROVIDERS order (comma-separated, default
+ * "mapbox,nominatim,offline"); unconfigured ones are skipped. A reverse
+ * result without a country, a forward search without matches, or a
+ * provider error moves on to the next provider. The offline provider needs
+ * no network, so keep it last (or on its own, for tests); it only reverse
+ * geocodes when no online provider answered, since an online answer without
+ * a country means the point is at sea.
+ *
+ * Pass a GeocodeCounters to tally each provider call and error (stats.ts).
+ */
+
+import { mapboxProvider } from './mapbox.ts';
+import { nominatimProvider } from './nominatim.ts';
+import { offlineProvider } from './offline.ts';
+import { countStat, type GeocodeCounters } from './stats.ts';
+
+export interface GeocodeResult {
+  placeName: string;
+  city: string | null;
+  country: string | null;
+  countryCode: string | null; // ISO 3166-1 alpha-2, upper case
+  provider: string;
+  raw?: unknown; // Provider response, stored in location_cache.full_response
+}
+
+export interface ForwardResult {
+  placeName: string;
+  city: string | null;
+  country: string | null;
+  countryCode: string | null;
+  lat: number;
+  lng: number;
+  bbox: [number, number, number, number] | null; // west, south, east, north
+  provider: string;
+}
+
+export interface GeocodeProvider {
+  name: string;
+  isConfigured(): boolean;
+  reverse(lat: number, lng: number): Promise<GeocodeResult>;
+  forward(query: string, limit: number): Promise<ForwardResult[]>;
+}
+
+const PROVIDERS: Record<string, GeocodeProvider> = {
+  mapbox: mapboxProvider,
+  nominatim: nominatimProvider,
+  offline: offlineProvider,
+};
+
+const DEFAULT_CHAIN = 'mapbox,nominatim,offline';
+
+/**
+ * Configured providers in the order they should be tried
+ */
+export function providerChain(): GeocodeProvider[] {
+  const names = (Deno.env.get('GEOCODE_PROVIDERS') ?? DEFAULT_CHAIN)
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const chain: GeocodeProvider[] = [];
+  for (const name of names) {
+    const provider = PROVIDERS[name];
+    if (!provider) {
+      console.warn(`Unknown geocoding provider: ${name}`);
+    } else if (provider.isConfigured() && !chain.includes(provider)) {
+      chain.push(provider);
+    }
+  }
+  return chain;
+}
+
+/**
+ * Reverse geocode through the chain. Returns the first result with a
+ * country, else the best partial one; throws only if every provider failed.
+ */
+export async function reverseGeocode(
+  lat: number,
+  lng: number,
+  counters?: GeocodeCounters
+): Promise<GeocodeResult> {
+  const chain = providerChain();
+  if (chain.length === 0) {
+    throw new Error('No geocoding provider configured');
+  }
+
+  let partial: GeocodeResult | null = null;
+  const errors: string[] = [];
+
+  for (const provider of chain) {
+    // Coarser than the online providers, so it doesn't overrule them at sea
+    if (partial && provider === offlineProvider) break;
+
+    if (counters) countStat(counters, 'provider_call', provider.name);
+    try {
+      const result = await provider.reverse(lat, lng);
+      if (result.country) {
+        return result;
+      }
+      console.log(`${provider.name} found no country, trying next provider`);
+      partial = partial ?? result;
+    } catch (error) {
+      console.warn(`${provider.name} geocoding failed:`, (error as Error).message);
+      if (counters) countStat(counters, 'provider_error', provider.name);
+      errors.push(`${provider.name}: ${(error as Error).message}`);
+    }
+  }
+
+  if (partial) {
+    return partial;
+  }
+  throw new Error(`All geocoding providers failed (${errors.join('; ')})`);
+}
+
+/**
+ * Forward geocode (place name -> coordinates) through the chain. Returns
+ * the matches of the first provider that has any; throws only if every
+ * provider failed.
+ */
+export async function forwardGeocode(
+  query: string,
+  limit: number,
+  counters?: GeocodeCounters
+): Promise<ForwardResult[]> {
+  const chain = providerChain();
+  if (chain.length === 0) {
+    throw new Error('No geocoding provider configured');
+  }
+
+  let answered = false;
+  const errors: string[] = [];
+
+  for (const provider of chain) {
+    if (counters) countStat(counters, 'provider_call', provider.name);
+    try {
+      const results = await provider.forward(query, limit);
+      if (results.length > 0) {
+        return results;
+      }
+      answered = true;
+    } catch (error) {
+      console.warn(`${provider.name} forward geocoding failed:`, (error as Error).message);
+      if (counters) countStat(counters, 'provider_error', provider.name);
+      errors.push(`${provider.name}: ${(error as Error).message}`);
+    }
+  }
+
+  if (answered) {
+    return [];
+  }
+  throw new Error(`All geocoding providers failed (${errors.join('; ')})`);
+}
@@ -0,0 +1,345 @@
+/**
+ * Cached reverse geocoding
+ *
+ * Looks points up in location_cache (one query for the whole batch), sends
+ * only the misses through the provider chain, adds the marine context and
+ * caches the new results.
+ *
+ * Expired entries are still served for a while (stale-while-revalidate) and
+ * re-geocoded after the response. Hits, misses and provider calls are
+ * counted in geocode_stats (stats.ts).
+ */
+
+import { runInBackground } from '../background.ts';
+import type { SupabaseClient } from '../http.ts';
+import { describeMarine, type MarineInfo, offshorePlaceName } from './marine.ts';
+import { reverseGeocode } from './providers.ts';
+import { countStat, createCounters, type GeocodeCounters, recordStats } from './stats.ts';
+
+// Provider calls in flight at once for a batch
+const BATCH_CONCURRENCY = 4;
+
+// Decimal places of the cache key: 3 = ~110m, 4 = ~11m, 5 = ~1m.
+// Finer keys would make nearly every lookup a miss.
+export const MIN_CACHE_PRECISION = 3;
+export const MAX_CACHE_PRECISION = 5;
+export const DEFAULT_CACHE_PRECISION = 4;
+
+// Days a result stays fresh. Sea and ocean names don't change, so offshore
+// results keep longer than place names.
+const DEFAULT_TTL_DAYS = 30; // GEOCODE_CACHE_TTL_DAYS
+const DEFAULT_OFFSHORE_TTL_DAYS = 180; // GEOCODE_OFFSHORE_CACHE_TTL_DAYS
+
+// Days past expiry an entry is still served while it is refreshed
+// (GEOCODE_CACHE_STALE_DAYS); older entries are misses
+const DEFAULT_STALE_DAYS = 30;
+
+const CACHE_COLUMNS = `
+  lat, lng, place_name, city, country, country_code, provider,
+  offshore, water_body, eez_country, eez_country_code, coast_distance_km,
+  expires_at
+`;
+
+// Entries this worker is refreshing, so concurrent requests for the same
+// stale entry refresh it once
+const refreshing = new Set<string>();
+
+export interface GeocodePoint {
+  lat: number;
+  lng: number;
+}
+
+export interface GeocodingResponse {
+  placeName: string;
+  city: string | null;
+  country: string | null;
+  countryCode: string | null;
+  provider: string; // Provider that answered (cache hits keep the original)
+  offshore: boolean;
+  waterBody: string | null; // Sea or ocean, for offshore and coastal points
+  eezCountry: string | null; // Country whose EEZ the point lies in
+  eezCountryCode: string | null;
+  coastDistanceKm: number | null; // Approximate, see marine.ts
+  cached: boolean;
+}
+
+// Per-point failure in a batch: every provider failed
+export interface GeocodingFailure {
+  error: string;
+}
+
+export type GeocodingOutcome = GeocodingResponse | GeocodingFailure;
+
+/**
+ * Reverse geocode points, in order. Points that round to the same cache
+ * key are looked up once. precision must be within the cache bounds above.
+ */
+export async function reverseGeocodeCached(
+  supabase: SupabaseClient,
+  points: GeocodePoint[],
+  precision: number
+): Promise<GeocodingOutcome[]> {
+  // Round coordinates for cache key
+  const rounded = points.map((point) => ({
+    lat: parseFloat(point.lat.toFixed(precision)),
+    lng: parseFloat(point.lng.toFixed(precision)),
+  }));
+
+  const unique = new Map<string, GeocodePoint>();
+  for (const point of rounded) {
+    unique.set(cacheKey(point), point);
+  }
+
+  const counters = createCounters();
+
+  // 1. Check cache first
+  const { hits: outcomes, stale } = await readCache(supabase, [...unique.values()], precision);
+  const misses = [...unique.entries()].filter(([key]) => !outcomes.has(key));
+
+  console.log(
+    `Cache: ${outcomes.size} hit(s) (${stale.length} stale), ${misses.length} miss(es)`
+  );
+  countStat(counters, 'cache_hit', '', outcomes.size - stale.length);
+  countStat(counters, 'cache_stale', '', stale.length);
+  countStat(counters, 'cache_miss', '', misses.length);
+
+  // 2. Walk the provider chain for the misses
+  const rows: Record<string, unknown>[] = [];
+
+  await forEachLimit(misses, BATCH_CONCURRENCY, async ([key, point]) => {
+    try {
+      const { response, row } = await geocodeMiss(point, precision, counters);
+      outcomes.set(key, response);
+      if (row) rows.push(row);
+    } catch (error) {
+      console.error(`Geocoding providers failed for ${key}:`, error);
+      outcomes.set(key, { error: (error as Error).message });
+    }
+  });
+
+  // 3. Cache the results
+  await writeCache(supabase, rows);
+
+  // 4. Refresh the stale entries after the response
+  if (stale.length > 0) {
+    runInBackground(refreshStale(supabase, stale, precision), 'Refreshing stale geocoding cache');
+  }
+
+  recordStats(supabase, counters);
+
+  return rounded.map((point) => outcomes.get(cacheKey(point)) as GeocodingOutcome);
+}
+
+export function isFailure(outcome: GeocodingOutcome): outcome is GeocodingFailure {
+  return 'error' in outcome;
+}
+
+/**
+ * Cached results by cache key, and the points whose entry has expired but
+ * is still within the stale window
+ */
+async function readCache(
+  supabase: SupabaseClient,
+  points: GeocodePoint[],
+  precision: number
+): Promise<{ hits: Map<string, GeocodingOutcome>; stale: GeocodePoint[] }> {
+  const hits = new Map<string, GeocodingOutcome>();
+  const stale: GeocodePoint[] = [];
+
+  const now = new Date();
+  const staleDays = envDays('GEOCODE_CACHE_STALE_DAYS', DEFAULT_STALE_DAYS);
+  const staleCutoff = new Date(now);
+  staleCutoff.setDate(staleCutoff.getDate() - staleDays);
+
+  // Each point's lat and lng together, so a batch doesn't read every
+  // combination of its latitudes and longitudes
+  const pairs = points.map((point) => `and(lat.eq.${point.lat},lng.eq.${point.lng})`);
+  const { data, error } = await supabase
+    .from('location_cache')
+    .select(CACHE_COLUMNS)
+    .eq('precision', precision)
+    .or(pairs.join(','))
+    .gt('expires_at', staleCutoff.toISOString());
+
+  if (error) {
+    console.warn('Failed to read geocoding cache:', error);
+    return { hits, stale };
+  }
+
+  for (const cached of data ?? []) {
+    const point = { lat: Number(cached.lat), lng: Number(cached.lng) };
+    const key = cacheKey(point);
+
+    if (new Date(cached.expires_at) <= now) {
+      stale.push(point);
+    }
+
+    // Entries cached before marine lookups existed lack these
+    const marine: MarineInfo = cached.coast_distance_km === null
+      ? describeMarine(point.lat, point.lng, cached)
+      : {
+        offshore: cached.offshore,
+        waterBody: cached.water_body,
+        eezCountry: cached.eez_country,
+        eezCountryCode: cached.eez_country_code,
+        coastDistanceKm: Number(cached.coast_distance_km),
+        nearestCoast: null,
+      };
+
+    hits.set(key, {
+      placeName: cached.place_name,
+      city: cached.city,
+      country: cached.country,
+      countryCode: cached.country_code,
+      provider: cached.provider,
+      offshore: marine.offshore,
+      waterBody: marine.waterBody,
+      eezCountry: marine.eezCountry,
+      eezCountryCode: marine.eezCountryCode,
+      coastDistanceKm: marine.coastDistanceKm,
+      cached: true,
+    });
+  }
+
+  return { hits, stale };
+}
+
+/**
+ * Geocode one uncached point; the row is null for results not worth
+ * caching (offline answers on land, so the next request can get a precise
+ * one). Offshore points have no city or country.
+ */
+async function geocodeMiss(
+  point: GeocodePoint,
+  precision: number,
+  counters: GeocodeCounters
+): Promise<{ response: GeocodingResponse; row: Record<string, unknown> | null }> {
+  const result = await reverseGeocode(point.lat, point.lng, counters);
+  console.log(`Geocoded ${cacheKey(point)} by ${result.provider}`);
+
+  // Add the marine context
+  const marine = describeMarine(point.lat, point.lng, result);
+  const placeName = marine.offshore ? offshorePlaceName(marine) : result.placeName;
+  const land = marine.offshore
+    ? { city: null, country: null, countryCode: null }
+    : { city: result.city, country: result.country, countryCode: result.countryCode };
+
+  const response: GeocodingResponse = {
+    placeName,
+    ...land,
+    provider: result.provider,
+    offshore: marine.offshore,
+    waterBody: marine.waterBody,
+    eezCountry: marine.eezCountry,
+    eezCountryCode: marine.eezCountryCode,
+    coastDistanceKm: marine.coastDistanceKm,
+    cached: false,
+  };
+
+  if (result.provider === 'offline' && !marine.offshore) {
+    return { response, row: null };
+  }
+
+  const ttlDays = marine.offshore
+    ? envDays('GEOCODE_OFFSHORE_CACHE_TTL_DAYS', DEFAULT_OFFSHORE_TTL_DAYS)
+    : envDays('GEOCODE_CACHE_TTL_DAYS', DEFAULT_TTL_DAYS);
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + ttlDays);
+
+  return {
+    response,
+    row: {
+      lat: point.lat,
+      lng: point.lng,
+      precision: precision,
+      place_name: placeName,
+      city: land.city,
+      country: land.country,
+      country_code: land.countryCode,
+      provider: result.provider,
+      offshore: marine.offshore,
+      water_body: marine.waterBody,
+      eez_country: marine.eezCountry,
+      eez_country_code: marine.eezCountryCode,
+      coast_distance_km: marine.coastDistanceKm,
+      full_response: result.raw ?? null,
+      expires_at: expiresAt.toISOString(),
+    },
+  };
+}
+
+/**
+ * Re-geocode entries that were served stale. An entry keeps its old result
+ * if every provider fails or only the offline one answers.
+ */
+async function refreshStale(
+  supabase: SupabaseClient,
+  points: GeocodePoint[],
+  precision: number
+): Promise<void> {
+  const pending = points.filter((point) => !refreshing.has(`${precision}:${cacheKey(point)}`));
+  if (pending.length === 0) return;
+  pending.forEach((point) => refreshing.add(`${precision}:${cacheKey(point)}`));
+
+  const counters = createCounters();
+  const rows: Record<string, unknown>[] = [];
+
+  try {
+    await forEachLimit(pending, BATCH_CONCURRENCY, async (point) => {
+      try {
+        const { row } = await geocodeMiss(point, precision, counters);
+        if (row && row.provider !== 'offline') rows.push(row);
+      } catch (error) {
+        console.warn(`Refreshing ${cacheKey(point)} failed:`, (error as Error).message);
+      }
+    });
+    await writeCache(supabase, rows);
+  } finally {
+    pending.forEach((point) => refreshing.delete(`${precision}:${cacheKey(point)}`));
+    recordStats(supabase, counters);
+  }
+}
+
+async function writeCache(
+  supabase: SupabaseClient,
+  rows: Record<string, unknown>[]
+): Promise<void> {
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('location_cache')
+    .upsert(rows, { onConflict: 'lat,lng,precision' });
+
+  if (error) {
+    console.warn('Failed to cache geocoding results:', error);
+    // Continue anyway - caching is optional
+  } else {
+    console.log(`Cached ${rows.length} geocoding result(s)`);
+  }
+}
+
+function envDays(name: string, fallback: number): number {
+  const value = parseInt(Deno.env.get(name) ?? '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function cacheKey(point: GeocodePoint): string {
+  return `${point.lat},${point.lng}`;
+}
+
+/**
+ * Run fn over items with at most `limit` calls pending
+ */
+async function forEachLimit<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await fn(items[next++]);
+    }
+  });
+  await Promise.all(workers);
+}
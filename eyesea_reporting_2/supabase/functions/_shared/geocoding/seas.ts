@@ -0,0 +1,349 @@
+/**
+ * Bundled sea areas for marine-aware geocoding
+ *
+ * Coarse outlines of the named seas, gulfs and bays, loosely after the IHO
+ * "Limits of Oceans and Seas". Rings are [longitude, latitude] pairs and
+ * may overlap land: marine.ts only names a water body for points offshore
+ * or near the coast. Smaller areas come before the larger ones they sit in,
+ * as the first match wins. Points outside every area fall back to the
+ * ocean by position (see oceanAt in marine.ts).
+ */
+
+export interface SeaArea {
+  name: string;
+  ring: [number, number][];
+}
+
+export const SEAS: SeaArea[] = [
+  // Black Sea region
+  {
+    name: 'Sea of Azov',
+    ring: [
+      [34.8, 45.3], [35.5, 45.5], [36.6, 45.4], [37.5, 46.0], [38.3, 46.6],
+      [39.3, 47.3], [38.0, 47.2], [36.5, 46.8], [35.2, 46.4], [34.8, 46.0],
+    ],
+  },
+  {
+    name: 'Black Sea',
+    ring: [
+      [27.4, 42.0], [28.0, 41.2], [29.1, 41.1], [31.0, 41.0], [33.0, 41.9],
+      [35.0, 42.0], [36.5, 41.2], [38.5, 40.9], [40.5, 40.9], [41.7, 41.5],
+      [41.8, 42.5], [40.0, 43.5], [38.0, 44.5], [36.6, 45.2], [35.5, 45.3],
+      [35.0, 44.7], [33.5, 44.3], [32.5, 45.4], [33.5, 46.1], [31.5, 46.7],
+      [30.2, 46.3], [29.7, 45.3], [28.4, 44.9], [28.3, 43.7], [27.7, 43.0],
+    ],
+  },
+  {
+    name: 'Sea of Marmara',
+    ring: [
+      [26.6, 40.3], [27.5, 40.3], [29.0, 40.3], [29.9, 40.7], [29.0, 41.1],
+      [28.0, 41.0], [26.9, 40.9], [26.6, 40.6],
+    ],
+  },
+  {
+    name: 'Caspian Sea',
+    ring: [
+      [46.7, 44.8], [47.5, 43.0], [48.5, 41.8], [49.3, 40.5], [49.0, 39.0],
+      [48.9, 38.4], [49.5, 37.4], [51.0, 36.7], [53.9, 36.9], [54.0, 38.0],
+      [53.0, 39.5], [53.2, 40.8], [52.8, 41.8], [52.5, 42.8], [51.3, 43.2],
+      [50.5, 44.5], [51.5, 45.0], [53.2, 45.4], [53.0, 46.7], [51.0, 47.1],
+      [49.0, 46.6], [47.6, 45.6],
+    ],
+  },
+
+  // Mediterranean
+  {
+    name: 'Aegean Sea',
+    ring: [
+      [22.5, 40.7], [24.0, 41.0], [26.2, 40.9], [26.5, 40.2], [26.2, 39.3],
+      [26.9, 38.4], [27.3, 37.0], [28.2, 36.6], [28.2, 35.8], [26.3, 35.3],
+      [23.5, 35.3], [23.0, 36.4], [22.9, 37.5], [23.5, 38.0], [22.8, 38.9],
+      [23.0, 39.6], [22.5, 40.0],
+    ],
+  },
+  {
+    name: 'Adriatic Sea',
+    ring: [
+      [12.2, 45.8], [13.8, 45.8], [14.5, 45.2], [15.5, 44.0], [17.5, 43.0],
+      [19.4, 41.9], [19.4, 40.4], [18.5, 40.1], [17.0, 40.9], [15.8, 41.9],
+      [14.0, 42.7], [13.6, 43.6], [12.3, 44.3],
+    ],
+  },
+  {
+    name: 'Ionian Sea',
+    ring: [
+      [18.5, 40.1], [19.4, 40.4], [20.2, 39.6], [21.0, 38.5], [21.6, 37.0],
+      [22.5, 36.4], [15.1, 36.7], [15.3, 37.5], [15.6, 38.3], [16.2, 38.0],
+      [17.2, 39.0], [16.5, 40.0], [17.5, 40.3],
+    ],
+  },
+  {
+    name: 'Tyrrhenian Sea',
+    ring: [
+      [9.6, 39.1], [12.4, 37.8], [13.4, 38.2], [15.6, 38.2], [16.1, 39.0],
+      [15.7, 40.1], [14.8, 40.6], [14.5, 41.0], [12.9, 41.3], [11.0, 42.4],
+      [10.5, 43.0], [9.5, 43.0], [9.6, 41.3],
+    ],
+  },
+  {
+    name: 'Ligurian Sea',
+    ring: [
+      [6.6, 43.1], [7.5, 43.8], [8.9, 44.5], [10.3, 43.9], [10.5, 43.0],
+      [9.4, 43.0], [8.6, 42.4],
+    ],
+  },
+  {
+    name: 'Balearic Sea',
+    ring: [
+      [-0.5, 38.6], [0.2, 38.7], [1.4, 38.7], [3.3, 39.3], [4.4, 39.9],
+      [3.3, 41.8], [2.2, 41.4], [0.9, 41.0], [-0.3, 39.4],
+    ],
+  },
+  {
+    name: 'Alboran Sea',
+    ring: [
+      [-5.6, 35.8], [-5.3, 36.2], [-4.4, 36.8], [-2.2, 36.8], [-1.2, 35.4],
+      [-3.0, 35.2], [-5.3, 35.8],
+    ],
+  },
+  {
+    name: 'Mediterranean Sea',
+    ring: [
+      [-5.6, 35.9], [-5.6, 36.1], [0.0, 38.8], [3.0, 43.6], [12.3, 45.8],
+      [14.0, 45.8], [19.6, 41.8], [20.2, 39.6], [22.8, 40.7], [26.5, 40.9],
+      [26.8, 39.0], [28.2, 36.7], [36.2, 36.9], [36.0, 34.5], [34.9, 32.5],
+      [34.2, 31.2], [32.3, 31.3], [29.0, 30.8], [20.0, 30.3], [19.0, 30.3],
+      [15.1, 32.3], [11.2, 33.2], [10.0, 34.0], [11.0, 35.2], [10.2, 37.3],
+      [9.0, 37.2], [3.0, 36.9], [-1.2, 35.4], [-5.3, 35.8],
+    ],
+  },
+
+  // Northern Europe
+  {
+    name: 'Baltic Sea',
+    ring: [
+      [10.0, 54.0], [12.0, 54.0], [14.0, 53.8], [18.5, 54.3], [21.0, 55.0],
+      [21.0, 56.8], [24.4, 57.9], [23.4, 59.0], [30.3, 59.9], [28.0, 60.6],
+      [22.0, 60.3], [21.3, 61.5], [22.0, 63.5], [25.4, 65.0], [24.0, 65.9],
+      [21.5, 65.3], [19.5, 63.4], [17.4, 60.7], [19.0, 59.8], [16.7, 57.0],
+      [14.3, 55.5], [12.9, 55.4], [12.6, 56.0], [11.0, 55.8], [9.8, 55.0],
+    ],
+  },
+  {
+    name: 'English Channel',
+    ring: [
+      [-5.7, 50.0], [-5.0, 50.2], [-1.0, 50.8], [1.5, 51.0], [1.6, 50.3],
+      [-0.5, 49.3], [-1.3, 49.7], [-1.9, 49.7], [-2.0, 48.6], [-4.8, 48.4],
+    ],
+  },
+  {
+    name: 'Irish Sea',
+    ring: [
+      [-6.3, 52.1], [-5.2, 51.7], [-4.2, 53.2], [-3.0, 53.4], [-2.9, 54.0],
+      [-3.5, 54.9], [-5.0, 55.0], [-5.8, 54.8], [-5.5, 54.2], [-6.1, 53.9],
+      [-6.0, 52.9],
+    ],
+  },
+  {
+    name: 'North Sea',
+    ring: [
+      [-1.0, 61.0], [5.0, 62.0], [5.5, 59.0], [7.0, 58.0], [10.5, 59.5],
+      [11.7, 58.2], [12.7, 56.2], [10.8, 55.6], [10.2, 56.8], [8.5, 57.1],
+      [8.0, 56.5], [8.6, 55.0], [8.8, 54.0], [7.0, 53.4], [5.0, 53.3],
+      [4.0, 51.8], [3.0, 51.2], [1.5, 51.0], [1.0, 51.5], [1.8, 52.7],
+      [0.2, 53.5], [-1.5, 55.0], [-2.5, 56.5], [-1.8, 57.6], [-3.5, 57.7],
+      [-3.0, 58.6], [-1.3, 60.0],
+    ],
+  },
+  {
+    name: 'Bay of Biscay',
+    ring: [
+      [-7.9, 43.8], [-4.4, 47.8], [-2.3, 47.3], [-1.2, 46.0], [-1.5, 43.4],
+      [-3.8, 43.5], [-6.0, 43.6],
+    ],
+  },
+  {
+    name: 'Norwegian Sea',
+    ring: [
+      [-7.0, 62.0], [5.0, 62.0], [10.0, 64.0], [14.0, 68.0], [18.0, 70.0],
+      [20.0, 71.0], [16.0, 76.0], [0.0, 74.0], [-10.0, 71.0], [-14.0, 66.0],
+    ],
+  },
+  {
+    name: 'Barents Sea',
+    ring: [
+      [20.0, 71.0], [16.0, 76.0], [20.0, 79.0], [35.0, 80.5], [55.0, 80.0],
+      [58.0, 76.0], [55.0, 72.0], [58.0, 70.5], [52.0, 68.0], [44.0, 66.5],
+      [41.0, 64.3], [34.0, 64.3], [32.0, 67.0], [28.0, 70.0], [22.0, 70.2],
+    ],
+  },
+
+  // Middle East and Indian Ocean
+  {
+    name: 'Red Sea',
+    ring: [
+      [32.3, 30.1], [35.2, 29.7], [35.0, 28.0], [39.0, 21.5], [42.5, 16.0],
+      [43.6, 12.6], [43.2, 12.3], [41.0, 14.5], [38.5, 18.0], [37.2, 21.0],
+      [35.5, 24.0], [33.8, 26.8], [32.4, 29.5],
+    ],
+  },
+  {
+    name: 'Gulf of Aden',
+    ring: [
+      [43.2, 12.3], [43.6, 12.6], [45.0, 13.0], [48.0, 14.0], [51.2, 15.2],
+      [51.3, 11.8], [49.0, 11.3], [45.0, 10.4], [43.2, 11.5],
+    ],
+  },
+  {
+    name: 'Persian Gulf',
+    ring: [
+      [48.0, 30.0], [50.0, 30.3], [51.5, 27.9], [53.5, 26.8], [56.4, 27.1],
+      [56.2, 26.0], [54.0, 24.0], [51.4, 24.3], [50.0, 26.0], [48.3, 28.3],
+    ],
+  },
+  {
+    name: 'Gulf of Oman',
+    ring: [
+      [56.4, 27.1], [57.3, 25.8], [61.6, 25.2], [59.8, 22.5], [58.6, 23.6],
+      [56.2, 26.0],
+    ],
+  },
+  {
+    name: 'Arabian Sea',
+    ring: [
+      [51.3, 11.8], [51.2, 15.2], [55.0, 17.0], [57.5, 18.5], [59.8, 22.5],
+      [61.6, 25.2], [66.5, 25.3], [68.5, 23.5], [72.5, 21.0], [73.0, 16.0],
+      [74.8, 12.5], [76.5, 8.2], [73.0, -0.7], [55.0, 5.0],
+    ],
+  },
+  {
+    name: 'Bay of Bengal',
+    ring: [
+      [79.8, 10.3], [80.3, 15.5], [82.3, 17.0], [86.5, 20.0], [87.0, 21.6],
+      [89.0, 22.0], [91.5, 22.5], [92.3, 20.5], [94.0, 18.0], [94.2, 16.0],
+      [92.7, 13.5], [93.8, 7.0], [95.3, 5.6], [80.5, 5.9], [81.9, 7.5],
+      [80.2, 9.8],
+    ],
+  },
+  {
+    name: 'Andaman Sea',
+    ring: [
+      [94.2, 16.0], [97.6, 16.6], [98.6, 13.0], [98.3, 8.0], [100.3, 6.5],
+      [98.7, 3.8], [95.3, 5.6], [93.8, 7.0], [92.7, 13.5],
+    ],
+  },
+  {
+    name: 'Mozambique Channel',
+    ring: [
+      [40.5, -10.5], [49.2, -12.0], [44.0, -16.2], [43.6, -21.3], [45.0, -25.3],
+      [32.8, -26.0], [35.5, -24.0], [35.3, -22.0], [37.0, -17.0], [40.6, -15.0],
+    ],
+  },
+
+  // East Asia and Oceania
+  {
+    name: 'South China Sea',
+    ring: [
+      [105.6, 21.5], [108.0, 21.6], [110.0, 21.4], [113.5, 22.2], [117.0, 23.5],
+      [120.0, 25.4], [121.0, 22.0], [120.5, 18.5], [120.0, 14.0], [120.0, 10.0],
+      [117.0, 7.0], [116.0, 5.0], [113.0, 3.0], [110.0, 1.5], [104.5, 1.3],
+      [103.5, 2.5], [102.5, 6.0], [100.4, 7.5], [99.3, 9.5], [99.8, 13.0],
+      [101.0, 13.5], [103.0, 11.0], [104.8, 8.5], [106.5, 10.3], [109.2, 12.0],
+      [109.4, 15.0], [106.5, 18.0], [105.6, 19.5],
+    ],
+  },
+  {
+    name: 'East China Sea',
+    ring: [
+      [120.0, 25.4], [122.0, 25.0], [123.8, 24.2], [127.7, 26.2], [130.0, 30.5],
+      [129.5, 33.2], [126.3, 33.3], [121.9, 31.8], [121.6, 30.0], [120.6, 27.5],
+    ],
+  },
+  {
+    name: 'Yellow Sea',
+    ring: [
+      [121.9, 31.8], [126.3, 33.3], [126.5, 34.5], [126.5, 36.8], [125.0, 38.0],
+      [124.4, 39.8], [121.3, 40.9], [118.5, 39.0], [119.0, 37.3], [120.7, 37.8],
+      [122.5, 36.9], [120.0, 35.5], [120.7, 33.0],
+    ],
+  },
+  {
+    name: 'Sea of Japan',
+    ring: [
+      [129.5, 33.2], [130.9, 34.0], [132.5, 35.5], [136.0, 36.2], [139.8, 38.5],
+      [140.0, 40.5], [140.3, 41.4], [139.9, 42.5], [141.4, 45.4], [142.0, 46.5],
+      [140.5, 48.5], [138.5, 46.5], [135.8, 43.5], [132.0, 43.0], [130.8, 42.3],
+      [129.7, 41.0], [128.0, 38.7], [129.3, 37.0], [129.3, 35.3], [127.5, 34.6],
+    ],
+  },
+  {
+    name: 'Sea of Okhotsk',
+    ring: [
+      [135.0, 54.7], [137.5, 54.0], [141.0, 52.5], [142.5, 54.3], [143.0, 50.0],
+      [143.3, 46.0], [144.0, 44.0], [146.0, 43.4], [151.0, 46.0], [156.5, 50.8],
+      [156.0, 57.5], [160.0, 61.5], [154.0, 59.3], [148.0, 59.3], [142.0, 59.0],
+      [137.5, 56.5],
+    ],
+  },
+  {
+    name: 'Coral Sea',
+    ring: [
+      [142.5, -10.7], [143.5, -14.0], [145.3, -15.0], [146.0, -18.5], [149.0, -21.5],
+      [153.2, -24.8], [153.5, -30.0], [159.0, -30.0], [167.0, -22.5], [165.0, -20.5],
+      [166.0, -11.0], [161.0, -10.0], [155.0, -6.5], [150.0, -10.6], [147.0, -10.1],
+      [143.0, -9.2],
+    ],
+  },
+  {
+    name: 'Tasman Sea',
+    ring: [
+      [153.5, -30.0], [159.0, -30.0], [172.7, -34.4], [174.6, -37.0], [174.8, -41.3],
+      [167.0, -46.5], [147.0, -43.6], [148.2, -40.0], [150.0, -37.5], [151.3, -33.5],
+    ],
+  },
+
+  // Americas and Africa
+  {
+    name: 'Gulf of Mexico',
+    ring: [
+      [-97.5, 26.0], [-97.2, 28.0], [-94.0, 29.6], [-90.0, 29.2], [-88.0, 30.5],
+      [-84.5, 30.0], [-82.7, 27.5], [-81.1, 25.1], [-81.8, 24.5], [-84.95, 21.85],
+      [-87.0, 21.6], [-90.4, 21.0], [-91.0, 18.6], [-94.5, 18.1], [-96.0, 19.1],
+      [-97.7, 21.8], [-97.8, 24.0],
+    ],
+  },
+  {
+    name: 'Caribbean Sea',
+    ring: [
+      [-87.0, 21.6], [-84.95, 21.85], [-80.0, 21.7], [-77.5, 20.0], [-74.2, 20.2],
+      [-72.0, 19.8], [-68.5, 18.5], [-65.5, 18.4], [-64.0, 18.0], [-61.9, 17.0],
+      [-61.2, 15.9], [-61.0, 14.0], [-61.0, 12.0], [-60.5, 10.7], [-62.0, 10.0],
+      [-64.5, 10.2], [-68.0, 10.5], [-71.0, 11.5], [-72.0, 11.8], [-75.5, 10.5],
+      [-77.0, 8.7], [-79.5, 9.6], [-81.9, 9.0], [-83.5, 10.9], [-83.7, 14.0],
+      [-85.0, 15.9], [-88.2, 15.7], [-88.3, 18.5], [-87.4, 21.0],
+    ],
+  },
+  {
+    name: 'Gulf of California',
+    ring: [
+      [-114.8, 31.8], [-114.6, 30.0], [-112.5, 27.5], [-110.4, 24.2], [-109.9, 22.9],
+      [-106.4, 23.2], [-108.0, 25.5], [-110.0, 27.5], [-112.2, 29.2], [-113.1, 31.2],
+    ],
+  },
+  {
+    name: 'Hudson Bay',
+    ring: [
+      [-94.8, 58.8], [-94.5, 61.0], [-92.5, 62.5], [-90.5, 64.0], [-87.0, 64.5],
+      [-84.0, 65.5], [-80.5, 63.5], [-78.0, 62.5], [-77.5, 60.0], [-77.0, 56.0],
+      [-79.0, 54.5], [-82.5, 55.5], [-85.5, 55.3], [-88.5, 56.5], [-92.5, 57.1],
+    ],
+  },
+  {
+    name: 'Gulf of Guinea',
+    ring: [
+      [-7.7, 4.4], [-4.0, 5.2], [-1.0, 5.1], [1.5, 6.2], [3.5, 6.4],
+      [5.0, 5.5], [6.0, 4.3], [8.0, 4.5], [9.5, 3.8], [9.8, 1.5],
+      [8.7, -0.6],
+    ],
+  },
+];
@@ -0,0 +1,60 @@
+/**
+ * Geocoding usage counters
+ *
+ * A request tallies its cache lookups and provider calls here, then adds
+ * them to the daily totals in geocode_stats with one call
+ * (record_geocode_stats). The geocode-stats admin function reports on them.
+ */
+
+import { runInBackground } from '../background.ts';
+import type { SupabaseClient } from '../http.ts';
+
+export type GeocodeStatKind =
+  | 'cache_hit' // Fresh cache entry
+  | 'cache_stale' // Expired entry served while it is refreshed
+  | 'cache_miss'
+  | 'provider_call'
+  | 'provider_error';
+
+export interface GeocodeStat {
+  kind: GeocodeStatKind;
+  provider: string; // Empty for cache counters
+  count: number;
+}
+
+export type GeocodeCounters = Map<string, GeocodeStat>;
+
+export function createCounters(): GeocodeCounters {
+  return new Map();
+}
+
+export function countStat(
+  counters: GeocodeCounters,
+  kind: GeocodeStatKind,
+  provider = '',
+  count = 1
+): void {
+  if (count <= 0) return;
+  const key = `${kind}:${provider}`;
+  const stat = counters.get(key) ?? { kind, provider, count: 0 };
+  stat.count += count;
+  counters.set(key, stat);
+}
+
+/**
+ * Add the counters to today's totals without delaying the response.
+ * Stats are best-effort; a failed write is only logged.
+ */
+export function recordStats(supabase: SupabaseClient, counters: GeocodeCounters): void {
+  if (counters.size === 0) return;
+
+  runInBackground(
+    (async () => {
+      const { error } = await supabase.rpc('record_geocode_stats', {
+        p_stats: [...counters.values()],
+      });
+      if (error) throw error;
+    })(),
+    'Recording geocoding stats'
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * HTTP helpers shared by the JSON Edge Functions
+ *
+ * Every endpoint answers with the same envelope:
+ * - Success: { "success": true, "data": ... }
+ * - Failure: { "success": false, "error": { "code", "message", "field"? } }
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// CORS headers for cross-origin requests
+export const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, x-api-key, idempotency-key",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+};
+
+export type SupabaseClient = ReturnType<typeof createClient>;
+
+/**
+ * Create a Supabase client using the service role key.
+ * Returns null if the environment is not configured.
+ */
+export function createServiceClient(): SupabaseClient | null {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+  if (!supabaseUrl || !supabaseKey) {
+    console.error("Missing Supabase environment variables");
+    return null;
+  }
+
+  return createClient(supabaseUrl, supabaseKey);
+}
+
+/**
+ * Path segments after the function name, e.g. "/submit-report/batch" -> ["batch"]
+ */
+export function routeSegments(req: Request, functionName: string): string[] {
+  const segments = new URL(req.url).pathname.split("/").filter(Boolean);
+  const index = segments.indexOf(functionName);
+  return index === -1 ? [] : segments.slice(index + 1);
+}
+
+/**
+ * Create JSON response
+ */
+export function jsonResponse(
+  body: Record<string, unknown>,
+  status = 200,
+  headers: Record<string, string> = {}
+): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, ...headers, "Content-Type": "application/json" },
+    status,
+  });
+}
+
+/**
+ * Build the error envelope
+ */
+export function errorBody(
+  code: string,
+  message: string,
+  field?: string
+): Record<string, unknown> {
+  const body: Record<string, unknown> = {
+    success: false,
+    error: {
+      code,
+      message,
+    },
+  };
+
+  if (field) {
+    (body.error as Record<string, unknown>).field = field;
+  }
+
+  return body;
+}
+
+/**
+ * Create error response
+ */
+export function errorResponse(
+  status: number,
+  code: string,
+  message: string,
+  field?: string
+): Response {
+  return jsonResponse(errorBody(code, message, field), status);
+}
@@ -0,0 +1,166 @@
+/**
+ * Guard for requests to user-supplied URLs (webhooks)
+ *
+ * Webhook URLs are chosen by users and partners, so before every request
+ * the host is resolved and the request is refused unless it uses https and
+ * every address is public: no loopback, private, link-local, shared (CGNAT),
+ * multicast or reserved ranges, including IPv4 addresses embedded in IPv6.
+ * Callers must not follow redirects (redirect: "manual"), which could lead
+ * back inside.
+ *
+ * - WEBHOOK_ALLOW_PRIVATE_TARGETS   "true" to allow http and private
+ *                                   addresses, for local testing only
+ */
+
+// IPv4 ranges that must not be called, as [network, prefix length]
+const BLOCKED_IPV4: [string, number][] = [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8], // Private
+  ["100.64.0.0", 10], // Shared address space (CGNAT)
+  ["127.0.0.0", 8], // Loopback
+  ["169.254.0.0", 16], // Link-local, including cloud metadata endpoints
+  ["172.16.0.0", 12], // Private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.0.2.0", 24], // Documentation
+  ["192.168.0.0", 16], // Private
+  ["198.18.0.0", 15], // Benchmarking
+  ["198.51.100.0", 24], // Documentation
+  ["203.0.113.0", 24], // Documentation
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved, including broadcast
+];
+
+const BLOCKED_IPV6: [string, number][] = [
+  ["::", 96], // Unspecified, loopback and IPv4-compatible
+  ["100::", 64], // Discard
+  ["2001:db8::", 32], // Documentation
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+];
+
+// IPv6 ranges that carry an IPv4 address in their last 32 bits
+const EMBEDDED_IPV4: [string, number][] = [
+  ["::ffff:0:0", 96], // IPv4-mapped
+  ["64:ff9b::", 96], // NAT64
+];
+
+/**
+ * Check that a URL may be called: https, and a host whose addresses are all
+ * public. Throws an Error explaining why not.
+ */
+export async function assertPublicUrl(target: string): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(target);
+  } catch {
+    throw new Error("Invalid URL");
+  }
+
+  const allowPrivate = Deno.env.get("WEBHOOK_ALLOW_PRIVATE_TARGETS") === "true";
+  if (url.protocol !== "https:" && !(allowPrivate && url.protocol === "http:")) {
+    throw new Error("URL must use https");
+  }
+  if (allowPrivate) return url;
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = parseIPv4(host) || parseIPv6(host) ? [host] : await resolveHost(host);
+  if (addresses.length === 0) {
+    throw new Error(`${host} does not resolve`);
+  }
+
+  const blocked = addresses.find((address) => !isPublicAddress(address));
+  if (blocked) {
+    throw new Error(`${host} is not a public address (${blocked})`);
+  }
+
+  return url;
+}
+
+/**
+ * A and AAAA records of a host; empty when neither resolves
+ */
+async function resolveHost(host: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(host, "A"),
+    Deno.resolveDns(host, "AAAA"),
+  ]);
+  return lookups.flatMap((lookup) => (lookup.status === "fulfilled" ? lookup.value : []));
+}
+
+function isPublicAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) {
+    return !BLOCKED_IPV4.some(([network, bits]) => inRange(ipv4, parseIPv4(network)!, bits));
+  }
+
+  const ipv6 = parseIPv6(address);
+  if (!ipv6) return false;
+
+  if (EMBEDDED_IPV4.some(([network, bits]) => inRange(ipv6, parseIPv6(network)!, bits))) {
+    return isPublicAddress(ipv6.slice(12).join("."));
+  }
+  return !BLOCKED_IPV6.some(([network, bits]) => inRange(ipv6, parseIPv6(network)!, bits));
+}
+
+/**
+ * True when the first `bits` bits of the address match the network
+ */
+function inRange(address: number[], network: number[], bits: number): boolean {
+  const wholeBytes = bits >> 3;
+  for (let i = 0; i < wholeBytes; i++) {
+    if (address[i] !== network[i]) return false;
+  }
+
+  const remainingBits = bits & 7;
+  if (remainingBits === 0) return true;
+  const mask = (0xff << (8 - remainingBits)) & 0xff;
+  return (address[wholeBytes] & mask) === (network[wholeBytes] & mask);
+}
+
+/**
+ * Bytes of a dotted IPv4 address, or null
+ */
+function parseIPv4(text: string): number[] | null {
+  if (!/^\d{1,3}(\.\d{1,3}){3}$/.test(text)) return null;
+  const bytes = text.split(".").map(Number);
+  return bytes.every((byte) => byte <= 255) ? bytes : null;
+}
+
+/**
+ * The 16 bytes of an IPv6 address (with "::" and a dotted IPv4 tail
+ * allowed), or null
+ */
+function parseIPv6(text: string): number[] | null {
+  if (!text.includes(":")) return null;
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+
+  const words: number[][] = [];
+  for (const [halfIndex, half] of halves.entries()) {
+    const groups = half === "" ? [] : half.split(":");
+    const values: number[] = [];
+    for (const [index, group] of groups.entries()) {
+      const isLast = halfIndex === halves.length - 1 && index === groups.length - 1;
+      if (isLast && group.includes(".")) {
+        const ipv4 = parseIPv4(group);
+        if (!ipv4) return null;
+        values.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]);
+      } else if (/^[0-9a-f]{1,4}$/i.test(group)) {
+        values.push(parseInt(group, 16));
+      } else {
+        return null;
+      }
+    }
+    words.push(values);
+  }
+
+  const missing = 8 - words.reduce((count, values) => count + values.length, 0);
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const all = halves.length === 1
+    ? words[0]
+    : [...words[0], ...new Array<number>(missing).fill(0), ...words[1]];
+  return all.flatMap((word) => [word >> 8, word & 0xff]);
+}
@@ -0,0 +1,97 @@
+/**
+ * Pollution type enum shared by the Edge Functions
+ */
+
+// Valid pollution type values (must match database enum)
+export const VALID_POLLUTION_TYPES = [
+  "plastic",
+  "oil",
+  "debris",
+  "sewage",
+  "fishing_gear",
+  "container",
+  "other",
+];
+
+// Free-text labels seen from vision models and clients, after normalisation
+const POLLUTION_TYPE_ALIASES: Record<string, string> = {
+  fishing_net: "fishing_gear",
+  fishing_nets: "fishing_gear",
+  ghost_net: "fishing_gear",
+  net: "fishing_gear",
+  nets: "fishing_gear",
+  rope: "fishing_gear",
+  fishing_line: "fishing_gear",
+  buoy: "fishing_gear",
+  oil_spill: "oil",
+  oil_slick: "oil",
+  tar: "oil",
+  tar_balls: "oil",
+  fuel: "oil",
+  microplastics: "plastic",
+  plastic_bag: "plastic",
+  plastic_bottle: "plastic",
+  bottle: "plastic",
+  styrofoam: "plastic",
+  polystyrene: "plastic",
+  wastewater: "sewage",
+  effluent: "sewage",
+  can: "container",
+  cans: "container",
+  barrel: "container",
+  drum: "container",
+  canister: "container",
+  trash: "debris",
+  litter: "debris",
+  garbage: "debris",
+  rubbish: "debris",
+  waste: "debris",
+  marine_debris: "debris",
+};
+
+// Fallback keywords for labels not in the alias table, in priority order.
+// They are matched against whole words of the label ("oil_drum", "bottles"),
+// so "starfish" or "shoreline" don't match "tar" or "line". Plain "foam"
+// is left out: sea foam is natural.
+const POLLUTION_TYPE_KEYWORDS: [string[], string][] = [
+  [["oil", "tar", "fuel", "petrol", "diesel", "slick"], "oil"],
+  [["fishing", "net", "rope", "line", "buoy", "trap", "lure"], "fishing_gear"],
+  [["sewage", "wastewater", "effluent", "outfall"], "sewage"],
+  [["plastic", "microplastic", "bag", "bottle", "styrofoam", "polystyrene", "wrapper", "straw"], "plastic"],
+  [["container", "can", "barrel", "drum", "canister", "tank"], "container"],
+  [["debris", "trash", "litter", "garbage", "rubbish", "waste", "wood", "metal", "glass"], "debris"],
+];
+
+// Labels meaning "nothing found"
+const NO_POLLUTION_LABELS = ["none", "clean", "no_pollution", "nothing"];
+
+/**
+ * Map a free-text label to the pollution type enum.
+ * Returns null for labels that mean "no pollution" and "other" for
+ * anything unrecognised.
+ */
+export function normalizePollutionType(label: string): string | null {
+  const key = label
+    .trim()
+    .replace(/([a-z])([A-Z])/g, "$1_$2") // fishingGear -> fishing_Gear
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+
+  if (!key || NO_POLLUTION_LABELS.includes(key)) return null;
+  if (VALID_POLLUTION_TYPES.includes(key)) return key;
+  if (POLLUTION_TYPE_ALIASES[key]) return POLLUTION_TYPE_ALIASES[key];
+
+  const words = key.split("_").flatMap((word) => [word, singular(word)]);
+  const match = POLLUTION_TYPE_KEYWORDS.find(([keywords]) =>
+    keywords.some((keyword) => words.includes(keyword))
+  );
+  return match ? match[1] : "other";
+}
+
+// "nets" -> "net", "glasses" -> "glass"; good enough for the keyword list
+function singular(word: string): string {
+  if (word.endsWith("sses")) return word.slice(0, -2);
+  if (word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
@@ -0,0 +1,39 @@
+/**
+ * Signatures for outgoing webhooks
+ *
+ * Receivers verify a delivery by recomputing the HMAC over
+ * "<timestamp>.<raw body>" with their secret and comparing it to v1, and
+ * should reject timestamps older than a few minutes to prevent replays:
+ *
+ *   X-EyeSea-Signature: t=1737712800,v1=<hex HMAC-SHA256>
+ */
+
+export const SIGNATURE_HEADER = "X-EyeSea-Signature";
+
+/**
+ * Signature header value for a request body
+ */
+export async function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  const signature = await hmacSha256Hex(secret, `${timestamp}.${body}`);
+  return `t=${timestamp},v1=${signature}`;
+}
+
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
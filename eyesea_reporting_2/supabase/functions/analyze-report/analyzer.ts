@@ -0,0 +1,152 @@
+/**
+ * Vision-model analysers for analyze-report
+ *
+ * Every provider implements the same Analyzer interface: it receives the
+ * image and the prompt and returns the model's raw text answer. Parsing and
+ * validation (schema.ts) are shared, so all providers are treated the same.
+ *
+ * Configuration (environment):
+ * - ANALYZER_PROVIDER      gemini (default) | openai | local
+ * - ANALYZER_AB_PROVIDER   Optional second provider for A/B comparison
+ * - ANALYZER_AB_RATIO      Share of reports (0-1) sent to the A/B provider
+ *
+ * Provider-specific settings are documented in each provider file.
+ */
+
+import { VALID_POLLUTION_TYPES } from "../_shared/pollution.ts";
+import { createGeminiAnalyzer } from "./gemini.ts";
+import { createLocalAnalyzer } from "./local.ts";
+import { createOpenAIAnalyzer } from "./openai.ts";
+import { parseModelOutput, type PollutionAnalysis, validateAnalysis } from "./schema.ts";
+
+export interface AnalysisImage {
+  base64: string;
+  mimeType: string;
+}
+
+export interface Analyzer {
+  provider: string; // Stored in ai_analysis.analyzer_provider
+  model: string; // Stored in ai_analysis.analyzer_model
+  analyze(image: AnalysisImage, prompt: string): Promise<string>;
+}
+
+export type AnalysisStatus = 'ok' | 'invalid' | 'failed';
+
+export interface AnalysisOutcome {
+  status: AnalysisStatus; // invalid: JSON with the wrong shape, failed: no usable JSON
+  analysis: PollutionAnalysis | null; // Set when status is ok
+  raw: unknown; // Last model answer, parsed if possible
+  issues: string[]; // Validation errors, or normalisation notes when ok
+}
+
+const PROVIDERS: Record<string, () => Analyzer> = {
+  gemini: createGeminiAnalyzer,
+  openai: createOpenAIAnalyzer,
+  local: createLocalAnalyzer,
+};
+
+export const ANALYSIS_PROMPT = `
+  Analyze this image for ocean/marine pollution.
+  Return a STRICT JSON object (no markdown formatting) with the following fields:
+  - pollution_detected: list of pollution types from ${JSON.stringify(VALID_POLLUTION_TYPES)}, or [] if clean.
+  - severity: integer 1-5 (1=clean, 5=severe).
+  - confidence: float 0.0-1.0.
+  - description: short summary of the visible pollution.
+  - pollution_counts: object mapping each detected pollution type to the estimated number of visible items (e.g. {"plastic": 12}).
+`;
+
+function repairPrompt(previousAnswer: string, problems: string[]): string {
+  return `${ANALYSIS_PROMPT}
+  Your previous answer could not be used:
+  ${previousAnswer.slice(0, 2000)}
+
+  Problems: ${problems.join('; ')}
+  Answer again with only the JSON object.
+`;
+}
+
+/**
+ * Analyze an image and validate the answer, retrying once with a repair
+ * prompt if the answer is not valid JSON or does not match the schema.
+ */
+export async function analyzeWithRepair(
+  analyzer: Analyzer,
+  image: AnalysisImage
+): Promise<AnalysisOutcome> {
+  let prompt = ANALYSIS_PROMPT;
+  let outcome: AnalysisOutcome | null = null;
+
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    let text: string;
+    try {
+      text = await analyzer.analyze(image, prompt);
+    } catch (error) {
+      return { status: 'failed', analysis: null, raw: null, issues: [(error as Error).message] };
+    }
+
+    let raw: unknown;
+    try {
+      raw = parseModelOutput(text);
+    } catch (error) {
+      outcome = {
+        status: 'failed',
+        analysis: null,
+        raw: { text },
+        issues: [`Response is not valid JSON: ${(error as Error).message}`],
+      };
+      prompt = repairPrompt(text, outcome.issues);
+      continue;
+    }
+
+    const validation = validateAnalysis(raw);
+    if (validation.valid) {
+      return { status: 'ok', analysis: validation.analysis, raw, issues: validation.notes };
+    }
+
+    outcome = { status: 'invalid', analysis: null, raw, issues: validation.errors };
+    prompt = repairPrompt(text, validation.errors);
+  }
+
+  return outcome!;
+}
+
+/**
+ * Pick the analyser for a report.
+ * With A/B testing enabled, the split is derived from the report id so
+ * retries of the same report always use the same provider.
+ */
+export function selectAnalyzer(reportId: string): Analyzer {
+  const primary = Deno.env.get('ANALYZER_PROVIDER') ?? 'gemini';
+  const alternative = Deno.env.get('ANALYZER_AB_PROVIDER');
+  const ratio = Number(Deno.env.get('ANALYZER_AB_RATIO') ?? '0');
+
+  const useAlternative = !!alternative && ratio > 0 && reportBucket(reportId) < ratio;
+  return createAnalyzer(useAlternative ? alternative! : primary);
+}
+
+function createAnalyzer(provider: string): Analyzer {
+  const factory = PROVIDERS[provider];
+  if (!factory) {
+    throw new Error(`Unknown analyzer provider: ${provider}`);
+  }
+  return factory();
+}
+
+/**
+ * Stable value in [0, 1) from the first 32 bits of the report UUID
+ */
+function reportBucket(reportId: string): number {
+  const bits = parseInt(reportId.replace(/-/g, '').slice(0, 8), 16);
+  return Number.isNaN(bits) ? 0 : bits / 0x100000000;
+}
+
+/**
+ * Base64-encode image bytes in chunks (String.fromCharCode has an argument limit)
+ */
+export function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
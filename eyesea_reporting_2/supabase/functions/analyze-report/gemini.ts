@@ -0,0 +1,47 @@
+/**
+ * Google Gemini analyser
+ *
+ * - GEMINI_API_KEY    Required
+ * - GEMINI_MODEL      Optional, default gemini-2.5-flash
+ * - GEMINI_BASE_URL   Optional, default https://generativelanguage.googleapis.com
+ */
+
+import { GoogleGenerativeAI } from "https://esm.sh/@google/generative-ai";
+import type { AnalysisImage, Analyzer } from "./analyzer.ts";
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+export function createGeminiAnalyzer(): Analyzer {
+  const geminiKey = Deno.env.get('GEMINI_API_KEY');
+  if (!geminiKey) throw new Error('GEMINI_API_KEY not set');
+
+  const modelName = Deno.env.get('GEMINI_MODEL') ?? DEFAULT_MODEL;
+  const baseUrl = Deno.env.get('GEMINI_BASE_URL')?.replace(/\/$/, '');
+  const genAI = new GoogleGenerativeAI(geminiKey);
+  const model = genAI.getGenerativeModel(
+    {
+      model: modelName,
+      generationConfig: { responseMimeType: 'application/json' },
+    },
+    baseUrl ? { baseUrl } : undefined
+  );
+
+  return {
+    provider: 'gemini',
+    model: modelName,
+    async analyze(image: AnalysisImage, prompt: string): Promise<string> {
+      const result = await model.generateContent([
+        prompt,
+        {
+          inlineData: {
+            data: image.base64,
+            mimeType: image.mimeType,
+          },
+        },
+      ]);
+
+      const response = await result.response;
+      return response.text();
+    },
+  };
+}
@@ -1,13 +1,14 @@
-
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { GoogleGenerativeAI } from "https://esm.sh/@google/generative-ai";
+import { analyzeWithRepair, selectAnalyzer, toBase64 } from "./analyzer.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const BUCKET = 'report-images';
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
@@ -15,14 +16,15 @@ serve(async (req) => {
 
   try {
     const { record } = await req.json();
-    
+
     // We expect the trigger to send the whole record from report_images
     // record: { id, report_id, storage_path, ... }
+    const imageId = record.id;
     const reportId = record.report_id;
     const storagePath = record.storage_path;
 
-    if (!reportId || !storagePath) {
-      throw new Error('Missing report_id or storage_path');
+    if (!imageId || !reportId || !storagePath) {
+      throw new Error('Missing id, report_id or storage_path');
     }
 
     console.log(`Analyzing report: ${reportId}, Image: ${storagePath}`);
@@ -33,78 +35,118 @@ serve(async (req) => {
     const supabase = createClient(supabaseUrl, supabaseKey);
 
     // 2. Download Image
+    // report_images.storage_path holds the public URL; download needs the object path
+    const objectPath = toObjectPath(storagePath);
     const { data: imageData, error: downloadError } = await supabase.storage
-      .from('report-images')
-      .download(storagePath);
+      .from(BUCKET)
+      .download(objectPath);
 
     if (downloadError) throw downloadError;
 
-    // 3. Initialize Gemini
-    const geminiKey = Deno.env.get('GEMINI_API_KEY');
-    if (!geminiKey) throw new Error('GEMINI_API_KEY not set');
+    // 3. Pick the analyser (provider/model from environment, optional A/B split)
+    const analyzer = selectAnalyzer(reportId);
 
-    const genAI = new GoogleGenerativeAI(geminiKey);
-    const model = genAI.getGenerativeModel({ model: "gemini-pro-vision" });
+    // 4. Analyze and validate (one repair attempt on unusable output)
+    const image = {
+      base64: toBase64(new Uint8Array(await imageData.arrayBuffer())),
+      mimeType: imageData.type || mimeTypeFor(objectPath),
+    };
+    const outcome = await analyzeWithRepair(analyzer, image);
+    const analysis = outcome.analysis;
 
-    // 4. Prepare Image for Gemini
-    // Convert Blob to Uint8Array/Base64 if needed, but SDK handles some formats.
-    // For Deno/Edge, we might need to convert arrayBuffer to base64.
-    const arrayBuffer = await imageData.arrayBuffer();
-    const base64Image = btoa(
-      new Uint8Array(arrayBuffer).reduce((data, byte) => data + String.fromCharCode(byte), '')
-    );
+    console.log(`${analyzer.provider}/${analyzer.model} analysis (${outcome.status}):`, analysis ?? outcome.issues);
 
-    const prompt = `
-      Analyze this image for ocean/marine pollution. 
-      Return a STRICT JSON object (no markdown formatting) with the following fields:
-      - pollution_detected: list of strings (e.g. ["plastic", "oil", "fishing_net"]) or [] if clean.
-      - severity: integer 1-5 (1=clean, 5=severe).
-      - confidence: float 0.0-1.0.
-      - description: short summary of the visible pollution.
-    `;
-
-    const result = await model.generateContent([
-      prompt,
-      {
-        inlineData: {
-          data: base64Image,
-          mimeType: "image/jpeg", // Assuming JPEG for now, ideally detect from storagePath
-        },
-      },
-    ]);
-
-    const response = await result.response;
-    const text = response.text();
-    
-    // Clean up markdown code blocks if present
-    const cleanJson = text.replace(/```json/g, '').replace(/```/g, '').trim();
-    const analysis = JSON.parse(cleanJson);
-
-    console.log('Gemini Analysis:', analysis);
-
-    // 5. Save to Database
-    const { error: insertError } = await supabase
-      .from('ai_analysis')
-      .insert({
+    // 5. Save the per-image result - invalid and failed analyses are recorded too
+    const { error: upsertError } = await supabase
+      .from('ai_image_analysis')
+      .upsert({
+        image_id: imageId,
         report_id: reportId,
-        gemini_response: analysis,
-        pollution_detected: analysis.pollution_detected,
-        confidence: analysis.confidence,
-        description: analysis.description,
-      });
+        ai_response: outcome.raw,
+        pollution_detected: analysis?.pollution_detected ?? null,
+        pollution_counts: analysis?.pollution_counts ?? null,
+        severity: analysis?.severity ?? null,
+        confidence: analysis?.confidence ?? null,
+        description: analysis?.description ?? null,
+        analyzer_provider: analyzer.provider,
+        analyzer_model: analyzer.model,
+        analysis_status: outcome.status,
+        analysis_issues: outcome.issues,
+        analyzed_at: new Date().toISOString(),
+      }, { onConflict: 'image_id' });
+
+    if (upsertError) throw upsertError;
+
+    // 6. Once every image of the report is analysed, merge the results into
+    // the report's AI baseline (ai_analysis) and re-run fraud detection
+    const { data: verdict, error: aggregateError } = await supabase.rpc(
+      'aggregate_report_analysis',
+      { p_report_id: reportId }
+    );
 
-    if (insertError) throw insertError;
+    if (aggregateError) throw aggregateError;
+
+    console.log(
+      verdict
+        ? `Report ${reportId} aggregated: ${JSON.stringify(verdict)}`
+        : `Report ${reportId} still has images awaiting analysis`
+    );
+
+    // 7. Apply the auto-moderation rules to the verdict (verify, or flag for review)
+    let moderation = null;
+    if (verdict) {
+      const { data, error: moderationError } = await supabase.rpc(
+        'apply_auto_moderation',
+        { p_report_id: reportId }
+      );
+
+      // The analysis is saved either way; the report just stays pending
+      if (moderationError) {
+        console.error('Auto-moderation failed:', moderationError);
+      } else if (data) {
+        console.log(`Report ${reportId} auto-moderated: ${JSON.stringify(data)}`);
+        moderation = data;
+      }
+    }
 
     return new Response(
-      JSON.stringify({ success: true, analysis }),
+      JSON.stringify({
+        success: outcome.status === 'ok',
+        status: outcome.status,
+        provider: analyzer.provider,
+        model: analyzer.model,
+        analysis,
+        issues: outcome.issues,
+        report_verdict: verdict ?? null,
+        moderation,
+      }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
 
   } catch (error) {
     console.error('Error processing request:', error);
     return new Response(
-      JSON.stringify({ error: error.message }),
+      JSON.stringify({ error: (error as Error).message }),
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
 });
+
+/**
+ * Object path inside the bucket from a stored path or public URL
+ * (".../storage/v1/object/public/report-images/api/x/y.jpg" -> "api/x/y.jpg")
+ */
+function toObjectPath(storagePath: string): string {
+  const marker = `/object/public/${BUCKET}/`;
+  const index = storagePath.indexOf(marker);
+  if (index === -1) return storagePath;
+
+  return decodeURIComponent(storagePath.slice(index + marker.length).split('?')[0]);
+}
+
+function mimeTypeFor(path: string): string {
+  const extension = path.split('.').pop()?.toLowerCase();
+  if (extension === 'png') return 'image/png';
+  if (extension === 'webp') return 'image/webp';
+  return 'image/jpeg';
+}
@@ -0,0 +1,38 @@
+/**
+ * Local HTTP analyser - a stand-in for tests and CI
+ *
+ * POSTs { "prompt", "image": { "data", "mime_type" } } to LOCAL_ANALYZER_URL
+ * and uses the response body as the model answer, so a fixture server can
+ * return canned analyses without a live model key.
+ *
+ * - LOCAL_ANALYZER_URL     Required, e.g. http://host.docker.internal:8787/analyze
+ * - LOCAL_ANALYZER_MODEL   Optional label stored with results, default local
+ */
+
+import type { AnalysisImage, Analyzer } from "./analyzer.ts";
+
+export function createLocalAnalyzer(): Analyzer {
+  const url = Deno.env.get('LOCAL_ANALYZER_URL');
+  if (!url) throw new Error('LOCAL_ANALYZER_URL not set');
+
+  return {
+    provider: 'local',
+    model: Deno.env.get('LOCAL_ANALYZER_MODEL') ?? 'local',
+    async analyze(image: AnalysisImage, prompt: string): Promise<string> {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          prompt,
+          image: { data: image.base64, mime_type: image.mimeType },
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Local analyzer error ${response.status}: ${await response.text()}`);
+      }
+
+      return await response.text();
+    },
+  };
+}
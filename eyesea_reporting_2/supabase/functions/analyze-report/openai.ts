@@ -0,0 +1,64 @@
+/**
+ * OpenAI-compatible chat completions analyser
+ *
+ * Works with OpenAI and any server exposing the same /chat/completions API
+ * with image input (e.g. vLLM, Ollama, Azure OpenAI behind a proxy).
+ *
+ * - OPENAI_API_KEY    Required
+ * - OPENAI_BASE_URL   Optional, default https://api.openai.com/v1
+ * - OPENAI_MODEL      Optional, default gpt-4o-mini
+ */
+
+import type { AnalysisImage, Analyzer } from "./analyzer.ts";
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+export function createOpenAIAnalyzer(): Analyzer {
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!apiKey) throw new Error('OPENAI_API_KEY not set');
+
+  const baseUrl = (Deno.env.get('OPENAI_BASE_URL') ?? DEFAULT_BASE_URL).replace(/\/$/, '');
+  const modelName = Deno.env.get('OPENAI_MODEL') ?? DEFAULT_MODEL;
+
+  return {
+    provider: 'openai',
+    model: modelName,
+    async analyze(image: AnalysisImage, prompt: string): Promise<string> {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: modelName,
+          response_format: { type: 'json_object' },
+          messages: [
+            {
+              role: 'user',
+              content: [
+                { type: 'text', text: prompt },
+                {
+                  type: 'image_url',
+                  image_url: { url: `data:${image.mimeType};base64,${image.base64}` },
+                },
+              ],
+            },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`OpenAI-compatible API error ${response.status}: ${await response.text()}`);
+      }
+
+      const result = await response.json();
+      const content = result.choices?.[0]?.message?.content;
+      if (typeof content !== 'string') {
+        throw new Error('OpenAI-compatible API returned no message content');
+      }
+      return content;
+    },
+  };
+}
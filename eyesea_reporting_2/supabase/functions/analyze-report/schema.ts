@@ -0,0 +1,140 @@
+/**
+ * Validation of vision-model output for analyze-report
+ *
+ * Model answers are parsed and checked against a strict schema. Values that
+ * are the right type but out of range are clamped, and free-text labels are
+ * mapped to the pollution type enum; both are recorded as notes. Anything
+ * else (missing fields, wrong types) makes the answer invalid.
+ */
+
+import { normalizePollutionType } from "../_shared/pollution.ts";
+
+export interface PollutionAnalysis {
+  pollution_detected: string[]; // Pollution type enum values
+  severity: number; // Integer 1-5
+  confidence: number; // 0.0-1.0
+  description: string;
+  pollution_counts: Record<string, number>; // Estimated item count per type
+}
+
+export type AnalysisValidation =
+  | { valid: true; analysis: PollutionAnalysis; notes: string[] }
+  | { valid: false; errors: string[] };
+
+const EXPECTED_FIELDS = [
+  'pollution_detected',
+  'severity',
+  'confidence',
+  'description',
+  'pollution_counts',
+];
+
+/**
+ * Parse model text as JSON, stripping markdown code fences some models add
+ */
+export function parseModelOutput(text: string): unknown {
+  const cleanJson = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  return JSON.parse(cleanJson);
+}
+
+/**
+ * Validate and normalise a parsed model answer
+ */
+export function validateAnalysis(raw: unknown): AnalysisValidation {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { valid: false, errors: ['Response must be a JSON object'] };
+  }
+
+  const value = raw as Record<string, unknown>;
+  const errors: string[] = [];
+  const notes: string[] = [];
+
+  if (
+    !Array.isArray(value.pollution_detected) ||
+    !value.pollution_detected.every((label) => typeof label === 'string')
+  ) {
+    errors.push('pollution_detected must be an array of strings');
+  }
+  if (typeof value.severity !== 'number' || !Number.isFinite(value.severity)) {
+    errors.push('severity must be a number');
+  }
+  if (typeof value.confidence !== 'number' || !Number.isFinite(value.confidence)) {
+    errors.push('confidence must be a number');
+  }
+  if (typeof value.description !== 'string') {
+    errors.push('description must be a string');
+  }
+  // Optional: older prompts and some models omit the counts
+  if (
+    value.pollution_counts !== undefined &&
+    (!value.pollution_counts ||
+      typeof value.pollution_counts !== 'object' ||
+      Array.isArray(value.pollution_counts) ||
+      !Object.values(value.pollution_counts).every((count) => typeof count === 'number'))
+  ) {
+    errors.push('pollution_counts must be an object of numbers');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!EXPECTED_FIELDS.includes(key)) {
+      notes.push(`Ignored unexpected field: ${key}`);
+    }
+  }
+
+  // Map labels to the enum, dropping "none"-style labels and duplicates
+  const types = new Set<string>();
+  for (const label of value.pollution_detected as string[]) {
+    const type = normalizePollutionType(label);
+    if (type === null) continue;
+    if (type !== label) {
+      notes.push(`Mapped label '${label}' to ${type}`);
+    }
+    types.add(type);
+  }
+
+  // Counts are keyed by type too; labels mapping to the same type are summed
+  const counts: Record<string, number> = {};
+  for (const [label, count] of Object.entries((value.pollution_counts ?? {}) as Record<string, number>)) {
+    const type = normalizePollutionType(label);
+    const items = Math.max(Math.round(count), 0);
+    if (type === null || items === 0) continue;
+    counts[type] = (counts[type] ?? 0) + items;
+    types.add(type);
+  }
+  if (value.pollution_counts === undefined && types.size > 0) {
+    notes.push('No pollution_counts given; counted one item per detected type');
+  }
+  for (const type of types) {
+    counts[type] ??= 1;
+  }
+
+  const severity = clamp(Math.round(value.severity as number), 1, 5);
+  if (severity !== value.severity) {
+    notes.push(`Clamped severity ${value.severity} to ${severity}`);
+  }
+
+  const confidence = clamp(value.confidence as number, 0, 1);
+  if (confidence !== value.confidence) {
+    notes.push(`Clamped confidence ${value.confidence} to ${confidence}`);
+  }
+
+  return {
+    valid: true,
+    analysis: {
+      pollution_detected: [...types],
+      severity,
+      confidence,
+      description: (value.description as string).trim(),
+      pollution_counts: counts,
+    },
+    notes,
+  };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max);
+}
@@ -0,0 +1,148 @@
+/**
+ * Edge Function: cleanup-report-images
+ *
+ * Removes orphaned objects from the `report-images` bucket:
+ * - Staged uploads under staging/ that were never committed
+ * - Objects under api/ with no matching `report_images` record
+ *   (e.g. the database commit failed after the images were moved)
+ *
+ * Only objects older than `min_age_minutes` (default and minimum 150) are
+ * considered, so submissions still in flight are never touched. That is
+ * longer than the 2 hours a signed upload URL stays valid (see
+ * submit-report/uploads.ts): a direct upload can't be removed while the
+ * partner may still finalise it.
+ *
+ * ## Setup
+ *
+ * Schedule it (pg_cron + pg_net, or any external cron) with the service role key:
+ *
+ * ```bash
+ * curl -X POST https://<project>.supabase.co/functions/v1/cleanup-report-images \
+ *   -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+ *   -H "Content-Type: application/json" \
+ *   -d '{"dry_run": false}'
+ * ```
+ *
+ * Request Body (optional):
+ * {
+ *   "dry_run": boolean,          // List orphans without deleting them
+ *   "min_age_minutes": number    // Minimum object age, default and minimum 150
+ * }
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const BUCKET = "report-images";
+// Signed upload URL lifetime (2 hours) plus a margin
+const DEFAULT_MIN_AGE_MINUTES = 150;
+const MAX_OBJECTS_PER_RUN = 1000;
+const REMOVE_CHUNK_SIZE = 100;
+
+interface CleanupRequest {
+  dry_run?: boolean;
+  min_age_minutes?: number;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+
+    // Only callable with the service role key (cron / admin tooling)
+    const authHeader = req.headers.get("authorization") ?? "";
+    if (!supabaseKey || authHeader !== `Bearer ${supabaseKey}`) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    let options: CleanupRequest = {};
+    try {
+      options = await req.json();
+    } catch {
+      // Empty body - use defaults
+    }
+
+    const dryRun = options.dry_run === true;
+    const minAgeMinutes = Math.max(
+      Number(options.min_age_minutes ?? DEFAULT_MIN_AGE_MINUTES) || DEFAULT_MIN_AGE_MINUTES,
+      DEFAULT_MIN_AGE_MINUTES
+    );
+
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // report_images.storage_path stores public URLs, so match against the prefix
+    const {
+      data: { publicUrl: publicUrlPrefix },
+    } = supabase.storage.from(BUCKET).getPublicUrl("");
+
+    const { data: orphans, error: findError } = await supabase.rpc(
+      "find_orphaned_report_images",
+      {
+        p_public_url_prefix: publicUrlPrefix,
+        p_min_age: `${minAgeMinutes} minutes`,
+        p_limit: MAX_OBJECTS_PER_RUN,
+      }
+    );
+
+    if (findError) {
+      throw new Error(`Failed to find orphaned images: ${findError.message}`);
+    }
+
+    const names: string[] = (orphans ?? []).map((o: { name: string }) => o.name);
+    console.log(`Found ${names.length} orphaned object(s)${dryRun ? " (dry run)" : ""}`);
+
+    let removed = 0;
+    const errors: string[] = [];
+
+    if (!dryRun) {
+      for (let i = 0; i < names.length; i += REMOVE_CHUNK_SIZE) {
+        const chunk = names.slice(i, i + REMOVE_CHUNK_SIZE);
+        const { data, error } = await supabase.storage.from(BUCKET).remove(chunk);
+
+        if (error) {
+          console.error("Storage remove error:", error);
+          errors.push(error.message);
+          continue;
+        }
+        removed += data?.length ?? 0;
+      }
+    }
+
+    console.log(`Removed ${removed} orphaned object(s)`);
+
+    return new Response(
+      JSON.stringify({
+        success: errors.length === 0,
+        dry_run: dryRun,
+        found: names.length,
+        removed,
+        objects: dryRun ? names : undefined,
+        errors: errors.length > 0 ? errors : undefined,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error cleaning up report images:", error);
+    return new Response(
+      JSON.stringify({ error: (error as Error).message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,195 @@
+/**
+ * Edge Function: deliver-partner-webhooks
+ *
+ * Sends queued partner_webhook_deliveries: status changes, merges and AI
+ * analysis of reports submitted through the External Reporting API, to the
+ * callback the submitting API key registered (see
+ * submit-report/webhook.ts). Calls are signed with the key's webhook secret.
+ * Callbacks must resolve to public addresses, checked before every call
+ * (see _shared/outbound.ts), and redirects are not followed.
+ *
+ * Failures (non-2xx, timeouts) are retried with exponential backoff: 30s,
+ * doubling, at most an hour apart, until PARTNER_WEBHOOK_MAX_ATTEMPTS
+ * (default 8) is reached.
+ *
+ * ## Setup
+ *
+ * Schedule a POST to this function every minute; see
+ * 20260125010000_partner_webhooks.sql.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  corsHeaders,
+  createServiceClient,
+  errorResponse,
+  jsonResponse,
+  type SupabaseClient,
+} from "../_shared/http.ts";
+import { assertPublicUrl } from "../_shared/outbound.ts";
+import { SIGNATURE_HEADER, signWebhookPayload } from "../_shared/signature.ts";
+
+// Deliveries sent per invocation
+const BATCH_SIZE = 100;
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const BACKOFF_BASE_SECONDS = 30;
+const BACKOFF_MAX_SECONDS = 3600;
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// Row returned by claim_partner_webhook_deliveries
+interface PartnerDelivery {
+  id: string;
+  api_key_id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  attempt_count: number;
+  webhook_url: string | null;
+  webhook_secret: string | null;
+}
+
+interface DeliveryOutcome {
+  success: boolean;
+  httpStatus?: number;
+  error?: string;
+}
+
+serve(async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return errorResponse(405, "METHOD_NOT_ALLOWED", "Only POST method is allowed");
+  }
+
+  try {
+    const supabase = createServiceClient();
+    if (!supabase) {
+      return errorResponse(500, "CONFIG_ERROR", "Server configuration error");
+    }
+
+    const { data, error } = await supabase.rpc("claim_partner_webhook_deliveries", {
+      p_limit: BATCH_SIZE,
+    });
+
+    if (error) {
+      console.error("Failed to claim partner webhook deliveries:", error);
+      return errorResponse(500, "DATABASE_ERROR", "Failed to claim deliveries");
+    }
+
+    const deliveries = (data ?? []) as PartnerDelivery[];
+    console.log(`Delivering ${deliveries.length} partner webhook(s)`);
+
+    const results = await Promise.all(
+      deliveries.map(async (delivery) => {
+        const outcome = await deliver(delivery);
+        const status = await recordOutcome(supabase, delivery, outcome);
+        return { id: delivery.id, event: delivery.event, status, error: outcome.error };
+      })
+    );
+
+    return jsonResponse({
+      success: true,
+      data: {
+        delivered: results.filter((result) => result.status === "delivered").length,
+        results,
+      },
+    });
+  } catch (error) {
+    console.error("Unhandled error:", error);
+    return errorResponse(
+      500,
+      "INTERNAL_ERROR",
+      "An unexpected error occurred"
+    );
+  }
+});
+
+/**
+ * POST one signed delivery to the partner's callback
+ */
+async function deliver(delivery: PartnerDelivery): Promise<DeliveryOutcome> {
+  // The partner removed its webhook after the event was queued
+  if (!delivery.webhook_url || !delivery.webhook_secret) {
+    return { success: false, error: "Webhook no longer registered" };
+  }
+
+  const body = JSON.stringify(delivery.payload);
+
+  try {
+    await assertPublicUrl(delivery.webhook_url);
+
+    const response = await fetch(delivery.webhook_url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "EyeSea-Webhooks/1.0",
+        "X-EyeSea-Event": delivery.event,
+        "X-EyeSea-Delivery": delivery.id,
+        [SIGNATURE_HEADER]: await signWebhookPayload(delivery.webhook_secret, body),
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+
+    // Drain the body so the connection can be reused
+    await response.body?.cancel();
+
+    return response.ok
+      ? { success: true, httpStatus: response.status }
+      : { success: false, httpStatus: response.status, error: `HTTP ${response.status}` };
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+}
+
+/**
+ * Store the outcome of an attempt and schedule the next one if needed
+ */
+async function recordOutcome(
+  supabase: SupabaseClient,
+  delivery: PartnerDelivery,
+  outcome: DeliveryOutcome
+): Promise<string> {
+  const attempt = delivery.attempt_count + 1;
+  const now = new Date();
+
+  let status: string;
+  let nextAttemptAt = now;
+  if (outcome.success) {
+    status = "delivered";
+  } else if (!delivery.webhook_url || attempt >= maxAttempts()) {
+    status = "failed";
+  } else {
+    status = "retrying";
+    const delay = Math.min(BACKOFF_BASE_SECONDS * 2 ** (attempt - 1), BACKOFF_MAX_SECONDS);
+    nextAttemptAt = new Date(now.getTime() + delay * 1000);
+  }
+
+  const { error } = await supabase
+    .from("partner_webhook_deliveries")
+    .update({
+      status,
+      attempt_count: attempt,
+      next_attempt_at: nextAttemptAt.toISOString(),
+      last_http_status: outcome.httpStatus ?? null,
+      last_error: outcome.error ?? null,
+      delivered_at: outcome.success ? now.toISOString() : null,
+    })
+    .eq("id", delivery.id);
+
+  if (error) {
+    console.error(`Failed to record partner webhook delivery ${delivery.id}:`, error.message);
+  }
+
+  return status;
+}
+
+function maxAttempts(): number {
+  const value = parseInt(Deno.env.get("PARTNER_WEBHOOK_MAX_ATTEMPTS") ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_ATTEMPTS;
+}
@@ -0,0 +1,234 @@
+/**
+ * Geocode Stats - Admin Edge Function
+ *
+ * Reports how well location_cache is working and what the geocoding
+ * providers cost, from the daily counters in geocode_stats (written by the
+ * geocode and submit-report functions, see _shared/geocoding/stats.ts).
+ *
+ * GET /functions/v1/geocode-stats?<filters>
+ *   Filters (all optional):
+ *   - from, to: dates (YYYY-MM-DD, UTC) bounding the period; defaults to
+ *     the last 30 days including today
+ *
+ * Response data:
+ *   - cache: hits, stale_hits, misses, hit_rate (stale hits count as hits),
+ *     and the current number of entries and expired entries
+ *   - providers: calls, errors and estimated_cost_usd per provider
+ *   - estimated_cost_usd: total for the period
+ *   - daily: the same counts per day, oldest first
+ *
+ * Cost is estimated from list prices per 1000 calls, set with
+ * GEOCODE_PROVIDER_COSTS (e.g. "mapbox=0.75,nominatim=0"); free tiers are
+ * not subtracted.
+ *
+ * Authentication:
+ * - Header: Authorization: Bearer <session token> of a user whose profile
+ *   role is 'admin'
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticateAdmin } from "../_shared/admin.ts";
+import {
+  corsHeaders,
+  createServiceClient,
+  errorResponse,
+  jsonResponse,
+} from "../_shared/http.ts";
+import type { GeocodeStat } from "../_shared/geocoding/stats.ts";
+
+const DEFAULT_PERIOD_DAYS = 30;
+const MAX_PERIOD_DAYS = 366;
+
+// USD per 1000 calls, unless overridden by GEOCODE_PROVIDER_COSTS
+const DEFAULT_COSTS: Record<string, number> = {
+  mapbox: 0.75,
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface StatRow extends GeocodeStat {
+  day: string;
+}
+
+interface CacheCounts {
+  hits: number;
+  stale_hits: number;
+  misses: number;
+  provider_calls: number;
+}
+
+serve(async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET") {
+    return errorResponse(405, "METHOD_NOT_ALLOWED", "Only GET method is allowed");
+  }
+
+  try {
+    const supabase = createServiceClient();
+    if (!supabase) {
+      return errorResponse(500, "CONFIG_ERROR", "Server configuration error");
+    }
+
+    const admin = await authenticateAdmin(req, supabase);
+    if (admin instanceof Response) return admin;
+
+    const params = new URL(req.url).searchParams;
+
+    for (const field of ["from", "to"]) {
+      const value = params.get(field);
+      if (value !== null && (!DATE_PATTERN.test(value) || isNaN(Date.parse(value)))) {
+        return errorResponse(400, "VALIDATION_ERROR", `${field} must be a date (YYYY-MM-DD)`, field);
+      }
+    }
+
+    const to = params.get("to") ?? isoDate(Date.now());
+    const from = params.get("from") ?? isoDate(Date.parse(to) - (DEFAULT_PERIOD_DAYS - 1) * DAY_MS);
+
+    const periodDays = (Date.parse(to) - Date.parse(from)) / DAY_MS + 1;
+    if (periodDays < 1 || periodDays > MAX_PERIOD_DAYS) {
+      return errorResponse(
+        400,
+        "VALIDATION_ERROR",
+        `from must be on or before to, and the period at most ${MAX_PERIOD_DAYS} days`,
+        "from"
+      );
+    }
+
+    const { data, error } = await supabase
+      .from("geocode_stats")
+      .select("day, kind, provider, count")
+      .gte("day", from)
+      .lte("day", to)
+      .order("day", { ascending: true });
+
+    if (error) {
+      console.error("Geocode stats query error:", error);
+      return errorResponse(500, "DATABASE_ERROR", "Failed to fetch geocoding stats");
+    }
+
+    // Expired entries are still served (stale) until the cleanup removes them
+    const [entries, expired] = await Promise.all([
+      supabase
+        .from("location_cache")
+        .select("id", { count: "exact", head: true }),
+      supabase
+        .from("location_cache")
+        .select("id", { count: "exact", head: true })
+        .lte("expires_at", new Date().toISOString()),
+    ]);
+
+    const costs = providerCosts();
+    const totals = emptyCounts();
+    const daily = new Map<string, CacheCounts>();
+    const providers = new Map<string, { calls: number; errors: number }>();
+
+    for (const row of (data ?? []) as StatRow[]) {
+      const count = Number(row.count);
+      const day = daily.get(row.day) ?? emptyCounts();
+      daily.set(row.day, day);
+
+      if (row.kind === "provider_call" || row.kind === "provider_error") {
+        const provider = providers.get(row.provider) ?? { calls: 0, errors: 0 };
+        providers.set(row.provider, provider);
+        if (row.kind === "provider_call") {
+          provider.calls += count;
+          day.provider_calls += count;
+          totals.provider_calls += count;
+        } else {
+          provider.errors += count;
+        }
+        continue;
+      }
+
+      const field = row.kind === "cache_hit"
+        ? "hits"
+        : row.kind === "cache_stale" ? "stale_hits" : "misses";
+      day[field] += count;
+      totals[field] += count;
+    }
+
+    const providerStats = [...providers.entries()]
+      .map(([provider, counts]) => ({
+        provider,
+        ...counts,
+        estimated_cost_usd: roundCost(counts.calls / 1000 * (costs[provider] ?? 0)),
+      }))
+      .sort((a, b) => b.calls - a.calls);
+
+    return jsonResponse({
+      success: true,
+      data: {
+        from,
+        to,
+        cache: {
+          hits: totals.hits,
+          stale_hits: totals.stale_hits,
+          misses: totals.misses,
+          hit_rate: hitRate(totals),
+          entries: entries.count ?? null,
+          expired_entries: expired.count ?? null,
+        },
+        providers: providerStats,
+        estimated_cost_usd: roundCost(
+          providerStats.reduce((sum, provider) => sum + provider.estimated_cost_usd, 0)
+        ),
+        daily: [...daily.entries()].map(([day, counts]) => ({
+          day,
+          ...counts,
+          hit_rate: hitRate(counts),
+        })),
+      },
+    });
+  } catch (error) {
+    console.error("Unhandled error:", error);
+    return errorResponse(
+      500,
+      "INTERNAL_ERROR",
+      "An unexpected error occurred"
+    );
+  }
+});
+
+function isoDate(time: number): string {
+  return new Date(time).toISOString().substring(0, 10);
+}
+
+function emptyCounts(): CacheCounts {
+  return { hits: 0, stale_hits: 0, misses: 0, provider_calls: 0 };
+}
+
+// Share of lookups answered from the cache, or null without lookups
+function hitRate(counts: CacheCounts): number | null {
+  const served = counts.hits + counts.stale_hits;
+  const lookups = served + counts.misses;
+  return lookups > 0 ? Math.round(served / lookups * 1000) / 1000 : null;
+}
+
+function roundCost(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * USD per 1000 calls by provider, from GEOCODE_PROVIDER_COSTS
+ * ("name=price,...") over the defaults
+ */
+function providerCosts(): Record<string, number> {
+  const costs = { ...DEFAULT_COSTS };
+  for (const entry of (Deno.env.get("GEOCODE_PROVIDER_COSTS") ?? "").split(",")) {
+    const [name, price] = entry.split("=").map((part) => part.trim());
+    if (!name) continue;
+    const value = Number(price);
+    if (Number.isFinite(value) && value >= 0) {
+      costs[name.toLowerCase()] = value;
+    } else {
+      console.warn(`Ignoring invalid geocoding cost: ${entry}`);
+    }
+  }
+  return costs;
+}
@@ -1,31 +1,63 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { SupabaseClient } from '../_shared/http.ts';
+import { forwardGeocode } from '../_shared/geocoding/providers.ts';
+import {
+  DEFAULT_CACHE_PRECISION,
+  type GeocodePoint,
+  isFailure,
+  MAX_CACHE_PRECISION,
+  MIN_CACHE_PRECISION,
+  reverseGeocodeCached,
+} from '../_shared/geocoding/reverse.ts';
+import { createCounters, recordStats } from '../_shared/geocoding/stats.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-interface GeocodingRequest {
-  lat: number;
-  lng: number;
-  precision?: number; // Decimal places for cache key (default: 4 = ~11m accuracy)
-}
+// Points per batch request
+const MAX_BATCH_SIZE = 100;
+
+const MAX_QUERY_LENGTH = 256;
+const DEFAULT_FORWARD_LIMIT = 5;
+const MAX_FORWARD_LIMIT = 10;
 
-interface GeocodingResponse {
-  placeName: string;
-  city: string | null;
-  country: string | null;
-  cached: boolean;
+interface GeocodingRequest {
+  // Reverse geocode one point...
+  lat?: number;
+  lng?: number;
+  // ...or several (batch mode)
+  points?: GeocodePoint[];
+  precision?: number; // Decimal places for cache key (3-5, default: 4 = ~11m accuracy)
+
+  // Forward geocode a place name or address
+  query?: string;
+  limit?: number; // Matches to return (default: 5, max: 10)
 }
 
 /**
  * Geocoding Edge Function with caching
  *
- * - Checks location_cache table first
- * - Falls back to Mapbox API if not cached
- * - Caches results for 30 days
- * - Reduces Mapbox API calls by ~80%
+ * Reverse:  { lat, lng, precision? } -> GeocodingResponse (see _shared/geocoding/reverse.ts)
+ * Batch:    { points: [{ lat, lng }, ...], precision? }
+ *           -> { results: [GeocodingResponse | { error }, ...] }, in input order
+ * Forward:  { query, limit? } -> { results: [ForwardResult, ...] }
+ *
+ * - Checks location_cache table first (reverse and batch)
+ * - Falls back to the provider chain if not cached (see _shared/geocoding/):
+ *   Mapbox, then Nominatim, then the bundled offline dataset
+ * - Adds the sea/ocean, EEZ and distance to the coast (see _shared/geocoding/marine.ts);
+ *   offshore points are named after their water body
+ * - Caches online results for 30 days, offshore ones for 180 (GEOCODE_CACHE_TTL_DAYS,
+ *   GEOCODE_OFFSHORE_CACHE_TTL_DAYS); offline answers on land are not cached
+ *   so the next request can get a precise one
+ * - Serves entries up to 30 days past expiry (GEOCODE_CACHE_STALE_DAYS) and
+ *   refreshes them in the background; pass the same window to the scheduled
+ *   cleanup_expired_location_cache
+ * - Reduces Mapbox API calls by ~80%; hit rate, provider calls and spend are
+ *   reported by the geocode-stats function
  */
 serve(async (req: Request) => {
   // Handle CORS preflight
@@ -34,147 +66,109 @@ serve(async (req: Request) => {
   }
 
   try {
-    const { lat, lng, precision = 4 }: GeocodingRequest = await req.json();
-
-    if (lat === undefined || lng === undefined) {
-      throw new Error('Missing lat or lng parameters');
-    }
-
-    // Round coordinates for cache key
-    const roundedLat = parseFloat(lat.toFixed(precision));
-    const roundedLng = parseFloat(lng.toFixed(precision));
-
-    console.log(`Geocoding: ${roundedLat}, ${roundedLng} (precision: ${precision})`);
+    const body: GeocodingRequest = await req.json();
 
     // Initialize Supabase client
     const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    // 1. Check cache first
-    const { data: cached, error: cacheError } = await supabase
-      .from('location_cache')
-      .select('place_name, city, country')
-      .eq('lat', roundedLat)
-      .eq('lng', roundedLng)
-      .eq('precision', precision)
-      .gt('expires_at', new Date().toISOString())
-      .single();
-
-    if (cached && !cacheError) {
-      console.log('Cache HIT');
-      return new Response(
-        JSON.stringify({
-          placeName: cached.place_name,
-          city: cached.city,
-          country: cached.country,
-          cached: true,
-        } as GeocodingResponse),
-        {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-          status: 200,
-        }
-      );
+    if (body.query !== undefined) {
+      return await handleForward(supabase, body);
     }
 
-    console.log('Cache MISS - calling Mapbox API');
-
-    // 2. Get Mapbox access token
-    const mapboxToken = Deno.env.get('MAPBOX_ACCESS_TOKEN');
-    if (!mapboxToken) {
-      throw new Error('MAPBOX_ACCESS_TOKEN not configured');
+    // Bounded so clients can't bypass the cache with ever finer keys
+    const { precision = DEFAULT_CACHE_PRECISION } = body;
+    if (
+      !Number.isInteger(precision) ||
+      precision < MIN_CACHE_PRECISION ||
+      precision > MAX_CACHE_PRECISION
+    ) {
+      throw new Error(
+        `precision must be an integer between ${MIN_CACHE_PRECISION} and ${MAX_CACHE_PRECISION}`
+      );
     }
 
-    // 3. Call Mapbox Geocoding API
-    const mapboxUrl = `https://api.mapbox.com/geocoding/v5/mapbox.places/${lng},${lat}.json` +
-      `?access_token=${mapboxToken}` +
-      `&types=place,locality,region,country` +
-      `&limit=1` +
-      `&language=en`;
+    if (body.points !== undefined) {
+      if (!Array.isArray(body.points) || body.points.length === 0) {
+        throw new Error('points must be a non-empty array');
+      }
+      if (body.points.length > MAX_BATCH_SIZE) {
+        throw new Error(`At most ${MAX_BATCH_SIZE} points per request`);
+      }
+      body.points.forEach((point, index) => {
+        if (!isCoordinate(point?.lat, 90) || !isCoordinate(point?.lng, 180)) {
+          throw new Error(`Invalid lat or lng at points[${index}]`);
+        }
+      });
 
-    const mapboxResponse = await fetch(mapboxUrl);
+      console.log(`Batch geocoding ${body.points.length} point(s) (precision: ${precision})`);
 
-    if (!mapboxResponse.ok) {
-      throw new Error(`Mapbox API error: ${mapboxResponse.status}`);
+      const results = await reverseGeocodeCached(supabase, body.points, precision);
+      return jsonResponse({ results }, 200);
     }
 
-    const mapboxData = await mapboxResponse.json();
-    const features = mapboxData.features ?? [];
-
-    let placeName = '';
-    let city: string | null = null;
-    let country: string | null = null;
-
-    if (features.length > 0) {
-      const feature = features[0];
-      placeName = feature.place_name ?? '';
-
-      // Extract city and country from context
-      const context = feature.context ?? [];
-      for (const ctx of context) {
-        const id = ctx.id ?? '';
-        if (id.startsWith('place.') || id.startsWith('locality.')) {
-          city = city ?? ctx.text;
-        } else if (id.startsWith('country.')) {
-          country = ctx.text;
-        }
-      }
-
-      // If feature itself is a place, use it as city
-      const placeType = feature.place_type?.[0] ?? '';
-      if ((placeType === 'place' || placeType === 'locality') && !city) {
-        city = feature.text;
-      }
+    const { lat, lng } = body;
+    if (!isCoordinate(lat, 90) || !isCoordinate(lng, 180)) {
+      throw new Error('Missing or invalid lat or lng parameters');
     }
 
-    // 4. Cache the result
-    const expiresAt = new Date();
-    expiresAt.setDate(expiresAt.getDate() + 30); // 30 days
-
-    const { error: insertError } = await supabase
-      .from('location_cache')
-      .upsert({
-        lat: roundedLat,
-        lng: roundedLng,
-        precision: precision,
-        place_name: placeName,
-        city: city,
-        country: country,
-        full_response: mapboxData,
-        expires_at: expiresAt.toISOString(),
-      }, {
-        onConflict: 'lat,lng,precision',
-      });
+    console.log(`Geocoding: ${lat}, ${lng} (precision: ${precision})`);
 
-    if (insertError) {
-      console.warn('Failed to cache geocoding result:', insertError);
-      // Continue anyway - caching is optional
-    } else {
-      console.log('Cached geocoding result');
+    const [result] = await reverseGeocodeCached(supabase, [{ lat, lng }], precision);
+    if (isFailure(result)) {
+      return jsonResponse(result, 502);
     }
-
-    // 5. Return response
-    return new Response(
-      JSON.stringify({
-        placeName,
-        city,
-        country,
-        cached: false,
-      } as GeocodingResponse),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 200,
-      }
-    );
+    return jsonResponse(result, 200);
 
   } catch (error) {
     console.error('Geocoding error:', error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400,
-      }
-    );
+    return jsonResponse({ error: (error as Error).message }, 400);
   }
 });
+
+/**
+ * Forward geocoding: place name or address -> coordinates and bounding box
+ */
+async function handleForward(
+  supabase: SupabaseClient,
+  body: GeocodingRequest
+): Promise<Response> {
+  const query = typeof body.query === 'string' ? body.query.trim() : '';
+  if (!query || query.length > MAX_QUERY_LENGTH) {
+    throw new Error(`query must be a non-empty string of at most ${MAX_QUERY_LENGTH} characters`);
+  }
+
+  const limit = body.limit ?? DEFAULT_FORWARD_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_FORWARD_LIMIT) {
+    throw new Error(`limit must be an integer between 1 and ${MAX_FORWARD_LIMIT}`);
+  }
+
+  console.log(`Forward geocoding: "${query}"`);
+
+  // Forward searches aren't cached; count their provider calls
+  const counters = createCounters();
+  try {
+    const results = await forwardGeocode(query, limit, counters);
+    return jsonResponse({ results }, 200);
+  } catch (error) {
+    console.error('Forward geocoding failed:', error);
+    return jsonResponse({ error: (error as Error).message }, 502);
+  } finally {
+    recordStats(supabase, counters);
+  }
+}
+
+function isCoordinate(value: unknown, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= max;
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(
+    JSON.stringify(body),
+    {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      status,
+    }
+  );
+}
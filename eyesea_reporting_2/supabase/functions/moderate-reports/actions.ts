@@ -0,0 +1,186 @@
+/**
+ * Moderation actions
+ *
+ * POST /functions/v1/moderate-reports
+ * {
+ *   "report_id": string,        // Required
+ *   "action": string,           // Required: approve|reject|merge_duplicate|edit_classification
+ *   "reason": string,           // Required for reject, optional otherwise
+ *   "duplicate_of": string,     // merge_duplicate: ID of the report to keep
+ *   "pollution_type": string,   // edit_classification (at least one of these three)
+ *   "severity": number,         // edit_classification: 1-5
+ *   "pollution_counts": {}      // edit_classification: {"plastic": 5}
+ * }
+ *
+ * The moderate_report database function applies the action, writes the
+ * moderation_actions audit row and notifies the reporter in one transaction.
+ */
+
+import type { AdminContext } from "../_shared/admin.ts";
+import {
+  errorResponse,
+  jsonResponse,
+  type SupabaseClient,
+} from "../_shared/http.ts";
+import { VALID_POLLUTION_TYPES } from "../_shared/pollution.ts";
+
+const MODERATION_ACTIONS = [
+  "approve",
+  "reject",
+  "merge_duplicate",
+  "edit_classification",
+];
+
+const MAX_REASON_LENGTH = 1000;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface ModerationRequest {
+  report_id?: string;
+  action?: string;
+  reason?: string;
+  duplicate_of?: string;
+  pollution_type?: string;
+  severity?: number;
+  pollution_counts?: Record<string, number>;
+}
+
+// Field-level validation failure
+interface ModerationError {
+  message: string;
+  field: string;
+}
+
+/**
+ * Handle a POST request applying a moderation action
+ */
+export async function handleModerationAction(
+  supabase: SupabaseClient,
+  admin: AdminContext,
+  body: ModerationRequest
+): Promise<Response> {
+  const invalid = validateModerationRequest(body);
+  if (invalid) {
+    return errorResponse(400, "VALIDATION_ERROR", invalid.message, invalid.field);
+  }
+
+  const changes: Record<string, unknown> = {};
+  if (body.pollution_type !== undefined) changes.pollution_type = body.pollution_type;
+  if (body.severity !== undefined) changes.severity = body.severity;
+  if (body.pollution_counts !== undefined) changes.pollution_counts = body.pollution_counts;
+  if (body.duplicate_of !== undefined) changes.duplicate_of = body.duplicate_of;
+
+  const { data, error } = await supabase.rpc("moderate_report", {
+    p_report_id: body.report_id,
+    p_moderator_id: admin.userId,
+    p_action: body.action,
+    p_reason: body.reason?.trim() || null,
+    p_changes: changes,
+  });
+
+  if (error) {
+    // moderate_report raises no_data_found / invalid_parameter_value for bad input
+    if (error.code === "P0002") {
+      return errorResponse(404, "NOT_FOUND", error.message);
+    }
+    if (error.code === "22023") {
+      return errorResponse(409, "INVALID_ACTION", error.message);
+    }
+    console.error("Moderation action error:", error);
+    return errorResponse(500, "DATABASE_ERROR", "Failed to apply moderation action");
+  }
+
+  console.log(`Report ${body.report_id}: ${body.action} by ${admin.userId}`);
+
+  return jsonResponse({ success: true, data });
+}
+
+/**
+ * Validate the request body; returns null when valid
+ */
+function validateModerationRequest(body: ModerationRequest): ModerationError | null {
+  if (!body || typeof body !== "object") {
+    return { message: "Request body must be a JSON object", field: "body" };
+  }
+  if (typeof body.report_id !== "string" || !UUID_PATTERN.test(body.report_id)) {
+    return { message: "report_id must be a UUID", field: "report_id" };
+  }
+  if (typeof body.action !== "string" || !MODERATION_ACTIONS.includes(body.action)) {
+    return {
+      message: `action must be one of: ${MODERATION_ACTIONS.join(", ")}`,
+      field: "action",
+    };
+  }
+
+  if (body.reason !== undefined) {
+    if (typeof body.reason !== "string" || body.reason.length > MAX_REASON_LENGTH) {
+      return {
+        message: `reason must be a string of at most ${MAX_REASON_LENGTH} characters`,
+        field: "reason",
+      };
+    }
+  }
+  if (body.action === "reject" && !body.reason?.trim()) {
+    return { message: "reason is required to reject a report", field: "reason" };
+  }
+
+  if (body.action === "merge_duplicate") {
+    if (typeof body.duplicate_of !== "string" || !UUID_PATTERN.test(body.duplicate_of)) {
+      return { message: "duplicate_of must be a UUID", field: "duplicate_of" };
+    }
+    if (body.duplicate_of.toLowerCase() === body.report_id.toLowerCase()) {
+      return { message: "A report cannot be a duplicate of itself", field: "duplicate_of" };
+    }
+  }
+
+  if (body.action === "edit_classification") {
+    if (
+      body.pollution_type === undefined &&
+      body.severity === undefined &&
+      body.pollution_counts === undefined
+    ) {
+      return {
+        message: "pollution_type, severity or pollution_counts is required",
+        field: "pollution_type",
+      };
+    }
+    if (
+      body.pollution_type !== undefined &&
+      !VALID_POLLUTION_TYPES.includes(body.pollution_type)
+    ) {
+      return {
+        message: `pollution_type must be one of: ${VALID_POLLUTION_TYPES.join(", ")}`,
+        field: "pollution_type",
+      };
+    }
+    if (
+      body.severity !== undefined &&
+      (!Number.isInteger(body.severity) || body.severity < 1 || body.severity > 5)
+    ) {
+      return { message: "severity must be an integer between 1 and 5", field: "severity" };
+    }
+    if (body.pollution_counts !== undefined) {
+      const counts = body.pollution_counts;
+      if (!counts || typeof counts !== "object" || Array.isArray(counts)) {
+        return { message: "pollution_counts must be an object", field: "pollution_counts" };
+      }
+      for (const [type, count] of Object.entries(counts)) {
+        if (!VALID_POLLUTION_TYPES.includes(type)) {
+          return {
+            message: `Unknown pollution type in pollution_counts: ${type}`,
+            field: "pollution_counts",
+          };
+        }
+        if (!Number.isInteger(count) || count < 0) {
+          return {
+            message: "pollution_counts values must be non-negative integers",
+            field: "pollution_counts",
+          };
+        }
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,72 @@
+/**
+ * Moderation API - Admin Edge Function
+ *
+ * Lets admins work through pending and suspicious reports.
+ *
+ * Endpoints:
+ * - GET  /functions/v1/moderate-reports  Moderation queue (see queue.ts)
+ * - POST /functions/v1/moderate-reports  Approve, reject, merge or reclassify
+ *                                        a report (see actions.ts)
+ *
+ * Authentication:
+ * - Header: Authorization: Bearer <session token> of a user whose profile
+ *   role is 'admin'
+ *
+ * Every action is recorded in moderation_actions and the reporter (if any)
+ * receives a notification.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticateAdmin } from "../_shared/admin.ts";
+import {
+  corsHeaders,
+  createServiceClient,
+  errorResponse,
+} from "../_shared/http.ts";
+import { handleModerationAction, type ModerationRequest } from "./actions.ts";
+import { handleQueueRequest } from "./queue.ts";
+
+serve(async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET" && req.method !== "POST") {
+    return errorResponse(
+      405,
+      "METHOD_NOT_ALLOWED",
+      "Only GET and POST methods are allowed"
+    );
+  }
+
+  try {
+    const supabase = createServiceClient();
+    if (!supabase) {
+      return errorResponse(500, "CONFIG_ERROR", "Server configuration error");
+    }
+
+    const admin = await authenticateAdmin(req, supabase);
+    if (admin instanceof Response) return admin;
+
+    if (req.method === "GET") {
+      return await handleQueueRequest(req, supabase);
+    }
+
+    let body: ModerationRequest;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse(400, "INVALID_JSON", "Request body must be valid JSON");
+    }
+
+    return await handleModerationAction(supabase, admin, body);
+  } catch (error) {
+    console.error("Unhandled error:", error);
+    return errorResponse(
+      500,
+      "INTERNAL_ERROR",
+      "An unexpected error occurred"
+    );
+  }
+});
@@ -0,0 +1,126 @@
+/**
+ * Moderation queue
+ *
+ * GET /functions/v1/moderate-reports?<filters>
+ *   List reports awaiting moderation, most suspicious first (fraud_score),
+ *   then oldest first. Each report includes its images and AI analysis.
+ *   Filters (all optional):
+ *   - status: pending|verified|rejected (default pending)
+ *   - flagged: "true" to only list reports flagged by fraud detection or
+ *     auto-moderation (is_flagged or review_reason set)
+ *   - limit: page size (1-100, default 25)
+ *   - offset: rows to skip (default 0)
+ */
+
+import {
+  errorResponse,
+  jsonResponse,
+  type SupabaseClient,
+} from "../_shared/http.ts";
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+// Resolved reports are done with; they never show up in the queue
+const QUEUE_STATUSES = ["pending", "verified", "rejected"];
+
+const QUEUE_COLUMNS = `
+  id,
+  user_id,
+  status,
+  pollution_type,
+  severity,
+  pollution_counts,
+  notes,
+  address,
+  city,
+  country,
+  api_source,
+  fraud_score,
+  fraud_warnings,
+  is_flagged,
+  review_reason,
+  duplicate_of,
+  reported_at,
+  report_images (
+    id,
+    storage_path,
+    thumbnail_path,
+    is_primary,
+    duplicate_of,
+    exif_distance_km,
+    exif_captured_at
+  ),
+  ai_analysis (
+    pollution_detected,
+    pollution_type_counts,
+    severity,
+    confidence,
+    description,
+    analysis_status,
+    analysis_issues,
+    analyzer_provider,
+    analyzer_model,
+    analyzed_at
+  )
+`;
+
+/**
+ * Handle a GET request for the moderation queue
+ */
+export async function handleQueueRequest(
+  req: Request,
+  supabase: SupabaseClient
+): Promise<Response> {
+  const params = new URL(req.url).searchParams;
+
+  const status = params.get("status") ?? "pending";
+  if (!QUEUE_STATUSES.includes(status)) {
+    return errorResponse(
+      400,
+      "VALIDATION_ERROR",
+      `status must be one of: ${QUEUE_STATUSES.join(", ")}`,
+      "status"
+    );
+  }
+
+  const limit = Number(params.get("limit") ?? DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return errorResponse(
+      400,
+      "VALIDATION_ERROR",
+      `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+      "limit"
+    );
+  }
+
+  const offset = Number(params.get("offset") ?? 0);
+  if (!Number.isInteger(offset) || offset < 0) {
+    return errorResponse(400, "VALIDATION_ERROR", "offset must be a non-negative integer", "offset");
+  }
+
+  let query = supabase
+    .from("reports")
+    .select(QUEUE_COLUMNS, { count: "exact" })
+    .eq("status", status);
+
+  if (params.get("flagged") === "true") {
+    query = query.or("is_flagged.eq.true,review_reason.not.is.null");
+  }
+
+  const { data, count, error } = await query
+    .order("fraud_score", { ascending: false, nullsFirst: false })
+    .order("reported_at", { ascending: true })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    console.error("Moderation queue error:", error);
+    return errorResponse(500, "DATABASE_ERROR", "Failed to fetch moderation queue");
+  }
+
+  return jsonResponse({
+    success: true,
+    data: data ?? [],
+    total: count ?? 0,
+  });
+}
@@ -0,0 +1,170 @@
+/**
+ * Push Delivery Log - Admin Edge Function
+ *
+ * Answers "did user X get the push?" from push_delivery_attempts, which
+ * send-push-notification writes once per notification and device token, or
+ * endpoint for email and webhook deliveries.
+ *
+ * GET /functions/v1/push-delivery-log?<filters>
+ *   Newest attempts first. Filters (all optional):
+ *   - notification_id: attempts for this notification (including digests
+ *     that covered it)
+ *   - user_id: attempts for this user
+ *   - channel: push|email|webhook
+ *   - status: sent|retrying|failed|unregistered
+ *   - from, to: ISO 8601 timestamps bounding the last attempt
+ *   - limit: page size (1-100, default 50)
+ *   - offset: rows to skip (default 0)
+ *
+ * Authentication:
+ * - Header: Authorization: Bearer <session token> of a user whose profile
+ *   role is 'admin'
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticateAdmin } from "../_shared/admin.ts";
+import {
+  corsHeaders,
+  createServiceClient,
+  errorResponse,
+  jsonResponse,
+} from "../_shared/http.ts";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+const DELIVERY_STATUSES = ["sent", "retrying", "failed", "unregistered"];
+
+const DELIVERY_CHANNELS = ["push", "email", "webhook"];
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const LOG_COLUMNS = `
+  id,
+  notification_id,
+  notification_ids,
+  user_id,
+  channel,
+  endpoint_id,
+  token,
+  platform,
+  status,
+  error_code,
+  http_status,
+  attempt_count,
+  fcm_message_id,
+  next_retry_at,
+  last_attempt_at,
+  created_at,
+  notifications (
+    type,
+    title
+  )
+`;
+
+serve(async (req: Request): Promise<Response> => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "GET") {
+    return errorResponse(405, "METHOD_NOT_ALLOWED", "Only GET method is allowed");
+  }
+
+  try {
+    const supabase = createServiceClient();
+    if (!supabase) {
+      return errorResponse(500, "CONFIG_ERROR", "Server configuration error");
+    }
+
+    const admin = await authenticateAdmin(req, supabase);
+    if (admin instanceof Response) return admin;
+
+    const params = new URL(req.url).searchParams;
+
+    let query = supabase
+      .from("push_delivery_attempts")
+      .select(LOG_COLUMNS, { count: "exact" });
+
+    for (const field of ["notification_id", "user_id"]) {
+      const value = params.get(field);
+      if (value === null) continue;
+      if (!UUID_PATTERN.test(value)) {
+        return errorResponse(400, "VALIDATION_ERROR", `${field} must be a UUID`, field);
+      }
+      query = field === "notification_id"
+        ? query.contains("notification_ids", [value])
+        : query.eq("user_id", value);
+    }
+
+    for (const [field, allowed] of [["channel", DELIVERY_CHANNELS], ["status", DELIVERY_STATUSES]] as const) {
+      const value = params.get(field);
+      if (value === null) continue;
+      if (!allowed.includes(value)) {
+        return errorResponse(
+          400,
+          "VALIDATION_ERROR",
+          `${field} must be one of: ${allowed.join(", ")}`,
+          field
+        );
+      }
+      query = query.eq(field, value);
+    }
+
+    for (const field of ["from", "to"]) {
+      const value = params.get(field);
+      if (value === null) continue;
+      if (isNaN(Date.parse(value))) {
+        return errorResponse(400, "VALIDATION_ERROR", `${field} must be an ISO 8601 timestamp`, field);
+      }
+      query = field === "from"
+        ? query.gte("last_attempt_at", value)
+        : query.lte("last_attempt_at", value);
+    }
+
+    const limit = Number(params.get("limit") ?? DEFAULT_PAGE_SIZE);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return errorResponse(
+        400,
+        "VALIDATION_ERROR",
+        `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+        "limit"
+      );
+    }
+
+    const offset = Number(params.get("offset") ?? 0);
+    if (!Number.isInteger(offset) || offset < 0) {
+      return errorResponse(400, "VALIDATION_ERROR", "offset must be a non-negative integer", "offset");
+    }
+
+    const { data, count, error } = await query
+      .order("last_attempt_at", { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      console.error("Delivery log query error:", error);
+      return errorResponse(500, "DATABASE_ERROR", "Failed to fetch delivery log");
+    }
+
+    // Device tokens are credentials for pushing to a device; only show a prefix
+    const rows = (data ?? []).map((row: Record<string, unknown>) => ({
+      ...row,
+      token: typeof row.token === "string" ? `${row.token.substring(0, 20)}...` : null,
+    }));
+
+    return jsonResponse({
+      success: true,
+      data: rows,
+      total: count ?? 0,
+    });
+  } catch (error) {
+    console.error("Unhandled error:", error);
+    return errorResponse(
+      500,
+      "INTERNAL_ERROR",
+      "An unexpected error occurred"
+    );
+  }
+});
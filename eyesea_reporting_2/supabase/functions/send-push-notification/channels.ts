@@ -0,0 +1,242 @@
+/**
+ * Delivery channels besides push
+ *
+ * Users register endpoints in notification_endpoints (an email address or a
+ * webhook URL). Each notification is sent to every enabled, confirmed
+ * endpoint whose channel the user has not muted for the notification type.
+ * Quiet hours, digests and the hourly limit only apply to push.
+ *
+ * A new endpoint is confirmed first: send_confirmations sends it its
+ * confirmation code, and the owner passes the code to the
+ * confirm_notification_endpoint RPC. Every delivery is logged in
+ * push_delivery_attempts (see log.ts) and failed ones are retried by
+ * retry_failed.
+ */
+
+import type { SupabaseClient } from "../_shared/http.ts";
+import type { NotificationRecord } from "./delivery.ts";
+import { emailChannel } from "./email.ts";
+import {
+  type AttemptResult,
+  type DeliveryStatus,
+  type EndpointDeliveryAttempt,
+  recordAttempt,
+} from "./log.ts";
+import { webhookChannel } from "./webhook.ts";
+
+export type ChannelName = "email" | "webhook";
+
+// Row returned by get_notification_endpoints
+export interface Endpoint {
+  id: string;
+  channel: ChannelName;
+  target: string; // Email address or webhook URL
+  secret: string; // Webhook signing secret
+}
+
+// Row returned by claim_endpoint_confirmations
+export interface PendingEndpoint extends Endpoint {
+  user_id: string;
+  confirmation_code: string;
+}
+
+export interface NotificationChannel {
+  name: ChannelName;
+  // False when the channel's environment is not set up
+  isConfigured(): boolean;
+  // Throws on network errors, which are retried
+  send(
+    supabase: SupabaseClient,
+    record: NotificationRecord,
+    endpoint: Endpoint
+  ): Promise<AttemptResult>;
+  // Send the endpoint its confirmation code
+  sendConfirmation(
+    supabase: SupabaseClient,
+    endpoint: PendingEndpoint
+  ): Promise<AttemptResult>;
+}
+
+export interface ChannelResult {
+  channel: ChannelName;
+  endpoint_id: string;
+  success: boolean;
+  status?: DeliveryStatus;
+  error?: string;
+}
+
+const CHANNELS: Record<ChannelName, NotificationChannel> = {
+  email: emailChannel,
+  webhook: webhookChannel,
+};
+
+/**
+ * Send a notification to the user's email and webhook endpoints
+ */
+export async function sendToEndpoints(
+  supabase: SupabaseClient,
+  record: NotificationRecord
+): Promise<ChannelResult[]> {
+  const { data, error } = await supabase.rpc("get_notification_endpoints", {
+    p_user_id: record.user_id,
+    p_type: record.type,
+  });
+
+  if (error) {
+    throw new Error(`Failed to get notification endpoints: ${error.message}`);
+  }
+
+  const endpoints = (data ?? []) as Endpoint[];
+
+  return await Promise.all(
+    endpoints.map((endpoint) =>
+      deliverToEndpoint(supabase, endpoint, {
+        channel: endpoint.channel,
+        notification_id: record.id,
+        notification_ids: [record.id],
+        user_id: record.user_id,
+        endpoint_id: endpoint.id,
+        message: record,
+        attempt_count: 1,
+      })
+    )
+  );
+}
+
+/**
+ * Send a logged email/webhook attempt again (retry worker). Endpoints that
+ * were disabled since are given up.
+ */
+export async function retryEndpointDelivery(
+  supabase: SupabaseClient,
+  attempt: EndpointDeliveryAttempt
+): Promise<ChannelResult> {
+  const retry: Omit<EndpointDeliveryAttempt, "id"> = {
+    channel: attempt.channel,
+    notification_id: attempt.notification_id,
+    notification_ids: attempt.notification_ids,
+    user_id: attempt.user_id,
+    endpoint_id: attempt.endpoint_id,
+    message: attempt.message,
+    attempt_count: attempt.attempt_count + 1,
+  };
+
+  const { data: endpoint, error } = await supabase
+    .from("notification_endpoints")
+    .select("id, channel, target, secret")
+    .eq("id", attempt.endpoint_id)
+    .eq("enabled", true)
+    .not("confirmed_at", "is", null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load notification endpoint: ${error.message}`);
+  }
+
+  if (!endpoint) {
+    const result = { success: false, error: "Endpoint disabled", retryable: false };
+    const status = await recordAttempt(supabase, retry, result);
+    return {
+      channel: attempt.channel,
+      endpoint_id: attempt.endpoint_id,
+      success: false,
+      status,
+      error: result.error,
+    };
+  }
+
+  return await deliverToEndpoint(supabase, endpoint as Endpoint, retry);
+}
+
+/**
+ * Send new endpoints their confirmation code. Endpoints that could not be
+ * reached are tried again once claim_endpoint_confirmations' lease ends.
+ */
+export async function sendConfirmations(
+  supabase: SupabaseClient,
+  limit: number
+): Promise<ChannelResult[]> {
+  const { data, error } = await supabase.rpc("claim_endpoint_confirmations", {
+    p_limit: limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim endpoint confirmations: ${error.message}`);
+  }
+
+  const endpoints = (data ?? []) as PendingEndpoint[];
+
+  return await Promise.all(
+    endpoints.map(async (endpoint): Promise<ChannelResult> => {
+      const result = await sendWith(endpoint, (channel) =>
+        channel.sendConfirmation(supabase, endpoint)
+      );
+
+      if (result.success) {
+        const { error: updateError } = await supabase
+          .from("notification_endpoints")
+          .update({ confirmation_next_at: null, confirmation_sent_at: new Date().toISOString() })
+          .eq("id", endpoint.id);
+        if (updateError) {
+          console.error(`Failed to mark confirmation of endpoint ${endpoint.id} sent:`, updateError.message);
+        }
+      }
+
+      return {
+        channel: endpoint.channel,
+        endpoint_id: endpoint.id,
+        success: result.success,
+        error: result.error,
+      };
+    })
+  );
+}
+
+/**
+ * Send one notification to one endpoint and log the attempt
+ */
+async function deliverToEndpoint(
+  supabase: SupabaseClient,
+  endpoint: Endpoint,
+  attempt: Omit<EndpointDeliveryAttempt, "id">
+): Promise<ChannelResult> {
+  const result = await sendWith(endpoint, (channel) =>
+    channel.send(supabase, attempt.message, endpoint)
+  );
+  const status = await recordAttempt(supabase, attempt, result);
+
+  return {
+    channel: endpoint.channel,
+    endpoint_id: endpoint.id,
+    success: result.success,
+    status,
+    error: result.error,
+  };
+}
+
+/**
+ * Run a send on the endpoint's channel; an unconfigured channel is retried
+ * later in case it gets set up, as are errors thrown by the send
+ */
+async function sendWith(
+  endpoint: Endpoint,
+  send: (channel: NotificationChannel) => Promise<AttemptResult>
+): Promise<AttemptResult> {
+  const channel = CHANNELS[endpoint.channel];
+
+  if (!channel.isConfigured()) {
+    console.warn(`${endpoint.channel} channel not configured - skipping endpoint ${endpoint.id}`);
+    return { success: false, error: "Channel not configured", retryable: true };
+  }
+
+  try {
+    const result = await send(channel);
+    if (!result.success) {
+      console.error(`${endpoint.channel} delivery to endpoint ${endpoint.id} failed: ${result.error}`);
+    }
+    return result;
+  } catch (error) {
+    console.error(`${endpoint.channel} delivery to endpoint ${endpoint.id} failed:`, error);
+    return { success: false, error: (error as Error).message, retryable: true };
+  }
+}
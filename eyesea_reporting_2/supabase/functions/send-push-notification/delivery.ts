@@ -0,0 +1,275 @@
+/**
+ * Push delivery to all of a user's devices
+ */
+
+import type { SupabaseClient } from "../_shared/http.ts";
+import {
+  type FcmMessage,
+  type FcmSendResult,
+  type ServiceAccount,
+  sendFcmMessage,
+} from "./fcm.ts";
+import {
+  type DeliveryStatus,
+  type PushDeliveryAttempt,
+  recordAttempt,
+} from "./log.ts";
+import { type RenderedContent, renderNotification, resolveLocale } from "./i18n.ts";
+
+// Row of the notifications table, as sent by the database webhook
+export interface NotificationRecord {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  body?: string | null;
+  data?: Record<string, unknown> | null;
+  template_key?: string | null; // Catalogue key in i18n.ts; title/body are the English fallback
+  template_params?: Record<string, unknown> | null;
+}
+
+export interface DeviceResult {
+  token: string; // Truncated for logs
+  platform: string;
+  success: boolean;
+  status: DeliveryStatus;
+  error?: string;
+}
+
+export interface PushResult {
+  sent: number;
+  total: number;
+  results: DeviceResult[];
+}
+
+/**
+ * Send a notification to every device token registered for its user.
+ * notificationIds lists every notification the push covers (digests).
+ */
+export async function sendPushToUser(
+  supabase: SupabaseClient,
+  serviceAccount: ServiceAccount,
+  record: NotificationRecord,
+  notificationIds: string[] = [record.id]
+): Promise<PushResult> {
+  // Get user's device tokens using the RPC function
+  const { data: tokens, error: tokenError } = await supabase.rpc(
+    "get_user_push_tokens",
+    { p_user_id: record.user_id }
+  );
+
+  if (tokenError) {
+    throw new Error(`Failed to get tokens: ${tokenError.message}`);
+  }
+
+  if (!tokens || tokens.length === 0) {
+    console.log("No device tokens found for user");
+    return { sent: 0, total: 0, results: [] };
+  }
+
+  console.log(`Found ${tokens.length} device token(s)`);
+
+  // iOS app icon badge shows the unread in-app notifications
+  const badge = await unreadCount(supabase, record.user_id);
+
+  // Language for devices that did not report a locale
+  const country = await profileCountry(supabase, record.user_id);
+
+  // Prepare notification data (convert to strings for FCM data payload)
+  const dataPayload: Record<string, string> = {
+    notification_id: record.id,
+    type: record.type,
+  };
+
+  // Add custom data fields as strings
+  if (record.data) {
+    for (const [key, value] of Object.entries(record.data)) {
+      dataPayload[key] = String(value);
+    }
+  }
+
+  // Send to each device
+  const results: DeviceResult[] = await Promise.all(
+    tokens.map(async (tokenRecord: { token: string; platform: string; locale: string | null }) => {
+      const content = renderNotification(
+        record,
+        resolveLocale(tokenRecord.locale, country)
+      );
+
+      const message: FcmMessage = {
+        token: tokenRecord.token,
+        notification: {
+          title: content.title,
+          body: content.body,
+        },
+        data: dataPayload,
+        // Android-specific settings
+        android: {
+          priority: "HIGH",
+          notification: {
+            channel_id: "eyesea_notifications",
+            click_action: "FLUTTER_NOTIFICATION_CLICK",
+            ...androidLocKeys(content),
+          },
+        },
+        // iOS-specific settings
+        apns: {
+          payload: {
+            aps: {
+              alert: apnsLocKeys(content),
+              badge,
+              sound: "default",
+            },
+          },
+        },
+      };
+
+      return await deliverToDevice(supabase, serviceAccount, {
+        channel: "push",
+        notification_id: record.id,
+        notification_ids: notificationIds,
+        user_id: record.user_id,
+        token: tokenRecord.token,
+        platform: tokenRecord.platform,
+        message,
+        attempt_count: 1,
+      });
+    })
+  );
+
+  // Count successes
+  const sent = results.filter((r) => r.success).length;
+
+  console.log(`Push sent: ${sent}/${tokens.length} successful`);
+
+  return { sent, total: tokens.length, results };
+}
+
+/**
+ * Send a logged attempt again (retry worker)
+ */
+export async function retryDelivery(
+  supabase: SupabaseClient,
+  serviceAccount: ServiceAccount,
+  attempt: PushDeliveryAttempt
+): Promise<DeviceResult> {
+  return await deliverToDevice(supabase, serviceAccount, {
+    channel: "push",
+    notification_id: attempt.notification_id,
+    notification_ids: attempt.notification_ids,
+    user_id: attempt.user_id,
+    token: attempt.token,
+    platform: attempt.platform,
+    message: attempt.message,
+    attempt_count: attempt.attempt_count + 1,
+  });
+}
+
+/**
+ * Send one message to one device and log the attempt
+ */
+async function deliverToDevice(
+  supabase: SupabaseClient,
+  serviceAccount: ServiceAccount,
+  attempt: Omit<PushDeliveryAttempt, "id">
+): Promise<DeviceResult> {
+  let result: FcmSendResult;
+  try {
+    result = await sendFcmMessage(serviceAccount, attempt.message);
+  } catch (error) {
+    // Network or OAuth failure - worth another try
+    result = {
+      success: false,
+      error: (error as Error).message,
+      unregistered: false,
+      retryable: true,
+    };
+  }
+
+  // Token no longer valid (app uninstalled, token rotated) - remove it
+  if (result.unregistered) {
+    console.log(`Removing invalid token: ${attempt.token.substring(0, 20)}...`);
+    await supabase
+      .from("device_tokens")
+      .delete()
+      .eq("token", attempt.token);
+  }
+
+  const status = await recordAttempt(supabase, attempt, result);
+
+  return {
+    token: attempt.token.substring(0, 20) + "...",
+    platform: attempt.platform,
+    success: result.success,
+    status,
+    error: result.error,
+  };
+}
+
+/**
+ * FCM Android localisation keys for rendered content (empty if not used)
+ */
+function androidLocKeys(content: RenderedContent) {
+  return {
+    title_loc_key: content.titleLocKey?.key,
+    title_loc_args: content.titleLocKey?.args,
+    body_loc_key: content.bodyLocKey?.key,
+    body_loc_args: content.bodyLocKey?.args,
+  };
+}
+
+/**
+ * APNs alert localisation keys for rendered content (undefined if not used)
+ */
+function apnsLocKeys(content: RenderedContent) {
+  if (!content.titleLocKey) return undefined;
+
+  return {
+    "title-loc-key": content.titleLocKey.key,
+    "title-loc-args": content.titleLocKey.args,
+    "loc-key": content.bodyLocKey?.key,
+    "loc-args": content.bodyLocKey?.args,
+  };
+}
+
+/**
+ * Country from the user's profile (null if unknown)
+ */
+export async function profileCountry(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("country")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to load profile country:", error.message);
+    return null;
+  }
+
+  return data?.country ?? null;
+}
+
+/**
+ * Number of unread notifications for the user (0 if the count fails)
+ */
+async function unreadCount(
+  supabase: SupabaseClient,
+  userId: string
+): Promise<number> {
+  const { count, error } = await supabase
+    .from("notifications")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .eq("read", false);
+
+  if (error) {
+    console.error("Failed to count unread notifications:", error.message);
+    return 0;
+  }
+
+  return count ?? 0;
+}
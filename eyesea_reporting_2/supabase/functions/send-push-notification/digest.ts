@@ -0,0 +1,47 @@
+/**
+ * Digest pushes
+ *
+ * Deferred notifications of the same type for the same user are coalesced
+ * into a single push ("5 of your reports were verified"). Each notification
+ * row stays in the in-app list; only the push is combined. The digest title
+ * is rendered per device locale (see i18n.ts).
+ */
+
+import type { NotificationRecord } from "./delivery.ts";
+
+/**
+ * Group notifications by user and type, oldest first within each group
+ */
+export function groupForDigest(
+  records: NotificationRecord[]
+): NotificationRecord[][] {
+  const groups = new Map<string, NotificationRecord[]>();
+
+  for (const record of records) {
+    const key = `${record.user_id}:${record.type}`;
+    const group = groups.get(key) ?? [];
+    group.push(record);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()];
+}
+
+/**
+ * Build the record to push for a group: the notification itself when alone,
+ * otherwise the newest one marked as a digest of the whole group
+ */
+export function buildDigest(group: NotificationRecord[]): NotificationRecord {
+  if (group.length === 1) return group[0];
+
+  const latest = group[group.length - 1];
+
+  return {
+    ...latest,
+    data: {
+      ...latest.data,
+      digest_count: group.length,
+      notification_ids: group.map((record) => record.id).join(","),
+    },
+  };
+}
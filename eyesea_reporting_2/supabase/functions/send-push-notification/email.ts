@@ -0,0 +1,106 @@
+/**
+ * Email channel (SMTP)
+ *
+ * The email is rendered in the language of the user's profile country (see
+ * i18n.ts). Works against any SMTP server, including a local sink such as
+ * Mailpit or the Inbucket instance started by `supabase start`. A new
+ * address first gets the endpoint's confirmation code (see channels.ts).
+ *
+ * - SMTP_HOST       Server host; the channel is off when unset
+ * - SMTP_PORT       Default 587
+ * - SMTP_USERNAME   Optional, with SMTP_PASSWORD
+ * - SMTP_PASSWORD
+ * - SMTP_FROM       Sender, e.g. "EyeSea <notifications@eyesea.app>"
+ * - SMTP_TLS        "true" for implicit TLS (port 465); otherwise STARTTLS
+ * - SMTP_INSECURE   "true" to allow plaintext, for local sinks only
+ */
+
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import type { SupabaseClient } from "../_shared/http.ts";
+import type { Endpoint, NotificationChannel, PendingEndpoint } from "./channels.ts";
+import { type NotificationRecord, profileCountry } from "./delivery.ts";
+import { type RenderedContent, renderNotification, resolveLocale } from "./i18n.ts";
+import type { AttemptResult } from "./log.ts";
+
+const DEFAULT_SMTP_PORT = 587;
+const DEFAULT_FROM = "EyeSea <notifications@eyesea.app>";
+
+export const emailChannel: NotificationChannel = {
+  name: "email",
+
+  isConfigured() {
+    return Boolean(Deno.env.get("SMTP_HOST"));
+  },
+
+  async send(
+    supabase: SupabaseClient,
+    record: NotificationRecord,
+    endpoint: Endpoint
+  ): Promise<AttemptResult> {
+    const country = await profileCountry(supabase, record.user_id);
+    await sendEmail(endpoint.target, renderNotification(record, resolveLocale(null, country)));
+    return { success: true, retryable: false };
+  },
+
+  async sendConfirmation(
+    supabase: SupabaseClient,
+    endpoint: PendingEndpoint
+  ): Promise<AttemptResult> {
+    const country = await profileCountry(supabase, endpoint.user_id);
+    const content = renderNotification(
+      {
+        id: endpoint.id,
+        user_id: endpoint.user_id,
+        type: "system",
+        title: "Confirm your email for EyeSea notifications",
+        body: `Your confirmation code is ${endpoint.confirmation_code}.`,
+        template_key: "endpoint_confirmation",
+        template_params: { code: endpoint.confirmation_code },
+      },
+      resolveLocale(null, country)
+    );
+    await sendEmail(endpoint.target, content);
+    return { success: true, retryable: false };
+  },
+};
+
+/**
+ * Send rendered content to one address; throws when the server refuses it
+ */
+async function sendEmail(to: string, content: RenderedContent): Promise<void> {
+  const username = Deno.env.get("SMTP_USERNAME");
+  const client = new SMTPClient({
+    connection: {
+      hostname: Deno.env.get("SMTP_HOST") ?? "",
+      port: parseInt(Deno.env.get("SMTP_PORT") ?? "", 10) || DEFAULT_SMTP_PORT,
+      tls: Deno.env.get("SMTP_TLS") === "true",
+      auth: username
+        ? { username, password: Deno.env.get("SMTP_PASSWORD") ?? "" }
+        : undefined,
+    },
+    debug: {
+      allowUnsecure: Deno.env.get("SMTP_INSECURE") === "true",
+    },
+  });
+
+  try {
+    await client.send({
+      from: Deno.env.get("SMTP_FROM") ?? DEFAULT_FROM,
+      to,
+      subject: content.title,
+      content: content.body ?? content.title,
+      html: `<h2>${escapeHtml(content.title)}</h2>` +
+        (content.body ? `<p>${escapeHtml(content.body)}</p>` : ""),
+    });
+  } finally {
+    await client.close();
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
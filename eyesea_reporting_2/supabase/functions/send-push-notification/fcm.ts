@@ -0,0 +1,283 @@
+/**
+ * Firebase Cloud Messaging HTTP v1 client
+ *
+ * Authenticates with a service account: a self-signed RS256 JWT is exchanged
+ * for an OAuth access token, which is cached until shortly before it expires
+ * (the function instance is reused between invocations). Concurrent sends
+ * share a single token request.
+ *
+ * - FCM_SERVICE_ACCOUNT   Service account key JSON from Firebase Console >
+ *                         Project Settings > Service accounts (raw or base64)
+ */
+
+const FCM_SCOPE = "https://www.googleapis.com/auth/firebase.messaging";
+const DEFAULT_TOKEN_URI = "https://oauth2.googleapis.com/token";
+
+// Access tokens live for an hour; refresh a minute early
+const TOKEN_LIFETIME_SECONDS = 3600;
+const TOKEN_REFRESH_MARGIN_MS = 60_000;
+
+export interface ServiceAccount {
+  project_id: string;
+  client_email: string;
+  private_key: string;
+  token_uri?: string;
+}
+
+// Message resource of projects.messages.send
+export interface FcmMessage {
+  token: string;
+  notification?: {
+    title: string;
+    body?: string;
+  };
+  data?: Record<string, string>;
+  android?: {
+    priority: "NORMAL" | "HIGH";
+    notification?: {
+      channel_id?: string;
+      click_action?: string;
+      title_loc_key?: string;
+      title_loc_args?: string[];
+      body_loc_key?: string;
+      body_loc_args?: string[];
+    };
+  };
+  apns?: {
+    payload: {
+      aps: {
+        alert?: {
+          "title-loc-key"?: string;
+          "title-loc-args"?: string[];
+          "loc-key"?: string;
+          "loc-args"?: string[];
+        };
+        badge?: number;
+        sound?: string;
+      };
+    };
+  };
+}
+
+export interface FcmSendResult {
+  success: boolean;
+  messageId?: string;
+  error?: string; // FCM error code, e.g. UNREGISTERED
+  httpStatus?: number;
+  unregistered: boolean; // Token is no longer valid and should be removed
+  retryable: boolean; // Transient failure (429, 5xx); worth sending again
+  retryAfterSeconds?: number; // From the Retry-After header
+}
+
+// Error codes FCM documents as transient
+const RETRYABLE_ERRORS = ["UNAVAILABLE", "INTERNAL", "QUOTA_EXCEEDED"];
+
+interface AccessToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+let cachedToken: AccessToken | null = null;
+let pendingToken: Promise<AccessToken> | null = null;
+
+/**
+ * Read the service account from FCM_SERVICE_ACCOUNT.
+ * Returns null if it is not set; throws if it is set but unusable.
+ */
+export function loadServiceAccount(): ServiceAccount | null {
+  const raw = Deno.env.get("FCM_SERVICE_ACCOUNT")?.trim();
+  if (!raw) return null;
+
+  const json = raw.startsWith("{") ? raw : atob(raw);
+  const account = JSON.parse(json) as ServiceAccount;
+
+  if (!account.project_id || !account.client_email || !account.private_key) {
+    throw new Error(
+      "FCM_SERVICE_ACCOUNT must contain project_id, client_email and private_key"
+    );
+  }
+
+  return account;
+}
+
+/**
+ * Send one message through the v1 API
+ */
+export async function sendFcmMessage(
+  account: ServiceAccount,
+  message: FcmMessage
+): Promise<FcmSendResult> {
+  const accessToken = await getAccessToken(account);
+
+  const response = await fetch(
+    `https://fcm.googleapis.com/v1/projects/${account.project_id}/messages:send`,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${accessToken}`,
+      },
+      body: JSON.stringify({ message }),
+    }
+  );
+
+  const result = await response.json().catch(() => ({}));
+
+  if (response.ok) {
+    return {
+      success: true,
+      messageId: result.name,
+      httpStatus: response.status,
+      unregistered: false,
+      retryable: false,
+    };
+  }
+
+  // Token revoked or rejected early; fetch a fresh one next time
+  if (response.status === 401) {
+    cachedToken = null;
+  }
+
+  const error = fcmErrorCode(result) ?? result.error?.status ?? `HTTP_${response.status}`;
+
+  return {
+    success: false,
+    error,
+    httpStatus: response.status,
+    // INVALID_ARGUMENT replaces the legacy InvalidRegistration; the payload
+    // is built here, so it means the token itself is malformed
+    unregistered: error === "UNREGISTERED" || error === "INVALID_ARGUMENT",
+    retryable:
+      response.status === 401 ||
+      response.status === 429 ||
+      response.status >= 500 ||
+      RETRYABLE_ERRORS.includes(error),
+    retryAfterSeconds: parseRetryAfter(response.headers.get("retry-after")),
+  };
+}
+
+/**
+ * Retry-After as seconds; the header is either a number of seconds or an
+ * HTTP date
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(seconds, 0);
+
+  const date = Date.parse(header);
+  if (isNaN(date)) return undefined;
+  return Math.max(Math.ceil((date - Date.now()) / 1000), 0);
+}
+
+/**
+ * FCM-specific error code from a v1 error body
+ * ({"error": {"status", "details": [{"@type": "...FcmError", "errorCode"}]}})
+ */
+function fcmErrorCode(body: {
+  error?: { details?: { "@type"?: string; errorCode?: string }[] };
+}): string | undefined {
+  return body.error?.details?.find((detail) =>
+    detail["@type"]?.endsWith("google.firebase.fcm.v1.FcmError")
+  )?.errorCode;
+}
+
+/**
+ * OAuth access token for the service account, from cache when still valid.
+ * Sends that miss the cache at the same time wait for the same request.
+ */
+async function getAccessToken(account: ServiceAccount): Promise<string> {
+  if (cachedToken && cachedToken.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+    return cachedToken.accessToken;
+  }
+
+  pendingToken ??= requestAccessToken(account).finally(() => {
+    pendingToken = null;
+  });
+  cachedToken = await pendingToken;
+  return cachedToken.accessToken;
+}
+
+/**
+ * Exchange a signed JWT for a new access token
+ */
+async function requestAccessToken(account: ServiceAccount): Promise<AccessToken> {
+  const tokenUri = account.token_uri ?? DEFAULT_TOKEN_URI;
+  const now = Math.floor(Date.now() / 1000);
+  const assertion = await signJwt(account.private_key, {
+    iss: account.client_email,
+    scope: FCM_SCOPE,
+    aud: tokenUri,
+    iat: now,
+    exp: now + TOKEN_LIFETIME_SECONDS,
+  });
+
+  const response = await fetch(tokenUri, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+      assertion,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`OAuth token request failed ${response.status}: ${await response.text()}`);
+  }
+
+  const { access_token, expires_in } = await response.json();
+  return {
+    accessToken: access_token,
+    expiresAt: Date.now() + (expires_in ?? TOKEN_LIFETIME_SECONDS) * 1000,
+  };
+}
+
+/**
+ * Sign a JWT with the service account's RSA key (RS256)
+ */
+async function signJwt(
+  privateKeyPem: string,
+  claims: Record<string, unknown>
+): Promise<string> {
+  const header = base64UrlEncode(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  const payload = base64UrlEncode(JSON.stringify(claims));
+  const signingInput = `${header}.${payload}`;
+
+  const key = await crypto.subtle.importKey(
+    "pkcs8",
+    pemToDer(privateKeyPem),
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "RSASSA-PKCS1-v1_5",
+    key,
+    new TextEncoder().encode(signingInput)
+  );
+
+  return `${signingInput}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+function pemToDer(pem: string): ArrayBuffer {
+  const base64 = pem
+    .replace(/-----(BEGIN|END) PRIVATE KEY-----/g, "")
+    .replace(/\\n/g, "") // Keys pasted into env vars often keep escaped newlines
+    .replace(/\s+/g, "");
+  const binary = atob(base64);
+  const der = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    der[i] = binary.charCodeAt(i);
+  }
+  return der.buffer;
+}
+
+function base64UrlEncode(input: string | Uint8Array): string {
+  const bytes = typeof input === "string" ? new TextEncoder().encode(input) : input;
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
@@ -0,0 +1,401 @@
+/**
+ * Localised push content
+ *
+ * Notifications carry a template_key and template_params; the title and
+ * body are rendered per device from the catalogues below. The locale is the
+ * device's (device_tokens.locale), else derived from the profile country,
+ * else English. Notifications without a template (or with missing
+ * parameters) are sent with their stored title/body.
+ *
+ * - PUSH_USE_LOC_KEYS   "true" to also send FCM localisation keys
+ *                       (notification_<key>_title / _body) so apps that
+ *                       ship these strings render them in the current
+ *                       device language
+ */
+
+import type { NotificationRecord } from "./delivery.ts";
+
+export const DEFAULT_LOCALE = "en";
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+interface Template {
+  title: string;
+  body?: string;
+}
+
+const CATALOGUES: Record<string, Record<string, Template>> = {
+  en: {
+    report_recovered: {
+      title: "Your report was recovered!",
+      body: "The pollution at {address} has been cleaned up.",
+    },
+    report_recovered_generic: {
+      title: "Your report was recovered!",
+      body: "A pollution site you reported has been cleaned up.",
+    },
+    report_auto_verified: {
+      title: "Your report was verified!",
+      body: "Thanks for reporting - our analysis confirmed the pollution in your photos.",
+    },
+    report_under_review: {
+      title: "Your report is being reviewed",
+      body: "We could not spot pollution in your photos, so a moderator will take a look.",
+    },
+    report_verified: {
+      title: "Your report was verified!",
+      body: "A moderator confirmed your pollution report. Thank you!",
+    },
+    report_rejected: {
+      title: "Your report was not accepted",
+      body: "Reason: {reason}",
+    },
+    report_rejected_generic: {
+      title: "Your report was not accepted",
+      body: "A moderator could not confirm your report.",
+    },
+    report_merged: {
+      title: "Your report was merged",
+      body: "This pollution was already reported, so your report was merged with the existing one.",
+    },
+    report_reclassified: {
+      title: "Your report was updated",
+      body: "A moderator adjusted the pollution details of your report.",
+    },
+    endpoint_confirmation: {
+      title: "Confirm your email for EyeSea notifications",
+      body: "Your confirmation code is {code}. Enter it in the app to start receiving notifications here.",
+    },
+    digest_report_verified: { title: "{count} of your reports were verified" },
+    digest_report_recovered: { title: "{count} of your reports were cleaned up" },
+    digest_badge_earned: { title: "You earned {count} new badges" },
+    digest_default: { title: "You have {count} new notifications" },
+  },
+  ro: {
+    report_recovered: {
+      title: "Raportul tău a fost rezolvat!",
+      body: "Poluarea de la {address} a fost curățată.",
+    },
+    report_recovered_generic: {
+      title: "Raportul tău a fost rezolvat!",
+      body: "Un loc poluat raportat de tine a fost curățat.",
+    },
+    report_auto_verified: {
+      title: "Raportul tău a fost verificat!",
+      body: "Mulțumim pentru raportare - analiza noastră a confirmat poluarea din fotografii.",
+    },
+    report_under_review: {
+      title: "Raportul tău este în curs de verificare",
+      body: "Nu am putut identifica poluare în fotografii, așa că un moderator va verifica raportul.",
+    },
+    report_verified: {
+      title: "Raportul tău a fost verificat!",
+      body: "Un moderator a confirmat raportul tău de poluare. Mulțumim!",
+    },
+    report_rejected: {
+      title: "Raportul tău nu a fost acceptat",
+      body: "Motiv: {reason}",
+    },
+    report_rejected_generic: {
+      title: "Raportul tău nu a fost acceptat",
+      body: "Un moderator nu a putut confirma raportul tău.",
+    },
+    report_merged: {
+      title: "Raportul tău a fost combinat",
+      body: "Această poluare fusese deja raportată, așa că raportul tău a fost combinat cu cel existent.",
+    },
+    report_reclassified: {
+      title: "Raportul tău a fost actualizat",
+      body: "Un moderator a ajustat detaliile despre poluare din raportul tău.",
+    },
+    endpoint_confirmation: {
+      title: "Confirmă adresa de email pentru notificările EyeSea",
+      body: "Codul tău de confirmare este {code}. Introdu-l în aplicație pentru a primi notificări aici.",
+    },
+    digest_report_verified: { title: "{count} dintre rapoartele tale au fost verificate" },
+    digest_report_recovered: { title: "{count} dintre rapoartele tale au fost curățate" },
+    digest_badge_earned: { title: "Ai câștigat {count} insigne noi" },
+    digest_default: { title: "Ai {count} notificări noi" },
+  },
+  es: {
+    report_recovered: {
+      title: "¡Tu reporte fue resuelto!",
+      body: "La contaminación en {address} ha sido limpiada.",
+    },
+    report_recovered_generic: {
+      title: "¡Tu reporte fue resuelto!",
+      body: "Un lugar contaminado que reportaste ha sido limpiado.",
+    },
+    report_auto_verified: {
+      title: "¡Tu reporte fue verificado!",
+      body: "Gracias por reportar: nuestro análisis confirmó la contaminación en tus fotos.",
+    },
+    report_under_review: {
+      title: "Tu reporte está en revisión",
+      body: "No pudimos detectar contaminación en tus fotos, así que un moderador lo revisará.",
+    },
+    report_verified: {
+      title: "¡Tu reporte fue verificado!",
+      body: "Un moderador confirmó tu reporte de contaminación. ¡Gracias!",
+    },
+    report_rejected: {
+      title: "Tu reporte no fue aceptado",
+      body: "Motivo: {reason}",
+    },
+    report_rejected_generic: {
+      title: "Tu reporte no fue aceptado",
+      body: "Un moderador no pudo confirmar tu reporte.",
+    },
+    report_merged: {
+      title: "Tu reporte fue combinado",
+      body: "Esta contaminación ya había sido reportada, así que tu reporte se combinó con el existente.",
+    },
+    report_reclassified: {
+      title: "Tu reporte fue actualizado",
+      body: "Un moderador ajustó los detalles de contaminación de tu reporte.",
+    },
+    endpoint_confirmation: {
+      title: "Confirma tu correo para las notificaciones de EyeSea",
+      body: "Tu código de confirmación es {code}. Introdúcelo en la app para empezar a recibir notificaciones aquí.",
+    },
+    digest_report_verified: { title: "{count} de tus reportes fueron verificados" },
+    digest_report_recovered: { title: "{count} de tus reportes fueron limpiados" },
+    digest_badge_earned: { title: "Ganaste {count} insignias nuevas" },
+    digest_default: { title: "Tienes {count} notificaciones nuevas" },
+  },
+  fr: {
+    report_recovered: {
+      title: "Votre signalement a été traité !",
+      body: "La pollution à {address} a été nettoyée.",
+    },
+    report_recovered_generic: {
+      title: "Votre signalement a été traité !",
+      body: "Un site pollué que vous avez signalé a été nettoyé.",
+    },
+    report_auto_verified: {
+      title: "Votre signalement a été vérifié !",
+      body: "Merci pour votre signalement : notre analyse a confirmé la pollution sur vos photos.",
+    },
+    report_under_review: {
+      title: "Votre signalement est en cours d'examen",
+      body: "Nous n'avons pas détecté de pollution sur vos photos, un modérateur va donc l'examiner.",
+    },
+    report_verified: {
+      title: "Votre signalement a été vérifié !",
+      body: "Un modérateur a confirmé votre signalement de pollution. Merci !",
+    },
+    report_rejected: {
+      title: "Votre signalement n'a pas été accepté",
+      body: "Motif : {reason}",
+    },
+    report_rejected_generic: {
+      title: "Votre signalement n'a pas été accepté",
+      body: "Un modérateur n'a pas pu confirmer votre signalement.",
+    },
+    report_merged: {
+      title: "Votre signalement a été fusionné",
+      body: "Cette pollution avait déjà été signalée, votre signalement a donc été fusionné avec l'existant.",
+    },
+    report_reclassified: {
+      title: "Votre signalement a été mis à jour",
+      body: "Un modérateur a ajusté les détails de pollution de votre signalement.",
+    },
+    endpoint_confirmation: {
+      title: "Confirmez votre e-mail pour les notifications EyeSea",
+      body: "Votre code de confirmation est {code}. Saisissez-le dans l'application pour recevoir les notifications ici.",
+    },
+    digest_report_verified: { title: "{count} de vos signalements ont été vérifiés" },
+    digest_report_recovered: { title: "{count} de vos signalements ont été nettoyés" },
+    digest_badge_earned: { title: "Vous avez gagné {count} nouveaux badges" },
+    digest_default: { title: "Vous avez {count} nouvelles notifications" },
+  },
+  de: {
+    report_recovered: {
+      title: "Deine Meldung wurde erledigt!",
+      body: "Die Verschmutzung bei {address} wurde beseitigt.",
+    },
+    report_recovered_generic: {
+      title: "Deine Meldung wurde erledigt!",
+      body: "Eine von dir gemeldete Verschmutzung wurde beseitigt.",
+    },
+    report_auto_verified: {
+      title: "Deine Meldung wurde bestätigt!",
+      body: "Danke für deine Meldung - unsere Analyse hat die Verschmutzung auf deinen Fotos bestätigt.",
+    },
+    report_under_review: {
+      title: "Deine Meldung wird geprüft",
+      body: "Wir konnten auf deinen Fotos keine Verschmutzung erkennen, daher sieht sich ein Moderator die Meldung an.",
+    },
+    report_verified: {
+      title: "Deine Meldung wurde bestätigt!",
+      body: "Ein Moderator hat deine Meldung bestätigt. Danke!",
+    },
+    report_rejected: {
+      title: "Deine Meldung wurde nicht angenommen",
+      body: "Grund: {reason}",
+    },
+    report_rejected_generic: {
+      title: "Deine Meldung wurde nicht angenommen",
+      body: "Ein Moderator konnte deine Meldung nicht bestätigen.",
+    },
+    report_merged: {
+      title: "Deine Meldung wurde zusammengeführt",
+      body: "Diese Verschmutzung wurde bereits gemeldet, daher wurde deine Meldung mit der bestehenden zusammengeführt.",
+    },
+    report_reclassified: {
+      title: "Deine Meldung wurde aktualisiert",
+      body: "Ein Moderator hat die Angaben zur Verschmutzung in deiner Meldung angepasst.",
+    },
+    endpoint_confirmation: {
+      title: "Bestätige deine E-Mail für EyeSea-Benachrichtigungen",
+      body: "Dein Bestätigungscode lautet {code}. Gib ihn in der App ein, um hier Benachrichtigungen zu erhalten.",
+    },
+    digest_report_verified: { title: "{count} deiner Meldungen wurden bestätigt" },
+    digest_report_recovered: { title: "{count} deiner Meldungen wurden erledigt" },
+    digest_badge_earned: { title: "Du hast {count} neue Abzeichen erhalten" },
+    digest_default: { title: "Du hast {count} neue Benachrichtigungen" },
+  },
+};
+
+// profiles.country holds the country name picked at registration
+const COUNTRY_LOCALES: Record<string, string> = {
+  Romania: "ro",
+  Moldova: "ro",
+  Spain: "es",
+  Mexico: "es",
+  Argentina: "es",
+  Chile: "es",
+  Colombia: "es",
+  Peru: "es",
+  Uruguay: "es",
+  Venezuela: "es",
+  Ecuador: "es",
+  France: "fr",
+  Monaco: "fr",
+  Senegal: "fr",
+  Germany: "de",
+  Austria: "de",
+  Liechtenstein: "de",
+};
+
+interface LocKey {
+  key: string;
+  args: string[];
+}
+
+export interface RenderedContent {
+  title: string;
+  body?: string;
+  // FCM localisation keys, when PUSH_USE_LOC_KEYS is on
+  titleLocKey?: LocKey;
+  bodyLocKey?: LocKey;
+}
+
+/**
+ * Catalogue locale for a device locale ("ro_RO", "pt-BR") or profile country
+ */
+export function resolveLocale(
+  deviceLocale: string | null | undefined,
+  country: string | null | undefined
+): string {
+  const language = deviceLocale?.trim().toLowerCase().split(/[-_]/)[0];
+  if (language && CATALOGUES[language]) return language;
+
+  const countryLocale = country ? COUNTRY_LOCALES[country.trim()] : undefined;
+  return countryLocale ?? DEFAULT_LOCALE;
+}
+
+/**
+ * Title and body of a notification in the given locale. Digests (see
+ * digest.ts) get a count title with the newest notification's title as body.
+ */
+export function renderNotification(
+  record: NotificationRecord,
+  locale: string
+): RenderedContent {
+  const content = renderTemplate(record.template_key, record.template_params, locale) ?? {
+    title: record.title,
+    body: record.body ?? undefined,
+  };
+
+  const digestCount = Number(record.data?.digest_count ?? 1);
+  if (digestCount <= 1) return content;
+
+  const digestKey = CATALOGUES[DEFAULT_LOCALE][`digest_${record.type}`]
+    ? `digest_${record.type}`
+    : "digest_default";
+  const digest = renderTemplate(digestKey, { count: digestCount }, locale);
+  if (!digest) return content;
+
+  return {
+    title: digest.title,
+    body: content.title,
+    titleLocKey: digest.titleLocKey,
+    bodyLocKey: content.titleLocKey,
+  };
+}
+
+/**
+ * Render a catalogue template; null when there is no such template or a
+ * parameter is missing
+ */
+function renderTemplate(
+  key: string | null | undefined,
+  params: Record<string, unknown> | null | undefined,
+  locale: string
+): RenderedContent | null {
+  if (!key) return null;
+
+  const template = CATALOGUES[locale]?.[key] ?? CATALOGUES[DEFAULT_LOCALE][key];
+  if (!template) {
+    console.warn(`Unknown notification template: ${key}`);
+    return null;
+  }
+
+  const values = params ?? {};
+  const title = fill(template.title, values);
+  const body = template.body !== undefined ? fill(template.body, values) : undefined;
+  if (title === null || body === null) {
+    console.warn(`Missing parameters for notification template: ${key}`);
+    return null;
+  }
+
+  const content: RenderedContent = { title, body };
+
+  if (Deno.env.get("PUSH_USE_LOC_KEYS") === "true") {
+    // Loc args are positional, in the order of the English placeholders
+    const english = CATALOGUES[DEFAULT_LOCALE][key] ?? template;
+    content.titleLocKey = {
+      key: `notification_${key}_title`,
+      args: placeholderValues(english.title, values),
+    };
+    if (english.body !== undefined) {
+      content.bodyLocKey = {
+        key: `notification_${key}_body`,
+        args: placeholderValues(english.body, values),
+      };
+    }
+  }
+
+  return content;
+}
+
+/**
+ * Replace {name} placeholders; null if a parameter is missing
+ */
+function fill(text: string, params: Record<string, unknown>): string | null {
+  let missing = false;
+  const filled = text.replace(PLACEHOLDER, (_, name: string) => {
+    const value = params[name];
+    if (value === undefined || value === null || value === "") {
+      missing = true;
+      return "";
+    }
+    return String(value);
+  });
+  return missing ? null : filled;
+}
+
+function placeholderValues(text: string, params: Record<string, unknown>): string[] {
+  return [...text.matchAll(PLACEHOLDER)].map(([, name]) => String(params[name]));
+}
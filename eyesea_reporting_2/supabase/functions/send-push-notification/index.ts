@@ -1,18 +1,45 @@
 /**
  * Edge Function: send-push-notification
  *
- * Sends push notifications via Firebase Cloud Messaging (FCM) when a notification
- * is inserted into the `notifications` table.
+ * Sends push notifications via Firebase Cloud Messaging (FCM HTTP v1) when a
+ * notification is inserted into the `notifications` table, and fans the
+ * notification out to the user's email and webhook endpoints (see
+ * channels.ts). Push is skipped when FCM is not configured; email needs the
+ * SMTP_* settings described in email.ts.
  *
  * ## Setup
  *
- * 1. Get your Firebase Server Key from Firebase Console:
- *    Project Settings > Cloud Messaging > Server key (or use service account JSON)
+ * 1. Create a service account key in Firebase Console:
+ *    Project Settings > Service accounts > Generate new private key
  *
- * 2. Set the secret in Supabase:
- *    supabase secrets set FCM_SERVER_KEY=your_server_key
+ * 2. Set the secret in Supabase (JSON file contents, or base64 of them):
+ *    supabase secrets set FCM_SERVICE_ACCOUNT="$(cat service-account.json)"
  *
- * 3. Create a database trigger to call this function on notification insert
+ * 3. Create a database webhook to call this function on notification insert
+ *    (see the migration below), sending the service role key
+ *
+ * 4. Schedule the flush of deferred pushes, the retry worker and the
+ *    confirmation of new email/webhook endpoints, e.g. every 5 minutes
+ *    POST { "action": "flush_deferred" }
+ *    POST { "action": "retry_failed" }
+ *    POST { "action": "send_confirmations" }
+ *
+ * Every attempt is logged per notification and device token or endpoint in
+ * push_delivery_attempts (see log.ts); transient FCM, SMTP and webhook
+ * failures are retried with exponential backoff by retry_failed. Admins can
+ * query the log through the push-delivery-log function.
+ *
+ * Every call needs the service role key (Authorization: Bearer ...). The
+ * notification is reloaded from the table by record.id, so only rows that
+ * were really inserted are sent, with their stored contents.
+ *
+ * ## Preferences
+ *
+ * Before looking up device tokens the user's preferences are checked
+ * (see preferences.ts): muted types are not pushed, and pushes during quiet
+ * hours are deferred until they end. Bursts of one type are deferred into a
+ * digest push (see digest.ts) and pushes per user per hour are capped.
+ * Email and webhook endpoints only honour the per-type opt-out.
  *
  * ## Trigger SQL
  *
@@ -21,6 +48,27 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { SupabaseClient } from "../_shared/http.ts";
+import {
+  type NotificationRecord,
+  retryDelivery,
+  sendPushToUser,
+} from "./delivery.ts";
+import {
+  retryEndpointDelivery,
+  sendConfirmations,
+  sendToEndpoints,
+} from "./channels.ts";
+import { buildDigest, groupForDigest } from "./digest.ts";
+import { loadServiceAccount, type ServiceAccount } from "./fcm.ts";
+import { claimRetries } from "./log.ts";
+import {
+  claimDueDeferred,
+  completeDeferred,
+  deferPush,
+  getPushDecision,
+  recordPushSend,
+} from "./preferences.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -28,39 +76,18 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
-interface NotificationPayload {
-  record: {
-    id: string;
-    user_id: string;
-    type: string;
-    title: string;
-    body?: string;
-    data?: Record<string, unknown>;
-  };
-}
+// Deferred pushes sent per flush_deferred call
+const FLUSH_BATCH_SIZE = 100;
+
+// Failed attempts resent per retry_failed call
+const RETRY_BATCH_SIZE = 100;
+
+// Endpoints sent their confirmation code per send_confirmations call
+const CONFIRMATION_BATCH_SIZE = 100;
 
-interface FCMMessage {
-  to: string;
-  notification: {
-    title: string;
-    body?: string;
-  };
-  data?: Record<string, string>;
-  android?: {
-    priority: string;
-    notification: {
-      channel_id: string;
-      click_action: string;
-    };
-  };
-  apns?: {
-    payload: {
-      aps: {
-        badge: number;
-        sound: string;
-      };
-    };
-  };
+interface NotificationPayload {
+  record?: NotificationRecord;
+  action?: "flush_deferred" | "retry_failed" | "send_confirmations";
 }
 
 serve(async (req) => {
@@ -70,155 +97,180 @@ serve(async (req) => {
   }
 
   try {
-    const { record } = (await req.json()) as NotificationPayload;
+    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
 
-    if (!record || !record.user_id || !record.title) {
-      throw new Error("Invalid notification payload");
+    // Only callable with the service role key (database webhook / cron)
+    const authHeader = req.headers.get("authorization") ?? "";
+    if (!supabaseKey || authHeader !== `Bearer ${supabaseKey}`) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
     }
 
-    console.log(
-      `Sending push for notification: ${record.id} to user: ${record.user_id}`
-    );
+    const { record: payload, action } = (await req.json()) as NotificationPayload;
 
     // Initialize Supabase client with service role key (to access device_tokens)
-    const supabaseUrl = Deno.env.get("SUPABASE_URL") ?? "";
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    // Get FCM server key
-    const fcmServerKey = Deno.env.get("FCM_SERVER_KEY");
-    if (!fcmServerKey) {
-      console.warn("FCM_SERVER_KEY not set - skipping push notification");
-      return new Response(
-        JSON.stringify({ success: false, reason: "FCM not configured" }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    // Get FCM service account
+    const serviceAccount = loadServiceAccount();
+
+    if (action === "flush_deferred" && !serviceAccount) {
+      console.warn("FCM_SERVICE_ACCOUNT not set - skipping push notification");
+      return jsonResponse({ success: false, reason: "FCM not configured" });
     }
 
-    // Get user's device tokens using the RPC function
-    const { data: tokens, error: tokenError } = await supabase.rpc(
-      "get_user_push_tokens",
-      { p_user_id: record.user_id }
-    );
+    if (action === "flush_deferred" && serviceAccount) {
+      const due = await claimDueDeferred(supabase, FLUSH_BATCH_SIZE);
+      console.log(`Flushing ${due.length} deferred push(es)`);
 
-    if (tokenError) {
-      throw new Error(`Failed to get tokens: ${tokenError.message}`);
-    }
+      // One push per user and type; the digest window has already passed.
+      // A failed group stays leased in the queue and is tried again later.
+      const results: Record<string, unknown>[] = [];
+      for (const group of groupForDigest(due)) {
+        const notificationIds = group.map((notification) => notification.id);
+        try {
+          const push = await pushNotification(supabase, serviceAccount, group, false);
+          // Deferred again (quiet hours, hourly limit): the rows were rescheduled
+          if (push.deferred_until === undefined) {
+            await completeDeferred(supabase, notificationIds);
+          }
+          results.push({ notification_ids: notificationIds, ...push });
+        } catch (error) {
+          console.error(`Deferred push ${notificationIds.join(",")} failed:`, error);
+          results.push({ notification_ids: notificationIds, error: (error as Error).message });
+        }
+      }
 
-    if (!tokens || tokens.length === 0) {
-      console.log("No device tokens found for user");
-      return new Response(
-        JSON.stringify({ success: true, sent: 0, reason: "No tokens" }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonResponse({ success: true, flushed: due.length, results });
     }
 
-    console.log(`Found ${tokens.length} device token(s)`);
+    if (action === "retry_failed") {
+      const attempts = await claimRetries(supabase, RETRY_BATCH_SIZE);
+      console.log(`Retrying ${attempts.length} failed delivery(ies)`);
 
-    // Prepare notification data (convert to strings for FCM data payload)
-    const dataPayload: Record<string, string> = {
-      notification_id: record.id,
-      type: record.type,
-    };
+      // Pushes claimed without FCM stay leased and come up again later
+      const results: Record<string, unknown>[] = [];
+      for (const attempt of attempts) {
+        let result: object;
+        if (attempt.channel !== "push") {
+          result = await retryEndpointDelivery(supabase, attempt);
+        } else if (serviceAccount) {
+          result = await retryDelivery(supabase, serviceAccount, attempt);
+        } else {
+          result = { channel: "push", success: false, error: "FCM not configured" };
+        }
 
-    // Add custom data fields as strings
-    if (record.data) {
-      for (const [key, value] of Object.entries(record.data)) {
-        dataPayload[key] = String(value);
+        results.push({
+          notification_id: attempt.notification_id,
+          attempt: attempt.attempt_count + 1,
+          ...result,
+        });
       }
+
+      return jsonResponse({ success: true, retried: attempts.length, results });
     }
 
-    // Send to each device
-    const results = await Promise.allSettled(
-      tokens.map(async (tokenRecord: { token: string; platform: string }) => {
-        const message: FCMMessage = {
-          to: tokenRecord.token,
-          notification: {
-            title: record.title,
-            body: record.body,
-          },
-          data: dataPayload,
-          // Android-specific settings
-          android: {
-            priority: "high",
-            notification: {
-              channel_id: "eyesea_notifications",
-              click_action: "FLUTTER_NOTIFICATION_CLICK",
-            },
-          },
-          // iOS-specific settings
-          apns: {
-            payload: {
-              aps: {
-                badge: 1,
-                sound: "default",
-              },
-            },
-          },
-        };
-
-        const response = await fetch("https://fcm.googleapis.com/fcm/send", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `key=${fcmServerKey}`,
-          },
-          body: JSON.stringify(message),
-        });
+    if (action === "send_confirmations") {
+      const results = await sendConfirmations(supabase, CONFIRMATION_BATCH_SIZE);
+      console.log(`Sent ${results.filter((r) => r.success).length}/${results.length} endpoint confirmation(s)`);
 
-        const result = await response.json();
-
-        // Check for invalid token (should be removed from database)
-        if (result.failure === 1 && result.results?.[0]?.error) {
-          const error = result.results[0].error;
-          if (
-            error === "InvalidRegistration" ||
-            error === "NotRegistered"
-          ) {
-            console.log(`Removing invalid token: ${tokenRecord.token.substring(0, 20)}...`);
-            // Remove invalid token from database
-            await supabase
-              .from("device_tokens")
-              .delete()
-              .eq("token", tokenRecord.token);
-          }
-        }
+      return jsonResponse({ success: true, confirmations: results.length, results });
+    }
 
-        return {
-          token: tokenRecord.token.substring(0, 20) + "...",
-          platform: tokenRecord.platform,
-          success: result.success === 1,
-          error: result.results?.[0]?.error,
-        };
-      })
-    );
+    if (!payload?.id) {
+      throw new Error("Invalid notification payload");
+    }
 
-    // Count successes
-    const successCount = results.filter(
-      (r) => r.status === "fulfilled" && (r.value as { success: boolean }).success
-    ).length;
-
-    console.log(`Push sent: ${successCount}/${tokens.length} successful`);
-
-    return new Response(
-      JSON.stringify({
-        success: true,
-        sent: successCount,
-        total: tokens.length,
-        results: results.map((r) =>
-          r.status === "fulfilled" ? r.value : { error: r.reason }
-        ),
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    // Send what is stored, not what the payload claims
+    const record = await loadNotification(supabase, payload.id);
+    if (!record || !record.user_id || !record.title) {
+      return jsonResponse({ error: "Notification not found" }, 404);
+    }
+
+    console.log(
+      `Sending notification: ${record.id} to user: ${record.user_id}`
     );
+
+    let push: Record<string, unknown>;
+    if (serviceAccount) {
+      push = await pushNotification(supabase, serviceAccount, [record], true);
+    } else {
+      console.warn("FCM_SERVICE_ACCOUNT not set - skipping push notification");
+      push = { sent: 0, reason: "FCM not configured" };
+    }
+
+    const channels = await sendToEndpoints(supabase, record);
+
+    return jsonResponse({ success: true, ...push, channels });
   } catch (error) {
     console.error("Error sending push notification:", error);
-    return new Response(
-      JSON.stringify({ error: (error as Error).message }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    return jsonResponse({ error: (error as Error).message }, 500);
   }
 });
+
+/**
+ * Apply the user's preferences and throttling, then push (or defer) a group
+ * of notifications of one type for one user - a digest when there are several
+ */
+async function pushNotification(
+  supabase: SupabaseClient,
+  serviceAccount: ServiceAccount,
+  group: NotificationRecord[],
+  allowDigest: boolean
+): Promise<Record<string, unknown>> {
+  const record = buildDigest(group);
+  const decision = await getPushDecision(supabase, record, allowDigest);
+
+  if (!decision.deliver && decision.reason === "opted_out") {
+    console.log(`User muted ${record.type} pushes`);
+    return { sent: 0, reason: "Opted out" };
+  }
+
+  if (!decision.deliver) {
+    for (const notification of group) {
+      await deferPush(supabase, notification, decision.reason, decision.deliverAfter);
+    }
+    console.log(`Push deferred (${decision.reason}) until ${decision.deliverAfter}`);
+    return { sent: 0, reason: decision.reason, deferred_until: decision.deliverAfter };
+  }
+
+  const notificationIds = group.map((notification) => notification.id);
+  const result = await sendPushToUser(supabase, serviceAccount, record, notificationIds);
+  if (result.total === 0) {
+    return { sent: 0, reason: "No tokens" };
+  }
+
+  // Only pushes that reached a device count towards digests and the hourly limit
+  if (result.sent > 0) {
+    await recordPushSend(supabase, record, notificationIds);
+  }
+
+  return { ...result, digest: group.length > 1 };
+}
+
+/**
+ * The stored notification, or null if there is no row with this id
+ */
+async function loadNotification(
+  supabase: SupabaseClient,
+  id: string
+): Promise<NotificationRecord | null> {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select("id, user_id, type, title, body, data, template_key, template_params")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load notification: ${error.message}`);
+  }
+
+  return data as NotificationRecord | null;
+}
+
+function jsonResponse(body: Record<string, unknown>, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * Delivery log and retry scheduling
+ *
+ * Every send is recorded in push_delivery_attempts, one row per
+ * (notification, token) for pushes and per (notification, endpoint) for
+ * email and webhooks, updated on each attempt. Transient failures are
+ * marked 'retrying' with next_retry_at set by exponential backoff (at least
+ * the Retry-After the server sent); the retry_failed action picks them up.
+ *
+ * - PUSH_MAX_ATTEMPTS   Attempts before giving up, default 5
+ */
+
+import type { SupabaseClient } from "../_shared/http.ts";
+import type { ChannelName } from "./channels.ts";
+import type { NotificationRecord } from "./delivery.ts";
+import type { FcmMessage } from "./fcm.ts";
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_SECONDS = 30;
+const BACKOFF_MAX_SECONDS = 3600;
+
+export type DeliveryStatus = "sent" | "retrying" | "failed" | "unregistered";
+
+// Outcome of one send, from FCM or an email/webhook channel
+export interface AttemptResult {
+  success: boolean;
+  messageId?: string;
+  error?: string;
+  httpStatus?: number;
+  unregistered?: boolean; // Push token is no longer valid
+  retryable: boolean;
+  retryAfterSeconds?: number;
+}
+
+interface AttemptRow {
+  id: string;
+  notification_id: string;
+  notification_ids: string[];
+  user_id: string;
+  attempt_count: number;
+}
+
+// Row of push_delivery_attempts for a push to one device
+export interface PushDeliveryAttempt extends AttemptRow {
+  channel: "push";
+  token: string;
+  platform: string;
+  message: FcmMessage;
+}
+
+// Row of push_delivery_attempts for an email or webhook endpoint
+export interface EndpointDeliveryAttempt extends AttemptRow {
+  channel: ChannelName;
+  endpoint_id: string;
+  message: NotificationRecord;
+}
+
+export type DeliveryAttempt = PushDeliveryAttempt | EndpointDeliveryAttempt;
+
+/**
+ * Status after an attempt, and when to try again if at all
+ */
+export function nextDeliveryState(
+  result: AttemptResult,
+  attempt: number
+): { status: DeliveryStatus; nextRetryAt: string | null } {
+  if (result.success) return { status: "sent", nextRetryAt: null };
+  if (result.unregistered) return { status: "unregistered", nextRetryAt: null };
+
+  if (!result.retryable || attempt >= maxAttempts()) {
+    return { status: "failed", nextRetryAt: null };
+  }
+
+  const backoff = Math.min(
+    BACKOFF_BASE_SECONDS * 2 ** (attempt - 1),
+    BACKOFF_MAX_SECONDS
+  );
+  const delay = Math.max(backoff, result.retryAfterSeconds ?? 0);
+
+  return {
+    status: "retrying",
+    nextRetryAt: new Date(Date.now() + delay * 1000).toISOString(),
+  };
+}
+
+/**
+ * Record an attempt for a notification and token or endpoint
+ */
+export async function recordAttempt(
+  supabase: SupabaseClient,
+  attempt: Omit<PushDeliveryAttempt, "id"> | Omit<EndpointDeliveryAttempt, "id">,
+  result: AttemptResult
+): Promise<DeliveryStatus> {
+  const state = nextDeliveryState(result, attempt.attempt_count);
+
+  const { error } = await supabase
+    .from("push_delivery_attempts")
+    .upsert({
+      ...attempt,
+      status: state.status,
+      error_code: result.error ?? null,
+      http_status: result.httpStatus ?? null,
+      fcm_message_id: result.messageId ?? null,
+      next_retry_at: state.nextRetryAt,
+      last_attempt_at: new Date().toISOString(),
+    }, {
+      onConflict: attempt.channel === "push"
+        ? "notification_id,token"
+        : "notification_id,endpoint_id",
+    });
+
+  // Not fatal: the send itself already happened (or failed)
+  if (error) {
+    console.error("Failed to record delivery attempt:", error.message);
+  }
+
+  return state.status;
+}
+
+/**
+ * Take attempts that are due for a retry (claim_push_retries leases them so
+ * overlapping workers do not resend)
+ */
+export async function claimRetries(
+  supabase: SupabaseClient,
+  limit: number
+): Promise<DeliveryAttempt[]> {
+  const { data, error } = await supabase.rpc("claim_push_retries", {
+    p_limit: limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim delivery retries: ${error.message}`);
+  }
+
+  return (data ?? []) as DeliveryAttempt[];
+}
+
+function maxAttempts(): number {
+  const value = parseInt(Deno.env.get("PUSH_MAX_ATTEMPTS") ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_MAX_ATTEMPTS;
+}
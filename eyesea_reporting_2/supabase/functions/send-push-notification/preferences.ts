@@ -0,0 +1,152 @@
+/**
+ * User notification preferences for push
+ *
+ * - notification_preferences: per-type, per-channel opt-out
+ * - notification_settings: quiet hours in the user's timezone
+ *
+ * Pushes are also throttled so bursts do not spam the user:
+ * - digest: a notification of a type already pushed within the digest window
+ *   waits for the window to end and is sent as one digest push with the rest
+ * - rate_limited: at most PUSH_HOURLY_LIMIT pushes per user per hour
+ *
+ * Held-back pushes are parked in deferred_push_notifications and sent by the
+ * flush_deferred action. Claiming leases the rows; they are only removed
+ * once handled, so a push that fails to flush is tried again.
+ *
+ * - PUSH_DIGEST_WINDOW_SECONDS   Default 600
+ * - PUSH_HOURLY_LIMIT            Default 6
+ */
+
+import type { SupabaseClient } from "../_shared/http.ts";
+import type { NotificationRecord } from "./delivery.ts";
+
+const DEFAULT_DIGEST_WINDOW_SECONDS = 600;
+const DEFAULT_HOURLY_LIMIT = 6;
+
+export type DeferReason = "quiet_hours" | "digest" | "rate_limited";
+
+export type PushDecision =
+  | { deliver: true }
+  | { deliver: false; reason: "opted_out" }
+  | { deliver: false; reason: DeferReason; deliverAfter: string };
+
+/**
+ * Decide whether a notification may be pushed now (get_push_decision).
+ * allowDigest is false when sending a digest, which must not wait again.
+ */
+export async function getPushDecision(
+  supabase: SupabaseClient,
+  record: NotificationRecord,
+  allowDigest = true
+): Promise<PushDecision> {
+  const { data, error } = await supabase.rpc("get_push_decision", {
+    p_user_id: record.user_id,
+    p_type: record.type,
+    p_digest_window_seconds: allowDigest
+      ? envInt("PUSH_DIGEST_WINDOW_SECONDS", DEFAULT_DIGEST_WINDOW_SECONDS)
+      : 0,
+    p_hourly_limit: envInt("PUSH_HOURLY_LIMIT", DEFAULT_HOURLY_LIMIT),
+  });
+
+  if (error) {
+    throw new Error(`Failed to check preferences: ${error.message}`);
+  }
+
+  const decision = data?.[0];
+  if (!decision || decision.deliver) {
+    return { deliver: true };
+  }
+  if (decision.reason === "opted_out") {
+    return { deliver: false, reason: "opted_out" };
+  }
+  return {
+    deliver: false,
+    reason: decision.reason as DeferReason,
+    deliverAfter: decision.deliver_after,
+  };
+}
+
+/**
+ * Park a notification until it may be pushed
+ */
+export async function deferPush(
+  supabase: SupabaseClient,
+  record: NotificationRecord,
+  reason: DeferReason,
+  deliverAfter: string
+): Promise<void> {
+  const { error } = await supabase
+    .from("deferred_push_notifications")
+    .upsert({
+      notification_id: record.id,
+      user_id: record.user_id,
+      type: record.type,
+      reason,
+      deliver_after: deliverAfter,
+    }, { onConflict: "notification_id" });
+
+  if (error) {
+    throw new Error(`Failed to defer push: ${error.message}`);
+  }
+}
+
+/**
+ * Take deferred notifications that are due. They stay queued, hidden for a
+ * while, until completeDeferred removes them.
+ */
+export async function claimDueDeferred(
+  supabase: SupabaseClient,
+  limit: number
+): Promise<NotificationRecord[]> {
+  const { data, error } = await supabase.rpc("claim_deferred_push_notifications", {
+    p_limit: limit,
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim deferred pushes: ${error.message}`);
+  }
+
+  return (data ?? []) as NotificationRecord[];
+}
+
+/**
+ * Remove handled notifications from the deferred queue
+ */
+export async function completeDeferred(
+  supabase: SupabaseClient,
+  notificationIds: string[]
+): Promise<void> {
+  const { error } = await supabase
+    .from("deferred_push_notifications")
+    .delete()
+    .in("notification_id", notificationIds);
+
+  if (error) {
+    throw new Error(`Failed to complete deferred pushes: ${error.message}`);
+  }
+}
+
+/**
+ * Record a push that reached FCM, for the digest window and hourly limit
+ */
+export async function recordPushSend(
+  supabase: SupabaseClient,
+  record: NotificationRecord,
+  notificationIds: string[]
+): Promise<void> {
+  const { error } = await supabase.from("push_sends").insert({
+    user_id: record.user_id,
+    type: record.type,
+    notification_ids: notificationIds,
+  });
+
+  // Not fatal: the push already went out
+  if (error) {
+    console.error("Failed to record push send:", error.message);
+  }
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = parseInt(Deno.env.get(name) ?? "", 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
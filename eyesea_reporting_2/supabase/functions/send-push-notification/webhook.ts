@@ -0,0 +1,113 @@
+/**
+ * Webhook channel
+ *
+ * POSTs the notification as JSON to the endpoint URL, signed with the
+ * endpoint's secret (see _shared/signature.ts). Any 2xx answer counts as
+ * delivered; 408, 429 and 5xx answers and network errors are retried.
+ *
+ *   X-EyeSea-Event: notification.<type>
+ *   X-EyeSea-Delivery: <notification id>
+ *   X-EyeSea-Signature: t=<unix time>,v1=<hex HMAC-SHA256>
+ *
+ * A new endpoint first gets an "endpoint.confirmation" event (delivery id =
+ * endpoint id) with the confirmation code, which the owner enters in the app.
+ * Only https URLs whose host resolves to public addresses are called, checked
+ * before every request (see _shared/outbound.ts), and redirects are not
+ * followed.
+ */
+
+import type { SupabaseClient } from "../_shared/http.ts";
+import { assertPublicUrl } from "../_shared/outbound.ts";
+import { SIGNATURE_HEADER, signWebhookPayload } from "../_shared/signature.ts";
+import type { Endpoint, NotificationChannel, PendingEndpoint } from "./channels.ts";
+import type { NotificationRecord } from "./delivery.ts";
+import { parseRetryAfter } from "./fcm.ts";
+import type { AttemptResult } from "./log.ts";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+export const webhookChannel: NotificationChannel = {
+  name: "webhook",
+
+  // Each endpoint carries its own URL and secret
+  isConfigured() {
+    return true;
+  },
+
+  async send(
+    _supabase: SupabaseClient,
+    record: NotificationRecord,
+    endpoint: Endpoint
+  ): Promise<AttemptResult> {
+    return await postEvent(endpoint, `notification.${record.type}`, record.id, {
+      id: record.id,
+      type: record.type,
+      title: record.title,
+      body: record.body ?? null,
+      data: record.data ?? {},
+      template_key: record.template_key ?? null,
+      template_params: record.template_params ?? {},
+    });
+  },
+
+  async sendConfirmation(
+    _supabase: SupabaseClient,
+    endpoint: PendingEndpoint
+  ): Promise<AttemptResult> {
+    return await postEvent(endpoint, "endpoint.confirmation", endpoint.id, {
+      type: "endpoint.confirmation",
+      endpoint_id: endpoint.id,
+      confirmation_code: endpoint.confirmation_code,
+    });
+  },
+};
+
+/**
+ * POST a signed JSON event to the endpoint
+ */
+async function postEvent(
+  endpoint: Endpoint,
+  event: string,
+  deliveryId: string,
+  payload: Record<string, unknown>
+): Promise<AttemptResult> {
+  try {
+    await assertPublicUrl(endpoint.target);
+  } catch (error) {
+    return { success: false, error: (error as Error).message, retryable: false };
+  }
+
+  const body = JSON.stringify(payload);
+
+  const response = await fetch(endpoint.target, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "EyeSea-Webhooks/1.0",
+      "X-EyeSea-Event": event,
+      "X-EyeSea-Delivery": deliveryId,
+      [SIGNATURE_HEADER]: await signWebhookPayload(endpoint.secret, body),
+    },
+    body,
+    redirect: "manual",
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  });
+
+  // Drain the body so the connection can be reused
+  await response.body?.cancel();
+
+  if (response.ok) {
+    return { success: true, httpStatus: response.status, retryable: false };
+  }
+
+  return {
+    success: false,
+    error: `HTTP_${response.status}`,
+    httpStatus: response.status,
+    retryable:
+      response.status === 408 ||
+      response.status === 429 ||
+      response.status >= 500,
+    retryAfterSeconds: parseRetryAfter(response.headers.get("retry-after")),
+  };
+}
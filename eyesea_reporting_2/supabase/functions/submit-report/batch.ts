@@ -0,0 +1,179 @@
+/**
+ * External Reporting API - Batch Submission
+ *
+ * POST /functions/v1/submit-report/batch
+ *
+ * Request Body:
+ * {
+ *   "reports": [ReportRequest, ...]  // 1-25 reports, same shape as a single submission
+ * }
+ *
+ * Every image is decoded, re-encoded, thumbnailed and hashed within the one
+ * invocation, so a batch may carry at most MAX_IMAGES_PER_BATCH (10) images
+ * across all of its reports; send more as several batches.
+ *
+ * Each report is validated and created independently, so one invalid report
+ * does not fail the others. The whole batch counts as one request against the
+ * daily rate limit, when its first new report is created; a batch of replays
+ * is free. Over the limit, new reports fail with 429 RATE_LIMITED while
+ * replays still succeed. Each report's source_reference acts as its
+ * idempotency key; the Idempotency-Key header is not used for batches.
+ *
+ * The whole body is limited to MAX_JSON_BODY_BYTES (36MB, one report with
+ * five full-size base64 images), so batches with many images should
+ * reference direct uploads (upload_path) instead.
+ *
+ * Response (200 OK):
+ * {
+ *   "success": true,
+ *   "data": {
+ *     "created": 2,
+ *     "failed": 1,
+ *     "results": [
+ *       { "index": 0, "success": true, "status": 201, "report_id": "...",
+ *         "image_count": 1, "image_urls": [...], "warnings": [...] },
+ *       { "index": 1, "success": false, "status": 400,
+ *         "error": { "code": "VALIDATION_ERROR", "message": "...", "field": "severity" } },
+ *       ...
+ *     ]
+ *   }
+ * }
+ */
+
+import {
+  type ApiKeyContext,
+  countApiRequest,
+  errorBody,
+  errorResponse,
+  jsonResponse,
+  type SupabaseClient,
+} from "./http.ts";
+import { resolveIdempotencyKey } from "./idempotency.ts";
+import { type SubmissionResult, submitReport } from "./submission.ts";
+import type { ReportRequest } from "./validation.ts";
+
+export const MAX_REPORTS_PER_BATCH = 25;
+export const MAX_IMAGES_PER_BATCH = 10;
+
+export interface BatchRequest {
+  reports: ReportRequest[];
+}
+
+/**
+ * Handle a batch submission. The body has already been parsed as JSON.
+ */
+export async function handleBatchSubmission(
+  supabase: SupabaseClient,
+  auth: ApiKeyContext,
+  body: BatchRequest
+): Promise<Response> {
+  if (!body || !Array.isArray(body.reports) || body.reports.length === 0) {
+    return errorResponse(
+      400,
+      "VALIDATION_ERROR",
+      "reports must be a non-empty array",
+      "reports"
+    );
+  }
+  if (body.reports.length > MAX_REPORTS_PER_BATCH) {
+    return errorResponse(
+      400,
+      "VALIDATION_ERROR",
+      `maximum ${MAX_REPORTS_PER_BATCH} reports allowed per batch`,
+      "reports"
+    );
+  }
+
+  const imageCount = body.reports.reduce(
+    (total, item) => total + (Array.isArray(item?.images) ? item.images.length : 0),
+    0
+  );
+  if (imageCount > MAX_IMAGES_PER_BATCH) {
+    return errorResponse(
+      400,
+      "VALIDATION_ERROR",
+      `maximum ${MAX_IMAGES_PER_BATCH} images allowed per batch (got ${imageCount}); split it into smaller batches`,
+      "reports"
+    );
+  }
+
+  console.log(`Batch of ${body.reports.length} reports from: ${auth.sourceName}`);
+
+  const results: Record<string, unknown>[] = [];
+
+  // Counted at most once per batch
+  let counted: Promise<boolean> | null = null;
+  const countRequest = () => (counted ??= countApiRequest(supabase, auth));
+
+  // Sequential on purpose: each report may carry up to 5 decoded images
+  for (let i = 0; i < body.reports.length; i++) {
+    const item = body.reports[i];
+    let result: SubmissionResult;
+
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      results.push(
+        toBatchItem(i, {
+          status: 400,
+          body: errorBody("VALIDATION_ERROR", "report must be an object", `reports[${i}]`),
+        })
+      );
+      continue;
+    }
+
+    try {
+      const idempotencyKey = resolveIdempotencyKey(null, item);
+      result = await submitReport(
+        supabase,
+        auth,
+        item,
+        typeof idempotencyKey === "string" ? null : idempotencyKey,
+        countRequest
+      );
+    } catch (error) {
+      console.error(`Batch item ${i} error:`, error);
+      result = {
+        status: 500,
+        body: errorBody("INTERNAL_ERROR", "An unexpected error occurred"),
+      };
+    }
+
+    results.push(toBatchItem(i, result));
+  }
+
+  const created = results.filter((r) => r.success).length;
+
+  return jsonResponse({
+    success: true,
+    data: {
+      created,
+      failed: results.length - created,
+      results,
+    },
+  });
+}
+
+/**
+ * Flatten a single submission result into a per-item batch entry
+ */
+function toBatchItem(
+  index: number,
+  result: SubmissionResult
+): Record<string, unknown> {
+  if (result.body.success) {
+    return {
+      index,
+      success: true,
+      status: result.status,
+      ...(result.body.data as Record<string, unknown>),
+      ...(result.body.warnings ? { warnings: result.body.warnings } : {}),
+      ...(result.replayed ? { replayed: true } : {}),
+    };
+  }
+
+  return {
+    index,
+    success: false,
+    status: result.status,
+    error: result.body.error,
+  };
+}
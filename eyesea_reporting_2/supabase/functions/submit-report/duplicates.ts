@@ -0,0 +1,81 @@
+/**
+ * Near-duplicate image lookup for API submissions
+ *
+ * Each stored JPEG/PNG image has a perceptual hash (report_images.phash).
+ * WebP images can't be decoded here, so they have none and are not
+ * checked. Before a report is committed its hashes are compared with every
+ * stored hash; a match within the API key's Hamming-distance threshold is
+ * either reported as a DUPLICATE_IMAGE warning or rejects the submission,
+ * depending on api_keys.duplicate_image_policy.
+ */
+
+import type { ApiKeyContext, SupabaseClient } from "./http.ts";
+import type { StagedImage } from "./images.ts";
+
+export type DuplicateImagePolicy = "off" | "warn" | "reject";
+
+export interface DuplicateMatch {
+  imageId: string;
+  reportId: string;
+  distance: number;
+}
+
+export interface DuplicateCheck {
+  policy: DuplicateImagePolicy;
+  matches: Map<number, DuplicateMatch>; // Keyed by StagedImage.index
+}
+
+// Used when the key's settings cannot be loaded
+const DEFAULT_POLICY: DuplicateImagePolicy = "warn";
+const DEFAULT_MAX_DISTANCE = 6;
+
+/**
+ * Find stored images that are near-duplicates of the staged ones.
+ * Lookup failures are logged and treated as "no duplicates" so they never
+ * block a submission.
+ */
+export async function findDuplicateImages(
+  supabase: SupabaseClient,
+  auth: ApiKeyContext,
+  images: StagedImage[]
+): Promise<DuplicateCheck> {
+  const matches = new Map<number, DuplicateMatch>();
+
+  const { data: settings, error: settingsError } = await supabase
+    .from("api_keys")
+    .select("duplicate_image_policy, duplicate_image_max_distance")
+    .eq("id", auth.keyId)
+    .single();
+
+  if (settingsError) {
+    console.error("Duplicate policy lookup error:", settingsError);
+  }
+
+  const policy: DuplicateImagePolicy = settings?.duplicate_image_policy ?? DEFAULT_POLICY;
+  const maxDistance: number = settings?.duplicate_image_max_distance ?? DEFAULT_MAX_DISTANCE;
+
+  const hashes = images.map((image) => image.phash);
+  if (policy === "off" || hashes.every((hash) => hash === null)) {
+    return { policy, matches };
+  }
+
+  const { data, error } = await supabase.rpc("find_similar_report_images", {
+    p_hashes: hashes,
+    p_max_distance: maxDistance,
+  });
+
+  if (error) {
+    console.error("Duplicate image lookup error:", error);
+    return { policy, matches };
+  }
+
+  for (const row of data ?? []) {
+    matches.set(images[row.hash_index].index, {
+      imageId: row.image_id,
+      reportId: row.report_id,
+      distance: row.distance,
+    });
+  }
+
+  return { policy, matches };
+}
@@ -0,0 +1,360 @@
+/**
+ * Minimal EXIF reader for uploaded images
+ *
+ * Locates the TIFF block in JPEG (APP1), PNG (eXIf) and WebP (EXIF chunk)
+ * files and reads the few tags we need. Metadata is stripped before
+ * storage, so this runs on the original upload.
+ *
+ * The GPS position and capture time are compared with the submitted report
+ * (assessExifMismatch) to flag recycled or off-site photos for moderators.
+ */
+
+export interface ExifData {
+  orientation: number | null; // 1-8, see TIFF Orientation tag
+  latitude: number | null;
+  longitude: number | null;
+  capturedAt: Date | null; // DateTimeOriginal, UTC when no offset is recorded
+}
+
+export interface ExifMismatch {
+  score: number; // 0-1, same scale as reports.fraud_score
+  warnings: string[];
+  images: ImageExifCheck[]; // Same order as the input
+}
+
+export interface ImageExifCheck {
+  distanceKm: number | null; // From the submitted location
+  capturedAt: Date | null;
+}
+
+// IFD0
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+
+// Exif IFD
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+
+// GPS IFD
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+// TIFF field types
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+const TYPE_RATIONAL = 5;
+
+const TYPE_SIZES: Record<number, number> = {
+  [TYPE_SHORT]: 2,
+  [TYPE_LONG]: 4,
+  [TYPE_RATIONAL]: 8,
+};
+
+// Mismatch thresholds, largest first: [limit, score]
+const DISTANCE_STEPS_KM: [number, number][] = [
+  [100, 0.6],
+  [10, 0.4],
+  [1, 0.2],
+];
+const AGE_STEPS_DAYS: [number, number][] = [
+  [30, 0.4],
+  [7, 0.2],
+];
+
+// Capture times more than a day after submission cannot be genuine
+const MAX_FUTURE_CAPTURE_MS = 24 * 60 * 60 * 1000;
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  valueOffset: number; // Offset of the value (inline or pointed to)
+}
+
+/**
+ * Read EXIF metadata from an image, or null if it has none
+ */
+export function readExif(bytes: Uint8Array, mimeType: string): ExifData | null {
+  const tiff = findTiffBlock(bytes, mimeType);
+  if (!tiff) return null;
+
+  try {
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+    const littleEndian = view.getUint16(0) === 0x4949; // "II"
+    if (view.getUint16(2, littleEndian) !== 42) return null;
+
+    const ifd0 = readIfd(view, view.getUint32(4, littleEndian), littleEndian);
+
+    const exifOffset = readInteger(view, ifd0.get(TAG_EXIF_IFD), littleEndian);
+    const exifIfd = exifOffset !== null ? readIfd(view, exifOffset, littleEndian) : null;
+
+    const gpsOffset = readInteger(view, ifd0.get(TAG_GPS_IFD), littleEndian);
+    const gpsIfd = gpsOffset !== null ? readIfd(view, gpsOffset, littleEndian) : null;
+
+    return {
+      orientation: readInteger(view, ifd0.get(TAG_ORIENTATION), littleEndian),
+      latitude: gpsIfd
+        ? readCoordinate(view, gpsIfd, TAG_GPS_LATITUDE, TAG_GPS_LATITUDE_REF, "S", littleEndian)
+        : null,
+      longitude: gpsIfd
+        ? readCoordinate(view, gpsIfd, TAG_GPS_LONGITUDE, TAG_GPS_LONGITUDE_REF, "W", littleEndian)
+        : null,
+      capturedAt: exifIfd
+        ? parseExifDate(
+            readAscii(view, exifIfd.get(TAG_DATETIME_ORIGINAL)),
+            readAscii(view, exifIfd.get(TAG_OFFSET_TIME_ORIGINAL))
+          )
+        : null,
+    };
+  } catch {
+    // Truncated or malformed EXIF - treat as absent
+    return null;
+  }
+}
+
+/**
+ * Compare the EXIF GPS position and capture time of each image with the
+ * submitted location and submission time.
+ *
+ * Images without EXIF are not penalised (many apps strip it); the worst
+ * distance and the worst age each contribute once.
+ */
+export function assessExifMismatch(
+  images: (ExifData | null)[],
+  latitude: number,
+  longitude: number,
+  submittedAt: Date
+): ExifMismatch {
+  const warnings: string[] = [];
+  const checks: ImageExifCheck[] = [];
+  let distanceScore = 0;
+  let timeScore = 0;
+
+  images.forEach((exif, i) => {
+    const check: ImageExifCheck = { distanceKm: null, capturedAt: exif?.capturedAt ?? null };
+    checks.push(check);
+    if (!exif) return;
+    const label = `Image ${i + 1}`;
+
+    if (exif.latitude !== null && exif.longitude !== null) {
+      const distanceKm = haversineKm(latitude, longitude, exif.latitude, exif.longitude);
+      check.distanceKm = Math.round(distanceKm * 1000) / 1000;
+      const step = DISTANCE_STEPS_KM.find(([limit]) => distanceKm > limit);
+      if (step) {
+        warnings.push(
+          `${label} GPS position is ${distanceKm.toFixed(1)} km from the reported location`
+        );
+        distanceScore = Math.max(distanceScore, step[1]);
+      }
+    }
+
+    if (exif.capturedAt) {
+      const ageMs = submittedAt.getTime() - exif.capturedAt.getTime();
+      const ageDays = ageMs / (24 * 60 * 60 * 1000);
+
+      if (ageMs < -MAX_FUTURE_CAPTURE_MS) {
+        warnings.push(`${label} capture time is after the submission time`);
+        timeScore = Math.max(timeScore, 0.4);
+      } else {
+        const step = AGE_STEPS_DAYS.find(([limit]) => ageDays > limit);
+        if (step) {
+          warnings.push(`${label} was taken ${Math.floor(ageDays)} days before submission`);
+          timeScore = Math.max(timeScore, step[1]);
+        }
+      }
+    }
+  });
+
+  return {
+    score: Math.min(Math.round((distanceScore + timeScore) * 100) / 100, 1),
+    warnings,
+    images: checks,
+  };
+}
+
+/**
+ * Great-circle distance in kilometres
+ */
+function haversineKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Parse "YYYY:MM:DD HH:MM:SS" with an optional "+HH:MM" offset
+ */
+function parseExifDate(value: string | null, offset: string | null): Date | null {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second] = match;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : "Z";
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Read an IFD into a tag -> entry map
+ */
+function readIfd(
+  view: DataView,
+  offset: number,
+  littleEndian: boolean
+): Map<number, IfdEntry> {
+  const entries = new Map<number, IfdEntry>();
+  const count = view.getUint16(offset, littleEndian);
+
+  for (let i = 0; i < count; i++) {
+    const entry = offset + 2 + i * 12;
+    const type = view.getUint16(entry + 2, littleEndian);
+    const valueCount = view.getUint32(entry + 4, littleEndian);
+    const size = valueCount * (TYPE_SIZES[type] ?? 1);
+
+    entries.set(view.getUint16(entry, littleEndian), {
+      type,
+      count: valueCount,
+      // Values of up to 4 bytes are stored inline
+      valueOffset: size <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian),
+    });
+  }
+
+  return entries;
+}
+
+function readInteger(
+  view: DataView,
+  entry: IfdEntry | undefined,
+  littleEndian: boolean
+): number | null {
+  if (entry?.type === TYPE_SHORT) return view.getUint16(entry.valueOffset, littleEndian);
+  if (entry?.type === TYPE_LONG) return view.getUint32(entry.valueOffset, littleEndian);
+  return null;
+}
+
+function readAscii(view: DataView, entry: IfdEntry | undefined): string | null {
+  if (entry?.type !== TYPE_ASCII) return null;
+
+  let value = "";
+  for (let i = 0; i < entry.count; i++) {
+    const code = view.getUint8(entry.valueOffset + i);
+    if (code === 0) break;
+    value += String.fromCharCode(code);
+  }
+  return value;
+}
+
+/**
+ * Degrees/minutes/seconds rationals to signed decimal degrees
+ */
+function readCoordinate(
+  view: DataView,
+  ifd: Map<number, IfdEntry>,
+  valueTag: number,
+  refTag: number,
+  negativeRef: string,
+  littleEndian: boolean
+): number | null {
+  const entry = ifd.get(valueTag);
+  if (entry?.type !== TYPE_RATIONAL || entry.count < 3) return null;
+
+  const [degrees, minutes, seconds] = [0, 1, 2].map((i) => {
+    const numerator = view.getUint32(entry.valueOffset + i * 8, littleEndian);
+    const denominator = view.getUint32(entry.valueOffset + i * 8 + 4, littleEndian);
+    return denominator === 0 ? 0 : numerator / denominator;
+  });
+
+  const value = degrees + minutes / 60 + seconds / 3600;
+  // 0,0 is what many cameras write when they have no fix
+  if (value === 0) return null;
+
+  return readAscii(view, ifd.get(refTag)) === negativeRef ? -value : value;
+}
+
+/**
+ * Find the TIFF header inside the container format
+ */
+function findTiffBlock(bytes: Uint8Array, mimeType: string): Uint8Array | null {
+  switch (mimeType) {
+    case "image/jpeg":
+      return findJpegExif(bytes);
+    case "image/png":
+      return findChunk(bytes, 8, "eXIf", false);
+    case "image/webp": {
+      const chunk = findChunk(bytes, 12, "EXIF", true);
+      // Some encoders keep the JPEG-style "Exif\0\0" prefix
+      return chunk && hasExifPrefix(chunk, 0) ? chunk.subarray(6) : chunk;
+    }
+    default:
+      return null;
+  }
+}
+
+function findJpegExif(bytes: Uint8Array): Uint8Array | null {
+  let offset = 2; // Skip SOI
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+
+    // Start of scan: no more metadata segments
+    if (marker === 0xda) break;
+
+    if (marker === 0xe1 && hasExifPrefix(bytes, offset + 4)) {
+      return bytes.subarray(offset + 10, offset + 2 + length);
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+function hasExifPrefix(bytes: Uint8Array, offset: number): boolean {
+  // "Exif\0\0"
+  return (
+    bytes[offset] === 0x45 &&
+    bytes[offset + 1] === 0x78 &&
+    bytes[offset + 2] === 0x69 &&
+    bytes[offset + 3] === 0x66 &&
+    bytes[offset + 4] === 0 &&
+    bytes[offset + 5] === 0
+  );
+}
+
+/**
+ * Find a chunk by its four-character type.
+ * PNG chunks are big-endian length + type; RIFF chunks are type +
+ * little-endian length, padded to an even size.
+ */
+function findChunk(
+  bytes: Uint8Array,
+  start: number,
+  type: string,
+  riff: boolean
+): Uint8Array | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = start;
+
+  while (offset + 8 <= bytes.length) {
+    const length = riff
+      ? view.getUint32(offset + 4, true)
+      : view.getUint32(offset);
+    const typeOffset = riff ? offset : offset + 4;
+    const chunkType = String.fromCharCode(...bytes.subarray(typeOffset, typeOffset + 4));
+    const dataStart = offset + 8;
+
+    if (chunkType === type) {
+      return bytes.subarray(dataStart, dataStart + length);
+    }
+
+    // RIFF chunks are padded to even length; PNG chunks end with a 4-byte CRC
+    offset = riff ? dataStart + length + (length & 1) : dataStart + length + 4;
+  }
+  return null;
+}
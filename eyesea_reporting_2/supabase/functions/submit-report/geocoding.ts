@@ -0,0 +1,96 @@
+/**
+ * Location enrichment for API submissions
+ *
+ * Partners often leave out city and country. Once a report is created its
+ * coordinates are reverse geocoded through location_cache and the provider
+ * chain (../_shared/geocoding/) to fill them in, and a country the partner
+ * did send is checked against the coordinates. The offline provider's city
+ * is only the nearest place in its dataset, so it is not filled in.
+ *
+ * Runs after the 201 has been returned, so a slow provider never delays the
+ * partner. A failed lookup leaves the report as submitted.
+ */
+
+import { runInBackground } from "../_shared/background.ts";
+import { countryCodeFor } from "../_shared/geocoding/countries.ts";
+import {
+  DEFAULT_CACHE_PRECISION,
+  type GeocodingResponse,
+  isFailure,
+  reverseGeocodeCached,
+} from "../_shared/geocoding/reverse.ts";
+import type { SupabaseClient } from "./http.ts";
+import type { ReportRequest } from "./validation.ts";
+
+/**
+ * Geocode a newly created report in the background
+ */
+export function geocodeReportInBackground(
+  supabase: SupabaseClient,
+  reportId: string,
+  body: ReportRequest
+): void {
+  runInBackground(geocodeReport(supabase, reportId, body), `Geocoding report ${reportId}`);
+}
+
+async function geocodeReport(
+  supabase: SupabaseClient,
+  reportId: string,
+  body: ReportRequest
+): Promise<void> {
+  const [result] = await reverseGeocodeCached(
+    supabase,
+    [{ lat: body.latitude, lng: body.longitude }],
+    DEFAULT_CACHE_PRECISION // Same as the app, so both share cache entries
+  );
+
+  if (isFailure(result)) {
+    console.warn(`Geocoding report ${reportId} failed: ${result.error}`);
+    return;
+  }
+
+  // Offshore points take the country whose waters they are in
+  const geocodedCountry = result.country ?? result.eezCountry;
+  const geocodedCity = result.provider === "offline" ? null : result.city;
+  const mismatch = countryMismatch(body.country, result);
+
+  const { error } = await supabase.rpc("record_report_geocoding", {
+    p_report_id: reportId,
+    p_city: geocodedCity,
+    p_country: geocodedCountry,
+    p_country_mismatch: mismatch,
+  });
+
+  if (error) {
+    throw error;
+  }
+
+  if (mismatch) {
+    console.log(
+      `Country mismatch for ${reportId}: submitted "${body.country}", coordinates in ${geocodedCountry}`
+    );
+  }
+}
+
+/**
+ * True when the submitted country is recognised and is neither the country
+ * at the coordinates nor the one whose waters they are in
+ */
+function countryMismatch(
+  submitted: string | undefined,
+  result: GeocodingResponse
+): boolean {
+  // The offline boundaries are simplified and can be off by a few km along
+  // a border; don't flag on them
+  if (!submitted || result.provider === "offline") return false;
+
+  const submittedCode = countryCodeFor(submitted);
+  if (!submittedCode) return false;
+
+  const geocodedCodes = [
+    result.countryCode ?? countryCodeFor(result.country),
+    result.eezCountryCode,
+  ].filter((code): code is string => code !== null);
+
+  return geocodedCodes.length > 0 && !geocodedCodes.includes(submittedCode);
+}
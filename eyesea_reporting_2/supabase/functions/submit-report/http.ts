@@ -0,0 +1,171 @@
+/**
+ * HTTP helpers for the External Reporting API
+ *
+ * API key authentication lives here; the response envelope and generic
+ * helpers are shared with the other functions (../_shared/http.ts) and
+ * re-exported for the modules of this function.
+ */
+
+import {
+  errorResponse,
+  type SupabaseClient,
+} from "../_shared/http.ts";
+
+export {
+  corsHeaders,
+  createServiceClient,
+  errorBody,
+  errorResponse,
+  jsonResponse,
+  routeSegments,
+  type SupabaseClient,
+} from "../_shared/http.ts";
+
+export const RATE_LIMITED_MESSAGE = "Daily rate limit exceeded. Try again tomorrow.";
+
+// Result of a successful API key validation
+export interface ApiKeyContext {
+  keyId: string;
+  sourceName: string;
+}
+
+/**
+ * Authenticate the request using the validate_api_key database function,
+ * counting it against the daily rate limit.
+ * Returns the key context, or an error Response to send back as-is.
+ */
+export async function authenticateApiKey(
+  req: Request,
+  supabase: SupabaseClient
+): Promise<ApiKeyContext | Response> {
+  const apiKey = apiKeyFromRequest(req);
+  if (apiKey instanceof Response) return apiKey;
+
+  const { data: keyValidation, error: keyError } = await supabase.rpc(
+    "validate_api_key",
+    { p_key: apiKey }
+  );
+
+  if (keyError) {
+    console.error("API key validation error:", keyError.message);
+    return errorResponse(500, "VALIDATION_ERROR", "Failed to validate API key");
+  }
+
+  const validationResult = keyValidation?.[0];
+  if (!validationResult?.is_valid) {
+    return errorResponse(401, "INVALID_API_KEY", "Invalid or expired API key");
+  }
+  if (validationResult.rate_limited) {
+    return errorResponse(429, "RATE_LIMITED", RATE_LIMITED_MESSAGE);
+  }
+
+  return {
+    keyId: validationResult.key_id,
+    sourceName: validationResult.key_name,
+  };
+}
+
+/**
+ * Authenticate the request without counting it against the rate limit.
+ * Submissions use this so idempotent replays are free; they count the
+ * request with countApiRequest once it will create a report.
+ */
+export async function identifyApiKey(
+  req: Request,
+  supabase: SupabaseClient
+): Promise<ApiKeyContext | Response> {
+  const apiKey = apiKeyFromRequest(req);
+  if (apiKey instanceof Response) return apiKey;
+
+  const { data, error } = await supabase.rpc("identify_api_key", { p_key: apiKey });
+
+  if (error) {
+    console.error("API key validation error:", error.message);
+    return errorResponse(500, "VALIDATION_ERROR", "Failed to validate API key");
+  }
+
+  const key = data?.[0];
+  if (!key?.is_valid) {
+    return errorResponse(401, "INVALID_API_KEY", "Invalid or expired API key");
+  }
+
+  return { keyId: key.key_id, sourceName: key.key_name };
+}
+
+/**
+ * Count a request against the key's daily rate limit.
+ * Returns false when the limit is reached; throws if the database fails.
+ */
+export async function countApiRequest(
+  supabase: SupabaseClient,
+  auth: ApiKeyContext
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc("count_api_request", { p_key_id: auth.keyId });
+  if (error) {
+    throw new Error(`Failed to count API request: ${error.message}`);
+  }
+  return data === true;
+}
+
+/**
+ * API key from the X-API-Key or Authorization: Bearer header, or a 401
+ */
+function apiKeyFromRequest(req: Request): string | Response {
+  // Extract API Key from headers only (not body - security best practice)
+  // Priority: X-API-Key header > Authorization Bearer
+  let apiKey = req.headers.get("x-api-key");
+
+  if (!apiKey) {
+    // Try Authorization: Bearer header
+    const authHeader = req.headers.get("authorization");
+    if (authHeader?.startsWith("Bearer ")) {
+      apiKey = authHeader.substring(7); // Remove "Bearer " prefix
+    }
+  }
+
+  if (!apiKey) {
+    return errorResponse(
+      401,
+      "MISSING_API_KEY",
+      "API key required. Use X-API-Key header or Authorization: Bearer header"
+    );
+  }
+
+  return apiKey;
+}
+
+/**
+ * Read the request body, or null if it is larger than maxBytes.
+ * A too-large Content-Length is refused before anything is read; without
+ * one, reading stops as soon as the limit is passed.
+ */
+export async function readBodyWithLimit(
+  req: Request,
+  maxBytes: number
+): Promise<ArrayBuffer | null> {
+  const declared = Number(req.headers.get("content-length"));
+  if (declared > maxBytes) return null;
+  if (!req.body) return new ArrayBuffer(0);
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  const reader = req.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body.buffer;
+}
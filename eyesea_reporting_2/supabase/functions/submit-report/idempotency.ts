@@ -0,0 +1,238 @@
+/**
+ * Idempotent report submission
+ *
+ * A submission is keyed on the Idempotency-Key header, or on the
+ * (api_source, source_reference) pair when no header is sent. The first
+ * request claims the key in api_idempotency_keys; once the report is created
+ * its 201 response is stored there and replayed for any retry with the same
+ * key. A retry whose body differs from the original is rejected.
+ */
+
+import type { ApiKeyContext, SupabaseClient } from "./http.ts";
+import type { SubmissionResult } from "./submission.ts";
+import type { ReportRequest } from "./validation.ts";
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+// Header-based keys expire; source_reference keys identify the report for good
+const HEADER_KEY_TTL_HOURS = 24;
+
+// A claim without a stored response older than this is treated as abandoned
+const IN_PROGRESS_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Attempts to store a submission's outcome before giving up
+const COMPLETE_ATTEMPTS = 3;
+const COMPLETE_RETRY_DELAY_MS = 250;
+
+export interface IdempotencyKey {
+  key: string;
+  fromHeader: boolean;
+}
+
+export type IdempotencyClaim =
+  | { kind: "claimed"; requestHash: string }
+  | { kind: "replay"; result: SubmissionResult }
+  | { kind: "conflict" }
+  | { kind: "in_progress" };
+
+/**
+ * Resolve the idempotency key for a submission, if any.
+ * Returns an error message if the header is malformed.
+ */
+export function resolveIdempotencyKey(
+  header: string | null,
+  body: ReportRequest
+): IdempotencyKey | string | null {
+  if (header !== null) {
+    const trimmed = header.trim();
+    if (trimmed.length === 0 || trimmed.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      return `Idempotency-Key must be 1-${MAX_IDEMPOTENCY_KEY_LENGTH} characters`;
+    }
+    return { key: `header:${trimmed}`, fromHeader: true };
+  }
+
+  if (typeof body.source_reference === "string" && body.source_reference.length > 0) {
+    return { key: `source_reference:${body.source_reference}`, fromHeader: false };
+  }
+
+  return null;
+}
+
+/**
+ * Claim an idempotency key before creating the report.
+ * Throws if the database cannot be reached.
+ */
+export async function claimIdempotencyKey(
+  supabase: SupabaseClient,
+  auth: ApiKeyContext,
+  idempotencyKey: IdempotencyKey,
+  body: ReportRequest
+): Promise<IdempotencyClaim> {
+  const requestHash = await hashRequestBody(body);
+
+  const expiresAt = idempotencyKey.fromHeader
+    ? new Date(Date.now() + HEADER_KEY_TTL_HOURS * 60 * 60 * 1000).toISOString()
+    : null;
+
+  const { error: insertError } = await supabase
+    .from("api_idempotency_keys")
+    .insert({
+      api_source: auth.sourceName,
+      idempotency_key: idempotencyKey.key,
+      request_hash: requestHash,
+      expires_at: expiresAt,
+    });
+
+  if (!insertError) {
+    return { kind: "claimed", requestHash };
+  }
+
+  // 23505 = unique_violation: the key was used before
+  if (insertError.code !== "23505") {
+    throw new Error(`Failed to claim idempotency key: ${insertError.message}`);
+  }
+
+  const { data: existing, error: selectError } = await supabase
+    .from("api_idempotency_keys")
+    .select("request_hash, response_status, response_body, created_at, expires_at")
+    .eq("api_source", auth.sourceName)
+    .eq("idempotency_key", idempotencyKey.key)
+    .single();
+
+  if (selectError || !existing) {
+    throw new Error(`Failed to read idempotency key: ${selectError?.message}`);
+  }
+
+  // An expired header key is free to be reused for a new submission, and an
+  // abandoned claim (function crashed mid-request) may be retried as-is
+  const isExpired =
+    existing.expires_at !== null && new Date(existing.expires_at) <= new Date();
+  const isAbandoned =
+    existing.response_status === null &&
+    existing.request_hash === requestHash &&
+    Date.now() - new Date(existing.created_at).getTime() > IN_PROGRESS_TIMEOUT_MS;
+
+  if (isExpired || isAbandoned) {
+    // Conditional on the claim we read, so of two concurrent reclaims only
+    // one updates a row; the other sees the request as in progress
+    const { data: reclaimed, error: updateError } = await supabase
+      .from("api_idempotency_keys")
+      .update({
+        request_hash: requestHash,
+        response_status: null,
+        response_body: null,
+        report_id: null,
+        created_at: new Date().toISOString(),
+        expires_at: expiresAt,
+      })
+      .eq("api_source", auth.sourceName)
+      .eq("idempotency_key", idempotencyKey.key)
+      .eq("created_at", existing.created_at)
+      .select("id");
+
+    if (updateError) {
+      throw new Error(`Failed to reclaim idempotency key: ${updateError.message}`);
+    }
+    if (!reclaimed || reclaimed.length === 0) {
+      return { kind: "in_progress" };
+    }
+    return { kind: "claimed", requestHash };
+  }
+
+  if (existing.request_hash !== requestHash) {
+    return { kind: "conflict" };
+  }
+
+  if (existing.response_status === null) {
+    return { kind: "in_progress" };
+  }
+
+  return {
+    kind: "replay",
+    result: {
+      status: existing.response_status,
+      body: existing.response_body,
+    },
+  };
+}
+
+/**
+ * Store the outcome of a claimed submission.
+ * Successful results are kept for replay; failures release the key so the
+ * partner can retry with the same key.
+ *
+ * Retried a few times, then throws: an unrecorded 201 would let a retry
+ * create the report again once the claim looks abandoned.
+ */
+export async function completeIdempotencyKey(
+  supabase: SupabaseClient,
+  auth: ApiKeyContext,
+  idempotencyKey: IdempotencyKey,
+  result: SubmissionResult
+): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    const query = supabase.from("api_idempotency_keys");
+    const { error } = result.status === 201
+      ? await query
+        .update({
+          report_id: (result.body.data as { report_id: string }).report_id,
+          response_status: result.status,
+          response_body: result.body,
+        })
+        .eq("api_source", auth.sourceName)
+        .eq("idempotency_key", idempotencyKey.key)
+      : await query
+        .delete()
+        .eq("api_source", auth.sourceName)
+        .eq("idempotency_key", idempotencyKey.key);
+
+    if (!error) return;
+
+    const action = result.status === 201 ? "store idempotent response" : "release idempotency key";
+    if (attempt >= COMPLETE_ATTEMPTS) {
+      throw new Error(`Failed to ${action} for ${idempotencyKey.key}: ${error.message}`);
+    }
+    console.warn(`Failed to ${action} (attempt ${attempt}), retrying:`, error.message);
+    await new Promise((resolve) => setTimeout(resolve, COMPLETE_RETRY_DELAY_MS * attempt));
+  }
+}
+
+/**
+ * SHA-256 of the request body in canonical form (sorted keys, api_key removed).
+ * Binary multipart parts are represented by the hash of their content.
+ */
+async function hashRequestBody(body: ReportRequest): Promise<string> {
+  const { api_key: _apiKey, ...rest } = body;
+
+  if (Array.isArray(rest.images)) {
+    rest.images = await Promise.all(
+      rest.images.map(async ({ file, ...image }) =>
+        file ? { ...image, file_sha256: await sha256Hex(await file.arrayBuffer()) } : image
+      )
+    );
+  }
+
+  return sha256Hex(new TextEncoder().encode(canonicalJson(rest)));
+}
+
+async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
@@ -0,0 +1,611 @@
+/**
+ * Image decoding, validation and upload for API submissions
+ *
+ * Every image is normalised before it is stored: decoded, rotated upright,
+ * downscaled to MAX_IMAGE_DIMENSION and re-encoded as JPEG, which drops
+ * EXIF/XMP metadata (including GPS). A JPEG thumbnail is stored next to it.
+ * WebP can't be decoded here, so it is stored as uploaded minus its
+ * EXIF/XMP chunks, without a thumbnail or perceptual hash.
+ */
+
+import { Image } from "https://deno.land/x/imagescript@1.2.17/mod.ts";
+import { type ExifData, readExif } from "./exif.ts";
+import type { SupabaseClient } from "./http.ts";
+import { perceptualHash } from "./phash.ts";
+import { MAX_IMAGE_SIZE_BYTES } from "./validation.ts";
+
+export const REPORT_IMAGES_BUCKET = "report-images";
+
+// Staged uploads live here until the report is committed
+export const STAGING_PREFIX = "staging";
+
+// Committed API uploads live here
+export const API_PREFIX = "api";
+
+// Longest edge of stored images and thumbnails, in pixels
+const MAX_IMAGE_DIMENSION = 2048;
+const THUMBNAIL_DIMENSION = 320;
+
+// Largest image we decode. While decoding, the JPEG decoder's RGB buffer
+// and the RGBA bitmap exist together: about 112MB at 16MP.
+const MAX_IMAGE_PIXELS = 16_000_000;
+
+const JPEG_QUALITY = 85;
+const THUMBNAIL_JPEG_QUALITY = 70;
+
+// Formats we accept; anything else detected is rejected with a clear message
+const SUPPORTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp"];
+
+export interface DecodedImage {
+  bytes: Uint8Array;
+  mimeType: string;
+}
+
+export interface NormalizedImage extends DecodedImage {
+  width: number | null;
+  height: number | null;
+  thumbnail: Uint8Array | null; // JPEG
+  exif: ExifData | null; // Read from the original before it was stripped
+  phash: string | null; // 64-bit perceptual hash, hex; null for WebP
+}
+
+export interface StagedImage {
+  index: number;
+  isPrimary: boolean;
+  stagingPath: string;
+  finalPath: string;
+  thumbnailStagingPath: string | null;
+  thumbnailFinalPath: string | null;
+  mimeType: string;
+  width: number | null;
+  height: number | null;
+  exif: ExifData | null;
+  phash: string | null;
+}
+
+/**
+ * Decode and validate a single base64 image
+ */
+export function decodeImage(base64Data: string): DecodedImage {
+  // Remove data URL prefix if present (e.g., "data:image/jpeg;base64,")
+  const base64Clean = base64Data.replace(/^data:image\/\w+;base64,/, "");
+
+  // Decode base64 to bytes
+  let imageBytes: Uint8Array;
+  try {
+    const binaryString = atob(base64Clean);
+    imageBytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      imageBytes[i] = binaryString.charCodeAt(i);
+    }
+  } catch {
+    throw new Error("Invalid base64 encoding");
+  }
+
+  return checkImageBytes(imageBytes);
+}
+
+/**
+ * Read and validate a binary image part from a multipart request
+ */
+export async function readImageFile(file: File): Promise<DecodedImage> {
+  // The body is already in memory (bounded by MAX_MULTIPART_BODY_BYTES);
+  // checking the size first just skips copying an oversized part
+  if (file.size > MAX_IMAGE_SIZE_BYTES) {
+    throw new Error(
+      `Image exceeds maximum size of ${MAX_IMAGE_SIZE_BYTES / 1024 / 1024}MB`
+    );
+  }
+
+  return checkImageBytes(new Uint8Array(await file.arrayBuffer()));
+}
+
+/**
+ * Check size and format of raw image bytes
+ */
+function checkImageBytes(imageBytes: Uint8Array): DecodedImage {
+  // Check file size
+  if (imageBytes.length > MAX_IMAGE_SIZE_BYTES) {
+    throw new Error(
+      `Image exceeds maximum size of ${MAX_IMAGE_SIZE_BYTES / 1024 / 1024}MB`
+    );
+  }
+
+  // Detect image type from magic bytes
+  const mimeType = detectImageType(imageBytes);
+  if (mimeType === "image/heic") {
+    throw new Error("HEIC/HEIF images are not supported. Convert to JPEG before uploading.");
+  }
+  if (!mimeType || !SUPPORTED_IMAGE_TYPES.includes(mimeType)) {
+    throw new Error("Unsupported image format. Use JPEG, PNG, or WebP.");
+  }
+
+  return { bytes: imageBytes, mimeType };
+}
+
+/**
+ * Strip metadata, fix orientation, bound the size and build a thumbnail.
+ *
+ * JPEG and PNG are re-encoded as JPEG. WebP cannot be decoded here, so its
+ * EXIF/XMP chunks are removed and the image is stored as-is without a
+ * thumbnail or perceptual hash.
+ */
+export async function normalizeImage(image: DecodedImage): Promise<NormalizedImage> {
+  const exif = readExif(image.bytes, image.mimeType);
+
+  if (image.mimeType === "image/webp") {
+    const dimensions = webpDimensions(image.bytes);
+    return {
+      bytes: stripWebpMetadata(image.bytes),
+      mimeType: "image/webp",
+      width: dimensions?.width ?? null,
+      height: dimensions?.height ?? null,
+      thumbnail: null,
+      exif,
+      phash: null,
+    };
+  }
+
+  // A small file can still decode to a huge bitmap; check the header first
+  const dimensions = imageDimensions(image.bytes, image.mimeType);
+  if (!dimensions) {
+    throw new Error("Image could not be decoded");
+  }
+  if (dimensions.width * dimensions.height > MAX_IMAGE_PIXELS) {
+    throw new Error(
+      `Image dimensions ${dimensions.width}x${dimensions.height} exceed the maximum of ${MAX_IMAGE_PIXELS / 1_000_000} megapixels`
+    );
+  }
+
+  let full: Image;
+  try {
+    full = await Image.decode(image.bytes);
+  } catch {
+    throw new Error("Image could not be decoded");
+  }
+
+  // Shrink straight away (resize replaces the bitmap in place), so the
+  // steps below only ever copy the stored size, never the full decode
+  full = fitWithin(full, MAX_IMAGE_DIMENSION);
+
+  // Re-encoding drops the Orientation tag, so apply it to the pixels
+  full = applyOrientation(full, exif?.orientation ?? 1);
+
+  // JPEG has no alpha channel: flatten transparent PNGs onto white
+  if (image.mimeType === "image/png") {
+    full = new Image(full.width, full.height)
+      .fill(0xffffffff)
+      .composite(full);
+  }
+
+  const phash = perceptualHash(full);
+  const thumbnail = fitWithin(full.clone(), THUMBNAIL_DIMENSION);
+
+  return {
+    bytes: await full.encodeJPEG(JPEG_QUALITY),
+    mimeType: "image/jpeg",
+    width: full.width,
+    height: full.height,
+    thumbnail: await thumbnail.encodeJPEG(THUMBNAIL_JPEG_QUALITY),
+    exif,
+    phash,
+  };
+}
+
+/**
+ * Turn the decoded pixels upright for an EXIF orientation (1-8).
+ * Pixels are remapped directly: imagescript's 90-degree rotations scramble
+ * non-square images, and it has no flip for the mirrored orientations.
+ */
+function applyOrientation(image: Image, orientation: number): Image {
+  if (orientation < 2 || orientation > 8) return image;
+
+  const { width, height } = image;
+  const transposed = orientation >= 5; // 5-8 swap width and height
+  const upright = new Image(transposed ? height : width, transposed ? width : height);
+  const source = pixelsOf(image);
+  const target = pixelsOf(upright);
+  const lastX = upright.width - 1;
+  const lastY = upright.height - 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      // Where the stored pixel (x, y) belongs in the upright image
+      let uprightX: number;
+      let uprightY: number;
+      switch (orientation) {
+        case 2: [uprightX, uprightY] = [lastX - x, y]; break;
+        case 3: [uprightX, uprightY] = [lastX - x, lastY - y]; break;
+        case 4: [uprightX, uprightY] = [x, lastY - y]; break;
+        case 5: [uprightX, uprightY] = [y, x]; break;
+        case 6: [uprightX, uprightY] = [lastX - y, x]; break;
+        case 7: [uprightX, uprightY] = [lastX - y, lastY - x]; break;
+        default: [uprightX, uprightY] = [y, lastY - x]; break; // 8
+      }
+      target[uprightY * upright.width + uprightX] = source[y * width + x];
+    }
+  }
+  return upright;
+}
+
+/**
+ * One 32-bit RGBA value per pixel, sharing the image's memory
+ */
+function pixelsOf(image: Image): Uint32Array {
+  return new Uint32Array(
+    image.bitmap.buffer,
+    image.bitmap.byteOffset,
+    image.width * image.height
+  );
+}
+
+/**
+ * Downscale (never upscale) so the longest edge is at most maxDimension
+ */
+function fitWithin(image: Image, maxDimension: number): Image {
+  if (image.width <= maxDimension && image.height <= maxDimension) {
+    return image;
+  }
+  return image.width >= image.height
+    ? image.resize(maxDimension, Image.RESIZE_AUTO)
+    : image.resize(Image.RESIZE_AUTO, maxDimension);
+}
+
+/**
+ * Sanitize source name for storage paths (remove special characters)
+ */
+export function safeSourceName(sourceName: string): string {
+  return sourceName.replace(/[^a-zA-Z0-9_-]/g, "_");
+}
+
+/**
+ * Staging prefix for direct uploads by a partner:
+ * staging/{sourceName}/uploads/
+ */
+export function directUploadPrefix(sourceName: string): string {
+  return `${STAGING_PREFIX}/${safeSourceName(sourceName)}/uploads/`;
+}
+
+/**
+ * Build the final api/ path for an image
+ */
+function finalImagePath(
+  sourceName: string,
+  reportId: string,
+  imageIndex: number,
+  mimeType: string
+): string {
+  // Generate unique filename
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const extension = mimeType.split("/")[1];
+  const fileName = `${timestamp}_${imageIndex}.${extension}`;
+
+  // Storage path: api/{sourceName}/{reportId}/{filename}
+  return `${API_PREFIX}/${safeSourceName(sourceName)}/${reportId}/${fileName}`;
+}
+
+/**
+ * Upload a normalised image (and its thumbnail) to the staging prefix.
+ * Nothing under staging/ is referenced by the database; the cleanup
+ * function removes anything left there.
+ */
+export async function stageImage(
+  supabase: SupabaseClient,
+  image: NormalizedImage,
+  reportId: string,
+  sourceName: string,
+  imageIndex: number,
+  isPrimary: boolean
+): Promise<StagedImage> {
+  const finalPath = finalImagePath(sourceName, reportId, imageIndex, image.mimeType);
+  const thumbnailFinalPath = image.thumbnail
+    ? finalPath.replace(/\.\w+$/, "_thumb.jpg")
+    : null;
+
+  const staged: StagedImage = {
+    index: imageIndex,
+    isPrimary,
+    stagingPath: stagingPathFor(finalPath),
+    finalPath,
+    thumbnailStagingPath: thumbnailFinalPath ? stagingPathFor(thumbnailFinalPath) : null,
+    thumbnailFinalPath,
+    mimeType: image.mimeType,
+    width: image.width,
+    height: image.height,
+    exif: image.exif,
+    phash: image.phash,
+  };
+
+  await uploadObject(supabase, staged.stagingPath, image.bytes, image.mimeType);
+  if (image.thumbnail && staged.thumbnailStagingPath) {
+    await uploadObject(supabase, staged.thumbnailStagingPath, image.thumbnail, "image/jpeg");
+  }
+
+  return staged;
+}
+
+/**
+ * Staging path mirrors the final path: staging/{sourceName}/{reportId}/{filename}
+ */
+function stagingPathFor(finalPath: string): string {
+  return `${STAGING_PREFIX}/${finalPath.slice(API_PREFIX.length + 1)}`;
+}
+
+async function uploadObject(
+  supabase: SupabaseClient,
+  path: string,
+  bytes: Uint8Array,
+  contentType: string
+): Promise<void> {
+  const { error: uploadError } = await supabase.storage
+    .from(REPORT_IMAGES_BUCKET)
+    .upload(path, bytes, {
+      contentType,
+      upsert: false,
+    });
+
+  if (uploadError) {
+    console.error("Storage upload error:", uploadError);
+    throw new Error("Failed to upload image to storage");
+  }
+}
+
+/**
+ * Load an image the partner uploaded directly via a signed upload URL.
+ * The original stays in staging until the report is committed.
+ */
+export async function loadUploadedImage(
+  supabase: SupabaseClient,
+  uploadPath: string,
+  sourceName: string
+): Promise<DecodedImage> {
+  // Partners may only finalise their own uploads
+  if (!uploadPath.startsWith(directUploadPrefix(sourceName)) || uploadPath.includes("..")) {
+    throw new Error("upload_path does not belong to this API key");
+  }
+
+  // Signed uploads are only bounded by the bucket limit, so check the
+  // stored size before download() buffers the whole object
+  const slash = uploadPath.lastIndexOf("/");
+  const fileName = uploadPath.slice(slash + 1);
+  const { data: listed } = await supabase.storage
+    .from(REPORT_IMAGES_BUCKET)
+    .list(uploadPath.slice(0, slash), { search: fileName, limit: 1 });
+  const stored = listed?.find((object) => object.name === fileName);
+
+  if (!stored) {
+    throw new Error("Uploaded image not found. Upload it before finalising the report.");
+  }
+  if (Number(stored.metadata?.size ?? 0) > MAX_IMAGE_SIZE_BYTES) {
+    await removeImages(supabase, [uploadPath]);
+    throw new Error(
+      `Image exceeds maximum size of ${MAX_IMAGE_SIZE_BYTES / 1024 / 1024}MB`
+    );
+  }
+
+  const { data, error } = await supabase.storage
+    .from(REPORT_IMAGES_BUCKET)
+    .download(uploadPath);
+
+  if (error || !data) {
+    throw new Error("Uploaded image not found. Upload it before finalising the report.");
+  }
+
+  try {
+    return checkImageBytes(new Uint8Array(await data.arrayBuffer()));
+  } catch (validationError) {
+    await removeImages(supabase, [uploadPath]);
+    throw validationError;
+  }
+}
+
+/**
+ * Move a staged image and its thumbnail to their final paths
+ */
+export async function promoteImage(
+  supabase: SupabaseClient,
+  image: StagedImage
+): Promise<void> {
+  const moves: [string, string][] = [[image.stagingPath, image.finalPath]];
+  if (image.thumbnailStagingPath && image.thumbnailFinalPath) {
+    moves.push([image.thumbnailStagingPath, image.thumbnailFinalPath]);
+  }
+
+  for (const [from, to] of moves) {
+    const { error } = await supabase.storage
+      .from(REPORT_IMAGES_BUCKET)
+      .move(from, to);
+
+    if (error) {
+      console.error("Storage move error:", error);
+      throw new Error("Failed to store image");
+    }
+  }
+}
+
+/**
+ * All storage objects written for a staged image, staged and final
+ */
+export function objectPaths(image: StagedImage): string[] {
+  return [
+    image.stagingPath,
+    image.finalPath,
+    image.thumbnailStagingPath,
+    image.thumbnailFinalPath,
+  ].filter((path): path is string => path !== null);
+}
+
+/**
+ * Best-effort removal of storage objects; leftovers are picked up by the
+ * cleanup-report-images function
+ */
+export async function removeImages(
+  supabase: SupabaseClient,
+  paths: string[]
+): Promise<void> {
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(REPORT_IMAGES_BUCKET).remove(paths);
+  if (error) {
+    console.error("Storage cleanup error:", error);
+  }
+}
+
+/**
+ * Public URL for a storage path (stored in report_images.storage_path)
+ */
+export function publicUrlFor(supabase: SupabaseClient, path: string): string {
+  const {
+    data: { publicUrl },
+  } = supabase.storage.from(REPORT_IMAGES_BUCKET).getPublicUrl(path);
+
+  return publicUrl;
+}
+
+/**
+ * Detect image type from magic bytes
+ */
+function detectImageType(bytes: Uint8Array): string | null {
+  // JPEG: starts with FF D8 FF
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "image/jpeg";
+  }
+  // PNG: starts with 89 50 4E 47
+  if (
+    bytes[0] === 0x89 &&
+    bytes[1] === 0x50 &&
+    bytes[2] === 0x4e &&
+    bytes[3] === 0x47
+  ) {
+    return "image/png";
+  }
+  // WebP: starts with RIFF....WEBP
+  if (
+    bytes[0] === 0x52 &&
+    bytes[1] === 0x49 &&
+    bytes[2] === 0x46 &&
+    bytes[3] === 0x46 &&
+    bytes[8] === 0x57 &&
+    bytes[9] === 0x45 &&
+    bytes[10] === 0x42 &&
+    bytes[11] === 0x50
+  ) {
+    return "image/webp";
+  }
+  // HEIC/HEIF: ISO BMFF "ftyp" box with a HEIF brand (detected to reject clearly)
+  if (
+    bytes[4] === 0x66 &&
+    bytes[5] === 0x74 &&
+    bytes[6] === 0x79 &&
+    bytes[7] === 0x70
+  ) {
+    const brand = String.fromCharCode(...bytes.subarray(8, 12));
+    if (["heic", "heix", "hevc", "heim", "heis", "mif1", "msf1"].includes(brand)) {
+      return "image/heic";
+    }
+  }
+  return null;
+}
+
+/**
+ * Remove EXIF and XMP chunks from a WebP (RIFF) file
+ */
+function stripWebpMetadata(bytes: Uint8Array): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const kept: Uint8Array[] = [];
+  let offset = 12; // "RIFF" + size + "WEBP"
+
+  while (offset + 8 <= bytes.length) {
+    const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const length = view.getUint32(offset + 4, true);
+    const end = Math.min(offset + 8 + length + (length & 1), bytes.length);
+
+    if (type !== "EXIF" && type !== "XMP ") {
+      const chunk = bytes.slice(offset, end);
+      if (type === "VP8X") {
+        chunk[8] &= ~0x0c; // Clear the EXIF (0x08) and XMP (0x04) flags
+      }
+      kept.push(chunk);
+    }
+    offset = end;
+  }
+
+  const size = kept.reduce((total, chunk) => total + chunk.length, 4);
+  const out = new Uint8Array(8 + size);
+  const outView = new DataView(out.buffer);
+  out.set(bytes.subarray(0, 4), 0); // "RIFF"
+  outView.setUint32(4, size, true);
+  out.set(bytes.subarray(8, 12), 8); // "WEBP"
+
+  let position = 12;
+  for (const chunk of kept) {
+    out.set(chunk, position);
+    position += chunk.length;
+  }
+  return out;
+}
+
+/**
+ * Read the canvas size from a WebP header (VP8X, VP8 or VP8L)
+ */
+function webpDimensions(bytes: Uint8Array): { width: number; height: number } | null {
+  const type = String.fromCharCode(...bytes.subarray(12, 16));
+  const data = 20; // First chunk's payload
+
+  if (type === "VP8X") {
+    // 24-bit canvas width/height minus one
+    return {
+      width: 1 + (bytes[data + 4] | (bytes[data + 5] << 8) | (bytes[data + 6] << 16)),
+      height: 1 + (bytes[data + 7] | (bytes[data + 8] << 8) | (bytes[data + 9] << 16)),
+    };
+  }
+  if (type === "VP8 ") {
+    // 14-bit dimensions after the 3-byte frame tag and 3-byte start code
+    return {
+      width: (bytes[data + 6] | (bytes[data + 7] << 8)) & 0x3fff,
+      height: (bytes[data + 8] | (bytes[data + 9] << 8)) & 0x3fff,
+    };
+  }
+  if (type === "VP8L") {
+    // 14-bit width/height minus one, after the signature byte
+    const bits =
+      bytes[data + 1] |
+      (bytes[data + 2] << 8) |
+      (bytes[data + 3] << 16) |
+      (bytes[data + 4] << 24);
+    return {
+      width: 1 + (bits & 0x3fff),
+      height: 1 + ((bits >>> 14) & 0x3fff),
+    };
+  }
+  return null;
+}
+
+/**
+ * Read the pixel size from a JPEG (SOFn segment) or PNG (IHDR) header
+ */
+function imageDimensions(
+  bytes: Uint8Array,
+  mimeType: string
+): { width: number; height: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  if (mimeType === "image/png") {
+    // Signature, then the IHDR chunk: length, type, width, height
+    if (bytes.length < 24) return null;
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  let offset = 2; // Skip SOI
+  while (offset + 9 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+    }
+    // Start of scan without a frame header
+    if (marker === 0xda) break;
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return null;
+}
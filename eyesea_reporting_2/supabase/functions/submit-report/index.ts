@@ -1,9 +1,21 @@
 /**
  * External Reporting API - Submit Report Edge Function
  *
- * Allows external applications to submit pollution reports via API.
+ * Allows external applications to submit pollution reports via API,
+ * and to read reports back.
  *
- * Endpoint: POST /functions/v1/submit-report
+ * Endpoints:
+ * - POST /functions/v1/submit-report        Submit a new report
+ * - POST /functions/v1/submit-report/batch  Submit up to 25 reports (see batch.ts)
+ * - POST /functions/v1/submit-report/uploads  Signed URLs for direct image upload (see uploads.ts)
+ * - GET  /functions/v1/submit-report        Fetch or list your reports (see query.ts)
+ * - POST /functions/v1/submit-report/webhook  Register a status callback (see webhook.ts)
+ * - GET  /functions/v1/submit-report/webhook  Callback and delivery history
+ *
+ * Idempotency:
+ * - Header: Idempotency-Key: <unique key>, or "source_reference" in the body.
+ *   Retries with the same key return the original 201 response; reusing a key
+ *   with a different body fails with 422 IDEMPOTENCY_CONFLICT.
  *
  * Authentication (any of these methods):
  * - Header: X-API-Key: <api_key>
@@ -18,68 +30,60 @@
  *   "pollution_type": string,  // Required: plastic|oil|debris|sewage|fishing_gear|container|other
  *   "severity": number,        // Required: 1-5
  *   "notes": string,           // Optional
- *   "city": string,            // Optional
- *   "country": string,         // Optional
+ *   "city": string,            // Optional: filled from the coordinates if missing
+ *   "country": string,         // Optional: filled from the coordinates if missing;
+ *                              // a country that disagrees with them is flagged for review
  *   "pollution_counts": {},    // Optional: {"plastic": 5, "debris": 2}
  *   "images": [{               // Required: at least one
- *     "data": string,          // Base64 encoded image
+ *     "data": string,          // Base64 encoded image, or
+ *     "upload_path": string,   // Path of an image uploaded via /uploads
  *     "is_primary": boolean    // Optional, first image is primary by default
  *   }],
  *   "source_reference": string // Optional: external system's ID for this report
  * }
+ *
+ * The same fields can be sent as multipart/form-data with binary image parts
+ * (see uploads.ts).
+ *
+ * Images are JPEG or PNG of at most 5MB and 16 megapixels each, or WebP of
+ * at most 5MB. WebP is stored as uploaded minus its EXIF/XMP metadata,
+ * without a thumbnail or duplicate check.
+ *
+ * JSON bodies, single or batch, are limited to 36MB and multipart bodies to
+ * 26MB (413 PAYLOAD_TOO_LARGE).
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-
-// CORS headers for cross-origin requests
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type, x-api-key",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
-};
-
-// Valid pollution type values (must match database enum)
-const VALID_POLLUTION_TYPES = [
-  "plastic",
-  "oil",
-  "debris",
-  "sewage",
-  "fishing_gear",
-  "container",
-  "other",
-];
-
-// Configuration
-const MAX_IMAGE_SIZE_BYTES = 5 * 1024 * 1024; // 5MB per image
-const MAX_IMAGES_PER_REQUEST = 5;
-
-// TypeScript interfaces
-interface ImageData {
-  data: string;
-  is_primary?: boolean;
-}
-
-interface ReportRequest {
-  api_key?: string; // Alternative to header authentication
-  latitude: number;
-  longitude: number;
-  pollution_type: string;
-  severity: number;
-  notes?: string;
-  city?: string;
-  country?: string;
-  pollution_counts?: Record<string, number>;
-  images: ImageData[];
-  source_reference?: string;
-}
-
-interface ValidationResult {
-  valid: boolean;
-  message?: string;
-  field?: string;
-}
+import {
+  authenticateApiKey,
+  corsHeaders,
+  countApiRequest,
+  createServiceClient,
+  errorResponse,
+  identifyApiKey,
+  jsonResponse,
+  readBodyWithLimit,
+  routeSegments,
+} from "./http.ts";
+import { type BatchRequest, handleBatchSubmission } from "./batch.ts";
+import { resolveIdempotencyKey } from "./idempotency.ts";
+import { handleReportQuery } from "./query.ts";
+import { submitReport } from "./submission.ts";
+import {
+  handleUploadRequest,
+  isMultipartRequest,
+  parseMultipartReport,
+} from "./uploads.ts";
+import {
+  MAX_JSON_BODY_BYTES,
+  MAX_MULTIPART_BODY_BYTES,
+  type ReportRequest,
+} from "./validation.ts";
+import {
+  handleWebhookQuery,
+  handleWebhookRegistration,
+  type WebhookRequest,
+} from "./webhook.ts";
 
 // Main request handler
 serve(async (req: Request): Promise<Response> => {
@@ -88,183 +92,119 @@ serve(async (req: Request): Promise<Response> => {
     return new Response("ok", { headers: corsHeaders });
   }
 
-  // Only accept POST requests
-  if (req.method !== "POST") {
-    return errorResponse(405, "METHOD_NOT_ALLOWED", "Only POST method is allowed");
+  // Only accept GET (read API) and POST (submission) requests
+  if (req.method !== "GET" && req.method !== "POST") {
+    return errorResponse(
+      405,
+      "METHOD_NOT_ALLOWED",
+      "Only GET and POST methods are allowed"
+    );
   }
 
   try {
-    // 1. Parse request body first (needed to check for api_key in body)
-    let body: ReportRequest;
-    try {
-      body = await req.json();
-    } catch {
-      return errorResponse(400, "INVALID_JSON", "Request body must be valid JSON");
-    }
-
-    // 2. Extract API Key from headers only (not body - security best practice)
-    // Priority: X-API-Key header > Authorization Bearer
-    let apiKey = req.headers.get("x-api-key");
-
-    if (!apiKey) {
-      // Try Authorization: Bearer header
-      const authHeader = req.headers.get("authorization");
-      if (authHeader?.startsWith("Bearer ")) {
-        apiKey = authHeader.substring(7); // Remove "Bearer " prefix
-      }
-    }
-
-    if (!apiKey) {
-      return errorResponse(
-        401,
-        "MISSING_API_KEY",
-        "API key required. Use X-API-Key header or Authorization: Bearer header"
-      );
-    }
-
     // Initialize Supabase client with service role key
-    const supabaseUrl = Deno.env.get("SUPABASE_URL");
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-
-    if (!supabaseUrl || !supabaseKey) {
-      console.error("Missing Supabase environment variables");
+    const supabase = createServiceClient();
+    if (!supabase) {
       return errorResponse(500, "CONFIG_ERROR", "Server configuration error");
     }
 
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
-    // 3. Validate the API key using database function
-    const { data: keyValidation, error: keyError } = await supabase.rpc(
-      "validate_api_key",
-      { p_key: apiKey }
-    );
-
-    if (keyError) {
-      console.error("API key validation error:", keyError.message);
-      return errorResponse(500, "VALIDATION_ERROR", "Failed to validate API key");
+    const route = routeSegments(req, "submit-report").join("/");
+    if (route !== "" && route !== "batch" && route !== "uploads" && route !== "webhook") {
+      return errorResponse(404, "NOT_FOUND", `Unknown endpoint: ${route}`);
     }
 
-    const validationResult = keyValidation?.[0];
-    if (!validationResult?.is_valid) {
-      return errorResponse(401, "INVALID_API_KEY", "Invalid or expired API key");
-    }
-    if (validationResult.rate_limited) {
-      return errorResponse(
-        429,
-        "RATE_LIMITED",
-        "Daily rate limit exceeded. Try again tomorrow."
-      );
-    }
+    if (req.method === "GET") {
+      if (route !== "" && route !== "webhook") {
+        return errorResponse(405, "METHOD_NOT_ALLOWED", "Only POST method is allowed");
+      }
 
-    const sourceName = validationResult.key_name;
-    console.log(`API request from: ${sourceName}`);
+      const auth = await authenticateApiKey(req, supabase);
+      if (auth instanceof Response) return auth;
 
-    const validation = validateRequest(body);
-    if (!validation.valid) {
-      return errorResponse(
-        400,
-        "VALIDATION_ERROR",
-        validation.message!,
-        validation.field
-      );
+      if (route === "webhook") {
+        return await handleWebhookQuery(req, supabase, auth);
+      }
+      return await handleReportQuery(req, supabase, auth);
     }
 
-    // 3. Create report record
-    const reportId = crypto.randomUUID();
-    const { error: reportError } = await supabase.from("reports").insert({
-      id: reportId,
-      user_id: null, // API submissions don't have an authenticated user
-      location: `POINT(${body.longitude} ${body.latitude})`,
-      pollution_type: body.pollution_type,
-      severity: body.severity,
-      notes: body.notes || null,
-      city: body.city || null,
-      country: body.country || null,
-      pollution_counts: body.pollution_counts || {},
-      status: "pending",
-      is_anonymous: true,
-      api_source: sourceName,
-      api_reference: body.source_reference || null,
-    });
-
-    if (reportError) {
-      console.error("Report insert error:", reportError);
-      return errorResponse(500, "DATABASE_ERROR", "Failed to create report");
+    // 1. Parse request body first (needed to check for api_key in body)
+    let payload: unknown;
+    if (route === "" && isMultipartRequest(req)) {
+      const parsed = await parseMultipartReport(req);
+      if ("tooLarge" in parsed) {
+        return errorResponse(
+          413,
+          "PAYLOAD_TOO_LARGE",
+          `Request body must be at most ${MAX_MULTIPART_BODY_BYTES / 1024 / 1024}MB`
+        );
+      }
+      if ("error" in parsed) {
+        return errorResponse(400, "INVALID_MULTIPART", parsed.error.message!, parsed.error.field);
+      }
+      payload = parsed.report;
+    } else {
+      const bytes = await readBodyWithLimit(req, MAX_JSON_BODY_BYTES);
+      if (bytes === null) {
+        return errorResponse(
+          413,
+          "PAYLOAD_TOO_LARGE",
+          `Request body must be at most ${MAX_JSON_BODY_BYTES / 1024 / 1024}MB. ` +
+            "Send large images with upload_path (see /uploads) instead of base64."
+        );
+      }
+      try {
+        payload = JSON.parse(new TextDecoder().decode(bytes));
+      } catch {
+        return errorResponse(400, "INVALID_JSON", "Request body must be valid JSON");
+      }
     }
 
-    console.log(`Created report: ${reportId}`);
-
-    // 4. Process and upload images
-    const imageUrls: string[] = [];
-    const imageErrors: string[] = [];
+    // 2. Validate the API key using database function. Submissions count
+    // against the rate limit only once they create a report, so replays
+    // of earlier submissions are never rate limited.
+    const isSubmission = route === "" || route === "batch";
+    const auth = isSubmission
+      ? await identifyApiKey(req, supabase)
+      : await authenticateApiKey(req, supabase);
+    if (auth instanceof Response) return auth;
 
-    for (let i = 0; i < Math.min(body.images.length, MAX_IMAGES_PER_REQUEST); i++) {
-      const img = body.images[i];
-      const isPrimary = img.is_primary ?? i === 0; // First image is primary by default
+    console.log(`API request from: ${auth.sourceName}`);
 
-      try {
-        const imageUrl = await processAndUploadImage(
-          supabase,
-          img.data,
-          reportId,
-          sourceName,
-          i
-        );
-        imageUrls.push(imageUrl);
-
-        // Create image record in database
-        const { error: imgRecordError } = await supabase
-          .from("report_images")
-          .insert({
-            report_id: reportId,
-            storage_path: imageUrl,
-            is_primary: isPrimary,
-          });
-
-        if (imgRecordError) {
-          console.error(`Image record error for image ${i}:`, imgRecordError);
-        }
-      } catch (imgError) {
-        console.error(`Image ${i} processing error:`, imgError);
-        imageErrors.push(`Image ${i + 1}: ${(imgError as Error).message}`);
-        // Continue processing other images
-      }
+    if (route === "batch") {
+      return await handleBatchSubmission(supabase, auth, payload as BatchRequest);
     }
-
-    // Check if at least one image was uploaded
-    if (imageUrls.length === 0) {
-      // Rollback: delete the report since no images were uploaded
-      await supabase.from("reports").delete().eq("id", reportId);
-      return errorResponse(
-        400,
-        "IMAGE_UPLOAD_FAILED",
-        "Failed to upload any images. " + imageErrors.join("; ")
-      );
+    if (route === "uploads") {
+      return await handleUploadRequest(supabase, auth, payload as { count?: number });
+    }
+    if (route === "webhook") {
+      return await handleWebhookRegistration(supabase, auth, payload as WebhookRequest);
     }
 
-    // 5. Return success response
-    const response = {
-      success: true,
-      data: {
-        report_id: reportId,
-        status: "pending",
-        image_count: imageUrls.length,
-        image_urls: imageUrls,
-        created_at: new Date().toISOString(),
-      },
-    };
+    const body = payload as ReportRequest;
 
-    // Include warnings if some images failed
-    if (imageErrors.length > 0) {
-      (response as any).warnings = imageErrors;
+    // 3. Resolve the idempotency key (Idempotency-Key header or source_reference)
+    const idempotencyKey = resolveIdempotencyKey(
+      req.headers.get("idempotency-key"),
+      body
+    );
+    if (typeof idempotencyKey === "string") {
+      return errorResponse(400, "VALIDATION_ERROR", idempotencyKey, "Idempotency-Key");
     }
 
-    console.log(`Report ${reportId} created successfully with ${imageUrls.length} images`);
+    // 4. Validate, create report and upload images
+    const result = await submitReport(
+      supabase,
+      auth,
+      body,
+      idempotencyKey,
+      () => countApiRequest(supabase, auth)
+    );
 
-    return new Response(JSON.stringify(response), {
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-      status: 201,
-    });
+    return jsonResponse(
+      result.body,
+      result.status,
+      result.replayed ? { "Idempotent-Replayed": "true" } : {}
+    );
   } catch (error) {
     console.error("Unhandled error:", error);
     return errorResponse(
@@ -275,280 +215,3 @@ serve(async (req: Request): Promise<Response> => {
   }
 });
 
-/**
- * Validate the request body
- */
-function validateRequest(body: ReportRequest): ValidationResult {
-  // Check latitude
-  if (body.latitude === undefined || body.latitude === null) {
-    return { valid: false, message: "latitude is required", field: "latitude" };
-  }
-  if (typeof body.latitude !== "number" || isNaN(body.latitude)) {
-    return { valid: false, message: "latitude must be a number", field: "latitude" };
-  }
-  if (body.latitude < -90 || body.latitude > 90) {
-    return {
-      valid: false,
-      message: "latitude must be between -90 and 90",
-      field: "latitude",
-    };
-  }
-
-  // Check longitude
-  if (body.longitude === undefined || body.longitude === null) {
-    return { valid: false, message: "longitude is required", field: "longitude" };
-  }
-  if (typeof body.longitude !== "number" || isNaN(body.longitude)) {
-    return { valid: false, message: "longitude must be a number", field: "longitude" };
-  }
-  if (body.longitude < -180 || body.longitude > 180) {
-    return {
-      valid: false,
-      message: "longitude must be between -180 and 180",
-      field: "longitude",
-    };
-  }
-
-  // Check pollution_type
-  if (!body.pollution_type) {
-    return {
-      valid: false,
-      message: "pollution_type is required",
-      field: "pollution_type",
-    };
-  }
-  if (!VALID_POLLUTION_TYPES.includes(body.pollution_type)) {
-    return {
-      valid: false,
-      message: `pollution_type must be one of: ${VALID_POLLUTION_TYPES.join(", ")}`,
-      field: "pollution_type",
-    };
-  }
-
-  // Check severity
-  if (body.severity === undefined || body.severity === null) {
-    return { valid: false, message: "severity is required", field: "severity" };
-  }
-  if (!Number.isInteger(body.severity) || body.severity < 1 || body.severity > 5) {
-    return {
-      valid: false,
-      message: "severity must be an integer between 1 and 5",
-      field: "severity",
-    };
-  }
-
-  // Check images
-  if (!body.images || !Array.isArray(body.images) || body.images.length === 0) {
-    return {
-      valid: false,
-      message: "at least one image is required",
-      field: "images",
-    };
-  }
-  if (body.images.length > MAX_IMAGES_PER_REQUEST) {
-    return {
-      valid: false,
-      message: `maximum ${MAX_IMAGES_PER_REQUEST} images allowed per request`,
-      field: "images",
-    };
-  }
-
-  // Validate each image has data
-  for (let i = 0; i < body.images.length; i++) {
-    if (!body.images[i].data || typeof body.images[i].data !== "string") {
-      return {
-        valid: false,
-        message: `images[${i}].data is required and must be a base64 string`,
-        field: `images[${i}].data`,
-      };
-    }
-  }
-
-  // Validate pollution_counts if provided
-  if (body.pollution_counts) {
-    if (typeof body.pollution_counts !== "object") {
-      return {
-        valid: false,
-        message: "pollution_counts must be an object",
-        field: "pollution_counts",
-      };
-    }
-    for (const [key, value] of Object.entries(body.pollution_counts)) {
-      if (!VALID_POLLUTION_TYPES.includes(key)) {
-        return {
-          valid: false,
-          message: `pollution_counts key "${key}" is not a valid pollution type`,
-          field: "pollution_counts",
-        };
-      }
-      if (!Number.isInteger(value) || value < 0) {
-        return {
-          valid: false,
-          message: `pollution_counts["${key}"] must be a non-negative integer`,
-          field: "pollution_counts",
-        };
-      }
-    }
-  }
-
-  // Validate optional string fields (prevent excessively long inputs)
-  const MAX_NOTES_LENGTH = 2000;
-  const MAX_CITY_LENGTH = 100;
-  const MAX_COUNTRY_LENGTH = 100;
-
-  if (body.notes && typeof body.notes === "string" && body.notes.length > MAX_NOTES_LENGTH) {
-    return {
-      valid: false,
-      message: `notes must be ${MAX_NOTES_LENGTH} characters or less`,
-      field: "notes",
-    };
-  }
-
-  if (body.city && typeof body.city === "string" && body.city.length > MAX_CITY_LENGTH) {
-    return {
-      valid: false,
-      message: `city must be ${MAX_CITY_LENGTH} characters or less`,
-      field: "city",
-    };
-  }
-
-  if (body.country && typeof body.country === "string" && body.country.length > MAX_COUNTRY_LENGTH) {
-    return {
-      valid: false,
-      message: `country must be ${MAX_COUNTRY_LENGTH} characters or less`,
-      field: "country",
-    };
-  }
-
-  return { valid: true };
-}
-
-/**
- * Process and upload a single image
- */
-async function processAndUploadImage(
-  supabase: ReturnType<typeof createClient>,
-  base64Data: string,
-  reportId: string,
-  sourceName: string,
-  imageIndex: number
-): Promise<string> {
-  // Remove data URL prefix if present (e.g., "data:image/jpeg;base64,")
-  const base64Clean = base64Data.replace(/^data:image\/\w+;base64,/, "");
-
-  // Decode base64 to bytes
-  let imageBytes: Uint8Array;
-  try {
-    const binaryString = atob(base64Clean);
-    imageBytes = new Uint8Array(binaryString.length);
-    for (let i = 0; i < binaryString.length; i++) {
-      imageBytes[i] = binaryString.charCodeAt(i);
-    }
-  } catch {
-    throw new Error("Invalid base64 encoding");
-  }
-
-  // Check file size
-  if (imageBytes.length > MAX_IMAGE_SIZE_BYTES) {
-    throw new Error(
-      `Image exceeds maximum size of ${MAX_IMAGE_SIZE_BYTES / 1024 / 1024}MB`
-    );
-  }
-
-  // Detect image type from magic bytes
-  const mimeType = detectImageType(imageBytes);
-  if (!mimeType) {
-    throw new Error("Unsupported image format. Use JPEG, PNG, or WebP.");
-  }
-
-  // Generate unique filename
-  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-  const extension = mimeType.split("/")[1];
-  const fileName = `${timestamp}_${imageIndex}.${extension}`;
-
-  // Sanitize source name for path (remove special characters)
-  const safeSourceName = sourceName.replace(/[^a-zA-Z0-9_-]/g, "_");
-
-  // Storage path: api/{sourceName}/{reportId}/{filename}
-  const path = `api/${safeSourceName}/${reportId}/${fileName}`;
-
-  // Upload to storage
-  const { error: uploadError } = await supabase.storage
-    .from("report-images")
-    .upload(path, imageBytes, {
-      contentType: mimeType,
-      upsert: false,
-    });
-
-  if (uploadError) {
-    console.error("Storage upload error:", uploadError);
-    throw new Error("Failed to upload image to storage");
-  }
-
-  // Get public URL
-  const {
-    data: { publicUrl },
-  } = supabase.storage.from("report-images").getPublicUrl(path);
-
-  return publicUrl;
-}
-
-/**
- * Detect image type from magic bytes
- */
-function detectImageType(bytes: Uint8Array): string | null {
-  // JPEG: starts with FF D8 FF
-  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
-    return "image/jpeg";
-  }
-  // PNG: starts with 89 50 4E 47
-  if (
-    bytes[0] === 0x89 &&
-    bytes[1] === 0x50 &&
-    bytes[2] === 0x4e &&
-    bytes[3] === 0x47
-  ) {
-    return "image/png";
-  }
-  // WebP: starts with RIFF....WEBP
-  if (
-    bytes[0] === 0x52 &&
-    bytes[1] === 0x49 &&
-    bytes[2] === 0x46 &&
-    bytes[3] === 0x46 &&
-    bytes[8] === 0x57 &&
-    bytes[9] === 0x45 &&
-    bytes[10] === 0x42 &&
-    bytes[11] === 0x50
-  ) {
-    return "image/webp";
-  }
-  return null;
-}
-
-/**
- * Create error response
- */
-function errorResponse(
-  status: number,
-  code: string,
-  message: string,
-  field?: string
-): Response {
-  const body: Record<string, unknown> = {
-    success: false,
-    error: {
-      code,
-      message,
-    },
-  };
-
-  if (field) {
-    (body.error as Record<string, unknown>).field = field;
-  }
-
-  return new Response(JSON.stringify(body), {
-    headers: { ...corsHeaders, "Content-Type": "application/json" },
-    status,
-  });
-}
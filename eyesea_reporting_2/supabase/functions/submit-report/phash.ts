@@ -0,0 +1,71 @@
+/**
+ * Perceptual hash (pHash) for near-duplicate image detection
+ *
+ * The image is reduced to 32x32 greyscale, transformed with a 2D DCT and the
+ * 8x8 lowest frequencies are compared with their median, giving a 64-bit hash
+ * that survives re-encoding, resizing and small edits. Similar images have a
+ * small Hamming distance between their hashes.
+ */
+
+import { Image } from "https://deno.land/x/imagescript@1.2.17/mod.ts";
+
+const SAMPLE_SIZE = 32;
+const HASH_SIZE = 8;
+
+// cos((2x + 1) * u * PI / (2 * SAMPLE_SIZE)) for u < HASH_SIZE, x < SAMPLE_SIZE
+const DCT_COSINES = Array.from({ length: HASH_SIZE }, (_, u) =>
+  Array.from({ length: SAMPLE_SIZE }, (_, x) =>
+    Math.cos(((2 * x + 1) * u * Math.PI) / (2 * SAMPLE_SIZE))
+  )
+);
+
+/**
+ * 64-bit perceptual hash as 16 hex characters
+ */
+export function perceptualHash(image: Image): string {
+  const sample = image.clone().resize(SAMPLE_SIZE, SAMPLE_SIZE);
+
+  // Luminance, row-major
+  const pixels = new Float64Array(SAMPLE_SIZE * SAMPLE_SIZE);
+  for (let i = 0; i < pixels.length; i++) {
+    const r = sample.bitmap[i * 4];
+    const g = sample.bitmap[i * 4 + 1];
+    const b = sample.bitmap[i * 4 + 2];
+    pixels[i] = 0.299 * r + 0.587 * g + 0.114 * b;
+  }
+
+  // Only the low-frequency corner of the DCT is needed
+  const coefficients: number[] = [];
+  for (let v = 0; v < HASH_SIZE; v++) {
+    for (let u = 0; u < HASH_SIZE; u++) {
+      let sum = 0;
+      for (let y = 0; y < SAMPLE_SIZE; y++) {
+        for (let x = 0; x < SAMPLE_SIZE; x++) {
+          sum += pixels[y * SAMPLE_SIZE + x] * DCT_COSINES[u][x] * DCT_COSINES[v][y];
+        }
+      }
+      coefficients.push(sum);
+    }
+  }
+
+  // The DC term (overall brightness) would skew the median
+  const median = medianOf(coefficients.slice(1));
+
+  let hex = "";
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      nibble = (nibble << 1) | (coefficients[i + bit] > median ? 1 : 0);
+    }
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+function medianOf(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
@@ -0,0 +1,275 @@
+/**
+ * External Reporting API - Read/Query Endpoints
+ *
+ * Every read is scoped to the calling API key's source: partners only see
+ * the reports they submitted, never app users' or other partners' reports.
+ *
+ * GET /functions/v1/submit-report?report_id=<uuid>
+ *   Fetch a single report by its Eyesea ID.
+ *
+ * GET /functions/v1/submit-report?api_reference=<your-id>
+ *   Fetch a single report by the source_reference you submitted it with.
+ *
+ * GET /functions/v1/submit-report?<filters>
+ *   List your reports, newest first. Filters (all optional):
+ *   - min_lat, min_lng, max_lat, max_lng: bounding box (all four required together)
+ *   - from, to: ISO 8601 timestamps bounding reported_at
+ *   - pollution_type: plastic|oil|debris|sewage|fishing_gear|container|other
+ *   - status: pending|verified|resolved|rejected
+ *   - limit: page size (1-100, default 50)
+ *   - cursor: next_cursor value from the previous page
+ */
+
+import { VALID_POLLUTION_TYPES } from "../_shared/pollution.ts";
+import {
+  type ApiKeyContext,
+  errorResponse,
+  jsonResponse,
+  type SupabaseClient,
+} from "./http.ts";
+import { VALID_REPORT_STATUSES, type ValidationResult } from "./validation.ts";
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Row shape returned by the get_api_reports database function
+interface ApiReportRow {
+  id: string;
+  api_source: string | null;
+  api_reference: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  pollution_type: string;
+  severity: number;
+  status: string;
+  notes: string | null;
+  city: string | null;
+  country: string | null;
+  pollution_counts: Record<string, number>;
+  image_urls: string[];
+  reported_at: string;
+  updated_at: string;
+  verified_at: string | null;
+  resolved_at: string | null;
+}
+
+interface ReportQuery {
+  reportId: string | null;
+  apiReference: string | null;
+  bounds: [number, number, number, number] | null; // min_lng, min_lat, max_lng, max_lat
+  from: string | null;
+  to: string | null;
+  pollutionType: string | null;
+  status: string | null;
+  limit: number;
+  cursor: { reportedAt: string; id: string } | null;
+}
+
+/**
+ * Handle a GET request against the read API
+ */
+export async function handleReportQuery(
+  req: Request,
+  supabase: SupabaseClient,
+  auth: ApiKeyContext
+): Promise<Response> {
+  const params = new URL(req.url).searchParams;
+
+  const parsed = parseReportQuery(params);
+  if ("valid" in parsed) {
+    return errorResponse(400, "VALIDATION_ERROR", parsed.message!, parsed.field);
+  }
+  const query = parsed;
+
+  const isSingleLookup = query.reportId !== null || query.apiReference !== null;
+
+  const { data, error } = await supabase.rpc("get_api_reports", {
+    p_report_id: query.reportId,
+    p_api_source: auth.sourceName,
+    p_api_reference: query.apiReference,
+    p_min_lng: query.bounds?.[0] ?? null,
+    p_min_lat: query.bounds?.[1] ?? null,
+    p_max_lng: query.bounds?.[2] ?? null,
+    p_max_lat: query.bounds?.[3] ?? null,
+    p_from: query.from,
+    p_to: query.to,
+    p_pollution_type: query.pollutionType,
+    p_status: query.status,
+    p_cursor_reported_at: query.cursor?.reportedAt ?? null,
+    p_cursor_id: query.cursor?.id ?? null,
+    // Fetch one extra row to know whether another page exists
+    p_limit: isSingleLookup ? 1 : query.limit + 1,
+  });
+
+  if (error) {
+    console.error("Report query error:", error);
+    return errorResponse(500, "DATABASE_ERROR", "Failed to fetch reports");
+  }
+
+  const rows = (data ?? []) as ApiReportRow[];
+
+  if (isSingleLookup) {
+    if (rows.length === 0) {
+      return errorResponse(404, "NOT_FOUND", "Report not found");
+    }
+    return jsonResponse({ success: true, data: rows[0] });
+  }
+
+  const hasMore = rows.length > query.limit;
+  const page = hasMore ? rows.slice(0, query.limit) : rows;
+  const last = page[page.length - 1];
+
+  return jsonResponse({
+    success: true,
+    data: page,
+    next_cursor: hasMore && last ? encodeCursor(last.reported_at, last.id) : null,
+  });
+}
+
+/**
+ * Parse and validate query string parameters
+ */
+function parseReportQuery(
+  params: URLSearchParams
+): ReportQuery | ValidationResult {
+  const reportId = params.get("report_id");
+  if (reportId !== null && !UUID_PATTERN.test(reportId)) {
+    return { valid: false, message: "report_id must be a UUID", field: "report_id" };
+  }
+
+  const apiReference = params.get("api_reference");
+  if (apiReference !== null && apiReference.length === 0) {
+    return {
+      valid: false,
+      message: "api_reference must not be empty",
+      field: "api_reference",
+    };
+  }
+
+  // Bounding box: all four corners or none
+  const boundsKeys = ["min_lng", "min_lat", "max_lng", "max_lat"];
+  const boundsProvided = boundsKeys.filter((key) => params.has(key));
+  let bounds: ReportQuery["bounds"] = null;
+
+  if (boundsProvided.length > 0) {
+    if (boundsProvided.length !== boundsKeys.length) {
+      return {
+        valid: false,
+        message: "min_lat, min_lng, max_lat and max_lng must be provided together",
+        field: boundsKeys.find((key) => !params.has(key)),
+      };
+    }
+
+    const values = boundsKeys.map((key) => Number(params.get(key)));
+    for (let i = 0; i < values.length; i++) {
+      const isLat = boundsKeys[i].endsWith("lat");
+      const limit = isLat ? 90 : 180;
+      if (isNaN(values[i]) || values[i] < -limit || values[i] > limit) {
+        return {
+          valid: false,
+          message: `${boundsKeys[i]} must be a number between -${limit} and ${limit}`,
+          field: boundsKeys[i],
+        };
+      }
+    }
+    if (values[0] > values[2] || values[1] > values[3]) {
+      return {
+        valid: false,
+        message: "min_lat/min_lng must not exceed max_lat/max_lng",
+        field: "min_lat",
+      };
+    }
+    bounds = values as [number, number, number, number];
+  }
+
+  // Date range
+  const from = params.get("from");
+  if (from !== null && isNaN(Date.parse(from))) {
+    return { valid: false, message: "from must be an ISO 8601 timestamp", field: "from" };
+  }
+  const to = params.get("to");
+  if (to !== null && isNaN(Date.parse(to))) {
+    return { valid: false, message: "to must be an ISO 8601 timestamp", field: "to" };
+  }
+
+  const pollutionType = params.get("pollution_type");
+  if (pollutionType !== null && !VALID_POLLUTION_TYPES.includes(pollutionType)) {
+    return {
+      valid: false,
+      message: `pollution_type must be one of: ${VALID_POLLUTION_TYPES.join(", ")}`,
+      field: "pollution_type",
+    };
+  }
+
+  const status = params.get("status");
+  if (status !== null && !VALID_REPORT_STATUSES.includes(status)) {
+    return {
+      valid: false,
+      message: `status must be one of: ${VALID_REPORT_STATUSES.join(", ")}`,
+      field: "status",
+    };
+  }
+
+  let limit = DEFAULT_PAGE_SIZE;
+  const limitParam = params.get("limit");
+  if (limitParam !== null) {
+    limit = Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return {
+        valid: false,
+        message: `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+        field: "limit",
+      };
+    }
+  }
+
+  let cursor: ReportQuery["cursor"] = null;
+  const cursorParam = params.get("cursor");
+  if (cursorParam !== null) {
+    cursor = decodeCursor(cursorParam);
+    if (!cursor) {
+      return { valid: false, message: "cursor is invalid", field: "cursor" };
+    }
+  }
+
+  return {
+    reportId,
+    apiReference,
+    bounds,
+    from,
+    to,
+    pollutionType,
+    status,
+    limit,
+    cursor,
+  };
+}
+
+/**
+ * Encode a pagination cursor (opaque to clients)
+ */
+function encodeCursor(reportedAt: string, id: string): string {
+  return btoa(`${reportedAt}|${id}`)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+/**
+ * Decode a pagination cursor, returning null if it is malformed
+ */
+function decodeCursor(cursor: string): ReportQuery["cursor"] {
+  try {
+    const decoded = atob(cursor.replace(/-/g, "+").replace(/_/g, "/"));
+    const [reportedAt, id] = decoded.split("|");
+    if (!reportedAt || isNaN(Date.parse(reportedAt)) || !UUID_PATTERN.test(id ?? "")) {
+      return null;
+    }
+    return { reportedAt, id };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,303 @@
+/**
+ * Report creation for API submissions
+ *
+ * Produces the response envelope and HTTP status instead of a Response so the
+ * result can be stored for idempotent replays.
+ */
+
+import { findDuplicateImages } from "./duplicates.ts";
+import { assessExifMismatch } from "./exif.ts";
+import { geocodeReportInBackground } from "./geocoding.ts";
+import {
+  type ApiKeyContext,
+  errorBody,
+  RATE_LIMITED_MESSAGE,
+  type SupabaseClient,
+} from "./http.ts";
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  type IdempotencyKey,
+} from "./idempotency.ts";
+import {
+  type DecodedImage,
+  decodeImage,
+  loadUploadedImage,
+  normalizeImage,
+  objectPaths,
+  promoteImage,
+  publicUrlFor,
+  readImageFile,
+  removeImages,
+  type StagedImage,
+  stageImage,
+} from "./images.ts";
+import {
+  MAX_IMAGES_PER_REQUEST,
+  type ReportRequest,
+  validateRequest,
+} from "./validation.ts";
+
+export interface SubmissionResult {
+  status: number;
+  body: Record<string, unknown>;
+  replayed?: boolean; // true when returned from a previous idempotent request
+}
+
+/**
+ * Validate and create a single report, honouring its idempotency key.
+ * Used for both single and batch submissions.
+ *
+ * countRequest is asked only when a report is about to be created, so
+ * replays of earlier submissions are not counted against the rate limit;
+ * it returns false once the daily limit is reached.
+ */
+export async function submitReport(
+  supabase: SupabaseClient,
+  auth: ApiKeyContext,
+  body: ReportRequest,
+  idempotencyKey: IdempotencyKey | null,
+  countRequest: () => Promise<boolean>
+): Promise<SubmissionResult> {
+  const validation = validateRequest(body);
+  if (!validation.valid) {
+    return {
+      status: 400,
+      body: errorBody("VALIDATION_ERROR", validation.message!, validation.field),
+    };
+  }
+
+  if (idempotencyKey) {
+    const claim = await claimIdempotencyKey(supabase, auth, idempotencyKey, body);
+
+    if (claim.kind === "replay") {
+      console.log(`Replaying idempotent response for ${idempotencyKey.key}`);
+      return { ...claim.result, replayed: true };
+    }
+    if (claim.kind === "conflict") {
+      return {
+        status: 422,
+        body: errorBody(
+          "IDEMPOTENCY_CONFLICT",
+          "This idempotency key was already used with a different request body"
+        ),
+      };
+    }
+    if (claim.kind === "in_progress") {
+      return {
+        status: 409,
+        body: errorBody(
+          "REQUEST_IN_PROGRESS",
+          "A request with this idempotency key is still being processed. Retry shortly."
+        ),
+      };
+    }
+  }
+
+  let result: SubmissionResult;
+  try {
+    result = await countRequest()
+      ? await createReport(supabase, auth, body)
+      : { status: 429, body: errorBody("RATE_LIMITED", RATE_LIMITED_MESSAGE) };
+  } catch (error) {
+    // Release the key so the partner can retry
+    if (idempotencyKey) {
+      await completeIdempotencyKey(supabase, auth, idempotencyKey, {
+        status: 500,
+        body: errorBody("INTERNAL_ERROR", "An unexpected error occurred"),
+      }).catch((releaseError) => console.error(releaseError));
+    }
+    throw error;
+  }
+
+  if (idempotencyKey) {
+    await completeIdempotencyKey(supabase, auth, idempotencyKey, result);
+  }
+
+  return result;
+}
+
+/**
+ * Create a report and its images as one unit.
+ * The request body must already have passed validateRequest.
+ *
+ * Pipeline:
+ * 1. Decode and normalise every image (metadata stripped, resized, thumbnail)
+ *    and upload it to the staging prefix. EXIF GPS/capture time is read
+ *    first and compared with the submitted location and time.
+ * 2. Look up near-duplicates of the images (warn or reject per API key)
+ * 3. Move staged images to their final api/ paths
+ * 4. Insert the report and all report_images rows in one transaction
+ *    (create_api_report database function)
+ * Any failure removes the objects written so far. Originals uploaded via
+ * signed URLs are removed once the report is committed.
+ * 5. Fill in city/country from the coordinates in the background (geocoding.ts)
+ */
+async function createReport(
+  supabase: SupabaseClient,
+  auth: ApiKeyContext,
+  body: ReportRequest
+): Promise<SubmissionResult> {
+  const sourceName = auth.sourceName;
+  const reportId = crypto.randomUUID();
+
+  // 1. Decode, validate, normalise and stage images
+  const staged: StagedImage[] = [];
+  const imageErrors: string[] = [];
+  const uploadedOriginals: string[] = [];
+
+  for (let i = 0; i < Math.min(body.images.length, MAX_IMAGES_PER_REQUEST); i++) {
+    const img = body.images[i];
+    const isPrimary = img.is_primary ?? i === 0; // First image is primary by default
+
+    try {
+      let decoded: DecodedImage;
+      if (img.upload_path) {
+        // Uploaded directly via a signed URL
+        decoded = await loadUploadedImage(supabase, img.upload_path, sourceName);
+        uploadedOriginals.push(img.upload_path);
+      } else if (img.file) {
+        decoded = await readImageFile(img.file);
+      } else {
+        decoded = decodeImage(img.data!);
+      }
+
+      const normalized = await normalizeImage(decoded);
+      staged.push(await stageImage(supabase, normalized, reportId, sourceName, i, isPrimary));
+    } catch (imgError) {
+      console.error(`Image ${i} processing error:`, imgError);
+      imageErrors.push(`Image ${i + 1}: ${(imgError as Error).message}`);
+      // Continue processing other images
+    }
+  }
+
+  // 2. Check for near-duplicates of previously submitted images
+  const duplicates = await findDuplicateImages(supabase, auth, staged);
+
+  if (duplicates.policy === "reject" && duplicates.matches.size > 0) {
+    await removeImages(supabase, staged.flatMap(objectPaths));
+    const [index, match] = [...duplicates.matches][0];
+    return {
+      status: 409,
+      body: errorBody(
+        "DUPLICATE_IMAGE",
+        `Image ${index + 1} is a near-duplicate of an image in report ${match.reportId}`
+      ),
+    };
+  }
+
+  for (const [index, match] of duplicates.matches) {
+    imageErrors.push(
+      `Image ${index + 1}: DUPLICATE_IMAGE - near-duplicate of an image in report ${match.reportId}`
+    );
+  }
+
+  // 3. Move staged images to their final location
+  const stored: StagedImage[] = [];
+  for (const image of staged) {
+    try {
+      await promoteImage(supabase, image);
+      stored.push(image);
+    } catch (moveError) {
+      console.error(`Image ${image.index} promote error:`, moveError);
+      imageErrors.push(`Image ${image.index + 1}: ${(moveError as Error).message}`);
+      await removeImages(supabase, objectPaths(image));
+    }
+  }
+
+  // Check if at least one image was stored
+  if (stored.length === 0) {
+    return {
+      status: 400,
+      body: errorBody(
+        "IMAGE_UPLOAD_FAILED",
+        "Failed to upload any images. " + imageErrors.join("; ")
+      ),
+    };
+  }
+
+  const imageUrls = stored.map((image) => publicUrlFor(supabase, image.finalPath));
+  const thumbnailUrls = stored.map((image) =>
+    image.thumbnailFinalPath ? publicUrlFor(supabase, image.thumbnailFinalPath) : null
+  );
+
+  // Fraud signal for moderators; not exposed to the partner
+  const exifMismatch = assessExifMismatch(
+    stored.map((image) => image.exif),
+    body.latitude,
+    body.longitude,
+    new Date()
+  );
+  if (exifMismatch.warnings.length > 0) {
+    console.log(`EXIF mismatch for ${reportId}: ${exifMismatch.warnings.join("; ")}`);
+  }
+
+  // 4. Commit report and image records together
+  const { error: reportError } = await supabase.rpc("create_api_report", {
+    p_report: {
+      id: reportId,
+      latitude: body.latitude,
+      longitude: body.longitude,
+      pollution_type: body.pollution_type,
+      severity: body.severity,
+      notes: body.notes || null,
+      city: body.city || null,
+      country: body.country || null,
+      pollution_counts: body.pollution_counts || {},
+      api_source: sourceName,
+      api_key_id: auth.keyId,
+      api_reference: body.source_reference || null,
+      exif_mismatch_score: exifMismatch.score,
+      exif_warnings: exifMismatch.warnings,
+    },
+    p_images: stored.map((image, i) => ({
+      storage_path: imageUrls[i],
+      thumbnail_path: thumbnailUrls[i],
+      width: image.width,
+      height: image.height,
+      // Distance only: report_images is public, the EXIF position is not
+      exif_distance_km: exifMismatch.images[i].distanceKm,
+      exif_captured_at: exifMismatch.images[i].capturedAt?.toISOString() ?? null,
+      phash: image.phash,
+      duplicate_of: duplicates.matches.get(image.index)?.imageId ?? null,
+      is_primary: image.isPrimary,
+    })),
+  });
+
+  if (reportError) {
+    console.error("Report insert error:", reportError);
+    await removeImages(supabase, stored.flatMap(objectPaths));
+    return {
+      status: 500,
+      body: errorBody("DATABASE_ERROR", "Failed to create report"),
+    };
+  }
+
+  console.log(`Created report: ${reportId}`);
+  await removeImages(supabase, uploadedOriginals);
+
+  // 5. Fill in and check the location without holding up the response
+  geocodeReportInBackground(supabase, reportId, body);
+
+  // 6. Build success response
+  const response: Record<string, unknown> = {
+    success: true,
+    data: {
+      report_id: reportId,
+      status: "pending",
+      image_count: imageUrls.length,
+      image_urls: imageUrls,
+      thumbnail_urls: thumbnailUrls,
+      created_at: new Date().toISOString(),
+    },
+  };
+
+  // Include warnings if some images failed or are duplicates
+  if (imageErrors.length > 0) {
+    response.warnings = imageErrors;
+  }
+
+  console.log(`Report ${reportId} created successfully with ${imageUrls.length} images`);
+
+  return { status: 201, body: response };
+}
@@ -0,0 +1,177 @@
+/**
+ * External Reporting API - Binary Image Uploads
+ *
+ * Two alternatives to base64 images inside JSON:
+ *
+ * 1. multipart/form-data on POST /functions/v1/submit-report
+ *    - "report": JSON string with the report fields (same as the JSON body,
+ *      "images" may be omitted)
+ *    - "images": one file part per image (repeatable), first is primary
+ *    - "primary_image": optional 0-based index of the primary image
+ *
+ * 2. Direct upload with signed URLs
+ *    a) POST /functions/v1/submit-report/uploads  { "count": 2 }
+ *       -> { "uploads": [{ "upload_path", "signed_url", "token" }, ...] }
+ *    b) PUT the image bytes to each signed_url (Content-Type: image/jpeg etc.)
+ *    c) POST /functions/v1/submit-report with
+ *       "images": [{ "upload_path": "...", "is_primary": true }]
+ *    Finalise within 2 hours of uploading; unused uploads are cleaned up
+ *    after that (cleanup-report-images).
+ */
+
+import {
+  type ApiKeyContext,
+  errorResponse,
+  jsonResponse,
+  readBodyWithLimit,
+  type SupabaseClient,
+} from "./http.ts";
+import { directUploadPrefix, REPORT_IMAGES_BUCKET } from "./images.ts";
+import {
+  type ImageData,
+  MAX_IMAGES_PER_REQUEST,
+  MAX_MULTIPART_BODY_BYTES,
+  type ReportRequest,
+  type ValidationResult,
+} from "./validation.ts";
+
+export type MultipartParseResult =
+  | { report: ReportRequest }
+  | { error: ValidationResult }
+  | { tooLarge: true }; // Body exceeds MAX_MULTIPART_BODY_BYTES
+
+// Signed upload URLs issued by Supabase Storage are valid for 2 hours
+const SIGNED_UPLOAD_EXPIRES_IN_SECONDS = 2 * 60 * 60;
+
+/**
+ * Whether the request carries a multipart/form-data body
+ */
+export function isMultipartRequest(req: Request): boolean {
+  return (req.headers.get("content-type") ?? "").startsWith("multipart/form-data");
+}
+
+/**
+ * Parse a multipart/form-data submission into a ReportRequest whose images
+ * carry the binary file parts. The body is read with a size limit before it
+ * is parsed, so an oversized upload is never buffered whole.
+ */
+export async function parseMultipartReport(
+  req: Request
+): Promise<MultipartParseResult> {
+  const body = await readBodyWithLimit(req, MAX_MULTIPART_BODY_BYTES);
+  if (body === null) {
+    return { tooLarge: true };
+  }
+
+  let form: FormData;
+  try {
+    form = await new Response(body, {
+      headers: { "content-type": req.headers.get("content-type") ?? "" },
+    }).formData();
+  } catch {
+    return { error: { valid: false, message: "Request body must be valid multipart/form-data" } };
+  }
+
+  const reportField = form.get("report");
+  if (typeof reportField !== "string") {
+    return {
+      error: {
+        valid: false,
+        message: "report field is required and must be a JSON string",
+        field: "report",
+      },
+    };
+  }
+
+  let report: ReportRequest;
+  try {
+    report = JSON.parse(reportField);
+  } catch {
+    return { error: { valid: false, message: "report field must be valid JSON", field: "report" } };
+  }
+  if (!report || typeof report !== "object" || Array.isArray(report)) {
+    return {
+      error: { valid: false, message: "report field must be a JSON object", field: "report" },
+    };
+  }
+
+  const files = form.getAll("images").filter((part): part is File => part instanceof File);
+  if (files.length === 0) {
+    return { report };
+  }
+
+  let primaryIndex = 0;
+  const primaryField = form.get("primary_image");
+  if (typeof primaryField === "string") {
+    primaryIndex = Number(primaryField);
+    if (!Number.isInteger(primaryIndex) || primaryIndex < 0 || primaryIndex >= files.length) {
+      return {
+        error: {
+          valid: false,
+          message: "primary_image must be the index of an uploaded image",
+          field: "primary_image",
+        },
+      };
+    }
+  }
+
+  const fileImages: ImageData[] = files.map((file, i) => ({
+    file,
+    is_primary: i === primaryIndex,
+  }));
+
+  // File parts are appended after any images given in the JSON report
+  report.images = [...(Array.isArray(report.images) ? report.images : []), ...fileImages];
+
+  return { report };
+}
+
+/**
+ * POST /submit-report/uploads - issue signed upload URLs in the staging area
+ */
+export async function handleUploadRequest(
+  supabase: SupabaseClient,
+  auth: ApiKeyContext,
+  body: { count?: number }
+): Promise<Response> {
+  const count = body?.count ?? 1;
+  if (!Number.isInteger(count) || count < 1 || count > MAX_IMAGES_PER_REQUEST) {
+    return errorResponse(
+      400,
+      "VALIDATION_ERROR",
+      `count must be an integer between 1 and ${MAX_IMAGES_PER_REQUEST}`,
+      "count"
+    );
+  }
+
+  const prefix = directUploadPrefix(auth.sourceName);
+  const uploads: Record<string, string>[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const uploadPath = `${prefix}${crypto.randomUUID()}`;
+    const { data, error } = await supabase.storage
+      .from(REPORT_IMAGES_BUCKET)
+      .createSignedUploadUrl(uploadPath);
+
+    if (error || !data) {
+      console.error("Signed upload URL error:", error);
+      return errorResponse(500, "STORAGE_ERROR", "Failed to create upload URL");
+    }
+
+    uploads.push({
+      upload_path: uploadPath,
+      signed_url: data.signedUrl,
+      token: data.token,
+    });
+  }
+
+  console.log(`Issued ${count} upload URL(s) for: ${auth.sourceName}`);
+
+  return jsonResponse({
+    success: true,
+    data: {
+      uploads,
+      expires_in: SIGNED_UPLOAD_EXPIRES_IN_SECONDS,
+    },
+  });
+}
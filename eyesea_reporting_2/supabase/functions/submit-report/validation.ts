@@ -0,0 +1,242 @@
+/**
+ * Request validation for the External Reporting API
+ */
+
+import { VALID_POLLUTION_TYPES } from "../_shared/pollution.ts";
+
+// Valid report status values (must match database enum)
+export const VALID_REPORT_STATUSES = [
+  "pending",
+  "verified",
+  "resolved",
+  "rejected",
+];
+
+// Configuration
+export const MAX_IMAGE_SIZE_BYTES = 5 * 1024 * 1024; // 5MB per image
+export const MAX_IMAGES_PER_REQUEST = 5;
+// JSON body of a single or batch submission: room for one report with five
+// base64 images at the maximum size. Larger batches use upload_path images.
+export const MAX_JSON_BODY_BYTES = 36 * 1024 * 1024;
+// multipart/form-data body: the image parts plus room for the report fields
+export const MAX_MULTIPART_BODY_BYTES = MAX_IMAGES_PER_REQUEST * MAX_IMAGE_SIZE_BYTES + 1024 * 1024;
+
+// TypeScript interfaces
+export interface ImageData {
+  data?: string;          // Base64 encoded image (JSON requests)
+  upload_path?: string;   // Path returned by POST /submit-report/uploads
+  file?: File;            // Binary part (multipart/form-data requests only)
+  is_primary?: boolean;
+}
+
+export interface ReportRequest {
+  api_key?: string; // Alternative to header authentication
+  latitude: number;
+  longitude: number;
+  pollution_type: string;
+  severity: number;
+  notes?: string;
+  city?: string;
+  country?: string;
+  pollution_counts?: Record<string, number>;
+  images: ImageData[];
+  source_reference?: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  message?: string;
+  field?: string;
+}
+
+/**
+ * Validate the request body
+ */
+export function validateRequest(body: ReportRequest): ValidationResult {
+  // Check latitude
+  if (body.latitude === undefined || body.latitude === null) {
+    return { valid: false, message: "latitude is required", field: "latitude" };
+  }
+  if (typeof body.latitude !== "number" || isNaN(body.latitude)) {
+    return { valid: false, message: "latitude must be a number", field: "latitude" };
+  }
+  if (body.latitude < -90 || body.latitude > 90) {
+    return {
+      valid: false,
+      message: "latitude must be between -90 and 90",
+      field: "latitude",
+    };
+  }
+
+  // Check longitude
+  if (body.longitude === undefined || body.longitude === null) {
+    return { valid: false, message: "longitude is required", field: "longitude" };
+  }
+  if (typeof body.longitude !== "number" || isNaN(body.longitude)) {
+    return { valid: false, message: "longitude must be a number", field: "longitude" };
+  }
+  if (body.longitude < -180 || body.longitude > 180) {
+    return {
+      valid: false,
+      message: "longitude must be between -180 and 180",
+      field: "longitude",
+    };
+  }
+
+  // Check pollution_type
+  if (!body.pollution_type) {
+    return {
+      valid: false,
+      message: "pollution_type is required",
+      field: "pollution_type",
+    };
+  }
+  if (!VALID_POLLUTION_TYPES.includes(body.pollution_type)) {
+    return {
+      valid: false,
+      message: `pollution_type must be one of: ${VALID_POLLUTION_TYPES.join(", ")}`,
+      field: "pollution_type",
+    };
+  }
+
+  // Check severity
+  if (body.severity === undefined || body.severity === null) {
+    return { valid: false, message: "severity is required", field: "severity" };
+  }
+  if (!Number.isInteger(body.severity) || body.severity < 1 || body.severity > 5) {
+    return {
+      valid: false,
+      message: "severity must be an integer between 1 and 5",
+      field: "severity",
+    };
+  }
+
+  // Check images
+  if (!body.images || !Array.isArray(body.images) || body.images.length === 0) {
+    return {
+      valid: false,
+      message: "at least one image is required",
+      field: "images",
+    };
+  }
+  if (body.images.length > MAX_IMAGES_PER_REQUEST) {
+    return {
+      valid: false,
+      message: `maximum ${MAX_IMAGES_PER_REQUEST} images allowed per request`,
+      field: "images",
+    };
+  }
+
+  // Validate each image has exactly one source
+  for (let i = 0; i < body.images.length; i++) {
+    const image = body.images[i];
+    if (!image || typeof image !== "object") {
+      return {
+        valid: false,
+        message: `images[${i}] must be an object`,
+        field: `images[${i}]`,
+      };
+    }
+
+    const sources = [image.data, image.upload_path, image.file].filter(
+      (source) => source !== undefined && source !== null
+    );
+    if (sources.length !== 1) {
+      return {
+        valid: false,
+        message: `images[${i}] must have exactly one of data (base64 string) or upload_path`,
+        field: `images[${i}]`,
+      };
+    }
+    if (image.data !== undefined && (typeof image.data !== "string" || !image.data)) {
+      return {
+        valid: false,
+        message: `images[${i}].data must be a base64 string`,
+        field: `images[${i}].data`,
+      };
+    }
+    if (
+      image.upload_path !== undefined &&
+      (typeof image.upload_path !== "string" || !image.upload_path)
+    ) {
+      return {
+        valid: false,
+        message: `images[${i}].upload_path must be a string`,
+        field: `images[${i}].upload_path`,
+      };
+    }
+    // Binary parts only come from multipart bodies; a JSON "file" is not one
+    if (image.file !== undefined && !(image.file instanceof File)) {
+      return {
+        valid: false,
+        message: `images[${i}].file is not supported; send data (base64) or upload_path`,
+        field: `images[${i}].file`,
+      };
+    }
+    if (image.file !== undefined && image.file.size > MAX_IMAGE_SIZE_BYTES) {
+      return {
+        valid: false,
+        message: `images[${i}] exceeds maximum size of ${MAX_IMAGE_SIZE_BYTES / 1024 / 1024}MB`,
+        field: `images[${i}]`,
+      };
+    }
+  }
+
+  // Validate pollution_counts if provided
+  if (body.pollution_counts) {
+    if (typeof body.pollution_counts !== "object") {
+      return {
+        valid: false,
+        message: "pollution_counts must be an object",
+        field: "pollution_counts",
+      };
+    }
+    for (const [key, value] of Object.entries(body.pollution_counts)) {
+      if (!VALID_POLLUTION_TYPES.includes(key)) {
+        return {
+          valid: false,
+          message: `pollution_counts key "${key}" is not a valid pollution type`,
+          field: "pollution_counts",
+        };
+      }
+      if (!Number.isInteger(value) || value < 0) {
+        return {
+          valid: false,
+          message: `pollution_counts["${key}"] must be a non-negative integer`,
+          field: "pollution_counts",
+        };
+      }
+    }
+  }
+
+  // Validate optional string fields (prevent excessively long inputs)
+  const MAX_NOTES_LENGTH = 2000;
+  const MAX_CITY_LENGTH = 100;
+  const MAX_COUNTRY_LENGTH = 100;
+
+  if (body.notes && typeof body.notes === "string" && body.notes.length > MAX_NOTES_LENGTH) {
+    return {
+      valid: false,
+      message: `notes must be ${MAX_NOTES_LENGTH} characters or less`,
+      field: "notes",
+    };
+  }
+
+  if (body.city && typeof body.city === "string" && body.city.length > MAX_CITY_LENGTH) {
+    return {
+      valid: false,
+      message: `city must be ${MAX_CITY_LENGTH} characters or less`,
+      field: "city",
+    };
+  }
+
+  if (body.country && typeof body.country === "string" && body.country.length > MAX_COUNTRY_LENGTH) {
+    return {
+      valid: false,
+      message: `country must be ${MAX_COUNTRY_LENGTH} characters or less`,
+      field: "country",
+    };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,218 @@
+/**
+ * External Reporting API - Status Webhooks
+ *
+ * Partners register a callback to hear about their reports after
+ * submission. Each call is a POST with a JSON body:
+ *
+ *   {
+ *     "event": "report.status_changed" | "report.merged" | "report.analyzed",
+ *     "occurred_at": "...",
+ *     "report_id": "...",
+ *     "api_reference": "<your source_reference>",
+ *     "status": "pending|verified|resolved|rejected",
+ *     "data": { ... }   // previous_status, duplicate_of, AI analysis
+ *   }
+ *
+ * and headers X-EyeSea-Event, X-EyeSea-Delivery (delivery ID, stable across
+ * retries) and X-EyeSea-Signature: t=<unix time>,v1=<hex HMAC-SHA256 of
+ * "<t>.<raw body>" with your webhook secret>. Answer with any 2xx; other
+ * answers and timeouts are retried with backoff.
+ *
+ * POST /functions/v1/submit-report/webhook
+ *   { "url": "https://...", "secret": "<optional, 32+ chars>" }
+ *   Register or change the callback; its host must resolve to public
+ *   addresses, and redirects are not followed. Without a secret the current one is
+ *   kept, or a new one is generated and returned once. { "url": null }
+ *   removes the callback.
+ *
+ * GET /functions/v1/submit-report/webhook?limit=&offset=
+ *   The registered callback and the delivery history, newest first.
+ */
+
+import { assertPublicUrl } from "../_shared/outbound.ts";
+import {
+  type ApiKeyContext,
+  errorResponse,
+  jsonResponse,
+  type SupabaseClient,
+} from "./http.ts";
+
+const MIN_SECRET_LENGTH = 32;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+const DELIVERY_COLUMNS = `
+  id,
+  report_id,
+  event,
+  status,
+  attempt_count,
+  last_http_status,
+  last_error,
+  next_attempt_at,
+  delivered_at,
+  created_at
+`;
+
+export interface WebhookRequest {
+  url?: string | null;
+  secret?: string;
+}
+
+/**
+ * POST /submit-report/webhook - register, change or remove the callback
+ */
+export async function handleWebhookRegistration(
+  supabase: SupabaseClient,
+  auth: ApiKeyContext,
+  body: WebhookRequest
+): Promise<Response> {
+  if (body?.url === undefined) {
+    return errorResponse(400, "VALIDATION_ERROR", "url is required (null to remove)", "url");
+  }
+
+  if (body.url === null) {
+    const { error } = await supabase
+      .from("api_keys")
+      .update({ webhook_url: null, webhook_secret: null, webhook_updated_at: new Date().toISOString() })
+      .eq("id", auth.keyId);
+
+    if (error) {
+      console.error("Webhook removal error:", error);
+      return errorResponse(500, "DATABASE_ERROR", "Failed to remove webhook");
+    }
+
+    console.log(`Webhook removed for: ${auth.sourceName}`);
+    return jsonResponse({ success: true, data: { url: null } });
+  }
+
+  if (typeof body.url !== "string") {
+    return errorResponse(400, "VALIDATION_ERROR", "url must be an https:// URL", "url");
+  }
+
+  try {
+    await assertPublicUrl(body.url);
+  } catch (error) {
+    return errorResponse(
+      400,
+      "VALIDATION_ERROR",
+      `url is not allowed: ${(error as Error).message}`,
+      "url"
+    );
+  }
+
+  if (
+    body.secret !== undefined &&
+    (typeof body.secret !== "string" || body.secret.length < MIN_SECRET_LENGTH)
+  ) {
+    return errorResponse(
+      400,
+      "VALIDATION_ERROR",
+      `secret must be a string of at least ${MIN_SECRET_LENGTH} characters`,
+      "secret"
+    );
+  }
+
+  const { data: current, error: readError } = await supabase
+    .from("api_keys")
+    .select("webhook_secret")
+    .eq("id", auth.keyId)
+    .single();
+
+  if (readError) {
+    console.error("Webhook lookup error:", readError);
+    return errorResponse(500, "DATABASE_ERROR", "Failed to register webhook");
+  }
+
+  // Only a secret we generated is returned, and only this once
+  const generated = !body.secret && !current?.webhook_secret ? generateSecret() : null;
+  const secret = body.secret ?? current?.webhook_secret ?? generated;
+
+  const updatedAt = new Date().toISOString();
+  const { error } = await supabase
+    .from("api_keys")
+    .update({ webhook_url: body.url, webhook_secret: secret, webhook_updated_at: updatedAt })
+    .eq("id", auth.keyId);
+
+  if (error) {
+    console.error("Webhook registration error:", error);
+    return errorResponse(500, "DATABASE_ERROR", "Failed to register webhook");
+  }
+
+  console.log(`Webhook registered for: ${auth.sourceName}`);
+
+  return jsonResponse({
+    success: true,
+    data: {
+      url: body.url,
+      updated_at: updatedAt,
+      ...(generated ? { secret: generated } : {}),
+    },
+  });
+}
+
+/**
+ * GET /submit-report/webhook - registered callback and delivery history
+ */
+export async function handleWebhookQuery(
+  req: Request,
+  supabase: SupabaseClient,
+  auth: ApiKeyContext
+): Promise<Response> {
+  const params = new URL(req.url).searchParams;
+
+  const limit = Number(params.get("limit") ?? DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    return errorResponse(
+      400,
+      "VALIDATION_ERROR",
+      `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+      "limit"
+    );
+  }
+
+  const offset = Number(params.get("offset") ?? 0);
+  if (!Number.isInteger(offset) || offset < 0) {
+    return errorResponse(400, "VALIDATION_ERROR", "offset must be a non-negative integer", "offset");
+  }
+
+  const { data: key, error: keyError } = await supabase
+    .from("api_keys")
+    .select("webhook_url, webhook_updated_at")
+    .eq("id", auth.keyId)
+    .single();
+
+  if (keyError) {
+    console.error("Webhook lookup error:", keyError);
+    return errorResponse(500, "DATABASE_ERROR", "Failed to fetch webhook");
+  }
+
+  const { data: deliveries, count, error } = await supabase
+    .from("partner_webhook_deliveries")
+    .select(DELIVERY_COLUMNS, { count: "exact" })
+    .eq("api_key_id", auth.keyId)
+    .order("created_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    console.error("Webhook delivery query error:", error);
+    return errorResponse(500, "DATABASE_ERROR", "Failed to fetch webhook deliveries");
+  }
+
+  return jsonResponse({
+    success: true,
+    data: {
+      url: key?.webhook_url ?? null,
+      updated_at: key?.webhook_updated_at ?? null,
+      deliveries: deliveries ?? [],
+    },
+    total: count ?? 0,
+  });
+}
+
+function generateSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes)
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
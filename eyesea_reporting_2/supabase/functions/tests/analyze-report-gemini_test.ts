@@ -0,0 +1,90 @@
+/**
+ * Gemini analyser against a fake Gemini API
+ *
+ * deno test --allow-net --allow-env supabase/functions/tests/analyze-report-gemini_test.ts
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { createGeminiAnalyzer } from '../analyze-report/gemini.ts';
+
+interface RecordedRequest {
+  path: string;
+  apiKey: string | null;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Serve generateContent with a fixed JSON answer and record each request
+ */
+async function withFakeGemini(
+  env: Record<string, string>,
+  test: (requests: RecordedRequest[]) => Promise<void>
+): Promise<void> {
+  const requests: RecordedRequest[] = [];
+  const server = Deno.serve({ port: 0, onListen() {} }, async (req) => {
+    requests.push({
+      path: new URL(req.url).pathname,
+      apiKey: req.headers.get('x-goog-api-key'),
+      body: await req.json(),
+    });
+    return Response.json({
+      candidates: [
+        {
+          content: { role: 'model', parts: [{ text: '{"is_pollution":true}' }] },
+          finishReason: 'STOP',
+          index: 0,
+        },
+      ],
+    });
+  });
+
+  const vars = {
+    GEMINI_API_KEY: 'test-key',
+    GEMINI_BASE_URL: `http://localhost:${server.addr.port}/`,
+    ...env,
+  };
+  for (const [name, value] of Object.entries(vars)) Deno.env.set(name, value);
+
+  try {
+    await test(requests);
+  } finally {
+    for (const name of [...Object.keys(vars), 'GEMINI_MODEL']) Deno.env.delete(name);
+    await server.shutdown();
+  }
+}
+
+Deno.test('gemini analyser sends the prompt and image to the default model', async () => {
+  await withFakeGemini({}, async (requests) => {
+    const analyzer = createGeminiAnalyzer();
+    const text = await analyzer.analyze(
+      { base64: 'aW1hZ2U=', mimeType: 'image/jpeg' },
+      'Describe the pollution'
+    );
+
+    assertEquals(text, '{"is_pollution":true}');
+    assertEquals(analyzer.model, 'gemini-2.5-flash');
+    assertEquals(requests.length, 1);
+    assertEquals(requests[0].path, '/v1beta/models/gemini-2.5-flash:generateContent');
+    assertEquals(requests[0].apiKey, 'test-key');
+    assertEquals(requests[0].body.contents, [
+      {
+        role: 'user',
+        parts: [
+          { text: 'Describe the pollution' },
+          { inlineData: { data: 'aW1hZ2U=', mimeType: 'image/jpeg' } },
+        ],
+      },
+    ]);
+    assertEquals(requests[0].body.generationConfig, { responseMimeType: 'application/json' });
+  });
+});
+
+Deno.test('gemini analyser uses GEMINI_MODEL when set', async () => {
+  await withFakeGemini({ GEMINI_MODEL: 'gemini-2.5-pro' }, async (requests) => {
+    const analyzer = createGeminiAnalyzer();
+    await analyzer.analyze({ base64: 'aW1hZ2U=', mimeType: 'image/png' }, 'prompt');
+
+    assertEquals(analyzer.model, 'gemini-2.5-pro');
+    assertEquals(requests[0].path, '/v1beta/models/gemini-2.5-pro:generateContent');
+  });
+});
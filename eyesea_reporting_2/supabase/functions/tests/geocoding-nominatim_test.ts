@@ -0,0 +1,46 @@
+/**
+ * Nominatim request spacing against a stubbed fetch
+ *
+ * deno test --allow-env supabase/functions/tests/geocoding-nominatim_test.ts
+ */
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { nominatimProvider } from '../_shared/geocoding/nominatim.ts';
+
+const INTERVAL_MS = 200;
+
+Deno.test('nominatim sends one request at a time, spaced by the interval', async () => {
+  const calls: { start: number; end: number }[] = [];
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = async () => {
+    const call = { start: Date.now(), end: 0 };
+    calls.push(call);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    call.end = Date.now();
+    return calls.length === 2
+      ? new Response('busy', { status: 503 })
+      : Response.json({ lat: '44.18', lon: '28.65', address: { country: 'Romania', country_code: 'ro' } });
+  };
+  Deno.env.set('NOMINATIM_USER_AGENT', 'eyesea-tests');
+  Deno.env.set('NOMINATIM_MIN_INTERVAL_MS', String(INTERVAL_MS));
+
+  try {
+    const results = await Promise.allSettled([
+      nominatimProvider.reverse(44.18, 28.65),
+      nominatimProvider.reverse(44.18, 28.65),
+      nominatimProvider.reverse(44.18, 28.65),
+    ]);
+
+    // A failed request doesn't hold up the ones behind it
+    assertEquals(results.map((result) => result.status), ['fulfilled', 'rejected', 'fulfilled']);
+    assertEquals(calls.length, 3);
+    for (let i = 1; i < calls.length; i++) {
+      assert(calls[i].start >= calls[i - 1].end, 'requests overlap');
+      assert(calls[i].start - calls[i - 1].start >= INTERVAL_MS - 5, 'requests too close');
+    }
+  } finally {
+    globalThis.fetch = realFetch;
+    Deno.env.delete('NOMINATIM_USER_AGENT');
+    Deno.env.delete('NOMINATIM_MIN_INTERVAL_MS');
+  }
+});
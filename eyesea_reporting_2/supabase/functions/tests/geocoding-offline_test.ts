@@ -0,0 +1,93 @@
+/**
+ * Offline geocoding against the bundled boundaries and places
+ *
+ * deno test --allow-env supabase/functions/tests/geocoding-offline_test.ts
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { describeMarine } from '../_shared/geocoding/marine.ts';
+import { countryAt, offlineProvider } from '../_shared/geocoding/offline.ts';
+import { reverseGeocode } from '../_shared/geocoding/providers.ts';
+
+Deno.test('offline reverse names the country and nearest city', async () => {
+  const result = await offlineProvider.reverse(44.18, 28.65);
+
+  assertEquals(result.countryCode, 'RO');
+  assertEquals(result.country, 'Romania');
+  assertEquals(result.city, 'Constanța');
+});
+
+Deno.test('offline country comes from the boundary, not the nearest place', async () => {
+  // Frankfurt is closer to Luxembourg than to any German place in the dataset
+  const frankfurt = await offlineProvider.reverse(50.11, 8.68);
+  assertEquals(frankfurt.countryCode, 'DE');
+
+  // Bloemfontein is closest to Maseru
+  const bloemfontein = await offlineProvider.reverse(-29.12, 26.21);
+  assertEquals(bloemfontein.countryCode, 'ZA');
+
+  // Lesotho is a hole in South Africa
+  const maseru = await offlineProvider.reverse(-29.31, 27.48);
+  assertEquals(maseru.countryCode, 'LS');
+
+  // Either side of the Rhine
+  assertEquals(countryAt(48.47, 7.94)?.countryCode, 'DE');
+  assertEquals(countryAt(48.58, 7.75)?.countryCode, 'FR');
+
+  // Russia crosses the antimeridian without covering Scandinavia or Alaska
+  assertEquals(countryAt(66, -175)?.countryCode, 'RU');
+  assertEquals(countryAt(65.58, 22.15)?.countryCode, 'SE');
+  assertEquals(countryAt(64, -150)?.countryCode, 'US');
+
+  // Disputed areas follow places.ts
+  assertEquals(countryAt(44.95, 34.1)?.countryCode, 'UA');
+});
+
+Deno.test('offline reverse places small islands by the bundled places', async () => {
+  const result = await offlineProvider.reverse(35.5, 12.6);
+
+  assertEquals(result.countryCode, 'IT');
+  assertEquals(result.city, 'Lampedusa');
+});
+
+Deno.test('offline reverse counts the beach as land', async () => {
+  const result = await offlineProvider.reverse(44.25, 28.63);
+
+  assertEquals(result.countryCode, 'RO');
+  assertEquals(result.city, 'Mamaia');
+});
+
+Deno.test('offline reverse finds no country or city at sea', async () => {
+  const result = await offlineProvider.reverse(43.5, 31.5);
+
+  assertEquals(result.country, null);
+  assertEquals(result.countryCode, null);
+  assertEquals(result.city, null);
+
+  const marine = describeMarine(43.5, 31.5, result);
+  assertEquals(marine.offshore, true);
+  assertEquals(marine.waterBody, 'Black Sea');
+});
+
+Deno.test('offline forward puts exact name matches first', async () => {
+  const results = await offlineProvider.forward('constanta, romania', 5);
+
+  assertEquals(results[0].city, 'Constanța');
+  assertEquals(results[0].countryCode, 'RO');
+  assertEquals(results[0].lat, 44.18);
+});
+
+Deno.test('provider chain of only offline answers offshore points without a country', async () => {
+  Deno.env.set('GEOCODE_PROVIDERS', 'offline');
+  try {
+    const land = await reverseGeocode(44.18, 28.65);
+    assertEquals(land.provider, 'offline');
+    assertEquals(land.countryCode, 'RO');
+
+    const sea = await reverseGeocode(43.5, 31.5);
+    assertEquals(sea.provider, 'offline');
+    assertEquals(sea.country, null);
+  } finally {
+    Deno.env.delete('GEOCODE_PROVIDERS');
+  }
+});
@@ -0,0 +1,134 @@
+/**
+ * Cached reverse geocoding against a fake cache and Mapbox
+ *
+ * deno test --allow-env supabase/functions/tests/geocoding-reverse_test.ts
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { SupabaseClient } from '../_shared/http.ts';
+import { type GeocodingResponse, reverseGeocodeCached } from '../_shared/geocoding/reverse.ts';
+
+/**
+ * Client with an empty location_cache that keeps the rows upserted into it
+ * and the filters of its reads
+ */
+function fakeSupabase(
+  upserted: Record<string, unknown>[],
+  filters: unknown[][] = []
+): SupabaseClient {
+  const query: Record<string, unknown> = {
+    then: (resolve: (value: unknown) => void) => resolve({ data: [], error: null }),
+    upsert: (rows: Record<string, unknown>[]) => {
+      upserted.push(...rows);
+      return Promise.resolve({ error: null });
+    },
+  };
+  for (const method of ['select', 'eq', 'in', 'or', 'gt']) {
+    query[method] = (...args: unknown[]) => {
+      filters.push([method, ...args]);
+      return query;
+    };
+  }
+
+  return {
+    from: () => query,
+    rpc: () => Promise.resolve({ error: null }),
+  } as unknown as SupabaseClient;
+}
+
+/**
+ * Run with the given provider chain; Mapbox calls get the given answer
+ */
+async function withProviders(
+  providers: string,
+  mapbox: () => Response,
+  test: () => Promise<void>
+): Promise<void> {
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = () => Promise.resolve(mapbox());
+  Deno.env.set('GEOCODE_PROVIDERS', providers);
+  Deno.env.set('MAPBOX_ACCESS_TOKEN', 'test-token');
+  try {
+    await test();
+  } finally {
+    globalThis.fetch = realFetch;
+    Deno.env.delete('GEOCODE_PROVIDERS');
+    Deno.env.delete('MAPBOX_ACCESS_TOKEN');
+  }
+}
+
+const noMapbox = () => new Response('unused', { status: 500 });
+
+Deno.test('cache is read by coordinate pairs, each distinct point once', async () => {
+  await withProviders('offline', noMapbox, async () => {
+    const filters: unknown[][] = [];
+    const points = [
+      { lat: 44.18004, lng: 28.65 },
+      { lat: 43.5, lng: 31.5 },
+      { lat: 44.18, lng: 28.65001 },
+    ];
+    await reverseGeocodeCached(fakeSupabase([], filters), points, 4);
+
+    assertEquals(
+      filters.find(([method]) => method === 'or'),
+      ['or', 'and(lat.eq.44.18,lng.eq.28.65),and(lat.eq.43.5,lng.eq.31.5)']
+    );
+    assertEquals(filters.some(([method]) => method === 'in'), false);
+  });
+});
+
+Deno.test('offshore points have no city or country and are cached', async () => {
+  await withProviders('offline', noMapbox, async () => {
+    const upserted: Record<string, unknown>[] = [];
+    const [result] = await reverseGeocodeCached(fakeSupabase(upserted), [{ lat: 43.5, lng: 31.5 }], 4);
+
+    const response = result as GeocodingResponse;
+    assertEquals(response.offshore, true);
+    assertEquals(response.waterBody, 'Black Sea');
+    assertEquals(response.city, null);
+    assertEquals(response.country, null);
+    assertEquals(response.countryCode, null);
+
+    assertEquals(upserted.length, 1);
+    assertEquals(upserted[0].offshore, true);
+    assertEquals(upserted[0].city, null);
+    assertEquals(upserted[0].provider, 'offline');
+  });
+});
+
+Deno.test('offline answers on land are not cached', async () => {
+  await withProviders('offline', noMapbox, async () => {
+    const upserted: Record<string, unknown>[] = [];
+    const [result] = await reverseGeocodeCached(fakeSupabase(upserted), [{ lat: 44.18, lng: 28.65 }], 4);
+
+    const response = result as GeocodingResponse;
+    assertEquals(response.offshore, false);
+    assertEquals(response.countryCode, 'RO');
+    assertEquals(response.city, 'Constanța');
+    assertEquals(upserted.length, 0);
+  });
+});
+
+Deno.test('an online answer without a country is not overruled offline', async () => {
+  // On the beach for the offline boundaries
+  const point = { lat: 44.25, lng: 28.63 };
+
+  await withProviders('mapbox,offline', () => Response.json({ features: [] }), async () => {
+    const upserted: Record<string, unknown>[] = [];
+    const [result] = await reverseGeocodeCached(fakeSupabase(upserted), [point], 4);
+
+    const response = result as GeocodingResponse;
+    assertEquals(response.provider, 'mapbox');
+    assertEquals(response.offshore, true);
+    assertEquals(response.country, null);
+    assertEquals(upserted[0].provider, 'mapbox');
+  });
+
+  await withProviders('mapbox,offline', () => new Response('down', { status: 503 }), async () => {
+    const [result] = await reverseGeocodeCached(fakeSupabase([]), [point], 4);
+
+    const response = result as GeocodingResponse;
+    assertEquals(response.provider, 'offline');
+    assertEquals(response.countryCode, 'RO');
+  });
+});
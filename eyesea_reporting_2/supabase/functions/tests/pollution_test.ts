@@ -0,0 +1,37 @@
+/**
+ * Mapping free-text pollution labels to the pollution type enum
+ *
+ * deno test supabase/functions/tests/pollution_test.ts
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { normalizePollutionType } from '../_shared/pollution.ts';
+
+Deno.test('enum values, aliases and "no pollution" labels', () => {
+  assertEquals(normalizePollutionType('fishing_gear'), 'fishing_gear');
+  assertEquals(normalizePollutionType('Fishing Nets'), 'fishing_gear');
+  assertEquals(normalizePollutionType('oilSlick'), 'oil');
+  assertEquals(normalizePollutionType('none'), null);
+  assertEquals(normalizePollutionType('  '), null);
+});
+
+Deno.test('keywords match whole words of the label', () => {
+  assertEquals(normalizePollutionType('abandoned_fishing_line'), 'fishing_gear');
+  assertEquals(normalizePollutionType('oil drum'), 'oil');
+  assertEquals(normalizePollutionType('plastic bottles'), 'plastic');
+  assertEquals(normalizePollutionType('Microplastics fragments'), 'plastic');
+  assertEquals(normalizePollutionType('broken_glasses'), 'debris');
+  assertEquals(normalizePollutionType('paint_cans'), 'container');
+});
+
+Deno.test('keywords inside longer words do not match', () => {
+  assertEquals(normalizePollutionType('shoreline_debris'), 'debris');
+  assertEquals(normalizePollutionType('coastline_litter'), 'debris');
+  assertEquals(normalizePollutionType('starfish'), 'other');
+  assertEquals(normalizePollutionType('pelican'), 'other');
+});
+
+Deno.test('sea foam is not plastic', () => {
+  assertEquals(normalizePollutionType('sea_foam'), 'other');
+  assertEquals(normalizePollutionType('styrofoam pieces'), 'plastic');
+});
@@ -0,0 +1,184 @@
+/**
+ * Email channel against a local SMTP sink
+ *
+ * deno test --allow-net --allow-env supabase/functions/tests/send-push-notification-email_test.ts
+ */
+
+import { assertEquals, assertRejects, assertStringIncludes } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { SupabaseClient } from '../_shared/http.ts';
+import { emailChannel } from '../send-push-notification/email.ts';
+
+interface ReceivedEmail {
+  from: string;
+  to: string[];
+  data: string;
+}
+
+const record = {
+  id: '6f1c7a52-1f0e-4d1b-9a55-2f3e4f3b9c10',
+  user_id: '0d6b2c1e-8a7f-4b3e-9d1c-5e4f3a2b1c0d',
+  type: 'report_verified',
+  title: 'Your report was verified!',
+  body: 'A moderator confirmed your pollution report. Thank you!',
+  template_key: 'report_verified',
+};
+
+const endpoint = {
+  id: 'a3d5f7b9-0c2e-4f6a-8b1d-3e5f7a9c1b2d',
+  channel: 'email' as const,
+  target: 'reporter@example.com',
+  secret: 'unused',
+};
+
+/**
+ * Client whose profiles query returns the given country
+ */
+function fakeSupabase(country: string | null): SupabaseClient {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    maybeSingle: () => Promise.resolve({ data: { country }, error: null }),
+  };
+  return { from: () => query } as unknown as SupabaseClient;
+}
+
+/**
+ * Minimal plaintext SMTP server that keeps every message it accepts.
+ * Recipients listed in refuse are answered with 550.
+ */
+async function withSmtpSink(
+  refuse: string[],
+  test: (emails: ReceivedEmail[]) => Promise<void>
+): Promise<void> {
+  const emails: ReceivedEmail[] = [];
+  const listener = Deno.listen({ hostname: '127.0.0.1', port: 0 });
+  const sessions: Promise<void>[] = [];
+
+  const accepting = (async () => {
+    for await (const conn of listener) {
+      sessions.push(serveSmtp(conn, refuse, emails));
+    }
+  })();
+
+  const vars = {
+    SMTP_HOST: '127.0.0.1',
+    SMTP_PORT: String((listener.addr as Deno.NetAddr).port),
+    SMTP_INSECURE: 'true',
+    SMTP_FROM: 'EyeSea <notifications@eyesea.app>',
+  };
+  for (const [name, value] of Object.entries(vars)) Deno.env.set(name, value);
+
+  try {
+    await test(emails);
+  } finally {
+    for (const name of Object.keys(vars)) Deno.env.delete(name);
+    listener.close();
+    await accepting.catch(() => {});
+    await Promise.allSettled(sessions);
+  }
+}
+
+async function serveSmtp(
+  conn: Deno.Conn,
+  refuse: string[],
+  emails: ReceivedEmail[]
+): Promise<void> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const reply = (line: string) => conn.write(encoder.encode(`${line}\r\n`));
+
+  let buffer = '';
+  let inData = false;
+  let email: ReceivedEmail = { from: '', to: [], data: '' };
+  const chunk = new Uint8Array(4096);
+
+  await reply('220 sink ESMTP');
+  try {
+    for (;;) {
+      const read = await conn.read(chunk);
+      if (read === null) return;
+      buffer += decoder.decode(chunk.subarray(0, read));
+
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) continue;
+        email.data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        emails.push(email);
+        email = { from: '', to: [], data: '' };
+        inData = false;
+        await reply('250 OK');
+      }
+
+      let newline: number;
+      while (!inData && (newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        const command = line.slice(0, 4).toUpperCase();
+
+        if (command === 'EHLO' || command === 'HELO') {
+          await reply('250-sink');
+          await reply('250 8BITMIME');
+        } else if (command === 'MAIL') {
+          email.from = line;
+          await reply('250 OK');
+        } else if (command === 'RCPT') {
+          const refused = refuse.some((address) => line.includes(address));
+          if (!refused) email.to.push(line);
+          await reply(refused ? '550 No such user' : '250 OK');
+        } else if (command === 'DATA') {
+          inData = true;
+          await reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (command === 'QUIT') {
+          await reply('221 Bye');
+          return;
+        } else {
+          await reply('250 OK');
+        }
+      }
+    }
+  } finally {
+    conn.close();
+  }
+}
+
+/**
+ * Message source with quoted-printable soft line breaks removed
+ */
+function unfold(data: string): string {
+  return data.replace(/=\r\n/g, '');
+}
+
+Deno.test('email notification is sent in the profile language', async () => {
+  await withSmtpSink([], async (emails) => {
+    const result = await emailChannel.send(fakeSupabase('Germany'), record, endpoint);
+
+    assertEquals(result.success, true);
+    assertEquals(emails.length, 1);
+    assertStringIncludes(emails[0].from, 'notifications@eyesea.app');
+    assertEquals(emails[0].to.length, 1);
+    assertStringIncludes(emails[0].to[0], 'reporter@example.com');
+    assertStringIncludes(unfold(emails[0].data), 'Ein Moderator hat deine Meldung best');
+  });
+});
+
+Deno.test('email confirmation carries the confirmation code', async () => {
+  await withSmtpSink([], async (emails) => {
+    const result = await emailChannel.sendConfirmation(fakeSupabase(null), {
+      ...endpoint,
+      user_id: record.user_id,
+      confirmation_code: '1a2b3c4d',
+    });
+
+    assertEquals(result.success, true);
+    assertEquals(emails.length, 1);
+    assertStringIncludes(unfold(emails[0].data), 'Your confirmation code is 1a2b3c4d.');
+  });
+});
+
+Deno.test('email refused by the server fails the send', async () => {
+  await withSmtpSink(['reporter@example.com'], async (emails) => {
+    await assertRejects(() => emailChannel.send(fakeSupabase(null), record, endpoint));
+    assertEquals(emails.length, 0);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Webhook channel against a local receiver
+ *
+ * deno test --allow-net --allow-env supabase/functions/tests/send-push-notification-webhook_test.ts
+ */
+
+import { assert, assertEquals, assertMatch } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { SupabaseClient } from '../_shared/http.ts';
+import { hmacSha256Hex } from '../_shared/signature.ts';
+import type { Endpoint } from '../send-push-notification/channels.ts';
+import { webhookChannel } from '../send-push-notification/webhook.ts';
+
+interface ReceivedRequest {
+  path: string;
+  headers: Headers;
+  body: string;
+}
+
+const supabase = {} as SupabaseClient;
+
+const record = {
+  id: '6f1c7a52-1f0e-4d1b-9a55-2f3e4f3b9c10',
+  user_id: '0d6b2c1e-8a7f-4b3e-9d1c-5e4f3a2b1c0d',
+  type: 'report_verified',
+  title: 'Your report was verified!',
+  body: 'A moderator confirmed your pollution report. Thank you!',
+  template_key: 'report_verified',
+};
+
+/**
+ * Receive webhooks on localhost, answering with the given response, with
+ * private targets allowed
+ */
+async function withReceiver(
+  respond: (req: Request) => Response,
+  test: (endpoint: Endpoint, requests: ReceivedRequest[]) => Promise<void>
+): Promise<void> {
+  const requests: ReceivedRequest[] = [];
+  const server = Deno.serve({ port: 0, onListen() {} }, async (req) => {
+    requests.push({
+      path: new URL(req.url).pathname,
+      headers: req.headers,
+      body: await req.text(),
+    });
+    return respond(req);
+  });
+
+  Deno.env.set('WEBHOOK_ALLOW_PRIVATE_TARGETS', 'true');
+  try {
+    await test(
+      {
+        id: 'a3d5f7b9-0c2e-4f6a-8b1d-3e5f7a9c1b2d',
+        channel: 'webhook',
+        target: `http://localhost:${server.addr.port}/hooks/eyesea`,
+        secret: 'test-secret',
+      },
+      requests
+    );
+  } finally {
+    Deno.env.delete('WEBHOOK_ALLOW_PRIVATE_TARGETS');
+    await server.shutdown();
+  }
+}
+
+Deno.test('webhook delivers a signed notification', async () => {
+  await withReceiver(() => new Response(null, { status: 204 }), async (endpoint, requests) => {
+    const result = await webhookChannel.send(supabase, record, endpoint);
+
+    assertEquals(result.success, true);
+    assertEquals(requests.length, 1);
+    assertEquals(requests[0].path, '/hooks/eyesea');
+    assertEquals(requests[0].headers.get('x-eyesea-event'), 'notification.report_verified');
+    assertEquals(requests[0].headers.get('x-eyesea-delivery'), record.id);
+    assertEquals(JSON.parse(requests[0].body).title, record.title);
+
+    const signature = requests[0].headers.get('x-eyesea-signature') ?? '';
+    const [, timestamp, v1] = signature.match(/^t=(\d+),v1=([0-9a-f]{64})$/) ?? [];
+    assertEquals(v1, await hmacSha256Hex('test-secret', `${timestamp}.${requests[0].body}`));
+  });
+});
+
+Deno.test('webhook confirmation carries the confirmation code', async () => {
+  await withReceiver(() => new Response('ok'), async (endpoint, requests) => {
+    const result = await webhookChannel.sendConfirmation(supabase, {
+      ...endpoint,
+      user_id: record.user_id,
+      confirmation_code: '1a2b3c4d',
+    });
+
+    assertEquals(result.success, true);
+    assertEquals(requests[0].headers.get('x-eyesea-event'), 'endpoint.confirmation');
+    assertEquals(requests[0].headers.get('x-eyesea-delivery'), endpoint.id);
+    assertEquals(JSON.parse(requests[0].body), {
+      type: 'endpoint.confirmation',
+      endpoint_id: endpoint.id,
+      confirmation_code: '1a2b3c4d',
+    });
+  });
+});
+
+Deno.test('webhook server errors are retryable, client errors are not', async () => {
+  let status = 503;
+  const respond = () => new Response('busy', { status, headers: { 'Retry-After': '120' } });
+
+  await withReceiver(respond, async (endpoint) => {
+    const unavailable = await webhookChannel.send(supabase, record, endpoint);
+    assertEquals(unavailable.success, false);
+    assertEquals(unavailable.httpStatus, 503);
+    assertEquals(unavailable.retryable, true);
+    assertEquals(unavailable.retryAfterSeconds, 120);
+
+    status = 410;
+    const gone = await webhookChannel.send(supabase, record, endpoint);
+    assertEquals(gone.success, false);
+    assertEquals(gone.retryable, false);
+  });
+});
+
+Deno.test('webhook does not follow redirects', async () => {
+  const respond = (req: Request) =>
+    new URL(req.url).pathname === '/hooks/eyesea'
+      ? Response.redirect(new URL('/internal', req.url), 307)
+      : new Response('ok');
+
+  await withReceiver(respond, async (endpoint, requests) => {
+    const result = await webhookChannel.send(supabase, record, endpoint);
+
+    assertEquals(result.success, false);
+    assertEquals(result.httpStatus, 307);
+    assertEquals(requests.map((request) => request.path), ['/hooks/eyesea']);
+  });
+});
+
+Deno.test('webhook refuses plain http and private addresses', async () => {
+  const targets = [
+    'http://example.com/hook',
+    'https://127.0.0.1/hook',
+    'https://10.1.2.3/hook',
+    'https://169.254.169.254/latest/meta-data',
+    'https://[::1]/hook',
+    'https://[::ffff:192.168.0.1]/hook',
+    'https://[fd00::1]/hook',
+  ];
+
+  for (const target of targets) {
+    const result = await webhookChannel.send(supabase, record, {
+      id: 'a3d5f7b9-0c2e-4f6a-8b1d-3e5f7a9c1b2d',
+      channel: 'webhook',
+      target,
+      secret: 'test-secret',
+    });
+
+    assertEquals(result.success, false, target);
+    assertEquals(result.retryable, false, target);
+    assert(result.error, target);
+    assertMatch(result.error, /must use https|not a public address/);
+  }
+});
@@ -0,0 +1,306 @@
+/**
+ * Near-duplicate image detection and idempotent replays of API submissions,
+ * against a fake database and storage bucket
+ *
+ * deno test --allow-env --allow-read --allow-net supabase/functions/tests/submit-report-duplicates_test.ts
+ */
+
+import { assert, assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import { Image } from 'https://deno.land/x/imagescript@1.2.17/mod.ts';
+import { findDuplicateImages } from '../submit-report/duplicates.ts';
+import type { ApiKeyContext, SupabaseClient } from '../submit-report/http.ts';
+import type { StagedImage } from '../submit-report/images.ts';
+import { perceptualHash } from '../submit-report/phash.ts';
+import { submitReport } from '../submit-report/submission.ts';
+import type { ReportRequest } from '../submit-report/validation.ts';
+
+type Row = Record<string, unknown>;
+
+interface FakeDb {
+  tables: Record<string, Row[]>;
+  rpcs: Record<string, (params: Row) => { data?: unknown; error?: { message: string } | null }>;
+  rpcCalls: [string, Row][];
+  objects: Set<string>;
+}
+
+function fakeDb(rpcs: FakeDb['rpcs'] = {}, tables: FakeDb['tables'] = {}): FakeDb {
+  return { tables: { api_idempotency_keys: [], ...tables }, rpcs, rpcCalls: [], objects: new Set() };
+}
+
+/**
+ * Client over the fake tables (api_idempotency_keys unique on
+ * api_source + idempotency_key), RPC handlers and bucket. Tables without
+ * rows read as empty, RPCs without a handler succeed with no data.
+ */
+function fakeSupabase(db: FakeDb): SupabaseClient {
+  const from = (name: string) => {
+    const rows = () => (db.tables[name] ??= []);
+    let op = 'select';
+    let values: Row = {};
+    let returning = false;
+    const filters: [string, unknown][] = [];
+    const matching = () => rows().filter((row) => filters.every(([column, value]) => row[column] === value));
+
+    const run = (single: boolean) => {
+      if (op === 'insert') {
+        const taken = name === 'api_idempotency_keys' && rows().some((row) =>
+          row.api_source === values.api_source && row.idempotency_key === values.idempotency_key
+        );
+        if (taken) return { error: { code: '23505', message: 'duplicate key value' } };
+        rows().push({ response_status: null, response_body: null, created_at: new Date().toISOString(), ...values });
+        return { error: null };
+      }
+      if (op === 'update') matching().forEach((row) => Object.assign(row, values));
+      if (op === 'delete') db.tables[name] = rows().filter((row) => !matching().includes(row));
+      if (op !== 'select') return { data: returning ? matching() : null, error: null };
+
+      const found = matching().map((row) => ({ ...row }));
+      if (!single) return { data: found, error: null };
+      return found[0] ? { data: found[0], error: null } : { data: null, error: { message: 'no rows' } };
+    };
+
+    const query: Record<string, unknown> = {
+      insert: (row: Row) => {
+        op = 'insert';
+        values = row;
+        return Promise.resolve(run(false));
+      },
+      upsert: () => Promise.resolve({ error: null }),
+      update: (row: Row) => {
+        op = 'update';
+        values = row;
+        return query;
+      },
+      delete: () => {
+        op = 'delete';
+        return query;
+      },
+      select: () => {
+        returning = op !== 'select';
+        return query;
+      },
+      eq: (column: string, value: unknown) => {
+        filters.push([column, value]);
+        return query;
+      },
+      single: () => Promise.resolve(run(true)),
+      maybeSingle: () => Promise.resolve({ ...run(true), error: null }),
+      then: (resolve: (value: unknown) => void) => resolve(run(false)),
+    };
+    for (const method of ['in', 'or', 'gt', 'order', 'limit']) {
+      query[method] = () => query;
+    }
+    return query;
+  };
+
+  const bucket = {
+    upload: (path: string) => {
+      db.objects.add(path);
+      return Promise.resolve({ error: null });
+    },
+    move: (source: string, target: string) => {
+      db.objects.delete(source);
+      db.objects.add(target);
+      return Promise.resolve({ error: null });
+    },
+    remove: (paths: string[]) => {
+      paths.forEach((path) => db.objects.delete(path));
+      return Promise.resolve({ error: null });
+    },
+    getPublicUrl: (path: string) => ({ data: { publicUrl: `https://storage.test/${path}` } }),
+  };
+
+  return {
+    from,
+    rpc: (fn: string, params: Row) => {
+      db.rpcCalls.push([fn, params]);
+      return Promise.resolve({ data: null, error: null, ...db.rpcs[fn]?.(params) });
+    },
+    storage: { from: () => bucket },
+  } as unknown as SupabaseClient;
+}
+
+/**
+ * find_similar_report_images over the given stored hashes, as the SQL
+ * function does it: NULL hashes skipped, closest match per hash
+ */
+function similarImages(stored: { id: string; reportId: string; phash: string }[]) {
+  return (params: Row) => {
+    const data = (params.p_hashes as (string | null)[]).flatMap((hash, index) => {
+      if (hash === null) return [];
+      const [closest] = stored
+        .map((image) => ({ ...image, distance: hammingDistance(hash, image.phash) }))
+        .filter((image) => image.distance <= (params.p_max_distance as number))
+        .sort((a, b) => a.distance - b.distance);
+      return closest
+        ? [{ hash_index: index, image_id: closest.id, report_id: closest.reportId, distance: closest.distance }]
+        : [];
+    });
+    return { data };
+  };
+}
+
+function hammingDistance(a: string, b: string): number {
+  let bits = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  for (; bits > 0n; bits >>= 1n) count += Number(bits & 1n);
+  return count;
+}
+
+/**
+ * A photo-like test image: a diagonal gradient with a dark block whose
+ * position sets it apart from other variants
+ */
+function testImage(width: number, height: number, blockLeft: boolean): Image {
+  const image = new Image(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inBlock = y > height / 4 && y < height / 2 &&
+        (blockLeft ? x < width / 3 : x > (2 * width) / 3);
+      const shade = inBlock ? 20 : Math.round((255 * (x + y)) / (width + height));
+      const i = (y * width + x) * 4;
+      image.bitmap.set([shade, 255 - shade, 128, 255], i);
+    }
+  }
+  return image;
+}
+
+async function base64Jpeg(image: Image, quality: number): Promise<string> {
+  let binary = '';
+  for (const byte of await image.encodeJPEG(quality)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+const auth: ApiKeyContext = { keyId: 'key-1', sourceName: 'partner' };
+
+const staged = (index: number, phash: string | null) => ({ index, phash } as StagedImage);
+
+const report = (images: string[]): ReportRequest => ({
+  latitude: 44.18,
+  longitude: 28.65,
+  pollution_type: 'plastic',
+  severity: 3,
+  images: images.map((data) => ({ data })),
+});
+
+const allowed = () => Promise.resolve(true);
+
+// Reports are geocoded in the background after they are created; keep that offline
+Deno.env.set('GEOCODE_PROVIDERS', 'offline');
+
+Deno.test('hashes survive re-encoding and resizing but tell different images apart', async () => {
+  const original = testImage(400, 300, true);
+  const reencoded = await Image.decode(await original.encodeJPEG(50));
+  const smaller = original.clone().resize(200, 150);
+  const other = testImage(400, 300, false);
+
+  const hash = perceptualHash(original);
+  assertEquals(hash.length, 16);
+  assert(hammingDistance(hash, perceptualHash(reencoded)) <= 6);
+  assert(hammingDistance(hash, perceptualHash(smaller)) <= 6);
+  assert(hammingDistance(hash, perceptualHash(other)) > 6);
+});
+
+Deno.test('matches are keyed by image index, skipping images without a hash', async () => {
+  const db = fakeDb({
+    find_similar_report_images: () => ({
+      data: [{ hash_index: 2, image_id: 'img-9', report_id: 'report-9', distance: 3 }],
+    }),
+  }, { api_keys: [{ id: 'key-1', duplicate_image_policy: 'warn', duplicate_image_max_distance: 4 }] });
+
+  // Image 1 failed to process; image 3 is a WebP without a hash
+  const check = await findDuplicateImages(fakeSupabase(db), auth, [
+    staged(0, 'ffff000000000000'),
+    staged(2, null),
+    staged(3, '0000ffff00000000'),
+  ]);
+
+  assertEquals(db.rpcCalls, [[
+    'find_similar_report_images',
+    { p_hashes: ['ffff000000000000', null, '0000ffff00000000'], p_max_distance: 4 },
+  ]]);
+  assertEquals(check.policy, 'warn');
+  assertEquals([...check.matches], [[3, { imageId: 'img-9', reportId: 'report-9', distance: 3 }]]);
+});
+
+Deno.test('no lookup when the policy is off or no image has a hash', async () => {
+  const off = fakeDb({}, { api_keys: [{ id: 'key-1', duplicate_image_policy: 'off' }] });
+  assertEquals((await findDuplicateImages(fakeSupabase(off), auth, [staged(0, 'ffff000000000000')])).policy, 'off');
+  assertEquals(off.rpcCalls, []);
+
+  const webpOnly = fakeDb();
+  const check = await findDuplicateImages(fakeSupabase(webpOnly), auth, [staged(0, null)]);
+  assertEquals(check.matches.size, 0);
+  assertEquals(webpOnly.rpcCalls, []);
+});
+
+Deno.test('lookup failures never block a submission', async () => {
+  // Unknown key settings fall back to warn within distance 6
+  const db = fakeDb({ find_similar_report_images: () => ({ error: { message: 'timeout' } }) });
+  const check = await findDuplicateImages(fakeSupabase(db), auth, [staged(0, 'ffff000000000000')]);
+
+  assertEquals(check.policy, 'warn');
+  assertEquals(check.matches.size, 0);
+  assertEquals(db.rpcCalls[0][1].p_max_distance, 6);
+});
+
+Deno.test('a re-encoded earlier photo is stored with a DUPLICATE_IMAGE warning', async () => {
+  const stored = { id: 'img-1', reportId: 'report-1', phash: perceptualHash(testImage(400, 300, true)) };
+  const db = fakeDb(
+    { find_similar_report_images: similarImages([stored]) },
+    { api_keys: [{ id: 'key-1', duplicate_image_policy: 'warn', duplicate_image_max_distance: 6 }] }
+  );
+
+  const result = await submitReport(fakeSupabase(db), auth, report([
+    await base64Jpeg(testImage(400, 300, false), 85),
+    await base64Jpeg(testImage(320, 240, true), 60),
+  ]), null, allowed);
+
+  assertEquals(result.status, 201);
+  assertEquals(result.body.warnings, [
+    'Image 2: DUPLICATE_IMAGE - near-duplicate of an image in report report-1',
+  ]);
+
+  const [, params] = db.rpcCalls.find(([fn]) => fn === 'create_api_report')!;
+  const images = params.p_images as Row[];
+  assertEquals(images.map((image) => image.duplicate_of), [null, 'img-1']);
+  assertEquals(images.every((image) => typeof image.phash === 'string'), true);
+});
+
+Deno.test('with the reject policy a duplicate refuses the report and removes its staged images', async () => {
+  const stored = { id: 'img-1', reportId: 'report-1', phash: perceptualHash(testImage(400, 300, true)) };
+  const db = fakeDb(
+    { find_similar_report_images: similarImages([stored]) },
+    { api_keys: [{ id: 'key-1', duplicate_image_policy: 'reject', duplicate_image_max_distance: 6 }] }
+  );
+
+  const result = await submitReport(
+    fakeSupabase(db),
+    auth,
+    report([await base64Jpeg(testImage(400, 300, true), 70)]),
+    null,
+    allowed
+  );
+
+  assertEquals(result.status, 409);
+  assertEquals((result.body.error as Row).code, 'DUPLICATE_IMAGE');
+  assertEquals(db.rpcCalls.some(([fn]) => fn === 'create_api_report'), false);
+  assertEquals(db.objects.size, 0);
+});
+
+Deno.test('a retried submission is replayed without creating or counting it again', async () => {
+  const db = fakeDb();
+  const supabase = fakeSupabase(db);
+  const body = report([await base64Jpeg(testImage(400, 300, true), 85)]);
+  const key = { key: 'header:retry-1', fromHeader: true };
+  let counted = 0;
+  const count = () => Promise.resolve(++counted > 0);
+
+  const first = await submitReport(supabase, auth, body, key, count);
+  assertEquals(first.status, 201);
+
+  const replay = await submitReport(supabase, auth, body, key, count);
+  assertEquals(replay, { ...first, replayed: true });
+  assertEquals(counted, 1);
+  assertEquals(db.rpcCalls.filter(([fn]) => fn === 'create_api_report').length, 1);
+});
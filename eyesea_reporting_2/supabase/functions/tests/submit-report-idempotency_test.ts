@@ -0,0 +1,222 @@
+/**
+ * Idempotent submissions against a fake api_idempotency_keys table
+ *
+ * deno test supabase/functions/tests/submit-report-idempotency_test.ts
+ */
+
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts';
+import type { ApiKeyContext, SupabaseClient } from '../submit-report/http.ts';
+import {
+  claimIdempotencyKey,
+  completeIdempotencyKey,
+  type IdempotencyKey,
+  resolveIdempotencyKey,
+} from '../submit-report/idempotency.ts';
+import type { ReportRequest } from '../submit-report/validation.ts';
+
+type Row = Record<string, unknown>;
+
+interface FakeTable {
+  rows: Row[];
+  // Called with the row a select returned, e.g. to change it behind the caller's back
+  afterRead?: (row: Row) => void;
+  // Errors returned by the next writes (update or delete), in order
+  writeErrors?: { message: string }[];
+}
+
+/**
+ * Client whose api_idempotency_keys table is `table.rows`, unique on
+ * (api_source, idempotency_key)
+ */
+function fakeSupabase(table: FakeTable): SupabaseClient {
+  return {
+    from: () => {
+      let op = 'select';
+      let values: Row = {};
+      let returning = false;
+      const filters: [string, unknown][] = [];
+      const matching = () => table.rows.filter((row) => filters.every(([column, value]) => row[column] === value));
+
+      const run = () => {
+        if (op === 'insert') {
+          const taken = table.rows.some((row) =>
+            row.api_source === values.api_source && row.idempotency_key === values.idempotency_key
+          );
+          if (taken) return { error: { code: '23505', message: 'duplicate key value' } };
+          table.rows.push({ response_status: null, response_body: null, created_at: new Date().toISOString(), ...values });
+          return { error: null };
+        }
+        if (op === 'select') {
+          const row = matching()[0];
+          if (!row) return { data: null, error: { message: 'no rows' } };
+          const copy = { ...row };
+          table.afterRead?.(row);
+          return { data: copy, error: null };
+        }
+
+        const error = table.writeErrors?.shift();
+        if (error) return { data: null, error };
+        const rows = matching();
+        if (op === 'update') rows.forEach((row) => Object.assign(row, values));
+        if (op === 'delete') table.rows = table.rows.filter((row) => !rows.includes(row));
+        return { data: returning ? rows.map(() => ({ id: 'row' })) : null, error: null };
+      };
+
+      const query: Record<string, unknown> = {
+        insert: (row: Row) => {
+          op = 'insert';
+          values = row;
+          return Promise.resolve(run());
+        },
+        update: (row: Row) => {
+          op = 'update';
+          values = row;
+          return query;
+        },
+        delete: () => {
+          op = 'delete';
+          return query;
+        },
+        select: () => {
+          returning = op !== 'select';
+          return query;
+        },
+        eq: (column: string, value: unknown) => {
+          filters.push([column, value]);
+          return query;
+        },
+        single: () => Promise.resolve(run()),
+        then: (resolve: (value: unknown) => void) => resolve(run()),
+      };
+      return query;
+    },
+  } as unknown as SupabaseClient;
+}
+
+const auth: ApiKeyContext = { keyId: 'key-1', sourceName: 'partner' };
+const key: IdempotencyKey = { key: 'header:abc', fromHeader: true };
+
+const report = (notes: string) => ({
+  latitude: 44.18,
+  longitude: 28.65,
+  pollution_type: 'plastic',
+  notes,
+  images: ['aGVsbG8='],
+} as unknown as ReportRequest);
+
+const created = {
+  status: 201,
+  body: { success: true, data: { report_id: 'report-1' } },
+};
+
+Deno.test('resolves the header key, else source_reference', () => {
+  assertEquals(resolveIdempotencyKey(' abc ', report('x')), { key: 'header:abc', fromHeader: true });
+  assertEquals(
+    resolveIdempotencyKey(null, { ...report('x'), source_reference: 'ref-7' }),
+    { key: 'source_reference:ref-7', fromHeader: false }
+  );
+  assertEquals(resolveIdempotencyKey(null, report('x')), null);
+  assertEquals(typeof resolveIdempotencyKey('  ', report('x')), 'string');
+  assertEquals(typeof resolveIdempotencyKey('k'.repeat(256), report('x')), 'string');
+});
+
+Deno.test('a retry replays the stored 201 instead of creating the report again', async () => {
+  const table: FakeTable = { rows: [] };
+  const supabase = fakeSupabase(table);
+
+  assertEquals((await claimIdempotencyKey(supabase, auth, key, report('a'))).kind, 'claimed');
+  assertEquals((await claimIdempotencyKey(supabase, auth, key, report('a'))).kind, 'in_progress');
+
+  await completeIdempotencyKey(supabase, auth, key, created);
+
+  // api_key is not part of the request hash
+  const retry = await claimIdempotencyKey(supabase, auth, key, { ...report('a'), api_key: 'other' });
+  assertEquals(retry, { kind: 'replay', result: created });
+  assertEquals(table.rows[0].report_id, 'report-1');
+});
+
+Deno.test('the same key with a different body is a conflict', async () => {
+  const supabase = fakeSupabase({ rows: [] });
+
+  await claimIdempotencyKey(supabase, auth, key, report('a'));
+  await completeIdempotencyKey(supabase, auth, key, created);
+
+  assertEquals(await claimIdempotencyKey(supabase, auth, key, report('b')), { kind: 'conflict' });
+});
+
+Deno.test('keys are scoped to the API source', async () => {
+  const supabase = fakeSupabase({ rows: [] });
+
+  await claimIdempotencyKey(supabase, auth, key, report('a'));
+  const other = await claimIdempotencyKey(supabase, { keyId: 'key-2', sourceName: 'other' }, key, report('b'));
+  assertEquals(other.kind, 'claimed');
+});
+
+Deno.test('a failed submission releases the key for a retry', async () => {
+  const table: FakeTable = { rows: [] };
+  const supabase = fakeSupabase(table);
+
+  await claimIdempotencyKey(supabase, auth, key, report('a'));
+  await completeIdempotencyKey(supabase, auth, key, { status: 400, body: { success: false } });
+
+  assertEquals(table.rows.length, 0);
+  assertEquals((await claimIdempotencyKey(supabase, auth, key, report('b'))).kind, 'claimed');
+});
+
+Deno.test('an expired header key is claimed again, even with another body', async () => {
+  const table: FakeTable = { rows: [] };
+  const supabase = fakeSupabase(table);
+
+  await claimIdempotencyKey(supabase, auth, key, report('a'));
+  await completeIdempotencyKey(supabase, auth, key, created);
+  table.rows[0].expires_at = new Date(Date.now() - 1000).toISOString();
+
+  assertEquals((await claimIdempotencyKey(supabase, auth, key, report('b'))).kind, 'claimed');
+  assertEquals(table.rows[0].response_status, null);
+  assertEquals(table.rows[0].report_id, null);
+});
+
+Deno.test('an abandoned claim is reclaimed by one retry only', async () => {
+  const table: FakeTable = { rows: [] };
+  const supabase = fakeSupabase(table);
+
+  await claimIdempotencyKey(supabase, auth, key, report('a'));
+  const abandonedAt = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+  table.rows[0].created_at = abandonedAt;
+
+  assertEquals((await claimIdempotencyKey(supabase, auth, key, report('a'))).kind, 'claimed');
+
+  // Another retry reclaims it between our read and our update
+  table.rows[0].created_at = abandonedAt;
+  table.afterRead = (row) => {
+    row.created_at = new Date().toISOString();
+  };
+  assertEquals((await claimIdempotencyKey(supabase, auth, key, report('a'))).kind, 'in_progress');
+});
+
+Deno.test('a recent claim without a response is in progress, not abandoned', async () => {
+  const table: FakeTable = { rows: [] };
+  const supabase = fakeSupabase(table);
+
+  await claimIdempotencyKey(supabase, auth, key, report('a'));
+  table.rows[0].created_at = new Date(Date.now() - 60 * 1000).toISOString();
+
+  assertEquals((await claimIdempotencyKey(supabase, auth, key, report('a'))).kind, 'in_progress');
+});
+
+Deno.test('storing the response is retried, then fails loudly', async () => {
+  const table: FakeTable = { rows: [] };
+  const supabase = fakeSupabase(table);
+  await claimIdempotencyKey(supabase, auth, key, report('a'));
+
+  table.writeErrors = [{ message: 'timeout' }];
+  await completeIdempotencyKey(supabase, auth, key, created);
+  assertEquals(table.rows[0].response_status, 201);
+
+  table.writeErrors = [{ message: 'timeout' }, { message: 'timeout' }, { message: 'timeout' }];
+  await assertRejects(
+    () => completeIdempotencyKey(supabase, auth, key, created),
+    Error,
+    'Failed to store idempotent response for header:abc'
+  );
+});
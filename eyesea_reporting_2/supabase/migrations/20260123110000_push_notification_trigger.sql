@@ -32,7 +32,8 @@
 --    - Events: INSERT
 --    - Type: Supabase Edge Functions
 --    - Function: send-push-notification
---    - HTTP Headers: (none needed, service role is automatic)
+--    - HTTP Headers: "Add auth header with service key" (the function
+--      rejects calls without the service role key)
 -- 4. Save
 --
 -- ### 4. Configure Firebase in Flutter App
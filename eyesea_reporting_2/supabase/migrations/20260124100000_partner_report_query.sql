@@ -0,0 +1,126 @@
+-- Migration: Read/query API for external partners
+-- Backs the GET endpoints of the submit-report Edge Function
+
+-- =============================================================================
+-- 1. Index for keyset pagination (per source, newest first, id as tie-breaker)
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_reports_api_source_reported_at_id
+  ON reports(api_source, reported_at DESC, id DESC) WHERE api_source IS NOT NULL;
+
+-- Partners look up their own reports by (api_source, api_reference)
+CREATE INDEX IF NOT EXISTS idx_reports_api_reference
+  ON reports(api_source, api_reference) WHERE api_reference IS NOT NULL;
+
+-- =============================================================================
+-- 2. Function to Fetch/List Reports (Called by Edge Function)
+-- Only reports submitted by p_api_source (the caller) are returned; without
+-- it nothing matches.
+-- Single lookup: pass p_report_id or p_api_reference
+-- Listing: any combination of the filters, paginated with a
+-- (reported_at, id) cursor taken from the last row of the previous page
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION get_api_reports(
+  p_report_id UUID DEFAULT NULL,
+  p_api_source TEXT DEFAULT NULL,
+  p_api_reference TEXT DEFAULT NULL,
+  p_min_lng DOUBLE PRECISION DEFAULT NULL,
+  p_min_lat DOUBLE PRECISION DEFAULT NULL,
+  p_max_lng DOUBLE PRECISION DEFAULT NULL,
+  p_max_lat DOUBLE PRECISION DEFAULT NULL,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_pollution_type TEXT DEFAULT NULL,
+  p_status TEXT DEFAULT NULL,
+  p_cursor_reported_at TIMESTAMPTZ DEFAULT NULL,
+  p_cursor_id UUID DEFAULT NULL,
+  p_limit INT DEFAULT 50
+)
+RETURNS TABLE(
+  id UUID,
+  api_source TEXT,
+  api_reference TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  pollution_type TEXT,
+  severity INT,
+  status TEXT,
+  notes TEXT,
+  city TEXT,
+  country TEXT,
+  pollution_counts JSONB,
+  image_urls TEXT[],
+  reported_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  verified_at TIMESTAMPTZ,
+  resolved_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    r.id,
+    r.api_source,
+    r.api_reference,
+    ST_Y(r.location::geometry) AS latitude,
+    ST_X(r.location::geometry) AS longitude,
+    r.pollution_type::text,
+    r.severity,
+    r.status::text,
+    r.notes,
+    r.city,
+    r.country,
+    COALESCE(r.pollution_counts, '{}'::jsonb),
+    COALESCE(
+      (SELECT array_agg(ri.storage_path ORDER BY ri.is_primary DESC, ri.created_at)
+       FROM report_images ri
+       WHERE ri.report_id = r.id),
+      ARRAY[]::text[]
+    ) AS image_urls,
+    r.reported_at,
+    COALESCE(r.updated_at, r.reported_at) AS updated_at,
+    r.verified_at,
+    r.resolved_at
+  FROM reports r
+  WHERE r.api_source = p_api_source
+    AND (p_report_id IS NULL OR r.id = p_report_id)
+    AND (p_api_reference IS NULL OR r.api_reference = p_api_reference)
+    AND (
+      p_min_lng IS NULL OR (
+        r.location IS NOT NULL AND ST_Intersects(
+          r.location,
+          ST_MakeEnvelope(p_min_lng, p_min_lat, p_max_lng, p_max_lat, 4326)::geography
+        )
+      )
+    )
+    AND (p_from IS NULL OR r.reported_at >= p_from)
+    AND (p_to IS NULL OR r.reported_at <= p_to)
+    AND (p_pollution_type IS NULL OR r.pollution_type::text = p_pollution_type)
+    AND (p_status IS NULL OR r.status::text = p_status)
+    -- Keyset pagination: strictly after the cursor row
+    AND (
+      p_cursor_reported_at IS NULL
+      OR (r.reported_at, r.id) < (p_cursor_reported_at, p_cursor_id)
+    )
+  ORDER BY r.reported_at DESC, r.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 101);
+$$;
+
+-- =============================================================================
+-- 3. Grant Permissions
+-- =============================================================================
+
+-- Edge Function uses the service role key; not exposed to app clients
+REVOKE EXECUTE ON FUNCTION get_api_reports(
+  UUID, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT, TIMESTAMPTZ, UUID, INT
+) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_api_reports(
+  UUID, TEXT, TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION,
+  TIMESTAMPTZ, TIMESTAMPTZ, TEXT, TEXT, TIMESTAMPTZ, UUID, INT
+) TO service_role;
+
+COMMENT ON FUNCTION get_api_reports IS 'Fetch or list the reports of one API source for the external read API (used by Edge Function)';
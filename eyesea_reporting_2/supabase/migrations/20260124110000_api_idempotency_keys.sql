@@ -0,0 +1,108 @@
+-- Migration: Idempotent report submission for the External Reporting API
+-- Partner retries (Idempotency-Key header or repeated source_reference)
+-- replay the original response instead of creating duplicate reports
+
+-- =============================================================================
+-- 1. Idempotency Keys Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.api_idempotency_keys (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  api_source TEXT NOT NULL,              -- API key name (matches reports.api_source)
+  idempotency_key TEXT NOT NULL,         -- "header:<key>" or "source_reference:<ref>"
+  request_hash TEXT NOT NULL,            -- SHA-256 of the canonical request body
+  report_id UUID REFERENCES reports(id) ON DELETE CASCADE,
+  response_status INT,                   -- NULL while the request is in progress
+  response_body JSONB,                   -- Original response, replayed on retry
+  created_at TIMESTAMPTZ DEFAULT now(),
+  expires_at TIMESTAMPTZ,                -- NULL = never expires (source_reference keys)
+
+  CONSTRAINT unique_api_idempotency_key UNIQUE (api_source, idempotency_key)
+);
+
+-- Index for cleanup of expired keys
+CREATE INDEX IF NOT EXISTS idx_api_idempotency_keys_expires
+  ON api_idempotency_keys(expires_at) WHERE expires_at IS NOT NULL;
+
+-- =============================================================================
+-- 2. Row Level Security
+-- Only the Edge Function (service role) reads and writes idempotency keys
+-- =============================================================================
+
+ALTER TABLE api_idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON api_idempotency_keys TO service_role;
+
+-- =============================================================================
+-- 3. Cleanup Function (run via cron)
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION cleanup_expired_idempotency_keys()
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  deleted_count int;
+BEGIN
+  DELETE FROM api_idempotency_keys
+  WHERE expires_at IS NOT NULL AND expires_at < now();
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$;
+
+COMMENT ON TABLE api_idempotency_keys IS 'Idempotency keys for External Reporting API submissions';
+COMMENT ON FUNCTION cleanup_expired_idempotency_keys() IS
+  'Deletes expired Idempotency-Key header entries. Call periodically via cron or pg_cron.';
+
+-- =============================================================================
+-- 4. Rate Limiting After the Idempotency Check
+-- Submissions identify the key first, replay stored responses for free, and
+-- only count the request once it will create a report
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION identify_api_key(p_key TEXT)
+RETURNS TABLE(is_valid BOOLEAN, key_id UUID, key_name TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT true, k.id, k.name
+  FROM api_keys k
+  WHERE k.key_hash = encode(sha256(p_key::bytea), 'hex')
+    AND k.is_active = true
+    AND (k.expires_at IS NULL OR k.expires_at > now())
+  UNION ALL
+  SELECT false, NULL::UUID, NULL::TEXT
+  LIMIT 1;
+$$;
+
+-- Returns false (and counts nothing) when the daily limit is reached
+CREATE OR REPLACE FUNCTION count_api_request(p_key_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE api_keys SET
+    requests_today = CASE WHEN requests_reset_at < CURRENT_DATE THEN 1 ELSE requests_today + 1 END,
+    requests_reset_at = CURRENT_DATE,
+    total_requests = total_requests + 1
+  WHERE id = p_key_id
+    AND (requests_reset_at < CURRENT_DATE OR requests_today < rate_limit_per_day);
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION identify_api_key(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION identify_api_key(TEXT) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION count_api_request(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION count_api_request(UUID) TO service_role;
+
+COMMENT ON FUNCTION identify_api_key IS 'Validate an API key without counting the request (used by Edge Function)';
+COMMENT ON FUNCTION count_api_request IS 'Count a request against the daily rate limit; false when the limit is reached (used by Edge Function)';
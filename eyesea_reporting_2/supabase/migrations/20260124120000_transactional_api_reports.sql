@@ -0,0 +1,130 @@
+-- Migration: Transactional report + image creation for the External Reporting API
+--
+-- The submit-report Edge Function now uploads images to staging/ first, moves
+-- them to api/ once all uploads are done, and then creates the report and all
+-- of its report_images rows in a single transaction (create_api_report).
+-- Objects left behind by failed or interrupted submissions are found by
+-- find_orphaned_report_images and removed by the cleanup-report-images
+-- Edge Function.
+
+-- =============================================================================
+-- 1. Function to Create Report + Images Atomically (Called by Edge Function)
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION create_api_report(
+  p_report JSONB,  -- {id, latitude, longitude, pollution_type, severity, notes,
+                   --  city, country, pollution_counts, api_source, api_reference}
+  p_images JSONB   -- [{storage_path, is_primary}, ...]
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report_id UUID;
+BEGIN
+  IF p_images IS NULL OR jsonb_typeof(p_images) <> 'array' OR jsonb_array_length(p_images) = 0 THEN
+    RAISE EXCEPTION 'At least one image is required';
+  END IF;
+
+  INSERT INTO reports (
+    id,
+    user_id,
+    location,
+    pollution_type,
+    severity,
+    notes,
+    city,
+    country,
+    pollution_counts,
+    status,
+    is_anonymous,
+    api_source,
+    api_reference
+  )
+  VALUES (
+    COALESCE((p_report->>'id')::uuid, gen_random_uuid()),
+    NULL, -- API submissions don't have an authenticated user
+    ST_SetSRID(
+      ST_MakePoint((p_report->>'longitude')::float8, (p_report->>'latitude')::float8),
+      4326
+    )::geography,
+    (p_report->>'pollution_type')::pollution_type,
+    (p_report->>'severity')::int,
+    p_report->>'notes',
+    p_report->>'city',
+    p_report->>'country',
+    COALESCE(p_report->'pollution_counts', '{}'::jsonb),
+    'pending',
+    true,
+    p_report->>'api_source',
+    p_report->>'api_reference'
+  )
+  RETURNING id INTO v_report_id;
+
+  INSERT INTO report_images (report_id, storage_path, is_primary)
+  SELECT
+    v_report_id,
+    img->>'storage_path',
+    COALESCE((img->>'is_primary')::boolean, false)
+  FROM jsonb_array_elements(p_images) AS img;
+
+  RETURN v_report_id;
+END;
+$$;
+
+-- =============================================================================
+-- 2. Function to Find Orphaned Objects in report-images (Called by Edge Function)
+-- - Anything under staging/ older than p_min_age
+-- - Anything under api/ older than p_min_age with no report_images row
+-- p_public_url_prefix is the bucket's public URL prefix, since
+-- report_images.storage_path stores public URLs
+-- =============================================================================
+
+-- Exact-match lookups from storage object to image record
+CREATE INDEX IF NOT EXISTS idx_report_images_storage_path
+  ON report_images(storage_path);
+
+CREATE OR REPLACE FUNCTION find_orphaned_report_images(
+  p_public_url_prefix TEXT,
+  p_min_age INTERVAL DEFAULT interval '1 hour',
+  p_limit INT DEFAULT 1000
+)
+RETURNS TABLE(name TEXT, created_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.name, o.created_at
+  FROM storage.objects o
+  WHERE o.bucket_id = 'report-images'
+    AND o.created_at < now() - p_min_age
+    AND (
+      o.name LIKE 'staging/%'
+      OR (
+        o.name LIKE 'api/%'
+        AND NOT EXISTS (
+          SELECT 1 FROM report_images ri
+          WHERE ri.storage_path = p_public_url_prefix || o.name
+        )
+      )
+    )
+  ORDER BY o.created_at
+  LIMIT p_limit;
+$$;
+
+-- =============================================================================
+-- 3. Grant Permissions
+-- =============================================================================
+
+-- Edge Functions use the service role key; not exposed to app clients
+REVOKE EXECUTE ON FUNCTION create_api_report(JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_api_report(JSONB, JSONB) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION find_orphaned_report_images(TEXT, INTERVAL, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_orphaned_report_images(TEXT, INTERVAL, INT) TO service_role;
+
+COMMENT ON FUNCTION create_api_report IS 'Create an API report and its image records in one transaction (used by Edge Function)';
+COMMENT ON FUNCTION find_orphaned_report_images IS 'List staged or unreferenced API image objects for cleanup (used by Edge Function)';
@@ -0,0 +1,130 @@
+-- Migration: Normalised API images with thumbnails
+--
+-- The submit-report Edge Function now strips metadata from uploaded images,
+-- downscales them and stores a JPEG thumbnail next to each one. The
+-- thumbnail URL and the stored image's dimensions are recorded on the
+-- report_images row.
+
+-- =============================================================================
+-- 1. Thumbnail and Dimension Columns
+-- =============================================================================
+
+ALTER TABLE report_images
+ADD COLUMN IF NOT EXISTS thumbnail_path TEXT,
+ADD COLUMN IF NOT EXISTS width INT,
+ADD COLUMN IF NOT EXISTS height INT;
+
+COMMENT ON COLUMN report_images.thumbnail_path IS 'Public URL of the thumbnail variant (NULL if none was generated)';
+COMMENT ON COLUMN report_images.width IS 'Width in pixels of the stored image';
+COMMENT ON COLUMN report_images.height IS 'Height in pixels of the stored image';
+
+-- Exact-match lookups from storage object to image record (orphan cleanup)
+CREATE INDEX IF NOT EXISTS idx_report_images_thumbnail_path
+  ON report_images(thumbnail_path) WHERE thumbnail_path IS NOT NULL;
+
+-- =============================================================================
+-- 2. Store Variants When Creating API Reports
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION create_api_report(
+  p_report JSONB,  -- {id, latitude, longitude, pollution_type, severity, notes,
+                   --  city, country, pollution_counts, api_source, api_reference}
+  p_images JSONB   -- [{storage_path, thumbnail_path, width, height, is_primary}, ...]
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report_id UUID;
+BEGIN
+  IF p_images IS NULL OR jsonb_typeof(p_images) <> 'array' OR jsonb_array_length(p_images) = 0 THEN
+    RAISE EXCEPTION 'At least one image is required';
+  END IF;
+
+  INSERT INTO reports (
+    id,
+    user_id,
+    location,
+    pollution_type,
+    severity,
+    notes,
+    city,
+    country,
+    pollution_counts,
+    status,
+    is_anonymous,
+    api_source,
+    api_reference
+  )
+  VALUES (
+    COALESCE((p_report->>'id')::uuid, gen_random_uuid()),
+    NULL, -- API submissions don't have an authenticated user
+    ST_SetSRID(
+      ST_MakePoint((p_report->>'longitude')::float8, (p_report->>'latitude')::float8),
+      4326
+    )::geography,
+    (p_report->>'pollution_type')::pollution_type,
+    (p_report->>'severity')::int,
+    p_report->>'notes',
+    p_report->>'city',
+    p_report->>'country',
+    COALESCE(p_report->'pollution_counts', '{}'::jsonb),
+    'pending',
+    true,
+    p_report->>'api_source',
+    p_report->>'api_reference'
+  )
+  RETURNING id INTO v_report_id;
+
+  INSERT INTO report_images (report_id, storage_path, thumbnail_path, width, height, is_primary)
+  SELECT
+    v_report_id,
+    img->>'storage_path',
+    img->>'thumbnail_path',
+    (img->>'width')::int,
+    (img->>'height')::int,
+    COALESCE((img->>'is_primary')::boolean, false)
+  FROM jsonb_array_elements(p_images) AS img;
+
+  RETURN v_report_id;
+END;
+$$;
+
+-- =============================================================================
+-- 3. Treat Thumbnails as Referenced Objects During Cleanup
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION find_orphaned_report_images(
+  p_public_url_prefix TEXT,
+  p_min_age INTERVAL DEFAULT interval '1 hour',
+  p_limit INT DEFAULT 1000
+)
+RETURNS TABLE(name TEXT, created_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT o.name, o.created_at
+  FROM storage.objects o
+  WHERE o.bucket_id = 'report-images'
+    AND o.created_at < now() - p_min_age
+    AND (
+      o.name LIKE 'staging/%'
+      OR (
+        o.name LIKE 'api/%'
+        AND NOT EXISTS (
+          SELECT 1 FROM report_images ri
+          WHERE ri.storage_path = p_public_url_prefix || o.name
+        )
+        AND NOT EXISTS (
+          SELECT 1 FROM report_images ri
+          WHERE ri.thumbnail_path = p_public_url_prefix || o.name
+        )
+      )
+    )
+  ORDER BY o.created_at
+  LIMIT p_limit;
+$$;
@@ -0,0 +1,216 @@
+-- Migration: EXIF location/timestamp cross-check for API submissions
+--
+-- The submit-report Edge Function reads EXIF GPS and capture time from each
+-- image before stripping metadata and compares them with the submitted
+-- coordinates and submission time. The resulting mismatch score and warnings
+-- are stored on the report and feed into its fraud score, so moderators can
+-- spot recycled or off-site photos.
+
+-- =============================================================================
+-- 1. EXIF Columns
+-- =============================================================================
+
+ALTER TABLE reports
+ADD COLUMN IF NOT EXISTS exif_mismatch_score DECIMAL(3,2),
+ADD COLUMN IF NOT EXISTS exif_warnings TEXT[];
+
+COMMENT ON COLUMN reports.exif_mismatch_score IS 'EXIF location/time mismatch score for API submissions (0.0 = consistent or no EXIF, 1.0 = highly inconsistent)';
+COMMENT ON COLUMN reports.exif_warnings IS 'Why the image EXIF data does not match the submitted location/time';
+
+-- The EXIF position itself is not stored: report_images is publicly readable
+ALTER TABLE report_images
+ADD COLUMN IF NOT EXISTS exif_distance_km DOUBLE PRECISION,
+ADD COLUMN IF NOT EXISTS exif_captured_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN report_images.exif_distance_km IS 'Distance between the EXIF GPS position and the report location (NULL if no GPS data)';
+COMMENT ON COLUMN report_images.exif_captured_at IS 'EXIF DateTimeOriginal of the uploaded image (NULL if absent)';
+
+-- =============================================================================
+-- 2. Store EXIF Results When Creating API Reports
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION create_api_report(
+  p_report JSONB,  -- {id, latitude, longitude, pollution_type, severity, notes,
+                   --  city, country, pollution_counts, api_source, api_reference,
+                   --  exif_mismatch_score, exif_warnings}
+  p_images JSONB   -- [{storage_path, thumbnail_path, width, height,
+                   --   exif_distance_km, exif_captured_at, is_primary}, ...]
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report_id UUID;
+BEGIN
+  IF p_images IS NULL OR jsonb_typeof(p_images) <> 'array' OR jsonb_array_length(p_images) = 0 THEN
+    RAISE EXCEPTION 'At least one image is required';
+  END IF;
+
+  INSERT INTO reports (
+    id,
+    user_id,
+    location,
+    pollution_type,
+    severity,
+    notes,
+    city,
+    country,
+    pollution_counts,
+    status,
+    is_anonymous,
+    api_source,
+    api_reference,
+    exif_mismatch_score,
+    exif_warnings
+  )
+  VALUES (
+    COALESCE((p_report->>'id')::uuid, gen_random_uuid()),
+    NULL, -- API submissions don't have an authenticated user
+    ST_SetSRID(
+      ST_MakePoint((p_report->>'longitude')::float8, (p_report->>'latitude')::float8),
+      4326
+    )::geography,
+    (p_report->>'pollution_type')::pollution_type,
+    (p_report->>'severity')::int,
+    p_report->>'notes',
+    p_report->>'city',
+    p_report->>'country',
+    COALESCE(p_report->'pollution_counts', '{}'::jsonb),
+    'pending',
+    true,
+    p_report->>'api_source',
+    p_report->>'api_reference',
+    COALESCE((p_report->>'exif_mismatch_score')::decimal, 0),
+    ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_report->'exif_warnings', '[]'::jsonb)))
+  )
+  RETURNING id INTO v_report_id;
+
+  INSERT INTO report_images (
+    report_id, storage_path, thumbnail_path, width, height,
+    exif_distance_km, exif_captured_at, is_primary
+  )
+  SELECT
+    v_report_id,
+    img->>'storage_path',
+    img->>'thumbnail_path',
+    (img->>'width')::int,
+    (img->>'height')::int,
+    (img->>'exif_distance_km')::float8,
+    (img->>'exif_captured_at')::timestamptz,
+    COALESCE((img->>'is_primary')::boolean, false)
+  FROM jsonb_array_elements(p_images) AS img;
+
+  RETURN v_report_id;
+END;
+$$;
+
+-- =============================================================================
+-- 3. Use the EXIF Mismatch as the Fraud Signal for API Reports
+-- 20260115100000_server_side_validation.sql replaced this trigger function
+-- without the API branch from 20260114190000_fix_api_fraud_detection.sql,
+-- so API reports were scored against an empty AI baseline again. The branch
+-- is restored here; the EXIF check is the fraud signal for API reports.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION validate_report_on_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  ai_baseline jsonb;
+  server_xp int;
+  server_weight decimal;
+  fraud_result record;
+  client_xp int;
+  scene_labels_arr text[];
+BEGIN
+  -- Recalculate weight (authoritative)
+  server_weight := calculate_total_weight(NEW.pollution_counts);
+
+  -- ==========================================================================
+  -- API SUBMISSIONS: NO AI BASELINE, USE THE EXIF CROSS-CHECK
+  -- ==========================================================================
+  IF NEW.api_source IS NOT NULL THEN
+    server_xp := calculate_xp(
+      NEW.pollution_counts,
+      NEW.severity,
+      NEW.location IS NOT NULL,
+      true, -- has_photo assumed true (required for API submission)
+      ARRAY[]::text[] -- no scene labels for API submissions
+    );
+    NEW.total_weight_kg := server_weight;
+    NEW.xp_earned := server_xp;
+    NEW.fraud_score := COALESCE(NEW.exif_mismatch_score, 0);
+    NEW.is_flagged := NEW.fraud_score >= 0.5;
+    NEW.fraud_warnings := NULLIF(COALESCE(NEW.exif_warnings, ARRAY[]::text[]), ARRAY[]::text[]);
+    RETURN NEW;
+  END IF;
+
+  -- ==========================================================================
+  -- REGULAR FRAUD DETECTION FOR APP SUBMISSIONS
+  -- ==========================================================================
+
+  -- Get AI baseline from ai_analysis table if exists
+  SELECT aa.pollution_type_counts, aa.scene_labels
+  INTO ai_baseline, scene_labels_arr
+  FROM ai_analysis aa
+  WHERE aa.report_id = NEW.id
+  ORDER BY aa.analyzed_at DESC
+  LIMIT 1;
+
+  -- Default to empty if no AI analysis found
+  ai_baseline := COALESCE(ai_baseline, '{}'::jsonb);
+  scene_labels_arr := COALESCE(scene_labels_arr, ARRAY[]::text[]);
+
+  -- Recalculate XP (authoritative)
+  server_xp := calculate_xp(
+    NEW.pollution_counts,
+    NEW.severity,
+    NEW.location IS NOT NULL,
+    true, -- has_photo assumed true (required for submission)
+    scene_labels_arr
+  );
+
+  -- Run fraud detection
+  SELECT * INTO fraud_result
+  FROM detect_fraud(NEW.pollution_counts, ai_baseline, NEW.severity);
+
+  -- Store client-submitted XP for comparison (optional audit)
+  client_xp := COALESCE(NEW.xp_earned, 0);
+
+  -- Check for client XP manipulation
+  IF client_xp > server_xp * 1.5 THEN
+    fraud_result.warnings := array_append(
+      fraud_result.warnings,
+      format('Client XP (%s) exceeds server calculation (%s) by >50%%', client_xp, server_xp)
+    );
+    fraud_result.fraud_score := LEAST(fraud_result.fraud_score + 0.2, 1.0);
+    fraud_result.is_suspicious := fraud_result.fraud_score >= 0.5;
+  END IF;
+
+  -- Update with server-calculated values (authoritative)
+  NEW.total_weight_kg := server_weight;
+  NEW.xp_earned := server_xp;
+
+  -- Update fraud fields if server detects more issues
+  IF fraud_result.fraud_score > COALESCE(NEW.fraud_score, 0) THEN
+    NEW.fraud_score := fraud_result.fraud_score;
+    NEW.is_flagged := fraud_result.is_suspicious;
+    NEW.fraud_warnings := fraud_result.warnings;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Note: Trigger already exists on reports table, no need to recreate it
+
+COMMENT ON FUNCTION validate_report_on_insert IS
+  'Server-side validation trigger that runs on report insert.
+   Calculates authoritative weight and XP values.
+   API submissions (api_source IS NOT NULL) lack AI analysis; their fraud score is the EXIF location/time mismatch score.
+   For app submissions, compares user counts against AI baseline and flags suspicious patterns.';
@@ -0,0 +1,160 @@
+-- Migration: Perceptual-hash duplicate image detection
+--
+-- The submit-report Edge Function computes a 64-bit perceptual hash for
+-- every image it stores. Before a report is committed, its hashes are
+-- compared with all stored hashes (Hamming distance); near-duplicates are
+-- reported as a DUPLICATE_IMAGE warning or rejected, per API key.
+
+-- =============================================================================
+-- 1. Hash and Duplicate Columns on report_images
+-- =============================================================================
+
+ALTER TABLE report_images
+ADD COLUMN IF NOT EXISTS phash BIT(64),
+ADD COLUMN IF NOT EXISTS duplicate_of UUID REFERENCES report_images(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN report_images.phash IS '64-bit perceptual hash (DCT) for near-duplicate detection';
+COMMENT ON COLUMN report_images.duplicate_of IS 'Closest near-duplicate image found at submission time';
+
+CREATE INDEX IF NOT EXISTS idx_report_images_duplicate_of
+  ON report_images(duplicate_of) WHERE duplicate_of IS NOT NULL;
+
+-- =============================================================================
+-- 2. Per-Key Duplicate Handling
+-- =============================================================================
+
+ALTER TABLE api_keys
+ADD COLUMN IF NOT EXISTS duplicate_image_policy TEXT NOT NULL DEFAULT 'warn'
+  CHECK (duplicate_image_policy IN ('off', 'warn', 'reject')),
+ADD COLUMN IF NOT EXISTS duplicate_image_max_distance INT NOT NULL DEFAULT 6
+  CHECK (duplicate_image_max_distance BETWEEN 0 AND 32);
+
+COMMENT ON COLUMN api_keys.duplicate_image_policy IS 'off: no check, warn: DUPLICATE_IMAGE warning, reject: refuse the submission';
+COMMENT ON COLUMN api_keys.duplicate_image_max_distance IS 'Maximum Hamming distance between perceptual hashes to count as a duplicate';
+
+-- =============================================================================
+-- 3. Function to Find Near-Duplicate Images (Called by Edge Function)
+-- Returns the closest stored image per input hash (0-based hash_index).
+-- Hamming distance cannot use an index, so this scans all hashed images;
+-- fine at current volumes.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION find_similar_report_images(
+  p_hashes TEXT[],          -- 16 hex characters each, NULL entries are skipped
+  p_max_distance INT DEFAULT 6
+)
+RETURNS TABLE(hash_index INT, image_id UUID, report_id UUID, distance INT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (h.idx)
+    (h.idx - 1)::int AS hash_index,
+    ri.id AS image_id,
+    ri.report_id,
+    bit_count(ri.phash # h.phash)::int AS distance
+  FROM (
+    SELECT ('x' || hash)::bit(64) AS phash, idx
+    FROM unnest(p_hashes) WITH ORDINALITY AS t(hash, idx)
+    WHERE hash IS NOT NULL
+  ) h
+  JOIN report_images ri
+    ON ri.phash IS NOT NULL
+   AND bit_count(ri.phash # h.phash) <= p_max_distance
+  ORDER BY h.idx, bit_count(ri.phash # h.phash), ri.created_at;
+$$;
+
+-- =============================================================================
+-- 4. Store Hashes When Creating API Reports
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION create_api_report(
+  p_report JSONB,  -- {id, latitude, longitude, pollution_type, severity, notes,
+                   --  city, country, pollution_counts, api_source, api_reference,
+                   --  exif_mismatch_score, exif_warnings}
+  p_images JSONB   -- [{storage_path, thumbnail_path, width, height,
+                   --   exif_distance_km, exif_captured_at, phash, duplicate_of,
+                   --   is_primary}, ...]
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report_id UUID;
+BEGIN
+  IF p_images IS NULL OR jsonb_typeof(p_images) <> 'array' OR jsonb_array_length(p_images) = 0 THEN
+    RAISE EXCEPTION 'At least one image is required';
+  END IF;
+
+  INSERT INTO reports (
+    id,
+    user_id,
+    location,
+    pollution_type,
+    severity,
+    notes,
+    city,
+    country,
+    pollution_counts,
+    status,
+    is_anonymous,
+    api_source,
+    api_reference,
+    exif_mismatch_score,
+    exif_warnings
+  )
+  VALUES (
+    COALESCE((p_report->>'id')::uuid, gen_random_uuid()),
+    NULL, -- API submissions don't have an authenticated user
+    ST_SetSRID(
+      ST_MakePoint((p_report->>'longitude')::float8, (p_report->>'latitude')::float8),
+      4326
+    )::geography,
+    (p_report->>'pollution_type')::pollution_type,
+    (p_report->>'severity')::int,
+    p_report->>'notes',
+    p_report->>'city',
+    p_report->>'country',
+    COALESCE(p_report->'pollution_counts', '{}'::jsonb),
+    'pending',
+    true,
+    p_report->>'api_source',
+    p_report->>'api_reference',
+    COALESCE((p_report->>'exif_mismatch_score')::decimal, 0),
+    ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_report->'exif_warnings', '[]'::jsonb)))
+  )
+  RETURNING id INTO v_report_id;
+
+  INSERT INTO report_images (
+    report_id, storage_path, thumbnail_path, width, height,
+    exif_distance_km, exif_captured_at, phash, duplicate_of, is_primary
+  )
+  SELECT
+    v_report_id,
+    img->>'storage_path',
+    img->>'thumbnail_path',
+    (img->>'width')::int,
+    (img->>'height')::int,
+    (img->>'exif_distance_km')::float8,
+    (img->>'exif_captured_at')::timestamptz,
+    ('x' || (img->>'phash'))::bit(64), -- 16 hex characters
+    (img->>'duplicate_of')::uuid,
+    COALESCE((img->>'is_primary')::boolean, false)
+  FROM jsonb_array_elements(p_images) AS img;
+
+  RETURN v_report_id;
+END;
+$$;
+
+-- =============================================================================
+-- 5. Grant Permissions
+-- =============================================================================
+
+-- Edge Functions use the service role key; not exposed to app clients
+REVOKE EXECUTE ON FUNCTION find_similar_report_images(TEXT[], INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_similar_report_images(TEXT[], INT) TO service_role;
+
+COMMENT ON FUNCTION find_similar_report_images IS 'Find the closest stored image by perceptual hash for each input hash (used by Edge Function)';
@@ -0,0 +1,17 @@
+-- Migration: Record which vision model produced each AI analysis
+--
+-- The analyze-report Edge Function now supports several analysers (Gemini,
+-- OpenAI-compatible endpoints, a local stand-in) selected by environment
+-- config, optionally A/B split between two providers. Storing the provider
+-- and model with each result makes the outputs comparable.
+
+ALTER TABLE ai_analysis
+ADD COLUMN IF NOT EXISTS analyzer_provider TEXT,
+ADD COLUMN IF NOT EXISTS analyzer_model TEXT;
+
+COMMENT ON COLUMN ai_analysis.analyzer_provider IS 'Analyser that produced this result (gemini, openai, local); NULL for on-device analysis';
+COMMENT ON COLUMN ai_analysis.analyzer_model IS 'Model name used by the analyser (e.g. gemini-1.5-flash)';
+
+-- A/B comparisons group results by provider/model
+CREATE INDEX IF NOT EXISTS idx_ai_analysis_analyzer
+  ON ai_analysis(analyzer_provider, analyzer_model) WHERE analyzer_provider IS NOT NULL;
@@ -0,0 +1,20 @@
+-- Migration: Validated AI analysis output
+--
+-- analyze-report now validates model answers against a strict schema, maps
+-- labels to the pollution_type enum, clamps severity/confidence and retries
+-- once with a repair prompt. Every attempt is recorded with its outcome
+-- instead of failing without a row.
+
+ALTER TABLE ai_analysis
+ADD COLUMN IF NOT EXISTS severity INT CHECK (severity BETWEEN 1 AND 5),
+ADD COLUMN IF NOT EXISTS analysis_status TEXT NOT NULL DEFAULT 'ok'
+  CHECK (analysis_status IN ('ok', 'invalid', 'failed')),
+ADD COLUMN IF NOT EXISTS analysis_issues TEXT[] DEFAULT '{}';
+
+COMMENT ON COLUMN ai_analysis.severity IS 'Severity 1-5 estimated by the vision model (clamped)';
+COMMENT ON COLUMN ai_analysis.analysis_status IS 'ok: validated result, invalid: answer did not match the schema, failed: no usable answer';
+COMMENT ON COLUMN ai_analysis.analysis_issues IS 'Validation errors, or normalisation notes (label mapping, clamping) for ok results';
+
+-- Monitoring of invalid/failed analyses
+CREATE INDEX IF NOT EXISTS idx_ai_analysis_status
+  ON ai_analysis(analysis_status) WHERE analysis_status <> 'ok';
@@ -0,0 +1,263 @@
+-- Migration: Report-level AI analysis from per-image results
+--
+-- analyze-report runs once per report_images row. Each image's result is now
+-- stored in ai_image_analysis; once every image of a report has a result,
+-- aggregate_report_analysis merges them into the report's ai_analysis row
+-- (the AI baseline) and refresh_report_fraud re-runs detect_fraud against
+-- the user-submitted counts.
+
+-- =============================================================================
+-- 1. Per-Image Analysis Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.ai_image_analysis (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  image_id UUID NOT NULL UNIQUE REFERENCES report_images(id) ON DELETE CASCADE,
+  report_id UUID NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+  ai_response JSONB,                    -- Model answer, parsed if possible
+  pollution_detected TEXT[],            -- Pollution type enum values
+  pollution_counts JSONB,               -- Estimated items per type
+  severity INT CHECK (severity BETWEEN 1 AND 5),
+  confidence FLOAT,
+  description TEXT,
+  analyzer_provider TEXT,
+  analyzer_model TEXT,
+  analysis_status TEXT NOT NULL CHECK (analysis_status IN ('ok', 'invalid', 'failed')),
+  analysis_issues TEXT[] DEFAULT '{}',
+  analyzed_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_image_analysis_report
+  ON ai_image_analysis(report_id);
+
+-- Only the Edge Functions (service role) read and write per-image results
+ALTER TABLE ai_image_analysis ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON ai_image_analysis TO service_role;
+
+COMMENT ON TABLE ai_image_analysis IS 'Vision-model analysis of a single report image; aggregated into ai_analysis';
+
+-- =============================================================================
+-- 2. Function to Re-run Fraud Detection for a Report
+-- Compares the user-submitted counts with the current AI baseline.
+-- API reports keep their EXIF cross-check; the client XP check from
+-- validate_report_on_insert only runs at insert, so its warning is kept.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION refresh_report_fraud(p_report_id UUID)
+RETURNS TABLE(fraud_score DECIMAL, is_flagged BOOLEAN, warnings TEXT[])
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report reports%ROWTYPE;
+  v_baseline JSONB;
+  v_xp_warnings TEXT[];
+  fraud_result record;
+  v_score DECIMAL;
+  v_warnings TEXT[];
+BEGIN
+  SELECT * INTO v_report FROM reports WHERE id = p_report_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT aa.pollution_type_counts INTO v_baseline
+  FROM ai_analysis aa
+  WHERE aa.report_id = p_report_id;
+
+  SELECT * INTO fraud_result
+  FROM detect_fraud(v_report.pollution_counts, COALESCE(v_baseline, '{}'::jsonb), v_report.severity);
+
+  v_score := fraud_result.fraud_score;
+  v_warnings := fraud_result.warnings;
+
+  IF v_report.api_source IS NOT NULL THEN
+    v_score := v_score + COALESCE(v_report.exif_mismatch_score, 0);
+    v_warnings := COALESCE(v_report.exif_warnings, ARRAY[]::text[]) || v_warnings;
+  END IF;
+
+  v_xp_warnings := ARRAY(
+    SELECT w FROM unnest(COALESCE(v_report.fraud_warnings, ARRAY[]::text[])) AS w
+    WHERE w LIKE 'Client XP%'
+  );
+  IF cardinality(v_xp_warnings) > 0 THEN
+    v_score := v_score + 0.2;
+    v_warnings := v_warnings || v_xp_warnings;
+  END IF;
+
+  v_score := LEAST(v_score, 1.0);
+
+  UPDATE reports SET
+    fraud_score = v_score,
+    is_flagged = v_score >= 0.5,
+    fraud_warnings = NULLIF(v_warnings, ARRAY[]::text[])
+  WHERE id = p_report_id;
+
+  RETURN QUERY SELECT v_score, v_score >= 0.5, v_warnings;
+END;
+$$;
+
+-- =============================================================================
+-- 3. Function to Aggregate Image Results into the Report Verdict
+-- Returns NULL while images are still awaiting analysis.
+-- - pollution types: union over images
+-- - severity: maximum (weighted-by-confidence mean kept in ai_response)
+-- - counts: per-type maximum (images of one site overlap, so sums overcount)
+-- Only images with status 'ok' contribute; if none did, the existing
+-- baseline is kept and fraud detection is not re-run.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION aggregate_report_analysis(p_report_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_image_count INT;
+  v_pending INT;
+  v_ok_count INT;
+  v_types TEXT[];
+  v_counts JSONB;
+  v_max_severity INT;
+  v_weighted_severity NUMERIC;
+  v_confidence FLOAT;
+  v_description TEXT;
+  v_provider TEXT;
+  v_model TEXT;
+  v_status TEXT;
+  v_verdict JSONB;
+BEGIN
+  -- Wait until every image has a result (of any status)
+  SELECT count(*), count(*) FILTER (WHERE a.id IS NULL)
+  INTO v_image_count, v_pending
+  FROM report_images ri
+  LEFT JOIN ai_image_analysis a ON a.image_id = ri.id
+  WHERE ri.report_id = p_report_id;
+
+  IF v_image_count = 0 OR v_pending > 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT
+    count(*),
+    max(a.severity),
+    round((sum(a.severity * GREATEST(a.confidence, 0.01)) / sum(GREATEST(a.confidence, 0.01)))::numeric, 2),
+    avg(a.confidence)
+  INTO v_ok_count, v_max_severity, v_weighted_severity, v_confidence
+  FROM ai_image_analysis a
+  WHERE a.report_id = p_report_id AND a.analysis_status = 'ok';
+
+  SELECT COALESCE(array_agg(DISTINCT t ORDER BY t), ARRAY[]::text[])
+  INTO v_types
+  FROM ai_image_analysis a, unnest(a.pollution_detected) AS t
+  WHERE a.report_id = p_report_id AND a.analysis_status = 'ok';
+
+  SELECT COALESCE(jsonb_object_agg(per_type.key, per_type.max_count), '{}'::jsonb)
+  INTO v_counts
+  FROM (
+    SELECT c.key, max(c.value::int) AS max_count
+    FROM ai_image_analysis a, jsonb_each_text(a.pollution_counts) AS c
+    WHERE a.report_id = p_report_id AND a.analysis_status = 'ok'
+    GROUP BY c.key
+  ) per_type;
+
+  -- Description and model of the most severe, most confident image
+  SELECT a.description, a.analyzer_provider, a.analyzer_model
+  INTO v_description, v_provider, v_model
+  FROM ai_image_analysis a
+  WHERE a.report_id = p_report_id
+  ORDER BY (a.analysis_status = 'ok') DESC, a.severity DESC NULLS LAST,
+    a.confidence DESC NULLS LAST, a.analyzed_at DESC
+  LIMIT 1;
+
+  IF v_ok_count > 0 THEN
+    v_status := 'ok';
+  ELSIF EXISTS (
+    SELECT 1 FROM ai_image_analysis a
+    WHERE a.report_id = p_report_id AND a.analysis_status = 'invalid'
+  ) THEN
+    v_status := 'invalid';
+  ELSE
+    v_status := 'failed';
+  END IF;
+
+  v_verdict := jsonb_build_object(
+    'status', v_status,
+    'images', v_image_count,
+    'images_analyzed', v_ok_count,
+    'pollution_detected', to_jsonb(v_types),
+    'pollution_counts', v_counts,
+    'severity', v_max_severity,
+    'weighted_severity', v_weighted_severity,
+    'confidence', v_confidence
+  );
+
+  INSERT INTO ai_analysis (
+    report_id,
+    ai_response,
+    pollution_detected,
+    pollution_type_counts,
+    severity,
+    confidence,
+    description,
+    analyzer_provider,
+    analyzer_model,
+    analysis_status,
+    analysis_issues,
+    analyzed_at
+  )
+  VALUES (
+    p_report_id,
+    v_verdict,
+    v_types,
+    v_counts,
+    v_max_severity,
+    v_confidence,
+    v_description,
+    v_provider,
+    v_model,
+    v_status,
+    CASE WHEN v_ok_count < v_image_count
+      THEN ARRAY[format('%s of %s images analysed successfully', v_ok_count, v_image_count)]
+      ELSE ARRAY[]::text[]
+    END,
+    now()
+  )
+  ON CONFLICT (report_id) DO UPDATE SET
+    ai_response = EXCLUDED.ai_response,
+    analyzer_provider = EXCLUDED.analyzer_provider,
+    analyzer_model = EXCLUDED.analyzer_model,
+    analysis_status = EXCLUDED.analysis_status,
+    analysis_issues = EXCLUDED.analysis_issues,
+    analyzed_at = EXCLUDED.analyzed_at,
+    -- Keep the previous baseline (e.g. on-device analysis) if no image succeeded
+    pollution_detected = CASE WHEN v_ok_count > 0 THEN EXCLUDED.pollution_detected ELSE ai_analysis.pollution_detected END,
+    pollution_type_counts = CASE WHEN v_ok_count > 0 THEN EXCLUDED.pollution_type_counts ELSE ai_analysis.pollution_type_counts END,
+    severity = CASE WHEN v_ok_count > 0 THEN EXCLUDED.severity ELSE ai_analysis.severity END,
+    confidence = CASE WHEN v_ok_count > 0 THEN EXCLUDED.confidence ELSE ai_analysis.confidence END,
+    description = CASE WHEN v_ok_count > 0 THEN EXCLUDED.description ELSE ai_analysis.description END;
+
+  IF v_ok_count > 0 THEN
+    PERFORM refresh_report_fraud(p_report_id);
+  END IF;
+
+  RETURN v_verdict;
+END;
+$$;
+
+-- =============================================================================
+-- 4. Grant Permissions
+-- =============================================================================
+
+-- Edge Functions use the service role key; not exposed to app clients
+REVOKE EXECUTE ON FUNCTION refresh_report_fraud(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_report_fraud(UUID) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION aggregate_report_analysis(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION aggregate_report_analysis(UUID) TO service_role;
+
+COMMENT ON FUNCTION refresh_report_fraud IS 'Re-run detect_fraud for a report against its current AI baseline';
+COMMENT ON FUNCTION aggregate_report_analysis IS 'Merge per-image AI results into the report verdict once all images are analysed (used by Edge Function)';
@@ -0,0 +1,206 @@
+-- Migration: Automatic report moderation from AI verdicts
+--
+-- Once analyze-report has aggregated a report's AI verdict, it calls
+-- apply_auto_moderation. Enabled rules are evaluated in priority order and
+-- the first match is applied to a pending report:
+-- - verify              status -> 'verified', reporter notified
+-- - flag_for_rejection  stays 'pending' with a review_reason for moderators
+--
+-- Rules are data, so thresholds can be tuned without a deploy.
+
+-- =============================================================================
+-- 1. Rules Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.auto_moderation_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  description TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  priority INT NOT NULL DEFAULT 100,     -- Lower runs first
+  action TEXT NOT NULL CHECK (action IN ('verify', 'flag_for_rejection')),
+  -- Conditions; NULL means "not checked"
+  min_confidence FLOAT CHECK (min_confidence BETWEEN 0 AND 1),
+  min_type_agreement FLOAT CHECK (min_type_agreement BETWEEN 0 AND 1),
+  max_fraud_score FLOAT CHECK (max_fraud_score BETWEEN 0 AND 1),
+  requires_no_pollution BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE auto_moderation_rules ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON auto_moderation_rules TO service_role;
+
+COMMENT ON TABLE auto_moderation_rules IS 'Rules applied to pending reports after AI analysis (first enabled match by priority wins)';
+COMMENT ON COLUMN auto_moderation_rules.min_type_agreement IS 'Share of submitted pollution types (pollution_type plus counted types) that the AI also detected';
+
+-- Default rules
+INSERT INTO auto_moderation_rules (
+  name, description, priority, action,
+  min_confidence, min_type_agreement, max_fraud_score, requires_no_pollution
+)
+VALUES
+  (
+    'confident_match',
+    'AI is confident and detected every submitted pollution type',
+    10, 'verify',
+    0.8, 1.0, 0.3, false
+  ),
+  (
+    'no_pollution_detected',
+    'AI is confident that the images show no pollution',
+    20, 'flag_for_rejection',
+    0.7, NULL, NULL, true
+  )
+ON CONFLICT (name) DO NOTHING;
+
+-- =============================================================================
+-- 2. Report Columns
+-- =============================================================================
+
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS review_reason TEXT,
+  ADD COLUMN IF NOT EXISTS auto_moderation_rule_id UUID REFERENCES auto_moderation_rules(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS auto_moderated_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_reports_review_reason
+  ON reports(reported_at DESC)
+  WHERE review_reason IS NOT NULL;
+
+COMMENT ON COLUMN reports.review_reason IS 'Why the report needs moderator attention (set by auto-moderation)';
+COMMENT ON COLUMN reports.auto_moderation_rule_id IS 'Auto-moderation rule that last acted on the report';
+
+-- =============================================================================
+-- 3. Function to Apply the Rules to a Report
+-- Returns NULL when nothing was done (report not pending, no usable AI
+-- verdict, or no rule matched).
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION apply_auto_moderation(p_report_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report reports%ROWTYPE;
+  v_ai ai_analysis%ROWTYPE;
+  v_rule auto_moderation_rules%ROWTYPE;
+  v_submitted TEXT[];
+  v_detected TEXT[];
+  v_agreement FLOAT;
+  v_matched BOOLEAN := false;
+  v_reason TEXT;
+BEGIN
+  SELECT * INTO v_report FROM reports WHERE id = p_report_id FOR UPDATE;
+  IF NOT FOUND OR v_report.status <> 'pending' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_ai FROM ai_analysis WHERE report_id = p_report_id;
+  IF NOT FOUND OR v_ai.analysis_status <> 'ok' THEN
+    RETURN NULL;
+  END IF;
+
+  v_detected := COALESCE(v_ai.pollution_detected, ARRAY[]::text[]);
+
+  -- Submitted types: the primary pollution_type plus any type with items counted
+  v_submitted := ARRAY(
+    SELECT v_report.pollution_type::text
+    UNION
+    SELECT key FROM jsonb_each_text(COALESCE(v_report.pollution_counts, '{}'::jsonb))
+    WHERE (value)::int > 0
+  );
+
+  SELECT count(*)::float / GREATEST(cardinality(v_submitted), 1)
+  INTO v_agreement
+  FROM unnest(v_submitted) AS t
+  WHERE t = ANY(v_detected);
+
+  FOR v_rule IN
+    SELECT * FROM auto_moderation_rules
+    WHERE enabled
+    ORDER BY priority, created_at
+  LOOP
+    CONTINUE WHEN v_rule.min_confidence IS NOT NULL
+      AND COALESCE(v_ai.confidence, 0) < v_rule.min_confidence;
+    CONTINUE WHEN v_rule.min_type_agreement IS NOT NULL
+      AND v_agreement < v_rule.min_type_agreement;
+    CONTINUE WHEN v_rule.max_fraud_score IS NOT NULL
+      AND COALESCE(v_report.fraud_score, 0) > v_rule.max_fraud_score;
+    CONTINUE WHEN v_rule.requires_no_pollution AND cardinality(v_detected) > 0;
+    -- Never auto-verify a report the fraud checks flagged
+    CONTINUE WHEN v_rule.action = 'verify' AND COALESCE(v_report.is_flagged, false);
+
+    v_matched := true;
+    EXIT;
+  END LOOP;
+
+  IF NOT v_matched THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_rule.action = 'verify' THEN
+    UPDATE reports SET
+      status = 'verified',
+      verified_at = now(),
+      review_reason = NULL,
+      auto_moderation_rule_id = v_rule.id,
+      auto_moderated_at = now()
+    WHERE id = p_report_id;
+
+    IF v_report.user_id IS NOT NULL THEN
+      INSERT INTO notifications (user_id, type, title, body, data)
+      VALUES (
+        v_report.user_id,
+        'report_verified',
+        'Your report was verified!',
+        'Thanks for reporting - our analysis confirmed the pollution in your photos.',
+        jsonb_build_object('report_id', p_report_id)
+      );
+    END IF;
+  ELSE
+    v_reason := format(
+      'AI detected no pollution (confidence %s); rule %s',
+      round(COALESCE(v_ai.confidence, 0)::numeric, 2),
+      v_rule.name
+    );
+
+    UPDATE reports SET
+      review_reason = v_reason,
+      auto_moderation_rule_id = v_rule.id,
+      auto_moderated_at = now()
+    WHERE id = p_report_id;
+
+    -- Re-analysis can match the same rule again; notify only once
+    IF v_report.user_id IS NOT NULL
+      AND v_report.auto_moderation_rule_id IS DISTINCT FROM v_rule.id THEN
+      INSERT INTO notifications (user_id, type, title, body, data)
+      VALUES (
+        v_report.user_id,
+        'system',
+        'Your report is being reviewed',
+        'We could not spot pollution in your photos, so a moderator will take a look.',
+        jsonb_build_object('report_id', p_report_id, 'review_reason', v_reason)
+      );
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'rule', v_rule.name,
+    'action', v_rule.action,
+    'type_agreement', round(v_agreement::numeric, 2),
+    'confidence', v_ai.confidence
+  );
+END;
+$$;
+
+-- =============================================================================
+-- 4. Grant Permissions
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION apply_auto_moderation(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_auto_moderation(UUID) TO service_role;
+
+COMMENT ON FUNCTION apply_auto_moderation IS 'Apply the first matching auto_moderation_rules entry to a pending report (used by analyze-report)';
@@ -0,0 +1,226 @@
+-- Migration: Moderation queue and audit trail
+--
+-- Backs the admin-only moderate-reports Edge Function:
+-- - reports.duplicate_of links a merged report to the one that is kept
+-- - moderation_actions records who did what, with before/after values
+-- - moderate_report applies an action, audits it and notifies the reporter
+--   in one transaction
+
+-- =============================================================================
+-- 1. Report Columns
+-- =============================================================================
+
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS duplicate_of UUID REFERENCES reports(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reports_duplicate_of
+  ON reports(duplicate_of)
+  WHERE duplicate_of IS NOT NULL;
+
+-- Queue order: most suspicious first, then oldest
+CREATE INDEX IF NOT EXISTS idx_reports_moderation_queue
+  ON reports(status, fraud_score DESC NULLS LAST, reported_at);
+
+COMMENT ON COLUMN reports.duplicate_of IS 'Report this one was merged into by a moderator';
+
+-- =============================================================================
+-- 2. Audit Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.moderation_actions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  report_id UUID NOT NULL REFERENCES reports(id) ON DELETE CASCADE,
+  moderator_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('approve', 'reject', 'merge_duplicate', 'edit_classification')),
+  reason TEXT,
+  previous JSONB NOT NULL,   -- Report fields before the action
+  changes JSONB NOT NULL,    -- Report fields set by the action
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_report
+  ON moderation_actions(report_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_moderation_actions_moderator
+  ON moderation_actions(moderator_id, created_at DESC);
+
+-- Only the Edge Functions (service role) read and write the audit trail
+ALTER TABLE moderation_actions ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT ON moderation_actions TO service_role;
+
+COMMENT ON TABLE moderation_actions IS 'Audit trail of moderator actions on reports';
+
+-- =============================================================================
+-- 3. Function to Apply a Moderation Action
+-- Raises no_data_found for unknown reports and invalid_parameter_value for
+-- actions that do not apply (e.g. moderating a resolved report).
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION moderate_report(
+  p_report_id UUID,
+  p_moderator_id UUID,
+  p_action TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_changes JSONB DEFAULT '{}'::jsonb  -- {pollution_type, severity, pollution_counts, duplicate_of}
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report reports%ROWTYPE;
+  v_previous JSONB;
+  v_changes JSONB;
+  v_target_id UUID;
+  v_title TEXT;
+  v_body TEXT;
+  v_type notification_type := 'system';
+BEGIN
+  SELECT * INTO v_report FROM reports WHERE id = p_report_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report % not found', p_report_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_report.status = 'resolved' THEN
+    RAISE EXCEPTION 'Report % is already resolved', p_report_id
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  v_previous := jsonb_build_object(
+    'status', v_report.status,
+    'pollution_type', v_report.pollution_type,
+    'severity', v_report.severity,
+    'pollution_counts', v_report.pollution_counts,
+    'is_flagged', v_report.is_flagged,
+    'review_reason', v_report.review_reason,
+    'duplicate_of', v_report.duplicate_of
+  );
+
+  IF p_action = 'approve' THEN
+    IF v_report.status = 'verified' THEN
+      RAISE EXCEPTION 'Report % is already verified', p_report_id
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    UPDATE reports SET
+      status = 'verified',
+      verified_at = now(),
+      is_flagged = false,
+      review_reason = NULL,
+      duplicate_of = NULL
+    WHERE id = p_report_id;
+
+    v_changes := jsonb_build_object('status', 'verified', 'is_flagged', false);
+    v_type := 'report_verified';
+    v_title := 'Your report was verified!';
+    v_body := 'A moderator confirmed your pollution report. Thank you!';
+
+  ELSIF p_action = 'reject' THEN
+    IF v_report.status = 'rejected' THEN
+      RAISE EXCEPTION 'Report % is already rejected', p_report_id
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    UPDATE reports SET
+      status = 'rejected',
+      review_reason = NULL
+    WHERE id = p_report_id;
+
+    v_changes := jsonb_build_object('status', 'rejected');
+    v_title := 'Your report was not accepted';
+    v_body := COALESCE('Reason: ' || p_reason, 'A moderator could not confirm your report.');
+
+  ELSIF p_action = 'merge_duplicate' THEN
+    v_target_id := (p_changes->>'duplicate_of')::uuid;
+
+    IF v_target_id IS NULL OR v_target_id = p_report_id THEN
+      RAISE EXCEPTION 'A different duplicate_of report is required'
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM reports WHERE id = v_target_id) THEN
+      RAISE EXCEPTION 'Report % not found', v_target_id USING ERRCODE = 'no_data_found';
+    END IF;
+    -- Keep chains one level deep so a merged report never points at another merge
+    IF EXISTS (SELECT 1 FROM reports WHERE id = v_target_id AND duplicate_of IS NOT NULL) THEN
+      RAISE EXCEPTION 'Report % is itself merged into another report', v_target_id
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    UPDATE reports SET
+      status = 'rejected',
+      duplicate_of = v_target_id,
+      review_reason = NULL
+    WHERE id = p_report_id;
+
+    -- Reports that were merged into this one move to the kept report
+    UPDATE reports SET duplicate_of = v_target_id
+    WHERE duplicate_of = p_report_id;
+
+    v_changes := jsonb_build_object('status', 'rejected', 'duplicate_of', v_target_id);
+    v_title := 'Your report was merged';
+    v_body := 'This pollution was already reported, so your report was merged with the existing one.';
+
+  ELSIF p_action = 'edit_classification' THEN
+    v_changes := p_changes - 'duplicate_of';
+
+    IF v_changes = '{}'::jsonb THEN
+      RAISE EXCEPTION 'No classification changes given'
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    UPDATE reports SET
+      pollution_type = COALESCE((v_changes->>'pollution_type')::pollution_type, pollution_type),
+      severity = COALESCE((v_changes->>'severity')::int, severity),
+      pollution_counts = COALESCE(v_changes->'pollution_counts', pollution_counts)
+    WHERE id = p_report_id;
+
+    v_title := 'Your report was updated';
+    v_body := 'A moderator adjusted the pollution details of your report.';
+
+  ELSE
+    RAISE EXCEPTION 'Unknown moderation action: %', p_action
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO moderation_actions (report_id, moderator_id, action, reason, previous, changes)
+  VALUES (p_report_id, p_moderator_id, p_action, p_reason, v_previous, v_changes);
+
+  IF v_report.user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, type, title, body, data)
+    VALUES (
+      v_report.user_id,
+      v_type,
+      v_title,
+      v_body,
+      jsonb_build_object('report_id', p_report_id, 'action', p_action)
+        || CASE WHEN p_reason IS NOT NULL THEN jsonb_build_object('reason', p_reason) ELSE '{}'::jsonb END
+    );
+  END IF;
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'report_id', r.id,
+      'action', p_action,
+      'status', r.status,
+      'pollution_type', r.pollution_type,
+      'severity', r.severity,
+      'pollution_counts', r.pollution_counts,
+      'duplicate_of', r.duplicate_of
+    )
+    FROM reports r
+    WHERE r.id = p_report_id
+  );
+END;
+$$;
+
+-- =============================================================================
+-- 4. Grant Permissions
+-- =============================================================================
+
+-- Only the Edge Function (service role) may moderate; it checks the admin role
+REVOKE EXECUTE ON FUNCTION moderate_report(UUID, UUID, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION moderate_report(UUID, UUID, TEXT, TEXT, JSONB) TO service_role;
+
+COMMENT ON FUNCTION moderate_report IS 'Apply a moderator action to a report, audit it and notify the reporter (used by Edge Function)';
@@ -0,0 +1,232 @@
+-- Migration: Notification preferences and quiet hours
+--
+-- send-push-notification checks get_push_decision before looking up device
+-- tokens:
+-- - notification_preferences mutes a notification type per channel
+--   (no row = enabled)
+-- - notification_settings holds quiet hours in the user's timezone; pushes
+--   arriving then are parked in deferred_push_notifications
+--
+-- Deferred pushes are sent by calling the function with
+-- {"action": "flush_deferred"} on a schedule, e.g. with pg_cron + pg_net:
+--
+--   SELECT cron.schedule('flush-deferred-push', '*/5 * * * *', $$
+--     SELECT net.http_post(
+--       url := 'https://<project>.supabase.co/functions/v1/send-push-notification',
+--       headers := '{"Authorization": "Bearer <service_role_key>", "Content-Type": "application/json"}'::jsonb,
+--       body := '{"action": "flush_deferred"}'::jsonb
+--     );
+--   $$);
+
+-- =============================================================================
+-- 1. Per-Type Preferences
+-- =============================================================================
+
+-- Moderation outcomes get their own types (they were sent as 'system'), so
+-- users can mute them without muting system announcements
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'report_rejected';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'report_merged';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'report_reclassified';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'report_under_review';
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type notification_type NOT NULL,
+  channel TEXT NOT NULL DEFAULT 'push' CHECK (channel IN ('push')),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, type, channel)
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own notification preferences" ON notification_preferences;
+CREATE POLICY "Users can manage own notification preferences"
+  ON notification_preferences FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON notification_preferences TO authenticated;
+GRANT SELECT ON notification_preferences TO service_role;
+
+COMMENT ON TABLE notification_preferences IS 'Per-user opt-out by notification type and channel; missing rows mean enabled';
+
+-- =============================================================================
+-- 2. Quiet Hours
+-- =============================================================================
+
+-- Used by the CHECK below; AT TIME ZONE rejects unknown zone names
+CREATE OR REPLACE FUNCTION is_valid_timezone(p_timezone TEXT)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+AS $$
+BEGIN
+  PERFORM now() AT TIME ZONE p_timezone;
+  RETURN true;
+EXCEPTION
+  WHEN invalid_parameter_value THEN
+    RETURN false;
+END;
+$$;
+
+CREATE TABLE IF NOT EXISTS public.notification_settings (
+  user_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  quiet_hours_start TIME,              -- Local time; NULL = no quiet hours
+  quiet_hours_end TIME,                -- May be earlier than start (overnight)
+  timezone TEXT NOT NULL DEFAULT 'UTC' CHECK (is_valid_timezone(timezone)),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+ALTER TABLE notification_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own notification settings" ON notification_settings;
+CREATE POLICY "Users can manage own notification settings"
+  ON notification_settings FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON notification_settings TO authenticated;
+GRANT SELECT ON notification_settings TO service_role;
+
+COMMENT ON TABLE notification_settings IS 'Per-user push settings: quiet hours in an IANA timezone (e.g. Europe/Bucharest)';
+
+-- =============================================================================
+-- 3. Deferred Pushes
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.deferred_push_notifications (
+  notification_id UUID PRIMARY KEY REFERENCES notifications(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  deliver_after TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deferred_push_deliver_after
+  ON deferred_push_notifications(deliver_after);
+
+-- Only the Edge Function (service role) uses the queue
+ALTER TABLE deferred_push_notifications ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON deferred_push_notifications TO service_role;
+
+COMMENT ON TABLE deferred_push_notifications IS 'Pushes held back by quiet hours until deliver_after';
+
+-- =============================================================================
+-- 4. Function to Decide Whether to Push Now
+-- reason: NULL (deliver), 'opted_out' or 'quiet_hours' (with deliver_after)
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION get_push_decision(
+  p_user_id UUID,
+  p_type notification_type
+)
+RETURNS TABLE(deliver BOOLEAN, reason TEXT, deliver_after TIMESTAMPTZ)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings notification_settings%ROWTYPE;
+  v_local TIMESTAMP;
+  v_local_time TIME;
+  v_in_quiet_hours BOOLEAN;
+  v_end_local TIMESTAMP;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM notification_preferences np
+    WHERE np.user_id = p_user_id
+      AND np.type = p_type
+      AND np.channel = 'push'
+      AND NOT np.enabled
+  ) THEN
+    RETURN QUERY SELECT false, 'opted_out'::text, NULL::timestamptz;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_settings FROM notification_settings ns WHERE ns.user_id = p_user_id;
+
+  IF NOT FOUND
+    OR v_settings.quiet_hours_start IS NULL
+    OR v_settings.quiet_hours_start = v_settings.quiet_hours_end THEN
+    RETURN QUERY SELECT true, NULL::text, NULL::timestamptz;
+    RETURN;
+  END IF;
+
+  v_local := now() AT TIME ZONE v_settings.timezone;
+  v_local_time := v_local::time;
+
+  IF v_settings.quiet_hours_start < v_settings.quiet_hours_end THEN
+    v_in_quiet_hours := v_local_time >= v_settings.quiet_hours_start
+      AND v_local_time < v_settings.quiet_hours_end;
+  ELSE
+    -- Overnight window, e.g. 22:00-07:00
+    v_in_quiet_hours := v_local_time >= v_settings.quiet_hours_start
+      OR v_local_time < v_settings.quiet_hours_end;
+  END IF;
+
+  IF NOT v_in_quiet_hours THEN
+    RETURN QUERY SELECT true, NULL::text, NULL::timestamptz;
+    RETURN;
+  END IF;
+
+  v_end_local := date_trunc('day', v_local) + v_settings.quiet_hours_end;
+  IF v_end_local <= v_local THEN
+    v_end_local := v_end_local + interval '1 day';
+  END IF;
+
+  RETURN QUERY SELECT false, 'quiet_hours'::text, v_end_local AT TIME ZONE v_settings.timezone;
+END;
+$$;
+
+-- =============================================================================
+-- 5. Function to Claim Due Deferred Pushes
+-- Leases the queue rows for 15 minutes and returns their notifications; the
+-- Edge Function deletes each row once its push has been handled, so a failed
+-- flush is retried when the lease runs out. SKIP LOCKED lets overlapping
+-- flushes run without sending twice.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION claim_deferred_push_notifications(p_limit INT DEFAULT 100)
+RETURNS SETOF notifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT d.notification_id
+    FROM deferred_push_notifications d
+    WHERE d.deliver_after <= now()
+    ORDER BY d.deliver_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE deferred_push_notifications d
+    SET deliver_after = now() + interval '15 minutes'
+    FROM due
+    WHERE d.notification_id = due.notification_id
+    RETURNING d.notification_id
+  )
+  SELECT n.*
+  FROM notifications n
+  JOIN claimed c ON c.notification_id = n.id;
+END;
+$$;
+
+-- =============================================================================
+-- 6. Grant Permissions
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION get_push_decision(UUID, notification_type) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_push_decision(UUID, notification_type) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION claim_deferred_push_notifications(INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_deferred_push_notifications(INT) TO service_role;
+
+COMMENT ON FUNCTION get_push_decision IS 'Whether a push of this type may be sent to the user now (used by Edge Function)';
+COMMENT ON FUNCTION claim_deferred_push_notifications IS 'Lease deferred pushes whose quiet hours have ended (used by Edge Function)';
@@ -0,0 +1,227 @@
+-- Migration: Push digests and per-user rate limit
+--
+-- send-push-notification records every push in push_sends. get_push_decision
+-- uses it to hold back pushes:
+-- - digest: a type already pushed to the user within the digest window waits
+--   for the window to end; the flush sends one digest push per user and type
+-- - rate_limited: the user already got p_hourly_limit pushes in the last hour
+-- Held-back pushes go to deferred_push_notifications like quiet hours.
+
+-- =============================================================================
+-- 1. Sent Pushes
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.push_sends (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type notification_type NOT NULL,
+  notification_ids UUID[] NOT NULL,   -- More than one for a digest
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_sends_user_sent
+  ON push_sends(user_id, sent_at DESC);
+
+ALTER TABLE push_sends ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, DELETE ON push_sends TO service_role;
+
+COMMENT ON TABLE push_sends IS 'Pushes sent per user, for digest windows and the hourly limit';
+
+-- =============================================================================
+-- 2. Deferred Push Columns
+-- =============================================================================
+
+ALTER TABLE deferred_push_notifications
+  ADD COLUMN IF NOT EXISTS type notification_type,
+  ADD COLUMN IF NOT EXISTS reason TEXT NOT NULL DEFAULT 'quiet_hours'
+    CHECK (reason IN ('quiet_hours', 'digest', 'rate_limited'));
+
+UPDATE deferred_push_notifications d
+SET type = n.type
+FROM notifications n
+WHERE n.id = d.notification_id
+  AND d.type IS NULL;
+
+ALTER TABLE deferred_push_notifications
+  ALTER COLUMN type SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_deferred_push_user_type
+  ON deferred_push_notifications(user_id, type, reason);
+
+-- =============================================================================
+-- 3. Function to Decide Whether to Push Now (adds digest and rate limit)
+-- reason: NULL (deliver), 'opted_out', or 'quiet_hours' / 'rate_limited' /
+-- 'digest' with deliver_after. A window of 0 disables digesting.
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS get_push_decision(UUID, notification_type);
+
+CREATE OR REPLACE FUNCTION get_push_decision(
+  p_user_id UUID,
+  p_type notification_type,
+  p_digest_window_seconds INT DEFAULT 600,
+  p_hourly_limit INT DEFAULT 6
+)
+RETURNS TABLE(deliver BOOLEAN, reason TEXT, deliver_after TIMESTAMPTZ)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings notification_settings%ROWTYPE;
+  v_local TIMESTAMP;
+  v_local_time TIME;
+  v_in_quiet_hours BOOLEAN := false;
+  v_end_local TIMESTAMP;
+  v_window INTERVAL := make_interval(secs => p_digest_window_seconds);
+  v_sent_count INT;
+  v_oldest_sent TIMESTAMPTZ;
+  v_digest_at TIMESTAMPTZ;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM notification_preferences np
+    WHERE np.user_id = p_user_id
+      AND np.type = p_type
+      AND np.channel = 'push'
+      AND NOT np.enabled
+  ) THEN
+    RETURN QUERY SELECT false, 'opted_out'::text, NULL::timestamptz;
+    RETURN;
+  END IF;
+
+  -- Quiet hours
+  SELECT * INTO v_settings FROM notification_settings ns WHERE ns.user_id = p_user_id;
+
+  IF FOUND
+    AND v_settings.quiet_hours_start IS NOT NULL
+    AND v_settings.quiet_hours_start <> v_settings.quiet_hours_end THEN
+    v_local := now() AT TIME ZONE v_settings.timezone;
+    v_local_time := v_local::time;
+
+    IF v_settings.quiet_hours_start < v_settings.quiet_hours_end THEN
+      v_in_quiet_hours := v_local_time >= v_settings.quiet_hours_start
+        AND v_local_time < v_settings.quiet_hours_end;
+    ELSE
+      -- Overnight window, e.g. 22:00-07:00
+      v_in_quiet_hours := v_local_time >= v_settings.quiet_hours_start
+        OR v_local_time < v_settings.quiet_hours_end;
+    END IF;
+  END IF;
+
+  IF v_in_quiet_hours THEN
+    v_end_local := date_trunc('day', v_local) + v_settings.quiet_hours_end;
+    IF v_end_local <= v_local THEN
+      v_end_local := v_end_local + interval '1 day';
+    END IF;
+
+    RETURN QUERY SELECT false, 'quiet_hours'::text, v_end_local AT TIME ZONE v_settings.timezone;
+    RETURN;
+  END IF;
+
+  -- Hourly limit: wait until the oldest push of the last hour ages out
+  SELECT count(*), min(ps.sent_at)
+  INTO v_sent_count, v_oldest_sent
+  FROM push_sends ps
+  WHERE ps.user_id = p_user_id
+    AND ps.sent_at > now() - interval '1 hour';
+
+  IF p_hourly_limit > 0 AND v_sent_count >= p_hourly_limit THEN
+    RETURN QUERY SELECT false, 'rate_limited'::text, v_oldest_sent + interval '1 hour';
+    RETURN;
+  END IF;
+
+  -- Digest: join a pending digest, or start one if this type was just pushed
+  IF p_digest_window_seconds > 0 THEN
+    SELECT max(d.deliver_after) INTO v_digest_at
+    FROM deferred_push_notifications d
+    WHERE d.user_id = p_user_id
+      AND d.type = p_type
+      AND d.reason = 'digest';
+
+    IF v_digest_at IS NULL THEN
+      SELECT max(ps.sent_at) + v_window INTO v_digest_at
+      FROM push_sends ps
+      WHERE ps.user_id = p_user_id
+        AND ps.type = p_type
+        AND ps.sent_at > now() - v_window;
+    END IF;
+
+    IF v_digest_at IS NOT NULL THEN
+      RETURN QUERY SELECT false, 'digest'::text, v_digest_at;
+      RETURN;
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT true, NULL::text, NULL::timestamptz;
+END;
+$$;
+
+-- =============================================================================
+-- 4. Claim Due Deferred Pushes (oldest notification first, for digests)
+-- Still a 15 minute lease; rows are deleted once handled.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION claim_deferred_push_notifications(p_limit INT DEFAULT 100)
+RETURNS SETOF notifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT d.notification_id
+    FROM deferred_push_notifications d
+    WHERE d.deliver_after <= now()
+    ORDER BY d.deliver_after
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE deferred_push_notifications d
+    SET deliver_after = now() + interval '15 minutes'
+    FROM due
+    WHERE d.notification_id = due.notification_id
+    RETURNING d.notification_id
+  )
+  SELECT n.*
+  FROM notifications n
+  JOIN claimed c ON c.notification_id = n.id
+  ORDER BY n.created_at;
+END;
+$$;
+
+-- =============================================================================
+-- 5. Cleanup Function (run via cron)
+-- Only the last hour of push_sends is ever read.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION cleanup_push_sends()
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  deleted_count INT;
+BEGIN
+  DELETE FROM push_sends WHERE sent_at < now() - interval '1 day';
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$;
+
+-- =============================================================================
+-- 6. Grant Permissions
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION get_push_decision(UUID, notification_type, INT, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_push_decision(UUID, notification_type, INT, INT) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION cleanup_push_sends() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cleanup_push_sends() TO service_role;
+
+COMMENT ON FUNCTION get_push_decision IS 'Whether a push of this type may be sent to the user now, honouring preferences, quiet hours, the hourly limit and digest windows (used by Edge Function)';
+COMMENT ON FUNCTION cleanup_push_sends IS 'Deletes push_sends rows older than a day. Call periodically via cron or pg_cron.';
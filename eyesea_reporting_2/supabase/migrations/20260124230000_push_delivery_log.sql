@@ -0,0 +1,117 @@
+-- Migration: Push delivery log and retries
+--
+-- send-push-notification records every push per notification and device
+-- token in push_delivery_attempts. Transient FCM failures (429, 5xx) are
+-- left in status 'retrying' with next_retry_at set by exponential backoff;
+-- the function's retry_failed action claims and resends them.
+--
+-- Schedule retry_failed like flush_deferred (see
+-- 20260124210000_notification_preferences.sql), with
+-- body := '{"action": "retry_failed"}'::jsonb
+
+-- =============================================================================
+-- 1. Delivery Attempts Table
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.push_delivery_attempts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  notification_id UUID NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+  notification_ids UUID[] NOT NULL,     -- All notifications the push covered (digests)
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  token TEXT NOT NULL,
+  platform TEXT,
+  message JSONB NOT NULL,               -- FCM v1 message, resent on retry
+  status TEXT NOT NULL CHECK (status IN ('sent', 'retrying', 'failed', 'unregistered')),
+  error_code TEXT,                      -- FCM error code, e.g. UNAVAILABLE
+  http_status INT,
+  fcm_message_id TEXT,
+  attempt_count INT NOT NULL DEFAULT 1,
+  next_retry_at TIMESTAMPTZ,
+  last_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (notification_id, token)
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_delivery_attempts_user
+  ON push_delivery_attempts(user_id, last_attempt_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_push_delivery_attempts_notifications
+  ON push_delivery_attempts USING GIN (notification_ids);
+
+CREATE INDEX IF NOT EXISTS idx_push_delivery_attempts_retry
+  ON push_delivery_attempts(next_retry_at)
+  WHERE status = 'retrying';
+
+-- Device tokens are stored, so only the Edge Functions (service role) read it
+ALTER TABLE push_delivery_attempts ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON push_delivery_attempts TO service_role;
+
+COMMENT ON TABLE push_delivery_attempts IS 'Push delivery status per notification and device token, with retry state';
+
+-- =============================================================================
+-- 2. Function to Claim Due Retries
+-- Leases the rows (pushes next_retry_at out) so overlapping workers skip
+-- them; the attempt is then recorded by the Edge Function, which clears or
+-- reschedules next_retry_at.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION claim_push_retries(
+  p_limit INT DEFAULT 100,
+  p_lease_seconds INT DEFAULT 300
+)
+RETURNS SETOF push_delivery_attempts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE push_delivery_attempts a
+  SET next_retry_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE a.id IN (
+    SELECT d.id
+    FROM push_delivery_attempts d
+    WHERE d.status = 'retrying'
+      AND d.next_retry_at <= now()
+    ORDER BY d.next_retry_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING a.*;
+END;
+$$;
+
+-- =============================================================================
+-- 3. Cleanup Function (run via cron)
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION cleanup_push_delivery_attempts(p_older_than INTERVAL DEFAULT interval '30 days')
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  deleted_count INT;
+BEGIN
+  DELETE FROM push_delivery_attempts
+  WHERE last_attempt_at < now() - p_older_than
+    AND status <> 'retrying';
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$;
+
+-- =============================================================================
+-- 4. Grant Permissions
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION claim_push_retries(INT, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_push_retries(INT, INT) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION cleanup_push_delivery_attempts(INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cleanup_push_delivery_attempts(INTERVAL) TO service_role;
+
+COMMENT ON FUNCTION claim_push_retries IS 'Lease push attempts that are due for a retry (used by Edge Function)';
+COMMENT ON FUNCTION cleanup_push_delivery_attempts IS 'Deletes finished delivery attempts older than the given age. Call periodically via cron or pg_cron.';
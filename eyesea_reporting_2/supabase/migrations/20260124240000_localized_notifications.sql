@@ -0,0 +1,421 @@
+-- Migration: Localised notification content
+--
+-- Notifications keep an English title/body (shown in the in-app list and
+-- used as the push fallback) and now also a template_key with
+-- template_params. send-push-notification renders the push from its
+-- translation catalogues (functions/send-push-notification/i18n.ts) in the
+-- device locale, falling back to the profile country, then English.
+--
+-- The app reports the device locale when registering its push token
+-- (upsert_device_token p_locale, e.g. 'ro_RO').
+
+-- =============================================================================
+-- 1. Template Columns
+-- =============================================================================
+
+ALTER TABLE notifications
+  ADD COLUMN IF NOT EXISTS template_key TEXT,
+  ADD COLUMN IF NOT EXISTS template_params JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE device_tokens
+  ADD COLUMN IF NOT EXISTS locale TEXT;
+
+COMMENT ON COLUMN notifications.template_key IS 'Translation catalogue key for the push content; title/body are the English fallback';
+COMMENT ON COLUMN notifications.template_params IS 'Values for the {placeholders} of the template';
+COMMENT ON COLUMN device_tokens.locale IS 'Device locale reported by the app, e.g. ro_RO';
+
+-- =============================================================================
+-- 2. Device Token Functions
+-- Signatures change, so drop and recreate.
+-- =============================================================================
+
+DROP FUNCTION IF EXISTS upsert_device_token(TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION upsert_device_token(
+  p_token TEXT,
+  p_platform TEXT,
+  p_device_id TEXT DEFAULT NULL,
+  p_locale TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID;
+  v_token_id UUID;
+BEGIN
+  -- Get current user
+  v_user_id := auth.uid();
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Upsert the token
+  INSERT INTO device_tokens (user_id, token, platform, device_id, locale)
+  VALUES (v_user_id, p_token, p_platform, p_device_id, p_locale)
+  ON CONFLICT (token) DO UPDATE
+    SET user_id = v_user_id,
+        platform = p_platform,
+        device_id = COALESCE(p_device_id, device_tokens.device_id),
+        locale = COALESCE(p_locale, device_tokens.locale),
+        updated_at = now()
+  RETURNING id INTO v_token_id;
+
+  RETURN v_token_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION upsert_device_token(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+DROP FUNCTION IF EXISTS get_user_push_tokens(UUID);
+
+CREATE OR REPLACE FUNCTION get_user_push_tokens(p_user_id UUID)
+RETURNS TABLE(token TEXT, platform TEXT, locale TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT dt.token, dt.platform, dt.locale
+  FROM device_tokens dt
+  WHERE dt.user_id = p_user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_user_push_tokens(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_user_push_tokens(UUID) TO service_role;
+
+COMMENT ON FUNCTION upsert_device_token IS 'Upserts a device token (and its locale) for push notifications - call this on app launch';
+COMMENT ON FUNCTION get_user_push_tokens IS 'Gets all push tokens and their locales for a user - used by Edge Functions to send notifications';
+
+-- =============================================================================
+-- 3. Notification Producers
+-- Same behaviour as before, now also storing the template.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION public.notify_report_recovered()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  report_owner_id UUID;
+  report_address TEXT;
+BEGIN
+  -- Only trigger when status changes to 'resolved'
+  IF new.status = 'resolved' AND (old.status IS NULL OR old.status != 'resolved') THEN
+    SELECT user_id, address INTO report_owner_id, report_address
+    FROM public.reports
+    WHERE id = new.id;
+
+    -- Don't notify if the user recovered their own report
+    IF report_owner_id IS NOT NULL AND report_owner_id != auth.uid() THEN
+      INSERT INTO public.notifications (user_id, type, title, body, data, template_key, template_params)
+      VALUES (
+        report_owner_id,
+        'report_recovered',
+        'Your report was recovered!',
+        COALESCE('The pollution at ' || report_address || ' has been cleaned up.', 'A pollution site you reported has been cleaned up.'),
+        jsonb_build_object('report_id', new.id),
+        CASE WHEN report_address IS NULL THEN 'report_recovered_generic' ELSE 'report_recovered' END,
+        jsonb_strip_nulls(jsonb_build_object('address', report_address))
+      );
+    END IF;
+  END IF;
+
+  RETURN new;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_auto_moderation(p_report_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report reports%ROWTYPE;
+  v_ai ai_analysis%ROWTYPE;
+  v_rule auto_moderation_rules%ROWTYPE;
+  v_submitted TEXT[];
+  v_detected TEXT[];
+  v_agreement FLOAT;
+  v_matched BOOLEAN := false;
+  v_reason TEXT;
+BEGIN
+  SELECT * INTO v_report FROM reports WHERE id = p_report_id FOR UPDATE;
+  IF NOT FOUND OR v_report.status <> 'pending' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_ai FROM ai_analysis WHERE report_id = p_report_id;
+  IF NOT FOUND OR v_ai.analysis_status <> 'ok' THEN
+    RETURN NULL;
+  END IF;
+
+  v_detected := COALESCE(v_ai.pollution_detected, ARRAY[]::text[]);
+
+  -- Submitted types: the primary pollution_type plus any type with items counted
+  v_submitted := ARRAY(
+    SELECT v_report.pollution_type::text
+    UNION
+    SELECT key FROM jsonb_each_text(COALESCE(v_report.pollution_counts, '{}'::jsonb))
+    WHERE (value)::int > 0
+  );
+
+  SELECT count(*)::float / GREATEST(cardinality(v_submitted), 1)
+  INTO v_agreement
+  FROM unnest(v_submitted) AS t
+  WHERE t = ANY(v_detected);
+
+  FOR v_rule IN
+    SELECT * FROM auto_moderation_rules
+    WHERE enabled
+    ORDER BY priority, created_at
+  LOOP
+    CONTINUE WHEN v_rule.min_confidence IS NOT NULL
+      AND COALESCE(v_ai.confidence, 0) < v_rule.min_confidence;
+    CONTINUE WHEN v_rule.min_type_agreement IS NOT NULL
+      AND v_agreement < v_rule.min_type_agreement;
+    CONTINUE WHEN v_rule.max_fraud_score IS NOT NULL
+      AND COALESCE(v_report.fraud_score, 0) > v_rule.max_fraud_score;
+    CONTINUE WHEN v_rule.requires_no_pollution AND cardinality(v_detected) > 0;
+    -- Never auto-verify a report the fraud checks flagged
+    CONTINUE WHEN v_rule.action = 'verify' AND COALESCE(v_report.is_flagged, false);
+
+    v_matched := true;
+    EXIT;
+  END LOOP;
+
+  IF NOT v_matched THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_rule.action = 'verify' THEN
+    UPDATE reports SET
+      status = 'verified',
+      verified_at = now(),
+      review_reason = NULL,
+      auto_moderation_rule_id = v_rule.id,
+      auto_moderated_at = now()
+    WHERE id = p_report_id;
+
+    IF v_report.user_id IS NOT NULL THEN
+      INSERT INTO notifications (user_id, type, title, body, data, template_key)
+      VALUES (
+        v_report.user_id,
+        'report_verified',
+        'Your report was verified!',
+        'Thanks for reporting - our analysis confirmed the pollution in your photos.',
+        jsonb_build_object('report_id', p_report_id),
+        'report_auto_verified'
+      );
+    END IF;
+  ELSE
+    v_reason := format(
+      'AI detected no pollution (confidence %s); rule %s',
+      round(COALESCE(v_ai.confidence, 0)::numeric, 2),
+      v_rule.name
+    );
+
+    UPDATE reports SET
+      review_reason = v_reason,
+      auto_moderation_rule_id = v_rule.id,
+      auto_moderated_at = now()
+    WHERE id = p_report_id;
+
+    -- Re-analysis can match the same rule again; notify only once
+    IF v_report.user_id IS NOT NULL
+      AND v_report.auto_moderation_rule_id IS DISTINCT FROM v_rule.id THEN
+      INSERT INTO notifications (user_id, type, title, body, data, template_key)
+      VALUES (
+        v_report.user_id,
+        'report_under_review',
+        'Your report is being reviewed',
+        'We could not spot pollution in your photos, so a moderator will take a look.',
+        jsonb_build_object('report_id', p_report_id, 'review_reason', v_reason),
+        'report_under_review'
+      );
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'rule', v_rule.name,
+    'action', v_rule.action,
+    'type_agreement', round(v_agreement::numeric, 2),
+    'confidence', v_ai.confidence
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION moderate_report(
+  p_report_id UUID,
+  p_moderator_id UUID,
+  p_action TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_changes JSONB DEFAULT '{}'::jsonb  -- {pollution_type, severity, pollution_counts, duplicate_of}
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report reports%ROWTYPE;
+  v_previous JSONB;
+  v_changes JSONB;
+  v_target_id UUID;
+  v_title TEXT;
+  v_body TEXT;
+  v_template_key TEXT;
+  v_type notification_type;
+BEGIN
+  SELECT * INTO v_report FROM reports WHERE id = p_report_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Report % not found', p_report_id USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF v_report.status = 'resolved' THEN
+    RAISE EXCEPTION 'Report % is already resolved', p_report_id
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  v_previous := jsonb_build_object(
+    'status', v_report.status,
+    'pollution_type', v_report.pollution_type,
+    'severity', v_report.severity,
+    'pollution_counts', v_report.pollution_counts,
+    'is_flagged', v_report.is_flagged,
+    'review_reason', v_report.review_reason,
+    'duplicate_of', v_report.duplicate_of
+  );
+
+  IF p_action = 'approve' THEN
+    IF v_report.status = 'verified' THEN
+      RAISE EXCEPTION 'Report % is already verified', p_report_id
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    UPDATE reports SET
+      status = 'verified',
+      verified_at = now(),
+      is_flagged = false,
+      review_reason = NULL,
+      duplicate_of = NULL
+    WHERE id = p_report_id;
+
+    v_changes := jsonb_build_object('status', 'verified', 'is_flagged', false);
+    v_type := 'report_verified';
+    v_title := 'Your report was verified!';
+    v_body := 'A moderator confirmed your pollution report. Thank you!';
+    v_template_key := 'report_verified';
+
+  ELSIF p_action = 'reject' THEN
+    IF v_report.status = 'rejected' THEN
+      RAISE EXCEPTION 'Report % is already rejected', p_report_id
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    UPDATE reports SET
+      status = 'rejected',
+      review_reason = NULL
+    WHERE id = p_report_id;
+
+    v_changes := jsonb_build_object('status', 'rejected');
+    v_type := 'report_rejected';
+    v_title := 'Your report was not accepted';
+    v_body := COALESCE('Reason: ' || p_reason, 'A moderator could not confirm your report.');
+    v_template_key := CASE WHEN p_reason IS NULL THEN 'report_rejected_generic' ELSE 'report_rejected' END;
+
+  ELSIF p_action = 'merge_duplicate' THEN
+    v_target_id := (p_changes->>'duplicate_of')::uuid;
+
+    IF v_target_id IS NULL OR v_target_id = p_report_id THEN
+      RAISE EXCEPTION 'A different duplicate_of report is required'
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM reports WHERE id = v_target_id) THEN
+      RAISE EXCEPTION 'Report % not found', v_target_id USING ERRCODE = 'no_data_found';
+    END IF;
+    -- Keep chains one level deep so a merged report never points at another merge
+    IF EXISTS (SELECT 1 FROM reports WHERE id = v_target_id AND duplicate_of IS NOT NULL) THEN
+      RAISE EXCEPTION 'Report % is itself merged into another report', v_target_id
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    UPDATE reports SET
+      status = 'rejected',
+      duplicate_of = v_target_id,
+      review_reason = NULL
+    WHERE id = p_report_id;
+
+    -- Reports that were merged into this one move to the kept report
+    UPDATE reports SET duplicate_of = v_target_id
+    WHERE duplicate_of = p_report_id;
+
+    v_changes := jsonb_build_object('status', 'rejected', 'duplicate_of', v_target_id);
+    v_type := 'report_merged';
+    v_title := 'Your report was merged';
+    v_body := 'This pollution was already reported, so your report was merged with the existing one.';
+    v_template_key := 'report_merged';
+
+  ELSIF p_action = 'edit_classification' THEN
+    v_changes := p_changes - 'duplicate_of';
+
+    IF v_changes = '{}'::jsonb THEN
+      RAISE EXCEPTION 'No classification changes given'
+        USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    UPDATE reports SET
+      pollution_type = COALESCE((v_changes->>'pollution_type')::pollution_type, pollution_type),
+      severity = COALESCE((v_changes->>'severity')::int, severity),
+      pollution_counts = COALESCE(v_changes->'pollution_counts', pollution_counts)
+    WHERE id = p_report_id;
+
+    v_type := 'report_reclassified';
+    v_title := 'Your report was updated';
+    v_body := 'A moderator adjusted the pollution details of your report.';
+    v_template_key := 'report_reclassified';
+
+  ELSE
+    RAISE EXCEPTION 'Unknown moderation action: %', p_action
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  INSERT INTO moderation_actions (report_id, moderator_id, action, reason, previous, changes)
+  VALUES (p_report_id, p_moderator_id, p_action, p_reason, v_previous, v_changes);
+
+  IF v_report.user_id IS NOT NULL THEN
+    INSERT INTO notifications (user_id, type, title, body, data, template_key, template_params)
+    VALUES (
+      v_report.user_id,
+      v_type,
+      v_title,
+      v_body,
+      jsonb_build_object('report_id', p_report_id, 'action', p_action)
+        || CASE WHEN p_reason IS NOT NULL THEN jsonb_build_object('reason', p_reason) ELSE '{}'::jsonb END,
+      v_template_key,
+      jsonb_strip_nulls(jsonb_build_object('reason', p_reason))
+    );
+  END IF;
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'report_id', r.id,
+      'action', p_action,
+      'status', r.status,
+      'pollution_type', r.pollution_type,
+      'severity', r.severity,
+      'pollution_counts', r.pollution_counts,
+      'duplicate_of', r.duplicate_of
+    )
+    FROM reports r
+    WHERE r.id = p_report_id
+  );
+END;
+$$;
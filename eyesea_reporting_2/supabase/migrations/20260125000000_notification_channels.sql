@@ -0,0 +1,252 @@
+-- Migration: Email and webhook notification channels
+--
+-- Besides push, send-push-notification delivers each notification to the
+-- recipient's notification_endpoints: email addresses (sent over SMTP) and
+-- webhook URLs (POSTed as JSON, signed with the endpoint secret). Users mute
+-- a channel per notification type through notification_preferences as for
+-- push.
+--
+-- A new endpoint receives nothing until its owner confirms it: the
+-- send_confirmations action of send-push-notification sends the endpoint's
+-- confirmation code to the address or URL, and the owner passes it to
+-- confirm_notification_endpoint. Schedule send_confirmations like
+-- flush_deferred (see 20260124210000_notification_preferences.sql), with
+-- body := '{"action": "send_confirmations"}'::jsonb
+--
+-- Email and webhook deliveries are logged in push_delivery_attempts next to
+-- pushes and failed ones are resent by retry_failed.
+
+-- =============================================================================
+-- 1. Channels in Preferences
+-- =============================================================================
+
+ALTER TABLE notification_preferences
+  DROP CONSTRAINT IF EXISTS notification_preferences_channel_check;
+
+ALTER TABLE notification_preferences
+  ADD CONSTRAINT notification_preferences_channel_check
+  CHECK (channel IN ('push', 'email', 'webhook'));
+
+-- =============================================================================
+-- 2. Endpoints
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.notification_endpoints (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'webhook')),
+  target TEXT NOT NULL,                 -- Email address or webhook URL
+  secret TEXT NOT NULL DEFAULT encode(gen_random_bytes(32), 'hex'), -- Webhook signing secret
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  confirmation_code TEXT NOT NULL DEFAULT encode(gen_random_bytes(4), 'hex'),
+  confirmation_attempts INT NOT NULL DEFAULT 0,
+  confirmation_next_at TIMESTAMPTZ DEFAULT now(), -- When to (re)send the code; NULL once sent
+  confirmation_sent_at TIMESTAMPTZ,
+  confirmed_at TIMESTAMPTZ,             -- Deliveries start once set
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, channel, target),
+  CHECK (
+    (channel = 'email' AND target ~ '^[^@\s]+@[^@\s]+\.[^@\s]+$')
+    OR (channel = 'webhook' AND target ~ '^https://')
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_endpoints_user
+  ON notification_endpoints(user_id)
+  WHERE enabled;
+
+CREATE INDEX IF NOT EXISTS idx_notification_endpoints_confirmation
+  ON notification_endpoints(confirmation_next_at)
+  WHERE confirmed_at IS NULL;
+
+ALTER TABLE notification_endpoints ENABLE ROW LEVEL SECURITY;
+
+-- Owners may read the secret to verify webhook signatures
+DROP POLICY IF EXISTS "Users can manage own notification endpoints" ON notification_endpoints;
+CREATE POLICY "Users can manage own notification endpoints"
+  ON notification_endpoints FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Owners only pick the channel and target and toggle the endpoint; the
+-- confirmation code is never readable, so it proves control of the target
+REVOKE ALL ON notification_endpoints FROM anon, authenticated;
+GRANT SELECT (id, user_id, channel, target, secret, enabled, confirmation_sent_at, confirmed_at, created_at, updated_at)
+  ON notification_endpoints TO authenticated;
+GRANT INSERT (user_id, channel, target, enabled) ON notification_endpoints TO authenticated;
+GRANT UPDATE (enabled) ON notification_endpoints TO authenticated;
+GRANT DELETE ON notification_endpoints TO authenticated;
+GRANT SELECT, UPDATE ON notification_endpoints TO service_role;
+
+DROP TRIGGER IF EXISTS notification_endpoints_updated_at ON notification_endpoints;
+CREATE TRIGGER notification_endpoints_updated_at
+  BEFORE UPDATE ON notification_endpoints
+  FOR EACH ROW
+  EXECUTE FUNCTION update_device_token_timestamp();
+
+COMMENT ON TABLE notification_endpoints IS 'Email addresses and webhook URLs that receive a user''s notifications';
+COMMENT ON COLUMN notification_endpoints.secret IS 'HMAC-SHA256 key for the X-EyeSea-Signature header of webhook deliveries';
+
+-- =============================================================================
+-- 3. Function to List a User's Endpoints for a Notification
+-- Skips disabled and unconfirmed endpoints and channels muted for the type.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION get_notification_endpoints(
+  p_user_id UUID,
+  p_type notification_type
+)
+RETURNS TABLE(id UUID, channel TEXT, target TEXT, secret TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT ne.id, ne.channel, ne.target, ne.secret
+  FROM notification_endpoints ne
+  WHERE ne.user_id = p_user_id
+    AND ne.enabled
+    AND ne.confirmed_at IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM notification_preferences np
+      WHERE np.user_id = p_user_id
+        AND np.type = p_type
+        AND np.channel = ne.channel
+        AND NOT np.enabled
+    );
+END;
+$$;
+
+-- =============================================================================
+-- 4. Function to Claim Endpoints Awaiting their Confirmation Code
+-- Leases the rows (pushes confirmation_next_at out) so overlapping workers
+-- skip them; the Edge Function clears confirmation_next_at once the code is
+-- sent, otherwise it is tried again after the lease. Endpoints that could
+-- not be reached within a day are given up.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION claim_endpoint_confirmations(
+  p_limit INT DEFAULT 100,
+  p_lease_seconds INT DEFAULT 900
+)
+RETURNS TABLE(id UUID, user_id UUID, channel TEXT, target TEXT, secret TEXT, confirmation_code TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE notification_endpoints e
+  SET confirmation_next_at = now() + make_interval(secs => p_lease_seconds)
+  WHERE e.id IN (
+    SELECT d.id
+    FROM notification_endpoints d
+    WHERE d.confirmed_at IS NULL
+      AND d.confirmation_next_at <= now()
+      AND d.created_at > now() - interval '1 day'
+    ORDER BY d.confirmation_next_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING e.id, e.user_id, e.channel, e.target, e.secret, e.confirmation_code;
+END;
+$$;
+
+-- =============================================================================
+-- 5. Function to Confirm an Endpoint
+-- Called by the owner with the code sent to the endpoint. Five wrong codes
+-- lock the endpoint; delete and add it again to get a new code.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION confirm_notification_endpoint(
+  p_endpoint_id UUID,
+  p_code TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_endpoint notification_endpoints%ROWTYPE;
+BEGIN
+  SELECT * INTO v_endpoint
+  FROM notification_endpoints
+  WHERE id = p_endpoint_id
+    AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_endpoint.confirmation_attempts >= 5 THEN
+    RETURN false;
+  END IF;
+
+  IF v_endpoint.confirmed_at IS NOT NULL THEN
+    RETURN true;
+  END IF;
+
+  IF v_endpoint.confirmation_sent_at IS NULL OR v_endpoint.confirmation_code <> lower(trim(p_code)) THEN
+    UPDATE notification_endpoints
+    SET confirmation_attempts = confirmation_attempts + 1
+    WHERE id = p_endpoint_id;
+    RETURN false;
+  END IF;
+
+  UPDATE notification_endpoints
+  SET confirmed_at = now()
+  WHERE id = p_endpoint_id;
+  RETURN true;
+END;
+$$;
+
+-- =============================================================================
+-- 6. Channel Deliveries in the Delivery Log
+-- One row per notification and endpoint; message holds the notification so
+-- retry_failed can send it again. Push rows keep token and an FCM message.
+-- =============================================================================
+
+ALTER TABLE push_delivery_attempts
+  ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'push'
+    CHECK (channel IN ('push', 'email', 'webhook')),
+  ADD COLUMN IF NOT EXISTS endpoint_id UUID REFERENCES notification_endpoints(id) ON DELETE CASCADE;
+
+ALTER TABLE push_delivery_attempts
+  ALTER COLUMN token DROP NOT NULL;
+
+ALTER TABLE push_delivery_attempts
+  DROP CONSTRAINT IF EXISTS push_delivery_attempts_notification_id_endpoint_id_key;
+
+ALTER TABLE push_delivery_attempts
+  ADD CONSTRAINT push_delivery_attempts_notification_id_endpoint_id_key
+  UNIQUE (notification_id, endpoint_id);
+
+ALTER TABLE push_delivery_attempts
+  DROP CONSTRAINT IF EXISTS push_delivery_attempts_target_check;
+
+ALTER TABLE push_delivery_attempts
+  ADD CONSTRAINT push_delivery_attempts_target_check
+  CHECK (
+    (channel = 'push' AND token IS NOT NULL AND endpoint_id IS NULL)
+    OR (channel <> 'push' AND endpoint_id IS NOT NULL AND token IS NULL)
+  );
+
+COMMENT ON TABLE push_delivery_attempts IS 'Delivery status per notification and device token (push) or endpoint (email, webhook), with retry state';
+
+-- =============================================================================
+-- 7. Grant Permissions
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION get_notification_endpoints(UUID, notification_type) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_notification_endpoints(UUID, notification_type) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION claim_endpoint_confirmations(INT, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_endpoint_confirmations(INT, INT) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION confirm_notification_endpoint(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION confirm_notification_endpoint(UUID, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION get_notification_endpoints IS 'Enabled, confirmed email/webhook endpoints of a user for a notification type (used by Edge Function)';
+COMMENT ON FUNCTION claim_endpoint_confirmations IS 'Lease endpoints whose confirmation code is due to be sent (used by Edge Function)';
+COMMENT ON FUNCTION confirm_notification_endpoint IS 'Confirm one of the caller''s endpoints with the code sent to it; false when the code is wrong';
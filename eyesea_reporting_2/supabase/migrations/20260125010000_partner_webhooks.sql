@@ -0,0 +1,364 @@
+-- Migration: Partner status-change webhooks
+--
+-- An API key may register a callback URL (POST /submit-report/webhook).
+-- Changes to the reports it submitted (matched by reports.api_key_id, now
+-- stored by create_api_report) are queued in partner_webhook_deliveries by
+-- triggers:
+-- - report.status_changed   status moved (pending -> verified, ...)
+-- - report.merged           marked as a duplicate of another report
+-- - report.analyzed         AI analysis of every image done (or refreshed)
+--
+-- The deliver-partner-webhooks function sends them signed with the key's
+-- webhook secret and retries failures with backoff. Schedule it like the
+-- push workers (see 20260124210000_notification_preferences.sql), e.g.
+-- every minute with body := '{}'::jsonb.
+
+-- =============================================================================
+-- 1. Webhook Registration on API Keys
+-- =============================================================================
+
+ALTER TABLE api_keys
+  ADD COLUMN IF NOT EXISTS webhook_url TEXT CHECK (webhook_url ~ '^https://'),
+  ADD COLUMN IF NOT EXISTS webhook_secret TEXT,
+  ADD COLUMN IF NOT EXISTS webhook_updated_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN api_keys.webhook_url IS 'Partner callback for report status changes (HTTPS)';
+COMMENT ON COLUMN api_keys.webhook_secret IS 'HMAC-SHA256 key for the X-EyeSea-Signature header of webhook calls';
+
+-- =============================================================================
+-- 2. Submitting Key on Reports
+-- api_source holds the key name, which several keys may share; webhooks go
+-- to the key that submitted the report. Existing reports are matched by
+-- name where it is unambiguous.
+-- =============================================================================
+
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS api_key_id UUID REFERENCES api_keys(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reports_api_key_id
+  ON reports(api_key_id) WHERE api_key_id IS NOT NULL;
+
+UPDATE reports r
+SET api_key_id = k.id
+FROM api_keys k
+WHERE r.api_source = k.name
+  AND r.api_key_id IS NULL
+  AND (SELECT count(*) FROM api_keys k2 WHERE k2.name = k.name) = 1;
+
+COMMENT ON COLUMN reports.api_key_id IS 'API key that submitted the report (API submissions only)';
+
+CREATE OR REPLACE FUNCTION create_api_report(
+  p_report JSONB,  -- {id, latitude, longitude, pollution_type, severity, notes,
+                   --  city, country, pollution_counts, api_source, api_key_id,
+                   --  api_reference, exif_mismatch_score, exif_warnings}
+  p_images JSONB   -- [{storage_path, thumbnail_path, width, height,
+                   --   exif_distance_km, exif_captured_at, phash, duplicate_of,
+                   --   is_primary}, ...]
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report_id UUID;
+BEGIN
+  IF p_images IS NULL OR jsonb_typeof(p_images) <> 'array' OR jsonb_array_length(p_images) = 0 THEN
+    RAISE EXCEPTION 'At least one image is required';
+  END IF;
+
+  INSERT INTO reports (
+    id,
+    user_id,
+    location,
+    pollution_type,
+    severity,
+    notes,
+    city,
+    country,
+    pollution_counts,
+    status,
+    is_anonymous,
+    api_source,
+    api_key_id,
+    api_reference,
+    exif_mismatch_score,
+    exif_warnings
+  )
+  VALUES (
+    COALESCE((p_report->>'id')::uuid, gen_random_uuid()),
+    NULL, -- API submissions don't have an authenticated user
+    ST_SetSRID(
+      ST_MakePoint((p_report->>'longitude')::float8, (p_report->>'latitude')::float8),
+      4326
+    )::geography,
+    (p_report->>'pollution_type')::pollution_type,
+    (p_report->>'severity')::int,
+    p_report->>'notes',
+    p_report->>'city',
+    p_report->>'country',
+    COALESCE(p_report->'pollution_counts', '{}'::jsonb),
+    'pending',
+    true,
+    p_report->>'api_source',
+    (p_report->>'api_key_id')::uuid,
+    p_report->>'api_reference',
+    COALESCE((p_report->>'exif_mismatch_score')::decimal, 0),
+    ARRAY(SELECT jsonb_array_elements_text(COALESCE(p_report->'exif_warnings', '[]'::jsonb)))
+  )
+  RETURNING id INTO v_report_id;
+
+  INSERT INTO report_images (
+    report_id, storage_path, thumbnail_path, width, height,
+    exif_distance_km, exif_captured_at, phash, duplicate_of, is_primary
+  )
+  SELECT
+    v_report_id,
+    img->>'storage_path',
+    img->>'thumbnail_path',
+    (img->>'width')::int,
+    (img->>'height')::int,
+    (img->>'exif_distance_km')::float8,
+    (img->>'exif_captured_at')::timestamptz,
+    ('x' || (img->>'phash'))::bit(64), -- 16 hex characters
+    (img->>'duplicate_of')::uuid,
+    COALESCE((img->>'is_primary')::boolean, false)
+  FROM jsonb_array_elements(p_images) AS img;
+
+  RETURN v_report_id;
+END;
+$$;
+
+-- =============================================================================
+-- 3. Delivery Queue and History
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.partner_webhook_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  api_key_id UUID NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+  report_id UUID REFERENCES reports(id) ON DELETE SET NULL,
+  event TEXT NOT NULL CHECK (event IN ('report.status_changed', 'report.merged', 'report.analyzed')),
+  payload JSONB NOT NULL,               -- Body sent to the partner
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'delivered', 'retrying', 'failed')),
+  attempt_count INT NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_http_status INT,
+  last_error TEXT,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_partner_webhook_deliveries_due
+  ON partner_webhook_deliveries(next_attempt_at)
+  WHERE status IN ('pending', 'retrying');
+
+CREATE INDEX IF NOT EXISTS idx_partner_webhook_deliveries_key
+  ON partner_webhook_deliveries(api_key_id, created_at DESC);
+
+-- Only the Edge Functions (service role) use the queue
+ALTER TABLE partner_webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON partner_webhook_deliveries TO service_role;
+
+COMMENT ON TABLE partner_webhook_deliveries IS 'Webhook calls to partners about their API-submitted reports, with retry state and history';
+
+-- =============================================================================
+-- 4. Function to Queue an Event
+-- No-op unless the report came from an API key with a webhook.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION enqueue_partner_webhook(
+  p_report_id UUID,
+  p_event TEXT,
+  p_data JSONB DEFAULT '{}'::jsonb
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_report reports%ROWTYPE;
+BEGIN
+  SELECT * INTO v_report FROM reports WHERE id = p_report_id;
+  IF NOT FOUND OR v_report.api_key_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO partner_webhook_deliveries (api_key_id, report_id, event, payload)
+  SELECT
+    k.id,
+    p_report_id,
+    p_event,
+    jsonb_build_object(
+      'event', p_event,
+      'occurred_at', now(),
+      'report_id', p_report_id,
+      'api_reference', v_report.api_reference,
+      'status', v_report.status,
+      'data', p_data
+    )
+  FROM api_keys k
+  WHERE k.id = v_report.api_key_id
+    AND k.is_active
+    AND k.webhook_url IS NOT NULL;
+END;
+$$;
+
+-- =============================================================================
+-- 5. Triggers
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION queue_partner_report_webhook()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Merging also rejects the report; send a single merged event for it
+  IF NEW.duplicate_of IS NOT NULL AND NEW.duplicate_of IS DISTINCT FROM OLD.duplicate_of THEN
+    PERFORM enqueue_partner_webhook(NEW.id, 'report.merged', jsonb_build_object(
+      'duplicate_of', NEW.duplicate_of,
+      'previous_status', OLD.status
+    ));
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM enqueue_partner_webhook(NEW.id, 'report.status_changed', jsonb_build_object(
+      'previous_status', OLD.status,
+      'verified_at', NEW.verified_at
+    ));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_partner_report_change ON reports;
+CREATE TRIGGER on_partner_report_change
+  AFTER UPDATE OF status, duplicate_of ON reports
+  FOR EACH ROW
+  WHEN (NEW.api_key_id IS NOT NULL)
+  EXECUTE FUNCTION queue_partner_report_webhook();
+
+CREATE OR REPLACE FUNCTION queue_partner_analysis_webhook()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Only once every image has a result: on-device baselines stored while
+  -- the images are still being analysed are not final
+  IF NOT EXISTS (SELECT 1 FROM report_images ri WHERE ri.report_id = NEW.report_id)
+    OR EXISTS (
+      SELECT 1
+      FROM report_images ri
+      LEFT JOIN ai_image_analysis a ON a.image_id = ri.id
+      WHERE ri.report_id = NEW.report_id
+        AND a.id IS NULL
+    ) THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM enqueue_partner_webhook(NEW.report_id, 'report.analyzed', jsonb_build_object(
+    'analysis_status', NEW.analysis_status,
+    'pollution_detected', to_jsonb(NEW.pollution_detected),
+    'pollution_counts', NEW.pollution_type_counts,
+    'severity', NEW.severity,
+    'confidence', NEW.confidence,
+    'analyzed_at', NEW.analyzed_at
+  ));
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_partner_report_analyzed ON ai_analysis;
+CREATE TRIGGER on_partner_report_analyzed
+  AFTER INSERT OR UPDATE OF analyzed_at ON ai_analysis
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_partner_analysis_webhook();
+
+-- =============================================================================
+-- 6. Function to Claim Due Deliveries
+-- Leases the rows like claim_push_retries; the worker then records the
+-- outcome and clears or reschedules next_attempt_at.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION claim_partner_webhook_deliveries(
+  p_limit INT DEFAULT 100,
+  p_lease_seconds INT DEFAULT 300
+)
+RETURNS TABLE(
+  id UUID,
+  api_key_id UUID,
+  event TEXT,
+  payload JSONB,
+  attempt_count INT,
+  webhook_url TEXT,
+  webhook_secret TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE partner_webhook_deliveries d
+    SET next_attempt_at = now() + make_interval(secs => p_lease_seconds)
+    WHERE d.id IN (
+      SELECT q.id
+      FROM partner_webhook_deliveries q
+      WHERE q.status IN ('pending', 'retrying')
+        AND q.next_attempt_at <= now()
+      ORDER BY q.next_attempt_at
+      LIMIT p_limit
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING d.*
+  )
+  SELECT c.id, c.api_key_id, c.event, c.payload, c.attempt_count, k.webhook_url, k.webhook_secret
+  FROM claimed c
+  JOIN api_keys k ON k.id = c.api_key_id;
+END;
+$$;
+
+-- =============================================================================
+-- 7. Cleanup Function (run via cron)
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION cleanup_partner_webhook_deliveries(p_older_than INTERVAL DEFAULT interval '30 days')
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  deleted_count INT;
+BEGIN
+  DELETE FROM partner_webhook_deliveries
+  WHERE created_at < now() - p_older_than
+    AND status IN ('delivered', 'failed');
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$;
+
+-- =============================================================================
+-- 8. Grant Permissions
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION enqueue_partner_webhook(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION enqueue_partner_webhook(UUID, TEXT, JSONB) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION claim_partner_webhook_deliveries(INT, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_partner_webhook_deliveries(INT, INT) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION cleanup_partner_webhook_deliveries(INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cleanup_partner_webhook_deliveries(INTERVAL) TO service_role;
+
+COMMENT ON FUNCTION enqueue_partner_webhook IS 'Queue a webhook call about an API-submitted report to its partner, if one is registered';
+COMMENT ON FUNCTION claim_partner_webhook_deliveries IS 'Lease partner webhook calls that are due (used by Edge Function)';
+COMMENT ON FUNCTION cleanup_partner_webhook_deliveries IS 'Deletes finished partner webhook deliveries older than the given age. Call periodically via cron or pg_cron.';
@@ -0,0 +1,16 @@
+-- Migration: Geocoding provider chain
+--
+-- The geocode function now tries several providers in turn (Mapbox,
+-- Nominatim, a bundled offline dataset; see GEOCODE_PROVIDERS). Record which
+-- one answered and the ISO country code alongside each cached result.
+
+-- =============================================================================
+-- 1. Provider and Country Code on Cached Results
+-- =============================================================================
+
+ALTER TABLE location_cache
+  ADD COLUMN IF NOT EXISTS provider TEXT NOT NULL DEFAULT 'mapbox',
+  ADD COLUMN IF NOT EXISTS country_code CHAR(2);
+
+COMMENT ON COLUMN location_cache.provider IS 'Geocoding provider that produced the result (mapbox, nominatim)';
+COMMENT ON COLUMN location_cache.country_code IS 'ISO 3166-1 alpha-2 country code, upper case';
@@ -0,0 +1,21 @@
+-- Migration: Marine-aware geocoding
+--
+-- The geocode function now resolves offshore points to the sea or ocean,
+-- the country whose EEZ they fall in and the distance to the coast (see
+-- functions/geocode/marine.ts). Cache those with each result.
+
+-- =============================================================================
+-- 1. Marine Context on Cached Results
+-- =============================================================================
+
+ALTER TABLE location_cache
+  ADD COLUMN IF NOT EXISTS offshore BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS water_body TEXT,
+  ADD COLUMN IF NOT EXISTS eez_country TEXT,
+  ADD COLUMN IF NOT EXISTS eez_country_code CHAR(2),
+  ADD COLUMN IF NOT EXISTS coast_distance_km DECIMAL(7, 1);
+
+COMMENT ON COLUMN location_cache.offshore IS 'True when no land geocoder result exists for the point';
+COMMENT ON COLUMN location_cache.water_body IS 'Sea or ocean, for offshore and coastal points';
+COMMENT ON COLUMN location_cache.eez_country IS 'Country whose exclusive economic zone contains the point (approximate)';
+COMMENT ON COLUMN location_cache.coast_distance_km IS 'Approximate distance to the nearest coast; NULL for entries cached before marine lookups';
@@ -0,0 +1,55 @@
+-- Migration: Geocoding for API reports
+--
+-- submit-report now reverse geocodes each new report in the background
+-- (functions/submit-report/geocoding.ts) to fill a missing city/country and
+-- to check the country a partner sent against the coordinates.
+
+-- =============================================================================
+-- 1. Geocoded Location on Reports
+-- =============================================================================
+
+ALTER TABLE reports
+  ADD COLUMN IF NOT EXISTS geocoded_country TEXT,
+  ADD COLUMN IF NOT EXISTS country_mismatch BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN reports.geocoded_country IS 'Country at the report coordinates (or whose waters they are in), from reverse geocoding';
+COMMENT ON COLUMN reports.country_mismatch IS 'True when the submitted country disagrees with the coordinates';
+
+-- =============================================================================
+-- 2. Record Geocoding Result
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION record_report_geocoding(
+  p_report_id UUID,
+  p_city TEXT,
+  p_country TEXT,
+  p_country_mismatch BOOLEAN
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Submitted values win; geocoded ones only fill the gaps
+  UPDATE reports
+  SET
+    city = COALESCE(NULLIF(city, ''), p_city),
+    country = COALESCE(NULLIF(country, ''), p_country),
+    geocoded_country = p_country,
+    country_mismatch = p_country_mismatch,
+    fraud_warnings = CASE
+      WHEN p_country_mismatch THEN array_append(
+        COALESCE(fraud_warnings, '{}'),
+        format('Submitted country "%s" does not match the coordinates (%s)', country, p_country)
+      )
+      ELSE fraud_warnings
+    END
+  WHERE id = p_report_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_report_geocoding(UUID, TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_report_geocoding(UUID, TEXT, TEXT, BOOLEAN) TO service_role;
+
+COMMENT ON FUNCTION record_report_geocoding IS 'Fill missing city/country on a report from reverse geocoding and flag a country mismatch (used by Edge Function)';
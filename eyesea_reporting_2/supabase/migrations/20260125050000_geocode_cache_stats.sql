@@ -0,0 +1,90 @@
+-- Migration: Geocoding cache policies and usage stats
+--
+-- The geocode function now keeps offshore results longer than place names,
+-- serves expired entries while it refreshes them, and counts cache hits,
+-- misses and provider calls per day (see functions/_shared/geocoding/).
+-- The geocode-stats admin function reports on those counts.
+
+-- =============================================================================
+-- 1. Daily Usage Counters
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.geocode_stats (
+  day DATE NOT NULL DEFAULT CURRENT_DATE,
+  kind TEXT NOT NULL CHECK (kind IN ('cache_hit', 'cache_stale', 'cache_miss', 'provider_call', 'provider_error')),
+  provider TEXT NOT NULL DEFAULT '',   -- Empty for cache counters
+  count BIGINT NOT NULL DEFAULT 0,
+  PRIMARY KEY (day, kind, provider)
+);
+
+ALTER TABLE geocode_stats ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON geocode_stats TO service_role;
+
+COMMENT ON TABLE geocode_stats IS 'Daily geocoding cache and provider usage counters';
+COMMENT ON COLUMN geocode_stats.kind IS 'cache_hit, cache_stale (expired entry served while refreshed), cache_miss, provider_call or provider_error';
+
+-- =============================================================================
+-- 2. Record Counters
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION record_geocode_stats(
+  p_stats JSONB  -- [{kind, provider, count}, ...]
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO geocode_stats (day, kind, provider, count)
+  SELECT CURRENT_DATE, s.kind, COALESCE(s.provider, ''), s.count
+  FROM jsonb_to_recordset(p_stats) AS s(kind TEXT, provider TEXT, count BIGINT)
+  WHERE s.count > 0
+  ON CONFLICT (day, kind, provider)
+  DO UPDATE SET count = geocode_stats.count + EXCLUDED.count;
+END;
+$$;
+
+-- =============================================================================
+-- 3. Cleanup Keeps Entries That Can Still Be Served Stale
+-- =============================================================================
+
+-- Takes the stale window now. The geocode function reads its window from
+-- GEOCODE_CACHE_STALE_DAYS (default 30), which the database can't see, so
+-- the scheduler must pass the same value; the default only matches an
+-- unset variable. With a shorter window, entries the function would still
+-- serve stale are deleted early. E.g. with pg_cron, for 60 days:
+--
+--   SELECT cron.schedule('cleanup-location-cache', '0 3 * * *', $$
+--     SELECT cleanup_expired_location_cache(interval '60 days');
+--   $$);
+DROP FUNCTION IF EXISTS cleanup_expired_location_cache();
+
+CREATE OR REPLACE FUNCTION cleanup_expired_location_cache(p_stale_for INTERVAL DEFAULT interval '30 days')
+RETURNS INT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  deleted_count INT;
+BEGIN
+  DELETE FROM location_cache WHERE expires_at < now() - p_stale_for;
+  GET DIAGNOSTICS deleted_count = ROW_COUNT;
+  RETURN deleted_count;
+END;
+$$;
+
+-- =============================================================================
+-- 4. Grant Permissions
+-- =============================================================================
+
+REVOKE EXECUTE ON FUNCTION record_geocode_stats(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_geocode_stats(JSONB) TO service_role;
+
+REVOKE EXECUTE ON FUNCTION cleanup_expired_location_cache(INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cleanup_expired_location_cache(INTERVAL) TO service_role;
+
+COMMENT ON FUNCTION record_geocode_stats IS 'Add geocoding usage counts to today''s totals (used by Edge Functions)';
+COMMENT ON FUNCTION cleanup_expired_location_cache IS 'Deletes location cache entries expired for longer than the stale window, which must match GEOCODE_CACHE_STALE_DAYS. Call periodically via cron or pg_cron.';